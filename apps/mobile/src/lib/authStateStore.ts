@@ -6,6 +6,7 @@ import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
+import type { ServerType } from '@tracearr/shared';
 import { zustandStorage } from './storage';
 import * as ResilientStorage from './resilientStorage';
 import { api, resetApiClient } from './api';
@@ -17,7 +18,7 @@ export interface StoredServer {
   id: string;
   url: string;
   name: string;
-  type: 'plex' | 'jellyfin' | 'emby';
+  type: ServerType;
   pairedAt: string;
 }
 
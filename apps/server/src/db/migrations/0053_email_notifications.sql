@@ -0,0 +1,13 @@
+ALTER TABLE "notification_channel_routing" ADD COLUMN "email_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_host" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_port" integer;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_security" varchar(20);--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_username" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_password" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_from" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "smtp_to" text;--> statement-breakpoint
+
+-- Match the existing defaults: low-priority events are opt-in for email
+UPDATE "notification_channel_routing"
+SET "email_enabled" = false
+WHERE "event_type" IN ('stream_started', 'stream_stopped', 'trust_score_changed');
@@ -0,0 +1,12 @@
+ALTER TABLE "notification_channel_routing" ADD COLUMN "telegram_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" ADD COLUMN "matrix_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "telegram_bot_token" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "telegram_chat_id" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "matrix_homeserver_url" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "matrix_access_token" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "matrix_room_id" text;--> statement-breakpoint
+
+-- Match the existing defaults: low-priority events are opt-in for chat agents
+UPDATE "notification_channel_routing"
+SET "telegram_enabled" = false, "matrix_enabled" = false
+WHERE "event_type" IN ('stream_started', 'stream_stopped', 'trust_score_changed');
@@ -0,0 +1,127 @@
+CREATE TABLE "notification_destinations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"events" text[] DEFAULT '{}' NOT NULL,
+	"min_severity" varchar(20) DEFAULT 'low' NOT NULL,
+	"server_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD COLUMN "destination_id" uuid;--> statement-breakpoint
+CREATE INDEX "notification_destinations_type_idx" ON "notification_destinations" USING btree ("type");--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_destination_id_notification_destinations_id_fk" FOREIGN KEY ("destination_id") REFERENCES "public"."notification_destinations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Move the single per-type notification settings into named destinations.
+-- Each destination subscribes to the events its channel type was routed to.
+INSERT INTO "notification_destinations" ("name", "type", "config", "events")
+SELECT
+  'Discord',
+  'discord',
+  jsonb_build_object('discordWebhookUrl', s."discord_webhook_url"),
+  COALESCE(
+    (SELECT array_agg(r."event_type"::text ORDER BY r."event_type") FROM "notification_channel_routing" r WHERE r."discord_enabled"),
+    '{}'
+  )
+FROM "settings" s
+WHERE s."discord_webhook_url" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "notification_destinations" ("name", "type", "config", "events")
+SELECT
+  CASE COALESCE(s."webhook_format", 'json')
+    WHEN 'ntfy' THEN 'ntfy'
+    WHEN 'apprise' THEN 'Apprise'
+    WHEN 'pushover' THEN 'Pushover'
+    WHEN 'gotify' THEN 'Gotify'
+    ELSE 'JSON Webhook'
+  END,
+  COALESCE(s."webhook_format", 'json'),
+  jsonb_strip_nulls(jsonb_build_object(
+    'customWebhookUrl', CASE WHEN s."webhook_format" IS DISTINCT FROM 'pushover' THEN s."custom_webhook_url" END,
+    'webhookSecret', CASE WHEN COALESCE(s."webhook_format", 'json') = 'json' THEN s."webhook_secret" END,
+    'ntfyTopic', CASE WHEN s."webhook_format" = 'ntfy' THEN s."ntfy_topic" END,
+    'ntfyAuthToken', CASE WHEN s."webhook_format" = 'ntfy' THEN s."ntfy_auth_token" END,
+    'pushoverUserKey', CASE WHEN s."webhook_format" = 'pushover' THEN s."pushover_user_key" END,
+    'pushoverApiToken', CASE WHEN s."webhook_format" = 'pushover' THEN s."pushover_api_token" END
+  )),
+  COALESCE(
+    (SELECT array_agg(r."event_type"::text ORDER BY r."event_type") FROM "notification_channel_routing" r WHERE r."webhook_enabled"),
+    '{}'
+  )
+FROM "settings" s
+WHERE (s."webhook_format" IS DISTINCT FROM 'pushover' AND s."custom_webhook_url" IS NOT NULL)
+  OR (s."webhook_format" = 'pushover' AND s."pushover_user_key" IS NOT NULL);--> statement-breakpoint
+INSERT INTO "notification_destinations" ("name", "type", "config", "events")
+SELECT
+  'Email',
+  'email',
+  jsonb_strip_nulls(jsonb_build_object(
+    'smtpHost', s."smtp_host",
+    'smtpPort', s."smtp_port",
+    'smtpSecurity', s."smtp_security",
+    'smtpUsername', s."smtp_username",
+    'smtpPassword', s."smtp_password",
+    'smtpFrom', s."smtp_from",
+    'smtpTo', s."smtp_to"
+  )),
+  COALESCE(
+    (SELECT array_agg(r."event_type"::text ORDER BY r."event_type") FROM "notification_channel_routing" r WHERE r."email_enabled"),
+    '{}'
+  )
+FROM "settings" s
+WHERE s."smtp_host" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "notification_destinations" ("name", "type", "config", "events")
+SELECT
+  'Telegram',
+  'telegram',
+  jsonb_strip_nulls(jsonb_build_object(
+    'telegramBotToken', s."telegram_bot_token",
+    'telegramChatId', s."telegram_chat_id"
+  )),
+  COALESCE(
+    (SELECT array_agg(r."event_type"::text ORDER BY r."event_type") FROM "notification_channel_routing" r WHERE r."telegram_enabled"),
+    '{}'
+  )
+FROM "settings" s
+WHERE s."telegram_bot_token" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "notification_destinations" ("name", "type", "config", "events")
+SELECT
+  'Matrix',
+  'matrix',
+  jsonb_strip_nulls(jsonb_build_object(
+    'matrixHomeserverUrl', s."matrix_homeserver_url",
+    'matrixAccessToken', s."matrix_access_token",
+    'matrixRoomId', s."matrix_room_id"
+  )),
+  COALESCE(
+    (SELECT array_agg(r."event_type"::text ORDER BY r."event_type") FROM "notification_channel_routing" r WHERE r."matrix_enabled"),
+    '{}'
+  )
+FROM "settings" s
+WHERE s."matrix_homeserver_url" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "discord_enabled";--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "webhook_enabled";--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "email_enabled";--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "telegram_enabled";--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "matrix_enabled";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "discord_webhook_url";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "custom_webhook_url";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "webhook_format";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "webhook_secret";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "ntfy_topic";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "ntfy_auth_token";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "pushover_user_key";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "pushover_api_token";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_host";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_port";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_security";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_username";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_password";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_from";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "smtp_to";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "telegram_bot_token";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "telegram_chat_id";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "matrix_homeserver_url";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "matrix_access_token";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "matrix_room_id";
\ No newline at end of file
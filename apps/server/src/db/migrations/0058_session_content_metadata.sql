@@ -0,0 +1,2 @@
+ALTER TABLE "sessions" ADD COLUMN "content_rating" varchar(50);--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "genres" text[];
\ No newline at end of file
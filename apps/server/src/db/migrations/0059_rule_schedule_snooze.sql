@@ -0,0 +1,2 @@
+ALTER TABLE "rules" ADD COLUMN "schedule" jsonb;--> statement-breakpoint
+ALTER TABLE "rules" ADD COLUMN "snoozed_until" timestamp with time zone;
\ No newline at end of file
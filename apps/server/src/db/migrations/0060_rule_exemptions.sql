@@ -0,0 +1,22 @@
+CREATE TABLE "rule_exemptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_user_id" uuid,
+	"user_id" uuid,
+	"rule_id" uuid,
+	"reason" text NOT NULL,
+	"expires_at" timestamp with time zone,
+	"created_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"revoked_by_user_id" uuid,
+	CONSTRAINT "rule_exemptions_subject" CHECK (("rule_exemptions"."server_user_id" IS NULL) <> ("rule_exemptions"."user_id" IS NULL))
+);
+--> statement-breakpoint
+ALTER TABLE "rule_exemptions" ADD CONSTRAINT "rule_exemptions_server_user_id_server_users_id_fk" FOREIGN KEY ("server_user_id") REFERENCES "public"."server_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rule_exemptions" ADD CONSTRAINT "rule_exemptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rule_exemptions" ADD CONSTRAINT "rule_exemptions_rule_id_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."rules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rule_exemptions" ADD CONSTRAINT "rule_exemptions_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rule_exemptions" ADD CONSTRAINT "rule_exemptions_revoked_by_user_id_users_id_fk" FOREIGN KEY ("revoked_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rule_exemptions_server_user_idx" ON "rule_exemptions" USING btree ("server_user_id");--> statement-breakpoint
+CREATE INDEX "rule_exemptions_user_idx" ON "rule_exemptions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "rule_exemptions_rule_idx" ON "rule_exemptions" USING btree ("rule_id");
\ No newline at end of file
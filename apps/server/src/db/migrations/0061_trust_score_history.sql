@@ -0,0 +1,20 @@
+CREATE TABLE "trust_score_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_user_id" uuid NOT NULL,
+	"previous_score" integer NOT NULL,
+	"new_score" integer NOT NULL,
+	"source" varchar(30) NOT NULL,
+	"reason" text,
+	"changed_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trust_recovery_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trust_recovery_points" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trust_recovery_interval_days" integer DEFAULT 7 NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trust_recovery_floor" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trust_recovery_cap" integer DEFAULT 100 NOT NULL;--> statement-breakpoint
+ALTER TABLE "trust_score_history" ADD CONSTRAINT "trust_score_history_server_user_id_server_users_id_fk" FOREIGN KEY ("server_user_id") REFERENCES "public"."server_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trust_score_history" ADD CONSTRAINT "trust_score_history_changed_by_user_id_users_id_fk" FOREIGN KEY ("changed_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trust_score_history_server_user_created_idx" ON "trust_score_history" USING btree ("server_user_id","created_at");--> statement-breakpoint
+CREATE INDEX "trust_score_history_source_idx" ON "trust_score_history" USING btree ("source");
\ No newline at end of file
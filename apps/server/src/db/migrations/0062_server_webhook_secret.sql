@@ -0,0 +1 @@
+ALTER TABLE "servers" ADD COLUMN "webhook_secret" text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "server_resource_samples" (
+	"server_id" uuid NOT NULL,
+	"sampled_at" timestamp with time zone NOT NULL,
+	"host_cpu_utilization" real,
+	"process_cpu_utilization" real,
+	"host_memory_utilization" real,
+	"process_memory_utilization" real,
+	"stream_count" integer DEFAULT 0 NOT NULL,
+	"transcode_count" integer DEFAULT 0 NOT NULL,
+	"bandwidth_kbps" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "server_resource_samples_server_id_sampled_at_pk" PRIMARY KEY("server_id","sampled_at")
+);
+--> statement-breakpoint
+ALTER TABLE "server_resource_samples" ADD CONSTRAINT "server_resource_samples_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "server_resource_samples_time_idx" ON "server_resource_samples" USING btree ("sampled_at");
\ No newline at end of file
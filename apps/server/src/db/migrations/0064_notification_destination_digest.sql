@@ -0,0 +1 @@
+ALTER TABLE "notification_destinations" ADD COLUMN "digest_frequency" varchar(10) DEFAULT 'off' NOT NULL;
\ No newline at end of file
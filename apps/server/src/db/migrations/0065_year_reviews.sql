@@ -0,0 +1,12 @@
+CREATE TABLE "year_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_user_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"stats" jsonb NOT NULL,
+	"generated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "server_users" ADD COLUMN "year_review_opt_out" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "year_reviews" ADD CONSTRAINT "year_reviews_server_user_id_server_users_id_fk" FOREIGN KEY ("server_user_id") REFERENCES "public"."server_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "year_reviews_user_year_unique" ON "year_reviews" USING btree ("server_user_id","year");--> statement-breakpoint
+CREATE INDEX "year_reviews_year_idx" ON "year_reviews" USING btree ("year");
\ No newline at end of file
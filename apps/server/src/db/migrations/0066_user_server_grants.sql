@@ -0,0 +1,12 @@
+CREATE TABLE "user_server_grants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"server_id" uuid NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_server_grants" ADD CONSTRAINT "user_server_grants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_server_grants" ADD CONSTRAINT "user_server_grants_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "user_server_grants_user_server_unique" ON "user_server_grants" USING btree ("user_id","server_id");--> statement-breakpoint
+CREATE INDEX "user_server_grants_server_idx" ON "user_server_grants" USING btree ("server_id");
\ No newline at end of file
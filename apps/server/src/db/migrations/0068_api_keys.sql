@@ -0,0 +1,32 @@
+CREATE TABLE "api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"token_prefix" varchar(16) NOT NULL,
+	"scopes" jsonb NOT NULL,
+	"server_id" uuid,
+	"expires_at" timestamp with time zone,
+	"last_used_at" timestamp with time zone,
+	"request_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_keys_user_idx" ON "api_keys" USING btree ("user_id");--> statement-breakpoint
+
+-- Carry existing single keys over as a "Default" key with every read scope,
+-- so integrations keep working (only the hash is kept from here on)
+INSERT INTO "api_keys" ("user_id", "name", "token_hash", "token_prefix", "scopes")
+SELECT
+  "id",
+  'Default',
+  encode(sha256(convert_to("api_token", 'UTF8')), 'hex'),
+  left("api_token", 12),
+  '["stats:read","streams:read","users:read","violations:read","history:read","audit:read"]'::jsonb
+FROM "users"
+WHERE "api_token" IS NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "api_token";
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "audit_log" ADD COLUMN "api_key_name" varchar(100);
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "settings" ADD COLUMN "oidc_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_discovery_url" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_client_id" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_client_secret" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_scopes" text DEFAULT 'openid profile email' NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_role_claim" varchar(100) DEFAULT 'groups' NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_role_mapping" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_default_role" varchar(20);--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "oidc_auto_provision" boolean DEFAULT false NOT NULL;
\ No newline at end of file
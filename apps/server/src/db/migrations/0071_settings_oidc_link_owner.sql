@@ -0,0 +1 @@
+ALTER TABLE "settings" ADD COLUMN "oidc_link_owner" boolean DEFAULT false NOT NULL;
\ No newline at end of file
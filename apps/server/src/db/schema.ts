@@ -23,12 +23,27 @@ import {
   uniqueIndex,
   unique,
   check,
+  primaryKey,
 } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
-import { MEDIA_TYPES, type WebhookFormat } from '@tracearr/shared';
+import {
+  MEDIA_TYPES,
+  SERVER_TYPES,
+  type ApiKeyScope,
+  type AuditAction,
+  type AuditTargetType,
+  type DigestFrequency,
+  type NotificationDestinationConfig,
+  type NotificationDestinationType,
+  type OidcRole,
+  type OidcRoleMapping,
+  type ServerGrantRole,
+  type UserRole,
+  type YearReviewStats,
+} from '@tracearr/shared';
 
-// Server types enum
-export const serverTypeEnum = ['plex', 'jellyfin', 'emby'] as const;
+// Server types enum - imported from shared package (varchar column, no migration needed)
+export const serverTypeEnum = SERVER_TYPES;
 
 // Session state enum
 export const sessionStateEnum = ['playing', 'paused', 'stopped'] as const;
@@ -62,6 +77,10 @@ import type {
   SubtitleInfo,
   RuleConditions,
   RuleActions,
+  RuleSchedule,
+  NotificationTemplateEventType,
+  NotificationTemplateAgent,
+  WebhookDeliveryStatus,
 } from '@tracearr/shared';
 
 // Re-export for consumers of this module
@@ -86,6 +105,8 @@ export const servers = pgTable(
     machineIdentifier: varchar('machine_identifier', { length: 100 }), // Plex clientIdentifier for dedup
     // For Plex servers: which linked Plex account this server was added from (nullable for Jellyfin/Emby and legacy)
     plexAccountId: uuid('plex_account_id'),
+    // Secret in the inbound webhook URL (null = webhooks disabled)
+    webhookSecret: text('webhook_secret'),
     displayOrder: integer('display_order').default(0).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -117,16 +138,10 @@ export const users = pgTable(
     passwordHash: text('password_hash'), // bcrypt hash for local login
     plexAccountId: varchar('plex_account_id', { length: 255 }), // Plex.tv global account ID for OAuth
 
-    // Public API access
-    apiToken: varchar('api_token', { length: 60 }), // Public API key (format: trr_pub_<base64url>)
-
     // Access control - combined permission level and account status
-    // Can log in: 'owner', 'admin', 'viewer'
+    // Can log in: 'owner', 'admin', 'moderator', 'viewer'
     // Cannot log in: 'member' (default), 'disabled', 'pending'
-    role: varchar('role', { length: 20 })
-      .notNull()
-      .$type<'owner' | 'admin' | 'viewer' | 'member' | 'disabled' | 'pending'>()
-      .default('member'),
+    role: varchar('role', { length: 20 }).notNull().$type<UserRole>().default('member'),
 
     // Aggregated metrics (cached, updated by triggers)
     aggregateTrustScore: integer('aggregate_trust_score').notNull().default(100),
@@ -219,6 +234,9 @@ export const serverUsers = pgTable(
     trustScore: integer('trust_score').notNull().default(100),
     sessionCount: integer('session_count').notNull().default(0), // For aggregate weighting
 
+    // Privacy: exclude from Year in Review generation and sharing
+    yearReviewOptOut: boolean('year_review_opt_out').notNull().default(false),
+
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -265,6 +283,8 @@ export const sessions = pgTable(
     seasonNumber: integer('season_number'), // Season number (for episodes)
     episodeNumber: integer('episode_number'), // Episode number (for episodes)
     year: integer('year'), // Release year
+    contentRating: varchar('content_rating', { length: 50 }), // e.g. 'PG-13', 'TV-MA'
+    genres: text('genres').array(), // Null when the server didn't report genres
     thumbPath: varchar('thumb_path', { length: 500 }), // Poster path (e.g., /library/metadata/123/thumb)
     ratingKey: varchar('rating_key', { length: 255 }), // Plex/Jellyfin media identifier
     externalSessionId: varchar('external_session_id', { length: 255 }), // External reference for deduplication
@@ -389,6 +409,9 @@ export const rules = pgTable(
     serverId: uuid('server_id').references(() => servers.id, { onDelete: 'cascade' }),
     serverUserId: uuid('server_user_id').references(() => serverUsers.id, { onDelete: 'cascade' }),
     isActive: boolean('is_active').notNull().default(true),
+    // Weekly enforcement windows (null = always) and temporary pause
+    schedule: jsonb('schedule').$type<RuleSchedule>(),
+    snoozedUntil: timestamp('snoozed_until', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -468,6 +491,39 @@ export const ruleActionResults = pgTable(
   ]
 );
 
+// Rule exemptions - skip rules for a server user or a whole identity
+// Rows are kept after expiry/revocation so they stay in the user's history
+export const ruleExemptions = pgTable(
+  'rule_exemptions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    // Exactly one of serverUserId (one account) or userId (every account of an identity)
+    serverUserId: uuid('server_user_id').references(() => serverUsers.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    // Null exempts from every rule
+    ruleId: uuid('rule_id').references(() => rules.id, { onDelete: 'cascade' }),
+    reason: text('reason').notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    createdByUserId: uuid('created_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    revokedByUserId: uuid('revoked_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+  },
+  (table) => [
+    index('rule_exemptions_server_user_idx').on(table.serverUserId),
+    index('rule_exemptions_user_idx').on(table.userId),
+    index('rule_exemptions_rule_idx').on(table.ruleId),
+    check(
+      'rule_exemptions_subject',
+      sql`(${table.serverUserId} IS NULL) <> (${table.userId} IS NULL)`
+    ),
+  ]
+);
+
 // Mobile pairing tokens (one-time use, expire after 15 minutes)
 export const mobileTokens = pgTable('mobile_tokens', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -478,6 +534,33 @@ export const mobileTokens = pgTable('mobile_tokens', {
   usedAt: timestamp('used_at', { withTimezone: true }), // Set when token is used, null = unused
 });
 
+/**
+ * Public API keys - named, scoped keys for third-party integrations
+ *
+ * Only a SHA-256 hash of the token (trr_pub_<base64url>) is stored; the token
+ * itself is shown once at creation. A key with a serverId only sees that server.
+ */
+export const apiKeys = pgTable(
+  'api_keys',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    tokenPrefix: varchar('token_prefix', { length: 16 }).notNull(),
+    scopes: jsonb('scopes').notNull().$type<ApiKeyScope[]>(),
+    serverId: uuid('server_id').references(() => servers.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    // Usage, updated on every authenticated request
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    requestCount: integer('request_count').notNull().default(0),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index('api_keys_user_idx').on(table.userId)]
+);
+
 // Mobile sessions (paired devices)
 export const mobileSessions = pgTable(
   'mobile_sessions',
@@ -573,7 +656,8 @@ export const notificationEventTypeEnum = [
 ] as const;
 
 // Notification channel routing configuration
-// Controls which channels receive which event types (web admin configurable)
+// Controls which built-in channels receive which event types (web admin configurable).
+// External destinations carry their own event subscriptions.
 export const notificationChannelRouting = pgTable(
   'notification_channel_routing',
   {
@@ -584,8 +668,6 @@ export const notificationChannelRouting = pgTable(
       .$type<(typeof notificationEventTypeEnum)[number]>(),
 
     // Channel toggles
-    discordEnabled: boolean('discord_enabled').notNull().default(true),
-    webhookEnabled: boolean('webhook_enabled').notNull().default(true),
     pushEnabled: boolean('push_enabled').notNull().default(true),
     webToastEnabled: boolean('web_toast_enabled').notNull().default(true),
 
@@ -596,6 +678,107 @@ export const notificationChannelRouting = pgTable(
   (table) => [index('notification_channel_routing_event_type_idx').on(table.eventType)]
 );
 
+// Named external notification destinations (Discord channels, webhooks, email, chat rooms...)
+// Several destinations of the same type can exist, each with its own subscriptions and filters
+export const notificationDestinations = pgTable(
+  'notification_destinations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 100 }).notNull(),
+    type: varchar('type', { length: 20 }).notNull().$type<NotificationDestinationType>(),
+    // Connection settings for the destination's agent (URLs, tokens, SMTP server...)
+    config: jsonb('config').notNull().$type<NotificationDestinationConfig>().default({}),
+    enabled: boolean('enabled').notNull().default(true),
+
+    // Routing: subscribed events, severity floor and server filter (empty = all servers)
+    events: text('events')
+      .array()
+      .notNull()
+      .$type<(typeof notificationEventTypeEnum)[number][]>()
+      .default([]),
+    minSeverity: varchar('min_severity', { length: 20 })
+      .notNull()
+      .$type<'low' | 'warning' | 'high'>()
+      .default('low'),
+    serverIds: uuid('server_ids').array().notNull().default([]),
+    // Scheduled usage digest sent to this destination (covers its servers)
+    digestFrequency: varchar('digest_frequency', { length: 10 })
+      .notNull()
+      .$type<DigestFrequency>()
+      .default('off'),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index('notification_destinations_type_idx').on(table.type)]
+);
+
+// User-defined notification templates, one per (event type, agent)
+// Events/agents without a template fall back to the built-in formatting
+export const notificationTemplates = pgTable(
+  'notification_templates',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    eventType: varchar('event_type', { length: 50 })
+      .notNull()
+      .$type<NotificationTemplateEventType>(),
+    // Notification agent name (discord, ntfy, email, telegram, ...)
+    agent: varchar('agent', { length: 50 }).notNull().$type<NotificationTemplateAgent>(),
+
+    // Template strings with {{variable}} placeholders
+    title: text('title').notNull(),
+    body: text('body').notNull(),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('notification_templates_event_agent_idx').on(table.eventType, table.agent),
+  ]
+);
+
+// Outgoing JSON webhook deliveries, one row per event (attempts update the row)
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    event: varchar('event', { length: 50 }).notNull(),
+    url: text('url').notNull(),
+    // Exact request body, so retries and redeliveries send (and sign) the same bytes
+    payload: text('payload').notNull(),
+    status: varchar('status', { length: 20 })
+      .notNull()
+      .$type<WebhookDeliveryStatus>()
+      .default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+
+    // Outcome of the most recent attempt
+    statusCode: integer('status_code'),
+    latencyMs: integer('latency_ms'),
+    responseSnippet: text('response_snippet'),
+    error: text('error'),
+
+    // Destination that sent it (its signing secret is used for retries)
+    destinationId: uuid('destination_id').references(() => notificationDestinations.id, {
+      onDelete: 'set null',
+    }),
+
+    // Set when this delivery is a manual redelivery of an earlier one
+    redeliveryOf: uuid('redelivery_of'),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('webhook_deliveries_created_at_idx').on(table.createdAt),
+    index('webhook_deliveries_status_idx').on(table.status),
+  ]
+);
+
 // Termination trigger type enum
 export const terminationTriggerEnum = ['manual', 'rule'] as const;
 
@@ -651,6 +834,41 @@ export const terminationLogs = pgTable(
   ]
 );
 
+// Trust score change source enum
+export const trustScoreChangeSourceEnum = [
+  'violation',
+  'violation_dismissed',
+  'rule_action',
+  'manual',
+  'recovery',
+] as const;
+
+// Trust score history - one row per change to a server user's trust score
+export const trustScoreHistory = pgTable(
+  'trust_score_history',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    serverUserId: uuid('server_user_id')
+      .notNull()
+      .references(() => serverUsers.id, { onDelete: 'cascade' }),
+    previousScore: integer('previous_score').notNull(),
+    newScore: integer('new_score').notNull(),
+    source: varchar('source', { length: 30 })
+      .notNull()
+      .$type<(typeof trustScoreChangeSourceEnum)[number]>(),
+    reason: text('reason'),
+    // Who made the change (manual changes only)
+    changedByUserId: uuid('changed_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('trust_score_history_server_user_created_idx').on(table.serverUserId, table.createdAt),
+    index('trust_score_history_source_idx').on(table.source),
+  ]
+);
+
 // Unit system enum for display preferences
 export const unitSystemEnum = ['metric', 'imperial'] as const;
 
@@ -663,14 +881,6 @@ export const settings = pgTable('settings', {
     .notNull()
     .$type<(typeof unitSystemEnum)[number]>()
     .default('metric'),
-  // Notification settings
-  discordWebhookUrl: text('discord_webhook_url'),
-  customWebhookUrl: text('custom_webhook_url'),
-  webhookFormat: text('webhook_format').$type<WebhookFormat>(), // Format for custom webhook payloads
-  ntfyTopic: text('ntfy_topic'), // Topic for ntfy notifications (required when webhookFormat is 'ntfy')
-  ntfyAuthToken: text('ntfy_auth_token'), // Auth token for protected ntfy servers (Bearer token)
-  pushoverUserKey: text('pushover_user_key'),
-  pushoverApiToken: text('pushover_api_token'),
   // Poller settings
   pollerEnabled: boolean('poller_enabled').notNull().default(true),
   pollerIntervalMs: integer('poller_interval_ms').notNull().default(15000),
@@ -689,6 +899,23 @@ export const settings = pgTable('settings', {
     .$type<'jellyfin' | 'local'>()
     .notNull()
     .default('local'), // Default to local auth
+  // OpenID Connect single sign-on
+  oidcEnabled: boolean('oidc_enabled').notNull().default(false),
+  oidcDiscoveryUrl: text('oidc_discovery_url'), // Issuer URL or its .well-known/openid-configuration
+  oidcClientId: text('oidc_client_id'),
+  oidcClientSecret: text('oidc_client_secret'),
+  oidcScopes: text('oidc_scopes').notNull().default('openid profile email'),
+  oidcRoleClaim: varchar('oidc_role_claim', { length: 100 }).notNull().default('groups'),
+  oidcRoleMapping: jsonb('oidc_role_mapping').$type<OidcRoleMapping[]>().notNull().default([]),
+  oidcDefaultRole: varchar('oidc_default_role', { length: 20 }).$type<OidcRole>(), // Null = refuse unmapped new users
+  oidcAutoProvision: boolean('oidc_auto_provision').notNull().default(false),
+  oidcLinkOwner: boolean('oidc_link_owner').notNull().default(false), // Allow SSO sign-in as the owner
+  // Trust score recovery (+points per clean interval, capped; users below the floor are skipped)
+  trustRecoveryEnabled: boolean('trust_recovery_enabled').notNull().default(false),
+  trustRecoveryPoints: integer('trust_recovery_points').notNull().default(5),
+  trustRecoveryIntervalDays: integer('trust_recovery_interval_days').notNull().default(7),
+  trustRecoveryFloor: integer('trust_recovery_floor').notNull().default(0),
+  trustRecoveryCap: integer('trust_recovery_cap').notNull().default(100),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -1008,3 +1235,147 @@ export const libraryItemsRelations = relations(libraryItems, ({ one }) => ({
     references: [servers.id],
   }),
 }));
+
+/**
+ * Server resource samples - per-minute resource history for each server
+ *
+ * This table is converted to a TimescaleDB hypertable with 1-day chunks.
+ * CPU/memory columns are null for servers that don't report them (Jellyfin, Emby);
+ * stream, transcode and bandwidth figures come from active sessions for every server.
+ *
+ * Compression: Activates after 1 day
+ * Retention: 30 days (automatic chunk dropping)
+ */
+export const serverResourceSamples = pgTable(
+  'server_resource_samples',
+  {
+    // DIMENSION: Low cardinality (~1-10 servers)
+    serverId: uuid('server_id')
+      .notNull()
+      .references(() => servers.id, { onDelete: 'cascade' }),
+    // TIME DIMENSION: Primary partitioning key for hypertable
+    sampledAt: timestamp('sampled_at', { withTimezone: true }).notNull(),
+
+    // Utilization percentages (0-100)
+    hostCpuUtilization: real('host_cpu_utilization'),
+    processCpuUtilization: real('process_cpu_utilization'),
+    hostMemoryUtilization: real('host_memory_utilization'),
+    processMemoryUtilization: real('process_memory_utilization'),
+
+    // Derived from active sessions at sample time
+    streamCount: integer('stream_count').notNull().default(0),
+    transcodeCount: integer('transcode_count').notNull().default(0),
+    bandwidthKbps: integer('bandwidth_kbps').notNull().default(0),
+  },
+  (table) => [
+    primaryKey({ columns: [table.serverId, table.sampledAt] }),
+    // Index on sampled_at for retention policy efficiency
+    index('server_resource_samples_time_idx').on(table.sampledAt),
+  ]
+);
+
+export const serverResourceSamplesRelations = relations(serverResourceSamples, ({ one }) => ({
+  server: one(servers, {
+    fields: [serverResourceSamples.serverId],
+    references: [servers.id],
+  }),
+}));
+
+/**
+ * Year in Review - generated yearly summaries per server user
+ *
+ * Regenerating a year replaces the stored stats. Rows are removed when the
+ * user opts out, and share links stop resolving.
+ */
+export const yearReviews = pgTable(
+  'year_reviews',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    serverUserId: uuid('server_user_id')
+      .notNull()
+      .references(() => serverUsers.id, { onDelete: 'cascade' }),
+    year: integer('year').notNull(),
+    stats: jsonb('stats').notNull().$type<YearReviewStats>(),
+    generatedAt: timestamp('generated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('year_reviews_user_year_unique').on(table.serverUserId, table.year),
+    index('year_reviews_year_idx').on(table.year),
+  ]
+);
+
+export const yearReviewsRelations = relations(yearReviews, ({ one }) => ({
+  serverUser: one(serverUsers, {
+    fields: [yearReviews.serverUserId],
+    references: [serverUsers.id],
+  }),
+}));
+
+/**
+ * User Server Grants - narrow a Tracearr account to specific servers
+ *
+ * A user without grants has their account role on every server. Once any grant
+ * exists, only granted servers are visible and each uses the granted role for
+ * server-scoped permissions.
+ */
+export const userServerGrants = pgTable(
+  'user_server_grants',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    serverId: uuid('server_id')
+      .notNull()
+      .references(() => servers.id, { onDelete: 'cascade' }),
+    role: varchar('role', { length: 20 }).notNull().$type<ServerGrantRole>(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('user_server_grants_user_server_unique').on(table.userId, table.serverId),
+    index('user_server_grants_server_idx').on(table.serverId),
+  ]
+);
+
+export const userServerGrantsRelations = relations(userServerGrants, ({ one }) => ({
+  user: one(users, {
+    fields: [userServerGrants.userId],
+    references: [users.id],
+  }),
+  server: one(servers, {
+    fields: [userServerGrants.serverId],
+    references: [servers.id],
+  }),
+}));
+
+/**
+ * Audit Log - append-only record of administrative actions
+ *
+ * The actor is stored by id and username without a foreign key so entries
+ * outlive deleted users. A trigger (see migration) rejects UPDATE and DELETE.
+ */
+export const auditLog = pgTable(
+  'audit_log',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    actorUserId: uuid('actor_user_id'),
+    actorUsername: varchar('actor_username', { length: 255 }).notNull(),
+    // Set when the action came through the public API (name kept after the key is revoked)
+    apiKeyName: varchar('api_key_name', { length: 100 }),
+    action: varchar('action', { length: 50 }).notNull().$type<AuditAction>(),
+    targetType: varchar('target_type', { length: 20 }).notNull().$type<AuditTargetType>(),
+    targetId: varchar('target_id', { length: 255 }),
+    targetLabel: text('target_label'),
+    // Only the fields that changed
+    before: jsonb('before').$type<Record<string, unknown>>(),
+    after: jsonb('after').$type<Record<string, unknown>>(),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('audit_log_created_at_idx').on(table.createdAt),
+    index('audit_log_action_idx').on(table.action),
+    index('audit_log_actor_idx').on(table.actorUserId),
+    index('audit_log_target_idx').on(table.targetType, table.targetId),
+  ]
+);
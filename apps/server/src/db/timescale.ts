@@ -7,6 +7,7 @@
 
 import { db } from './client.js';
 import { sql } from 'drizzle-orm';
+import { SERVER_RESOURCE_HISTORY } from '@tracearr/shared';
 import { PRIMARY_MEDIA_TYPES_SQL_LITERAL } from '../constants/mediaTypes.js';
 
 /**
@@ -1335,6 +1336,15 @@ export async function initTimescaleDB(): Promise<{
     actions.push('Engagement views: creation skipped (may need manual rebuild)');
   }
 
+  // Server resource history hypertable (sampled once a minute)
+  try {
+    const samplesResult = await initServerResourceSamplesHypertable();
+    actions.push(...samplesResult.actions);
+  } catch (err) {
+    console.warn('Failed to set up server_resource_samples hypertable:', err);
+    actions.push('server_resource_samples: hypertable setup skipped');
+  }
+
   // Get final status
   const status = await getTimescaleStatus();
 
@@ -1945,3 +1955,103 @@ export async function initLibrarySnapshotsHypertable(): Promise<{
 
   return { success: true, actions };
 }
+
+// ============================================================================
+// Server Resource Samples Hypertable
+// ============================================================================
+
+/**
+ * Initialize server_resource_samples as a TimescaleDB hypertable
+ *
+ * This function is idempotent and safe to run multiple times:
+ * - Converts table to hypertable with 1-day chunks (PK already includes sampled_at)
+ * - Compresses chunks older than 1 day, segmented by server
+ * - Adds a retention policy matching SERVER_RESOURCE_HISTORY.RETENTION_DAYS
+ *
+ * Called from initTimescaleDB() on server startup.
+ */
+export async function initServerResourceSamplesHypertable(): Promise<{
+  success: boolean;
+  actions: string[];
+}> {
+  const actions: string[] = [];
+
+  const hasExtension = await isTimescaleInstalled();
+  if (!hasExtension) {
+    return {
+      success: true,
+      actions: ['TimescaleDB extension not installed - skipping server_resource_samples setup'],
+    };
+  }
+
+  const tableExists = await db.execute(sql`
+    SELECT EXISTS(
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = 'server_resource_samples'
+    ) as exists
+  `);
+
+  if (!(tableExists.rows[0] as { exists: boolean })?.exists) {
+    return {
+      success: true,
+      actions: ['server_resource_samples table does not exist yet - skipping hypertable setup'],
+    };
+  }
+
+  const hypertableResult = await db.execute(sql`
+    SELECT compression_enabled
+    FROM timescaledb_information.hypertables
+    WHERE hypertable_name = 'server_resource_samples'
+  `);
+  const hypertable = hypertableResult.rows[0] as { compression_enabled: boolean } | undefined;
+
+  if (!hypertable) {
+    await db.execute(sql`
+      SELECT create_hypertable('server_resource_samples', 'sampled_at',
+        chunk_time_interval => INTERVAL '1 day',
+        migrate_data => true,
+        if_not_exists => true
+      )
+    `);
+    actions.push('Converted server_resource_samples to hypertable with 1-day chunks');
+  } else {
+    actions.push('server_resource_samples already a hypertable');
+  }
+
+  if (!hypertable?.compression_enabled) {
+    await db.execute(sql`
+      ALTER TABLE server_resource_samples SET (
+        timescaledb.compress,
+        timescaledb.compress_segmentby = 'server_id'
+      )
+    `);
+    await db.execute(sql`
+      SELECT add_compression_policy('server_resource_samples', INTERVAL '1 day', if_not_exists => true)
+    `);
+    actions.push('Enabled compression on server_resource_samples (1-day window)');
+  } else {
+    actions.push('Compression already enabled on server_resource_samples');
+  }
+
+  // Replace any existing policy so a changed retention period takes effect
+  try {
+    await db.execute(
+      sql`SELECT remove_retention_policy('server_resource_samples', if_exists => true)`
+    );
+  } catch {
+    // Ignore errors - policy may not exist
+  }
+  await db.execute(
+    sql.raw(`
+      SELECT add_retention_policy('server_resource_samples',
+        INTERVAL '${SERVER_RESOURCE_HISTORY.RETENTION_DAYS} days',
+        if_not_exists => true
+      )
+    `)
+  );
+  actions.push(
+    `Ensured ${SERVER_RESOURCE_HISTORY.RETENTION_DAYS}-day retention policy on server_resource_samples`
+  );
+
+  return { success: true, actions };
+}
@@ -10,7 +10,7 @@ import rateLimit from '@fastify/rate-limit';
 import fastifyStatic from '@fastify/static';
 import { existsSync, readFileSync } from 'node:fs';
 import { Redis } from 'ioredis';
-import { API_BASE_PATH, REDIS_KEYS, WS_EVENTS } from '@tracearr/shared';
+import { API_BASE_PATH, REDIS_KEYS, SERVER_RESOURCE_HISTORY, WS_EVENTS } from '@tracearr/shared';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -33,6 +33,8 @@ import type {
   DashboardStats,
   TautulliImportProgress,
   JellystatImportProgress,
+  HistoryImportProgress,
+  BackupRestoreProgress,
   MaintenanceJobProgress,
   LibrarySyncProgress,
 } from '@tracearr/shared';
@@ -45,21 +47,30 @@ import { serverRoutes } from './routes/servers.js';
 import { userRoutes } from './routes/users/index.js';
 import { sessionRoutes } from './routes/sessions.js';
 import { ruleRoutes } from './routes/rules.js';
+import { ruleExemptionRoutes } from './routes/ruleExemptions.js';
 import { violationRoutes } from './routes/violations.js';
 import { statsRoutes } from './routes/stats/index.js';
 import { settingsRoutes } from './routes/settings.js';
 import { importRoutes } from './routes/import.js';
+import { backupRoutes } from './routes/backup.js';
 import { imageRoutes } from './routes/images.js';
 import { stopImageCacheCleanup } from './services/imageProxy.js';
 import { debugRoutes } from './routes/debug.js';
 import { mobileRoutes } from './routes/mobile.js';
 import { notificationPreferencesRoutes } from './routes/notificationPreferences.js';
 import { channelRoutingRoutes } from './routes/channelRouting.js';
+import { notificationTemplateRoutes } from './routes/notificationTemplates.js';
+import { notificationDestinationRoutes } from './routes/notificationDestinations.js';
+import { webhookDeliveryRoutes } from './routes/webhookDeliveries.js';
+import { auditLogRoutes } from './routes/auditLog.js';
+import { apiKeyRoutes } from './routes/apiKeys.js';
 import { versionRoutes } from './routes/version.js';
 import { maintenanceRoutes } from './routes/maintenance.js';
 import { publicRoutes } from './routes/public.js';
 import { libraryRoutes } from './routes/library.js';
+import { redactWebhookUrl, webhookRoutes } from './routes/webhooks.js';
 import { tasksRoutes } from './routes/tasks.js';
+import { yearReviewRoutes } from './routes/yearReview.js';
 import { getPollerSettings, getNetworkSettings } from './routes/settings.js';
 import { initializeEncryption, migrateToken, looksEncrypted } from './utils/crypto.js';
 import { geoipService } from './services/geoip.js';
@@ -80,6 +91,7 @@ import {
   shutdownNotificationQueue,
 } from './jobs/notificationQueue.js';
 import { initImportQueue, startImportWorker, shutdownImportQueue } from './jobs/importQueue.js';
+import { initRestoreQueue, startRestoreWorker, shutdownRestoreQueue } from './jobs/restoreQueue.js';
 import {
   initMaintenanceQueue,
   startMaintenanceWorker,
@@ -103,11 +115,25 @@ import {
   scheduleInactivityChecks,
   shutdownInactivityCheckQueue,
 } from './jobs/inactivityCheckQueue.js';
+import {
+  initTrustRecoveryQueue,
+  startTrustRecoveryWorker,
+  scheduleTrustRecovery,
+  shutdownTrustRecoveryQueue,
+} from './jobs/trustRecoveryQueue.js';
+import {
+  initDigestQueue,
+  startDigestWorker,
+  scheduleDigests,
+  shutdownDigestQueue,
+} from './jobs/digestQueue.js';
 import { initHeavyOpsLock } from './jobs/heavyOpsLock.js';
 import { initPushRateLimiter } from './services/pushRateLimiter.js';
 import { initializeV2Rules } from './services/rules/v2Integration.js';
 import { processPushReceipts } from './services/pushNotification.js';
 import { cleanupMobileTokens } from './jobs/cleanupMobileTokens.js';
+import { cleanupWebhookDeliveries } from './jobs/cleanupWebhookDeliveries.js';
+import { sampleServerResources } from './jobs/resourceSampler.js';
 import { db, checkDatabaseConnection, runMigrations } from './db/client.js';
 import { initTimescaleDB, getTimescaleStatus } from './db/timescale.js';
 import { eq } from 'drizzle-orm';
@@ -141,6 +167,8 @@ let wsSubscriber: Redis | null = null;
 let pubSubRedis: Redis | null = null;
 let pushReceiptInterval: ReturnType<typeof setInterval> | null = null;
 let mobileTokenCleanupInterval: ReturnType<typeof setInterval> | null = null;
+let webhookDeliveryCleanupInterval: ReturnType<typeof setInterval> | null = null;
+let resourceSamplerInterval: ReturnType<typeof setInterval> | null = null;
 let recoveryInterval: ReturnType<typeof setInterval> | null = null;
 let dbHealthInterval: ReturnType<typeof setInterval> | null = null;
 let redisCloseHandler: (() => void) | null = null;
@@ -186,6 +214,18 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
         process.env.NODE_ENV === 'development'
           ? { target: 'pino-pretty', options: { colorize: true } }
           : undefined,
+      serializers: {
+        // Fastify's default request serializer, minus inbound webhook secrets in the URL
+        req(request) {
+          return {
+            method: request.method,
+            url: redactWebhookUrl(request.url),
+            host: request.host,
+            remoteAddress: request.ip,
+            remotePort: request.socket?.remotePort,
+          };
+        },
+      },
     },
     // Trust proxy if enabled in settings or via env var
     // This respects X-Forwarded-For, X-Forwarded-Proto headers from reverse proxies
@@ -285,11 +325,24 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
   await app.register(userRoutes, { prefix: `${API_BASE_PATH}/users` });
   await app.register(sessionRoutes, { prefix: `${API_BASE_PATH}/sessions` });
   await app.register(ruleRoutes, { prefix: `${API_BASE_PATH}/rules` });
+  await app.register(ruleExemptionRoutes, { prefix: `${API_BASE_PATH}/rule-exemptions` });
   await app.register(violationRoutes, { prefix: `${API_BASE_PATH}/violations` });
   await app.register(statsRoutes, { prefix: `${API_BASE_PATH}/stats` });
   await app.register(settingsRoutes, { prefix: `${API_BASE_PATH}/settings` });
+  await app.register(apiKeyRoutes, { prefix: `${API_BASE_PATH}/settings/api-keys` });
   await app.register(channelRoutingRoutes, { prefix: `${API_BASE_PATH}/settings/notifications` });
+  await app.register(notificationDestinationRoutes, {
+    prefix: `${API_BASE_PATH}/settings/notifications`,
+  });
+  await app.register(notificationTemplateRoutes, {
+    prefix: `${API_BASE_PATH}/settings/notifications`,
+  });
+  await app.register(webhookDeliveryRoutes, {
+    prefix: `${API_BASE_PATH}/settings/notifications`,
+  });
+  await app.register(auditLogRoutes, { prefix: `${API_BASE_PATH}/audit-log` });
   await app.register(importRoutes, { prefix: `${API_BASE_PATH}/import` });
+  await app.register(backupRoutes, { prefix: `${API_BASE_PATH}/backup` });
   await app.register(imageRoutes, { prefix: `${API_BASE_PATH}/images` });
   await app.register(debugRoutes, { prefix: `${API_BASE_PATH}/debug` });
   await app.register(mobileRoutes, { prefix: `${API_BASE_PATH}/mobile` });
@@ -297,8 +350,10 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
   await app.register(versionRoutes, { prefix: `${API_BASE_PATH}/version` });
   await app.register(maintenanceRoutes, { prefix: `${API_BASE_PATH}/maintenance` });
   await app.register(tasksRoutes, { prefix: `${API_BASE_PATH}/tasks` });
+  await app.register(yearReviewRoutes, { prefix: `${API_BASE_PATH}/year-review` });
   await app.register(publicRoutes, { prefix: `${API_BASE_PATH}/public` });
   await app.register(libraryRoutes, { prefix: `${API_BASE_PATH}/library` });
+  await app.register(webhookRoutes, { prefix: `${API_BASE_PATH}/webhooks` });
 
   // Serve static frontend in production
   const webDistPath = resolve(PROJECT_ROOT, 'apps/web/dist');
@@ -365,6 +420,12 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
     if (mobileTokenCleanupInterval) {
       clearInterval(mobileTokenCleanupInterval);
     }
+    if (webhookDeliveryCleanupInterval) {
+      clearInterval(webhookDeliveryCleanupInterval);
+    }
+    if (resourceSamplerInterval) {
+      clearInterval(resourceSamplerInterval);
+    }
     stopImageCacheCleanup();
     if (pubSubRedis) await pubSubRedis.quit();
     if (wsSubscriber) await wsSubscriber.quit();
@@ -373,10 +434,13 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
     stopSSEProcessor();
     await shutdownNotificationQueue();
     await shutdownImportQueue();
+    await shutdownRestoreQueue();
     await shutdownMaintenanceQueue();
     await shutdownLibrarySyncQueue();
     await shutdownVersionCheckQueue();
     await shutdownInactivityCheckQueue();
+    await shutdownTrustRecoveryQueue();
+    await shutdownDigestQueue();
   });
 
   // Probe DB and Redis to decide if we can initialize services now
@@ -579,6 +643,20 @@ async function initializeServices(app: FastifyInstance) {
       description: 'Cleans up expired mobile push tokens',
       intervalMs: 60 * 60 * 1000,
     });
+    // Prune the webhook delivery log every hour
+    webhookDeliveryCleanupInterval = setInterval(
+      () => {
+        cleanupWebhookDeliveries().catch((err) => {
+          app.log.warn({ err }, 'Failed to cleanup webhook deliveries');
+        });
+      },
+      60 * 60 * 1000 // 1 hour
+    );
+    registerService('webhook-delivery-cleanup', {
+      name: 'Webhook Delivery Cleanup',
+      description: 'Removes webhook delivery log entries older than 30 days',
+      intervalMs: 60 * 60 * 1000,
+    });
     app.log.info('Notification queue initialized');
   } catch (err) {
     app.log.error({ err }, 'Failed to initialize notification queue');
@@ -595,6 +673,16 @@ async function initializeServices(app: FastifyInstance) {
     // Don't throw - imports can fall back to direct execution
   }
 
+  // Initialize restore queue (uses Redis for job storage)
+  try {
+    initRestoreQueue(redisUrl);
+    startRestoreWorker();
+    app.log.info('Restore queue initialized');
+  } catch (err) {
+    app.log.error({ err }, 'Failed to initialize restore queue');
+    // Don't throw - only backup restores depend on it
+  }
+
   // Initialize maintenance queue (uses Redis for job storage)
   try {
     initMaintenanceQueue(redisUrl);
@@ -647,9 +735,43 @@ async function initializeServices(app: FastifyInstance) {
     // Don't throw - inactivity checks are non-critical
   }
 
+  // Initialize trust recovery queue (restores trust after clean periods)
+  try {
+    initTrustRecoveryQueue(redisUrl);
+    startTrustRecoveryWorker();
+    void scheduleTrustRecovery();
+    app.log.info('Trust recovery queue initialized');
+  } catch (err) {
+    app.log.error({ err }, 'Failed to initialize trust recovery queue');
+    // Don't throw - trust recovery is non-critical
+  }
+
+  // Initialize digest queue (scheduled weekly/monthly usage digests)
+  try {
+    initDigestQueue(redisUrl);
+    startDigestWorker();
+    void scheduleDigests();
+    app.log.info('Digest queue initialized');
+  } catch (err) {
+    app.log.error({ err }, 'Failed to initialize digest queue');
+    // Don't throw - digests are non-critical
+  }
+
   // Initialize poller with cache services
   initializePoller(cacheService, pubSubService);
 
+  // Record server CPU/RAM and stream load once a minute for the resource history charts
+  resourceSamplerInterval = setInterval(() => {
+    sampleServerResources(cacheService).catch((err) => {
+      app.log.warn({ err }, 'Failed to sample server resources');
+    });
+  }, SERVER_RESOURCE_HISTORY.SAMPLE_INTERVAL_MS);
+  registerService('resource-sampler', {
+    name: 'Server Resource Sampler',
+    description: 'Records server CPU, memory and stream load for resource history',
+    intervalMs: SERVER_RESOURCE_HISTORY.SAMPLE_INTERVAL_MS,
+  });
+
   // Initialize SSE manager and processor for real-time Plex updates
   try {
     await sseManager.initialize(cacheService, pubSubService);
@@ -790,6 +912,18 @@ async function initializePostListen(app: FastifyInstance) {
         case WS_EVENTS.IMPORT_JELLYSTAT_PROGRESS:
           broadcastToSessions('import:jellystat:progress', data as JellystatImportProgress);
           break;
+        case WS_EVENTS.IMPORT_PLEX_HISTORY_PROGRESS:
+          broadcastToSessions('import:plex-history:progress', data as HistoryImportProgress);
+          break;
+        case WS_EVENTS.IMPORT_PLAYBACK_REPORTING_PROGRESS:
+          broadcastToSessions('import:playback-reporting:progress', data as HistoryImportProgress);
+          break;
+        case WS_EVENTS.IMPORT_FILE_PROGRESS:
+          broadcastToSessions('import:file:progress', data as HistoryImportProgress);
+          break;
+        case WS_EVENTS.BACKUP_RESTORE_PROGRESS:
+          broadcastToSessions('backup:restore:progress', data as BackupRestoreProgress);
+          break;
         case WS_EVENTS.MAINTENANCE_PROGRESS:
           broadcastToSessions('maintenance:progress', data as MaintenanceJobProgress);
           break;
@@ -819,13 +953,13 @@ async function initializePostListen(app: FastifyInstance) {
     app.log.info('Session poller disabled in settings');
   }
 
-  // Start SSE connections for Plex servers (real-time updates)
+  // Start SSE (Plex) and WebSocket (Jellyfin/Emby) connections for real-time updates
   try {
     // Clean up any orphaned pending sessions from previous server instance
     await cleanupOrphanedPendingSessions();
     startSSEProcessor(); // Subscribe to SSE events
-    await sseManager.start(); // Start SSE connections
-    app.log.info('SSE connections started for Plex servers');
+    await sseManager.start(); // Start SSE/WebSocket connections
+    app.log.info('Real-time connections started for media servers');
   } catch (err) {
     app.log.error({ err }, 'Failed to start SSE connections - falling back to polling');
   }
@@ -922,6 +1056,7 @@ async function start() {
         stopPoller();
         void shutdownNotificationQueue();
         void shutdownImportQueue();
+        void shutdownRestoreQueue();
         void shutdownLibrarySyncQueue();
         void shutdownVersionCheckQueue();
         void shutdownInactivityCheckQueue();
@@ -953,10 +1088,12 @@ async function start() {
         void Promise.all([
           shutdownNotificationQueue(),
           shutdownImportQueue(),
+          shutdownRestoreQueue(),
           shutdownMaintenanceQueue(),
           shutdownLibrarySyncQueue(),
           shutdownVersionCheckQueue(),
           shutdownInactivityCheckQueue(),
+          shutdownDigestQueue(),
         ]).catch((err) => {
           app.log.error({ err }, 'Error shutting down queues during maintenance');
         });
@@ -980,6 +1117,16 @@ async function start() {
           mobileTokenCleanupInterval = null;
           unregisterService('mobile-token-cleanup');
         }
+        if (webhookDeliveryCleanupInterval) {
+          clearInterval(webhookDeliveryCleanupInterval);
+          webhookDeliveryCleanupInterval = null;
+          unregisterService('webhook-delivery-cleanup');
+        }
+        if (resourceSamplerInterval) {
+          clearInterval(resourceSamplerInterval);
+          resourceSamplerInterval = null;
+          unregisterService('resource-sampler');
+        }
 
         // Reset so recovery loop can re-run initializeServices + initializePostListen
         setServicesInitialized(false);
@@ -2,39 +2,53 @@
  * Notification Queue Tests - Rule Notification Bypass
  *
  * Tests that V2 rule notifications bypass channel routing and send directly
- * to the channels specified in the rule action.
+ * to the channels specified in the rule action, and that failed JSON webhook
+ * deliveries are scheduled for retries.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Queue } from 'bullmq';
 import type { ViolationWithDetails } from '@tracearr/shared';
 
 // Create mocks using vi.hoisted
 const {
-  mockGetNotificationSettings,
+  mockGetDestinationsByType,
   mockGetChannelRouting,
   mockNotificationManagerSendAll,
   mockPushNotificationServiceNotifyViolation,
 } = vi.hoisted(() => ({
-  mockGetNotificationSettings: vi.fn(),
+  mockGetDestinationsByType: vi.fn(),
   mockGetChannelRouting: vi.fn(),
   mockNotificationManagerSendAll: vi.fn().mockResolvedValue([]),
   mockPushNotificationServiceNotifyViolation: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock dependencies
-vi.mock('../../routes/settings.js', () => ({
-  getNotificationSettings: mockGetNotificationSettings,
+vi.mock('../../routes/notificationDestinations.js', () => ({
+  getDestinationsByType: mockGetDestinationsByType,
+  getDestinationsForEvent: vi.fn().mockResolvedValue([]),
 }));
 
 vi.mock('../../routes/channelRouting.js', () => ({
   getChannelRouting: mockGetChannelRouting,
 }));
 
+vi.mock('../../routes/notificationTemplates.js', () => ({
+  getNotificationTemplates: vi.fn().mockResolvedValue(new Map()),
+}));
+
 vi.mock('../../services/notifications/index.js', () => ({
   notificationManager: {
     sendAll: mockNotificationManagerSendAll,
-    notifyViolation: vi.fn().mockResolvedValue([]),
+    sendToDestinations: vi.fn().mockResolvedValue([]),
   },
+  destinationAccepts: vi.fn().mockReturnValue(true),
+  matchesServerFilter: vi.fn().mockReturnValue(true),
+  PayloadBuilders: {},
+}));
+
+vi.mock('../../services/notifications/webhookDelivery.js', () => ({
+  retryWebhookDelivery: vi.fn(),
 }));
 
 vi.mock('../../services/pushNotification.js', () => ({
@@ -49,16 +63,19 @@ vi.mock('../../websocket/index.js', () => ({
 
 // Mock BullMQ - we're testing the processor function directly
 vi.mock('bullmq', () => ({
-  Queue: vi.fn().mockImplementation(() => ({
-    add: vi.fn(),
-    close: vi.fn(),
-    getWaitingCount: vi.fn(),
-    getActiveCount: vi.fn(),
-    getCompletedCount: vi.fn(),
-    getFailedCount: vi.fn(),
-    getDelayedCount: vi.fn(),
-    getJobs: vi.fn(),
-  })),
+  Queue: vi.fn().mockImplementation(function () {
+    return {
+      add: vi.fn(),
+      on: vi.fn(),
+      close: vi.fn(),
+      getWaitingCount: vi.fn(),
+      getActiveCount: vi.fn(),
+      getCompletedCount: vi.fn(),
+      getFailedCount: vi.fn(),
+      getDelayedCount: vi.fn(),
+      getJobs: vi.fn(),
+    };
+  }),
   Worker: vi.fn().mockImplementation(() => ({
     on: vi.fn(),
     close: vi.fn(),
@@ -70,17 +87,20 @@ vi.mock('bullmq', () => ({
 // Actually, let's re-export it for testing or test the full flow
 
 describe('Notification Queue - Rule Notification Bypass', () => {
-  const createMockSettings = () => ({
-    discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc',
-    customWebhookUrl: 'https://ntfy.sh/mytopic',
-    webhookFormat: 'ntfy' as const,
-    ntfyTopic: 'tracearr',
-    ntfyAuthToken: 'token123',
-    pushoverUserKey: null,
-    pushoverApiToken: null,
-    mobileEnabled: true,
-    unitSystem: 'metric' as const,
-  });
+  const createMockDestinations = () => [
+    {
+      id: 'destination-discord',
+      type: 'discord' as const,
+      config: { discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc' },
+      serverIds: [],
+    },
+    {
+      id: 'destination-ntfy',
+      type: 'ntfy' as const,
+      config: { customWebhookUrl: 'https://ntfy.sh', ntfyTopic: 'tracearr' },
+      serverIds: [],
+    },
+  ];
 
   const createRuleNotificationPayload = (channels: string[]): ViolationWithDetails => ({
     id: 'rule-notify-123',
@@ -139,10 +159,8 @@ describe('Notification Queue - Rule Notification Bypass', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockGetNotificationSettings.mockResolvedValue(createMockSettings());
+    mockGetDestinationsByType.mockResolvedValue(createMockDestinations());
     mockGetChannelRouting.mockResolvedValue({
-      discordEnabled: false,
-      webhookEnabled: false,
       pushEnabled: false,
       webToastEnabled: false,
     });
@@ -190,20 +208,21 @@ describe('Notification Queue - Rule Notification Bypass', () => {
   });
 
   describe('channel mapping', () => {
-    it('discord channel should map to discord agent settings', () => {
-      const settings = createMockSettings();
+    it('discord channel should map to discord destinations', () => {
+      const [discord] = createMockDestinations();
 
-      // When channel is 'discord', we should use discordWebhookUrl
-      expect(settings.discordWebhookUrl).toBe('https://discord.com/api/webhooks/123/abc');
+      // When channel is 'discord', every Discord destination receives it
+      expect(discord?.type).toBe('discord');
+      expect(discord?.config.discordWebhookUrl).toBe('https://discord.com/api/webhooks/123/abc');
     });
 
-    it('webhook channel should map to customWebhookUrl with webhookFormat', () => {
-      const settings = createMockSettings();
+    it('webhook channel should map to custom webhook destinations', () => {
+      const [, ntfy] = createMockDestinations();
 
-      // When channel is 'webhook', we should use customWebhookUrl
-      // The webhookFormat determines which agent handles it (ntfy, apprise, etc.)
-      expect(settings.customWebhookUrl).toBe('https://ntfy.sh/mytopic');
-      expect(settings.webhookFormat).toBe('ntfy');
+      // When channel is 'webhook', json/ntfy/apprise/pushover/gotify destinations receive it
+      // The destination type determines which agent handles it
+      expect(ntfy?.type).toBe('ntfy');
+      expect(ntfy?.config.customWebhookUrl).toBe('https://ntfy.sh');
     });
 
     it('push channel should trigger pushNotificationService', () => {
@@ -292,3 +311,29 @@ describe('Integration: Rule Notification Flow', () => {
     // Note: 'email' is not implemented yet, but is a valid channel type
   });
 });
+
+describe('enqueueWebhookRetry', () => {
+  it('schedules delayed retries with exponential backoff', async () => {
+    const { initNotificationQueue, enqueueWebhookRetry, shutdownNotificationQueue } =
+      await import('../notificationQueue.js');
+    initNotificationQueue('redis://localhost:6379');
+    const queue = vi.mocked(Queue).mock.results[0]!.value as { add: ReturnType<typeof vi.fn> };
+    queue.add.mockResolvedValue({ id: 'webhook_delivery-delivery-1' });
+
+    const jobId = await enqueueWebhookRetry('delivery-1');
+
+    expect(jobId).toBe('webhook_delivery-delivery-1');
+    expect(queue.add).toHaveBeenCalledWith(
+      'webhook_delivery',
+      { type: 'webhook_delivery', payload: { deliveryId: 'delivery-1' } },
+      {
+        jobId: 'webhook_delivery-delivery-1',
+        delay: 30000,
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 30000 },
+      }
+    );
+
+    await shutdownNotificationQueue();
+  });
+});
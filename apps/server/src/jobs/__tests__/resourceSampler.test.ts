@@ -0,0 +1,161 @@
+/**
+ * Server Resource Sampler Tests
+ *
+ * Tests the resource sampler job:
+ * - Per-server stream, transcode and bandwidth summaries
+ * - Sample time alignment
+ * - CPU/memory only requested from servers that report it
+ * - Failed resource reads still record session figures
+ *
+ * Uses mocked database and media server clients.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CacheService } from '../../services/cache.js';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/mediaServer/index.js', () => ({
+  createMediaServerClient: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { createMediaServerClient } from '../../services/mediaServer/index.js';
+import { summarizeSessionLoad, getSampleTime, sampleServerResources } from '../resourceSampler.js';
+
+const PLEX_ID = 'plex-server';
+const JELLYFIN_ID = 'jellyfin-server';
+
+function mockServers(rows: { id: string; type: string }[]) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockResolvedValue(rows.map((r) => ({ ...r, url: 'http://x', token: 't' }))),
+  } as never);
+}
+
+function mockInsert() {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    onConflictDoNothing: vi.fn().mockResolvedValue(undefined),
+  };
+  vi.mocked(db.insert).mockReturnValue(chain as never);
+  return chain;
+}
+
+function mockCache(sessions: unknown[]): CacheService {
+  return { getAllActiveSessions: vi.fn().mockResolvedValue(sessions) } as unknown as CacheService;
+}
+
+describe('summarizeSessionLoad', () => {
+  it('counts streams and transcodes and sums bandwidth of playing streams', () => {
+    const loads = summarizeSessionLoad([
+      { serverId: PLEX_ID, state: 'playing', isTranscode: true, bitrate: 8000 },
+      { serverId: PLEX_ID, state: 'paused', isTranscode: true, bitrate: 20000 },
+      { serverId: PLEX_ID, state: 'playing', isTranscode: false, bitrate: null },
+      { serverId: JELLYFIN_ID, state: 'playing', isTranscode: false, bitrate: 4000 },
+      { serverId: JELLYFIN_ID, state: 'stopped', isTranscode: true, bitrate: 4000 },
+    ]);
+
+    expect(loads.get(PLEX_ID)).toEqual({ streamCount: 3, transcodeCount: 2, bandwidthKbps: 8000 });
+    expect(loads.get(JELLYFIN_ID)).toEqual({
+      streamCount: 1,
+      transcodeCount: 0,
+      bandwidthKbps: 4000,
+    });
+  });
+});
+
+describe('getSampleTime', () => {
+  it('aligns to the start of the minute', () => {
+    expect(getSampleTime(Date.parse('2024-03-10T20:15:42.123Z')).toISOString()).toBe(
+      '2024-03-10T20:15:00.000Z'
+    );
+  });
+});
+
+describe('sampleServerResources', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-10T20:15:30Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores one sample per server', async () => {
+    mockServers([
+      { id: PLEX_ID, type: 'plex' },
+      { id: JELLYFIN_ID, type: 'jellyfin' },
+    ]);
+    const insert = mockInsert();
+    const getResourceUsage = vi.fn().mockResolvedValue({
+      hostCpuUtilization: 55,
+      processCpuUtilization: 40,
+      hostMemoryUtilization: 70,
+      processMemoryUtilization: 12,
+    });
+    vi.mocked(createMediaServerClient).mockReturnValue({ getResourceUsage } as never);
+
+    const result = await sampleServerResources(
+      mockCache([{ serverId: PLEX_ID, state: 'playing', isTranscode: true, bitrate: 12000 }])
+    );
+
+    expect(result).toEqual({ sampled: 2 });
+    // Jellyfin doesn't report resource usage, so only Plex is asked
+    expect(createMediaServerClient).toHaveBeenCalledTimes(1);
+    expect(insert.values).toHaveBeenCalledWith([
+      {
+        serverId: PLEX_ID,
+        sampledAt: new Date('2024-03-10T20:15:00Z'),
+        hostCpuUtilization: 55,
+        processCpuUtilization: 40,
+        hostMemoryUtilization: 70,
+        processMemoryUtilization: 12,
+        streamCount: 1,
+        transcodeCount: 1,
+        bandwidthKbps: 12000,
+      },
+      {
+        serverId: JELLYFIN_ID,
+        sampledAt: new Date('2024-03-10T20:15:00Z'),
+        hostCpuUtilization: null,
+        processCpuUtilization: null,
+        hostMemoryUtilization: null,
+        processMemoryUtilization: null,
+        streamCount: 0,
+        transcodeCount: 0,
+        bandwidthKbps: 0,
+      },
+    ]);
+  });
+
+  it('records session figures when the resource read fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockServers([{ id: PLEX_ID, type: 'plex' }]);
+    const insert = mockInsert();
+    vi.mocked(createMediaServerClient).mockReturnValue({
+      getResourceUsage: vi.fn().mockRejectedValue(new Error('timeout')),
+    } as never);
+
+    await sampleServerResources(
+      mockCache([{ serverId: PLEX_ID, state: 'playing', isTranscode: false, bitrate: 3000 }])
+    );
+
+    expect(insert.values).toHaveBeenCalledWith([
+      expect.objectContaining({ hostCpuUtilization: null, streamCount: 1, bandwidthKbps: 3000 }),
+    ]);
+  });
+
+  it('does nothing without servers', async () => {
+    mockServers([]);
+
+    expect(await sampleServerResources(mockCache([]))).toEqual({ sampled: 0 });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
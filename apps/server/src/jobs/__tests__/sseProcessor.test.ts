@@ -5,18 +5,21 @@
  * - Server down notification is delayed by threshold (60s)
  * - Server up cancels pending notification if recovered before threshold
  * - Server up sends notification if server was marked as down
+ * - Jellyfin/Emby WebSocket fallback leaves health reporting to the poller
+ * - Jellyfin/Emby WebSocket updates are handed to the poller
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { EventEmitter } from 'events';
 
 // Create mocks using vi.hoisted - must require EventEmitter inside for hoisting to work
-const { mockSseManager, mockEnqueueNotification } = vi.hoisted(() => {
+const { mockSseManager, mockEnqueueNotification, mockProcessPushedSessions } = vi.hoisted(() => {
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   const { EventEmitter: EE } = require('events');
   return {
     mockSseManager: new EE() as EventEmitter,
     mockEnqueueNotification: vi.fn().mockResolvedValue('job-id'),
+    mockProcessPushedSessions: vi.fn().mockResolvedValue(undefined),
   };
 });
 
@@ -45,6 +48,7 @@ vi.mock('../../services/geoip.js', () => ({
 
 vi.mock('../poller/index.js', () => ({
   triggerReconciliationPoll: vi.fn(),
+  processPushedSessions: mockProcessPushedSessions,
 }));
 
 vi.mock('../poller/sessionMapper.js', () => ({
@@ -132,6 +136,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Notification should NOT be sent immediately
@@ -154,6 +159,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Server 1',
+        serverType: 'plex',
       });
 
       // 30 seconds later, Server 2 goes down
@@ -161,6 +167,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-2',
         serverName: 'Server 2',
+        serverType: 'plex',
       });
 
       // At 60s, only Server 1 should be notified
@@ -185,6 +192,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // 30 seconds later, same server triggers fallback again (e.g., retry logic)
@@ -192,6 +200,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Original 60s would be at 60s, but we reset, so need 60s from second trigger
@@ -210,6 +219,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Server comes back up after 30 seconds (before 60s threshold)
@@ -217,6 +227,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:deactivated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // No server_down notification should be sent
@@ -232,6 +243,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Wait for threshold to pass - server is now "down"
@@ -247,6 +259,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:deactivated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Need to flush promises for the async handler
@@ -263,6 +276,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:deactivated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       await vi.runAllTimersAsync();
@@ -278,6 +292,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Stop processor before threshold
@@ -294,14 +309,17 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Server 1',
+        serverType: 'plex',
       });
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-2',
         serverName: 'Server 2',
+        serverType: 'plex',
       });
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-3',
         serverName: 'Server 3',
+        serverType: 'plex',
       });
 
       // Stop processor
@@ -313,6 +331,41 @@ describe('SSE Processor - Server Health Notifications', () => {
     });
   });
 
+  describe('Jellyfin/Emby WebSocket', () => {
+    it('should not schedule server_down when a WebSocket falls back to polling', () => {
+      mockSseManager.emit('fallback:activated', {
+        serverId: 'server-1',
+        serverName: 'Jellyfin',
+        serverType: 'jellyfin',
+      });
+
+      vi.advanceTimersByTime(120_000);
+      expect(mockEnqueueNotification).not.toHaveBeenCalled();
+    });
+
+    it('should process pushed session lists', () => {
+      const sessions = [{ sessionKey: 'abc' }];
+
+      mockSseManager.emit('websocket:sessions', { serverId: 'server-1', sessions });
+
+      expect(mockProcessPushedSessions).toHaveBeenCalledWith('server-1', sessions);
+    });
+
+    it('should refetch sessions on playback events', () => {
+      mockSseManager.emit('websocket:playback', { serverId: 'server-1' });
+
+      expect(mockProcessPushedSessions).toHaveBeenCalledWith('server-1');
+    });
+
+    it('should stop processing WebSocket events after stop', () => {
+      stopSSEProcessor();
+
+      mockSseManager.emit('websocket:playback', { serverId: 'server-1' });
+
+      expect(mockProcessPushedSessions).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle enqueueNotification errors gracefully', () => {
       mockEnqueueNotification.mockRejectedValueOnce(new Error('Queue error'));
@@ -321,6 +374,7 @@ describe('SSE Processor - Server Health Notifications', () => {
       mockSseManager.emit('fallback:activated', {
         serverId: 'server-1',
         serverName: 'Test Server',
+        serverType: 'plex',
       });
 
       // Should not throw when notification fails
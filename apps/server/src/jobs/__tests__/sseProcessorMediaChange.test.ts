@@ -86,6 +86,7 @@ vi.mock('../../services/geoip.js', () => ({
 
 vi.mock('../poller/index.js', () => ({
   triggerReconciliationPoll: vi.fn(),
+  processPushedSessions: vi.fn(),
 }));
 
 vi.mock('../poller/sessionMapper.js', () => ({
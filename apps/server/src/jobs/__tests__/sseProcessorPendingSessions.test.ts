@@ -123,6 +123,7 @@ vi.mock('../../routes/settings.js', () => ({
 
 vi.mock('../poller/index.js', () => ({
   triggerReconciliationPoll: vi.fn(),
+  processPushedSessions: vi.fn(),
 }));
 
 vi.mock('../poller/sessionMapper.js', () => ({
@@ -0,0 +1,207 @@
+/**
+ * Trust Recovery Job Tests
+ *
+ * Tests processTrustRecovery:
+ * - The candidate query: score range and the clean-interval checks
+ * - Eligible users recover the policy's points up to the cap
+ * - Users outside the range, or whose score already moved, are skipped
+ * - Nothing runs while recovery is disabled
+ *
+ * Uses a mocked database; subqueries are built with a real query builder so
+ * the candidate filter can be rendered to SQL and inspected.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../routes/settings.js', () => ({
+  getTrustRecoveryPolicy: vi.fn(),
+}));
+
+// Keep getRecoveredScore real; only the writes are mocked
+vi.mock('../../services/trustScore.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  applyTrustScoreChange: vi.fn(),
+  notifyTrustScoreChange: vi.fn(),
+}));
+
+// Import after mocking
+import { db } from '../../db/client.js';
+import { getTrustRecoveryPolicy } from '../../routes/settings.js';
+import {
+  applyTrustScoreChange,
+  notifyTrustScoreChange,
+  type TrustRecoveryPolicy,
+  type TrustScoreChange,
+} from '../../services/trustScore.js';
+import { processTrustRecovery } from '../trustRecoveryQueue.js';
+
+const NOW = new Date('2025-01-15T03:00:00Z');
+
+const policy: TrustRecoveryPolicy = {
+  enabled: true,
+  points: 5,
+  intervalDays: 7,
+  floor: 20,
+  cap: 90,
+};
+
+const queryBuilder = drizzle.mock();
+let candidateFilter: SQL | undefined;
+
+/**
+ * Resolve the candidate query to `rows`, keeping its WHERE condition
+ */
+function mockCandidates(rows: { id: string; trustScore: number }[]) {
+  vi.mocked(db.select).mockImplementation(((fields: never) => {
+    // The outer query is selected first; the NOT EXISTS subqueries are built for real
+    if (vi.mocked(db.select).mock.calls.length > 1) {
+      return queryBuilder.select(fields);
+    }
+    return {
+      from: () => ({
+        where: (condition: SQL) => {
+          candidateFilter = condition;
+          return Promise.resolve(rows);
+        },
+      }),
+    };
+  }) as never);
+}
+
+function renderFilter() {
+  if (!candidateFilter) throw new Error('Candidate query did not run');
+  return new PgDialect().sqlToQuery(candidateFilter);
+}
+
+function createChange(serverUserId: string, previousScore: number, newScore: number) {
+  return {
+    serverUserId,
+    serverId: 'server-1',
+    username: serverUserId,
+    previousScore,
+    newScore,
+    source: 'recovery',
+    reason: 'No violations in 7 days',
+  } satisfies TrustScoreChange;
+}
+
+describe('processTrustRecovery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    candidateFilter = undefined;
+    vi.mocked(getTrustRecoveryPolicy).mockResolvedValue(policy);
+  });
+
+  describe('candidate query', () => {
+    it('limits candidates to the recoverable score range', async () => {
+      mockCandidates([]);
+
+      await processTrustRecovery(NOW);
+
+      const { sql, params } = renderFilter();
+      expect(sql).toContain('"server_users"."trust_score" >= $1');
+      expect(sql).toContain('"server_users"."trust_score" < $2');
+      expect(params.slice(0, 2)).toEqual([policy.floor, policy.cap]);
+    });
+
+    it('excludes users with a violation or a recovery within the interval', async () => {
+      mockCandidates([]);
+
+      await processTrustRecovery(NOW);
+
+      const { sql, params } = renderFilter();
+      const since = new Date(NOW.getTime() - policy.intervalDays * 24 * 60 * 60 * 1000);
+      expect(sql.match(/not exists/g)).toHaveLength(2);
+      expect(sql).toContain('from "violations"');
+      expect(sql).toContain('"violations"."server_user_id" = "server_users"."id"');
+      expect(sql).toContain('from "trust_score_history"');
+      expect(sql).toContain('"trust_score_history"."server_user_id" = "server_users"."id"');
+      expect(params).toContain('recovery');
+      expect(params.filter((param) => param === since.toISOString())).toHaveLength(2);
+    });
+  });
+
+  describe('eligible users', () => {
+    it('restores the policy points and notifies', async () => {
+      mockCandidates([{ id: 'user-a', trustScore: 50 }]);
+      const change = createChange('user-a', 50, 55);
+      vi.mocked(applyTrustScoreChange).mockResolvedValue(change);
+
+      const result = await processTrustRecovery(NOW);
+
+      expect(result).toEqual({ recovered: 1 });
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        db,
+        'user-a',
+        { delta: 5, max: policy.cap },
+        { source: 'recovery', reason: 'No violations in 7 days' }
+      );
+      expect(notifyTrustScoreChange).toHaveBeenCalledWith(change);
+    });
+
+    it('stops at the cap', async () => {
+      mockCandidates([{ id: 'user-b', trustScore: 88 }]);
+      vi.mocked(applyTrustScoreChange).mockResolvedValue(createChange('user-b', 88, 90));
+
+      await processTrustRecovery(NOW);
+
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        db,
+        'user-b',
+        { delta: 2, max: policy.cap },
+        expect.anything()
+      );
+    });
+  });
+
+  describe('ineligible users', () => {
+    it('skips scores below the floor or at the cap', async () => {
+      mockCandidates([
+        { id: 'below-floor', trustScore: 10 },
+        { id: 'at-cap', trustScore: 90 },
+        { id: 'eligible', trustScore: 60 },
+      ]);
+      vi.mocked(applyTrustScoreChange).mockResolvedValue(createChange('eligible', 60, 65));
+
+      const result = await processTrustRecovery(NOW);
+
+      expect(result).toEqual({ recovered: 1 });
+      expect(applyTrustScoreChange).toHaveBeenCalledTimes(1);
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        db,
+        'eligible',
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('does not count users whose score no longer changes', async () => {
+      mockCandidates([{ id: 'user-c', trustScore: 50 }]);
+      vi.mocked(applyTrustScoreChange).mockResolvedValue(null);
+
+      const result = await processTrustRecovery(NOW);
+
+      expect(result).toEqual({ recovered: 0 });
+      expect(notifyTrustScoreChange).not.toHaveBeenCalled();
+    });
+
+    it('recovers nobody while recovery is disabled', async () => {
+      vi.mocked(getTrustRecoveryPolicy).mockResolvedValue({ ...policy, enabled: false });
+
+      const result = await processTrustRecovery(NOW);
+
+      expect(result).toEqual({ recovered: 0 });
+      expect(db.select).not.toHaveBeenCalled();
+      expect(applyTrustScoreChange).not.toHaveBeenCalled();
+    });
+  });
+});
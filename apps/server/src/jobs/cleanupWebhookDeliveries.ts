@@ -0,0 +1,20 @@
+/**
+ * Cleanup job for the JSON webhook delivery log
+ *
+ * Run on an interval to delete deliveries older than 30 days.
+ */
+
+import { lt } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { webhookDeliveries } from '../db/schema.js';
+
+export async function cleanupWebhookDeliveries(): Promise<{ deleted: number }> {
+  const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+  const result = await db
+    .delete(webhookDeliveries)
+    .where(lt(webhookDeliveries.createdAt, thirtyDaysAgo))
+    .returning({ id: webhookDeliveries.id });
+
+  return { deleted: result.length };
+}
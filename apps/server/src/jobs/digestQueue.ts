@@ -0,0 +1,203 @@
+/**
+ * Digest Queue - BullMQ-based scheduled usage digests
+ *
+ * Sends the weekly digest every Monday morning and the monthly digest on the
+ * first of each month to destinations subscribed to that frequency. Each
+ * destination's digest covers the servers it is filtered to (all when none).
+ */
+
+import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
+import { getRedisPrefix, type DigestPeriod, type DigestReport } from '@tracearr/shared';
+import { isMaintenance } from '../serverState.js';
+import { buildDigestReport } from '../services/digest.js';
+import { notificationManager, PayloadBuilders } from '../services/notifications/index.js';
+import { getDestinationsForDigest } from '../routes/notificationDestinations.js';
+
+// Queue name
+const QUEUE_NAME = 'digest';
+
+// Cron patterns (server local time): Mondays at 08:00 and the 1st of the month at 08:00
+const SCHEDULES: Record<DigestPeriod, string> = {
+  weekly: '0 8 * * 1',
+  monthly: '0 8 1 * *',
+};
+
+// Job types
+interface DigestJobData {
+  type: 'send';
+  period: DigestPeriod;
+}
+
+// Connection options (set during initialization)
+let connectionOptions: ConnectionOptions | null = null;
+
+// Queue and worker instances
+let digestQueue: Queue<DigestJobData> | null = null;
+let digestWorker: Worker<DigestJobData> | null = null;
+
+/**
+ * Initialize the digest queue with Redis connection
+ */
+export function initDigestQueue(redisUrl: string): void {
+  if (digestQueue) {
+    console.log('[Digest] Queue already initialized');
+    return;
+  }
+
+  connectionOptions = { url: redisUrl };
+  const bullPrefix = `${getRedisPrefix()}bull`;
+
+  digestQueue = new Queue<DigestJobData>(QUEUE_NAME, {
+    connection: connectionOptions,
+    prefix: bullPrefix,
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 60000, // 1m, 2m, 4m
+      },
+      removeOnComplete: {
+        count: 30,
+        age: 90 * 24 * 60 * 60, // 90 days
+      },
+      removeOnFail: {
+        count: 100,
+        age: 30 * 24 * 60 * 60, // 30 days
+      },
+    },
+  });
+  digestQueue.on('error', (err) => {
+    if (!isMaintenance()) console.error('[Digest] Queue error:', err);
+  });
+
+  console.log('[Digest] Queue initialized');
+}
+
+/**
+ * Start the digest worker
+ */
+export function startDigestWorker(): void {
+  if (!connectionOptions) {
+    throw new Error('Digest queue not initialized. Call initDigestQueue first.');
+  }
+
+  if (digestWorker) {
+    console.log('[Digest] Worker already running');
+    return;
+  }
+
+  const bullPrefix = `${getRedisPrefix()}bull`;
+
+  digestWorker = new Worker<DigestJobData>(
+    QUEUE_NAME,
+    async (job: Job<DigestJobData>) => {
+      const startTime = Date.now();
+      try {
+        const { sent, failed } = await processDigests(job.data.period);
+        const duration = Date.now() - startTime;
+        console.log(
+          `[Digest] Job ${job.id} sent the ${job.data.period} digest to ${sent} destination(s) (${failed} failed) in ${duration}ms`
+        );
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        console.error(`[Digest] Job ${job.id} failed after ${duration}ms:`, error);
+        throw error;
+      }
+    },
+    {
+      connection: connectionOptions,
+      prefix: bullPrefix,
+      concurrency: 1,
+    }
+  );
+
+  digestWorker.on('error', (error) => {
+    if (!isMaintenance()) console.error('[Digest] Worker error:', error);
+  });
+
+  console.log('[Digest] Worker started');
+}
+
+/**
+ * Schedule the weekly and monthly digests
+ */
+export async function scheduleDigests(): Promise<void> {
+  if (!digestQueue) {
+    console.error('[Digest] Queue not initialized');
+    return;
+  }
+
+  for (const [period, pattern] of Object.entries(SCHEDULES) as [DigestPeriod, string][]) {
+    await digestQueue.add(
+      `scheduled-${period}`,
+      { type: 'send', period },
+      {
+        repeat: { pattern },
+        jobId: `digest-${period}-repeatable`,
+      }
+    );
+  }
+
+  console.log('[Digest] Scheduled weekly and monthly digests');
+}
+
+/**
+ * Send the digest for a period to every subscribed destination.
+ * Failures are logged per destination so one bad destination doesn't block the rest.
+ */
+export async function processDigests(
+  period: DigestPeriod,
+  now = new Date()
+): Promise<{ sent: number; failed: number }> {
+  const destinations = await getDestinationsForDigest(period);
+
+  // Destinations covering the same servers share one report
+  const reports = new Map<string, Promise<DigestReport>>();
+  let sent = 0;
+  let failed = 0;
+
+  for (const destination of destinations) {
+    const key = [...destination.serverIds].sort().join(',');
+    let report = reports.get(key);
+    if (!report) {
+      report = buildDigestReport(period, destination.serverIds, now);
+      reports.set(key, report);
+    }
+
+    const results = await notificationManager.sendToDestinations(
+      PayloadBuilders.fromDigest(await report),
+      [destination]
+    );
+
+    if (results.length > 0 && results.every((result) => result.success)) {
+      sent++;
+    } else {
+      failed++;
+      console.warn(
+        `[Digest] Failed to send the ${period} digest to ${destination.name} (${destination.id}):`,
+        results.map((result) => result.error).filter(Boolean)
+      );
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Gracefully shutdown the digest queue and worker
+ */
+export async function shutdownDigestQueue(): Promise<void> {
+  console.log('[Digest] Shutting down queue...');
+
+  if (digestWorker) {
+    await digestWorker.close();
+    digestWorker = null;
+  }
+
+  if (digestQueue) {
+    await digestQueue.close();
+    digestQueue = null;
+  }
+
+  console.log('[Digest] Queue shutdown complete');
+}
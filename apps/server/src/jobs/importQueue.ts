@@ -7,7 +7,9 @@
  * - Progress tracking via WebSocket
  * - Checkpoint/resume on failure
  *
- * Supports both Tautulli (for Plex) and Jellystat (for Jellyfin/Emby) imports.
+ * Supports Tautulli and Plex's own history (for Plex), Jellystat and the
+ * Playback Reporting plugin (for Jellyfin/Emby), and generic CSV/JSON history
+ * files (for any server).
  */
 
 import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
@@ -17,9 +19,15 @@ import type {
   TautulliImportProgress,
   TautulliImportResult,
   JellystatImportResult,
+  HistoryImportProgress,
+  HistoryImportResult,
+  FileImportMapping,
 } from '@tracearr/shared';
 import { TautulliService } from '../services/tautulli.js';
 import { importJellystatBackup } from '../services/jellystat.js';
+import { importPlexHistory } from '../services/plexHistory.js';
+import { importPlaybackReporting } from '../services/playbackReporting.js';
+import { importHistoryFile } from '../services/fileImport.js';
 import { getPubSubService } from '../services/cache.js';
 import { extendJobLock } from './lockUtils.js';
 import {
@@ -48,9 +56,70 @@ export interface JellystatImportJobData {
   updateStreamDetails?: boolean; // Whether to update existing records with stream/transcode data
 }
 
-export type ImportJobData = TautulliImportJobData | JellystatImportJobData;
+export interface PlexHistoryImportJobData {
+  type: 'plex_history';
+  serverId: string;
+  userId: string; // Audit trail - who initiated the import
+}
 
-export type ImportJobResult = TautulliImportResult | JellystatImportResult;
+export interface PlaybackReportingImportJobData {
+  type: 'playback_reporting';
+  serverId: string;
+  userId: string; // Audit trail - who initiated the import
+  fileContents: string; // Playback Reporting backup or PlaybackActivity export
+}
+
+export interface FileImportJobData {
+  type: 'file';
+  serverId: string;
+  userId: string; // Audit trail - who initiated the import
+  fileContents: string; // CSV/TSV or JSON history file
+  mapping: FileImportMapping; // Session field -> column name
+}
+
+export type ImportJobData =
+  | TautulliImportJobData
+  | JellystatImportJobData
+  | PlexHistoryImportJobData
+  | PlaybackReportingImportJobData
+  | FileImportJobData;
+
+export type ImportJobType = ImportJobData['type'];
+
+export type ImportJobResult = TautulliImportResult | JellystatImportResult | HistoryImportResult;
+
+const IMPORT_JOB_DESCRIPTIONS: Record<ImportJobType, string> = {
+  tautulli: 'Tautulli import',
+  jellystat: 'Jellystat import',
+  plex_history: 'Plex history import',
+  playback_reporting: 'Playback Reporting import',
+  file: 'History file import',
+};
+
+// Progress channels for imports that report HistoryImportProgress
+const HISTORY_IMPORT_CHANNELS: Partial<Record<ImportJobType, string>> = {
+  plex_history: 'import:plex-history:progress',
+  playback_reporting: 'import:playback-reporting:progress',
+  file: 'import:file:progress',
+};
+
+/**
+ * Build an empty history import progress payload (waiting/error broadcasts)
+ */
+function historyProgress(
+  status: HistoryImportProgress['status'],
+  message: string
+): HistoryImportProgress {
+  return {
+    status,
+    totalRecords: 0,
+    processedRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message,
+  };
+}
 
 // Queue configuration
 const QUEUE_NAME = 'imports';
@@ -65,7 +134,7 @@ let dlqQueue: Queue<ImportJobData> | null = null;
 // Cached import progress for polling access (in addition to websocket broadcasts)
 interface CachedImportProgress {
   jobId: string;
-  type: 'tautulli' | 'jellystat';
+  type: ImportJobType;
   serverId: string;
   status: 'waiting' | 'fetching' | 'processing' | 'complete' | 'error';
   progress: TautulliImportProgress | null;
@@ -180,7 +249,7 @@ export function startImportWorker(): void {
     QUEUE_NAME,
     async (job: Job<ImportJobData>) => {
       const startTime = Date.now();
-      const jobDescription = job.data.type === 'tautulli' ? 'Tautulli import' : 'Jellystat import';
+      const jobDescription = IMPORT_JOB_DESCRIPTIONS[job.data.type];
       console.log(`[Import] Starting job ${job.id} for server ${job.data.serverId}`);
 
       // Initialize cached progress
@@ -236,6 +305,19 @@ export function startImportWorker(): void {
               startedAt: lockHolder.startedAt,
             },
           });
+
+          const historyChannel = HISTORY_IMPORT_CHANNELS[job.data.type];
+          if (historyChannel) {
+            void pubSubService.publish(historyChannel, {
+              ...historyProgress('waiting', `Waiting for ${lockHolder.description} to complete...`),
+              jobId: job.id,
+              waitingFor: {
+                jobType: lockHolder.jobType,
+                description: lockHolder.description,
+                startedAt: lockHolder.startedAt,
+              },
+            });
+          }
         }
 
         console.log(
@@ -325,6 +407,14 @@ export function startImportWorker(): void {
         message: `Import failed: ${error?.message || 'Unknown error'}`,
         jobId: job.id,
       });
+
+      const historyChannel = HISTORY_IMPORT_CHANNELS[job.data.type];
+      if (historyChannel) {
+        void pubSubService.publish(historyChannel, {
+          ...historyProgress('error', `Import failed: ${error?.message || 'Unknown error'}`),
+          jobId: job.id,
+        });
+      }
     }
 
     if (job.attemptsMade >= (job.opts.attempts || 3)) {
@@ -348,10 +438,16 @@ export function startImportWorker(): void {
  * Process a single import job (routes to appropriate handler based on type)
  */
 async function processImportJob(job: Job<ImportJobData>): Promise<ImportJobResult> {
-  if (job.data.type === 'jellystat') {
-    return processJellystatImportJob(job as Job<JellystatImportJobData>);
+  switch (job.data.type) {
+    case 'jellystat':
+      return processJellystatImportJob(job as Job<JellystatImportJobData>);
+    case 'plex_history':
+    case 'playback_reporting':
+    case 'file':
+      return processHistoryImportJob(job as Job<HistoryImportJobData>);
+    default:
+      return processTautulliImportJob(job as Job<TautulliImportJobData>);
   }
-  return processTautulliImportJob(job as Job<TautulliImportJobData>);
 }
 
 /**
@@ -488,6 +584,59 @@ async function processJellystatImportJob(
   return result;
 }
 
+type HistoryImportJobData =
+  | PlexHistoryImportJobData
+  | PlaybackReportingImportJobData
+  | FileImportJobData;
+
+/**
+ * Process a Plex history, Playback Reporting or history file import job
+ *
+ * Each service publishes their own progress; this keeps BullMQ progress and
+ * locks current on each published update.
+ */
+async function processHistoryImportJob(
+  job: Job<HistoryImportJobData>
+): Promise<HistoryImportResult> {
+  const pubSubService = getPubSubService();
+
+  const onProgress = async (progress: HistoryImportProgress) => {
+    const percent =
+      progress.totalRecords > 0
+        ? Math.round((progress.processedRecords / progress.totalRecords) * 100)
+        : 0;
+    await job.updateProgress(percent);
+
+    if (activeImportProgress && activeImportProgress.jobId === job.id) {
+      activeImportProgress.status = progress.status === 'fetching' ? 'fetching' : 'processing';
+    }
+
+    await extendJobLock(job, 5 * 60 * 1000);
+    await extendHeavyOpsLock(job.id!);
+  };
+
+  if (job.data.type === 'plex_history') {
+    return importPlexHistory(job.data.serverId, pubSubService ?? undefined, onProgress);
+  }
+
+  if (job.data.type === 'file') {
+    return importHistoryFile(
+      job.data.serverId,
+      job.data.fileContents,
+      job.data.mapping,
+      pubSubService ?? undefined,
+      onProgress
+    );
+  }
+
+  return importPlaybackReporting(
+    job.data.serverId,
+    job.data.fileContents,
+    pubSubService ?? undefined,
+    onProgress
+  );
+}
+
 /**
  * Get active import job for a server (if any)
  */
@@ -638,12 +787,7 @@ export async function getActiveJellystatImportForServer(serverId: string): Promi
     return null;
   }
 
-  const activeJobs = await importQueue.getJobs(['active', 'waiting', 'delayed']);
-  const existingJob = activeJobs.find(
-    (j) => j.data.type === 'jellystat' && j.data.serverId === serverId
-  );
-
-  return existingJob?.id ?? null;
+  return getActiveImportForServerOfType(serverId, 'jellystat');
 }
 
 /**
@@ -711,6 +855,114 @@ export async function cancelJellystatImport(jobId: string): Promise<boolean> {
   return cancelImport(jobId);
 }
 
+// ==========================================================================
+// Plex History / Playback Reporting / History File Functions
+// ==========================================================================
+
+/**
+ * Get active import job of a given type for a server (if any)
+ */
+export async function getActiveImportForServerOfType(
+  serverId: string,
+  type: ImportJobType
+): Promise<string | null> {
+  if (!importQueue) {
+    return null;
+  }
+
+  const activeJobs = await importQueue.getJobs(['active', 'waiting', 'delayed']);
+  const existingJob = activeJobs.find((j) => j.data.type === type && j.data.serverId === serverId);
+
+  return existingJob?.id ?? null;
+}
+
+/**
+ * Enqueue an import of Plex's own watch history
+ */
+export async function enqueuePlexHistoryImport(serverId: string, userId: string): Promise<string> {
+  if (!importQueue) {
+    throw new Error('Import queue not initialized');
+  }
+
+  // Any import into the same server would race on deduplication
+  const existingJobId = await getActiveImportForServer(serverId);
+  if (existingJobId) {
+    throw new Error(`Import already in progress for server ${serverId} (job ${existingJobId})`);
+  }
+
+  const job = await importQueue.add('plex-history-import', {
+    type: 'plex_history',
+    serverId,
+    userId,
+  });
+
+  const jobId = job.id ?? `unknown-${Date.now()}`;
+  console.log(`[Import] Enqueued Plex history job ${jobId} for server ${serverId}`);
+  return jobId;
+}
+
+/**
+ * Enqueue an import of a Playback Reporting backup
+ */
+export async function enqueuePlaybackReportingImport(
+  serverId: string,
+  userId: string,
+  fileContents: string
+): Promise<string> {
+  if (!importQueue) {
+    throw new Error('Import queue not initialized');
+  }
+
+  // Any import into the same server would race on deduplication
+  const existingJobId = await getActiveImportForServer(serverId);
+  if (existingJobId) {
+    throw new Error(`Import already in progress for server ${serverId} (job ${existingJobId})`);
+  }
+
+  const job = await importQueue.add('playback-reporting-import', {
+    type: 'playback_reporting',
+    serverId,
+    userId,
+    fileContents,
+  });
+
+  const jobId = job.id ?? `unknown-${Date.now()}`;
+  console.log(`[Import] Enqueued Playback Reporting job ${jobId} for server ${serverId}`);
+  return jobId;
+}
+
+/**
+ * Enqueue an import of a generic CSV/JSON history file
+ */
+export async function enqueueFileImport(
+  serverId: string,
+  userId: string,
+  fileContents: string,
+  mapping: FileImportMapping
+): Promise<string> {
+  if (!importQueue) {
+    throw new Error('Import queue not initialized');
+  }
+
+  // Any import into the same server would race on deduplication
+  const existingJobId = await getActiveImportForServer(serverId);
+  if (existingJobId) {
+    throw new Error(`Import already in progress for server ${serverId} (job ${existingJobId})`);
+  }
+
+  const job = await importQueue.add('file-import', {
+    type: 'file',
+    serverId,
+    userId,
+    fileContents,
+    mapping,
+  });
+
+  const jobId = job.id ?? `unknown-${Date.now()}`;
+  console.log(`[Import] Enqueued history file job ${jobId} for server ${serverId}`);
+  return jobId;
+}
+
 /**
  * Get cached import progress (for polling access in addition to websockets)
  */
@@ -724,7 +976,7 @@ export function getActiveImportProgress(): CachedImportProgress | null {
 export async function getAllActiveImports(): Promise<
   Array<{
     jobId: string;
-    type: 'tautulli' | 'jellystat';
+    type: ImportJobType;
     serverId: string;
     state: string;
     progress: number | object | null;
@@ -20,6 +20,9 @@ import { WS_EVENTS, TIME_MS } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { rules, serverUsers, violations, users, servers } from '../db/schema.js';
 import { ruleEngine } from '../services/rules.js';
+import { isRuleInEffect } from '../services/rules/schedule.js';
+import { isExemptFromRule } from '../services/rules/exemptions.js';
+import { getActiveRuleExemptions } from './poller/database.js';
 import { enqueueNotification } from './notificationQueue.js';
 
 // Queue name
@@ -254,7 +257,10 @@ async function processInactivityCheck(job: Job<InactivityCheckJobData>): Promise
     .from(rules)
     .where(job.data.ruleId ? eq(rules.id, job.data.ruleId) : eq(rules.isActive, true));
 
-  const activeRules = candidateRules.filter((r) => hasInactivityCondition(r.conditions));
+  // Snoozed rules and rules outside their schedule are picked up by a later check
+  const activeRules = candidateRules.filter(
+    (r) => hasInactivityCondition(r.conditions) && isRuleInEffect(r)
+  );
 
   if (activeRules.length === 0) {
     console.log('[Inactivity] No active inactivity rules to check');
@@ -307,6 +313,10 @@ async function processInactivityCheck(job: Job<InactivityCheckJobData>): Promise
       const result = ruleEngine.evaluateAccountInactivity(user, params);
 
       if (result.violated) {
+        if (isExemptFromRule(await getActiveRuleExemptions(user.id), rule.id)) {
+          continue;
+        }
+
         // Only create violation if no existing unacknowledged violation exists
         const shouldCreate = await shouldCreateViolation(user.id, rule.id);
 
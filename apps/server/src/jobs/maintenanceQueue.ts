@@ -8,6 +8,7 @@
  *
  * Available maintenance jobs:
  * - normalize_players: Normalize player/device/platform names in historical sessions
+ * - generate_year_reviews: Build Year in Review summaries for every server user
  */
 
 import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
@@ -40,6 +41,7 @@ import {
   INVALID_SNAPSHOT_CONDITION,
   VALID_LIBRARY_ITEM_CONDITION,
 } from '../utils/snapshotValidation.js';
+import { generateYearReviews, getDefaultReviewYear } from '../services/yearReview.js';
 import countries from 'i18n-iso-countries';
 import countriesEn from 'i18n-iso-countries/langs/en.json' with { type: 'json' };
 
@@ -64,6 +66,7 @@ function getMaintenanceJobDescription(type: MaintenanceJobType): string {
     backfill_library_snapshots: 'Library snapshots backfill',
     cleanup_old_chunks: 'Old chunks cleanup',
     full_aggregate_rebuild: 'Full aggregate rebuild',
+    generate_year_reviews: 'Year in Review generation',
   };
   return descriptions[type] || type;
 }
@@ -75,6 +78,10 @@ export interface MaintenanceJobData {
   options?: {
     /** For rebuild_timescale_views: refresh all historical data (slow but complete) */
     fullRefresh?: boolean;
+    /** For generate_year_reviews: year to generate (defaults to the most recent one) */
+    year?: number;
+    /** For generate_year_reviews: IANA timezone for days and hours */
+    timezone?: string;
   };
 }
 
@@ -331,6 +338,8 @@ async function processMaintenanceJob(job: Job<MaintenanceJobData>): Promise<Main
       return processCleanupOldChunksJob(job);
     case 'full_aggregate_rebuild':
       return processFullAggregateRebuildJob(job);
+    case 'generate_year_reviews':
+      return processGenerateYearReviewsJob(job);
     default:
       throw new Error(`Unknown maintenance job type: ${job.data.type}`);
   }
@@ -1457,6 +1466,93 @@ async function processBackfillUserDatesJob(
   }
 }
 
+/**
+ * Generate Year in Review summaries for every server user with plays that year
+ *
+ * Regenerating replaces existing reviews; users who opted out are skipped.
+ */
+async function processGenerateYearReviewsJob(
+  job: Job<MaintenanceJobData>
+): Promise<MaintenanceJobResult> {
+  const startTime = Date.now();
+  const pubSubService = getPubSubService();
+  const year = job.data.options?.year ?? getDefaultReviewYear();
+  const timezone = job.data.options?.timezone ?? 'UTC';
+
+  activeJobProgress = {
+    type: 'generate_year_reviews',
+    status: 'running',
+    totalRecords: 0,
+    processedRecords: 0,
+    updatedRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message: `Finding users with plays in ${year}...`,
+    startedAt: new Date().toISOString(),
+  };
+
+  const publishProgress = async () => {
+    if (pubSubService && activeJobProgress) {
+      await pubSubService.publish(WS_EVENTS.MAINTENANCE_PROGRESS, activeJobProgress);
+    }
+  };
+
+  try {
+    await publishProgress();
+
+    const result = await generateYearReviews(year, timezone, async (processed, total) => {
+      if (!activeJobProgress) return;
+      activeJobProgress.totalRecords = total;
+      activeJobProgress.processedRecords = processed;
+      activeJobProgress.message = `Generated ${processed.toLocaleString()} of ${total.toLocaleString()} ${year} reviews...`;
+      await job.updateProgress(Math.round((processed / total) * 100));
+      await publishProgress();
+
+      // Extend locks periodically - one review runs several queries
+      if (processed % 25 === 0) {
+        await extendJobLock(job);
+        if (job.id) await extendHeavyOpsLock(job.id);
+      }
+    });
+
+    const durationMs = Date.now() - startTime;
+    const skipped = result.total - result.generated - result.errors;
+    const message = `Generated ${result.generated} reviews for ${year}`;
+
+    activeJobProgress.status = 'complete';
+    activeJobProgress.totalRecords = result.total;
+    activeJobProgress.processedRecords = result.total;
+    activeJobProgress.updatedRecords = result.generated;
+    activeJobProgress.skippedRecords = skipped;
+    activeJobProgress.errorRecords = result.errors;
+    activeJobProgress.message = `Completed! ${message} in ${Math.round(durationMs / 1000)}s`;
+    activeJobProgress.completedAt = new Date().toISOString();
+    await job.updateProgress(100);
+    await publishProgress();
+
+    activeJobProgress = null;
+
+    return {
+      success: true,
+      type: 'generate_year_reviews',
+      processed: result.total,
+      updated: result.generated,
+      skipped,
+      errors: result.errors,
+      durationMs,
+      message,
+    };
+  } catch (error) {
+    if (activeJobProgress) {
+      activeJobProgress.status = 'error';
+      activeJobProgress.message = error instanceof Error ? error.message : 'Unknown error';
+      await publishProgress();
+      activeJobProgress = null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Backfill library snapshots from library_items.created_at
  *
@@ -7,24 +7,53 @@
 
 import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
 import { getRedisPrefix } from '@tracearr/shared';
-import type { ViolationWithDetails, ActiveSession, NotificationEventType } from '@tracearr/shared';
+import type {
+  ViolationWithDetails,
+  ActiveSession,
+  NotificationDestinationType,
+  NotificationEventType,
+} from '@tracearr/shared';
 import { isMaintenance } from '../serverState.js';
 import { WS_EVENTS } from '@tracearr/shared';
-import { notificationManager } from '../services/notifications/index.js';
+import {
+  destinationAccepts,
+  matchesServerFilter,
+  notificationManager,
+  PayloadBuilders,
+  type NotificationPayload,
+} from '../services/notifications/index.js';
 import { pushNotificationService } from '../services/pushNotification.js';
-import { getNotificationSettings } from '../routes/settings.js';
 import { getChannelRouting } from '../routes/channelRouting.js';
+import {
+  getDestinationsByType,
+  getDestinationsForEvent,
+} from '../routes/notificationDestinations.js';
+import { getNotificationTemplates } from '../routes/notificationTemplates.js';
+import { retryWebhookDelivery } from '../services/notifications/webhookDelivery.js';
 import { broadcastToAll } from '../websocket/index.js';
 
 /**
  * Map job types to notification event types for routing lookup
  */
-const JOB_TYPE_TO_EVENT_TYPE: Record<NotificationJobData['type'], NotificationEventType> = {
+const JOB_TYPE_TO_EVENT_TYPE: Record<
+  Exclude<NotificationJobData['type'], 'webhook_delivery'>,
+  NotificationEventType
+> = {
   violation: 'violation_detected',
   session_started: 'stream_started',
   session_stopped: 'stream_stopped',
   server_down: 'server_down',
   server_up: 'server_up',
+  trust_score_changed: 'trust_score_changed',
+};
+
+/**
+ * Destination types reached by each rule notification channel
+ */
+const RULE_CHANNEL_DESTINATION_TYPES: Record<string, NotificationDestinationType[]> = {
+  discord: ['discord'],
+  webhook: ['json', 'ntfy', 'apprise', 'pushover', 'gotify'],
+  email: ['email'],
 };
 
 // Job type discriminated union for type-safe job handling
@@ -33,7 +62,19 @@ export type NotificationJobData =
   | { type: 'session_started'; payload: ActiveSession }
   | { type: 'session_stopped'; payload: ActiveSession }
   | { type: 'server_down'; payload: { serverName: string; serverId: string } }
-  | { type: 'server_up'; payload: { serverName: string; serverId: string } };
+  | { type: 'server_up'; payload: { serverName: string; serverId: string } }
+  | {
+      type: 'trust_score_changed';
+      payload: {
+        serverUserId: string;
+        serverId: string;
+        userName: string;
+        previousScore: number;
+        newScore: number;
+        reason: string | null;
+      };
+    }
+  | { type: 'webhook_delivery'; payload: { deliveryId: string } };
 
 // Queue name constant
 const QUEUE_NAME = 'notifications';
@@ -41,6 +82,10 @@ const QUEUE_NAME = 'notifications';
 // Dead letter queue name for failed jobs that exceed retry attempts
 const DLQ_NAME = 'notifications-dlq';
 
+// JSON webhook retries after the first (inline) attempt fails: 30s, 30s, 1m, 2m, 4m later
+const WEBHOOK_RETRY_ATTEMPTS = 5;
+const WEBHOOK_RETRY_DELAY_MS = 30 * 1000;
+
 // Connection options (will be set during initialization)
 let connectionOptions: ConnectionOptions | null = null;
 
@@ -179,12 +224,10 @@ export function startNotificationWorker(): void {
 
 /**
  * Process a rule notification directly to specified channels (bypasses routing).
- * When a rule action says "send notification to [channels]", we honor that directly.
+ * When a rule action says "send notification to [channels]", we honor that directly:
+ * every enabled destination of the channel's types receives it, subject to its server filter.
  */
-async function processRuleNotification(
-  payload: ViolationWithDetails,
-  settings: Awaited<ReturnType<typeof getNotificationSettings>>
-): Promise<void> {
+async function processRuleNotification(payload: ViolationWithDetails): Promise<void> {
   const data = payload.data as Record<string, unknown> | null;
   const channels = (data?.channels as string[]) ?? [];
   const customTitle = (data?.customTitle as string) ?? 'Rule Triggered';
@@ -200,40 +243,87 @@ async function processRuleNotification(
     context: { type: 'violation_detected' as const, violation: payload },
   };
 
-  // Send to each specified channel
-  for (const channel of channels) {
-    switch (channel) {
-      case 'discord':
-        if (settings.discordWebhookUrl) {
-          const discordSettings = {
-            ...settings,
-            customWebhookUrl: null, // Don't send to webhook, just discord
-          };
-          await notificationManager.sendAll(notificationPayload, discordSettings);
-        }
-        break;
-
-      case 'webhook':
-        if (settings.customWebhookUrl) {
-          const webhookSettings = {
-            ...settings,
-            discordWebhookUrl: null, // Don't send to discord, just webhook
-          };
-          await notificationManager.sendAll(notificationPayload, webhookSettings);
-        }
-        break;
-
-      case 'push':
-        // Use notifyRuleDirect to bypass user preference filters.
-        // Rule notifications are admin-configured and should reach all devices with push enabled.
-        await pushNotificationService.notifyRuleDirect(customTitle, customMessage, {
-          ruleId: payload.rule.id,
-          ruleName: payload.rule.name,
-        });
-        break;
+  const destinationTypes = channels.flatMap(
+    (channel) => RULE_CHANNEL_DESTINATION_TYPES[channel] ?? []
+  );
+  const serverId = payload.server?.id ?? payload.user.serverId;
+  const destinations = (await getDestinationsByType(destinationTypes)).filter((destination) =>
+    matchesServerFilter(destination, serverId)
+  );
 
-      // 'email' not implemented yet
-    }
+  if (destinations.length > 0) {
+    await notificationManager.sendToDestinations(notificationPayload, destinations);
+  }
+
+  if (channels.includes('push')) {
+    // Use notifyRuleDirect to bypass user preference filters.
+    // Rule notifications are admin-configured and should reach all devices with push enabled.
+    await pushNotificationService.notifyRuleDirect(customTitle, customMessage, {
+      ruleId: payload.rule.id,
+      ruleName: payload.rule.name,
+    });
+  }
+}
+
+/**
+ * Retry a failed JSON webhook delivery. Throwing hands the job back to BullMQ for
+ * the next backoff step; the last attempt marks the delivery as failed.
+ */
+async function processWebhookDeliveryJob(
+  job: Job<NotificationJobData>,
+  deliveryId: string
+): Promise<void> {
+  const final = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  const delivery = await retryWebhookDelivery(deliveryId, final);
+  if (delivery && delivery.status !== 'success') {
+    throw new Error(`Webhook delivery ${deliveryId} failed: ${delivery.error}`);
+  }
+}
+
+/**
+ * Build the agent payload and originating server for a notification job
+ */
+function buildJobPayload(data: Exclude<NotificationJobData, { type: 'webhook_delivery' }>): {
+  payload: NotificationPayload;
+  serverId: string | null;
+} {
+  switch (data.type) {
+    case 'violation':
+      return {
+        payload: PayloadBuilders.fromViolation(data.payload),
+        serverId: data.payload.server?.id ?? data.payload.user.serverId,
+      };
+    case 'session_started':
+      return {
+        payload: PayloadBuilders.fromSessionStarted(data.payload),
+        serverId: data.payload.serverId,
+      };
+    case 'session_stopped':
+      return {
+        payload: PayloadBuilders.fromSessionStopped(data.payload),
+        serverId: data.payload.serverId,
+      };
+    case 'server_down':
+      return {
+        payload: PayloadBuilders.fromServerDown(data.payload.serverName),
+        serverId: data.payload.serverId,
+      };
+    case 'server_up':
+      return {
+        payload: PayloadBuilders.fromServerUp(data.payload.serverName),
+        serverId: data.payload.serverId,
+      };
+    case 'trust_score_changed':
+      return {
+        payload: PayloadBuilders.fromTrustScoreChanged(
+          data.payload.userName,
+          data.payload.previousScore,
+          data.payload.newScore,
+          data.payload.reason
+        ),
+        serverId: data.payload.serverId,
+      };
   }
 }
 
@@ -243,15 +333,17 @@ async function processRuleNotification(
 async function processNotificationJob(job: Job<NotificationJobData>): Promise<void> {
   const { type, payload } = job.data;
 
-  // Load current settings for each job (settings may change between enqueue and process)
-  const settings = await getNotificationSettings();
+  if (type === 'webhook_delivery') {
+    await processWebhookDeliveryJob(job, payload.deliveryId);
+    return;
+  }
 
   // Check if this is a rule-triggered notification that specifies channels directly
   if (type === 'violation') {
     const data = payload.data as Record<string, unknown> | null;
     if (data?.ruleNotification === true && Array.isArray(data?.channels)) {
       // Rule notifications bypass routing - they specify channels directly
-      await processRuleNotification(payload, settings);
+      await processRuleNotification(payload);
       return;
     }
   }
@@ -260,25 +352,21 @@ async function processNotificationJob(job: Job<NotificationJobData>): Promise<vo
   const eventType = JOB_TYPE_TO_EVENT_TYPE[type];
   const routing = await getChannelRouting(eventType);
 
-  // Build notification settings with routing-aware channel enablement
-  // The routing config controls which channels receive notifications
-  // webhookEnabled gates all webhook formats: json, ntfy, apprise, pushover
-  const notificationSettings = {
-    discordWebhookUrl: routing.discordEnabled ? settings.discordWebhookUrl : null,
-    customWebhookUrl: routing.webhookEnabled ? settings.customWebhookUrl : null,
-    webhookFormat: settings.webhookFormat,
-    ntfyTopic: routing.webhookEnabled ? settings.ntfyTopic : null,
-    ntfyAuthToken: routing.webhookEnabled ? settings.ntfyAuthToken : null,
-    pushoverUserKey: routing.webhookEnabled ? settings.pushoverUserKey : null,
-    pushoverApiToken: routing.webhookEnabled ? settings.pushoverApiToken : null,
-  };
+  // Destinations are loaded for each job (they may change between enqueue and process)
+  // and each one applies its own severity and server filters
+  const { payload: notificationPayload, serverId } = buildJobPayload(job.data);
+  const destinations = (await getDestinationsForEvent(eventType)).filter((destination) =>
+    destinationAccepts(destination, notificationPayload, serverId)
+  );
+
+  // User-defined templates are only needed when a destination will actually send
+  if (destinations.length > 0) {
+    const templates = await getNotificationTemplates();
+    await notificationManager.sendToDestinations(notificationPayload, destinations, templates);
+  }
 
   switch (type) {
     case 'violation':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationManager.notifyViolation(payload, notificationSettings);
-      }
       // Send push notification to mobile devices (if routing allows)
       if (routing.pushEnabled) {
         await pushNotificationService.notifyViolation(payload);
@@ -286,10 +374,6 @@ async function processNotificationJob(job: Job<NotificationJobData>): Promise<vo
       break;
 
     case 'session_started':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationManager.notifySessionStarted(payload, notificationSettings);
-      }
       // Send push notification to mobile devices (if routing allows)
       if (routing.pushEnabled) {
         await pushNotificationService.notifySessionStarted(payload);
@@ -297,10 +381,6 @@ async function processNotificationJob(job: Job<NotificationJobData>): Promise<vo
       break;
 
     case 'session_stopped':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationManager.notifySessionStopped(payload, notificationSettings);
-      }
       // Send push notification to mobile devices (if routing allows)
       if (routing.pushEnabled) {
         await pushNotificationService.notifySessionStopped(payload);
@@ -308,9 +388,6 @@ async function processNotificationJob(job: Job<NotificationJobData>): Promise<vo
       break;
 
     case 'server_down':
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationManager.notifyServerDown(payload.serverName, notificationSettings);
-      }
       if (routing.pushEnabled) {
         await pushNotificationService.notifyServerDown(payload.serverName, payload.serverId);
       }
@@ -323,9 +400,6 @@ async function processNotificationJob(job: Job<NotificationJobData>): Promise<vo
       break;
 
     case 'server_up':
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationManager.notifyServerUp(payload.serverName, notificationSettings);
-      }
       if (routing.pushEnabled) {
         await pushNotificationService.notifyServerUp(payload.serverName, payload.serverId);
       }
@@ -337,6 +411,10 @@ async function processNotificationJob(job: Job<NotificationJobData>): Promise<vo
       }
       break;
 
+    case 'trust_score_changed':
+      // Delivered to destinations only (no push or web toast for this event)
+      break;
+
     default: {
       // TypeScript exhaustiveness check
       const _exhaustive: never = type;
@@ -374,6 +452,13 @@ function getDedupeKey(data: NotificationJobData): string | undefined {
     case 'server_up': {
       return `${data.type}-${data.payload.serverId}-${timeBucket}`;
     }
+    case 'webhook_delivery': {
+      return `${data.type}-${data.payload.deliveryId}`;
+    }
+    case 'trust_score_changed': {
+      const { serverUserId, previousScore, newScore } = data.payload;
+      return `${data.type}-${serverUserId}-${previousScore}-${newScore}-${timeBucket}`;
+    }
     default: {
       const _exhaustive: never = data;
       void _exhaustive;
@@ -421,6 +506,30 @@ export async function enqueueNotification(
   }
 }
 
+/**
+ * Schedule retries for a JSON webhook delivery whose first attempt failed.
+ * Returns the job ID, or undefined if the queue is unavailable.
+ */
+export async function enqueueWebhookRetry(deliveryId: string): Promise<string | undefined> {
+  if (!notificationQueue) {
+    console.error('Notification queue not initialized, not retrying webhook delivery:', deliveryId);
+    return undefined;
+  }
+
+  const data: NotificationJobData = { type: 'webhook_delivery', payload: { deliveryId } };
+  const job = await notificationQueue.add(data.type, data, {
+    jobId: getDedupeKey(data),
+    delay: WEBHOOK_RETRY_DELAY_MS,
+    attempts: WEBHOOK_RETRY_ATTEMPTS,
+    backoff: {
+      type: 'exponential',
+      delay: WEBHOOK_RETRY_DELAY_MS,
+    },
+  });
+
+  return job.id;
+}
+
 /**
  * Get queue statistics for monitoring
  */
@@ -62,6 +62,12 @@ vi.mock('../../../services/rules/executors/index.js', () => ({
   executeActions: (...args: unknown[]) => mockExecuteActions(...args),
 }));
 
+// Mock exemption loading (no exemptions unless a test sets them)
+const mockGetActiveRuleExemptions = vi.fn();
+vi.mock('../database.js', () => ({
+  getActiveRuleExemptions: (...args: unknown[]) => mockGetActiveRuleExemptions(...args),
+}));
+
 // Mock v2Integration
 const mockStoreActionResults = vi.fn();
 vi.mock('../../../services/rules/v2Integration.js', () => ({
@@ -238,6 +244,8 @@ function createTranscodeRule(overrides: Partial<RuleV2> = {}): RuleV2 {
     actions: {
       actions: [{ type: 'kill_stream' }],
     },
+    schedule: null,
+    snoozedUntil: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -258,6 +266,8 @@ function createConcurrentStreamsRule(overrides: Partial<RuleV2> = {}): RuleV2 {
     actions: {
       actions: [],
     },
+    schedule: null,
+    snoozedUntil: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -304,7 +314,15 @@ function setupDbMockChain() {
   // tx.select().from().where().limit() → dedup check
   mockTxSelect.mockReturnValue({ from: mockFrom });
   mockFrom.mockReturnValue({ where: mockWhere });
-  mockWhere.mockReturnValue({ limit: mockLimit });
+  mockWhere.mockReturnValue({
+    limit: mockLimit,
+    // tx.select().from().where().for('update').limit() → trust score row lock
+    for: vi.fn().mockReturnValue({
+      limit: vi
+        .fn()
+        .mockResolvedValue([{ trustScore: 100, serverId: 'server-1', username: 'testuser' }]),
+    }),
+  });
   mockLimit.mockResolvedValue([]); // No existing violations (default)
 
   // tx.insert().values().onConflictDoNothing().returning()
@@ -353,6 +371,7 @@ beforeEach(() => {
   setupDbMockChain();
   mockExecuteActions.mockResolvedValue([]);
   mockStoreActionResults.mockResolvedValue(undefined);
+  mockGetActiveRuleExemptions.mockResolvedValue([]);
 });
 
 describe('reEvaluateRulesOnTranscodeChange', () => {
@@ -379,6 +398,32 @@ describe('reEvaluateRulesOnTranscodeChange', () => {
       expect(rules[0]?.name).toBe('Block 4K Transcoding');
     });
 
+    it('passes the user exemptions to the engine', async () => {
+      const reEvaluateRulesOnTranscodeChange = await getFunction();
+
+      const exemption = {
+        id: 'exemption-1',
+        serverUserId: 'su-1',
+        userId: null,
+        ruleId: 'rule-transcode-1',
+        reason: 'Travelling',
+        expiresAt: null,
+        createdByUserId: null,
+        createdAt: new Date(),
+        revokedAt: null,
+        revokedByUserId: null,
+      };
+      mockGetActiveRuleExemptions.mockResolvedValue([exemption]);
+      mockEvaluateRulesAsync.mockResolvedValue([]);
+
+      const input = createDefaultInput();
+      await reEvaluateRulesOnTranscodeChange(input);
+
+      expect(mockGetActiveRuleExemptions).toHaveBeenCalledWith(input.serverUser.id);
+      const [baseContext] = mockEvaluateRulesAsync.mock.calls[0] as [{ exemptions: unknown }];
+      expect(baseContext.exemptions).toEqual([exemption]);
+    });
+
     it('returns empty array when no rules have transcode conditions', async () => {
       const reEvaluateRulesOnTranscodeChange = await getFunction();
 
@@ -659,6 +704,8 @@ describe('reEvaluateRulesOnTranscodeChange', () => {
               ],
             },
             actions: { actions: [] },
+            schedule: null,
+            snoozedUntil: null,
             createdAt: new Date(),
             updatedAt: new Date(),
           },
@@ -689,6 +736,8 @@ describe('reEvaluateRulesOnTranscodeChange', () => {
           groups: [{ conditions: [{ field: 'output_resolution', operator: 'eq', value: '480p' }] }],
         },
         actions: { actions: [] },
+        schedule: null,
+        snoozedUntil: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -722,6 +771,8 @@ describe('reEvaluateRulesOnTranscodeChange', () => {
           ],
         },
         actions: { actions: [] },
+        schedule: null,
+        snoozedUntil: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
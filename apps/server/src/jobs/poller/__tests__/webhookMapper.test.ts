@@ -0,0 +1,111 @@
+/**
+ * Inbound webhook mapper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapEmbyWebhook, mapJellyfinWebhook, mapPlexWebhook } from '../webhookMapper.js';
+
+describe('mapPlexWebhook', () => {
+  const episodePayload = {
+    event: 'media.play',
+    user: true,
+    owner: true,
+    Account: { id: 12345, thumb: 'https://plex.tv/users/abc/avatar', title: 'alice' },
+    Server: { title: 'Home', uuid: 'machine-1' },
+    Player: { local: false, publicAddress: '203.0.113.5', title: 'Living Room TV' },
+    Metadata: { ratingKey: '1001', type: 'episode', title: 'Pilot' },
+  };
+
+  it('maps a playback event with the sending server', () => {
+    expect(mapPlexWebhook(episodePayload)).toEqual({
+      event: 'start',
+      serverIdentifier: 'machine-1',
+    });
+  });
+
+  it('maps pause, resume, scrobble and stop events', () => {
+    const events = ['media.pause', 'media.resume', 'media.scrobble', 'media.stop'].map((event) =>
+      mapPlexWebhook({ ...episodePayload, event })
+    );
+    expect(events.map((e) => e?.event)).toEqual(['pause', 'resume', 'progress', 'stop']);
+  });
+
+  it('leaves the server unknown when the payload omits it', () => {
+    expect(mapPlexWebhook({ event: 'media.play' })?.serverIdentifier).toBeNull();
+  });
+
+  it('ignores non-playback events and invalid payloads', () => {
+    expect(mapPlexWebhook({ ...episodePayload, event: 'library.new' })).toBeNull();
+    expect(mapPlexWebhook(undefined)).toBeNull();
+    expect(mapPlexWebhook('media.play')).toBeNull();
+  });
+});
+
+describe('mapEmbyWebhook', () => {
+  const moviePayload = {
+    Title: 'bob is playing Heat',
+    Event: 'playback.start',
+    User: { Name: 'bob', Id: 'user-guid' },
+    Item: { Name: 'Heat', Id: 'item-guid', Type: 'Movie' },
+    Server: { Name: 'Home', Id: 'emby-server-1' },
+  };
+
+  it('maps a playback event with the sending server', () => {
+    expect(mapEmbyWebhook(moviePayload)).toEqual({
+      event: 'start',
+      serverIdentifier: 'emby-server-1',
+    });
+  });
+
+  it('maps pause, unpause and stop events', () => {
+    const events = ['playback.pause', 'playback.unpause', 'playback.stop'].map((Event) =>
+      mapEmbyWebhook({ ...moviePayload, Event })
+    );
+    expect(events.map((e) => e?.event)).toEqual(['pause', 'resume', 'stop']);
+  });
+
+  it('ignores non-playback events and invalid payloads', () => {
+    expect(mapEmbyWebhook({ ...moviePayload, Event: 'library.new' })).toBeNull();
+    expect(mapEmbyWebhook(null)).toBeNull();
+    expect(mapEmbyWebhook([moviePayload])).toBeNull();
+  });
+});
+
+describe('mapJellyfinWebhook', () => {
+  const moviePayload = {
+    NotificationType: 'PlaybackStart',
+    ServerId: 'jf-server-1',
+    UserId: 'user-guid',
+    NotificationUsername: 'bob',
+    ItemId: 'item-guid',
+    ItemType: 'Movie',
+    Name: 'Heat',
+    IsPaused: false,
+  };
+
+  it('maps a playback event with the sending server', () => {
+    expect(mapJellyfinWebhook(moviePayload)).toEqual({
+      event: 'start',
+      serverIdentifier: 'jf-server-1',
+    });
+  });
+
+  it('maps paused progress notifications to pause', () => {
+    expect(
+      mapJellyfinWebhook({ ...moviePayload, NotificationType: 'PlaybackProgress', IsPaused: true })
+        ?.event
+    ).toBe('pause');
+    expect(
+      mapJellyfinWebhook({ ...moviePayload, NotificationType: 'PlaybackProgress' })?.event
+    ).toBe('progress');
+    expect(mapJellyfinWebhook({ ...moviePayload, NotificationType: 'PlaybackStop' })?.event).toBe(
+      'stop'
+    );
+  });
+
+  it('ignores non-playback notifications and invalid payloads', () => {
+    expect(mapJellyfinWebhook({ ...moviePayload, NotificationType: 'ItemAdded' })).toBeNull();
+    expect(mapJellyfinWebhook(null)).toBeNull();
+    expect(mapJellyfinWebhook([moviePayload])).toBeNull();
+  });
+});
@@ -5,7 +5,7 @@
  * Includes batch loading for performance optimization and rule fetching.
  */
 
-import { eq, and, desc, gte, inArray, isNotNull } from 'drizzle-orm';
+import { eq, and, or, desc, gt, gte, inArray, isNotNull, isNull } from 'drizzle-orm';
 import {
   TIME_MS,
   SESSION_LIMITS,
@@ -15,10 +15,11 @@ import {
   type RuleV2,
   type RuleConditions,
   type RuleActions,
+  type RuleExemption,
   type ViolationSeverity,
 } from '@tracearr/shared';
 import { db } from '../../db/client.js';
-import { sessions, rules } from '../../db/schema.js';
+import { sessions, rules, ruleExemptions, serverUsers } from '../../db/schema.js';
 import { mapSessionRow } from './sessionMapper.js';
 
 // ============================================================================
@@ -134,7 +135,34 @@ export async function getActiveRulesV2(): Promise<RuleV2[]> {
     severity: (r.severity ?? 'warning') as ViolationSeverity,
     conditions: r.conditions as RuleConditions,
     actions: r.actions as RuleActions,
+    schedule: r.schedule,
+    snoozedUntil: r.snoozedUntil,
     createdAt: r.createdAt,
     updatedAt: r.updatedAt,
   }));
 }
+
+/**
+ * Get active rule exemptions for a server user, including exemptions that
+ * cover every server account of the user's identity.
+ *
+ * @param serverUserId - Server user to load exemptions for
+ * @returns Exemptions that are neither revoked nor expired
+ */
+export async function getActiveRuleExemptions(serverUserId: string): Promise<RuleExemption[]> {
+  const identity = db
+    .select({ userId: serverUsers.userId })
+    .from(serverUsers)
+    .where(eq(serverUsers.id, serverUserId));
+
+  return db
+    .select()
+    .from(ruleExemptions)
+    .where(
+      and(
+        isNull(ruleExemptions.revokedAt),
+        or(isNull(ruleExemptions.expiresAt), gt(ruleExemptions.expiresAt, new Date())),
+        or(eq(ruleExemptions.serverUserId, serverUserId), inArray(ruleExemptions.userId, identity))
+      )
+    );
+}
@@ -38,6 +38,7 @@ export {
   stopPoller,
   triggerPoll,
   triggerReconciliationPoll,
+  processPushedSessions,
   sweepStaleSessions,
 } from './processor.js';
 
@@ -89,3 +90,11 @@ export type {
   SessionStopResult,
   PendingSessionData,
 } from './types.js';
+
+// ============================================================================
+// Inbound Webhook Mapping (Plex webhooks, Jellyfin Webhook plugin)
+// ============================================================================
+
+export { mapPlexWebhook, mapEmbyWebhook, mapJellyfinWebhook } from './webhookMapper.js';
+
+export type { WebhookPlaybackEvent, WebhookPlaybackNotification } from './types.js';
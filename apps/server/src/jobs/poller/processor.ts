@@ -4,6 +4,7 @@
  * Core processing logic for the poller:
  * - processServerSessions: Process sessions from a single server
  * - pollServers: Orchestrate polling across all servers
+ * - processPushedSessions: Process sessions pushed over a Jellyfin/Emby WebSocket
  * - Lifecycle management: start, stop, trigger
  */
 
@@ -21,6 +22,7 @@ import { isMaintenance } from '../../serverState.js';
 import { db } from '../../db/client.js';
 import { servers, serverUsers, sessions, users } from '../../db/schema.js';
 import { createMediaServerClient } from '../../services/mediaServer/index.js';
+import type { MediaSession } from '../../services/mediaServer/types.js';
 import { type GeoLocation } from '../../services/geoip.js';
 import { lookupGeoIP } from '../../services/plexGeoip.js';
 import type { CacheService, PubSubService } from '../../services/cache.js';
@@ -67,6 +69,11 @@ const defaultConfig: PollerConfig = {
 // been force-stopped by the stale session sweep. 7 days gives ample buffer.
 const ACTIVE_SESSION_CHUNK_BOUND_MS = 7 * 24 * 60 * 60 * 1000;
 
+// Pushed session updates: servers with a run in progress, and the latest update
+// received meanwhile (null = refetch from the server)
+const pushedRunsInFlight = new Set<string>();
+const pendingPushedSessions = new Map<string, MediaSession[] | null>();
+
 // ============================================================================
 // Server Session Processing
 // ============================================================================
@@ -75,7 +82,7 @@ const ACTIVE_SESSION_CHUNK_BOUND_MS = 7 * 24 * 60 * 60 * 1000;
  * Process a single server's sessions
  *
  * This function:
- * 1. Fetches current sessions from the media server
+ * 1. Fetches current sessions from the media server (unless they were pushed)
  * 2. Creates/updates users as needed
  * 3. Creates new session records for new playbacks
  * 4. Updates existing sessions with state changes
@@ -85,13 +92,15 @@ const ACTIVE_SESSION_CHUNK_BOUND_MS = 7 * 24 * 60 * 60 * 1000;
  * @param server - Server to poll
  * @param activeRules - Active rules for evaluation
  * @param cachedSessionKeys - Set of currently cached session keys
+ * @param pushedSessions - Sessions already received from the server (WebSocket push)
  * @returns Processing results (new, updated, stopped sessions)
  */
 async function processServerSessions(
   server: ServerWithToken,
   activeRulesV2: RuleV2[],
   cachedSessionKeys: Set<string>,
-  activeSessions: Session[] = []
+  activeSessions: Session[] = [],
+  pushedSessions?: MediaSession[]
 ): Promise<ServerProcessingResult> {
   const newSessions: ActiveSession[] = [];
   const updatedSessions: ActiveSession[] = [];
@@ -102,12 +111,13 @@ async function processServerSessions(
 
   try {
     // Fetch sessions from server using unified adapter
-    const client = createMediaServerClient({
-      type: server.type,
-      url: server.url,
-      token: server.token,
-    });
-    const mediaSessions = await client.getSessions();
+    const mediaSessions =
+      pushedSessions ??
+      (await createMediaServerClient({
+        type: server.type,
+        url: server.url,
+        token: server.token,
+      }).getSessions());
     const processedSessions = mediaSessions.map((s) => mapMediaSession(s, server.type));
 
     // OPTIMIZATION: Early return if no active sessions from media server
@@ -849,10 +859,10 @@ async function processServerSessions(
 /**
  * Poll all connected servers for active sessions
  *
- * With SSE integration:
+ * With SSE/WebSocket integration:
  * - Plex servers with active SSE connections are skipped (handled by SSE)
- * - Plex servers in fallback mode are polled
- * - Jellyfin/Emby servers are always polled (no SSE support)
+ * - Jellyfin/Emby servers with active WebSocket connections are skipped
+ * - Servers in fallback mode are polled
  */
 async function pollServers(): Promise<void> {
   // Bail out if maintenance mode was activated while we were queued.
@@ -868,18 +878,11 @@ async function pollServers(): Promise<void> {
     }
 
     // Filter to only servers that need polling
-    // SSE-connected Plex servers are handled by SSE, not polling
-    const serversNeedingPoll = allServers.filter((server) => {
-      // Non-Plex servers always need polling (Jellyfin/Emby don't support SSE yet)
-      if (server.type !== 'plex') {
-        return true;
-      }
-      // Plex servers in fallback mode need polling
-      return sseManager.isInFallback(server.id);
-    });
+    // Servers with a live SSE/WebSocket connection are handled by push events
+    const serversNeedingPoll = allServers.filter((server) => sseManager.isInFallback(server.id));
 
     if (serversNeedingPoll.length === 0) {
-      // All Plex servers are connected via SSE, no polling needed
+      // All servers are connected via SSE/WebSocket, no polling needed
       return;
     }
 
@@ -1145,22 +1148,102 @@ export async function triggerPoll(): Promise<void> {
 }
 
 /**
- * Reconciliation poll for SSE-connected servers
+ * Process a session update pushed by a server (Jellyfin/Emby WebSocket or an inbound webhook)
+ *
+ * Runs the pushed sessions through the same path as a poll (pause accumulation,
+ * media change detection, rule evaluation). Without sessions (playback notifications
+ * and webhooks) the server's sessions are fetched instead.
+ *
+ * Runs are serialized per server; updates arriving during a run are coalesced
+ * and only the latest is processed afterwards.
+ */
+export async function processPushedSessions(
+  serverId: string,
+  pushedSessions?: MediaSession[]
+): Promise<void> {
+  if (pushedRunsInFlight.has(serverId)) {
+    pendingPushedSessions.set(serverId, pushedSessions ?? null);
+    return;
+  }
+
+  pushedRunsInFlight.add(serverId);
+  try {
+    let next = pushedSessions;
+    for (;;) {
+      await processPushedSessionsOnce(serverId, next);
+
+      if (!pendingPushedSessions.has(serverId)) break;
+      next = pendingPushedSessions.get(serverId) ?? undefined;
+      pendingPushedSessions.delete(serverId);
+    }
+  } finally {
+    pushedRunsInFlight.delete(serverId);
+  }
+}
+
+async function processPushedSessionsOnce(
+  serverId: string,
+  pushedSessions: MediaSession[] | undefined
+): Promise<void> {
+  if (isMaintenance()) return;
+
+  try {
+    const [server] = await db.select().from(servers).where(eq(servers.id, serverId)).limit(1);
+    if (!server) {
+      return;
+    }
+
+    const cachedSessions = cacheService ? await cacheService.getAllActiveSessions() : [];
+    const cachedSessionKeys = new Set(cachedSessions.map((s) => `${s.serverId}:${s.sessionKey}`));
+    const activeRulesV2 = await getActiveRulesV2();
+
+    const { newSessions, stoppedSessionKeys, updatedSessions } = await processServerSessions(
+      server as ServerWithToken,
+      activeRulesV2,
+      cachedSessionKeys,
+      cachedSessions,
+      pushedSessions
+    );
+
+    if (newSessions.length > 0 || stoppedSessionKeys.length > 0 || updatedSessions.length > 0) {
+      await processPollResults({
+        newSessions,
+        stoppedKeys: stoppedSessionKeys,
+        updatedSessions,
+        cachedSessions,
+        cacheService,
+        pubSubService,
+        enqueueNotification,
+      });
+    }
+
+    if (newSessions.length > 0 || stoppedSessionKeys.length > 0) {
+      console.log(
+        `[Poller] Pushed update for ${server.name}: ${newSessions.length} new, ${updatedSessions.length} updated, ${stoppedSessionKeys.length} stopped`
+      );
+    }
+  } catch (error) {
+    if (!isMaintenance()) {
+      console.error(`[Poller] Error processing pushed update for server ${serverId}:`, error);
+    }
+  }
+}
+
+/**
+ * Reconciliation poll for SSE/WebSocket-connected servers
  *
  * This is a lighter poll that runs periodically to catch any events
- * that might have been missed by SSE. Only polls Plex servers that
- * have active SSE connections (not in fallback mode).
+ * that might have been missed by SSE or WebSocket. Only polls servers
+ * that have active connections (not in fallback mode).
  *
  * Unlike the main poller, this processes results and updates the cache
  * to sync any sessions that SSE may have missed.
  */
 export async function triggerReconciliationPoll(): Promise<void> {
   try {
-    // Get all Plex servers with active SSE connections
+    // Get all servers with active SSE/WebSocket connections
     const allServers = await db.select().from(servers);
-    const sseServers = allServers.filter(
-      (server) => server.type === 'plex' && !sseManager.isInFallback(server.id)
-    );
+    const sseServers = allServers.filter((server) => !sseManager.isInFallback(server.id));
 
     if (sseServers.length === 0) {
       return;
@@ -15,6 +15,7 @@ import {
   type Session,
   type Server,
   type ServerUser,
+  type ServerType,
 } from '@tracearr/shared';
 import { pickStreamDetailFields } from './sessionMapper.js';
 import { db } from '../../db/client.js';
@@ -24,6 +25,7 @@ import { evaluateRulesAsync, hasTranscodeConditions } from '../../services/rules
 import { executeActions, type ActionResult } from '../../services/rules/executors/index.js';
 import { resolveTargetSessions } from '../../services/rules/executors/targeting.js';
 import { storeActionResults } from '../../services/rules/v2Integration.js';
+import { applyTrustScoreChange } from '../../services/trustScore.js';
 import type { EvaluationContext, EvaluationResult } from '../../services/rules/types.js';
 import {
   calculateStopDuration,
@@ -32,6 +34,8 @@ import {
 } from './stateTracker.js';
 import { sql } from 'drizzle-orm';
 import { getTrustScorePenalty, type ViolationInsertResult } from './violations.js';
+import { getActiveRuleExemptions } from './database.js';
+import { getMediaServerCapabilities } from '../../services/mediaServer/registry.js';
 import type {
   SessionCreationInput,
   SessionCreationResult,
@@ -108,6 +112,8 @@ export interface BuildActiveSessionInput {
     seasonNumber: number;
     episodeNumber: number;
     year: number;
+    contentRating?: string | null;
+    genres?: string[] | null;
     thumbPath: string;
     ratingKey: string;
     totalDurationMs: number;
@@ -149,7 +155,7 @@ export interface BuildActiveSessionInput {
   server: {
     id: string;
     name: string;
-    type: 'plex' | 'jellyfin' | 'emby';
+    type: ServerType;
   };
 
   /** Optional overrides for update scenarios */
@@ -161,6 +167,14 @@ export interface BuildActiveSessionInput {
   };
 }
 
+/**
+ * Whether a session can be terminated from Tracearr
+ */
+function canTerminateSession(serverType: ServerType, plexSessionId?: string | null): boolean {
+  if (!getMediaServerCapabilities(serverType).terminateSession) return false;
+  return serverType !== 'plex' || !!plexSessionId;
+}
+
 /**
  * Build an ActiveSession object for cache and broadcast.
  */
@@ -184,6 +198,8 @@ export function buildActiveSession(input: BuildActiveSessionInput): ActiveSessio
     seasonNumber: processed.seasonNumber || null,
     episodeNumber: processed.episodeNumber || null,
     year: processed.year || null,
+    contentRating: processed.contentRating ?? null,
+    genres: processed.genres ?? null,
     thumbPath: processed.thumbPath || null,
     ratingKey: processed.ratingKey || null,
 
@@ -255,7 +271,7 @@ export function buildActiveSession(input: BuildActiveSessionInput): ActiveSessio
     server: { id: server.id, name: server.name, type: server.type },
 
     // Termination capability - Plex requires Session.id, some clients (like Plexamp) don't provide it
-    canTerminate: server.type !== 'plex' || !!processed.plexSessionId,
+    canTerminate: canTerminateSession(server.type, processed.plexSessionId),
   };
 }
 
@@ -287,6 +303,8 @@ export function buildPendingActiveSession(pendingData: PendingSessionData): Acti
     seasonNumber: processed.seasonNumber || null,
     episodeNumber: processed.episodeNumber || null,
     year: processed.year || null,
+    contentRating: processed.contentRating ?? null,
+    genres: processed.genres ?? null,
     thumbPath: processed.thumbPath || null,
     ratingKey: processed.ratingKey || null,
 
@@ -359,7 +377,7 @@ export function buildPendingActiveSession(pendingData: PendingSessionData): Acti
     server: { id: server.id, name: server.name, type: server.type },
 
     // Termination capability
-    canTerminate: server.type !== 'plex' || !!processed.plexSessionId,
+    canTerminate: canTerminateSession(server.type, processed.plexSessionId),
   };
 }
 
@@ -542,6 +560,9 @@ export async function createSessionWithRulesAtomic(
     }
   }
 
+  // Exemptions are loaded once, outside the retried transaction
+  const exemptions = activeRulesV2.length > 0 ? await getActiveRuleExemptions(serverUser.id) : [];
+
   // STEP 3: Atomic transaction with SERIALIZABLE isolation and retry logic
   // SERIALIZABLE prevents phantom reads that cause duplicate violations
   let lastError: unknown;
@@ -578,6 +599,8 @@ export async function createSessionWithRulesAtomic(
               seasonNumber: processed.seasonNumber || null,
               episodeNumber: processed.episodeNumber || null,
               year: processed.year || null,
+              contentRating: processed.contentRating ?? null,
+              genres: processed.genres ?? null,
               thumbPath: processed.thumbPath || null,
               startedAt: new Date(),
               lastSeenAt: new Date(),
@@ -647,6 +670,8 @@ export async function createSessionWithRulesAtomic(
             seasonNumber: processed.seasonNumber || null,
             episodeNumber: processed.episodeNumber || null,
             year: processed.year || null,
+            contentRating: processed.contentRating ?? null,
+            genres: processed.genres ?? null,
             thumbPath: processed.thumbPath || null,
             ratingKey: processed.ratingKey || null,
             externalSessionId: null,
@@ -726,6 +751,7 @@ export async function createSessionWithRulesAtomic(
             server: serverObj,
             activeSessions,
             recentSessions,
+            exemptions,
           };
 
           // Evaluate V2 rules
@@ -787,13 +813,12 @@ export async function createSessionWithRulesAtomic(
 
               if (violation) {
                 // Decrease trust score
-                await tx
-                  .update(serverUsers)
-                  .set({
-                    trustScore: sql`GREATEST(0, ${serverUsers.trustScore} - ${trustPenalty})`,
-                    updatedAt: new Date(),
-                  })
-                  .where(eq(serverUsers.id, serverUser.id));
+                await applyTrustScoreChange(
+                  tx,
+                  serverUser.id,
+                  { delta: -trustPenalty },
+                  { source: 'violation', reason: `Violation: ${rule.name}` }
+                );
 
                 // Create rule info for ViolationInsertResult (V2 rules don't have type)
                 const ruleInfo = {
@@ -1290,6 +1315,8 @@ export async function reEvaluateRulesOnTranscodeChange(
   const transcodeRules = activeRulesV2.filter(hasTranscodeConditions);
   if (transcodeRules.length === 0) return [];
 
+  const exemptions = await getActiveRuleExemptions(serverUser.id);
+
   // Build Session object from existing session + updated transcode fields
   const session: Session = {
     id: existingSession.id,
@@ -1304,6 +1331,8 @@ export async function reEvaluateRulesOnTranscodeChange(
     seasonNumber: processed.seasonNumber || null,
     episodeNumber: processed.episodeNumber || null,
     year: processed.year || null,
+    contentRating: processed.contentRating ?? null,
+    genres: processed.genres ?? null,
     thumbPath: processed.thumbPath || null,
     ratingKey: existingSession.ratingKey,
     startedAt: existingSession.startedAt,
@@ -1379,6 +1408,7 @@ export async function reEvaluateRulesOnTranscodeChange(
     server: serverObj,
     activeSessions,
     recentSessions,
+    exemptions,
   };
 
   // Evaluate only transcode-related rules
@@ -1460,13 +1490,12 @@ export async function reEvaluateRulesOnTranscodeChange(
       if (!violation) return null;
 
       // Decrease trust score (atomic with the insert)
-      await tx
-        .update(serverUsers)
-        .set({
-          trustScore: sql`GREATEST(0, ${serverUsers.trustScore} - ${trustPenalty})`,
-          updatedAt: new Date(),
-        })
-        .where(eq(serverUsers.id, serverUser.id));
+      await applyTrustScoreChange(
+        tx,
+        serverUser.id,
+        { delta: -trustPenalty },
+        { source: 'violation', reason: `Violation: ${rule.name}` }
+      );
 
       return violation;
     });
@@ -6,7 +6,12 @@
  * - Database row → Session type (for application use)
  */
 
-import { type Session, type StreamDetailFields, MEDIA_TYPES } from '@tracearr/shared';
+import {
+  type Session,
+  type StreamDetailFields,
+  MEDIA_TYPES,
+  type ServerType,
+} from '@tracearr/shared';
 import type { MediaSession } from '../../services/mediaServer/types.js';
 import type { ProcessedSession } from './types.js';
 import { normalizeClient } from '../../utils/platformNormalizer.js';
@@ -124,10 +129,7 @@ export function pickStreamDetailFields<T extends StreamDetailFields>(
  * const processed = mapMediaSession(mediaSession, 'plex');
  * // Use processed for DB insert
  */
-export function mapMediaSession(
-  session: MediaSession,
-  serverType: 'plex' | 'jellyfin' | 'emby'
-): ProcessedSession {
+export function mapMediaSession(session: MediaSession, serverType: ServerType): ProcessedSession {
   // Resolve thumb path using lookup table
   const thumbPath = resolveThumbPath(session);
 
@@ -163,6 +165,8 @@ export function mapMediaSession(
     seasonNumber: session.episode?.seasonNumber ?? 0,
     episodeNumber: session.episode?.episodeNumber ?? 0,
     year: session.media.year ?? 0,
+    contentRating: session.media.contentRating ?? null,
+    genres: session.media.genres ?? null,
     thumbPath,
     // Live TV specific fields
     channelTitle: session.live?.channelTitle ?? null,
@@ -223,6 +227,8 @@ export function mapSessionRow(s: typeof sessions.$inferSelect): Session {
     seasonNumber: s.seasonNumber,
     episodeNumber: s.episodeNumber,
     year: s.year,
+    contentRating: s.contentRating,
+    genres: s.genres,
     thumbPath: s.thumbPath,
     ratingKey: s.ratingKey,
     externalSessionId: s.externalSessionId,
@@ -13,6 +13,7 @@ import type {
   RuleV2,
   ActiveSession,
   StreamDetailFields,
+  ServerType,
 } from '@tracearr/shared';
 import type { sessions } from '../../db/schema.js';
 import type { GeoLocation } from '../../services/geoip.js';
@@ -98,6 +99,10 @@ export interface ProcessedSession extends StreamDetailFields {
   episodeNumber: number;
   /** Release year */
   year: number;
+  /** Content rating (e.g., 'PG-13') */
+  contentRating: string | null;
+  /** Genre names (null if not reported) */
+  genres: string[] | null;
   /** Poster path */
   thumbPath: string;
 
@@ -243,7 +248,7 @@ export interface PendingSessionData {
   /** Processed session data from media server */
   processed: ProcessedSession;
   /** Server info */
-  server: { id: string; name: string; type: 'plex' | 'jellyfin' | 'emby' };
+  server: { id: string; name: string; type: ServerType };
   /** Server user info (matches SessionCreationInput.serverUser) */
   serverUser: {
     id: string;
@@ -298,7 +303,7 @@ export interface SessionCreationInput {
   /** Processed session data from media server */
   processed: ProcessedSession;
   /** Server info */
-  server: { id: string; name: string; type: 'plex' | 'jellyfin' | 'emby' };
+  server: { id: string; name: string; type: ServerType };
   /** Server user info */
   serverUser: {
     id: string;
@@ -404,7 +409,7 @@ export interface MediaChangeInput {
   /** New media data from the poll */
   processed: ProcessedSession;
   /** Server info */
-  server: { id: string; name: string; type: 'plex' | 'jellyfin' | 'emby' };
+  server: { id: string; name: string; type: ServerType };
   /** Server user info */
   serverUser: {
     id: string;
@@ -477,6 +482,22 @@ export interface TranscodeReEvalInput {
   recentSessions: Session[];
 }
 
+// ============================================================================
+// Inbound Webhook Types
+// ============================================================================
+
+/** Playback event reported by an inbound webhook */
+export type WebhookPlaybackEvent = 'start' | 'pause' | 'resume' | 'progress' | 'stop';
+
+/**
+ * Playback notification from a Plex, Emby or Jellyfin webhook
+ */
+export interface WebhookPlaybackNotification {
+  event: WebhookPlaybackEvent;
+  /** Plex machine identifier or Jellyfin/Emby server ID, when the payload includes it */
+  serverIdentifier: string | null;
+}
+
 // ============================================================================
 // Re-exports for convenience
 // ============================================================================
@@ -16,6 +16,7 @@ import { servers, serverUsers, sessions, violations, users } from '../../db/sche
 import type * as schema from '../../db/schema.js';
 import type { RuleEvaluationResult } from '../../services/rules.js';
 import type { PubSubService } from '../../services/cache.js';
+import { applyTrustScoreChange } from '../../services/trustScore.js';
 import { enqueueNotification } from '../notificationQueue.js';
 
 // Type for transaction context
@@ -368,13 +369,12 @@ export async function createViolation(
 
     // Only update trust score if we actually inserted a violation
     if (violation) {
-      await tx
-        .update(serverUsers)
-        .set({
-          trustScore: sql`GREATEST(0, ${serverUsers.trustScore} - ${trustPenalty})`,
-          updatedAt: new Date(),
-        })
-        .where(eq(serverUsers.id, serverUserId));
+      await applyTrustScoreChange(
+        tx,
+        serverUserId,
+        { delta: -trustPenalty },
+        { source: 'violation', reason: `Violation: ${rule.name}` }
+      );
     }
 
     return violation;
@@ -515,13 +515,12 @@ export async function createViolationInTransaction(
   }
 
   // Decrease server user trust score based on severity
-  await tx
-    .update(serverUsers)
-    .set({
-      trustScore: sql`GREATEST(0, ${serverUsers.trustScore} - ${trustPenalty})`,
-      updatedAt: new Date(),
-    })
-    .where(eq(serverUsers.id, serverUserId));
+  await applyTrustScoreChange(
+    tx,
+    serverUserId,
+    { delta: -trustPenalty },
+    { source: 'violation', reason: `Violation: ${rule.name}` }
+  );
 
   return { violation, rule, trustPenalty };
 }
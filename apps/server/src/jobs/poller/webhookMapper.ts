@@ -0,0 +1,89 @@
+/**
+ * Inbound Webhook Mapping Functions
+ *
+ * Recognize playback notifications in Plex webhook, Emby webhook and Jellyfin
+ * Webhook plugin payloads. Only the event and the sending server are read: the
+ * session itself is fetched from the server, since webhooks never carry stream
+ * or quality details. Payloads that are not playback notifications map to null.
+ */
+
+import { getNestedObject, parseOptionalString, parseString } from '../../utils/parsing.js';
+import type { WebhookPlaybackEvent, WebhookPlaybackNotification } from './types.js';
+
+/** Plex webhook event → playback event */
+const PLEX_EVENTS: Record<string, WebhookPlaybackEvent> = {
+  'media.play': 'start',
+  'media.pause': 'pause',
+  'media.resume': 'resume',
+  'media.scrobble': 'progress',
+  'media.stop': 'stop',
+};
+
+/** Emby webhook Event → playback event */
+const EMBY_EVENTS: Record<string, WebhookPlaybackEvent> = {
+  'playback.start': 'start',
+  'playback.pause': 'pause',
+  'playback.unpause': 'resume',
+  'playback.stop': 'stop',
+};
+
+/** Jellyfin Webhook plugin NotificationType → playback event */
+const JELLYFIN_EVENTS: Record<string, WebhookPlaybackEvent> = {
+  PlaybackStart: 'start',
+  PlaybackProgress: 'progress',
+  PlaybackStop: 'stop',
+};
+
+function asRecord(val: unknown): Record<string, unknown> | null {
+  return val != null && typeof val === 'object' && !Array.isArray(val)
+    ? (val as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Map a Plex webhook payload (the JSON `payload` field of the multipart body)
+ */
+export function mapPlexWebhook(payload: unknown): WebhookPlaybackNotification | null {
+  const data = asRecord(payload);
+  if (!data) return null;
+
+  const event = PLEX_EVENTS[parseString(data.event)];
+  if (!event) return null;
+
+  const server = getNestedObject(data, 'Server') ?? {};
+  return { event, serverIdentifier: parseOptionalString(server.uuid) ?? null };
+}
+
+/**
+ * Map an Emby webhook payload (JSON body, or the `data` field of a multipart body)
+ */
+export function mapEmbyWebhook(payload: unknown): WebhookPlaybackNotification | null {
+  const data = asRecord(payload);
+  if (!data) return null;
+
+  const event = EMBY_EVENTS[parseString(data.Event)];
+  if (!event) return null;
+
+  const server = getNestedObject(data, 'Server') ?? {};
+  return { event, serverIdentifier: parseOptionalString(server.Id) ?? null };
+}
+
+/**
+ * Map a Jellyfin Webhook plugin payload
+ *
+ * Expects the plugin's "Send All Properties" body (or a template using the same names).
+ */
+export function mapJellyfinWebhook(payload: unknown): WebhookPlaybackNotification | null {
+  const data = asRecord(payload);
+  if (!data) return null;
+
+  const notification = JELLYFIN_EVENTS[parseString(data.NotificationType)];
+  if (!notification) return null;
+
+  const isPaused = data.IsPaused === true || data.IsPaused === 'true';
+  // The plugin reports pauses as progress notifications
+  const event: WebhookPlaybackEvent =
+    notification === 'progress' && isPaused ? 'pause' : notification;
+
+  return { event, serverIdentifier: parseOptionalString(data.ServerId) ?? null };
+}
@@ -0,0 +1,120 @@
+/**
+ * Server resource sampler
+ *
+ * Run on an interval to store one row per server in server_resource_samples:
+ * - CPU/memory utilization for servers that report it (Plex)
+ * - Stream, transcode and bandwidth figures from the active session cache (all servers)
+ *
+ * Jellyfin and Emby expose no CPU or memory figures through their APIs, so their
+ * rows leave the utilization columns null and chart transcode load only.
+ *
+ * Together these let transcode load be lined up against CPU spikes over any range.
+ */
+
+import { SERVER_RESOURCE_HISTORY, type ActiveSession } from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { servers, serverResourceSamples } from '../db/schema.js';
+import { createMediaServerClient } from '../services/mediaServer/index.js';
+import { getMediaServerCapabilities } from '../services/mediaServer/registry.js';
+import type { MediaServerResourceUsage } from '../services/mediaServer/types.js';
+import type { CacheService } from '../services/cache.js';
+
+export interface SessionLoad {
+  streamCount: number;
+  transcodeCount: number;
+  /** Combined bitrate of playing (not paused) streams */
+  bandwidthKbps: number;
+}
+
+/**
+ * Summarize active sessions per server
+ */
+export function summarizeSessionLoad(
+  sessions: Pick<ActiveSession, 'serverId' | 'state' | 'isTranscode' | 'bitrate'>[]
+): Map<string, SessionLoad> {
+  const loads = new Map<string, SessionLoad>();
+
+  for (const session of sessions) {
+    if (session.state === 'stopped') continue;
+
+    let load = loads.get(session.serverId);
+    if (!load) {
+      load = { streamCount: 0, transcodeCount: 0, bandwidthKbps: 0 };
+      loads.set(session.serverId, load);
+    }
+
+    load.streamCount++;
+    if (session.isTranscode) load.transcodeCount++;
+    if (session.state === 'playing') load.bandwidthKbps += session.bitrate ?? 0;
+  }
+
+  return loads;
+}
+
+/**
+ * Align a timestamp to the start of its sampling interval so that
+ * a second run within the same interval is ignored instead of adding a row
+ */
+export function getSampleTime(now: number = Date.now()): Date {
+  const interval = SERVER_RESOURCE_HISTORY.SAMPLE_INTERVAL_MS;
+  return new Date(Math.floor(now / interval) * interval);
+}
+
+/**
+ * Take one sample for every configured server
+ */
+export async function sampleServerResources(
+  cacheService: CacheService
+): Promise<{ sampled: number }> {
+  const serverList = await db
+    .select({ id: servers.id, type: servers.type, url: servers.url, token: servers.token })
+    .from(servers);
+
+  if (serverList.length === 0) {
+    return { sampled: 0 };
+  }
+
+  const sampledAt = getSampleTime();
+  const loads = summarizeSessionLoad(await cacheService.getAllActiveSessions());
+
+  const rows = await Promise.all(
+    serverList.map(async (server) => {
+      let usage: MediaServerResourceUsage | null = null;
+
+      if (getMediaServerCapabilities(server.type).resourceUsage) {
+        try {
+          const client = createMediaServerClient({
+            type: server.type,
+            url: server.url,
+            token: server.token,
+          });
+          usage = (await client.getResourceUsage?.()) ?? null;
+        } catch (error) {
+          // Unreachable servers still get session figures (zero streams)
+          console.warn(`[ResourceSampler] Failed to read resource usage for ${server.id}:`, error);
+        }
+      }
+
+      return {
+        serverId: server.id,
+        sampledAt,
+        hostCpuUtilization: usage?.hostCpuUtilization ?? null,
+        processCpuUtilization: usage?.processCpuUtilization ?? null,
+        hostMemoryUtilization: usage?.hostMemoryUtilization ?? null,
+        processMemoryUtilization: usage?.processMemoryUtilization ?? null,
+        streamCount: loads.get(server.id)?.streamCount ?? 0,
+        transcodeCount: loads.get(server.id)?.transcodeCount ?? 0,
+        bandwidthKbps: loads.get(server.id)?.bandwidthKbps ?? 0,
+      };
+    })
+  );
+
+  await db
+    .insert(serverResourceSamples)
+    .values(rows)
+    .onConflictDoNothing({
+      target: [serverResourceSamples.serverId, serverResourceSamples.sampledAt],
+    });
+
+  return { sampled: rows.length };
+}
@@ -0,0 +1,398 @@
+/**
+ * Restore Queue - BullMQ-based backup restore processing
+ *
+ * Restores run in the background so large archives do not hold an HTTP request
+ * open. The uploaded archive is kept in a temp file (only its path is stored in
+ * Redis) and is deleted when the job finishes, whether it succeeds or not.
+ *
+ * Restores take the heavy operations lock, so they never overlap an import or
+ * maintenance job.
+ */
+
+import { unlink } from 'node:fs/promises';
+import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
+import { isMaintenance } from '../serverState.js';
+import { getRedisPrefix, WS_EVENTS } from '@tracearr/shared';
+import type {
+  BackupConflictStrategy,
+  BackupRestoreProgress,
+  BackupRestoreResult,
+} from '@tracearr/shared';
+import { restoreBackup } from '../services/backup/restore.js';
+import { getPubSubService } from '../services/cache.js';
+import { extendJobLock } from './lockUtils.js';
+import {
+  acquireHeavyOpsLock,
+  releaseHeavyOpsLock,
+  extendHeavyOpsLock,
+  type HeavyOpsLockHolder,
+} from './heavyOpsLock.js';
+
+export interface RestoreJobData {
+  filePath: string; // Uploaded archive in the temp directory
+  fileName: string;
+  conflictStrategy: BackupConflictStrategy;
+  userId: string; // Audit trail - who initiated the restore
+}
+
+const QUEUE_NAME = 'backup-restore';
+const JOB_DESCRIPTION = 'Backup restore';
+
+let connectionOptions: ConnectionOptions | null = null;
+let restoreQueue: Queue<RestoreJobData> | null = null;
+let restoreWorker: Worker<RestoreJobData> | null = null;
+
+export interface ActiveRestoreProgress extends BackupRestoreProgress {
+  jobId: string;
+  startedAt: string;
+}
+
+// Cached progress for polling access (in addition to websocket broadcasts)
+let activeRestoreProgress: ActiveRestoreProgress | null = null;
+
+function emptyProgress(
+  status: BackupRestoreProgress['status'],
+  message: string
+): BackupRestoreProgress {
+  return {
+    status,
+    processedBytes: 0,
+    totalBytes: 0,
+    restoredRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message,
+  };
+}
+
+async function removeArchive(filePath: string): Promise<void> {
+  try {
+    await unlink(filePath);
+  } catch {
+    // Already removed
+  }
+}
+
+/**
+ * Initialize the restore queue with Redis connection
+ */
+export function initRestoreQueue(redisUrl: string): void {
+  if (restoreQueue) {
+    console.log('Restore queue already initialized');
+    return;
+  }
+
+  connectionOptions = { url: redisUrl };
+  const bullPrefix = `${getRedisPrefix()}bull`;
+
+  restoreQueue = new Queue<RestoreJobData>(QUEUE_NAME, {
+    connection: connectionOptions,
+    prefix: bullPrefix,
+    defaultJobOptions: {
+      // The archive is deleted after the first attempt, so retries cannot succeed
+      attempts: 1,
+      removeOnComplete: {
+        count: 20,
+        age: 7 * 24 * 60 * 60, // 7 days
+      },
+      removeOnFail: {
+        count: 20,
+        age: 7 * 24 * 60 * 60,
+      },
+    },
+  });
+  restoreQueue.on('error', (err) => {
+    if (!isMaintenance()) console.error('[Restore] Queue error:', err);
+  });
+
+  console.log('Restore queue initialized');
+}
+
+/**
+ * Start the restore worker to process queued jobs
+ */
+export function startRestoreWorker(): void {
+  if (!connectionOptions) {
+    throw new Error('Restore queue not initialized. Call initRestoreQueue first.');
+  }
+
+  if (restoreWorker) {
+    console.log('Restore worker already running');
+    return;
+  }
+
+  const bullPrefix = `${getRedisPrefix()}bull`;
+
+  restoreWorker = new Worker<RestoreJobData>(
+    QUEUE_NAME,
+    async (job: Job<RestoreJobData>) => {
+      const startTime = Date.now();
+      const startedAt = new Date().toISOString();
+      const pubSubService = getPubSubService();
+      console.log(`[Restore] Starting job ${job.id} (${job.data.fileName})`);
+
+      activeRestoreProgress = {
+        ...emptyProgress('waiting', 'Starting...'),
+        jobId: job.id!,
+        startedAt,
+      };
+
+      try {
+        // Acquire heavy operations lock (waits if another heavy op is running)
+        let lockHolder: HeavyOpsLockHolder | null;
+        const WAIT_INTERVAL_MS = 5000; // Check every 5 seconds
+        const MAX_WAIT_MS = 4 * 60 * 60 * 1000; // Max 4 hours wait
+        let waitedMs = 0;
+
+        while (
+          (lockHolder = await acquireHeavyOpsLock('import', job.id!, JOB_DESCRIPTION)) !== null
+        ) {
+          activeRestoreProgress = {
+            ...emptyProgress('waiting', `Waiting for ${lockHolder.description} to complete...`),
+            waitingFor: {
+              jobType: lockHolder.jobType,
+              description: lockHolder.description,
+              startedAt: lockHolder.startedAt,
+            },
+            jobId: job.id!,
+            startedAt,
+          };
+
+          if (pubSubService) {
+            void pubSubService.publish(WS_EVENTS.BACKUP_RESTORE_PROGRESS, activeRestoreProgress);
+          }
+
+          console.log(
+            `[Restore] Job ${job.id} waiting for ${lockHolder.jobType} job: ${lockHolder.description}`
+          );
+
+          await extendJobLock(job);
+          await new Promise((resolve) => setTimeout(resolve, WAIT_INTERVAL_MS));
+          waitedMs += WAIT_INTERVAL_MS;
+
+          if (waitedMs >= MAX_WAIT_MS) {
+            throw new Error(
+              `Timed out waiting for ${lockHolder.description} after ${MAX_WAIT_MS / 1000 / 60} minutes`
+            );
+          }
+        }
+
+        console.log(`[Restore] Job ${job.id} acquired heavy ops lock`);
+
+        try {
+          const result = await processRestoreJob(job, startedAt);
+          const duration = Math.round((Date.now() - startTime) / 1000);
+          console.log(`[Restore] Job ${job.id} completed in ${duration}s:`, result.message);
+          return result;
+        } finally {
+          await releaseHeavyOpsLock(job.id!);
+          console.log(`[Restore] Job ${job.id} released heavy ops lock`);
+        }
+      } catch (error) {
+        const duration = Math.round((Date.now() - startTime) / 1000);
+        console.error(`[Restore] Job ${job.id} failed after ${duration}s:`, error);
+        throw error;
+      } finally {
+        activeRestoreProgress = null;
+        await removeArchive(job.data.filePath);
+      }
+    },
+    {
+      connection: connectionOptions,
+      prefix: bullPrefix,
+      concurrency: 1,
+      lockDuration: 2 * 60 * 60 * 1000, // 2 hours - large archives can take a long time
+      stalledInterval: 30 * 1000,
+      maxStalledCount: 0, // The archive may be gone after a crash - fail instead of retrying
+    }
+  );
+
+  restoreWorker.on('stalled', (jobId) => {
+    console.warn(`[Restore] Job ${jobId} stalled`);
+    activeRestoreProgress = null;
+  });
+
+  restoreWorker.on('failed', (job, error) => {
+    if (!job) return;
+    activeRestoreProgress = null;
+
+    const pubSubService = getPubSubService();
+    if (pubSubService) {
+      void pubSubService.publish(WS_EVENTS.BACKUP_RESTORE_PROGRESS, {
+        ...emptyProgress('error', `Restore failed: ${error?.message || 'Unknown error'}`),
+        jobId: job.id,
+      });
+    }
+  });
+
+  restoreWorker.on('error', (error) => {
+    if (!isMaintenance()) console.error('[Restore] Worker error:', error);
+  });
+
+  console.log('Restore worker started');
+}
+
+/**
+ * Run the restore and publish its progress
+ */
+async function processRestoreJob(
+  job: Job<RestoreJobData>,
+  startedAt: string
+): Promise<BackupRestoreResult> {
+  const pubSubService = getPubSubService();
+
+  const onProgress = async (progress: BackupRestoreProgress) => {
+    const percent =
+      progress.totalBytes > 0
+        ? Math.round((progress.processedBytes / progress.totalBytes) * 100)
+        : 0;
+    await job.updateProgress(percent);
+
+    activeRestoreProgress = { ...progress, jobId: job.id!, startedAt };
+
+    // Extend locks - fails fast if lock is lost
+    await extendJobLock(job, 5 * 60 * 1000);
+    await extendHeavyOpsLock(job.id!);
+
+    if (pubSubService) {
+      await pubSubService.publish(WS_EVENTS.BACKUP_RESTORE_PROGRESS, {
+        ...progress,
+        jobId: job.id,
+      });
+    }
+  };
+
+  const result = await restoreBackup(
+    job.data.filePath,
+    { conflictStrategy: job.data.conflictStrategy },
+    onProgress
+  );
+
+  if (pubSubService) {
+    await pubSubService.publish(WS_EVENTS.BACKUP_RESTORE_PROGRESS, {
+      status: 'complete',
+      processedBytes: 0,
+      totalBytes: 0,
+      restoredRecords: result.restored,
+      skippedRecords: result.skipped,
+      errorRecords: result.errors,
+      message: result.message,
+      jobId: job.id,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Get the active (or queued) restore job, if any
+ */
+export async function getActiveRestore(): Promise<{
+  jobId: string;
+  state: string;
+  progress: ActiveRestoreProgress | null;
+  createdAt: number;
+} | null> {
+  if (!restoreQueue) {
+    return null;
+  }
+
+  const [job] = await restoreQueue.getJobs(['active', 'waiting', 'delayed']);
+  if (!job) {
+    return null;
+  }
+
+  return {
+    jobId: job.id ?? 'unknown',
+    state: await job.getState(),
+    progress:
+      activeRestoreProgress && activeRestoreProgress.jobId === job.id
+        ? activeRestoreProgress
+        : null,
+    createdAt: job.timestamp ?? Date.now(),
+  };
+}
+
+/**
+ * Get cached progress of the running restore (for Running Tasks)
+ */
+export function getRestoreProgress(): ActiveRestoreProgress | null {
+  return activeRestoreProgress;
+}
+
+/**
+ * Enqueue a restore of an uploaded archive
+ *
+ * The caller hands over ownership of the file; it is deleted once the job ends.
+ */
+export async function enqueueRestore(data: RestoreJobData): Promise<string> {
+  if (!restoreQueue) {
+    throw new Error('Restore queue not initialized');
+  }
+
+  const existing = await restoreQueue.getJobs(['active', 'waiting', 'delayed']);
+  if (existing.length > 0) {
+    throw new Error(`Restore already in progress (job ${existing[0]!.id})`);
+  }
+
+  const newJobId = `restore-${Date.now()}`;
+  const job = await restoreQueue.add('backup-restore', data, { jobId: newJobId });
+
+  const jobId = job.id ?? newJobId;
+  console.log(`[Restore] Enqueued job ${jobId} (${data.fileName}, ${data.conflictStrategy})`);
+  return jobId;
+}
+
+/**
+ * Get restore job status
+ */
+export async function getRestoreStatus(jobId: string): Promise<{
+  jobId: string;
+  state: string;
+  progress: number | object | null;
+  result?: BackupRestoreResult;
+  failedReason?: string;
+  createdAt?: number;
+  finishedAt?: number;
+} | null> {
+  if (!restoreQueue) {
+    return null;
+  }
+
+  const job = await restoreQueue.getJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const state = await job.getState();
+  const progress = job.progress;
+
+  return {
+    jobId: job.id ?? jobId,
+    state,
+    progress: typeof progress === 'number' || typeof progress === 'object' ? progress : null,
+    result: job.returnvalue as BackupRestoreResult | undefined,
+    failedReason: job.failedReason,
+    createdAt: job.timestamp,
+    finishedAt: job.finishedOn,
+  };
+}
+
+/**
+ * Gracefully shutdown
+ */
+export async function shutdownRestoreQueue(): Promise<void> {
+  console.log('Shutting down restore queue...');
+
+  if (restoreWorker) {
+    await restoreWorker.close();
+    restoreWorker = null;
+  }
+
+  if (restoreQueue) {
+    await restoreQueue.close();
+    restoreQueue = null;
+  }
+
+  console.log('Restore queue shutdown complete');
+}
@@ -9,11 +9,19 @@
  * 2. Fetch full session details from Plex API (SSE only gives minimal info)
  * 3. Process session update using existing poller logic
  * 4. Broadcast updates via WebSocket
+ *
+ * Jellyfin/Emby WebSocket updates carry the full session list and are handed
+ * straight to the poller's processing path (processPushedSessions).
  */
 
 import { randomUUID } from 'node:crypto';
 import { eq, and, isNull } from 'drizzle-orm';
-import { SESSION_WRITE_RETRY, type PlexPlaySessionNotification } from '@tracearr/shared';
+import {
+  SESSION_WRITE_RETRY,
+  type PlexPlaySessionNotification,
+  type ServerType,
+} from '@tracearr/shared';
+import type { MediaSession } from '../services/mediaServer/types.js';
 import { db } from '../db/client.js';
 import { servers, sessions, serverUsers, users } from '../db/schema.js';
 import { createMediaServerClient } from '../services/mediaServer/index.js';
@@ -46,7 +54,7 @@ import {
 } from './poller/sessionLifecycle.js';
 import type { PendingSessionData } from './poller/types.js';
 import { enqueueNotification } from './notificationQueue.js';
-import { triggerReconciliationPoll } from './poller/index.js';
+import { processPushedSessions, triggerReconciliationPoll } from './poller/index.js';
 
 let cacheService: CacheService | null = null;
 let pubSubService: PubSubService | null = null;
@@ -78,12 +86,20 @@ interface SessionEvent {
 interface FallbackEvent {
   serverId: string;
   serverName: string;
+  serverType: ServerType;
+}
+interface WebSocketSessionsEvent {
+  serverId: string;
+  sessions: MediaSession[];
 }
 const wrappedHandlers = {
   playing: (e: SessionEvent) => void handlePlaying(e),
   paused: (e: SessionEvent) => void handlePaused(e),
   stopped: (e: SessionEvent) => void handleStopped(e),
   progress: (e: SessionEvent) => void handleProgress(e),
+  websocketSessions: (e: WebSocketSessionsEvent) =>
+    void processPushedSessions(e.serverId, e.sessions),
+  websocketPlayback: (e: { serverId: string }) => void processPushedSessions(e.serverId),
   reconciliation: () => void handleReconciliation(),
   fallbackActivated: (e: FallbackEvent) => handleFallbackActivated(e),
   fallbackDeactivated: (e: FallbackEvent) =>
@@ -166,7 +182,7 @@ export function startSSEProcessor(): void {
   isRunning = true;
   registerService('sse-processor', {
     name: 'SSE Processor',
-    description: 'Processes real-time Plex SSE events',
+    description: 'Processes real-time Plex SSE and Jellyfin/Emby WebSocket events',
     intervalMs: 0, // event-driven, not interval-based
   });
 
@@ -175,6 +191,8 @@ export function startSSEProcessor(): void {
   sseManager.on('plex:session:paused', wrappedHandlers.paused);
   sseManager.on('plex:session:stopped', wrappedHandlers.stopped);
   sseManager.on('plex:session:progress', wrappedHandlers.progress);
+  sseManager.on('websocket:sessions', wrappedHandlers.websocketSessions);
+  sseManager.on('websocket:playback', wrappedHandlers.websocketPlayback);
   sseManager.on('reconciliation:needed', wrappedHandlers.reconciliation);
 
   // Subscribe to server health events (SSE connection state changes)
@@ -200,6 +218,8 @@ export function stopSSEProcessor(): void {
   sseManager.off('plex:session:paused', wrappedHandlers.paused);
   sseManager.off('plex:session:stopped', wrappedHandlers.stopped);
   sseManager.off('plex:session:progress', wrappedHandlers.progress);
+  sseManager.off('websocket:sessions', wrappedHandlers.websocketSessions);
+  sseManager.off('websocket:playback', wrappedHandlers.websocketPlayback);
   sseManager.off('reconciliation:needed', wrappedHandlers.reconciliation);
   sseManager.off('fallback:activated', wrappedHandlers.fallbackActivated);
   sseManager.off('fallback:deactivated', wrappedHandlers.fallbackDeactivated);
@@ -581,7 +601,13 @@ async function processSessionWriteRetries(): Promise<void> {
  * Schedules a server_down notification after a threshold delay to prevent false alarms
  */
 function handleFallbackActivated(event: FallbackEvent): void {
-  const { serverId, serverName } = event;
+  const { serverId, serverName, serverType } = event;
+
+  // A failed Jellyfin/Emby WebSocket (e.g. blocked by a reverse proxy) does not mean
+  // the server is down; the poller's health check reports those servers
+  if (serverType !== 'plex') {
+    return;
+  }
 
   // Cancel any existing pending notification for this server (shouldn't happen, but be safe)
   const existing = pendingServerDownNotifications.get(serverId);
@@ -625,7 +651,11 @@ function handleFallbackActivated(event: FallbackEvent): void {
  * Sends server_up notification if server was previously marked as down
  */
 async function handleFallbackDeactivated(event: FallbackEvent): Promise<void> {
-  const { serverId, serverName } = event;
+  const { serverId, serverName, serverType } = event;
+
+  if (serverType !== 'plex') {
+    return;
+  }
 
   // Check if there's a pending server_down notification to cancel
   const pending = pendingServerDownNotifications.get(serverId);
@@ -0,0 +1,241 @@
+/**
+ * Trust Recovery Queue - BullMQ-based periodic trust score recovery
+ *
+ * Restores trust to users with a clean record: each run, users without a
+ * violation (or a previous recovery) in the policy interval gain the policy's
+ * points, up to its cap. Users below the floor are left for manual review.
+ * The policy is read from settings on every run, so changes apply immediately.
+ */
+
+import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
+import { and, eq, gte, lt, notExists } from 'drizzle-orm';
+import { getRedisPrefix, TIME_MS } from '@tracearr/shared';
+import { isMaintenance } from '../serverState.js';
+import { db } from '../db/client.js';
+import { serverUsers, trustScoreHistory, violations } from '../db/schema.js';
+import { getTrustRecoveryPolicy } from '../routes/settings.js';
+import {
+  applyTrustScoreChange,
+  getRecoveredScore,
+  notifyTrustScoreChange,
+} from '../services/trustScore.js';
+
+// Queue name
+const QUEUE_NAME = 'trust-recovery';
+
+// Fixed run interval (daily); eligibility uses the policy interval
+const RUN_INTERVAL_MS = TIME_MS.DAY;
+
+// Startup delay before first run (10 minutes)
+const STARTUP_DELAY_MS = 10 * TIME_MS.MINUTE;
+
+// Job types
+interface TrustRecoveryJobData {
+  type: 'recover';
+}
+
+// Connection options (set during initialization)
+let connectionOptions: ConnectionOptions | null = null;
+
+// Queue and worker instances
+let recoveryQueue: Queue<TrustRecoveryJobData> | null = null;
+let recoveryWorker: Worker<TrustRecoveryJobData> | null = null;
+
+/**
+ * Initialize the trust recovery queue with Redis connection
+ */
+export function initTrustRecoveryQueue(redisUrl: string): void {
+  if (recoveryQueue) {
+    console.log('[TrustRecovery] Queue already initialized');
+    return;
+  }
+
+  connectionOptions = { url: redisUrl };
+  const bullPrefix = `${getRedisPrefix()}bull`;
+
+  recoveryQueue = new Queue<TrustRecoveryJobData>(QUEUE_NAME, {
+    connection: connectionOptions,
+    prefix: bullPrefix,
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 10000, // 10s, 20s, 40s
+      },
+      removeOnComplete: {
+        count: 30,
+        age: 30 * 24 * 60 * 60, // 30 days
+      },
+      removeOnFail: {
+        count: 100,
+        age: 7 * 24 * 60 * 60, // 7 days
+      },
+    },
+  });
+  recoveryQueue.on('error', (err) => {
+    if (!isMaintenance()) console.error('[TrustRecovery] Queue error:', err);
+  });
+
+  console.log('[TrustRecovery] Queue initialized');
+}
+
+/**
+ * Start the trust recovery worker
+ */
+export function startTrustRecoveryWorker(): void {
+  if (!connectionOptions) {
+    throw new Error('Trust recovery queue not initialized. Call initTrustRecoveryQueue first.');
+  }
+
+  if (recoveryWorker) {
+    console.log('[TrustRecovery] Worker already running');
+    return;
+  }
+
+  const bullPrefix = `${getRedisPrefix()}bull`;
+
+  recoveryWorker = new Worker<TrustRecoveryJobData>(
+    QUEUE_NAME,
+    async (job: Job<TrustRecoveryJobData>) => {
+      const startTime = Date.now();
+      try {
+        const { recovered } = await processTrustRecovery();
+        const duration = Date.now() - startTime;
+        console.log(
+          `[TrustRecovery] Job ${job.id} recovered ${recovered} user(s) in ${duration}ms`
+        );
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        console.error(`[TrustRecovery] Job ${job.id} failed after ${duration}ms:`, error);
+        throw error;
+      }
+    },
+    {
+      connection: connectionOptions,
+      prefix: bullPrefix,
+      concurrency: 1,
+    }
+  );
+
+  recoveryWorker.on('error', (error) => {
+    if (!isMaintenance()) console.error('[TrustRecovery] Worker error:', error);
+  });
+
+  console.log('[TrustRecovery] Worker started');
+}
+
+/**
+ * Schedule the daily recovery run (and one shortly after startup)
+ */
+export async function scheduleTrustRecovery(): Promise<void> {
+  if (!recoveryQueue) {
+    console.error('[TrustRecovery] Queue not initialized');
+    return;
+  }
+
+  await recoveryQueue.add(
+    'scheduled-recovery',
+    { type: 'recover' },
+    {
+      repeat: {
+        every: RUN_INTERVAL_MS,
+      },
+      jobId: 'trust-recovery-repeatable',
+    }
+  );
+
+  await recoveryQueue.add(
+    'startup-recovery',
+    { type: 'recover' },
+    {
+      delay: STARTUP_DELAY_MS,
+      jobId: `startup-${Date.now()}`,
+    }
+  );
+
+  console.log('[TrustRecovery] Scheduled daily recovery');
+}
+
+/**
+ * Recover trust for every eligible user under the current policy
+ */
+export async function processTrustRecovery(now = new Date()): Promise<{ recovered: number }> {
+  const policy = await getTrustRecoveryPolicy();
+  if (!policy.enabled) {
+    return { recovered: 0 };
+  }
+
+  const since = new Date(now.getTime() - policy.intervalDays * TIME_MS.DAY);
+
+  // Users in the recoverable range with no violation and no recovery in the interval
+  const candidates = await db
+    .select({ id: serverUsers.id, trustScore: serverUsers.trustScore })
+    .from(serverUsers)
+    .where(
+      and(
+        gte(serverUsers.trustScore, policy.floor),
+        lt(serverUsers.trustScore, policy.cap),
+        notExists(
+          db
+            .select({ id: violations.id })
+            .from(violations)
+            .where(
+              and(eq(violations.serverUserId, serverUsers.id), gte(violations.createdAt, since))
+            )
+        ),
+        notExists(
+          db
+            .select({ id: trustScoreHistory.id })
+            .from(trustScoreHistory)
+            .where(
+              and(
+                eq(trustScoreHistory.serverUserId, serverUsers.id),
+                eq(trustScoreHistory.source, 'recovery'),
+                gte(trustScoreHistory.createdAt, since)
+              )
+            )
+        )
+      )
+    );
+
+  let recovered = 0;
+  for (const candidate of candidates) {
+    const target = getRecoveredScore(candidate.trustScore, policy);
+    if (target === null) continue;
+
+    const change = await applyTrustScoreChange(
+      db,
+      candidate.id,
+      { delta: target - candidate.trustScore, max: policy.cap },
+      {
+        source: 'recovery',
+        reason: `No violations in ${policy.intervalDays} day${policy.intervalDays === 1 ? '' : 's'}`,
+      }
+    );
+    if (!change) continue;
+
+    recovered++;
+    await notifyTrustScoreChange(change);
+  }
+
+  return { recovered };
+}
+
+/**
+ * Gracefully shutdown the trust recovery queue and worker
+ */
+export async function shutdownTrustRecoveryQueue(): Promise<void> {
+  console.log('[TrustRecovery] Shutting down queue...');
+
+  if (recoveryWorker) {
+    await recoveryWorker.close();
+    recoveryWorker = null;
+  }
+
+  if (recoveryQueue) {
+    await recoveryQueue.close();
+    recoveryQueue = null;
+  }
+
+  console.log('[TrustRecovery] Queue shutdown complete');
+}
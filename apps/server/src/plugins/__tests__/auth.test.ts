@@ -0,0 +1,142 @@
+/**
+ * Auth plugin tests
+ *
+ * Tests public API key authentication (app.authenticatePublicApi):
+ * - Bearer token format and unknown keys
+ * - Expired keys
+ * - Keys only work while their creator may manage API keys (owner only)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import cookie from '@fastify/cookie';
+import sensible from '@fastify/sensible';
+import type { UserRole } from '@tracearr/shared';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import authPlugin, { PUBLIC_API_TOKEN_PREFIX } from '../auth.js';
+
+const TOKEN = `${PUBLIC_API_TOKEN_PREFIX}test-token`;
+
+function mockKeyLookup(key: Record<string, unknown> | undefined) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      innerJoin: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue(key ? [key] : []),
+        }),
+      }),
+    }),
+  } as never);
+}
+
+function mockUsageUpdate() {
+  const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+  vi.mocked(db.update).mockReturnValue({ set } as never);
+  return set;
+}
+
+function createKey(role: UserRole, overrides?: Record<string, unknown>) {
+  return {
+    id: 'key-1',
+    name: 'Homarr',
+    scopes: ['streams:read'],
+    serverId: null,
+    expiresAt: null,
+    userId: 'user-1',
+    username: role,
+    role,
+    ...overrides,
+  };
+}
+
+describe('authenticatePublicApi', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+
+    app = Fastify({ logger: false });
+    await app.register(cookie);
+    await app.register(sensible);
+    await app.register(authPlugin);
+    app.get('/public', { preHandler: [app.authenticatePublicApi] }, async (request) => ({
+      context: request.publicApiContext,
+    }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+  });
+
+  const get = (authorization?: string) =>
+    app.inject({
+      method: 'GET',
+      url: '/public',
+      headers: authorization ? { authorization } : {},
+    });
+
+  it('attaches the key context and counts the request', async () => {
+    mockKeyLookup(createKey('owner'));
+    const set = mockUsageUpdate();
+
+    const response = await get(`Bearer ${TOKEN}`);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().context).toEqual({
+      userId: 'user-1',
+      username: 'owner',
+      keyId: 'key-1',
+      keyName: 'Homarr',
+      scopes: ['streams:read'],
+      serverId: null,
+    });
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ lastUsedAt: expect.any(Date) }));
+  });
+
+  it('rejects unknown keys', async () => {
+    mockKeyLookup(undefined);
+
+    const response = await get(`Bearer ${TOKEN}`);
+
+    expect(response.statusCode).toBe(401);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects missing and malformed tokens', async () => {
+    expect((await get()).statusCode).toBe(401);
+    expect((await get('Bearer not-a-key')).statusCode).toBe(401);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired keys', async () => {
+    mockKeyLookup(createKey('owner', { expiresAt: new Date(Date.now() - 1000) }));
+
+    const response = await get(`Bearer ${TOKEN}`);
+
+    expect(response.statusCode).toBe(401);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it.each(['admin', 'moderator', 'viewer', 'disabled'] as const)(
+    'rejects keys created by an account that is now %s',
+    async (role) => {
+      mockKeyLookup(createKey(role));
+
+      const response = await get(`Bearer ${TOKEN}`);
+
+      expect(response.statusCode).toBe(403);
+      expect(db.update).not.toHaveBeenCalled();
+    }
+  );
+});
@@ -5,17 +5,31 @@
 import type { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
 import jwt from '@fastify/jwt';
-import { eq } from 'drizzle-orm';
-import type { AuthUser } from '@tracearr/shared';
+import { createHash } from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import { roleHasPermission, type ApiKeyScope, type AuthUser } from '@tracearr/shared';
 import { db } from '../db/client.js';
-import { users } from '../db/schema.js';
+import { apiKeys, users } from '../db/schema.js';
 
 // Public API token prefix
-const PUBLIC_API_TOKEN_PREFIX = 'trr_pub_';
+export const PUBLIC_API_TOKEN_PREFIX = 'trr_pub_';
 
 // Context attached to public API requests
 export interface PublicApiContext {
   userId: string;
+  username: string;
+  keyId: string;
+  keyName: string;
+  scopes: ApiKeyScope[];
+  /** Server the key is limited to (null = every server) */
+  serverId: string | null;
+}
+
+/**
+ * Hash a public API token for storage and lookup
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
 }
 
 declare module '@fastify/jwt' {
@@ -106,23 +120,50 @@ const authPlugin: FastifyPluginAsync = async (app) => {
         return reply.unauthorized('Invalid API key format');
       }
 
-      // Find user with matching token
-      const [user] = await db
-        .select({ id: users.id, role: users.role })
-        .from(users)
-        .where(eq(users.apiToken, token))
+      // Find the key and its owner
+      const [key] = await db
+        .select({
+          id: apiKeys.id,
+          name: apiKeys.name,
+          scopes: apiKeys.scopes,
+          serverId: apiKeys.serverId,
+          expiresAt: apiKeys.expiresAt,
+          userId: users.id,
+          username: users.username,
+          role: users.role,
+        })
+        .from(apiKeys)
+        .innerJoin(users, eq(apiKeys.userId, users.id))
+        .where(eq(apiKeys.tokenHash, hashApiToken(token)))
         .limit(1);
 
-      if (!user) {
+      if (!key) {
         return reply.unauthorized('Invalid API key');
       }
 
-      if (user.role !== 'owner') {
-        return reply.forbidden('API key is not associated with an owner account');
+      if (key.expiresAt && key.expiresAt <= new Date()) {
+        return reply.unauthorized('API key has expired');
       }
 
+      // Keys act for their creator, so they only work while the creator may manage keys
+      if (!roleHasPermission(key.role, 'api_keys:manage')) {
+        return reply.forbidden('API key belongs to an account that cannot use the public API');
+      }
+
+      await db
+        .update(apiKeys)
+        .set({ lastUsedAt: new Date(), requestCount: sql`${apiKeys.requestCount} + 1` })
+        .where(eq(apiKeys.id, key.id));
+
       // Attach context for use in route handlers
-      request.publicApiContext = { userId: user.id };
+      request.publicApiContext = {
+        userId: key.userId,
+        username: key.username,
+        keyId: key.id,
+        keyName: key.name,
+        scopes: key.scopes,
+        serverId: key.serverId,
+      };
     }
   );
 };
@@ -0,0 +1,244 @@
+/**
+ * API key routes tests
+ *
+ * Tests the API endpoints for managing public API keys:
+ * - GET /settings/api-keys - List keys
+ * - POST /settings/api-keys - Create a key
+ * - DELETE /settings/api-keys/:id - Revoke a key
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { createHash, randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/auditLog.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/auditLog.js';
+import { apiKeyRoutes } from '../apiKeys.js';
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(apiKeyRoutes, { prefix: '/settings/api-keys' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+function createMockKey(overrides?: Record<string, unknown>) {
+  return {
+    id: randomUUID(),
+    name: 'Homarr',
+    tokenPrefix: 'trr_pub_abcd',
+    scopes: ['streams:read'],
+    serverId: null,
+    expiresAt: null,
+    lastUsedAt: null,
+    requestCount: 0,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('API Key Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /settings/api-keys', () => {
+    it('lists keys without their hashes', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const orderBy = vi
+        .fn()
+        .mockResolvedValue([createMockKey(), createMockKey({ name: 'Friend' })]);
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ orderBy }) }),
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/settings/api-keys' });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data).toHaveLength(2);
+      expect(body.data[0]).not.toHaveProperty('tokenHash');
+      expect(mockDb.select.mock.calls[0][0]).not.toHaveProperty('tokenHash');
+    });
+
+    it.each(['admin', 'moderator', 'viewer'] as const)('rejects %s', async (role) => {
+      app = await buildTestApp(createUser(role));
+
+      const response = await app.inject({ method: 'GET', url: '/settings/api-keys' });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /settings/api-keys', () => {
+    it('stores only the token hash and returns the token once', async () => {
+      app = await buildTestApp(createUser('owner'));
+      const serverId = randomUUID();
+
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([{ id: serverId }]),
+          }),
+        }),
+      });
+      const returning = vi
+        .fn()
+        .mockResolvedValue([createMockKey({ scopes: ['streams:read', 'stats:read'], serverId })]);
+      const values = vi.fn().mockReturnValue({ returning });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/api-keys',
+        payload: {
+          name: 'Homarr',
+          scopes: ['streams:read', 'stats:read', 'streams:read'],
+          serverId,
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = response.json();
+      expect(body.token).toMatch(/^trr_pub_[A-Za-z0-9_-]{43}$/);
+
+      const inserted = values.mock.calls[0]![0];
+      expect(inserted).toMatchObject({
+        name: 'Homarr',
+        scopes: ['streams:read', 'stats:read'],
+        serverId,
+        expiresAt: null,
+        tokenPrefix: body.token.slice(0, 12),
+        tokenHash: createHash('sha256').update(body.token).digest('hex'),
+      });
+      expect(inserted).not.toHaveProperty('token');
+      expect(JSON.stringify(vi.mocked(recordAudit).mock.calls[0]![1])).not.toContain(body.token);
+    });
+
+    it('rejects keys without scopes', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/api-keys',
+        payload: { name: 'Homarr', scopes: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects expiry dates in the past', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/api-keys',
+        payload: { name: 'Homarr', scopes: ['stats:read'], expiresAt: '2020-01-01T00:00:00Z' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown servers', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({ limit: vi.fn().mockResolvedValue([]) }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/api-keys',
+        payload: { name: 'Homarr', scopes: ['stats:read'], serverId: randomUUID() },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /settings/api-keys/:id', () => {
+    it('revokes the key and records it', async () => {
+      app = await buildTestApp(createUser('owner'));
+      const key = createMockKey();
+
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([key]) }),
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/settings/api-keys/${key.id}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'api_key.revoke', targetId: key.id })
+      );
+    });
+
+    it("returns 404 for another user's key", async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }),
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/settings/api-keys/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Audit Log routes unit tests
+ *
+ * Tests the API endpoint for the administrative audit log:
+ * - GET /audit-log - Paginated, filterable entry list
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+const { mockListAuditLog } = vi.hoisted(() => ({
+  mockListAuditLog: vi.fn(),
+}));
+
+vi.mock('../../services/auditLog.js', () => ({
+  listAuditLog: mockListAuditLog,
+}));
+
+import { auditLogRoutes } from '../auditLog.js';
+
+function createMockEntry(overrides?: Record<string, unknown>) {
+  return {
+    id: randomUUID(),
+    actorUserId: randomUUID(),
+    actorUsername: 'owner',
+    action: 'rule.update',
+    targetType: 'rule',
+    targetId: randomUUID(),
+    targetLabel: 'Max 2 streams',
+    before: { name: 'Max 3 streams' },
+    after: { name: 'Max 2 streams' },
+    ipAddress: '192.168.1.10',
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(auditLogRoutes, { prefix: '/audit-log' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+describe('Audit Log Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+  });
+
+  it('returns paginated entries for owner', async () => {
+    mockListAuditLog.mockResolvedValue({ data: [createMockEntry()], total: 41 });
+    app = await buildTestApp(createUser('owner'));
+
+    const response = await app.inject({ method: 'GET', url: '/audit-log?page=2&pageSize=20' });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0]).toMatchObject({ action: 'rule.update', after: { name: 'Max 2 streams' } });
+    expect(body).toMatchObject({ page: 2, pageSize: 20, total: 41, totalPages: 3 });
+    expect(mockListAuditLog).toHaveBeenCalledWith({}, 2, 20);
+  });
+
+  it('passes filters to the query', async () => {
+    mockListAuditLog.mockResolvedValue({ data: [], total: 0 });
+    app = await buildTestApp(createUser('owner'));
+    const actorUserId = randomUUID();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/audit-log?action=violation.acknowledge&targetType=violation&actorUserId=${actorUserId}&startDate=2026-01-01`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockListAuditLog).toHaveBeenCalledWith(
+      {
+        action: 'violation.acknowledge',
+        targetType: 'violation',
+        actorUserId,
+        startDate: new Date('2026-01-01'),
+      },
+      1,
+      expect.any(Number)
+    );
+  });
+
+  it('rejects unknown actions', async () => {
+    app = await buildTestApp(createUser('owner'));
+
+    const response = await app.inject({ method: 'GET', url: '/audit-log?action=rule.explode' });
+
+    expect(response.statusCode).toBe(400);
+    expect(mockListAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('rejects admins', async () => {
+    app = await buildTestApp(createUser('admin'));
+
+    const response = await app.inject({ method: 'GET', url: '/audit-log' });
+
+    expect(response.statusCode).toBe(403);
+    expect(mockListAuditLog).not.toHaveBeenCalled();
+  });
+});
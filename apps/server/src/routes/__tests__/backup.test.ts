@@ -0,0 +1,274 @@
+/**
+ * Backup routes unit tests
+ *
+ * Tests the API endpoints for full data export and restore:
+ * - GET /backup/export - Stream a backup archive
+ * - POST /backup/restore - Upload an archive and queue a restore
+ * - GET /backup/restore/active - Active restore lookup
+ * - GET /backup/restore/:jobId - Restore job status
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { Readable } from 'node:stream';
+import { existsSync, readFileSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+vi.mock('../../services/backup/export.js', () => ({
+  createBackupStream: vi.fn(),
+}));
+
+vi.mock('../../jobs/restoreQueue.js', () => ({
+  enqueueRestore: vi.fn(),
+  getActiveRestore: vi.fn(),
+  getRestoreStatus: vi.fn(),
+}));
+
+import { createBackupStream } from '../../services/backup/export.js';
+import { enqueueRestore, getActiveRestore, getRestoreStatus } from '../../jobs/restoreQueue.js';
+import { backupRoutes, backupFileName } from '../backup.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ *
+ * jwtVerify only succeeds when an authorization header is present, so the
+ * export route's query token handling is exercised.
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  app.decorateRequest(
+    'jwtVerify',
+    async function (this: { user: AuthUser; headers: { authorization?: string } }) {
+      if (!this.headers.authorization) {
+        throw new Error('Missing token');
+      }
+      this.user = authUser;
+    }
+  );
+
+  await app.register(backupRoutes, { prefix: '/backup' });
+  return app;
+}
+
+/**
+ * Build a multipart/form-data payload with an optional conflictStrategy field and a file
+ */
+function buildMultipartPayload(
+  fileContents: string,
+  conflictStrategy?: string
+): { payload: string; headers: Record<string, string> } {
+  const boundary = '----tracearr-test-boundary';
+  const fields = conflictStrategy
+    ? [
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="conflictStrategy"',
+        '',
+        conflictStrategy,
+      ]
+    : [];
+  const payload = [
+    ...fields,
+    `--${boundary}`,
+    'Content-Disposition: form-data; name="file"; filename="tracearr-backup.tar.gz"',
+    'Content-Type: application/gzip',
+    '',
+    fileContents,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+  return { payload, headers: { 'content-type': `multipart/form-data; boundary=${boundary}` } };
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [],
+  };
+}
+
+describe('Backup Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('backupFileName', () => {
+    it('uses a filesystem-safe timestamp', () => {
+      expect(backupFileName(new Date('2024-03-10T20:15:07.123Z'))).toBe(
+        'tracearr-backup-2024-03-10T20-15-07.tar.gz'
+      );
+    });
+  });
+
+  describe('GET /backup/export', () => {
+    it('streams the archive when authenticated via query token', async () => {
+      app = await buildTestApp(createUser('owner'));
+      vi.mocked(createBackupStream).mockReturnValue(Readable.from([Buffer.from('archive')]));
+
+      const response = await app.inject({ method: 'GET', url: '/backup/export?token=jwt' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('application/gzip');
+      expect(response.headers['content-disposition']).toMatch(
+        /^attachment; filename="tracearr-backup-.*\.tar\.gz"$/
+      );
+      expect(response.body).toBe('archive');
+    });
+
+    it('rejects requests without a token', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({ method: 'GET', url: '/backup/export' });
+
+      expect(response.statusCode).toBe(401);
+      expect(createBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({ method: 'GET', url: '/backup/export?token=jwt' });
+
+      expect(response.statusCode).toBe(403);
+      expect(createBackupStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /backup/restore', () => {
+    it('saves the upload to a temp file and queues a restore', async () => {
+      app = await buildTestApp(createUser('owner'));
+      let savedContents: string | null = null;
+      vi.mocked(enqueueRestore).mockImplementation(async (data) => {
+        savedContents = readFileSync(data.filePath, 'utf8');
+        return 'restore-1';
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/backup/restore',
+        ...buildMultipartPayload('archive-bytes', 'overwrite'),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'queued', jobId: 'restore-1' });
+      expect(enqueueRestore).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fileName: 'tracearr-backup.tar.gz',
+          conflictStrategy: 'overwrite',
+        })
+      );
+      expect(savedContents).toBe('archive-bytes');
+    });
+
+    it('defaults to the skip strategy', async () => {
+      app = await buildTestApp(createUser('owner'));
+      vi.mocked(enqueueRestore).mockResolvedValue('restore-1');
+
+      await app.inject({
+        method: 'POST',
+        url: '/backup/restore',
+        ...buildMultipartPayload('archive-bytes'),
+      });
+
+      expect(enqueueRestore).toHaveBeenCalledWith(
+        expect.objectContaining({ conflictStrategy: 'skip' })
+      );
+    });
+
+    it('rejects unknown conflict strategies', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/backup/restore',
+        ...buildMultipartPayload('archive-bytes', 'merge'),
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(enqueueRestore).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 and removes the upload when a restore is already running', async () => {
+      app = await buildTestApp(createUser('owner'));
+      let filePath = '';
+      vi.mocked(enqueueRestore).mockImplementation(async (data) => {
+        filePath = data.filePath;
+        throw new Error('Restore already in progress (job restore-0)');
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/backup/restore',
+        ...buildMultipartPayload('archive-bytes'),
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(filePath).not.toBe('');
+      expect(existsSync(filePath)).toBe(false);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/backup/restore',
+        ...buildMultipartPayload('archive-bytes'),
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(enqueueRestore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /backup/restore/active', () => {
+    it('returns inactive when no restore is queued', async () => {
+      app = await buildTestApp(createUser('owner'));
+      vi.mocked(getActiveRestore).mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/backup/restore/active' });
+
+      expect(response.json()).toEqual({ active: false });
+    });
+
+    it('returns the active restore', async () => {
+      app = await buildTestApp(createUser('owner'));
+      vi.mocked(getActiveRestore).mockResolvedValue({
+        jobId: 'restore-1',
+        state: 'active',
+        progress: null,
+        createdAt: 1,
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/backup/restore/active' });
+
+      expect(response.json()).toMatchObject({ active: true, jobId: 'restore-1', state: 'active' });
+    });
+  });
+
+  describe('GET /backup/restore/:jobId', () => {
+    it('returns 404 for unknown jobs', async () => {
+      app = await buildTestApp(createUser('owner'));
+      vi.mocked(getRestoreStatus).mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/backup/restore/missing' });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
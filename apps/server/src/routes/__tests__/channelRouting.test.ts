@@ -3,7 +3,7 @@
  *
  * Tests the API endpoints for notification channel routing:
  * - GET /routing - Get all routing configuration
- * - PATCH /routing/:eventType - Update routing for specific event
+ * - PATCH /routing/:eventType - Update routing for specific event and its destinations
  *
  * Also tests internal helper functions:
  * - getChannelRouting() - Get routing for a specific event type
@@ -22,6 +22,7 @@ vi.mock('../../db/client.js', () => ({
     select: vi.fn(),
     insert: vi.fn(),
     update: vi.fn(),
+    transaction: vi.fn(),
   },
 }));
 
@@ -40,9 +41,8 @@ function createMockRouting(
   eventType: string,
   overrides?: Partial<{
     id: string;
-    discordEnabled: boolean;
-    webhookEnabled: boolean;
     pushEnabled: boolean;
+    webToastEnabled: boolean;
     createdAt: Date;
     updatedAt: Date;
   }>
@@ -50,9 +50,8 @@ function createMockRouting(
   return {
     id: overrides?.id ?? randomUUID(),
     eventType,
-    discordEnabled: overrides?.discordEnabled ?? true,
-    webhookEnabled: overrides?.webhookEnabled ?? true,
     pushEnabled: overrides?.pushEnabled ?? true,
+    webToastEnabled: overrides?.webToastEnabled ?? true,
     createdAt: overrides?.createdAt ?? new Date(),
     updatedAt: overrides?.updatedAt ?? new Date(),
   };
@@ -103,28 +102,45 @@ function createViewerUser(): AuthUser {
 }
 
 /**
- * Mock db.select() to return array of items with orderBy
+ * Mock db.select() to return array of items with orderBy,
+ * followed by the destination subscriptions lookup
  */
-function mockDbSelectAll(items: unknown[]) {
-  vi.mocked(db.select).mockReturnValue({
-    from: vi.fn().mockReturnValue({
-      orderBy: vi.fn().mockResolvedValue(items),
-    }),
-  } as never);
+function mockDbSelectAll(items: unknown[], destinations: unknown[] = []) {
+  vi.mocked(db.select)
+    .mockReturnValueOnce({
+      from: vi.fn().mockReturnValue({
+        orderBy: vi.fn().mockResolvedValue(items),
+      }),
+    } as never)
+    .mockReturnValueOnce(mockDestinationSelect(destinations));
 }
 
 /**
- * Mock db.select() to return single item with where + limit
- * Note: Currently unused but kept for future tests
+ * Select chain for the destination subscriptions lookup
  */
-function _mockDbSelectOne(item: unknown) {
-  vi.mocked(db.select).mockReturnValue({
-    from: vi.fn().mockReturnValue({
-      where: vi.fn().mockReturnValue({
-        limit: vi.fn().mockResolvedValue(item ? [item] : []),
+function mockDestinationSelect(destinations: unknown[]) {
+  return {
+    from: vi.fn().mockResolvedValue(destinations),
+  } as never;
+}
+
+/**
+ * Mock the PATCH selects: existing routing, updated routing, then destinations
+ */
+function mockDbSelectForPatch(existing: unknown, updated: unknown, destinations: unknown[] = []) {
+  const selectOne = (item: unknown) =>
+    ({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue(item ? [item] : []),
+        }),
       }),
-    }),
-  } as never);
+    }) as never;
+
+  vi.mocked(db.select)
+    .mockReturnValueOnce(selectOne(existing))
+    .mockReturnValueOnce(selectOne(updated))
+    .mockReturnValueOnce(mockDestinationSelect(destinations));
 }
 
 /**
@@ -156,6 +172,7 @@ describe('Channel Routing Routes', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(db.select).mockReset();
   });
 
   afterEach(async () => {
@@ -170,7 +187,7 @@ describe('Channel Routing Routes', () => {
 
       const mockRoutings = [
         createMockRouting('violation_detected'),
-        createMockRouting('stream_started', { discordEnabled: false }),
+        createMockRouting('stream_started', { webToastEnabled: false }),
         createMockRouting('stream_stopped', { pushEnabled: false }),
       ];
 
@@ -185,9 +202,34 @@ describe('Channel Routing Routes', () => {
       const body = response.json();
       expect(body).toHaveLength(3);
       expect(body[0]).toHaveProperty('eventType', 'violation_detected');
-      expect(body[0]).toHaveProperty('discordEnabled', true);
+      expect(body[0]).toHaveProperty('webToastEnabled', true);
       expect(body[1]).toHaveProperty('eventType', 'stream_started');
-      expect(body[1]).toHaveProperty('discordEnabled', false);
+      expect(body[1]).toHaveProperty('webToastEnabled', false);
+      expect(body[2]).toHaveProperty('pushEnabled', false);
+    });
+
+    it('lists the destinations subscribed to each event', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const discordId = randomUUID();
+      const emailId = randomUUID();
+      mockDbSelectAll(
+        [createMockRouting('violation_detected'), createMockRouting('stream_started')],
+        [
+          { id: discordId, events: ['violation_detected', 'server_down'] },
+          { id: emailId, events: ['violation_detected'] },
+        ]
+      );
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/routing',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body[0].destinationIds).toEqual([discordId, emailId]);
+      expect(body[1].destinationIds).toEqual([]);
     });
 
     it('creates default routing if no rows exist', async () => {
@@ -200,9 +242,8 @@ describe('Channel Routing Routes', () => {
       const defaultRoutings = [
         createMockRouting('violation_detected'),
         createMockRouting('stream_started', {
-          discordEnabled: false,
-          webhookEnabled: false,
           pushEnabled: false,
+          webToastEnabled: false,
         }),
       ];
       mockDbInsert(defaultRoutings);
@@ -228,7 +269,7 @@ describe('Channel Routing Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can view notification routing');
+      expect(body.message).toContain('notifications:manage');
     });
   });
 
@@ -237,79 +278,32 @@ describe('Channel Routing Routes', () => {
       app = await buildTestApp(ownerUser);
 
       const existingRouting = createMockRouting('violation_detected');
-
-      // First select finds existing
-      vi.mocked(db.select).mockReturnValueOnce({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn().mockResolvedValue([existingRouting]),
-          }),
-        }),
-      } as never);
-
-      // Mock update
-      mockDbUpdate();
-
-      // Second select returns updated
-      const updatedRouting = {
+      mockDbSelectForPatch(existingRouting, {
         ...existingRouting,
-        discordEnabled: false,
+        pushEnabled: false,
         updatedAt: new Date(),
-      };
-      vi.mocked(db.select).mockReturnValueOnce({
-        from: vi.fn().mockReturnValue({
-          where: vi.fn().mockReturnValue({
-            limit: vi.fn().mockResolvedValue([updatedRouting]),
-          }),
-        }),
-      } as never);
+      });
+      mockDbUpdate();
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: { discordEnabled: false },
+        payload: { pushEnabled: false },
       });
 
       expect(response.statusCode).toBe(200);
       const body = response.json();
       expect(body.eventType).toBe('violation_detected');
-      expect(body.discordEnabled).toBe(false);
+      expect(body.pushEnabled).toBe(false);
       expect(db.update).toHaveBeenCalled();
+      expect(db.transaction).not.toHaveBeenCalled();
     });
 
     it('creates new routing if none exists', async () => {
       app = await buildTestApp(ownerUser);
 
-      const newRouting = createMockRouting('server_down', {
-        discordEnabled: true,
-        webhookEnabled: true,
-        pushEnabled: false,
-      });
-
-      // Track select calls - first returns empty, second returns created routing
-      let selectCallCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCallCount++;
-        if (selectCallCount === 1) {
-          // First call - no existing routing
-          return {
-            from: vi.fn().mockReturnValue({
-              where: vi.fn().mockReturnValue({
-                limit: vi.fn().mockResolvedValue([]),
-              }),
-            }),
-          } as never;
-        } else {
-          // Second call - return newly created routing
-          return {
-            from: vi.fn().mockReturnValue({
-              where: vi.fn().mockReturnValue({
-                limit: vi.fn().mockResolvedValue([newRouting]),
-              }),
-            }),
-          } as never;
-        }
-      });
+      const newRouting = createMockRouting('server_down', { pushEnabled: false });
+      mockDbSelectForPatch(null, newRouting);
 
       // Mock insert for new routing
       mockDbInsert([newRouting]);
@@ -327,13 +321,66 @@ describe('Channel Routing Routes', () => {
       expect(db.insert).toHaveBeenCalled();
     });
 
+    it('replaces the destinations subscribed to the event', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const destinationId = randomUUID();
+      const existingRouting = createMockRouting('new_device');
+      mockDbSelectForPatch(existingRouting, existingRouting, [
+        { id: destinationId, events: ['new_device'] },
+      ]);
+      mockDbUpdate();
+
+      const txUpdate = vi.fn().mockReturnValue({
+        set: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+      });
+      vi.mocked(db.transaction).mockImplementation(async (callback) =>
+        callback({ update: txUpdate } as never)
+      );
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: '/settings/notifications/routing/new_device',
+        payload: { destinationIds: [destinationId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().destinationIds).toEqual([destinationId]);
+      // Subscribe the listed destinations, then unsubscribe the rest
+      expect(txUpdate).toHaveBeenCalledTimes(2);
+    });
+
+    it('only unsubscribes when the destination list is empty', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const existingRouting = createMockRouting('new_device');
+      mockDbSelectForPatch(existingRouting, existingRouting);
+      mockDbUpdate();
+
+      const txUpdate = vi.fn().mockReturnValue({
+        set: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+      });
+      vi.mocked(db.transaction).mockImplementation(async (callback) =>
+        callback({ update: txUpdate } as never)
+      );
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: '/settings/notifications/routing/new_device',
+        payload: { destinationIds: [] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(txUpdate).toHaveBeenCalledTimes(1);
+    });
+
     it('rejects invalid event type with 400', async () => {
       app = await buildTestApp(ownerUser);
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/invalid_event_type',
-        payload: { discordEnabled: false },
+        payload: { pushEnabled: false },
       });
 
       expect(response.statusCode).toBe(400);
@@ -347,7 +394,7 @@ describe('Channel Routing Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: { discordEnabled: 'not-a-boolean' },
+        payload: { pushEnabled: 'not-a-boolean' },
       });
 
       expect(response.statusCode).toBe(400);
@@ -355,103 +402,54 @@ describe('Channel Routing Routes', () => {
       expect(body.message).toBe('Invalid request body');
     });
 
-    it('rejects non-owner access with 403', async () => {
-      app = await buildTestApp(viewerUser);
+    it('rejects invalid destination IDs with 400', async () => {
+      app = await buildTestApp(ownerUser);
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: { discordEnabled: false },
+        payload: { destinationIds: ['not-a-uuid'] },
       });
 
-      expect(response.statusCode).toBe(403);
-      const body = response.json();
-      expect(body.message).toBe('Only server owners can update notification routing');
+      expect(response.statusCode).toBe(400);
     });
 
-    it('updates multiple channel settings at once', async () => {
-      app = await buildTestApp(ownerUser);
-
-      const existingRouting = createMockRouting('violation_detected');
-      const updatedRouting = {
-        ...existingRouting,
-        discordEnabled: false,
-        webhookEnabled: false,
-        pushEnabled: true,
-      };
-
-      // Track select calls
-      let selectCallCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCallCount++;
-        const routing = selectCallCount === 1 ? existingRouting : updatedRouting;
-        return {
-          from: vi.fn().mockReturnValue({
-            where: vi.fn().mockReturnValue({
-              limit: vi.fn().mockResolvedValue([routing]),
-            }),
-          }),
-        } as never;
-      });
-
-      mockDbUpdate();
+    it('rejects non-owner access with 403', async () => {
+      app = await buildTestApp(viewerUser);
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: {
-          discordEnabled: false,
-          webhookEnabled: false,
-          pushEnabled: true,
-        },
+        payload: { pushEnabled: false },
       });
 
-      expect(response.statusCode).toBe(200);
+      expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.discordEnabled).toBe(false);
-      expect(body.webhookEnabled).toBe(false);
-      expect(body.pushEnabled).toBe(true);
+      expect(body.message).toContain('notifications:manage');
     });
 
     it('handles partial updates', async () => {
       app = await buildTestApp(ownerUser);
 
       const existingRouting = createMockRouting('stream_started', {
-        discordEnabled: true,
-        webhookEnabled: true,
         pushEnabled: true,
+        webToastEnabled: true,
       });
 
-      // Only discord changed
-      const updatedRouting = { ...existingRouting, discordEnabled: false };
-
-      // Track select calls
-      let selectCallCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCallCount++;
-        const routing = selectCallCount === 1 ? existingRouting : updatedRouting;
-        return {
-          from: vi.fn().mockReturnValue({
-            where: vi.fn().mockReturnValue({
-              limit: vi.fn().mockResolvedValue([routing]),
-            }),
-          }),
-        } as never;
-      });
-
+      // Only web toasts changed
+      mockDbSelectForPatch(existingRouting, { ...existingRouting, webToastEnabled: false });
       mockDbUpdate();
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/stream_started',
-        payload: { discordEnabled: false },
+        payload: { webToastEnabled: false },
       });
 
       expect(response.statusCode).toBe(200);
       const body = response.json();
-      expect(body.discordEnabled).toBe(false);
+      expect(body.webToastEnabled).toBe(false);
       // Others should remain unchanged
-      expect(body.webhookEnabled).toBe(true);
       expect(body.pushEnabled).toBe(true);
     });
   });
@@ -466,89 +464,55 @@ describe('Channel Routing Helper Functions', () => {
     vi.mocked(db.update).mockReset();
   });
 
+  function mockRoutingLookup(rows: unknown[]) {
+    vi.mocked(db.select).mockImplementation(
+      () =>
+        ({
+          from: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue(rows),
+            }),
+          }),
+        }) as never
+    );
+  }
+
   describe('getChannelRouting', () => {
     it('returns routing for existing event type', async () => {
-      vi.mocked(db.select).mockImplementation(
-        () =>
-          ({
-            from: vi.fn().mockReturnValue({
-              where: vi.fn().mockReturnValue({
-                limit: vi.fn().mockResolvedValue([
-                  {
-                    discordEnabled: true,
-                    webhookEnabled: false,
-                    pushEnabled: true,
-                  },
-                ]),
-              }),
-            }),
-          }) as never
-      );
+      mockRoutingLookup([{ pushEnabled: true, webToastEnabled: false }]);
 
       const routing = await getChannelRouting('violation_detected');
 
-      expect(routing.discordEnabled).toBe(true);
-      expect(routing.webhookEnabled).toBe(false);
-      expect(routing.pushEnabled).toBe(true);
+      expect(routing).toEqual({ pushEnabled: true, webToastEnabled: false });
     });
 
     it('returns defaults for high-priority events with no routing', async () => {
-      vi.mocked(db.select).mockImplementation(
-        () =>
-          ({
-            from: vi.fn().mockReturnValue({
-              where: vi.fn().mockReturnValue({
-                limit: vi.fn().mockResolvedValue([]),
-              }),
-            }),
-          }) as never
-      );
+      mockRoutingLookup([]);
 
       const routing = await getChannelRouting('violation_detected');
 
       // High-priority events default to enabled
-      expect(routing.discordEnabled).toBe(true);
-      expect(routing.webhookEnabled).toBe(true);
       expect(routing.pushEnabled).toBe(true);
+      expect(routing.webToastEnabled).toBe(true);
     });
 
     it('returns defaults for low-priority events with no routing', async () => {
-      vi.mocked(db.select).mockImplementation(
-        () =>
-          ({
-            from: vi.fn().mockReturnValue({
-              where: vi.fn().mockReturnValue({
-                limit: vi.fn().mockResolvedValue([]),
-              }),
-            }),
-          }) as never
-      );
+      mockRoutingLookup([]);
 
       const routing = await getChannelRouting('stream_started');
 
       // Low-priority events default to disabled
-      expect(routing.discordEnabled).toBe(false);
-      expect(routing.webhookEnabled).toBe(false);
       expect(routing.pushEnabled).toBe(false);
+      expect(routing.webToastEnabled).toBe(false);
     });
 
     it('returns defaults for trust_score_changed (low-priority)', async () => {
-      vi.mocked(db.select).mockImplementation(
-        () =>
-          ({
-            from: vi.fn().mockReturnValue({
-              where: vi.fn().mockReturnValue({
-                limit: vi.fn().mockResolvedValue([]),
-              }),
-            }),
-          }) as never
-      );
+      mockRoutingLookup([]);
 
       const routing = await getChannelRouting('trust_score_changed');
 
-      expect(routing.discordEnabled).toBe(false);
-      expect(routing.webhookEnabled).toBe(false);
       expect(routing.pushEnabled).toBe(false);
+      expect(routing.webToastEnabled).toBe(false);
     });
   });
 
@@ -558,24 +522,9 @@ describe('Channel Routing Helper Functions', () => {
         () =>
           ({
             from: vi.fn().mockResolvedValue([
-              {
-                eventType: 'violation_detected',
-                discordEnabled: true,
-                webhookEnabled: true,
-                pushEnabled: true,
-              },
-              {
-                eventType: 'stream_started',
-                discordEnabled: false,
-                webhookEnabled: false,
-                pushEnabled: false,
-              },
-              {
-                eventType: 'server_down',
-                discordEnabled: true,
-                webhookEnabled: true,
-                pushEnabled: false,
-              },
+              { eventType: 'violation_detected', pushEnabled: true, webToastEnabled: true },
+              { eventType: 'stream_started', pushEnabled: false, webToastEnabled: false },
+              { eventType: 'server_down', pushEnabled: false, webToastEnabled: true },
             ]),
           }) as never
       );
@@ -584,19 +533,16 @@ describe('Channel Routing Helper Functions', () => {
 
       expect(routingMap.size).toBe(3);
       expect(routingMap.get('violation_detected')).toEqual({
-        discordEnabled: true,
-        webhookEnabled: true,
         pushEnabled: true,
+        webToastEnabled: true,
       });
       expect(routingMap.get('stream_started')).toEqual({
-        discordEnabled: false,
-        webhookEnabled: false,
         pushEnabled: false,
+        webToastEnabled: false,
       });
       expect(routingMap.get('server_down')).toEqual({
-        discordEnabled: true,
-        webhookEnabled: true,
         pushEnabled: false,
+        webToastEnabled: true,
       });
     });
 
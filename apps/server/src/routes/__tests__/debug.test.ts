@@ -511,10 +511,11 @@ describe('Debug Routes', () => {
       expect(body.success).toBe(true);
       expect(body.message).toContain('Factory reset complete');
 
-      // Verify delete was called 14 times (violations, terminationLogs, sessions, rules,
-      // notificationChannelRouting, notificationPreferences, mobileSessions, mobileTokens,
-      // librarySnapshots, libraryItems, serverUsers, servers, plexAccounts, users)
-      expect(db.delete).toHaveBeenCalledTimes(14);
+      // Verify delete was called 15 times (violations, terminationLogs, sessions, rules,
+      // notificationChannelRouting, notificationDestinations, notificationPreferences,
+      // mobileSessions, mobileTokens, librarySnapshots, libraryItems, serverUsers, servers,
+      // plexAccounts, users)
+      expect(db.delete).toHaveBeenCalledTimes(15);
 
       // Verify settings update was called
       expect(db.update).toHaveBeenCalled();
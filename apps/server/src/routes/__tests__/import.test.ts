@@ -4,6 +4,9 @@
  * Tests the API endpoints for data import from external sources:
  * - POST /import/tautulli - Start Tautulli history import
  * - POST /import/tautulli/test - Test Tautulli connection
+ * - POST /import/plex-history - Start native Plex history import
+ * - POST /import/playback-reporting - Start Playback Reporting backup import
+ * - POST /import/file/preview, /import/file/validate, /import/file - Generic history file import
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -11,6 +14,7 @@ import Fastify, { type FastifyInstance } from 'fastify';
 import sensible from '@fastify/sensible';
 import { randomUUID } from 'node:crypto';
 import type { AuthUser } from '@tracearr/shared';
+import type * as FileImportModule from '../../services/fileImport.js';
 
 // Mock class for TautulliService
 let mockTautulliInstance: {
@@ -35,6 +39,26 @@ vi.mock('../../services/tautulli.js', () => {
   return { TautulliService: MockTautulliService };
 });
 
+vi.mock('../../services/plexHistory.js', () => ({
+  importPlexHistory: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+vi.mock('../../services/playbackReporting.js', () => ({
+  importPlaybackReporting: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+vi.mock('../../services/fileImport.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof FileImportModule>()),
+  importHistoryFile: vi.fn().mockResolvedValue({ success: true }),
+  createFileImportUserLookup: vi.fn(),
+}));
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
 vi.mock('../../services/cache.js', () => ({
   getPubSubService: vi.fn().mockReturnValue(null),
 }));
@@ -50,17 +74,29 @@ vi.mock('../../jobs/importQueue.js', () => ({
   cancelImport: vi.fn().mockResolvedValue(false),
   getImportQueueStats: vi.fn().mockResolvedValue(null),
   getActiveImportForServer: vi.fn().mockResolvedValue(null),
+  getActiveImportForServerOfType: vi.fn().mockResolvedValue(null),
+  enqueuePlexHistoryImport: vi.fn().mockRejectedValue(new Error('Queue not available')),
+  enqueuePlaybackReportingImport: vi.fn().mockRejectedValue(new Error('Queue not available')),
+  enqueueFileImport: vi.fn().mockRejectedValue(new Error('Queue not available')),
 }));
 
 // Import mocked services and routes
 import { TautulliService } from '../../services/tautulli.js';
 import { syncServer } from '../../services/sync.js';
+import { importPlexHistory } from '../../services/plexHistory.js';
+import { importPlaybackReporting } from '../../services/playbackReporting.js';
+import { importHistoryFile, createFileImportUserLookup } from '../../services/fileImport.js';
+import { db } from '../../db/client.js';
 import {
   enqueueImport,
   getImportStatus,
   cancelImport,
   getImportQueueStats,
   getActiveImportForServer,
+  getActiveImportForServerOfType,
+  enqueuePlexHistoryImport,
+  enqueuePlaybackReportingImport,
+  enqueueFileImport,
 } from '../../jobs/importQueue.js';
 import { importRoutes } from '../import.js';
 
@@ -84,6 +120,46 @@ async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
   return app;
 }
 
+/**
+ * Mock the server lookup (db.select().from().where().limit())
+ */
+function mockServerLookup(server: { id: string; type: string } | undefined) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(server ? [server] : []),
+      }),
+    }),
+  } as never);
+}
+
+/**
+ * Build a multipart/form-data payload with a serverId field, optional extra fields and a file
+ */
+function buildMultipartPayload(
+  serverId: string,
+  fileContents: string,
+  fields: Record<string, string> = {}
+): { payload: string; headers: Record<string, string> } {
+  const boundary = '----tracearr-test-boundary';
+  const payload = [
+    ...Object.entries({ serverId, ...fields }).flatMap(([name, value]) => [
+      `--${boundary}`,
+      `Content-Disposition: form-data; name="${name}"`,
+      '',
+      value,
+    ]),
+    `--${boundary}`,
+    'Content-Disposition: form-data; name="file"; filename="PlaybackActivity.tsv"',
+    'Content-Type: text/tab-separated-values',
+    '',
+    fileContents,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+  return { payload, headers: { 'content-type': `multipart/form-data; boundary=${boundary}` } };
+}
+
 /**
  * Create a mock owner auth user
  */
@@ -170,7 +246,7 @@ describe('Import Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can import data');
+      expect(body.message).toContain('import:run');
     });
 
     it('rejects missing serverId', async () => {
@@ -316,7 +392,7 @@ describe('Import Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can test Tautulli connection');
+      expect(body.message).toContain('import:run');
     });
 
     it('rejects missing URL', async () => {
@@ -496,7 +572,7 @@ describe('Import Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can cancel imports');
+      expect(body.message).toContain('import:run');
     });
   });
 
@@ -579,4 +655,401 @@ describe('Import Routes', () => {
       expect(body.message).toContain('already in progress');
     });
   });
+
+  describe('POST /import/plex-history', () => {
+    const validServerId = randomUUID();
+
+    it('rejects non-owner users', async () => {
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: validServerId },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(enqueuePlexHistoryImport).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid request body', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: 'not-a-uuid' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('returns 404 when server does not exist', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup(undefined);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: validServerId },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('rejects non-Plex servers', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'jellyfin' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: validServerId },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('only supports Plex');
+      expect(syncServer).not.toHaveBeenCalled();
+    });
+
+    it('syncs users and enqueues the import', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'plex' });
+      vi.mocked(enqueuePlexHistoryImport).mockResolvedValueOnce('plex-history-job-1');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: validServerId },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'queued', jobId: 'plex-history-job-1' });
+      expect(syncServer).toHaveBeenCalledWith(validServerId, {
+        syncUsers: true,
+        syncLibraries: false,
+      });
+      expect(enqueuePlexHistoryImport).toHaveBeenCalledWith(validServerId, ownerUser.userId);
+    });
+
+    it('falls back to direct execution when queue is unavailable', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'plex' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: validServerId },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().status).toBe('started');
+      expect(importPlexHistory).toHaveBeenCalledWith(validServerId, undefined);
+    });
+
+    it('returns conflict when an import is already in progress', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'plex' });
+      vi.mocked(enqueuePlexHistoryImport).mockRejectedValueOnce(
+        new Error('Import already in progress for this server')
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/plex-history',
+        payload: { serverId: validServerId },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('GET /import/plex-history/active/:serverId', () => {
+    it('looks up active Plex history imports for the server', async () => {
+      app = await buildTestApp(ownerUser);
+      const serverId = randomUUID();
+      vi.mocked(getActiveImportForServerOfType).mockResolvedValueOnce('plex-history-job-2');
+      vi.mocked(getImportStatus).mockResolvedValueOnce({
+        jobId: 'plex-history-job-2',
+        state: 'active',
+        progress: 25,
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/import/plex-history/active/${serverId}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ active: true, jobId: 'plex-history-job-2' });
+      expect(getActiveImportForServerOfType).toHaveBeenCalledWith(serverId, 'plex_history');
+    });
+  });
+
+  describe('POST /import/playback-reporting', () => {
+    const validServerId = randomUUID();
+    const fileContents =
+      '2024-01-01 10:00:00\tuser\titem\tMovie\tFilm\tDirectPlay\tWeb\tChrome\t60';
+
+    it('rejects non-owner users', async () => {
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/playback-reporting',
+        ...buildMultipartPayload(validServerId, fileContents),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('rejects Plex servers', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'plex' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/playback-reporting',
+        ...buildMultipartPayload(validServerId, fileContents),
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('only supports Jellyfin/Emby');
+    });
+
+    it('enqueues the uploaded file for Jellyfin servers', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'jellyfin' });
+      vi.mocked(enqueuePlaybackReportingImport).mockResolvedValueOnce('pbr-job-1');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/playback-reporting',
+        ...buildMultipartPayload(validServerId, fileContents),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'queued', jobId: 'pbr-job-1' });
+      expect(enqueuePlaybackReportingImport).toHaveBeenCalledWith(
+        validServerId,
+        ownerUser.userId,
+        fileContents
+      );
+    });
+
+    it('falls back to direct execution when queue is unavailable', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'emby' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/playback-reporting',
+        ...buildMultipartPayload(validServerId, fileContents),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().status).toBe('started');
+      expect(importPlaybackReporting).toHaveBeenCalledWith(validServerId, fileContents, undefined);
+    });
+  });
+
+  describe('POST /import/file/preview', () => {
+    const fileContents = 'User,Title,Date\nalice,Heat,2024-03-10 20:15\n';
+
+    it('rejects non-owner users', async () => {
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file/preview',
+        ...buildMultipartPayload('', fileContents),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('returns columns, rows and a suggested mapping', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file/preview',
+        ...buildMultipartPayload('', fileContents),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        format: 'csv',
+        columns: ['User', 'Title', 'Date'],
+        totalRows: 1,
+        sampleRows: [{ User: 'alice', Title: 'Heat', Date: '2024-03-10 20:15' }],
+        suggestedMapping: { user: 'User', title: 'Title', startedAt: 'Date' },
+      });
+    });
+
+    it('rejects unreadable JSON', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file/preview',
+        ...buildMultipartPayload('', '{"count":1}'),
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('array of records');
+    });
+  });
+
+  describe('POST /import/file/validate', () => {
+    const mapping = { user: 'User', title: 'Title', startedAt: 'Date' };
+
+    it('validates rows and flags unknown users when a server is given', async () => {
+      app = await buildTestApp(ownerUser);
+      const serverId = randomUUID();
+      vi.mocked(createFileImportUserLookup).mockResolvedValueOnce(new Map([['alice', 'su-1']]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file/validate',
+        payload: {
+          serverId,
+          mapping,
+          rows: [
+            { User: 'Alice', Title: 'Heat', Date: '2024-03-10' },
+            { User: 'bob', Title: 'Heat', Date: '2024-03-10' },
+            { User: 'alice', Title: '', Date: 'never' },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { rows } = response.json();
+      expect(rows[0].errors).toEqual([]);
+      expect(rows[0].session).toMatchObject({ user: 'Alice', title: 'Heat', mediaType: 'movie' });
+      expect(rows[1].errors).toEqual(['No user "bob" on this server; the row will be skipped']);
+      expect(rows[2].errors).toEqual([
+        'Title is empty',
+        'Start time "never" is not a recognized date',
+      ]);
+      expect(createFileImportUserLookup).toHaveBeenCalledWith(serverId);
+    });
+
+    it('rejects mappings for unknown fields', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file/validate',
+        payload: { mapping: { favouriteColour: 'Colour' }, rows: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /import/file', () => {
+    const validServerId = randomUUID();
+    const fileContents = 'User,Title,Date\nalice,Heat,2024-03-10 20:15\n';
+    const mapping = { user: 'User', title: 'Title', startedAt: 'Date' };
+
+    it('rejects non-owner users', async () => {
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file',
+        ...buildMultipartPayload(validServerId, fileContents, {
+          mapping: JSON.stringify(mapping),
+        }),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('rejects a missing or malformed mapping', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const missing = await app.inject({
+        method: 'POST',
+        url: '/import/file',
+        ...buildMultipartPayload(validServerId, fileContents),
+      });
+      const malformed = await app.inject({
+        method: 'POST',
+        url: '/import/file',
+        ...buildMultipartPayload(validServerId, fileContents, { mapping: '{user:' }),
+      });
+
+      expect(missing.statusCode).toBe(400);
+      expect(malformed.statusCode).toBe(400);
+      expect(malformed.json().message).toContain('mapping must be JSON');
+    });
+
+    it('rejects mappings that do not fit the file', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'plex' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file',
+        ...buildMultipartPayload(validServerId, fileContents, {
+          mapping: JSON.stringify({ ...mapping, startedAt: 'When' }),
+        }),
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('Column "When" mapped to startedAt');
+      expect(enqueueFileImport).not.toHaveBeenCalled();
+    });
+
+    it('syncs users and enqueues the import', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'plex' });
+      vi.mocked(enqueueFileImport).mockResolvedValueOnce('file-job-1');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file',
+        ...buildMultipartPayload(validServerId, fileContents, {
+          mapping: JSON.stringify(mapping),
+        }),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'queued', jobId: 'file-job-1' });
+      expect(syncServer).toHaveBeenCalledWith(validServerId, {
+        syncUsers: true,
+        syncLibraries: false,
+      });
+      expect(enqueueFileImport).toHaveBeenCalledWith(
+        validServerId,
+        ownerUser.userId,
+        fileContents,
+        mapping
+      );
+    });
+
+    it('falls back to direct execution when queue is unavailable', async () => {
+      app = await buildTestApp(ownerUser);
+      mockServerLookup({ id: validServerId, type: 'jellyfin' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/import/file',
+        ...buildMultipartPayload(validServerId, fileContents, {
+          mapping: JSON.stringify(mapping),
+        }),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().status).toBe('started');
+      expect(importHistoryFile).toHaveBeenCalledWith(
+        validServerId,
+        fileContents,
+        mapping,
+        undefined
+      );
+    });
+  });
 });
@@ -0,0 +1,98 @@
+/**
+ * Library sync route tests
+ *
+ * Tests POST /library/sync/:serverId permission and server access checks.
+ * The sync queue and the analytics sub-routes are mocked.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+vi.mock('../../jobs/librarySyncQueue.js', () => ({
+  enqueueLibrarySync: vi.fn(),
+  getLibrarySyncStatus: vi.fn(),
+}));
+
+vi.mock('../library/index.js', () => ({
+  libraryStatsRoutes: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { enqueueLibrarySync } from '../../jobs/librarySyncQueue.js';
+import { libraryRoutes } from '../library.js';
+
+const serverId = randomUUID();
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(libraryRoutes, { prefix: '/library' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role'], serverIds = [serverId]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds,
+  };
+}
+
+describe('Library Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+  });
+
+  describe('POST /library/sync/:serverId', () => {
+    it('queues a sync for admins', async () => {
+      const admin = createUser('admin');
+      vi.mocked(enqueueLibrarySync).mockResolvedValue('job-1');
+      app = await buildTestApp(admin);
+
+      const response = await app.inject({ method: 'POST', url: `/library/sync/${serverId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ jobId: 'job-1', message: 'Sync job queued' });
+      expect(enqueueLibrarySync).toHaveBeenCalledWith(serverId, admin.userId);
+    });
+
+    it.each(['viewer', 'moderator'] as const)('rejects %s users', async (role) => {
+      app = await buildTestApp(createUser(role));
+
+      const response = await app.inject({ method: 'POST', url: `/library/sync/${serverId}` });
+
+      expect(response.statusCode).toBe(403);
+      expect(enqueueLibrarySync).not.toHaveBeenCalled();
+    });
+
+    it('rejects servers the user cannot access', async () => {
+      app = await buildTestApp(createUser('admin', [randomUUID()]));
+
+      const response = await app.inject({ method: 'POST', url: `/library/sync/${serverId}` });
+
+      expect(response.statusCode).toBe(403);
+      expect(enqueueLibrarySync).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when a sync is already running', async () => {
+      vi.mocked(enqueueLibrarySync).mockRejectedValue(new Error('Sync already in progress'));
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({ method: 'POST', url: `/library/sync/${serverId}` });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+});
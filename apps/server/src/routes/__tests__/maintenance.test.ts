@@ -160,7 +160,7 @@ describe('Maintenance Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('maintenance:run');
     });
   });
 
@@ -283,7 +283,7 @@ describe('Maintenance Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('maintenance:run');
     });
 
     it('returns conflict when job already in progress', async () => {
@@ -366,7 +366,7 @@ describe('Maintenance Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('maintenance:run');
     });
   });
 
@@ -516,7 +516,7 @@ describe('Maintenance Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('maintenance:run');
     });
   });
 
@@ -569,7 +569,7 @@ describe('Maintenance Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('maintenance:run');
     });
   });
 
@@ -640,7 +640,7 @@ describe('Maintenance Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('maintenance:run');
     });
   });
 });
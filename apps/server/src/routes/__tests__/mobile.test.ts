@@ -315,7 +315,7 @@ describe('Mobile Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can access mobile settings');
+      expect(body.message).toContain('mobile:manage');
     });
 
     it('returns empty sessions when none exist', async () => {
@@ -404,7 +404,7 @@ describe('Mobile Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can enable mobile access');
+      expect(body.message).toContain('mobile:manage');
     });
   });
 
@@ -499,7 +499,7 @@ describe('Mobile Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can generate pairing tokens');
+      expect(body.message).toContain('mobile:manage');
     });
 
     it('rejects when max pending tokens reached', async () => {
@@ -579,7 +579,7 @@ describe('Mobile Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toBe('Only server owners can disable mobile access');
+      expect(body.message).toContain('mobile:manage');
     });
   });
 
@@ -822,7 +822,7 @@ describe('Mobile Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('mobile:manage');
     });
   });
 
@@ -1927,7 +1927,7 @@ describe('Mobile Routes', () => {
 
       expect(response.statusCode).toBe(403);
       const body = response.json();
-      expect(body.message).toContain('Only administrators can terminate');
+      expect(body.message).toContain('sessions:terminate');
     });
 
     it('returns 404 when session not found', async () => {
@@ -0,0 +1,548 @@
+/**
+ * Notification Destination routes unit tests
+ *
+ * Tests the API endpoints for named notification destinations:
+ * - GET /destinations - List destinations with secrets masked
+ * - POST /destinations - Create a destination
+ * - PATCH /destinations/:id - Update a destination (config merged)
+ * - DELETE /destinations/:id - Delete a destination
+ * - POST /destinations/:id/test - Send a test through the destination's agent
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/digest.js', () => ({
+  sendDigest: vi.fn(),
+}));
+
+vi.mock('../../services/auditLog.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/auditLog.js';
+import { sendDigest } from '../../services/digest.js';
+import { notificationManager } from '../../services/notifications/index.js';
+import { notificationDestinationRoutes } from '../notificationDestinations.js';
+
+function createMockDestination(overrides?: Record<string, unknown>) {
+  return {
+    id: randomUUID(),
+    name: 'Admins channel',
+    type: 'discord',
+    config: { discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc' },
+    enabled: true,
+    events: ['violation_detected', 'server_down'],
+    minSeverity: 'low',
+    serverIds: [],
+    digestFrequency: 'off',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(notificationDestinationRoutes, { prefix: '/settings/notifications' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+function mockSelectOne(item: unknown) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(item ? [item] : []),
+      }),
+    }),
+  } as never);
+}
+
+function mockInsert() {
+  const values = vi.fn((row: Record<string, unknown>) => ({
+    returning: vi.fn().mockResolvedValue([createMockDestination(row)]),
+  }));
+  vi.mocked(db.insert).mockReturnValue({ values } as never);
+  return values;
+}
+
+function mockUpdate(existing: Record<string, unknown>) {
+  const set = vi.fn((data: Record<string, unknown>) => ({
+    where: vi.fn().mockReturnValue({
+      returning: vi.fn().mockResolvedValue([{ ...existing, ...data }]),
+    }),
+  }));
+  vi.mocked(db.update).mockReturnValue({ set } as never);
+  return set;
+}
+
+describe('Notification Destination Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /settings/notifications/destinations', () => {
+    it('returns destinations with secrets masked', async () => {
+      const rows = [
+        createMockDestination(),
+        createMockDestination({
+          type: 'telegram',
+          config: { telegramBotToken: '123:abc', telegramChatId: '-100' },
+        }),
+      ];
+      vi.mocked(db.select).mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockResolvedValue(rows),
+        }),
+      } as never);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/destinations',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body).toHaveLength(2);
+      expect(body[0].config.discordWebhookUrl).toBe('https://discord.com/api/webhooks/123/abc');
+      expect(body[1].config).toEqual({ telegramBotToken: '********', telegramChatId: '-100' });
+    });
+
+    it('rejects non-owner access with 403', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/destinations',
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /settings/notifications/destinations', () => {
+    it('creates a destination subscribed to the default events', async () => {
+      const values = mockInsert();
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: {
+          name: 'Second Discord',
+          type: 'discord',
+          config: {
+            discordWebhookUrl: 'https://discord.com/api/webhooks/456/def',
+            // Keys for other agents are dropped
+            smtpHost: 'smtp.example.com',
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith({
+        name: 'Second Discord',
+        type: 'discord',
+        config: { discordWebhookUrl: 'https://discord.com/api/webhooks/456/def' },
+        enabled: true,
+        events: [
+          'violation_detected',
+          'concurrent_streams',
+          'new_device',
+          'server_down',
+          'server_up',
+        ],
+        minSeverity: 'low',
+        serverIds: [],
+        digestFrequency: 'off',
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'destination.create',
+          targetType: 'destination',
+          targetLabel: 'Second Discord',
+        })
+      );
+    });
+
+    it('rejects a destination missing required settings', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: { name: 'Mail', type: 'email', config: { smtpHost: 'smtp.example.com' } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe('Missing required settings for email: smtpFrom, smtpTo');
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown destination types', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: { name: 'Fax', type: 'fax', config: {} },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects users without notifications:manage', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: {
+          name: 'Discord',
+          type: 'discord',
+          config: { discordWebhookUrl: 'https://discord.com/api/webhooks/1/a' },
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('PATCH /settings/notifications/destinations/:id', () => {
+    it('merges config and keeps secrets echoed back masked', async () => {
+      const existing = createMockDestination({
+        type: 'json',
+        config: { customWebhookUrl: 'https://hooks.example.com/a', webhookSecret: 's3cret' },
+      });
+      mockSelectOne(existing);
+      const set = mockUpdate(existing);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${existing.id}`,
+        payload: {
+          name: 'Renamed',
+          config: { customWebhookUrl: 'https://hooks.example.com/b', webhookSecret: '********' },
+          serverIds: [randomUUID()],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Renamed',
+          config: { customWebhookUrl: 'https://hooks.example.com/b', webhookSecret: 's3cret' },
+        })
+      );
+      expect(response.json().config.webhookSecret).toBe('********');
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'destination.update',
+          before: expect.objectContaining({
+            name: 'Admins channel',
+            config: {
+              customWebhookUrl: 'https://hooks.example.com/********',
+              webhookSecret: '********',
+            },
+          }),
+          after: expect.objectContaining({
+            name: 'Renamed',
+            config: {
+              customWebhookUrl: 'https://hooks.example.com/******** (changed)',
+              webhookSecret: '********',
+            },
+          }),
+        })
+      );
+    });
+
+    it('records a replaced secret without revealing it', async () => {
+      const existing = createMockDestination({
+        type: 'json',
+        config: { customWebhookUrl: 'https://hooks.example.com/a', webhookSecret: 's3cret' },
+      });
+      mockSelectOne(existing);
+      mockUpdate(existing);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${existing.id}`,
+        payload: { config: { webhookSecret: 'n3w-secret' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const event = vi.mocked(recordAudit).mock.calls[0]![1];
+      expect(event).toMatchObject({
+        after: { config: { webhookSecret: '******** (changed)' } },
+      });
+      expect(JSON.stringify(event)).not.toContain('s3cret');
+      expect(JSON.stringify(event)).not.toContain('n3w-secret');
+    });
+
+    it('records webhook URLs without their tokens', async () => {
+      const existing = createMockDestination({
+        type: 'discord',
+        config: { discordWebhookUrl: 'https://discord.com/api/webhooks/1/old-token' },
+      });
+      mockSelectOne(existing);
+      mockUpdate(existing);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${existing.id}`,
+        payload: { config: { discordWebhookUrl: 'https://discord.com/api/webhooks/2/new-token' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const event = vi.mocked(recordAudit).mock.calls[0]![1];
+      expect(event).toMatchObject({
+        before: { config: { discordWebhookUrl: 'https://discord.com/********' } },
+        after: { config: { discordWebhookUrl: 'https://discord.com/******** (changed)' } },
+      });
+      expect(JSON.stringify(event)).not.toContain('old-token');
+      expect(JSON.stringify(event)).not.toContain('new-token');
+    });
+
+    it('rejects clearing a required setting', async () => {
+      const existing = createMockDestination();
+      mockSelectOne(existing);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${existing.id}`,
+        payload: { config: { discordWebhookUrl: null } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown destinations', async () => {
+      mockSelectOne(null);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${randomUUID()}`,
+        payload: { enabled: false },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('rejects invalid IDs', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: '/settings/notifications/destinations/not-a-uuid',
+        payload: { enabled: false },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('DELETE /settings/notifications/destinations/:id', () => {
+    it('deletes the destination', async () => {
+      const destination = createMockDestination();
+      const id = destination.id;
+      vi.mocked(db.delete).mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([destination]),
+        }),
+      } as never);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/settings/notifications/destinations/${id}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'destination.delete',
+          targetId: id,
+          targetLabel: 'Admins channel',
+        })
+      );
+    });
+
+    it('returns 404 for unknown destinations', async () => {
+      vi.mocked(db.delete).mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([]),
+        }),
+      } as never);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/settings/notifications/destinations/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /settings/notifications/destinations/:id/test', () => {
+    it("tests the destination through its type's agent", async () => {
+      const destination = createMockDestination({
+        type: 'ntfy',
+        config: { customWebhookUrl: 'https://ntfy.sh', ntfyTopic: 'tracearr' },
+      });
+      mockSelectOne(destination);
+      const testAgent = vi
+        .spyOn(notificationManager, 'testAgent')
+        .mockResolvedValue({ success: true });
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destination.id}/test`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(testAgent).toHaveBeenCalledWith(
+        'ntfy',
+        expect.objectContaining({
+          customWebhookUrl: 'https://ntfy.sh',
+          ntfyTopic: 'tracearr',
+          webhookFormat: 'ntfy',
+          destinationId: destination.id,
+        })
+      );
+    });
+
+    it('returns 502 when the test fails', async () => {
+      mockSelectOne(createMockDestination());
+      vi.spyOn(notificationManager, 'testAgent').mockResolvedValue({
+        success: false,
+        error: 'HTTP 404',
+      });
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${randomUUID()}/test`,
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(response.json()).toEqual({ success: false, error: 'HTTP 404' });
+    });
+  });
+
+  describe('POST /settings/notifications/destinations/:id/digest', () => {
+    it("sends the destination's configured digest", async () => {
+      const destination = createMockDestination({ digestFrequency: 'monthly' });
+      mockSelectOne(destination);
+      vi.mocked(sendDigest).mockResolvedValue([{ success: true, agent: 'discord' }]);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destination.id}/digest`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true });
+      expect(sendDigest).toHaveBeenCalledWith(
+        expect.objectContaining({ id: destination.id }),
+        'monthly'
+      );
+    });
+
+    it('defaults to weekly when digests are off and honors an explicit period', async () => {
+      mockSelectOne(createMockDestination());
+      vi.mocked(sendDigest).mockResolvedValue([{ success: true, agent: 'discord' }]);
+      app = await buildTestApp(createUser('owner'));
+
+      await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${randomUUID()}/digest`,
+      });
+      await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${randomUUID()}/digest`,
+        payload: { period: 'monthly' },
+      });
+
+      expect(vi.mocked(sendDigest).mock.calls.map((call) => call[1])).toEqual([
+        'weekly',
+        'monthly',
+      ]);
+    });
+
+    it('returns 502 when sending fails', async () => {
+      mockSelectOne(createMockDestination());
+      vi.mocked(sendDigest).mockResolvedValue([
+        { success: false, error: 'HTTP 500', agent: 'discord' },
+      ]);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${randomUUID()}/digest`,
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(response.json()).toEqual({ success: false, error: 'HTTP 500' });
+    });
+
+    it('rejects users without permission', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${randomUUID()}/digest`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(sendDigest).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Notification Template routes unit tests
+ *
+ * Tests the API endpoints for user-defined notification templates:
+ * - GET /templates - List all templates
+ * - PUT /templates/:eventType/:agent - Create or replace a template
+ * - DELETE /templates/:eventType/:agent - Revert to built-in formatting
+ * - POST /templates/preview - Render a template against sample data
+ *
+ * Also tests the internal getNotificationTemplates() helper.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import { notificationTemplateRoutes, getNotificationTemplates } from '../notificationTemplates.js';
+
+function createMockTemplate(
+  overrides?: Partial<{ eventType: string; agent: string; title: string; body: string }>
+) {
+  return {
+    id: randomUUID(),
+    eventType: overrides?.eventType ?? 'server_down',
+    agent: overrides?.agent ?? 'discord',
+    title: overrides?.title ?? '{{server.name}} is down',
+    body: overrides?.body ?? 'Go check {{server.name}}',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(notificationTemplateRoutes, { prefix: '/settings/notifications' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+describe('Notification Template Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+  });
+
+  describe('GET /settings/notifications/templates', () => {
+    it('returns all templates for owner', async () => {
+      const rows = [createMockTemplate(), createMockTemplate({ agent: 'telegram' })];
+      vi.mocked(db.select).mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockResolvedValue(rows),
+        }),
+      } as never);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/templates',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body).toHaveLength(2);
+      expect(body[1]).toMatchObject({ eventType: 'server_down', agent: 'telegram' });
+    });
+
+    it('rejects non-owner access with 403', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/templates',
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(db.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /settings/notifications/templates/:eventType/:agent', () => {
+    let mockValues: ReturnType<typeof vi.fn>;
+    let mockOnConflict: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      const saved = createMockTemplate({ title: 'Down: {{server.name}}', body: 'Offline' });
+      mockOnConflict = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([saved]),
+      });
+      mockValues = vi.fn().mockReturnValue({ onConflictDoUpdate: mockOnConflict });
+      vi.mocked(db.insert).mockReturnValue({ values: mockValues } as never);
+    });
+
+    it('upserts a template for owner', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down/discord',
+        payload: { title: 'Down: {{server.name}}', body: 'Offline' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ title: 'Down: {{server.name}}', body: 'Offline' });
+      expect(mockValues).toHaveBeenCalledWith({
+        eventType: 'server_down',
+        agent: 'discord',
+        title: 'Down: {{server.name}}',
+        body: 'Offline',
+      });
+      expect(mockOnConflict).toHaveBeenCalledWith(
+        expect.objectContaining({
+          set: expect.objectContaining({ title: 'Down: {{server.name}}', body: 'Offline' }),
+        })
+      );
+    });
+
+    it('rejects variables that are not available for the event', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down/discord',
+        payload: { title: '{{server.name}}', body: '{{session.mediaTitle}} {{user.nickname}}' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe(
+        'Unknown template variables for server_down: {{session.mediaTitle}}, {{user.nickname}}'
+      );
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects unsupported events and agents', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const badEvent = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/concurrent_streams/discord',
+        payload: { title: 'x', body: 'y' },
+      });
+      const badAgent = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down/slack',
+        payload: { title: 'x', body: 'y' },
+      });
+
+      expect(badEvent.statusCode).toBe(400);
+      expect(badAgent.statusCode).toBe(400);
+    });
+
+    it('rejects empty templates', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down/discord',
+        payload: { title: '   ', body: 'Offline' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects users without notifications:manage', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down/discord',
+        payload: { title: 'x', body: 'y' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /settings/notifications/templates/:eventType/:agent', () => {
+    function mockDbDelete(deleted: unknown[]) {
+      vi.mocked(db.delete).mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue(deleted),
+        }),
+      } as never);
+    }
+
+    it('deletes an existing template', async () => {
+      mockDbDelete([{ id: randomUUID() }]);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/settings/notifications/templates/new_device/email',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true });
+    });
+
+    it('returns 404 when no template exists', async () => {
+      mockDbDelete([]);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/settings/notifications/templates/new_device/email',
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /settings/notifications/templates/preview', () => {
+    it('renders the template against sample data', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/templates/preview',
+        payload: {
+          eventType: 'stream_started',
+          title: '▶ {{user.displayName}}',
+          body: '{{session.displayTitle}} in {{geo.city}} on {{server.name}}',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        title: '▶ John Smith',
+        body: 'Breaking Bad - S05E14 in Berlin on Home Plex',
+      });
+      expect(db.select).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown variables', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/templates/preview',
+        payload: { eventType: 'server_up', title: '{{trust.newScore}}', body: 'Up' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
+
+describe('getNotificationTemplates', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns templates keyed by event and agent', async () => {
+    vi.mocked(db.select).mockReturnValue({
+      from: vi
+        .fn()
+        .mockResolvedValue([{ eventType: 'server_down', agent: 'ntfy', title: 'T', body: 'B' }]),
+    } as never);
+
+    const templates = await getNotificationTemplates();
+
+    expect(templates.get('server_down:ntfy')).toEqual({ title: 'T', body: 'B' });
+    expect(templates.size).toBe(1);
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * Public API write routes tests
+ *
+ * Tests the scope-gated automation endpoints:
+ * - POST /public/streams/:id/terminate - Stop an active stream
+ * - POST /public/violations/:id/acknowledge - Acknowledge a violation
+ * - POST /public/rules/:id/toggle - Enable or disable a rule
+ * - POST /public/users/:id/trust - Set or adjust a trust score
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import rateLimit from '@fastify/rate-limit';
+import { randomUUID } from 'node:crypto';
+import type { ApiKeyScope } from '@tracearr/shared';
+import type { PublicApiContext } from '../../plugins/auth.js';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/auditLog.js', () => ({
+  listAuditLog: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+vi.mock('../../services/termination.js', () => ({
+  terminateSession: vi.fn(),
+}));
+
+vi.mock('../../services/violations.js', () => ({
+  getViolationAckTarget: vi.fn(),
+  acknowledgeViolation: vi.fn(),
+}));
+
+vi.mock('../../services/trustScore.js', () => ({
+  applyTrustScoreChange: vi.fn(),
+  notifyTrustScoreChange: vi.fn(),
+}));
+
+vi.mock('../../jobs/inactivityCheckQueue.js', () => ({
+  scheduleInactivityChecks: vi.fn(),
+  hasInactivityCondition: vi.fn().mockReturnValue(false),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/auditLog.js';
+import { terminateSession } from '../../services/termination.js';
+import { acknowledgeViolation, getViolationAckTarget } from '../../services/violations.js';
+import { applyTrustScoreChange } from '../../services/trustScore.js';
+import { publicRoutes } from '../public.js';
+
+const SERVER_A = randomUUID();
+const SERVER_B = randomUUID();
+
+function createContext(scopes: ApiKeyScope[], serverId: string | null = null): PublicApiContext {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    keyId: randomUUID(),
+    keyName: 'Home Assistant',
+    scopes,
+    serverId,
+  };
+}
+
+async function buildTestApp(
+  context: PublicApiContext,
+  options: { rateLimited?: boolean } = {}
+): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  if (options.rateLimited) {
+    await app.register(rateLimit, { max: 1000, timeWindow: '1 minute' });
+  }
+  await app.register(sensible);
+
+  app.decorate('authenticatePublicApi', async (request: any) => {
+    request.publicApiContext = context;
+  });
+
+  await app.register(publicRoutes, { prefix: '/public' });
+
+  return app;
+}
+
+/**
+ * Helper to create mock chain for single-row lookups (with one join)
+ */
+function createJoinLookupMock(resolvedValue: unknown) {
+  const limit = vi.fn().mockResolvedValue(resolvedValue);
+  const where = vi.fn().mockReturnValue({ limit });
+  const join = vi.fn().mockReturnValue({ where });
+  return { from: vi.fn().mockReturnValue({ innerJoin: join, leftJoin: join }) };
+}
+
+function createLookupMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+describe('Public API write routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('POST /public/streams/:id/terminate', () => {
+    function mockSession(overrides?: Record<string, unknown>) {
+      const session = {
+        id: randomUUID(),
+        serverId: SERVER_A,
+        state: 'playing',
+        mediaTitle: 'Heat',
+        username: 'alice',
+        ...overrides,
+      };
+      mockDb.select.mockReturnValue(createJoinLookupMock([session]));
+      return session;
+    }
+
+    it('terminates the stream as the key owner and audits it', async () => {
+      const context = createContext(['streams:terminate']);
+      app = await buildTestApp(context);
+      const session = mockSession();
+      vi.mocked(terminateSession).mockResolvedValue({
+        success: true,
+        outcome: 'terminated',
+        terminationLogId: 'log-1',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/streams/${session.id}/terminate`,
+        payload: { reason: 'Bedtime' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ success: true, outcome: 'terminated' });
+      expect(terminateSession).toHaveBeenCalledWith({
+        sessionId: session.id,
+        trigger: 'manual',
+        triggeredByUserId: context.userId,
+        reason: 'Bedtime',
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'session.terminate', targetId: session.id })
+      );
+    });
+
+    it('requires the streams:terminate scope', async () => {
+      app = await buildTestApp(createContext(['streams:read']));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/streams/${randomUUID()}/terminate`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(terminateSession).not.toHaveBeenCalled();
+    });
+
+    it('refuses streams on another server for server-limited keys', async () => {
+      app = await buildTestApp(createContext(['streams:terminate'], SERVER_B));
+      const session = mockSession();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/streams/${session.id}/terminate`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(terminateSession).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 for streams that already ended', async () => {
+      app = await buildTestApp(createContext(['streams:terminate']));
+      const session = mockSession({ state: 'stopped' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/streams/${session.id}/terminate`,
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('POST /public/violations/:id/acknowledge', () => {
+    it('acknowledges through the shared violation service', async () => {
+      app = await buildTestApp(createContext(['violations:ack']));
+      const violation = {
+        id: randomUUID(),
+        acknowledgedAt: null,
+        serverId: SERVER_A,
+        username: 'alice',
+      };
+      const acknowledgedAt = new Date('2026-10-19T12:00:00Z');
+      vi.mocked(getViolationAckTarget).mockResolvedValue(violation);
+      vi.mocked(acknowledgeViolation).mockResolvedValue(acknowledgedAt);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/violations/${violation.id}/acknowledge`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        success: true,
+        acknowledgedAt: acknowledgedAt.toISOString(),
+      });
+      expect(acknowledgeViolation).toHaveBeenCalledWith(expect.anything(), violation);
+    });
+
+    it('does nothing for violations that are already acknowledged', async () => {
+      app = await buildTestApp(createContext(['violations:ack']));
+      vi.mocked(getViolationAckTarget).mockResolvedValue({
+        id: randomUUID(),
+        acknowledgedAt: new Date(),
+        serverId: SERVER_A,
+        username: 'alice',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/violations/${randomUUID()}/acknowledge`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(acknowledgeViolation).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown violations', async () => {
+      app = await buildTestApp(createContext(['violations:ack']));
+      vi.mocked(getViolationAckTarget).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/violations/${randomUUID()}/acknowledge`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /public/rules/:id/toggle', () => {
+    it('disables a rule and audits the toggle', async () => {
+      app = await buildTestApp(createContext(['rules:toggle']));
+      const rule = { id: randomUUID(), name: 'Max 2 streams', isActive: true, serverId: null };
+      mockDb.select.mockReturnValue(createJoinLookupMock([rule]));
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi
+            .fn()
+            .mockResolvedValue([{ id: rule.id, name: rule.name, conditions: null }]),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/rules/${rule.id}/toggle`,
+        payload: { isActive: false },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ id: rule.id, name: rule.name, isActive: false });
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ isActive: false }));
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'rule.toggle',
+          before: { isActive: true },
+          after: { isActive: false },
+        })
+      );
+    });
+
+    it('refuses global rules for server-limited keys', async () => {
+      app = await buildTestApp(createContext(['rules:toggle'], SERVER_A));
+      mockDb.select.mockReturnValue(
+        createJoinLookupMock([{ id: randomUUID(), name: 'Global', isActive: true, serverId: null }])
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/rules/${randomUUID()}/toggle`,
+        payload: { isActive: false },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a missing isActive', async () => {
+      app = await buildTestApp(createContext(['rules:toggle']));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/rules/${randomUUID()}/toggle`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /public/users/:id/trust', () => {
+    it('applies a relative change to the account on the server', async () => {
+      const context = createContext(['users:trust']);
+      app = await buildTestApp(context);
+      const userId = randomUUID();
+      mockDb.select.mockReturnValue(createLookupMock([{ id: 'su-1', trustScore: 90 }]));
+      vi.mocked(applyTrustScoreChange).mockResolvedValue({
+        serverUserId: 'su-1',
+        serverId: SERVER_A,
+        username: 'alice',
+        previousScore: 90,
+        newScore: 80,
+        source: 'manual',
+        reason: 'Shared account',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/users/${userId}/trust`,
+        payload: { serverId: SERVER_A, delta: -10, reason: 'Shared account' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        userId,
+        serverId: SERVER_A,
+        previousScore: 90,
+        trustScore: 80,
+      });
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        db,
+        'su-1',
+        { delta: -10 },
+        { source: 'manual', reason: 'Shared account', changedByUserId: context.userId }
+      );
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'user.trust_update', targetId: 'su-1' })
+      );
+    });
+
+    it('uses the key server for server-limited keys', async () => {
+      app = await buildTestApp(createContext(['users:trust'], SERVER_B));
+      mockDb.select.mockReturnValue(createLookupMock([{ id: 'su-2', trustScore: 50 }]));
+      vi.mocked(applyTrustScoreChange).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/users/${randomUUID()}/trust`,
+        payload: { score: 50 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ serverId: SERVER_B, trustScore: 50 });
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+
+    it('requires serverId for keys covering every server', async () => {
+      app = await buildTestApp(createContext(['users:trust']));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/users/${randomUUID()}/trust`,
+        payload: { score: 50 },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects sending both score and delta', async () => {
+      app = await buildTestApp(createContext(['users:trust']));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/public/users/${randomUUID()}/trust`,
+        payload: { serverId: SERVER_A, score: 50, delta: 5 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(applyTrustScoreChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('limits write calls per key', async () => {
+      app = await buildTestApp(createContext(['violations:ack']), { rateLimited: true });
+      vi.mocked(getViolationAckTarget).mockResolvedValue(null);
+
+      const send = (token: string) =>
+        app.inject({
+          method: 'POST',
+          url: `/public/violations/${randomUUID()}/acknowledge`,
+          headers: { authorization: `Bearer ${token}` },
+        });
+
+      for (let i = 0; i < 30; i++) {
+        expect((await send('trr_pub_first')).statusCode).toBe(404);
+      }
+
+      expect((await send('trr_pub_first')).statusCode).toBe(429);
+      expect((await send('trr_pub_second')).statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Rule exemption routes tests
+ *
+ * Tests the API endpoints for managing rule exemptions:
+ * - POST /rule-exemptions - Create an exemption
+ * - DELETE /rule-exemptions/:id - Revoke an exemption
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/auditLog.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/auditLog.js';
+import { ruleExemptionRoutes } from '../ruleExemptions.js';
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(ruleExemptionRoutes, { prefix: '/rule-exemptions' });
+
+  return app;
+}
+
+function createOwnerUser(serverIds: string[] = [randomUUID()]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds,
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [randomUUID()],
+  };
+}
+
+/**
+ * Helper to create mock chain for single-row lookups
+ */
+function createLookupSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+describe('Rule Exemption Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('POST /rule-exemptions', () => {
+    it('should exempt a server user from a rule', async () => {
+      const serverId = randomUUID();
+      const ownerUser = createOwnerUser([serverId]);
+      app = await buildTestApp(ownerUser);
+
+      const serverUserId = randomUUID();
+      const ruleId = randomUUID();
+      const expiresAt = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+
+      const exemptionId = randomUUID();
+
+      mockDb.select.mockReturnValueOnce(createLookupSelectMock([{ serverId, username: 'alice' }]));
+      mockDb.select.mockReturnValueOnce(createLookupSelectMock([{ id: ruleId }]));
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([
+          {
+            id: exemptionId,
+            serverUserId,
+            userId: null,
+            ruleId,
+            reason: 'Travelling for two weeks',
+            expiresAt,
+          },
+        ]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: {
+          serverUserId,
+          ruleId,
+          reason: 'Travelling for two weeks',
+          expiresAt: expiresAt.toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith({
+        serverUserId,
+        userId: null,
+        ruleId,
+        reason: 'Travelling for two weeks',
+        expiresAt,
+        createdByUserId: ownerUser.userId,
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'rule_exemption.create',
+          targetType: 'rule_exemption',
+          targetId: exemptionId,
+          targetLabel: 'alice',
+          after: expect.objectContaining({ serverUserId, ruleId, expiresAt }),
+        })
+      );
+    });
+
+    it('should exempt an identity from every rule', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+      const userId = randomUUID();
+
+      mockDb.select.mockReturnValueOnce(createLookupSelectMock([{ id: userId }]));
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([{ id: randomUUID(), userId }]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: { userId, reason: 'Uses a VPN' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ serverUserId: null, userId, ruleId: null, expiresAt: null })
+      );
+    });
+
+    it('should require exactly one subject', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: { serverUserId: randomUUID(), userId: randomUUID(), reason: 'Both' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expiry in the past', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: {
+          serverUserId: randomUUID(),
+          reason: 'Late',
+          expiresAt: '2020-01-01T00:00:00Z',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for an unknown server user', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockDb.select.mockReturnValueOnce(createLookupSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: { serverUserId: randomUUID(), reason: 'Travel' },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown rule', async () => {
+      const serverId = randomUUID();
+      app = await buildTestApp(createOwnerUser([serverId]));
+      mockDb.select.mockReturnValueOnce(createLookupSelectMock([{ serverId }]));
+      mockDb.select.mockReturnValueOnce(createLookupSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: { serverUserId: randomUUID(), ruleId: randomUUID(), reason: 'Travel' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reject non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rule-exemptions',
+        payload: { serverUserId: randomUUID(), reason: 'Travel' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('DELETE /rule-exemptions/:id', () => {
+    function createExistingSelectMock(resolvedValue: unknown) {
+      return {
+        from: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue(resolvedValue),
+            }),
+          }),
+        }),
+      };
+    }
+
+    it('should revoke an exemption and record who revoked it', async () => {
+      const serverId = randomUUID();
+      const ownerUser = createOwnerUser([serverId]);
+      app = await buildTestApp(ownerUser);
+      const id = randomUUID();
+
+      const revokedAt = new Date();
+
+      mockDb.select.mockReturnValueOnce(
+        createExistingSelectMock([{ id, revokedAt: null, serverId, username: 'alice' }])
+      );
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ id, revokedAt }]),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({ method: 'DELETE', url: `/rule-exemptions/${id}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith({
+        revokedAt: expect.any(Date),
+        revokedByUserId: ownerUser.userId,
+      });
+      expect(recordAudit).toHaveBeenCalledWith(expect.anything(), {
+        action: 'rule_exemption.revoke',
+        targetType: 'rule_exemption',
+        targetId: id,
+        targetLabel: 'alice',
+        before: { revokedAt: null },
+        after: { revokedAt },
+      });
+    });
+
+    it('should return 409 when already revoked', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockDb.select.mockReturnValueOnce(
+        createExistingSelectMock([{ id: randomUUID(), revokedAt: new Date(), serverId: null }])
+      );
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/rule-exemptions/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown exemption', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockDb.select.mockReturnValueOnce(createExistingSelectMock([]));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/rule-exemptions/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -6,7 +6,9 @@
  * - POST /rules - Create a new rule
  * - GET /rules/:id - Get a specific rule
  * - PATCH /rules/:id - Update a rule
+ * - PATCH /rules/:id/v2 - Update a V2 rule (schedule and snooze)
  * - DELETE /rules/:id - Delete a rule
+ * - POST /rules/v2/backtest - Dry-run a draft rule
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -25,8 +27,14 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+// Mock the backtest service (replay is covered by its own tests)
+vi.mock('../../services/rules/backtest.js', () => ({
+  backtestRule: vi.fn(),
+}));
+
 // Import the mocked db and the routes
 import { db } from '../../db/client.js';
+import { backtestRule } from '../../services/rules/backtest.js';
 import { ruleRoutes } from '../rules.js';
 
 /**
@@ -652,4 +660,180 @@ describe('Rule Routes', () => {
       expect(response.statusCode).toBe(400);
     });
   });
+
+  describe('PATCH /rules/:id/v2', () => {
+    function mockExistingRule(ruleId: string) {
+      const existingRule = createTestRule({ id: ruleId });
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue([{ ...existingRule, serverId: null }]),
+            }),
+          }),
+        }),
+      });
+
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([existingRule]),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+      return set;
+    }
+
+    it('should save a schedule and snooze', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const ruleId = randomUUID();
+      const set = mockExistingRule(ruleId);
+      const schedule = {
+        timezone: 'Europe/London',
+        windows: [{ days: ['fri', 'sat'], startTime: '22:00', endTime: '02:00' }],
+      };
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${ruleId}/v2`,
+        payload: { schedule, snoozedUntil: '2024-12-27T00:00:00Z' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          schedule,
+          snoozedUntil: new Date('2024-12-27T00:00:00Z'),
+        })
+      );
+    });
+
+    it('should clear a snooze', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const ruleId = randomUUID();
+      const set = mockExistingRule(ruleId);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${ruleId}/v2`,
+        payload: { snoozedUntil: null },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ snoozedUntil: null }));
+      expect(set.mock.calls[0]?.[0]).not.toHaveProperty('schedule');
+    });
+
+    it('should reject invalid schedule windows', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${randomUUID()}/v2`,
+        payload: {
+          schedule: {
+            timezone: 'Europe/London',
+            windows: [{ days: ['mon'], startTime: '25:00', endTime: '02:00' }],
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /rules/v2/backtest', () => {
+    const draft = {
+      name: 'Late night streams',
+      conditions: {
+        groups: [{ conditions: [{ field: 'local_hour', operator: 'gte', value: 23 }] }],
+      },
+      actions: { actions: [{ type: 'log_only' }] },
+    };
+
+    it('should return the backtest result for owner', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+      vi.mocked(backtestRule).mockResolvedValue({
+        startDate: new Date('2024-03-01T00:00:00Z'),
+        endDate: new Date('2024-03-08T00:00:00Z'),
+        sessionsEvaluated: 12,
+        truncated: false,
+        matchCount: 0,
+        matches: [],
+        userCounts: [],
+        actionCounts: {},
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules/v2/backtest',
+        payload: {
+          rule: draft,
+          startDate: '2024-03-01T00:00:00Z',
+          endDate: '2024-03-08T00:00:00Z',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().sessionsEvaluated).toBe(12);
+      expect(backtestRule).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Late night streams', severity: 'warning' }),
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-03-08T00:00:00Z'),
+        ownerUser
+      );
+      // Nothing is written
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject ranges longer than the limit', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules/v2/backtest',
+        payload: {
+          rule: draft,
+          startDate: '2024-01-01T00:00:00Z',
+          endDate: '2024-06-01T00:00:00Z',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(backtestRule).not.toHaveBeenCalled();
+    });
+
+    it('should reject an end date before the start date', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules/v2/backtest',
+        payload: {
+          rule: draft,
+          startDate: '2024-03-08T00:00:00Z',
+          endDate: '2024-03-01T00:00:00Z',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules/v2/backtest',
+        payload: {
+          rule: draft,
+          startDate: '2024-03-01T00:00:00Z',
+          endDate: '2024-03-08T00:00:00Z',
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(backtestRule).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -6,6 +6,8 @@
  * - POST /servers - Add a new server
  * - DELETE /servers/:id - Remove a server
  * - POST /servers/:id/sync - Force sync
+ * - GET/POST/DELETE /servers/:id/webhook - Manage the inbound webhook secret
+ * - GET /servers/:id/resources - Stored resource history
  * - GET /servers/:id/image/* - Proxy images
  */
 
@@ -22,6 +24,7 @@ vi.mock('../../db/client.js', () => ({
     insert: vi.fn(),
     delete: vi.fn(),
     update: vi.fn(),
+    execute: vi.fn(),
   },
 }));
 
@@ -50,10 +53,15 @@ vi.mock('../../services/sync.js', () => ({
   syncServer: vi.fn(),
 }));
 
+vi.mock('../../services/auditLog.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
 // Import mocked modules
 import { db } from '../../db/client.js';
 import { PlexClient, JellyfinClient, EmbyClient } from '../../services/mediaServer/index.js';
 import { syncServer } from '../../services/sync.js';
+import { recordAudit } from '../../services/auditLog.js';
 import { serverRoutes } from '../servers.js';
 
 // Mock global fetch for image proxy tests
@@ -298,6 +306,13 @@ describe('Server Routes', () => {
       const body = response.json();
       expect(body.name).toBe('New Plex');
       expect(body.type).toBe('plex');
+      expect(recordAudit).toHaveBeenCalledWith(expect.anything(), {
+        action: 'server.create',
+        targetType: 'server',
+        targetId: newServer.id,
+        targetLabel: 'New Plex',
+        after: { type: 'plex', url: 'http://plex.local:32400' },
+      });
     });
 
     it('creates a new Jellyfin server for owner', async () => {
@@ -381,7 +396,7 @@ describe('Server Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('servers:manage');
     });
 
     it('rejects duplicate server URL', async () => {
@@ -516,7 +531,7 @@ describe('Server Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('servers:manage');
     });
 
     it('returns 404 when server not found', async () => {
@@ -549,6 +564,13 @@ describe('Server Routes', () => {
 
       expect(response.statusCode).toBe(200);
       expect(response.json().success).toBe(true);
+      expect(recordAudit).toHaveBeenCalledWith(expect.anything(), {
+        action: 'server.delete',
+        targetType: 'server',
+        targetId: mockServer.id,
+        targetLabel: mockServer.name,
+        before: { type: 'plex', url: mockServer.url },
+      });
     });
 
     it('rejects guest deleting server', async () => {
@@ -889,4 +911,186 @@ describe('Server Routes', () => {
       expect(response.statusCode).toBe(400);
     });
   });
+
+  describe('GET /servers/:id/resources', () => {
+    const range = 'startDate=2024-03-10T00:00:00.000Z&endDate=2024-03-10T06:00:00.000Z';
+
+    it('returns bucketed samples', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbSelectLimit([{ type: 'plex' }]);
+      vi.mocked(db.execute).mockResolvedValue({
+        rows: [
+          {
+            bucket: new Date('2024-03-10T00:00:00.000Z'),
+            host_cpu: '42.345',
+            process_cpu: 20,
+            host_memory: '60',
+            process_memory: null,
+            stream_count: 3,
+            transcode_count: 2,
+            bandwidth_kbps: 18000,
+          },
+        ],
+      } as never);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${mockServer.id}/resources?${range}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        serverId: mockServer.id,
+        bucketSeconds: 60,
+        resourceUsageSupported: true,
+        data: [
+          {
+            at: '2024-03-10T00:00:00.000Z',
+            hostCpuUtilization: 42.3,
+            processCpuUtilization: 20,
+            hostMemoryUtilization: 60,
+            processMemoryUtilization: null,
+            streamCount: 3,
+            transcodeCount: 2,
+            bandwidthKbps: 18000,
+          },
+        ],
+      });
+    });
+
+    it('widens buckets for long ranges and reports missing CPU support', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbSelectLimit([{ type: 'jellyfin' }]);
+      vi.mocked(db.execute).mockResolvedValue({ rows: [] } as never);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${mockServer.id}/resources?startDate=2024-03-01T00:00:00.000Z&endDate=2024-03-08T00:00:00.000Z`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      // 7 days / 500 points = 1209.6s, rounded up to whole minutes
+      expect(response.json()).toMatchObject({ bucketSeconds: 1260, resourceUsageSupported: false });
+    });
+
+    it('rejects ranges longer than the retention period', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${mockServer.id}/resources?startDate=2024-01-01T00:00:00.000Z&endDate=2024-03-01T00:00:00.000Z`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toContain('cannot exceed');
+    });
+
+    it('rejects servers the user cannot access', async () => {
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${mockServer.id}/resources?${range}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(db.execute).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for non-existent server', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbSelectLimit([]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${randomUUID()}/resources?${range}`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('inbound webhook secret', () => {
+    it('returns the current secret for owner', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbSelectLimit([{ webhookSecret: 'existing-secret' }]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${mockServer.id}/webhook`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ secret: 'existing-secret' });
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/servers/${mockServer.id}/webhook`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('generates a new secret', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbSelectLimit([{ type: 'plex' }]);
+      const updateChain = mockDbUpdate();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/servers/${mockServer.id}/webhook/regenerate`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { secret } = response.json();
+      expect(secret).toMatch(/^[\w-]{32}$/);
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ webhookSecret: secret })
+      );
+    });
+
+    it('rejects Subsonic servers', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbSelectLimit([{ type: 'subsonic' }]);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/servers/${mockServer.id}/webhook/regenerate`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('disables webhooks', async () => {
+      app = await buildTestApp(ownerUser);
+      const updateChain = mockDbUpdateReturning([{ id: mockServer.id }]);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/servers/${mockServer.id}/webhook`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ webhookSecret: null })
+      );
+    });
+
+    it('returns 404 when disabling for a missing server', async () => {
+      app = await buildTestApp(ownerUser);
+      mockDbUpdateReturning([]);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/servers/${randomUUID()}/webhook`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
 });
@@ -21,8 +21,13 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+vi.mock('../../services/auditLog.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
 // Import mocked modules
 import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/auditLog.js';
 import { settingsRoutes } from '../settings.js';
 
 // Helper to create DB chain mocks
@@ -83,11 +88,6 @@ const viewerUser: AuthUser = {
 const mockSettingsRow = {
   id: 1,
   allowGuestAccess: false,
-  discordWebhookUrl: 'https://discord.com/api/webhooks/123',
-  customWebhookUrl: 'https://example.com/webhook',
-  webhookFormat: 'json' as const,
-  ntfyTopic: null,
-  ntfyAuthToken: null,
   pollerEnabled: true,
   pollerIntervalMs: 15000,
   tautulliUrl: 'http://localhost:8181',
@@ -121,7 +121,8 @@ describe('Settings Routes', () => {
       expect(response.statusCode).toBe(200);
       const body = response.json();
       expect(body.allowGuestAccess).toBe(false);
-      expect(body.discordWebhookUrl).toBe('https://discord.com/api/webhooks/123');
+      // Notification agents are configured as destinations, not settings
+      expect(body).not.toHaveProperty('discordWebhookUrl');
       expect(body.pollerEnabled).toBe(true);
       expect(body.pollerIntervalMs).toBe(15000);
       expect(body.externalUrl).toBe('https://tracearr.example.com');
@@ -169,8 +170,6 @@ describe('Settings Routes', () => {
       const defaultSettings = {
         id: 1,
         allowGuestAccess: false,
-        discordWebhookUrl: null,
-        customWebhookUrl: null,
         pollerEnabled: true,
         pollerIntervalMs: 15000,
         tautulliUrl: null,
@@ -200,23 +199,7 @@ describe('Settings Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
-    });
-
-    it('returns webhook format settings', async () => {
-      app = await buildTestApp(ownerUser);
-
-      mockDbSelectLimit([{ ...mockSettingsRow, webhookFormat: 'ntfy', ntfyTopic: 'my-topic' }]);
-
-      const response = await app.inject({
-        method: 'GET',
-        url: '/settings',
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('ntfy');
-      expect(body.ntfyTopic).toBe('my-topic');
+      expect(response.json().message).toContain('settings:write');
     });
   });
 
@@ -259,46 +242,6 @@ describe('Settings Routes', () => {
       expect(body.allowGuestAccess).toBe(true);
     });
 
-    it('updates webhook URLs', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    discordWebhookUrl: 'https://new-discord-webhook.com',
-                    customWebhookUrl: 'https://new-custom-webhook.com',
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          discordWebhookUrl: 'https://new-discord-webhook.com',
-          customWebhookUrl: 'https://new-custom-webhook.com',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.discordWebhookUrl).toBe('https://new-discord-webhook.com');
-      expect(body.customWebhookUrl).toBe('https://new-custom-webhook.com');
-    });
-
     it('updates poller settings', async () => {
       app = await buildTestApp(ownerUser);
 
@@ -377,6 +320,74 @@ describe('Settings Routes', () => {
       const body = response.json();
       expect(body.tautulliUrl).toBe('http://tautulli:8181');
       expect(body.tautulliApiKey).toBe('********'); // Should be masked
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'settings.update',
+          targetType: 'settings',
+          before: expect.objectContaining({
+            tautulliUrl: 'http://localhost:8181',
+            tautulliApiKey: '********',
+          }),
+          after: expect.objectContaining({
+            tautulliUrl: 'http://tautulli:8181',
+            tautulliApiKey: '******** (changed)',
+          }),
+        })
+      );
+      const entry = vi.mocked(recordAudit).mock.calls[0]![1];
+      expect(JSON.stringify(entry)).not.toContain('api-key');
+    });
+
+    it('keeps the stored OIDC client secret when the mask is sent back', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const oidcRow = {
+        ...mockSettingsRow,
+        oidcEnabled: true,
+        oidcDiscoveryUrl: 'https://auth.example.com',
+        oidcClientId: 'tracearr',
+        oidcClientSecret: 'client-secret',
+        oidcScopes: 'openid profile email',
+        oidcRoleClaim: 'groups',
+        oidcRoleMapping: [],
+        oidcDefaultRole: null,
+        oidcAutoProvision: false,
+        oidcLinkOwner: false,
+      };
+      mockDbSelectLimit([oidcRow]);
+      const updateChain = mockDbUpdate();
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: '/settings',
+        payload: {
+          oidcDiscoveryUrl: 'https://auth.example.com/',
+          oidcClientSecret: '********',
+          oidcRoleMapping: [{ value: 'tracearr-admins', role: 'admin' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const updateData = updateChain.set.mock.calls[0]![0];
+      expect(updateData).not.toHaveProperty('oidcClientSecret');
+      expect(updateData.oidcDiscoveryUrl).toBe('https://auth.example.com');
+      expect(updateData.oidcRoleMapping).toEqual([{ value: 'tracearr-admins', role: 'admin' }]);
+      expect(response.json().oidcClientSecret).toBe('********');
+      // The stored row did not change, so nothing is audited
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+
+    it('rejects OIDC role mappings to the owner role', async () => {
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: '/settings',
+        payload: { oidcRoleMapping: [{ value: 'admins', role: 'owner' }] },
+      });
+
+      expect(response.statusCode).toBe(400);
     });
 
     it('updates network settings and normalizes externalUrl', async () => {
@@ -467,7 +478,7 @@ describe('Settings Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.json().message).toContain('settings:write');
     });
 
     it('rejects invalid request body', async () => {
@@ -507,512 +518,5 @@ describe('Settings Routes', () => {
       // Should still update the updatedAt timestamp
       expect(db.update).toHaveBeenCalled();
     });
-
-    it('clears webhook URLs when set to null', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    discordWebhookUrl: null,
-                    customWebhookUrl: null,
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          discordWebhookUrl: null,
-          customWebhookUrl: null,
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.discordWebhookUrl).toBe(null);
-      expect(body.customWebhookUrl).toBe(null);
-    });
-
-    it('updates webhook format to ntfy', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    webhookFormat: 'ntfy',
-                    ntfyTopic: 'tracearr-alerts',
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'ntfy',
-          ntfyTopic: 'tracearr-alerts',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('ntfy');
-      expect(body.ntfyTopic).toBe('tracearr-alerts');
-    });
-
-    it('updates webhook format to apprise', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    webhookFormat: 'apprise',
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'apprise',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('apprise');
-    });
-
-    it('rejects invalid webhook format', async () => {
-      app = await buildTestApp(ownerUser);
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'invalid-format',
-        },
-      });
-
-      expect(response.statusCode).toBe(400);
-    });
-
-    it('clears ntfy topic when set to null', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [{ ...mockSettingsRow, ntfyTopic: 'old-topic' }]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    ntfyTopic: null,
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          ntfyTopic: null,
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyTopic).toBe(null);
-    });
-
-    it('updates ntfy auth token', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    webhookFormat: 'ntfy',
-                    ntfyTopic: 'tracearr',
-                    ntfyAuthToken: 'tk_secret_token_123',
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'ntfy',
-          ntfyTopic: 'tracearr',
-          ntfyAuthToken: 'tk_secret_token_123',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('ntfy');
-      expect(body.ntfyTopic).toBe('tracearr');
-      // Auth token should be masked in response
-      expect(body.ntfyAuthToken).toBe('********');
-    });
-
-    it('masks ntfy auth token in GET response', async () => {
-      app = await buildTestApp(ownerUser);
-
-      mockDbSelectLimit([
-        {
-          ...mockSettingsRow,
-          webhookFormat: 'ntfy',
-          ntfyTopic: 'my-topic',
-          ntfyAuthToken: 'tk_secret_token_456',
-        },
-      ]);
-
-      const response = await app.inject({
-        method: 'GET',
-        url: '/settings',
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyAuthToken).toBe('********');
-    });
-
-    it('returns null for ntfy auth token when not set', async () => {
-      app = await buildTestApp(ownerUser);
-
-      mockDbSelectLimit([
-        {
-          ...mockSettingsRow,
-          webhookFormat: 'ntfy',
-          ntfyTopic: 'my-topic',
-          ntfyAuthToken: null,
-        },
-      ]);
-
-      const response = await app.inject({
-        method: 'GET',
-        url: '/settings',
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyAuthToken).toBe(null);
-    });
-
-    it('clears ntfy auth token when set to null', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [{ ...mockSettingsRow, ntfyAuthToken: 'tk_old_token' }]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    ntfyAuthToken: null,
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          ntfyAuthToken: null,
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyAuthToken).toBe(null);
-    });
-
-    it('updates webhook format to pushover', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [
-                  {
-                    ...mockSettingsRow,
-                    webhookFormat: 'pushover',
-                    pushoverUserKey: 'pushover-user-key',
-                    pushoverApiToken: 'pushover-api-token',
-                  },
-                ]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'pushover',
-          pushoverUserKey: 'pushover-user-key',
-          pushoverApiToken: 'pushover-api-token',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('pushover');
-      expect(body.pushoverUserKey).toBe('pushover-user-key');
-      expect(body.pushoverApiToken).toBe('********');
-    });
-  });
-
-  it('clears pushover fields when set to null', async () => {
-    app = await buildTestApp(ownerUser);
-
-    let selectCount = 0;
-    vi.mocked(db.select).mockImplementation(() => {
-      selectCount++;
-      const chain = {
-        from: vi.fn().mockReturnThis(),
-        where: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockResolvedValue(
-          selectCount === 1
-            ? [
-                {
-                  ...mockSettingsRow,
-                  pushoverUserKey: 'pushover-user-key',
-                  pushoverApiToken: 'pushover-api-token',
-                },
-              ]
-            : [
-                {
-                  ...mockSettingsRow,
-                  pushoverUserKey: null,
-                  pushoverApiToken: null,
-                },
-              ]
-        ),
-      };
-      return chain as never;
-    });
-    mockDbUpdate();
-
-    const response = await app.inject({
-      method: 'PATCH',
-      url: '/settings',
-      payload: {
-        pushoverUserKey: null,
-        pushoverApiToken: null,
-      },
-    });
-
-    expect(response.statusCode).toBe(200);
-    const body = response.json();
-    expect(body.pushoverUserKey).toBe(null);
-    expect(body.pushoverApiToken).toBe(null);
-  });
-
-  it('updates pushover api token', async () => {
-    app = await buildTestApp(ownerUser);
-
-    let selectCount = 0;
-    vi.mocked(db.select).mockImplementation(() => {
-      selectCount++;
-      const chain = {
-        from: vi.fn().mockReturnThis(),
-        where: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockResolvedValue(
-          selectCount === 1
-            ? [mockSettingsRow]
-            : [
-                {
-                  ...mockSettingsRow,
-                  webhookFormat: 'pushover',
-                  pushoverUserKey: 'pushover-user-key',
-                  pushoverApiToken: 'pushover-api-token',
-                },
-              ]
-        ),
-      };
-      return chain as never;
-    });
-    mockDbUpdate();
-
-    const response = await app.inject({
-      method: 'PATCH',
-      url: '/settings',
-      payload: {
-        webhookFormat: 'pushover',
-        pushoverUserKey: 'pushover-user-key',
-        pushoverApiToken: 'pushover-api-token',
-      },
-    });
-
-    expect(response.statusCode).toBe(200);
-    const body = response.json();
-    expect(body.webhookFormat).toBe('pushover');
-    expect(body.pushoverUserKey).toBe('pushover-user-key');
-    // API token should be masked in response
-    expect(body.pushoverApiToken).toBe('********');
-  });
-
-  it('masks pushover api token in GET response', async () => {
-    app = await buildTestApp(ownerUser);
-
-    mockDbSelectLimit([
-      {
-        ...mockSettingsRow,
-        webhookFormat: 'pushover',
-        pushoverUserKey: 'pushover-user-key',
-        pushoverApiToken: 'pushover-api-token',
-      },
-    ]);
-
-    const response = await app.inject({
-      method: 'GET',
-      url: '/settings',
-    });
-
-    expect(response.statusCode).toBe(200);
-    const body = response.json();
-    expect(body.pushoverApiToken).toBe('********');
-  });
-
-  it('returns null for pushover api token when not set', async () => {
-    app = await buildTestApp(ownerUser);
-
-    mockDbSelectLimit([
-      {
-        ...mockSettingsRow,
-        webhookFormat: 'pushover',
-        pushoverUserKey: 'pushover-user-key',
-        pushoverApiToken: null,
-      },
-    ]);
-
-    const response = await app.inject({
-      method: 'GET',
-      url: '/settings',
-    });
-
-    expect(response.statusCode).toBe(200);
-    const body = response.json();
-    expect(body.pushoverApiToken).toBe(null);
-  });
-
-  it('clears pushover api token when set to null', async () => {
-    app = await buildTestApp(ownerUser);
-
-    let selectCount = 0;
-    vi.mocked(db.select).mockImplementation(() => {
-      selectCount++;
-      const chain = {
-        from: vi.fn().mockReturnThis(),
-        where: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockResolvedValue(
-          selectCount === 1
-            ? [{ ...mockSettingsRow, pushoverApiToken: 'pushover-api-token' }]
-            : [
-                {
-                  ...mockSettingsRow,
-                  pushoverApiToken: null,
-                },
-              ]
-        ),
-      };
-      return chain as never;
-    });
-    mockDbUpdate();
-
-    const response = await app.inject({
-      method: 'PATCH',
-      url: '/settings',
-      payload: {
-        pushoverApiToken: null,
-      },
-    });
-
-    expect(response.statusCode).toBe(200);
-    const body = response.json();
-    expect(body.pushoverApiToken).toBe(null);
   });
 });
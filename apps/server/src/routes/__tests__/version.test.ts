@@ -0,0 +1,77 @@
+/**
+ * Version route tests
+ *
+ * Tests POST /version/check permission checks. The version check queue is mocked.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+vi.mock('../../jobs/versionCheckQueue.js', () => ({
+  getCurrentVersion: vi.fn(),
+  getCurrentTag: vi.fn(),
+  getCurrentCommit: vi.fn(),
+  getBuildDate: vi.fn(),
+  getCachedLatestVersion: vi.fn(),
+  isNewerVersion: vi.fn(),
+  isPrerelease: vi.fn(),
+  forceVersionCheck: vi.fn(),
+}));
+
+import { forceVersionCheck } from '../../jobs/versionCheckQueue.js';
+import { versionRoutes } from '../version.js';
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(versionRoutes, { prefix: '/version' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+describe('Version Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+  });
+
+  describe('POST /version/check', () => {
+    it('queues a version check for admins', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({ method: 'POST', url: '/version/check' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ message: 'Version check queued' });
+      expect(forceVersionCheck).toHaveBeenCalled();
+    });
+
+    it.each(['viewer', 'moderator'] as const)('rejects %s users', async (role) => {
+      app = await buildTestApp(createUser(role));
+
+      const response = await app.inject({ method: 'POST', url: '/version/check' });
+
+      expect(response.statusCode).toBe(403);
+      expect(forceVersionCheck).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -277,6 +277,28 @@ function createViolationExistsCheckMock(resolvedValue: unknown) {
   };
 }
 
+/**
+ * Helper to create tx mocks for the trust score row lock and history insert
+ */
+function createTrustScoreTxMocks(trustScore = 80) {
+  return {
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          for: vi.fn().mockReturnValue({
+            limit: vi
+              .fn()
+              .mockResolvedValue([{ trustScore, serverId: randomUUID(), username: 'testuser' }]),
+          }),
+        }),
+      }),
+    }),
+    insert: vi.fn().mockReturnValue({
+      values: vi.fn().mockResolvedValue(undefined),
+    }),
+  };
+}
+
 describe('Violation Routes', () => {
   let app: FastifyInstance;
   let mockDb: any;
@@ -705,6 +727,7 @@ describe('Violation Routes', () => {
         .fn()
         .mockImplementation(async (callback: (tx: any) => Promise<void>) => {
           const txMock = {
+            ...createTrustScoreTxMocks(),
             delete: vi.fn().mockReturnValue({
               where: vi.fn().mockResolvedValue(undefined),
             }),
@@ -757,10 +780,13 @@ describe('Violation Routes', () => {
         }),
       });
 
+      const trustScoreTxMocks = createTrustScoreTxMocks();
+
       mockDb.transaction = vi
         .fn()
         .mockImplementation(async (callback: (tx: any) => Promise<void>) => {
           const txMock = {
+            ...trustScoreTxMocks,
             delete: deleteMock,
             update: updateMock,
           };
@@ -778,6 +804,8 @@ describe('Violation Routes', () => {
       // Verify delete and update were called in transaction
       expect(deleteMock).toHaveBeenCalled();
       expect(updateMock).toHaveBeenCalled();
+      // Verify the restore was recorded in the trust score history
+      expect(trustScoreTxMocks.insert).toHaveBeenCalled();
     });
 
     it('should reject delete for non-owner', async () => {
@@ -0,0 +1,207 @@
+/**
+ * Webhook Delivery routes unit tests
+ *
+ * Tests the API endpoints for the JSON webhook delivery log:
+ * - GET /webhook-deliveries - Paginated delivery list
+ * - POST /webhook-deliveries/:id/redeliver - Send a delivery again
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+const { mockRedeliverWebhook } = vi.hoisted(() => ({
+  mockRedeliverWebhook: vi.fn(),
+}));
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/notifications/webhookDelivery.js', () => ({
+  redeliverWebhook: mockRedeliverWebhook,
+}));
+
+import { db } from '../../db/client.js';
+import { webhookDeliveryRoutes } from '../webhookDeliveries.js';
+
+function createMockDelivery(overrides?: Record<string, unknown>) {
+  return {
+    id: randomUUID(),
+    event: 'server_down',
+    url: 'https://hooks.example.com/tracearr',
+    payload: '{"event":"server_down"}',
+    status: 'failed',
+    attempts: 6,
+    statusCode: 500,
+    latencyMs: 120,
+    responseSnippet: 'Internal Server Error',
+    error: 'HTTP 500',
+    destinationId: null,
+    redeliveryOf: null,
+    createdAt: new Date(),
+    lastAttemptAt: new Date(),
+    deliveredAt: null,
+    ...overrides,
+  };
+}
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(webhookDeliveryRoutes, { prefix: '/settings/notifications' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+describe('Webhook Delivery Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+  });
+
+  describe('GET /settings/notifications/webhook-deliveries', () => {
+    function mockDbSelect(rows: unknown[], total: number) {
+      const mockWhere = vi.fn().mockReturnValue({
+        orderBy: vi.fn().mockReturnValue({
+          limit: vi.fn().mockReturnValue({
+            offset: vi.fn().mockResolvedValue(rows),
+          }),
+        }),
+      });
+      vi.mocked(db.select)
+        .mockReturnValueOnce({ from: vi.fn().mockReturnValue({ where: mockWhere }) } as never)
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([{ count: total }]) }),
+        } as never);
+      return mockWhere;
+    }
+
+    it('returns paginated deliveries for owner', async () => {
+      mockDbSelect([createMockDelivery(), createMockDelivery({ status: 'success' })], 45);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/webhook-deliveries?page=2&pageSize=20',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data).toHaveLength(2);
+      expect(body.data[0]).toMatchObject({ status: 'failed', statusCode: 500, attempts: 6 });
+      expect(body).toMatchObject({ page: 2, pageSize: 20, total: 45, totalPages: 3 });
+    });
+
+    it('filters by status', async () => {
+      const mockWhere = mockDbSelect([], 0);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/webhook-deliveries?status=failed',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockWhere.mock.calls[0]![0]).toBeDefined();
+    });
+
+    it('rejects invalid status filters', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/webhook-deliveries?status=lost',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects users without notifications:manage', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/webhook-deliveries',
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(db.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /settings/notifications/webhook-deliveries/:id/redeliver', () => {
+    it('redelivers the original delivery', async () => {
+      const originalId = randomUUID();
+      mockRedeliverWebhook.mockResolvedValue(
+        createMockDelivery({ status: 'success', attempts: 1, redeliveryOf: originalId })
+      );
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/webhook-deliveries/${originalId}/redeliver`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'success', redeliveryOf: originalId });
+      expect(mockRedeliverWebhook).toHaveBeenCalledWith(originalId);
+    });
+
+    it('returns 404 when the delivery does not exist', async () => {
+      mockRedeliverWebhook.mockResolvedValue(null);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/webhook-deliveries/${randomUUID()}/redeliver`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('rejects invalid delivery IDs', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/webhook-deliveries/not-a-uuid/redeliver',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockRedeliverWebhook).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-owner access with 403', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/webhook-deliveries/${randomUUID()}/redeliver`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockRedeliverWebhook).not.toHaveBeenCalled();
+    });
+  });
+});
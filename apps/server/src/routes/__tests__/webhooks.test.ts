@@ -0,0 +1,269 @@
+/**
+ * Inbound webhook route tests
+ *
+ * Tests POST /webhooks/:serverId/:secret:
+ * - Secret validation
+ * - Jellyfin Webhook plugin JSON payloads
+ * - Plex multipart payloads (including other servers on the same account)
+ * - Emby JSON and multipart payloads
+ * - Non-playback notifications are ignored
+ * - Secrets are redacted from logged URLs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../jobs/poller/index.js', async () => {
+  const mapper = await import('../../jobs/poller/webhookMapper.js');
+  return {
+    ...mapper,
+    processPushedSessions: vi.fn().mockResolvedValue(undefined),
+  };
+});
+
+import { db } from '../../db/client.js';
+import { processPushedSessions } from '../../jobs/poller/index.js';
+import { redactWebhookUrl, webhookRoutes } from '../webhooks.js';
+
+const serverId = randomUUID();
+const SECRET = 'test-webhook-secret';
+
+function mockServerRow(row: Record<string, unknown> | null) {
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockResolvedValue(row ? [row] : []),
+  };
+  vi.mocked(db.select).mockReturnValue(chain as never);
+}
+
+function plexServer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: serverId,
+    name: 'Plex',
+    type: 'plex',
+    machineIdentifier: 'plex-machine-1',
+    webhookSecret: SECRET,
+    ...overrides,
+  };
+}
+
+function multipartBody(
+  payload: unknown,
+  fieldname = 'payload'
+): { body: string; contentType: string } {
+  const boundary = '----tracearr-test';
+  const body = [
+    `--${boundary}`,
+    `Content-Disposition: form-data; name="${fieldname}"`,
+    '',
+    JSON.stringify(payload),
+    `--${boundary}`,
+    'Content-Disposition: form-data; name="thumb"; filename="thumb.jpg"',
+    'Content-Type: image/jpeg',
+    '',
+    'not-really-a-jpeg',
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+  await app.register(webhookRoutes, { prefix: '/webhooks' });
+  return app;
+}
+
+describe('Inbound webhook routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    app = await buildTestApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('rejects an unknown server', async () => {
+    mockServerRow(null);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      payload: { NotificationType: 'PlaybackStart' },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(processPushedSessions).not.toHaveBeenCalled();
+  });
+
+  it('rejects a wrong secret', async () => {
+    mockServerRow(plexServer());
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/wrong-secret`,
+      payload: {},
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('rejects servers with webhooks disabled', async () => {
+    mockServerRow(plexServer({ webhookSecret: null }));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      payload: {},
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('processes Jellyfin playback notifications', async () => {
+    mockServerRow(plexServer({ type: 'jellyfin', machineIdentifier: null }));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      payload: {
+        NotificationType: 'PlaybackStart',
+        UserId: 'user-1',
+        NotificationUsername: 'alice',
+        ItemId: 'item-1',
+        ItemType: 'Movie',
+        Name: 'Heat',
+      },
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({ accepted: true, event: 'start' });
+    expect(processPushedSessions).toHaveBeenCalledWith(serverId);
+  });
+
+  it('ignores non-playback notifications', async () => {
+    mockServerRow(plexServer({ type: 'jellyfin', machineIdentifier: null }));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      payload: { NotificationType: 'ItemAdded' },
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({ accepted: false });
+    expect(processPushedSessions).not.toHaveBeenCalled();
+  });
+
+  it('processes Plex multipart notifications', async () => {
+    mockServerRow(plexServer());
+    const { body, contentType } = multipartBody({
+      event: 'media.stop',
+      Account: { id: 1, title: 'alice' },
+      Server: { uuid: 'plex-machine-1' },
+      Metadata: { ratingKey: '42', type: 'movie', title: 'Heat' },
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      headers: { 'content-type': contentType },
+      payload: body,
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({ accepted: true, event: 'stop' });
+    expect(processPushedSessions).toHaveBeenCalledWith(serverId);
+  });
+
+  it('ignores Plex notifications from another server on the account', async () => {
+    mockServerRow(plexServer());
+    const { body, contentType } = multipartBody({
+      event: 'media.play',
+      Server: { uuid: 'other-machine' },
+      Metadata: { ratingKey: '42', type: 'movie', title: 'Heat' },
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      headers: { 'content-type': contentType },
+      payload: body,
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({ accepted: false });
+    expect(processPushedSessions).not.toHaveBeenCalled();
+  });
+
+  it('processes Emby JSON notifications', async () => {
+    mockServerRow(plexServer({ type: 'emby', machineIdentifier: null }));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      payload: { Event: 'playback.unpause', Server: { Id: 'emby-server-1' } },
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({ accepted: true, event: 'resume' });
+    expect(processPushedSessions).toHaveBeenCalledWith(serverId);
+  });
+
+  it('processes Emby multipart notifications', async () => {
+    mockServerRow(plexServer({ type: 'emby', machineIdentifier: null }));
+    const { body, contentType } = multipartBody({ Event: 'playback.stop' }, 'data');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      headers: { 'content-type': contentType },
+      payload: body,
+    });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json()).toEqual({ accepted: true, event: 'stop' });
+  });
+
+  it('rejects a malformed Plex payload', async () => {
+    mockServerRow(plexServer());
+    const { body, contentType } = multipartBody('unused');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/webhooks/${serverId}/${SECRET}`,
+      headers: { 'content-type': contentType },
+      payload: body.replace('"unused"', '{not json'),
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
+
+describe('redactWebhookUrl', () => {
+  it('hides the secret in receiver URLs', () => {
+    expect(redactWebhookUrl(`/api/v1/webhooks/${serverId}/${SECRET}`)).toBe(
+      `/api/v1/webhooks/${serverId}/[redacted]`
+    );
+    expect(redactWebhookUrl(`/webhooks/${serverId}/${SECRET}?x=1`)).toBe(
+      `/webhooks/${serverId}/[redacted]?x=1`
+    );
+  });
+
+  it('leaves other URLs alone', () => {
+    expect(redactWebhookUrl('/api/v1/servers/abc/webhook')).toBe('/api/v1/servers/abc/webhook');
+  });
+});
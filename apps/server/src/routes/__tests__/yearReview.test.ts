@@ -0,0 +1,230 @@
+/**
+ * Year in Review route tests
+ *
+ * Tests the admin endpoints (listing, generation, opt-out) and the public
+ * share endpoint. The service layer and maintenance queue are mocked.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser, SharedYearReview } from '@tracearr/shared';
+
+vi.mock('../../services/yearReview.js', () => ({
+  getSharedYearReview: vi.fn(),
+  listYearReviewUsers: vi.fn(),
+  setYearReviewOptOut: vi.fn(),
+}));
+
+vi.mock('../../jobs/maintenanceQueue.js', () => ({
+  enqueueMaintenanceJob: vi.fn(),
+}));
+
+import {
+  getSharedYearReview,
+  listYearReviewUsers,
+  setYearReviewOptOut,
+} from '../../services/yearReview.js';
+import { enqueueMaintenanceJob } from '../../jobs/maintenanceQueue.js';
+import { yearReviewRoutes } from '../yearReview.js';
+
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: unknown) => {
+    (request as { user: AuthUser }).user = authUser;
+  });
+
+  await app.register(yearReviewRoutes, { prefix: '/year-review' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+describe('Year in Review Routes', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app?.close();
+    vi.clearAllMocks();
+  });
+
+  describe('GET /year-review', () => {
+    it('lists users for the requested year', async () => {
+      const user = createUser('admin');
+      vi.mocked(listYearReviewUsers).mockResolvedValue({ data: [], error: null });
+      app = await buildTestApp(user);
+
+      const response = await app.inject({ method: 'GET', url: '/year-review?year=2024' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [] });
+      expect(listYearReviewUsers).toHaveBeenCalledWith(user, 2024, undefined);
+    });
+
+    it.each(['viewer', 'moderator'] as const)('rejects %s users', async (role) => {
+      app = await buildTestApp(createUser(role));
+
+      const response = await app.inject({ method: 'GET', url: '/year-review?year=2024' });
+
+      expect(response.statusCode).toBe(403);
+      expect(listYearReviewUsers).not.toHaveBeenCalled();
+    });
+
+    it('rejects servers the user cannot access', async () => {
+      vi.mocked(listYearReviewUsers).mockResolvedValue({
+        data: [],
+        error: 'You do not have access to this server',
+      });
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/year-review?year=2024&serverId=${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('requires a valid year', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({ method: 'GET', url: '/year-review?year=abc' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /year-review/generate', () => {
+    it('queues a maintenance job with the year and timezone', async () => {
+      const owner = createUser('owner');
+      vi.mocked(enqueueMaintenanceJob).mockResolvedValue('job-1');
+      app = await buildTestApp(owner);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/year-review/generate',
+        payload: { year: 2024, timezone: 'Europe/Berlin' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'queued', jobId: 'job-1' });
+      expect(enqueueMaintenanceJob).toHaveBeenCalledWith('generate_year_reviews', owner.userId, {
+        year: 2024,
+        timezone: 'Europe/Berlin',
+      });
+    });
+
+    it('returns 409 when another maintenance job is running', async () => {
+      vi.mocked(enqueueMaintenanceJob).mockRejectedValue(
+        new Error('A maintenance job is already in progress')
+      );
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/year-review/generate',
+        payload: { year: 2024 },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('rejects users without permission', async () => {
+      app = await buildTestApp(createUser('viewer'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/year-review/generate',
+        payload: { year: 2024 },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(enqueueMaintenanceJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /year-review/users/:id/opt-out', () => {
+    it('updates the opt-out', async () => {
+      const serverUserId = randomUUID();
+      vi.mocked(setYearReviewOptOut).mockResolvedValue(true);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/year-review/users/${serverUserId}/opt-out`,
+        payload: { optOut: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true, optOut: true });
+      expect(setYearReviewOptOut).toHaveBeenCalledWith(serverUserId, true);
+    });
+
+    it('returns 404 for an unknown user', async () => {
+      vi.mocked(setYearReviewOptOut).mockResolvedValue(false);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/year-review/users/${randomUUID()}/opt-out`,
+        payload: { optOut: false },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/year-review/users/${randomUUID()}/opt-out`,
+        payload: { optOut: true },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(setYearReviewOptOut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /year-review/shared/:token', () => {
+    it('returns the shared review without authentication', async () => {
+      const review = {
+        username: 'alice',
+        identityName: 'Alice',
+        serverName: 'Home Plex',
+        stats: { year: 2024 },
+        generatedAt: '2025-01-01T00:00:00.000Z',
+      } as SharedYearReview;
+      vi.mocked(getSharedYearReview).mockResolvedValue(review);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({ method: 'GET', url: '/year-review/shared/abc.def' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(review);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(getSharedYearReview).toHaveBeenCalledWith('abc.def');
+    });
+
+    it('returns 404 for invalid tokens', async () => {
+      vi.mocked(getSharedYearReview).mockResolvedValue(null);
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({ method: 'GET', url: '/year-review/shared/nope' });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * API key routes - Named, scoped keys for the public API
+ *
+ * Requires api_keys:manage, which only the owner holds: keys read every server,
+ * so other roles can neither create keys nor use keys created before a demotion.
+ *
+ * - GET /settings/api-keys - List the owner's keys
+ * - POST /settings/api-keys - Create a key (the token is only returned here)
+ * - DELETE /settings/api-keys/:id - Revoke a key
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, desc, eq } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import {
+  apiKeyIdParamSchema,
+  createApiKeySchema,
+  type ApiKey,
+  type CreatedApiKey,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { apiKeys, servers } from '../db/schema.js';
+import { hashApiToken, PUBLIC_API_TOKEN_PREFIX } from '../plugins/auth.js';
+import { recordAudit } from '../services/auditLog.js';
+import { requirePermission } from '../utils/permissions.js';
+
+// Characters of the token kept to tell keys apart ("trr_pub_" + 4)
+const TOKEN_PREFIX_LENGTH = 12;
+
+// API token format: trr_pub_<32 random bytes as base64url>
+function generateApiToken(): string {
+  const randomPart = randomBytes(32).toString('base64url');
+  return `${PUBLIC_API_TOKEN_PREFIX}${randomPart}`;
+}
+
+const apiKeyColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  tokenPrefix: apiKeys.tokenPrefix,
+  scopes: apiKeys.scopes,
+  serverId: apiKeys.serverId,
+  expiresAt: apiKeys.expiresAt,
+  lastUsedAt: apiKeys.lastUsedAt,
+  requestCount: apiKeys.requestCount,
+  createdAt: apiKeys.createdAt,
+};
+
+export const apiKeyRoutes: FastifyPluginAsync = async (app) => {
+  const requireKeyManagement = [app.authenticate, requirePermission('api_keys:manage')];
+
+  /**
+   * GET /settings/api-keys - List keys (newest first)
+   */
+  app.get('/', { preHandler: requireKeyManagement }, async (request) => {
+    const rows: ApiKey[] = await db
+      .select(apiKeyColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, request.user.userId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return { data: rows };
+  });
+
+  /**
+   * POST /settings/api-keys - Create a key
+   *
+   * Only a hash of the token is stored, so the response is the one chance to copy it.
+   */
+  app.post('/', { preHandler: requireKeyManagement }, async (request, reply) => {
+    const body = createApiKeySchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest(`Invalid request body: ${body.error.message}`);
+    }
+
+    const authUser = request.user;
+    const { name, scopes, serverId, expiresAt } = body.data;
+
+    if (serverId) {
+      const [server] = await db
+        .select({ id: servers.id })
+        .from(servers)
+        .where(eq(servers.id, serverId))
+        .limit(1);
+
+      if (!server) {
+        return reply.notFound('Server not found');
+      }
+    }
+
+    const token = generateApiToken();
+    const [row] = await db
+      .insert(apiKeys)
+      .values({
+        userId: authUser.userId,
+        name,
+        tokenHash: hashApiToken(token),
+        tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+        scopes: [...new Set(scopes)],
+        serverId,
+        expiresAt,
+      })
+      .returning(apiKeyColumns);
+
+    if (!row) {
+      return reply.internalServerError('Failed to create API key');
+    }
+
+    // The token itself is never written to the audit log
+    await recordAudit(request, {
+      action: 'api_key.create',
+      targetType: 'api_key',
+      targetId: row.id,
+      targetLabel: row.name,
+      after: { scopes: row.scopes, serverId: row.serverId, expiresAt: row.expiresAt },
+    });
+
+    const created: CreatedApiKey = { ...row, token };
+    return reply.code(201).send(created);
+  });
+
+  /**
+   * DELETE /settings/api-keys/:id - Revoke a key
+   */
+  app.delete('/:id', { preHandler: requireKeyManagement }, async (request, reply) => {
+    const params = apiKeyIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid API key ID');
+    }
+
+    const [row] = await db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.id, params.data.id), eq(apiKeys.userId, request.user.userId)))
+      .returning(apiKeyColumns);
+
+    if (!row) {
+      return reply.notFound('API key not found');
+    }
+
+    await recordAudit(request, {
+      action: 'api_key.revoke',
+      targetType: 'api_key',
+      targetId: row.id,
+      targetLabel: row.name,
+      before: { scopes: row.scopes, serverId: row.serverId, expiresAt: row.expiresAt },
+    });
+
+    return { success: true };
+  });
+};
@@ -0,0 +1,37 @@
+/**
+ * Audit Log routes - Record of administrative actions
+ *
+ * Web admin endpoints:
+ * - GET /audit-log - List entries (newest first), filterable by action, target, actor and date
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { auditLogQuerySchema, type AuditLogEntry, type PaginatedResponse } from '@tracearr/shared';
+import { listAuditLog } from '../services/auditLog.js';
+import { requirePermission } from '../utils/permissions.js';
+
+export const auditLogRoutes: FastifyPluginAsync = async (app) => {
+  const requireAuditRead = [app.authenticate, requirePermission('audit:read')];
+
+  /**
+   * GET /audit-log - List audit log entries
+   */
+  app.get('/', { preHandler: requireAuditRead }, async (request, reply) => {
+    const query = auditLogQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest('Invalid query parameters');
+    }
+
+    const { page, pageSize, ...filters } = query.data;
+    const { data, total } = await listAuditLog(filters, page, pageSize);
+
+    const response: PaginatedResponse<AuditLogEntry> = {
+      data,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    };
+    return response;
+  });
+};
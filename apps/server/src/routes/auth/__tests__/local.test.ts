@@ -195,7 +195,6 @@ describe('Local Auth Routes', () => {
           name: null,
           plexAccountId: null,
           thumbnail: null,
-          apiToken: null,
           aggregateTrustScore: 100,
           totalViolations: 0,
         }); // Owner exists
@@ -320,7 +319,6 @@ describe('Local Auth Routes', () => {
         name: null,
         plexAccountId: null,
         thumbnail: null,
-        apiToken: null,
         aggregateTrustScore: 100,
         totalViolations: 0,
       });
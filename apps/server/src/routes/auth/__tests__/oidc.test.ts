@@ -0,0 +1,421 @@
+/**
+ * OpenID Connect auth routes tests
+ *
+ * Tests the API endpoints for SSO sign-in:
+ * - GET /auth/oidc/config - SSO availability
+ * - POST /auth/oidc/login - Start sign-in
+ * - POST /auth/oidc/callback - Finish sign-in (email linking, provisioning, role mapping)
+ *
+ * The provider itself is covered against a mock issuer in services/__tests__/oidc.test.ts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import jwt from '@fastify/jwt';
+import { randomUUID } from 'node:crypto';
+import { REDIS_KEYS } from '@tracearr/shared';
+import type * as OidcService from '../../../services/oidc.js';
+
+// Mock dependencies before imports
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../../services/userService.js', () => ({
+  getUserByEmail: vi.fn(),
+  createUser: vi.fn(),
+  updateUser: vi.fn(),
+}));
+
+vi.mock('../../settings.js', () => ({
+  getOidcSettings: vi.fn(),
+}));
+
+vi.mock('../../../services/oidc.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof OidcService>()),
+  discoverProvider: vi.fn(),
+  buildAuthorizationUrl: vi.fn(),
+  authenticateWithCode: vi.fn(),
+}));
+
+// Import mocked modules
+import { db } from '../../../db/client.js';
+import { createUser, getUserByEmail, updateUser } from '../../../services/userService.js';
+import { getOidcSettings, type OidcSettings } from '../../settings.js';
+import {
+  authenticateWithCode,
+  buildAuthorizationUrl,
+  discoverProvider,
+  OidcError,
+  type OidcIdentity,
+} from '../../../services/oidc.js';
+import { oidcRoutes } from '../oidc.js';
+
+// Mock Redis client
+const mockRedis = {
+  getdel: vi.fn(),
+  setex: vi.fn(),
+};
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+  await app.register(jwt, {
+    secret: 'test-jwt-secret-must-be-32-chars-minimum',
+    sign: { algorithm: 'HS256' },
+  });
+
+  // Decorate app with mock Redis
+  app.decorate('redis', mockRedis as any);
+
+  await app.register(oidcRoutes, { prefix: '/auth' });
+
+  return app;
+}
+
+// Server access lookups made while issuing tokens (no grants, no servers)
+function mockServerAccess() {
+  const rows = Object.assign(Promise.resolve([]), { where: vi.fn().mockResolvedValue([]) });
+  vi.mocked(db.select).mockReturnValue({ from: vi.fn().mockReturnValue(rows) } as never);
+}
+
+function createSettings(overrides: Partial<OidcSettings> = {}): OidcSettings {
+  return {
+    oidcEnabled: true,
+    oidcDiscoveryUrl: 'https://auth.example.com/application/o/tracearr',
+    oidcClientId: 'tracearr',
+    oidcClientSecret: 'client-secret',
+    oidcScopes: 'openid profile email',
+    oidcRoleClaim: 'groups',
+    oidcRoleMapping: [
+      { value: 'tracearr-admins', role: 'admin' },
+      { value: 'family', role: 'viewer' },
+    ],
+    oidcDefaultRole: null,
+    oidcAutoProvision: false,
+    oidcLinkOwner: false,
+    ...overrides,
+  };
+}
+
+function createIdentity(overrides: Partial<OidcIdentity> = {}): OidcIdentity {
+  return {
+    subject: 'user-123',
+    email: 'alice@example.com',
+    emailVerified: true,
+    username: 'alice',
+    name: 'Alice',
+    picture: null,
+    claims: { sub: 'user-123', groups: ['family'] },
+    ...overrides,
+  };
+}
+
+function createUserRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: randomUUID(),
+    username: 'alice',
+    email: 'alice@example.com',
+    role: 'viewer',
+    ...overrides,
+  } as never;
+}
+
+const pendingLogin = {
+  nonce: 'nonce',
+  codeVerifier: 'verifier',
+  redirectUri: 'https://tracearr.example.com/auth/oidc-callback',
+};
+
+describe('OIDC Auth Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedis.getdel.mockReset();
+    mockRedis.setex.mockReset();
+    vi.mocked(getOidcSettings).mockResolvedValue(createSettings());
+    mockServerAccess();
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /auth/oidc/config', () => {
+    it('reports SSO as enabled when fully configured', async () => {
+      app = await buildTestApp();
+
+      const response = await app.inject({ method: 'GET', url: '/auth/oidc/config' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ enabled: true });
+    });
+
+    it('reports SSO as disabled without a client secret', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(createSettings({ oidcClientSecret: null }));
+      app = await buildTestApp();
+
+      const response = await app.inject({ method: 'GET', url: '/auth/oidc/config' });
+
+      expect(response.json()).toEqual({ enabled: false });
+    });
+  });
+
+  describe('POST /auth/oidc/login', () => {
+    it('stores the pending login and returns the authorization URL', async () => {
+      vi.mocked(discoverProvider).mockResolvedValue({} as never);
+      vi.mocked(buildAuthorizationUrl).mockReturnValue('https://auth.example.com/authorize?x=1');
+      app = await buildTestApp();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/oidc/login',
+        payload: { redirectUri: pendingLogin.redirectUri },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ authUrl: 'https://auth.example.com/authorize?x=1' });
+
+      const params = vi.mocked(buildAuthorizationUrl).mock.calls[0]![1];
+      const [key, ttl, stored] = mockRedis.setex.mock.calls[0]!;
+      expect(key).toBe(REDIS_KEYS.OIDC_STATE(params.state));
+      expect(ttl).toBe(600);
+      expect(JSON.parse(stored)).toEqual({
+        nonce: params.nonce,
+        codeVerifier: params.codeVerifier,
+        redirectUri: pendingLogin.redirectUri,
+      });
+    });
+
+    it('rejects sign-in when SSO is disabled', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(createSettings({ oidcEnabled: false }));
+      app = await buildTestApp();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/oidc/login',
+        payload: { redirectUri: pendingLogin.redirectUri },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(discoverProvider).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the provider is unreachable', async () => {
+      vi.mocked(discoverProvider).mockRejectedValue(new OidcError('unreachable'));
+      app = await buildTestApp();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/auth/oidc/login',
+        payload: { redirectUri: pendingLogin.redirectUri },
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(mockRedis.setex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /auth/oidc/callback', () => {
+    const callback = (appInstance: FastifyInstance) =>
+      appInstance.inject({
+        method: 'POST',
+        url: '/auth/oidc/callback',
+        payload: { code: 'auth-code', state: 'state-value' },
+      });
+
+    beforeEach(() => {
+      mockRedis.getdel.mockResolvedValue(JSON.stringify(pendingLogin));
+      vi.mocked(authenticateWithCode).mockResolvedValue(createIdentity());
+    });
+
+    it('rejects unknown or expired state', async () => {
+      mockRedis.getdel.mockResolvedValue(null);
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(401);
+      expect(authenticateWithCode).not.toHaveBeenCalled();
+    });
+
+    it('signs in the user with the same email', async () => {
+      const user = createUserRow();
+      vi.mocked(getUserByEmail).mockResolvedValue(user);
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.accessToken).toBeDefined();
+      expect(body.refreshToken).toBeDefined();
+      expect(body.user).toMatchObject({ userId: (user as { id: string }).id, role: 'viewer' });
+
+      expect(mockRedis.getdel).toHaveBeenCalledWith(REDIS_KEYS.OIDC_STATE('state-value'));
+      expect(authenticateWithCode).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: 'tracearr', clientSecret: 'client-secret' }),
+        { code: 'auth-code', ...pendingLogin }
+      );
+      expect(getUserByEmail).toHaveBeenCalledWith('alice@example.com');
+      expect(updateUser).not.toHaveBeenCalled();
+      expect(createUser).not.toHaveBeenCalled();
+    });
+
+    it('applies the mapped role to a linked user', async () => {
+      const user = createUserRow({ role: 'viewer' });
+      vi.mocked(getUserByEmail).mockResolvedValue(user);
+      vi.mocked(updateUser).mockResolvedValue(createUserRow({ role: 'admin' }));
+      vi.mocked(authenticateWithCode).mockResolvedValue(
+        createIdentity({ claims: { groups: ['family', 'tracearr-admins'] } })
+      );
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(200);
+      expect(updateUser).toHaveBeenCalledWith((user as { id: string }).id, { role: 'admin' });
+      expect(response.json().user.role).toBe('admin');
+    });
+
+    it('refuses to sign in as the owner unless allowed', async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue(createUserRow({ role: 'owner' }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+      expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it('never changes the owner role', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(createSettings({ oidcLinkOwner: true }));
+      vi.mocked(getUserByEmail).mockResolvedValue(createUserRow({ role: 'owner' }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(200);
+      expect(updateUser).not.toHaveBeenCalled();
+      expect(response.json().user.role).toBe('owner');
+    });
+
+    it('refuses to link an unverified email', async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue(createUserRow());
+      vi.mocked(authenticateWithCode).mockResolvedValue(createIdentity({ emailVerified: false }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('refuses linked users who cannot log in', async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue(createUserRow({ role: 'disabled' }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+      expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it('refuses unknown users when auto-provisioning is off', async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue(null);
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+      expect(createUser).not.toHaveBeenCalled();
+    });
+
+    it('provisions unknown users with the mapped role', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(createSettings({ oidcAutoProvision: true }));
+      vi.mocked(getUserByEmail).mockResolvedValue(null);
+      vi.mocked(createUser).mockResolvedValue(createUserRow({ role: 'viewer' }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(200);
+      expect(createUser).toHaveBeenCalledWith({
+        username: 'alice',
+        name: 'Alice',
+        email: 'alice@example.com',
+        thumbnail: undefined,
+        role: 'viewer',
+      });
+    });
+
+    it('refuses to provision an unverified email', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(createSettings({ oidcAutoProvision: true }));
+      vi.mocked(getUserByEmail).mockResolvedValue(null);
+      vi.mocked(authenticateWithCode).mockResolvedValue(createIdentity({ emailVerified: false }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+      expect(createUser).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the default role for unmapped new users', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(
+        createSettings({ oidcAutoProvision: true, oidcDefaultRole: 'viewer' })
+      );
+      vi.mocked(getUserByEmail).mockResolvedValue(null);
+      vi.mocked(createUser).mockResolvedValue(createUserRow());
+      vi.mocked(authenticateWithCode).mockResolvedValue(
+        createIdentity({ claims: { groups: ['strangers'] } })
+      );
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(200);
+      expect(createUser).toHaveBeenCalledWith(expect.objectContaining({ role: 'viewer' }));
+    });
+
+    it('refuses unmapped new users without a default role', async () => {
+      vi.mocked(getOidcSettings).mockResolvedValue(createSettings({ oidcAutoProvision: true }));
+      vi.mocked(getUserByEmail).mockResolvedValue(null);
+      vi.mocked(authenticateWithCode).mockResolvedValue(
+        createIdentity({ claims: { groups: ['strangers'] } })
+      );
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+      expect(createUser).not.toHaveBeenCalled();
+    });
+
+    it('returns 401 when the provider rejects the sign-in', async () => {
+      vi.mocked(authenticateWithCode).mockRejectedValue(new OidcError('bad nonce'));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(401);
+      expect(getUserByEmail).not.toHaveBeenCalled();
+    });
+
+    it('refuses identities without an email', async () => {
+      vi.mocked(authenticateWithCode).mockResolvedValue(createIdentity({ email: null }));
+      app = await buildTestApp();
+
+      const response = await callback(app);
+
+      expect(response.statusCode).toBe(403);
+      expect(getUserByEmail).not.toHaveBeenCalled();
+    });
+  });
+});
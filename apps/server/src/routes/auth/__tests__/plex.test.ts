@@ -661,10 +661,14 @@ describe('Plex Auth Routes', () => {
         vi.mocked(PlexClient.checkOAuthPin).mockResolvedValue(mockPlexAuthResult);
         vi.mocked(validateClaimCode).mockReturnValue(true);
 
+        // Chainable for lookups, awaitable for the server access query in generateTokens()
         const selectMock = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue([]),
+          from: vi.fn().mockReturnValue(
+            Object.assign(Promise.resolve([]), {
+              where: vi.fn().mockReturnThis(),
+              limit: vi.fn().mockResolvedValue([]),
+            })
+          ),
         };
         vi.mocked(db.select).mockReturnValue(selectMock as never);
 
@@ -711,10 +715,14 @@ describe('Plex Auth Routes', () => {
 
         vi.mocked(PlexClient.checkOAuthPin).mockResolvedValue(mockPlexAuthResult);
 
+        // Chainable for lookups, awaitable for the server access query in generateTokens()
         const selectMock = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue([]),
+          from: vi.fn().mockReturnValue(
+            Object.assign(Promise.resolve([]), {
+              where: vi.fn().mockReturnThis(),
+              limit: vi.fn().mockResolvedValue([]),
+            })
+          ),
         };
         vi.mocked(db.select).mockReturnValue(selectMock as never);
 
@@ -1018,12 +1026,12 @@ describe('Plex Auth Routes', () => {
       totalViolations: 0,
     };
 
-    const existingViewer = {
+    const existingMember = {
       id: randomUUID(),
-      username: 'viewer',
-      email: 'viewer@example.com',
-      role: 'viewer' as const,
-      plexAccountId: 'viewer-plex-456',
+      username: 'member',
+      email: 'member@example.com',
+      role: 'member' as const,
+      plexAccountId: 'member-plex-456',
       name: null,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -1109,12 +1117,12 @@ describe('Plex Auth Routes', () => {
         expect(response.json().message).toContain('already has an owner');
       });
 
-      it('rejects existing non-owner user via plex_accounts', async () => {
+      it('rejects existing user without a login role via plex_accounts', async () => {
         app = await buildUnauthenticatedTestApp();
 
         vi.mocked(PlexClient.checkOAuthPin).mockResolvedValue({
           ...mockPlexAuthResult,
-          id: existingViewer.plexAccountId,
+          id: existingMember.plexAccountId,
         });
 
         // Found in plex_accounts with allowLogin=true
@@ -1123,29 +1131,29 @@ describe('Plex Auth Routes', () => {
           where: vi.fn().mockReturnThis(),
           limit: vi
             .fn()
-            .mockResolvedValue([{ id: randomUUID(), userId: existingViewer.id, allowLogin: true }]),
+            .mockResolvedValue([{ id: randomUUID(), userId: existingMember.id, allowLogin: true }]),
         };
         vi.mocked(db.select).mockReturnValue(selectMock as never);
 
-        // Return viewer user (not owner)
-        vi.mocked(getUserById).mockResolvedValue(existingViewer);
+        // Return member user (no login role)
+        vi.mocked(getUserById).mockResolvedValue(existingMember);
 
         const response = await app.inject({
           method: 'POST',
           url: '/plex/check-pin',
-          payload: { pinId: 'viewer-pin' },
+          payload: { pinId: 'member-pin' },
         });
 
         expect(response.statusCode).toBe(403);
-        expect(response.json().message).toContain('Only the owner can log in');
+        expect(response.json().message).toContain('does not have access');
       });
 
-      it('rejects existing non-owner user via legacy plexAccountId lookup', async () => {
+      it('rejects existing user without a login role via legacy plexAccountId lookup', async () => {
         app = await buildUnauthenticatedTestApp();
 
         vi.mocked(PlexClient.checkOAuthPin).mockResolvedValue({
           ...mockPlexAuthResult,
-          id: existingViewer.plexAccountId,
+          id: existingMember.plexAccountId,
         });
 
         // Not found in plex_accounts
@@ -1156,17 +1164,17 @@ describe('Plex Auth Routes', () => {
         };
         vi.mocked(db.select).mockReturnValue(selectMock as never);
 
-        // Found via legacy lookup - viewer role
-        vi.mocked(getUserByPlexAccountId).mockResolvedValue(existingViewer);
+        // Found via legacy lookup - member role
+        vi.mocked(getUserByPlexAccountId).mockResolvedValue(existingMember);
 
         const response = await app.inject({
           method: 'POST',
           url: '/plex/check-pin',
-          payload: { pinId: 'viewer-pin' },
+          payload: { pinId: 'member-pin' },
         });
 
         expect(response.statusCode).toBe(403);
-        expect(response.json().message).toContain('Only the owner can log in');
+        expect(response.json().message).toContain('does not have access');
       });
 
       it('allows existing owner user to log in', async () => {
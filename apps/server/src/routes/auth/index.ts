@@ -7,11 +7,13 @@
  * 1. Local signup: POST /signup → Create account with username/password
  * 2. Local login: POST /login (type=local) → Login with username/password
  * 3. Plex OAuth: POST /login (type=plex) → Login/signup with Plex
+ * 4. OpenID Connect: POST /oidc/login → provider → POST /oidc/callback
  *
  * Server Connection (separate from auth):
  * - POST /plex/connect → Connect a Plex server after login
  * - POST /jellyfin/connect → Connect a Jellyfin server after login
  * - POST /emby/connect → Connect an Emby server after login
+ * - POST /subsonic/connect → Connect a Subsonic server after login
  *
  * Session Management:
  * - GET /me → Get current user info
@@ -24,6 +26,8 @@ import { localRoutes } from './local.js';
 import { plexRoutes } from './plex.js';
 import { jellyfinRoutes } from './jellyfin.js';
 import { embyRoutes } from './emby.js';
+import { subsonicRoutes } from './subsonic.js';
+import { oidcRoutes } from './oidc.js';
 import { sessionRoutes } from './session.js';
 
 export const authRoutes: FastifyPluginAsync = async (app) => {
@@ -33,6 +37,8 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
   await app.register(plexRoutes);
   await app.register(jellyfinRoutes);
   await app.register(embyRoutes);
+  await app.register(subsonicRoutes);
+  await app.register(oidcRoutes);
   await app.register(sessionRoutes);
 };
 
@@ -42,4 +48,5 @@ export {
   generateRefreshToken,
   hashRefreshToken,
   getAllServerIds,
+  getServerAccess,
 } from './utils.js';
@@ -8,6 +8,7 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import { z } from 'zod';
+import { canLogin } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import { servers } from '../../db/schema.js';
 import { JellyfinClient } from '../../services/mediaServer/index.js';
@@ -15,6 +16,7 @@ import { JellyfinClient } from '../../services/mediaServer/index.js';
 import { generateTokens } from './utils.js';
 import { syncServer } from '../../services/sync.js';
 import { getUserByUsername } from '../../services/userService.js';
+import { requirePermission } from '../../utils/permissions.js';
 
 // Schema for Jellyfin login
 const jellyfinLoginSchema = z.object({
@@ -30,6 +32,8 @@ const jellyfinConnectApiKeySchema = z.object({
 });
 
 export const jellyfinRoutes: FastifyPluginAsync = async (app) => {
+  const requireServersManage = [app.authenticate, requirePermission('servers:manage')];
+
   /**
    * POST /jellyfin/login - Login with Jellyfin username/password
    *
@@ -76,8 +80,10 @@ export const jellyfinRoutes: FastifyPluginAsync = async (app) => {
               );
             }
 
-            if (user.role !== 'owner') {
-              return await reply.forbidden('Only the owner can log in to this Tracearr instance.');
+            if (!canLogin(user.role)) {
+              return await reply.forbidden(
+                'Your account does not have access to this Tracearr instance.'
+              );
             }
 
             // Generate and return tokens
@@ -109,7 +115,7 @@ export const jellyfinRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post(
     '/jellyfin/connect-api-key',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireServersManage },
     async (request, reply) => {
       const body = jellyfinConnectApiKeySchema.safeParse(request.body);
       if (!body.success) {
@@ -118,11 +124,6 @@ export const jellyfinRoutes: FastifyPluginAsync = async (app) => {
 
       const authUser = request.user;
 
-      // Only owners can add servers
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only owners can add servers');
-      }
-
       const { serverUrl, serverName, apiKey } = body.data;
 
       try {
@@ -8,6 +8,7 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { eq, and, isNotNull } from 'drizzle-orm';
 import { z } from 'zod';
+import { canLogin } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import { users } from '../../db/schema.js';
 import { PlexClient } from '../../services/mediaServer/index.js';
@@ -159,6 +160,10 @@ export const localRoutes: FastifyPluginAsync = async (app) => {
         return reply.unauthorized('Invalid email or password');
       }
 
+      if (!canLogin(user.role)) {
+        return reply.forbidden('Your account does not have access to this Tracearr instance.');
+      }
+
       app.log.info({ userId: user.id }, 'Local login successful');
 
       return generateTokens(app, user.id, user.username, user.role);
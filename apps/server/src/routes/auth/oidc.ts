@@ -0,0 +1,211 @@
+/**
+ * OpenID Connect Authentication Routes
+ *
+ * GET /oidc/config - Whether SSO sign-in is offered on the login page
+ * POST /oidc/login - Start SSO sign-in, returns the provider's authorization URL
+ * POST /oidc/callback - Finish SSO sign-in with the code and state from the redirect
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { canLogin, REDIS_KEYS } from '@tracearr/shared';
+import {
+  authenticateWithCode,
+  buildAuthorizationUrl,
+  discoverProvider,
+  generateOidcSecret,
+  OidcError,
+  resolveOidcRole,
+  type OidcClientConfig,
+} from '../../services/oidc.js';
+import { createUser, getUserByEmail, updateUser } from '../../services/userService.js';
+import { getOidcSettings, type OidcSettings } from '../settings.js';
+import { generateTokens, OIDC_STATE_TTL } from './utils.js';
+
+// Schemas
+const oidcLoginSchema = z.object({
+  redirectUri: z.url(),
+});
+
+const oidcCallbackSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+});
+
+// Stored in Redis between /oidc/login and /oidc/callback
+interface OidcPendingLogin {
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+/**
+ * Client config when SSO is enabled and fully configured, otherwise null
+ */
+function getClientConfig(settings: OidcSettings): OidcClientConfig | null {
+  const { oidcEnabled, oidcDiscoveryUrl, oidcClientId, oidcClientSecret, oidcScopes } = settings;
+  if (!oidcEnabled || !oidcDiscoveryUrl || !oidcClientId || !oidcClientSecret) {
+    return null;
+  }
+  return {
+    discoveryUrl: oidcDiscoveryUrl,
+    clientId: oidcClientId,
+    clientSecret: oidcClientSecret,
+    scopes: oidcScopes,
+  };
+}
+
+export const oidcRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /oidc/config - Public SSO availability for the login page
+   */
+  app.get('/oidc/config', async () => {
+    const settings = await getOidcSettings();
+    return { enabled: getClientConfig(settings) !== null };
+  });
+
+  /**
+   * POST /oidc/login - Start SSO sign-in
+   *
+   * State, nonce and the PKCE verifier are kept server-side; the browser only
+   * carries the state through the provider's redirect.
+   */
+  app.post('/oidc/login', async (request, reply) => {
+    const body = oidcLoginSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('redirectUri is required');
+    }
+
+    const client = getClientConfig(await getOidcSettings());
+    if (!client) {
+      return reply.badRequest('Single sign-on is not enabled');
+    }
+
+    try {
+      const metadata = await discoverProvider(client.discoveryUrl);
+
+      const state = generateOidcSecret();
+      const pending: OidcPendingLogin = {
+        nonce: generateOidcSecret(),
+        codeVerifier: generateOidcSecret(),
+        redirectUri: body.data.redirectUri,
+      };
+      await app.redis.setex(REDIS_KEYS.OIDC_STATE(state), OIDC_STATE_TTL, JSON.stringify(pending));
+
+      const authUrl = buildAuthorizationUrl(metadata, {
+        clientId: client.clientId,
+        scopes: client.scopes,
+        state,
+        ...pending,
+      });
+      return { authUrl };
+    } catch (error) {
+      app.log.error({ error }, 'Failed to initiate OIDC sign-in');
+      return reply.internalServerError('Failed to reach the single sign-on provider');
+    }
+  });
+
+  /**
+   * POST /oidc/callback - Finish SSO sign-in
+   *
+   * Signs in the Tracearr user with the same verified email, or creates one when
+   * auto-provisioning is on. The owner is only linked when explicitly allowed.
+   * The role claim mapping is applied on every sign-in (owners and disabled
+   * accounts are never changed).
+   */
+  app.post('/oidc/callback', async (request, reply) => {
+    const body = oidcCallbackSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('code and state are required');
+    }
+
+    const settings = await getOidcSettings();
+    const client = getClientConfig(settings);
+    if (!client) {
+      return reply.badRequest('Single sign-on is not enabled');
+    }
+
+    const { code, state } = body.data;
+    // State is one-time use: read and delete atomically so concurrent callbacks can't share it
+    const stored = await app.redis.getdel(REDIS_KEYS.OIDC_STATE(state));
+    if (!stored) {
+      return reply.unauthorized('Invalid or expired sign-in attempt. Please try again.');
+    }
+
+    const pending = JSON.parse(stored) as OidcPendingLogin;
+
+    let identity;
+    try {
+      identity = await authenticateWithCode(client, { code, ...pending });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        app.log.warn({ error: error.message }, 'OIDC sign-in failed');
+        return reply.unauthorized('Single sign-on failed. Please try again.');
+      }
+      throw error;
+    }
+
+    if (!identity.email) {
+      return reply.forbidden('Your SSO account has no email address to match a Tracearr user.');
+    }
+
+    const mappedRole = resolveOidcRole(
+      identity.claims,
+      settings.oidcRoleClaim,
+      settings.oidcRoleMapping
+    );
+
+    // Accounts are matched by email, so an unverified address could claim someone
+    // else's account now, or a provisioned account could be claimed later
+    if (!identity.emailVerified) {
+      return reply.forbidden('Your SSO email address is not verified.');
+    }
+
+    let user = await getUserByEmail(identity.email);
+
+    if (user) {
+      if (user.role === 'owner' && !settings.oidcLinkOwner) {
+        return reply.forbidden('The owner account cannot sign in with SSO.');
+      }
+
+      if (
+        mappedRole &&
+        user.role !== mappedRole &&
+        user.role !== 'owner' &&
+        user.role !== 'disabled'
+      ) {
+        app.log.info(
+          { userId: user.id, from: user.role, to: mappedRole },
+          'Updating user role from OIDC claims'
+        );
+        user = await updateUser(user.id, { role: mappedRole });
+      }
+    } else {
+      if (!settings.oidcAutoProvision) {
+        return reply.forbidden('No Tracearr account matches your email address.');
+      }
+
+      const role = mappedRole ?? settings.oidcDefaultRole;
+      if (!role) {
+        return reply.forbidden('Your SSO account is not mapped to a Tracearr role.');
+      }
+
+      user = await createUser({
+        username: identity.username,
+        name: identity.name ?? undefined,
+        email: identity.email,
+        thumbnail: identity.picture ?? undefined,
+        role,
+      });
+      app.log.info({ userId: user.id, role }, 'User provisioned from OIDC sign-in');
+    }
+
+    if (!canLogin(user.role)) {
+      return reply.forbidden('Your account does not have access to this Tracearr instance.');
+    }
+
+    app.log.info({ userId: user.id }, 'OIDC login successful');
+
+    return generateTokens(app, user.id, user.username, user.role);
+  });
+};
@@ -15,6 +15,7 @@ import { eq, and, count, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import {
   REDIS_KEYS,
+  canLogin,
   type PlexAvailableServersResponse,
   type PlexDiscoveredServer,
   type PlexDiscoveredConnection,
@@ -31,6 +32,7 @@ import { generateTokens, generateTempToken, PLEX_TEMP_TOKEN_TTL } from './utils.
 import { syncServer } from '../../services/sync.js';
 import { getUserByPlexAccountId, getOwnerUser, getUserById } from '../../services/userService.js';
 import { isClaimCodeEnabled, validateClaimCode } from '../../utils/claimCode.js';
+import { requirePermission } from '../../utils/permissions.js';
 
 // Schemas
 const plexCheckPinSchema = z.object({
@@ -124,6 +126,8 @@ async function testServerConnections(
 }
 
 export const plexRoutes: FastifyPluginAsync = async (app) => {
+  const requireServersManage = [app.authenticate, requirePermission('servers:manage')];
+
   /**
    * POST /plex/check-pin - Check Plex PIN status
    *
@@ -170,9 +174,9 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
         const user = await getUserById(account.userId);
 
         if (user) {
-          // Only the owner can log in
-          if (user.role !== 'owner') {
-            return reply.forbidden('Only the owner can log in to this Tracearr instance.');
+          // Only roles with Tracearr access can log in
+          if (!canLogin(user.role)) {
+            return reply.forbidden('Your account does not have access to this Tracearr instance.');
           }
 
           // Update plex account info
@@ -228,9 +232,9 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
         // Returning Plex user via legacy lookup - auto-migrate to plex_accounts
         const user = existingUser;
 
-        // Only the owner can log in
-        if (user.role !== 'owner') {
-          return reply.forbidden('Only the owner can log in to this Tracearr instance.');
+        // Only roles with Tracearr access can log in
+        if (!canLogin(user.role)) {
+          return reply.forbidden('Your account does not have access to this Tracearr instance.');
         }
 
         // Check if plex_account already exists (without allowLogin)
@@ -572,16 +576,11 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/plex/available-servers',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireServersManage },
     async (request, reply): Promise<PlexAvailableServersResponse> => {
       const authUser = request.user;
       const { accountId } = request.query as { accountId?: string };
 
-      // Only owners can add servers
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can add servers');
-      }
-
       // Get user for ownership verification
       const user = await getUserById(authUser.userId);
       if (!user) {
@@ -686,16 +685,10 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/plex/server-connections/:serverId',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireServersManage },
     async (request, reply): Promise<{ server: PlexDiscoveredServer } | { server: null }> => {
-      const authUser = request.user;
       const { serverId } = request.params as { serverId: string };
 
-      // Only owners can edit servers
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can edit servers');
-      }
-
       // Get the server from DB
       const serverRows = await db
         .select({
@@ -763,7 +756,7 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
    * - accountId: Optional. If provided, uses the token from specified plex_account
    *              and sets the FK on the new server.
    */
-  app.post('/plex/add-server', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/plex/add-server', { preHandler: requireServersManage }, async (request, reply) => {
     const body = plexAddServerSchema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest('serverUri, serverName, and clientIdentifier are required');
@@ -772,11 +765,6 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
     const { serverUri, serverName, clientIdentifier, accountId } = body.data;
     const authUser = request.user;
 
-    // Only owners can add servers
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can add servers');
-    }
-
     // Get user for ownership verification
     const user = await getUserById(authUser.userId);
     if (!user) {
@@ -974,15 +962,10 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/plex/accounts',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireServersManage },
     async (request, reply): Promise<PlexAccountsResponse> => {
       const authUser = request.user;
 
-      // Only owners can manage Plex accounts
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can manage Plex accounts');
-      }
-
       // Get user ID from auth
       const user = await getUserById(authUser.userId);
       if (!user) {
@@ -1075,7 +1058,7 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post(
     '/plex/link-account',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireServersManage },
     async (request, reply): Promise<LinkPlexAccountResponse> => {
       const body = plexLinkAccountSchema.safeParse(request.body);
       if (!body.success) {
@@ -1085,11 +1068,6 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
       const { pin } = body.data;
       const authUser = request.user;
 
-      // Only owners can link Plex accounts
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can link Plex accounts');
-      }
-
       // Get user
       const user = await getUserById(authUser.userId);
       if (!user) {
@@ -1169,7 +1147,7 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
    */
   app.delete(
     '/plex/accounts/:id',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireServersManage },
     async (request, reply): Promise<UnlinkPlexAccountResponse> => {
       const params = plexUnlinkAccountSchema.safeParse(request.params);
       if (!params.success) {
@@ -1179,11 +1157,6 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
       const { id } = params.data;
       const authUser = request.user;
 
-      // Only owners can unlink accounts
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can unlink Plex accounts');
-      }
-
       // Get user
       const user = await getUserById(authUser.userId);
       if (!user) {
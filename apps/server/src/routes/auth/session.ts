@@ -12,7 +12,7 @@ import { JWT_CONFIG, REDIS_KEYS, canLogin, type AuthUser } from '@tracearr/share
 import {
   generateRefreshToken,
   hashRefreshToken,
-  getAllServerIds,
+  getServerAccess,
   REFRESH_TOKEN_TTL,
 } from './utils.js';
 import { getUserById } from '../../services/userService.js';
@@ -55,15 +55,15 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       return reply.unauthorized('Account is not active');
     }
 
-    // Get fresh server IDs (in case servers were added/removed)
-    // TODO: Admins should get servers where they're isServerAdmin=true
-    const serverIds = user.role === 'owner' ? await getAllServerIds() : [];
+    // Get fresh server access (in case servers or grants changed)
+    const access = await getServerAccess(userId, user.role);
+    const { serverIds } = access;
 
     const accessPayload: AuthUser = {
       userId,
       username: user.username,
       role: user.role,
-      serverIds,
+      ...access,
     };
 
     const accessToken = app.jwt.sign(accessPayload, {
@@ -112,9 +112,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       throw app.httpErrors.unauthorized('User no longer exists');
     }
 
-    // Get fresh server IDs
-    // TODO: Admins should get servers where they're isServerAdmin=true
-    const serverIds = user.role === 'owner' ? await getAllServerIds() : [];
+    // Get fresh server access
+    const { serverIds, serverRoles } = await getServerAccess(user.id, user.role);
 
     return {
       userId: user.id,
@@ -124,6 +123,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       role: user.role,
       aggregateTrustScore: user.aggregateTrustScore,
       serverIds,
+      serverRoles,
       hasPassword: !!user.passwordHash,
       hasPlexLinked: !!user.plexAccountId,
     };
@@ -0,0 +1,108 @@
+/**
+ * Subsonic Authentication Routes
+ *
+ * POST /subsonic/connect - Connect a Subsonic-compatible server with admin credentials (requires authentication)
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '../../db/client.js';
+import { servers } from '../../db/schema.js';
+import { SubsonicClient, buildSubsonicToken } from '../../services/mediaServer/index.js';
+import { generateTokens } from './utils.js';
+import { syncServer } from '../../services/sync.js';
+import { requirePermission } from '../../utils/permissions.js';
+
+// Schema for credential connection
+const subsonicConnectSchema = z.object({
+  serverUrl: z.url(),
+  serverName: z.string().min(1).max(100),
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const subsonicRoutes: FastifyPluginAsync = async (app) => {
+  const requireServersManage = [app.authenticate, requirePermission('servers:manage')];
+
+  /**
+   * POST /subsonic/connect - Connect a Subsonic server (requires authentication)
+   *
+   * Only the salted token-auth parameters are stored, never the password.
+   */
+  app.post('/subsonic/connect', { preHandler: requireServersManage }, async (request, reply) => {
+    const body = subsonicConnectSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('serverUrl, serverName, username, and password are required');
+    }
+
+    const authUser = request.user;
+
+    const { serverUrl, serverName, username, password } = body.data;
+    const token = buildSubsonicToken(username, password);
+
+    try {
+      // Verify the credentials have admin access
+      const adminCheck = await SubsonicClient.verifyServerAdmin(serverUrl, username, token);
+
+      if (!adminCheck.success) {
+        if (adminCheck.code === SubsonicClient.AdminVerifyError.CONNECTION_FAILED) {
+          return reply.serviceUnavailable(adminCheck.message);
+        }
+        return reply.forbidden(adminCheck.message);
+      }
+
+      // Create or update server
+      let server = await db
+        .select()
+        .from(servers)
+        .where(and(eq(servers.url, serverUrl), eq(servers.type, 'subsonic')))
+        .limit(1);
+
+      if (server.length === 0) {
+        const inserted = await db
+          .insert(servers)
+          .values({
+            name: serverName,
+            type: 'subsonic',
+            url: serverUrl,
+            token,
+          })
+          .returning();
+        server = inserted;
+      } else {
+        const existingServer = server[0]!;
+        await db
+          .update(servers)
+          .set({
+            name: serverName,
+            token,
+            updatedAt: new Date(),
+          })
+          .where(eq(servers.id, existingServer.id));
+      }
+
+      const serverId = server[0]!.id;
+
+      app.log.info({ userId: authUser.userId, serverId }, 'Subsonic server connected');
+
+      // Auto-sync server users and libraries in background
+      syncServer(serverId, { syncUsers: true, syncLibraries: true })
+        .then((result) => {
+          app.log.info(
+            { serverId, usersAdded: result.usersAdded, librariesSynced: result.librariesSynced },
+            'Auto-sync completed for Subsonic server'
+          );
+        })
+        .catch((error) => {
+          app.log.error({ error, serverId }, 'Auto-sync failed for Subsonic server');
+        });
+
+      // Return updated tokens with new server access
+      return generateTokens(app, authUser.userId, authUser.username, authUser.role);
+    } catch (error) {
+      app.log.error({ error }, 'Subsonic connect failed');
+      return reply.internalServerError('Failed to connect Subsonic server');
+    }
+  });
+};
@@ -7,13 +7,21 @@
 
 import { createHash, randomBytes } from 'crypto';
 import type { FastifyInstance } from 'fastify';
-import { JWT_CONFIG, REDIS_KEYS, type AuthUser, type UserRole } from '@tracearr/shared';
+import { eq } from 'drizzle-orm';
+import {
+  JWT_CONFIG,
+  REDIS_KEYS,
+  type AuthUser,
+  type ServerGrantRole,
+  type UserRole,
+} from '@tracearr/shared';
 import { db } from '../../db/client.js';
-import { servers } from '../../db/schema.js';
+import { servers, userServerGrants } from '../../db/schema.js';
 
 // Redis TTLs
 export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // 30 days
 export const PLEX_TEMP_TOKEN_TTL = 10 * 60; // 10 minutes for server selection
+export const OIDC_STATE_TTL = 10 * 60; // 10 minutes to sign in at the SSO provider
 
 /**
  * Generate a random refresh token
@@ -44,6 +52,32 @@ export async function getAllServerIds(): Promise<string[]> {
   return allServers.map((s) => s.id);
 }
 
+/**
+ * Resolve the servers a user can access and their per-server roles.
+ * Owners and users without server grants get every server.
+ */
+export async function getServerAccess(
+  userId: string,
+  role: UserRole
+): Promise<Pick<AuthUser, 'serverIds' | 'serverRoles'>> {
+  if (role !== 'owner') {
+    const grants = await db
+      .select({ serverId: userServerGrants.serverId, role: userServerGrants.role })
+      .from(userServerGrants)
+      .where(eq(userServerGrants.userId, userId));
+
+    if (grants.length > 0) {
+      const serverRoles: Record<string, ServerGrantRole> = {};
+      for (const grant of grants) {
+        serverRoles[grant.serverId] = grant.role;
+      }
+      return { serverIds: grants.map((g) => g.serverId), serverRoles };
+    }
+  }
+
+  return { serverIds: await getAllServerIds() };
+}
+
 /**
  * Generate access and refresh tokens for a user
  * Note: Caller must verify canLogin(role) before calling this function
@@ -54,15 +88,14 @@ export async function generateTokens(
   username: string,
   role: UserRole
 ) {
-  // Owners get access to ALL servers
-  // TODO: Admins should get servers where they're isServerAdmin=true
-  const serverIds = role === 'owner' ? await getAllServerIds() : [];
+  const access = await getServerAccess(userId, role);
+  const { serverIds } = access;
 
   const accessPayload: AuthUser = {
     userId,
     username,
     role,
-    serverIds,
+    ...access,
   };
 
   const accessToken = app.jwt.sign(accessPayload, {
@@ -0,0 +1,169 @@
+/**
+ * Backup routes - Full data export and restore
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import multipart from '@fastify/multipart';
+import { randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { backupRestoreBodySchema, hasPermission } from '@tracearr/shared';
+import { createBackupStream } from '../services/backup/export.js';
+import { enqueueRestore, getActiveRestore, getRestoreStatus } from '../jobs/restoreQueue.js';
+import { permissionDeniedMessage, requirePermission } from '../utils/permissions.js';
+
+/**
+ * Get a form field value - handles @fastify/multipart field structure
+ */
+function getFieldValue(field: unknown): string | undefined {
+  if (!field) return undefined;
+  const f: unknown = Array.isArray(field) ? field[0] : field;
+  if (f && typeof f === 'object' && 'value' in f) {
+    return String(f.value);
+  }
+  return undefined;
+}
+
+/**
+ * Build the download filename, e.g. tracearr-backup-2024-03-10T20-15-00.tar.gz
+ */
+export function backupFileName(date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/:/g, '-');
+  return `tracearr-backup-${stamp}.tar.gz`;
+}
+
+export const backupRoutes: FastifyPluginAsync = async (app) => {
+  const requireBackupManage = [app.authenticate, requirePermission('backup:manage')];
+
+  await app.register(multipart, {
+    limits: {
+      fileSize: 4 * 1024 * 1024 * 1024, // 4GB - archives of long histories are large
+    },
+  });
+
+  /**
+   * GET /backup/export - Download a full backup archive (.tar.gz)
+   *
+   * Accepts the access token as a query param so the browser can download the
+   * archive directly instead of buffering it in memory.
+   */
+  app.get('/export', async (request, reply) => {
+    const queryToken = (request.query as { token?: string }).token;
+    if (queryToken) {
+      request.headers.authorization = `Bearer ${queryToken}`;
+    }
+
+    try {
+      await request.jwtVerify();
+    } catch {
+      return reply.unauthorized('Invalid or missing token');
+    }
+
+    if (!hasPermission(request.user, 'backup:manage')) {
+      return reply.forbidden(permissionDeniedMessage('backup:manage'));
+    }
+
+    app.log.info({ userId: request.user.userId }, 'Starting backup export');
+
+    return reply
+      .header('Content-Type', 'application/gzip')
+      .header('Content-Disposition', `attachment; filename="${backupFileName()}"`)
+      .header('Cache-Control', 'no-store')
+      .send(createBackupStream());
+  });
+
+  /**
+   * POST /backup/restore - Restore a backup archive (enqueues job)
+   *
+   * Accepts multipart form data with:
+   * - conflictStrategy: 'skip' (default) or 'overwrite' - must precede the file
+   * - file: Archive produced by GET /backup/export
+   */
+  app.post('/restore', { preHandler: requireBackupManage }, async (request, reply) => {
+    const authUser = request.user;
+
+    const data = await request.file();
+    if (!data) {
+      return reply.badRequest('No file uploaded');
+    }
+
+    const parsed = backupRestoreBodySchema.safeParse({
+      conflictStrategy: getFieldValue(data.fields.conflictStrategy),
+    });
+    if (!parsed.success) {
+      data.file.resume();
+      return reply.badRequest('Invalid request: conflictStrategy must be skip or overwrite');
+    }
+
+    // Stream to disk - archives can be far larger than we want to hold in memory or Redis
+    const filePath = join(tmpdir(), `tracearr-restore-${randomUUID()}.tar.gz`);
+    try {
+      await pipeline(data.file, createWriteStream(filePath));
+    } catch (error) {
+      await unlink(filePath).catch(() => undefined);
+      app.log.error({ error }, 'Failed to save uploaded backup');
+      return reply.internalServerError('Failed to save uploaded backup');
+    }
+
+    if (data.file.truncated) {
+      await unlink(filePath).catch(() => undefined);
+      return reply.payloadTooLarge('Backup file is too large');
+    }
+
+    try {
+      const jobId = await enqueueRestore({
+        filePath,
+        fileName: data.filename,
+        conflictStrategy: parsed.data.conflictStrategy,
+        userId: authUser.userId,
+      });
+
+      return {
+        status: 'queued',
+        jobId,
+        message:
+          'Restore queued. Use jobId to track progress via WebSocket or GET /backup/restore/:jobId',
+      };
+    } catch (error) {
+      await unlink(filePath).catch(() => undefined);
+
+      if (error instanceof Error && error.message.includes('already in progress')) {
+        return reply.conflict(error.message);
+      }
+
+      app.log.error({ error }, 'Failed to enqueue backup restore');
+      return reply.serviceUnavailable('Restore queue is not available');
+    }
+  });
+
+  /**
+   * GET /backup/restore/active - Get the running or queued restore, if any
+   */
+  app.get('/restore/active', { preHandler: requireBackupManage }, async () => {
+    const active = await getActiveRestore();
+    if (!active) {
+      return { active: false };
+    }
+
+    return { active: true, ...active };
+  });
+
+  /**
+   * GET /backup/restore/:jobId - Get restore job status
+   */
+  app.get<{ Params: { jobId: string } }>(
+    '/restore/:jobId',
+    { preHandler: requireBackupManage },
+    async (request, reply) => {
+      const status = await getRestoreStatus(request.params.jobId);
+      if (!status) {
+        return reply.notFound('Restore job not found');
+      }
+
+      return status;
+    }
+  );
+};
@@ -1,61 +1,81 @@
 /**
  * Notification Channel Routing routes - Controls which channels receive which events
  *
+ * Built-in channels (mobile push, web toasts) are toggled per event here. External
+ * destinations are routed individually: each destination subscribes to its own events.
+ *
  * Web admin endpoints:
  * - GET /settings/notifications/routing - Get all routing configuration
  * - PATCH /settings/notifications/routing/:eventType - Update routing for specific event
  */
 
 import type { FastifyPluginAsync } from 'fastify';
-import { eq } from 'drizzle-orm';
+import { and, arrayContains, eq, inArray, notInArray, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import type { NotificationChannelRouting, NotificationEventType } from '@tracearr/shared';
 import { db } from '../db/client.js';
-import { notificationChannelRouting, notificationEventTypeEnum } from '../db/schema.js';
+import {
+  notificationChannelRouting,
+  notificationDestinations,
+  notificationEventTypeEnum,
+} from '../db/schema.js';
+import { requirePermission } from '../utils/permissions.js';
 
 // Valid event types for validation
 const validEventTypes = notificationEventTypeEnum as readonly string[];
 
 // Update routing schema
 const updateRoutingSchema = z.object({
-  discordEnabled: z.boolean().optional(),
-  webhookEnabled: z.boolean().optional(),
   pushEnabled: z.boolean().optional(),
   webToastEnabled: z.boolean().optional(),
+  // Full set of destinations that should receive the event
+  destinationIds: z.array(z.uuid()).max(100).optional(),
 });
 
 /**
  * Transform DB row to API response
  */
 function toApiResponse(
-  row: typeof notificationChannelRouting.$inferSelect
+  row: typeof notificationChannelRouting.$inferSelect,
+  destinationIds: string[]
 ): NotificationChannelRouting {
   return {
     id: row.id,
     eventType: row.eventType,
-    discordEnabled: row.discordEnabled,
-    webhookEnabled: row.webhookEnabled,
     pushEnabled: row.pushEnabled,
     webToastEnabled: row.webToastEnabled,
+    destinationIds,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
 }
 
+/**
+ * IDs of the destinations subscribed to each event type
+ */
+async function getDestinationIdsByEvent(): Promise<Map<NotificationEventType, string[]>> {
+  const destinations = await db
+    .select({ id: notificationDestinations.id, events: notificationDestinations.events })
+    .from(notificationDestinations);
+
+  const byEvent = new Map<NotificationEventType, string[]>();
+  for (const destination of destinations) {
+    for (const eventType of destination.events) {
+      byEvent.set(eventType, [...(byEvent.get(eventType) ?? []), destination.id]);
+    }
+  }
+  return byEvent;
+}
+
 export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
+  const requireNotificationsManage = [app.authenticate, requirePermission('notifications:manage')];
+
   /**
    * GET /settings/notifications/routing - Get all routing configuration
    *
    * Requires owner authentication. Returns routing configuration for all event types.
    */
-  app.get('/routing', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    // Only owners can view routing settings
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can view notification routing');
-    }
-
+  app.get('/routing', { preHandler: requireNotificationsManage }, async () => {
     // Get all routing configuration
     const rows = await db
       .select()
@@ -66,12 +86,6 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
     if (rows.length === 0) {
       const defaultRouting = notificationEventTypeEnum.map((eventType) => ({
         eventType,
-        discordEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(
-          eventType
-        ),
-        webhookEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(
-          eventType
-        ),
         pushEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(
           eventType
         ),
@@ -85,10 +99,11 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
         .values(defaultRouting)
         .returning();
 
-      return inserted.map(toApiResponse);
+      rows.push(...inserted);
     }
 
-    return rows.map(toApiResponse);
+    const destinationIds = await getDestinationIdsByEvent();
+    return rows.map((row) => toApiResponse(row, destinationIds.get(row.eventType) ?? []));
   });
 
   /**
@@ -98,7 +113,7 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
    */
   app.patch<{ Params: { eventType: string } }>(
     '/routing/:eventType',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireNotificationsManage },
     async (request, reply) => {
       const { eventType } = request.params;
 
@@ -114,11 +129,6 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
 
       const authUser = request.user;
 
-      // Only owners can update routing settings
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can update notification routing');
-      }
-
       // Find existing routing
       const existing = await db
         .select()
@@ -134,8 +144,6 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
           .insert(notificationChannelRouting)
           .values({
             eventType: eventType as NotificationEventType,
-            discordEnabled: body.data.discordEnabled ?? true,
-            webhookEnabled: body.data.webhookEnabled ?? true,
             pushEnabled: body.data.pushEnabled ?? true,
             webToastEnabled: body.data.webToastEnabled ?? true,
           })
@@ -154,12 +162,6 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
           updatedAt: new Date(),
         };
 
-        if (body.data.discordEnabled !== undefined) {
-          updateData.discordEnabled = body.data.discordEnabled;
-        }
-        if (body.data.webhookEnabled !== undefined) {
-          updateData.webhookEnabled = body.data.webhookEnabled;
-        }
         if (body.data.pushEnabled !== undefined) {
           updateData.pushEnabled = body.data.pushEnabled;
         }
@@ -173,6 +175,10 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
           .where(eq(notificationChannelRouting.id, routingId));
       }
 
+      if (body.data.destinationIds !== undefined) {
+        await setEventDestinations(eventType as NotificationEventType, body.data.destinationIds);
+      }
+
       // Return updated routing
       const updated = await db
         .select()
@@ -187,17 +193,53 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
 
       app.log.info({ userId: authUser.userId, eventType }, 'Notification channel routing updated');
 
-      return toApiResponse(row);
+      const destinationIds = await getDestinationIdsByEvent();
+      return toApiResponse(row, destinationIds.get(row.eventType) ?? []);
     }
   );
 };
 
 /**
- * Channel routing for a specific event type (internal use by notification services)
+ * Subscribe exactly the given destinations to an event, unsubscribing all others
+ */
+async function setEventDestinations(
+  eventType: NotificationEventType,
+  destinationIds: string[]
+): Promise<void> {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    if (destinationIds.length > 0) {
+      await tx
+        .update(notificationDestinations)
+        .set({
+          events: sql`array_append(array_remove(${notificationDestinations.events}, ${eventType}), ${eventType})`,
+          updatedAt: now,
+        })
+        .where(inArray(notificationDestinations.id, destinationIds));
+    }
+
+    await tx
+      .update(notificationDestinations)
+      .set({
+        events: sql`array_remove(${notificationDestinations.events}, ${eventType})`,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          arrayContains(notificationDestinations.events, [eventType]),
+          destinationIds.length > 0
+            ? notInArray(notificationDestinations.id, destinationIds)
+            : undefined
+        )
+      );
+  });
+}
+
+/**
+ * Built-in channel routing for a specific event type (internal use by notification services)
  */
 export interface ChannelRoutingConfig {
-  discordEnabled: boolean;
-  webhookEnabled: boolean;
   pushEnabled: boolean;
   webToastEnabled: boolean;
 }
@@ -210,8 +252,6 @@ export async function getChannelRouting(
 ): Promise<ChannelRoutingConfig> {
   const row = await db
     .select({
-      discordEnabled: notificationChannelRouting.discordEnabled,
-      webhookEnabled: notificationChannelRouting.webhookEnabled,
       pushEnabled: notificationChannelRouting.pushEnabled,
       webToastEnabled: notificationChannelRouting.webToastEnabled,
     })
@@ -227,8 +267,6 @@ export async function getChannelRouting(
       eventType
     );
     return {
-      discordEnabled: !isLowPriorityEvent,
-      webhookEnabled: !isLowPriorityEvent,
       pushEnabled: !isLowPriorityEvent,
       webToastEnabled: !isLowPriorityEvent,
     };
@@ -246,8 +284,6 @@ export async function getAllChannelRouting(): Promise<
   const rows = await db
     .select({
       eventType: notificationChannelRouting.eventType,
-      discordEnabled: notificationChannelRouting.discordEnabled,
-      webhookEnabled: notificationChannelRouting.webhookEnabled,
       pushEnabled: notificationChannelRouting.pushEnabled,
       webToastEnabled: notificationChannelRouting.webToastEnabled,
     })
@@ -257,8 +293,6 @@ export async function getAllChannelRouting(): Promise<
 
   for (const row of rows) {
     routingMap.set(row.eventType, {
-      discordEnabled: row.discordEnabled,
-      webhookEnabled: row.webhookEnabled,
       pushEnabled: row.pushEnabled,
       webToastEnabled: row.webToastEnabled,
     });
@@ -9,6 +9,7 @@ import type { FastifyPluginAsync } from 'fastify';
 import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
 import { sql } from 'drizzle-orm';
+import { hasPermission } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { getActiveAggregateNames } from '../db/timescale.js';
 import {
@@ -23,6 +24,7 @@ import { getQueueStats as getNotificationQueueStats } from '../jobs/notification
 import { getVersionCheckQueueStats } from '../jobs/versionCheckQueue.js';
 import { getInactivityCheckQueueStats } from '../jobs/inactivityCheckQueue.js';
 import { getAllServices } from '../services/serviceTracker.js';
+import { recordAudit } from '../services/auditLog.js';
 import {
   sessions,
   violations,
@@ -35,6 +37,7 @@ import {
   mobileSessions,
   notificationPreferences,
   notificationChannelRouting,
+  notificationDestinations,
   terminationLogs,
   plexAccounts,
   libraryItems,
@@ -105,10 +108,10 @@ const readLogTail = async (filePath: string, limit: number): Promise<DebugLogEnt
 };
 
 export const debugRoutes: FastifyPluginAsync = async (app) => {
-  // All debug routes require owner
+  // All debug routes require debug:run (owner only)
   app.addHook('preHandler', async (request, reply) => {
     await app.authenticate(request, reply);
-    if (request.user?.role !== 'owner') {
+    if (!request.user || !hasPermission(request.user, 'debug:run')) {
       return reply.forbidden('Owner access required');
     }
   });
@@ -203,7 +206,7 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/sessions - Clear all sessions
    */
-  app.delete('/sessions', async () => {
+  app.delete('/sessions', async (request) => {
     // Delete violations first (FK constraint)
     const violationsDeleted = await db.delete(violations).returning({ id: violations.id });
     // Delete termination logs (references sessions but no FK due to TimescaleDB)
@@ -212,6 +215,17 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
       .returning({ id: terminationLogs.id });
     const sessionsDeleted = await db.delete(sessions).returning({ id: sessions.id });
 
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'sessions',
+      before: {
+        sessions: sessionsDeleted.length,
+        violations: violationsDeleted.length,
+        terminationLogs: terminationLogsDeleted.length,
+      },
+    });
+
     return {
       success: true,
       deleted: {
@@ -225,8 +239,14 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/violations - Clear all violations
    */
-  app.delete('/violations', async () => {
+  app.delete('/violations', async (request) => {
     const deleted = await db.delete(violations).returning({ id: violations.id });
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'violations',
+      before: { violations: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -236,7 +256,7 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/users - Clear all non-owner users
    */
-  app.delete('/users', async () => {
+  app.delete('/users', async (request) => {
     // Delete sessions and violations for non-owner users first
     const nonOwnerUsers = await db
       .select({ id: users.id })
@@ -279,6 +299,13 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
       .where(sql`role != 'owner'`)
       .returning({ id: users.id });
 
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'users',
+      before: { users: deleted.length },
+    });
+
     return {
       success: true,
       deleted: deleted.length,
@@ -288,8 +315,14 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/servers - Clear all servers (cascades to users, sessions, violations)
    */
-  app.delete('/servers', async () => {
+  app.delete('/servers', async (request) => {
     const deleted = await db.delete(servers).returning({ id: servers.id });
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'servers',
+      before: { servers: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -299,10 +332,16 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/rules - Clear all rules
    */
-  app.delete('/rules', async () => {
+  app.delete('/rules', async (request) => {
     // Delete violations first (FK constraint)
     await db.delete(violations);
     const deleted = await db.delete(rules).returning({ id: rules.id });
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'rules',
+      before: { rules: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -312,11 +351,17 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/library - Clear all library data (items and snapshots)
    */
-  app.delete('/library', async () => {
+  app.delete('/library', async (request) => {
     const snapshotsDeleted = await db
       .delete(librarySnapshots)
       .returning({ id: librarySnapshots.id });
     const itemsDeleted = await db.delete(libraryItems).returning({ id: libraryItems.id });
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'library',
+      before: { items: itemsDeleted.length, snapshots: snapshotsDeleted.length },
+    });
     return {
       success: true,
       deleted: {
@@ -329,8 +374,14 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/termination-logs - Clear all termination logs
    */
-  app.delete('/termination-logs', async () => {
+  app.delete('/termination-logs', async (request) => {
     const deleted = await db.delete(terminationLogs).returning({ id: terminationLogs.id });
+    await recordAudit(request, {
+      action: 'debug.delete',
+      targetType: 'system',
+      targetId: 'termination_logs',
+      before: { terminationLogs: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -340,7 +391,7 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /debug/reset - Full factory reset (deletes everything including owner)
    */
-  app.post('/reset', async () => {
+  app.post('/reset', async (request) => {
     // Delete everything in order respecting FK constraints
     // Start with tables that have FK dependencies on other tables
     await db.delete(violations);
@@ -348,6 +399,7 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
     await db.delete(sessions);
     await db.delete(rules);
     await db.delete(notificationChannelRouting);
+    await db.delete(notificationDestinations);
     await db.delete(notificationPreferences);
     await db.delete(mobileSessions);
     await db.delete(mobileTokens);
@@ -363,8 +415,6 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
       .update(settings)
       .set({
         allowGuestAccess: false,
-        discordWebhookUrl: null,
-        customWebhookUrl: null,
         pollerEnabled: true,
         pollerIntervalMs: 15000,
         tautulliUrl: null,
@@ -372,6 +422,9 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
       })
       .where(sql`id = 1`);
 
+    // The audit log itself is append-only and survives the reset
+    await recordAudit(request, { action: 'debug.reset', targetType: 'system' });
+
     return {
       success: true,
       message: 'Factory reset complete. Please set up Tracearr again.',
@@ -5,9 +5,26 @@
 import type { FastifyPluginAsync } from 'fastify';
 import multipart from '@fastify/multipart';
 import { eq } from 'drizzle-orm';
-import { tautulliImportSchema, jellystatImportBodySchema } from '@tracearr/shared';
+import {
+  tautulliImportSchema,
+  jellystatImportBodySchema,
+  plexHistoryImportSchema,
+  playbackReportingImportBodySchema,
+  fileImportBodySchema,
+  fileImportValidateSchema,
+} from '@tracearr/shared';
 import { TautulliService } from '../services/tautulli.js';
 import { importJellystatBackup } from '../services/jellystat.js';
+import { importPlexHistory } from '../services/plexHistory.js';
+import { importPlaybackReporting } from '../services/playbackReporting.js';
+import {
+  importHistoryFile,
+  parseHistoryFile,
+  previewHistoryFile,
+  validateFileImportMapping,
+  validateFileImportRows,
+  createFileImportUserLookup,
+} from '../services/fileImport.js';
 import { getPubSubService } from '../services/cache.js';
 import { syncServer } from '../services/sync.js';
 import { db } from '../db/client.js';
@@ -22,10 +39,32 @@ import {
   getImportQueueStats,
   getActiveImportForServer,
   getActiveJellystatImportForServer,
+  getActiveImportForServerOfType,
+  enqueuePlexHistoryImport,
+  enqueuePlaybackReportingImport,
+  enqueueFileImport,
 } from '../jobs/importQueue.js';
+import { requirePermission } from '../utils/permissions.js';
+
+/**
+ * Get a form field value - handles @fastify/multipart field structure
+ * Fields can be single values or arrays, and have a 'value' property
+ */
+function getFieldValue(field: unknown): string | undefined {
+  if (!field) return undefined;
+  // If it's an array, get the first element
+  const f: unknown = Array.isArray(field) ? field[0] : field;
+  // Check if it's a field (not a file) with a value property
+  if (f && typeof f === 'object' && 'value' in f) {
+    return String(f.value);
+  }
+  return undefined;
+}
 
 export const importRoutes: FastifyPluginAsync = async (app) => {
-  // Register multipart plugin for file uploads (Jellystat backup)
+  const requireImportRun = [app.authenticate, requirePermission('import:run')];
+
+  // Register multipart plugin for file uploads (Jellystat / Playback Reporting backups, history files)
   await app.register(multipart, {
     limits: {
       fileSize: 500 * 1024 * 1024, // 500MB max file size
@@ -39,7 +78,7 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /import/tautulli - Start Tautulli import (enqueues job)
    */
-  app.post('/tautulli', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/tautulli', { preHandler: requireImportRun }, async (request, reply) => {
     const body = tautulliImportSchema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest('Invalid request body: serverId is required');
@@ -47,11 +86,6 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
 
     const authUser = request.user;
 
-    // Only owners can import data
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can import data');
-    }
-
     const { serverId, overwriteFriendlyNames = false, includeStreamDetails = false } = body.data;
 
     // Sync server users first to ensure we have all users before importing history
@@ -171,13 +205,8 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
    */
   app.delete<{ Params: { jobId: string } }>(
     '/tautulli/:jobId',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireImportRun },
     async (request, reply) => {
-      const authUser = request.user;
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can cancel imports');
-      }
-
       const { jobId } = request.params;
       const cancelled = await cancelImport(jobId);
 
@@ -205,14 +234,7 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /import/tautulli/test - Test Tautulli connection
    */
-  app.post('/tautulli/test', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    // Only owners can test connection
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can test Tautulli connection');
-    }
-
+  app.post('/tautulli/test', { preHandler: requireImportRun }, async (request, reply) => {
     const body = request.body as { url?: string; apiKey?: string } | undefined;
 
     if (!body?.url || !body?.apiKey) {
@@ -260,33 +282,15 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
    * - serverId: Target server UUID
    * - enrichMedia: Whether to enrich with metadata (default: true)
    */
-  app.post('/jellystat', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/jellystat', { preHandler: requireImportRun }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can import data
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can import data');
-    }
-
     // Parse multipart form data
     const data = await request.file();
     if (!data) {
       return reply.badRequest('No file uploaded');
     }
 
-    // Get form fields - handle @fastify/multipart field structure
-    // Fields can be single values or arrays, and have a 'value' property
-    const getFieldValue = (field: unknown): string | undefined => {
-      if (!field) return undefined;
-      // If it's an array, get the first element
-      const f = Array.isArray(field) ? field[0] : field;
-      // Check if it's a field (not a file) with a value property
-      if (f && typeof f === 'object' && 'value' in f) {
-        return String(f.value);
-      }
-      return undefined;
-    };
-
     const serverId = getFieldValue(data.fields.serverId);
     const enrichMediaStr = getFieldValue(data.fields.enrichMedia) ?? 'true';
     const enrichMedia = enrichMediaStr === 'true';
@@ -427,15 +431,520 @@ export const importRoutes: FastifyPluginAsync = async (app) => {
    */
   app.delete<{ Params: { jobId: string } }>(
     '/jellystat/:jobId',
+    { preHandler: requireImportRun },
+    async (request, reply) => {
+      const { jobId } = request.params;
+      const cancelled = await cancelJellystatImport(jobId);
+
+      if (!cancelled) {
+        return reply.badRequest('Cannot cancel job (may be active or not found)');
+      }
+
+      return { status: 'cancelled', jobId };
+    }
+  );
+
+  // ==========================================================================
+  // Plex History Import Routes (native Plex server history, no Tautulli)
+  // ==========================================================================
+
+  /**
+   * POST /import/plex-history - Start import of the Plex server's own watch history
+   */
+  app.post('/plex-history', { preHandler: requireImportRun }, async (request, reply) => {
+    const body = plexHistoryImportSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('Invalid request body: serverId is required');
+    }
+
+    const authUser = request.user;
+
+    const { serverId } = body.data;
+
+    // Verify server exists and is Plex
+    const [server] = await db.select().from(servers).where(eq(servers.id, serverId)).limit(1);
+    if (!server) {
+      return reply.notFound('Server not found');
+    }
+    if (server.type !== 'plex') {
+      return reply.badRequest('Plex history import only supports Plex servers');
+    }
+
+    // Sync server users first so history entries can be matched to accounts
+    try {
+      app.log.info({ serverId }, 'Syncing server before Plex history import');
+      await syncServer(serverId, { syncUsers: true, syncLibraries: false });
+      app.log.info({ serverId }, 'Server sync completed');
+    } catch (error) {
+      app.log.error({ error, serverId }, 'Failed to sync server before import');
+      return reply.internalServerError('Failed to sync server users before import');
+    }
+
+    // Enqueue import job
+    try {
+      const jobId = await enqueuePlexHistoryImport(serverId, authUser.userId);
+
+      return {
+        status: 'queued',
+        jobId,
+        message:
+          'Import queued. Use jobId to track progress via WebSocket or GET /import/plex-history/:jobId',
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already in progress')) {
+        return reply.conflict(error.message);
+      }
+
+      // Fallback to direct execution if queue is not available
+      app.log.warn({ error }, 'Import queue unavailable, falling back to direct execution');
+
+      const pubSubService = getPubSubService();
+
+      // Start import in background (non-blocking)
+      importPlexHistory(serverId, pubSubService ?? undefined)
+        .then((result) => {
+          console.log(`[Import] Plex history import completed:`, result);
+        })
+        .catch((err: unknown) => {
+          console.error(`[Import] Plex history import failed:`, err);
+        });
+
+      return {
+        status: 'started',
+        message: 'Import started (direct execution). Watch for progress updates via WebSocket.',
+      };
+    }
+  });
+
+  /**
+   * GET /import/plex-history/active/:serverId - Get active Plex history import for a server
+   */
+  app.get<{ Params: { serverId: string } }>(
+    '/plex-history/active/:serverId',
+    { preHandler: [app.authenticate] },
+    async (request, _reply) => {
+      const { serverId } = request.params;
+
+      const jobId = await getActiveImportForServerOfType(serverId, 'plex_history');
+      if (!jobId) {
+        return { active: false };
+      }
+
+      const status = await getImportStatus(jobId);
+      if (!status) {
+        return { active: false };
+      }
+
+      return { active: true, ...status };
+    }
+  );
+
+  /**
+   * GET /import/plex-history/:jobId - Get Plex history import job status
+   */
+  app.get<{ Params: { jobId: string } }>(
+    '/plex-history/:jobId',
     { preHandler: [app.authenticate] },
     async (request, reply) => {
-      const authUser = request.user;
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can cancel imports');
+      const { jobId } = request.params;
+
+      const status = await getImportStatus(jobId);
+      if (!status) {
+        return reply.notFound('Import job not found');
       }
 
+      return status;
+    }
+  );
+
+  /**
+   * DELETE /import/plex-history/:jobId - Cancel Plex history import job
+   */
+  app.delete<{ Params: { jobId: string } }>(
+    '/plex-history/:jobId',
+    { preHandler: requireImportRun },
+    async (request, reply) => {
       const { jobId } = request.params;
-      const cancelled = await cancelJellystatImport(jobId);
+      const cancelled = await cancelImport(jobId);
+
+      if (!cancelled) {
+        return reply.badRequest('Cannot cancel job (may be active or not found)');
+      }
+
+      return { status: 'cancelled', jobId };
+    }
+  );
+
+  // ==========================================================================
+  // Playback Reporting Import Routes (Jellyfin/Emby plugin backup)
+  // ==========================================================================
+
+  /**
+   * POST /import/playback-reporting - Start Playback Reporting import from backup file
+   *
+   * Accepts multipart form data with:
+   * - file: Playback Reporting backup (TSV) or a CSV/TSV export of PlaybackActivity
+   * - serverId: Target server UUID
+   */
+  app.post('/playback-reporting', { preHandler: requireImportRun }, async (request, reply) => {
+    const authUser = request.user;
+
+    // Parse multipart form data
+    const data = await request.file();
+    if (!data) {
+      return reply.badRequest('No file uploaded');
+    }
+
+    const serverId = getFieldValue(data.fields.serverId);
+
+    const parsed = playbackReportingImportBodySchema.safeParse({ serverId });
+    if (!parsed.success) {
+      return reply.badRequest('Invalid request: serverId is required');
+    }
+
+    // Verify server exists and is Jellyfin/Emby
+    const [server] = await db
+      .select()
+      .from(servers)
+      .where(eq(servers.id, parsed.data.serverId))
+      .limit(1);
+    if (!server) {
+      return reply.notFound('Server not found');
+    }
+    if (server.type !== 'jellyfin' && server.type !== 'emby') {
+      return reply.badRequest('Playback Reporting import only supports Jellyfin/Emby servers');
+    }
+
+    // Read file contents
+    const chunks: Buffer[] = [];
+    for await (const chunk of data.file) {
+      chunks.push(chunk);
+    }
+    const fileContents = Buffer.concat(chunks).toString('utf-8');
+
+    // Sync server users first
+    try {
+      app.log.info({ serverId }, 'Syncing server before Playback Reporting import');
+      await syncServer(parsed.data.serverId, { syncUsers: true, syncLibraries: false });
+      app.log.info({ serverId }, 'Server sync completed');
+    } catch (error) {
+      app.log.error({ error, serverId }, 'Failed to sync server before import');
+      return reply.internalServerError('Failed to sync server users before import');
+    }
+
+    // Enqueue import job
+    try {
+      const jobId = await enqueuePlaybackReportingImport(
+        parsed.data.serverId,
+        authUser.userId,
+        fileContents
+      );
+
+      return {
+        status: 'queued',
+        jobId,
+        message:
+          'Import queued. Use jobId to track progress via WebSocket or GET /import/playback-reporting/:jobId',
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already in progress')) {
+        return reply.conflict(error.message);
+      }
+
+      // Fallback to direct execution if queue is not available
+      app.log.warn({ error }, 'Import queue unavailable, falling back to direct execution');
+
+      const pubSubService = getPubSubService();
+
+      // Start import in background (non-blocking)
+      importPlaybackReporting(parsed.data.serverId, fileContents, pubSubService ?? undefined)
+        .then((result) => {
+          console.log(`[Import] Playback Reporting import completed:`, result);
+        })
+        .catch((err: unknown) => {
+          console.error(`[Import] Playback Reporting import failed:`, err);
+        });
+
+      return {
+        status: 'started',
+        message: 'Import started (direct execution). Watch for progress updates via WebSocket.',
+      };
+    }
+  });
+
+  /**
+   * GET /import/playback-reporting/active/:serverId - Get active Playback Reporting import
+   */
+  app.get<{ Params: { serverId: string } }>(
+    '/playback-reporting/active/:serverId',
+    { preHandler: [app.authenticate] },
+    async (request, _reply) => {
+      const { serverId } = request.params;
+
+      const jobId = await getActiveImportForServerOfType(serverId, 'playback_reporting');
+      if (!jobId) {
+        return { active: false };
+      }
+
+      const status = await getImportStatus(jobId);
+      if (!status) {
+        return { active: false };
+      }
+
+      return { active: true, ...status };
+    }
+  );
+
+  /**
+   * GET /import/playback-reporting/:jobId - Get Playback Reporting import job status
+   */
+  app.get<{ Params: { jobId: string } }>(
+    '/playback-reporting/:jobId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const { jobId } = request.params;
+
+      const status = await getImportStatus(jobId);
+      if (!status) {
+        return reply.notFound('Import job not found');
+      }
+
+      return status;
+    }
+  );
+
+  /**
+   * DELETE /import/playback-reporting/:jobId - Cancel Playback Reporting import job
+   */
+  app.delete<{ Params: { jobId: string } }>(
+    '/playback-reporting/:jobId',
+    { preHandler: requireImportRun },
+    async (request, reply) => {
+      const { jobId } = request.params;
+      const cancelled = await cancelImport(jobId);
+
+      if (!cancelled) {
+        return reply.badRequest('Cannot cancel job (may be active or not found)');
+      }
+
+      return { status: 'cancelled', jobId };
+    }
+  );
+
+  // ==========================================================================
+  // History File Import Routes (generic CSV/JSON with column mapping)
+  // ==========================================================================
+
+  /**
+   * POST /import/file/preview - Read an uploaded history file's columns and first rows
+   *
+   * Accepts multipart form data with:
+   * - file: CSV/TSV or JSON history file
+   */
+  app.post('/file/preview', { preHandler: requireImportRun }, async (request, reply) => {
+    const data = await request.file();
+    if (!data) {
+      return reply.badRequest('No file uploaded');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of data.file) {
+      chunks.push(chunk);
+    }
+
+    try {
+      return previewHistoryFile(Buffer.concat(chunks).toString('utf-8'));
+    } catch (error) {
+      return reply.badRequest(error instanceof Error ? error.message : 'Could not read file');
+    }
+  });
+
+  /**
+   * POST /import/file/validate - Check preview rows against a column mapping
+   *
+   * When serverId is given, rows for users that are not on that server are flagged.
+   */
+  app.post('/file/validate', { preHandler: requireImportRun }, async (request, reply) => {
+    const body = fileImportValidateSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('Invalid request body: mapping and rows are required');
+    }
+
+    const { serverId, mapping, rows } = body.data;
+    const userLookup = serverId ? await createFileImportUserLookup(serverId) : undefined;
+
+    return { rows: validateFileImportRows(rows, mapping, userLookup) };
+  });
+
+  /**
+   * POST /import/file - Start a history file import
+   *
+   * Accepts multipart form data with:
+   * - serverId: Target server UUID
+   * - mapping: JSON object of session field -> column name
+   * - file: CSV/TSV or JSON history file
+   */
+  app.post('/file', { preHandler: requireImportRun }, async (request, reply) => {
+    const authUser = request.user;
+
+    // Parse multipart form data
+    const data = await request.file();
+    if (!data) {
+      return reply.badRequest('No file uploaded');
+    }
+
+    let mapping: unknown;
+    try {
+      mapping = JSON.parse(getFieldValue(data.fields.mapping) ?? 'null');
+    } catch {
+      return reply.badRequest('Invalid request: mapping must be JSON');
+    }
+
+    const parsed = fileImportBodySchema.safeParse({
+      serverId: getFieldValue(data.fields.serverId),
+      mapping,
+    });
+    if (!parsed.success) {
+      return reply.badRequest('Invalid request: serverId and mapping are required');
+    }
+
+    const [server] = await db
+      .select()
+      .from(servers)
+      .where(eq(servers.id, parsed.data.serverId))
+      .limit(1);
+    if (!server) {
+      return reply.notFound('Server not found');
+    }
+
+    // Read file contents
+    const chunks: Buffer[] = [];
+    for await (const chunk of data.file) {
+      chunks.push(chunk);
+    }
+    const fileContents = Buffer.concat(chunks).toString('utf-8');
+
+    // Reject mappings that cannot apply before queueing a job
+    let mappingErrors: string[];
+    try {
+      const { columns } = parseHistoryFile(fileContents);
+      mappingErrors = validateFileImportMapping(parsed.data.mapping, columns);
+    } catch (error) {
+      mappingErrors = [error instanceof Error ? error.message : 'Could not read file'];
+    }
+    if (mappingErrors.length > 0) {
+      return reply.badRequest(mappingErrors.join('; '));
+    }
+
+    // Sync server users first
+    try {
+      app.log.info({ serverId: parsed.data.serverId }, 'Syncing server before history file import');
+      await syncServer(parsed.data.serverId, { syncUsers: true, syncLibraries: false });
+      app.log.info({ serverId: parsed.data.serverId }, 'Server sync completed');
+    } catch (error) {
+      app.log.error(
+        { error, serverId: parsed.data.serverId },
+        'Failed to sync server before import'
+      );
+      return reply.internalServerError('Failed to sync server users before import');
+    }
+
+    // Enqueue import job
+    try {
+      const jobId = await enqueueFileImport(
+        parsed.data.serverId,
+        authUser.userId,
+        fileContents,
+        parsed.data.mapping
+      );
+
+      return {
+        status: 'queued',
+        jobId,
+        message:
+          'Import queued. Use jobId to track progress via WebSocket or GET /import/file/:jobId',
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already in progress')) {
+        return reply.conflict(error.message);
+      }
+
+      // Fallback to direct execution if queue is not available
+      app.log.warn({ error }, 'Import queue unavailable, falling back to direct execution');
+
+      const pubSubService = getPubSubService();
+
+      // Start import in background (non-blocking)
+      importHistoryFile(
+        parsed.data.serverId,
+        fileContents,
+        parsed.data.mapping,
+        pubSubService ?? undefined
+      )
+        .then((result) => {
+          console.log(`[Import] History file import completed:`, result);
+        })
+        .catch((err: unknown) => {
+          console.error(`[Import] History file import failed:`, err);
+        });
+
+      return {
+        status: 'started',
+        message: 'Import started (direct execution). Watch for progress updates via WebSocket.',
+      };
+    }
+  });
+
+  /**
+   * GET /import/file/active/:serverId - Get active history file import
+   */
+  app.get<{ Params: { serverId: string } }>(
+    '/file/active/:serverId',
+    { preHandler: [app.authenticate] },
+    async (request, _reply) => {
+      const { serverId } = request.params;
+
+      const jobId = await getActiveImportForServerOfType(serverId, 'file');
+      if (!jobId) {
+        return { active: false };
+      }
+
+      const status = await getImportStatus(jobId);
+      if (!status) {
+        return { active: false };
+      }
+
+      return { active: true, ...status };
+    }
+  );
+
+  /**
+   * GET /import/file/:jobId - Get history file import job status
+   */
+  app.get<{ Params: { jobId: string } }>(
+    '/file/:jobId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const { jobId } = request.params;
+
+      const status = await getImportStatus(jobId);
+      if (!status) {
+        return reply.notFound('Import job not found');
+      }
+
+      return status;
+    }
+  );
+
+  /**
+   * DELETE /import/file/:jobId - Cancel history file import job
+   */
+  app.delete<{ Params: { jobId: string } }>(
+    '/file/:jobId',
+    { preHandler: requireImportRun },
+    async (request, reply) => {
+      const { jobId } = request.params;
+      const cancelled = await cancelImport(jobId);
 
       if (!cancelled) {
         return reply.badRequest('Cannot cancel job (may be active or not found)');
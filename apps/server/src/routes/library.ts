@@ -17,6 +17,8 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { enqueueLibrarySync, getLibrarySyncStatus } from '../jobs/librarySyncQueue.js';
+import { requirePermission } from '../utils/permissions.js';
+import { hasServerAccess } from '../utils/serverFiltering.js';
 import { libraryStatsRoutes } from './library/index.js';
 
 // Validation schemas
@@ -32,7 +34,7 @@ export const libraryRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post<{ Params: { serverId: string } }>(
     '/sync/:serverId',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, requirePermission('maintenance:run')] },
     async (request, reply) => {
       const authUser = request.user;
 
@@ -44,6 +46,10 @@ export const libraryRoutes: FastifyPluginAsync = async (app) => {
 
       const { serverId } = parseResult.data;
 
+      if (!hasServerAccess(authUser, serverId)) {
+        return reply.forbidden('You do not have access to this server');
+      }
+
       try {
         const jobId = await enqueueLibrarySync(serverId, authUser.userId);
         return {
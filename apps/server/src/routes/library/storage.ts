@@ -19,52 +19,12 @@ import {
 import { db } from '../../db/client.js';
 import { validateServerAccess } from '../../utils/serverFiltering.js';
 import { buildLibraryCacheKey } from './utils.js';
-
-// ============================================================================
-// Linear Regression Implementation
-// ============================================================================
-
-interface DataPoint {
-  x: number;
-  y: number;
-}
-
-interface RegressionResult {
-  slope: number;
-  intercept: number;
-  r2: number;
-}
-
-/**
- * Simple linear regression using least squares method.
- *
- * @param data - Array of (x, y) data points
- * @returns Slope, intercept, and R-squared coefficient
- */
-function linearRegression(data: DataPoint[]): RegressionResult {
-  const n = data.length;
-  if (n < 2) return { slope: 0, intercept: data[0]?.y ?? 0, r2: 0 };
-
-  const meanX = data.reduce((sum, p) => sum + p.x, 0) / n;
-  const meanY = data.reduce((sum, p) => sum + p.y, 0) / n;
-
-  let numerator = 0;
-  let denominator = 0;
-  for (const point of data) {
-    numerator += (point.x - meanX) * (point.y - meanY);
-    denominator += (point.x - meanX) ** 2;
-  }
-
-  const slope = denominator !== 0 ? numerator / denominator : 0;
-  const intercept = meanY - slope * meanX;
-
-  // Calculate R-squared (coefficient of determination)
-  const ssRes = data.reduce((sum, p) => sum + (p.y - (slope * p.x + intercept)) ** 2, 0);
-  const ssTot = data.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
-  const r2 = ssTot !== 0 ? 1 - ssRes / ssTot : 0;
-
-  return { slope, intercept, r2 };
-}
+import {
+  getConfidenceLevel,
+  linearRegression,
+  type DataPoint,
+  type RegressionResult,
+} from '../../utils/regression.js';
 
 // ============================================================================
 // Response Types
@@ -127,15 +87,6 @@ function getStartDate(period: '7d' | '30d' | '90d' | '1y' | 'all'): Date | null
   }
 }
 
-/**
- * Determine prediction confidence based on R-squared value.
- */
-function getConfidenceLevel(r2: number): 'high' | 'medium' | 'low' {
-  if (r2 >= 0.8) return 'high';
-  if (r2 >= 0.5) return 'medium';
-  return 'low';
-}
-
 /**
  * Calculate prediction with min/max bounds based on R-squared.
  * Higher R-squared = tighter bounds.
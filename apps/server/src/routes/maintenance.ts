@@ -14,17 +14,15 @@ import {
 } from '../jobs/maintenanceQueue.js';
 import { db } from '../db/client.js';
 import { librarySnapshots } from '../db/schema.js';
+import { requirePermission } from '../utils/permissions.js';
 
 export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
+  const requireMaintenanceRun = [app.authenticate, requirePermission('maintenance:run')];
+
   /**
    * GET /maintenance/jobs - List available maintenance jobs
    */
-  app.get('/jobs', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can access maintenance jobs');
-    }
-
+  app.get('/jobs', { preHandler: requireMaintenanceRun }, async () => {
     // Return list of available maintenance jobs with descriptions
     return {
       jobs: [
@@ -78,6 +76,14 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
             'Creates historical library snapshots from library_items.created_at for proper deletion/upgrade tracking. ' +
             'Run this once after upgrading to enable accurate Storage Trend and Quality Evolution charts.',
         },
+        {
+          type: 'generate_year_reviews',
+          category: 'backfill',
+          name: 'Generate Year in Review',
+          description:
+            'Builds Year in Review summaries for every user with plays in the most recent year ' +
+            '(the current year from December). Pick another year from the Year in Review page.',
+        },
         // Cleanup jobs - database maintenance and optimization
         {
           type: 'rebuild_timescale_views',
@@ -113,12 +119,9 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post<{ Params: { type: string } }>(
     '/jobs/:type',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireMaintenanceRun },
     async (request, reply) => {
       const authUser = request.user;
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can run maintenance jobs');
-      }
 
       const { type } = request.params;
 
@@ -133,6 +136,7 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
         'backfill_user_dates',
         'backfill_library_snapshots',
         'cleanup_old_chunks',
+        'generate_year_reviews',
       ];
       if (!validTypes.includes(type as MaintenanceJobType)) {
         return reply.badRequest(`Invalid job type: ${type}`);
@@ -157,12 +161,7 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /maintenance/progress - Get current job progress (if any)
    */
-  app.get('/progress', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can access maintenance jobs');
-    }
-
+  app.get('/progress', { preHandler: requireMaintenanceRun }, async () => {
     const progress = getMaintenanceProgress();
     return { progress };
   });
@@ -172,13 +171,8 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get<{ Params: { jobId: string } }>(
     '/jobs/:jobId/status',
-    { preHandler: [app.authenticate] },
+    { preHandler: requireMaintenanceRun },
     async (request, reply) => {
-      const authUser = request.user;
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can access maintenance jobs');
-      }
-
       const { jobId } = request.params;
 
       // Validate jobId format (alphanumeric with dashes)
@@ -199,12 +193,7 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /maintenance/stats - Get queue statistics
    */
-  app.get('/stats', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can access maintenance jobs');
-    }
-
+  app.get('/stats', { preHandler: requireMaintenanceRun }, async (request, reply) => {
     const stats = await getMaintenanceQueueStats();
 
     if (!stats) {
@@ -217,12 +206,7 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /maintenance/history - Get recent job history
    */
-  app.get('/history', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can access maintenance jobs');
-    }
-
+  app.get('/history', { preHandler: requireMaintenanceRun }, async () => {
     const history = await getMaintenanceJobHistory(10);
     return { history };
   });
@@ -238,12 +222,7 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get<{
     Querystring: { suspicious?: string; date?: string; libraryId?: string; limit?: string };
-  }>('/snapshots', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can access snapshots');
-    }
-
+  }>('/snapshots', { preHandler: requireMaintenanceRun }, async (request) => {
     const { suspicious, date, libraryId, limit } = request.query;
     const maxResults = Math.min(parseInt(limit || '100', 10), 500);
 
@@ -311,12 +290,7 @@ export const maintenanceRoutes: FastifyPluginAsync = async (app) => {
       ids?: string[];
       criteria?: { suspicious?: boolean; date?: string; libraryId?: string };
     };
-  }>('/snapshots', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can delete snapshots');
-    }
-
+  }>('/snapshots', { preHandler: requireMaintenanceRun }, async (request, reply) => {
     const { ids, criteria } = request.body || {};
 
     if (!ids && !criteria) {
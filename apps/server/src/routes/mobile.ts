@@ -28,17 +28,20 @@ import type {
   MobileSession,
   MobilePairResponse,
   MobilePairTokenResponse,
+  ServerType,
 } from '@tracearr/shared';
 import {
   REDIS_KEYS,
   CACHE_TTL,
   sessionIdParamSchema,
   terminateSessionBodySchema,
+  hasPermission,
 } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { mobileTokens, mobileSessions, servers, users, settings, sessions } from '../db/schema.js';
 import { terminateSession } from '../services/termination.js';
 import { hasServerAccess } from '../utils/serverFiltering.js';
+import { permissionDeniedMessage, requirePermission } from '../utils/permissions.js';
 
 // Rate limits for mobile auth endpoints
 const MOBILE_PAIR_MAX_ATTEMPTS = 5; // 5 attempts per 15 minutes
@@ -115,6 +118,8 @@ function generateRefreshToken(): string {
 }
 
 export const mobileRoutes: FastifyPluginAsync = async (app) => {
+  const requireMobileManage = [app.authenticate, requirePermission('mobile:manage')];
+
   // Log beta mode status on startup
   if (isBetaMode()) {
     app.log.warn(
@@ -129,13 +134,7 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /mobile - Get mobile config
    */
-  app.get('/', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can access mobile settings');
-    }
-
+  app.get('/', { preHandler: requireMobileManage }, async () => {
     // Get mobile enabled status from settings
     const settingsRow = await db
       .select({ mobileEnabled: settings.mobileEnabled })
@@ -181,13 +180,9 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /mobile/enable - Enable mobile access (no token generated)
    */
-  app.post('/enable', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/enable', { preHandler: requireMobileManage }, async (request) => {
     const authUser = request.user;
 
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can enable mobile access');
-    }
-
     // Update settings to enable mobile
     await db
       .update(settings)
@@ -229,13 +224,9 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
    * Max pending tokens: 3
    * Max paired devices: 5
    */
-  app.post('/pair-token', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/pair-token', { preHandler: requireMobileManage }, async (request, reply) => {
     const authUser = request.user;
 
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can generate pairing tokens');
-    }
-
     // Check if mobile is enabled
     const settingsRow = await db
       .select({ mobileEnabled: settings.mobileEnabled })
@@ -350,13 +341,9 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /mobile/disable - Disable mobile access
    */
-  app.post('/disable', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/disable', { preHandler: requireMobileManage }, async (request) => {
     const authUser = request.user;
 
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can disable mobile access');
-    }
-
     // Disable in settings
     await db
       .update(settings)
@@ -381,13 +368,9 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /mobile/sessions - Revoke all mobile sessions
    */
-  app.delete('/sessions', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/sessions', { preHandler: requireMobileManage }, async (request) => {
     const authUser = request.user;
 
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can revoke mobile sessions');
-    }
-
     // Delete all sessions from Redis and DB
     const sessionsRows = await db.select().from(mobileSessions);
     for (const session of sessionsRows) {
@@ -406,13 +389,9 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /mobile/sessions/:id - Revoke a single mobile session
    */
-  app.delete('/sessions/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/sessions/:id', { preHandler: requireMobileManage }, async (request, reply) => {
     const authUser = request.user;
 
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can revoke mobile sessions');
-    }
-
     const { id } = request.params as { id: string };
 
     // Validate UUID format
@@ -451,13 +430,7 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
   /**
    * PATCH /mobile/sessions/:id - Update mobile session device name (owner only)
    */
-  app.patch('/sessions/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can rename mobile sessions');
-    }
-
+  app.patch('/sessions/:id', { preHandler: requireMobileManage }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -575,7 +548,7 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
       owner: { id: string; username: string };
       serverName: string;
       serverId: string;
-      serverType: 'plex' | 'jellyfin' | 'emby';
+      serverType: ServerType;
       serverIds: string[];
       oldRefreshTokenHash?: string; // Track old hash for cleanup outside transaction
     };
@@ -959,7 +932,7 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post(
     '/streams/:id/terminate',
-    { preHandler: [app.requireMobile] },
+    { preHandler: [app.requireMobile, requirePermission('sessions:terminate')] },
     async (request, reply) => {
       const params = sessionIdParamSchema.safeParse(request.params);
       if (!params.success) {
@@ -975,11 +948,6 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
       const { reason } = body.data;
       const authUser = request.user;
 
-      // Only admins and owners can terminate sessions
-      if (authUser.role !== 'owner' && authUser.role !== 'admin') {
-        return reply.forbidden('Only administrators can terminate sessions');
-      }
-
       // Verify the session exists and user has access to its server
       const session = await db
         .select({
@@ -1001,6 +969,10 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden('You do not have access to this server');
       }
 
+      if (!hasPermission(authUser, 'sessions:terminate', sessionData.serverId)) {
+        return reply.forbidden(permissionDeniedMessage('sessions:terminate'));
+      }
+
       // Check if session is already stopped
       if (sessionData.state === 'stopped') {
         return reply.conflict('Session has already ended');
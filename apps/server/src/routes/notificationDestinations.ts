@@ -0,0 +1,508 @@
+/**
+ * Notification Destination routes - Named external notification targets
+ *
+ * Web admin endpoints:
+ * - GET /settings/notifications/destinations - List all destinations
+ * - POST /settings/notifications/destinations - Create a destination
+ * - PATCH /settings/notifications/destinations/:id - Update a destination
+ * - DELETE /settings/notifications/destinations/:id - Delete a destination
+ * - POST /settings/notifications/destinations/:id/test - Send a test notification
+ * - POST /settings/notifications/destinations/:id/digest - Send the usage digest now
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, arrayContains, asc, eq, inArray } from 'drizzle-orm';
+import {
+  createNotificationDestinationSchema,
+  notificationDestinationIdParamSchema,
+  sendDigestSchema,
+  updateNotificationDestinationSchema,
+  type DigestPeriod,
+  type NotificationDestination,
+  type NotificationDestinationConfig,
+  type NotificationDestinationType,
+  type NotificationEventType,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { notificationDestinations } from '../db/schema.js';
+import {
+  CREDENTIAL_URL_CONFIG_KEYS,
+  DEFAULT_DESTINATION_EVENTS,
+  DESTINATION_AGENTS,
+  SECRET_CONFIG_KEYS,
+  getMissingConfigKeys,
+  notificationManager,
+  pickDestinationConfig,
+  toNotificationSettings,
+} from '../services/notifications/index.js';
+import { recordAudit } from '../services/auditLog.js';
+import { sendDigest } from '../services/digest.js';
+import { requirePermission } from '../utils/permissions.js';
+
+// Value returned in place of stored secrets
+const MASKED_SECRET = '********';
+
+export type NotificationDestinationRow = typeof notificationDestinations.$inferSelect;
+
+/**
+ * Transform DB row to API response (secrets masked)
+ */
+function toApiResponse(row: NotificationDestinationRow): NotificationDestination {
+  const config: Record<string, unknown> = { ...row.config };
+  for (const key of SECRET_CONFIG_KEYS) {
+    if (config[key]) {
+      config[key] = MASKED_SECRET;
+    }
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    config,
+    enabled: row.enabled,
+    events: row.events,
+    minSeverity: row.minSeverity,
+    serverIds: row.serverIds,
+    digestFrequency: row.digestFrequency,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Keep only the origin of a URL that may carry credentials in its path or query
+ */
+function maskCredentialUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/${MASKED_SECRET}`;
+  } catch {
+    return MASKED_SECRET;
+  }
+}
+
+/**
+ * Destination state for the audit log (secrets and credential-bearing URLs masked).
+ * A value that differs from `previous` is recorded as changed without revealing either.
+ */
+function toAuditSnapshot(
+  row: NotificationDestinationRow,
+  previous?: NotificationDestinationRow
+): Record<string, unknown> {
+  const masked = toApiResponse(row);
+  const config: Record<string, unknown> = { ...masked.config };
+  if (previous) {
+    for (const key of SECRET_CONFIG_KEYS) {
+      if (row.config[key] && row.config[key] !== previous.config[key]) {
+        config[key] = `${MASKED_SECRET} (changed)`;
+      }
+    }
+  }
+  for (const key of CREDENTIAL_URL_CONFIG_KEYS) {
+    const url = row.config[key];
+    if (typeof url !== 'string' || !url) continue;
+    const changed = previous !== undefined && url !== previous.config[key];
+    config[key] = changed ? `${maskCredentialUrl(url)} (changed)` : maskCredentialUrl(url);
+  }
+  return {
+    name: masked.name,
+    type: masked.type,
+    config,
+    enabled: masked.enabled,
+    events: masked.events,
+    minSeverity: masked.minSeverity,
+    serverIds: masked.serverIds,
+    digestFrequency: masked.digestFrequency,
+  };
+}
+
+/**
+ * Keep the keys used by the destination type, normalizing URLs.
+ * Masked secrets echoed back by the UI are dropped so the stored value is kept.
+ */
+function sanitizeConfig(
+  type: NotificationDestinationType,
+  config: NotificationDestinationConfig
+): NotificationDestinationConfig {
+  const picked = pickDestinationConfig(type, config);
+
+  for (const key of SECRET_CONFIG_KEYS) {
+    if (picked[key] === MASKED_SECRET) {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete picked[key];
+    }
+  }
+
+  if (picked.matrixHomeserverUrl) {
+    picked.matrixHomeserverUrl = picked.matrixHomeserverUrl.replace(/\/+$/, '');
+  }
+
+  return picked;
+}
+
+/**
+ * Error message for a config missing required settings, or null when complete
+ */
+function getMissingConfigError(
+  type: NotificationDestinationType,
+  config: NotificationDestinationConfig
+): string | null {
+  const missing = getMissingConfigKeys(type, config);
+  if (missing.length === 0) {
+    return null;
+  }
+  return `Missing required settings for ${type}: ${missing.join(', ')}`;
+}
+
+export const notificationDestinationRoutes: FastifyPluginAsync = async (app) => {
+  const requireNotificationsManage = [app.authenticate, requirePermission('notifications:manage')];
+
+  /**
+   * GET /settings/notifications/destinations - List all destinations
+   */
+  app.get('/destinations', { preHandler: requireNotificationsManage }, async () => {
+    const rows = await db
+      .select()
+      .from(notificationDestinations)
+      .orderBy(asc(notificationDestinations.createdAt));
+
+    return rows.map(toApiResponse);
+  });
+
+  /**
+   * POST /settings/notifications/destinations - Create a destination
+   *
+   * Destinations subscribe to the high-priority events unless `events` is given.
+   */
+  app.post('/destinations', { preHandler: requireNotificationsManage }, async (request, reply) => {
+    const body = createNotificationDestinationSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('Invalid request body');
+    }
+
+    const authUser = request.user;
+
+    const { name, type, enabled, events, minSeverity, serverIds, digestFrequency } = body.data;
+    const config = sanitizeConfig(type, body.data.config);
+
+    const configError = getMissingConfigError(type, config);
+    if (configError) {
+      return reply.badRequest(configError);
+    }
+
+    const [row] = await db
+      .insert(notificationDestinations)
+      .values({
+        name,
+        type,
+        config,
+        enabled,
+        events: events ?? DEFAULT_DESTINATION_EVENTS,
+        minSeverity,
+        serverIds,
+        digestFrequency,
+      })
+      .returning();
+
+    if (!row) {
+      return reply.internalServerError('Failed to create notification destination');
+    }
+
+    app.log.info(
+      { userId: authUser.userId, destinationId: row.id, type },
+      'Notification destination created'
+    );
+
+    await recordAudit(request, {
+      action: 'destination.create',
+      targetType: 'destination',
+      targetId: row.id,
+      targetLabel: row.name,
+      after: toAuditSnapshot(row),
+    });
+
+    return reply.code(201).send(toApiResponse(row));
+  });
+
+  /**
+   * PATCH /settings/notifications/destinations/:id - Update a destination
+   *
+   * Config keys are merged into the stored config; null clears a key.
+   */
+  app.patch<{ Params: { id: string } }>(
+    '/destinations/:id',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = notificationDestinationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid destination ID');
+      }
+
+      const body = updateNotificationDestinationSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const authUser = request.user;
+
+      const [existing] = await db
+        .select()
+        .from(notificationDestinations)
+        .where(eq(notificationDestinations.id, params.data.id))
+        .limit(1);
+
+      if (!existing) {
+        return reply.notFound('Notification destination not found');
+      }
+
+      const updateData: Partial<typeof notificationDestinations.$inferInsert> = {
+        updatedAt: new Date(),
+      };
+
+      if (body.data.name !== undefined) {
+        updateData.name = body.data.name;
+      }
+
+      if (body.data.config !== undefined) {
+        const config = {
+          ...existing.config,
+          ...sanitizeConfig(existing.type, body.data.config),
+        };
+
+        const configError = getMissingConfigError(existing.type, config);
+        if (configError) {
+          return reply.badRequest(configError);
+        }
+
+        updateData.config = config;
+      }
+
+      if (body.data.enabled !== undefined) {
+        updateData.enabled = body.data.enabled;
+      }
+
+      if (body.data.events !== undefined) {
+        updateData.events = body.data.events;
+      }
+
+      if (body.data.minSeverity !== undefined) {
+        updateData.minSeverity = body.data.minSeverity;
+      }
+
+      if (body.data.serverIds !== undefined) {
+        updateData.serverIds = body.data.serverIds;
+      }
+
+      if (body.data.digestFrequency !== undefined) {
+        updateData.digestFrequency = body.data.digestFrequency;
+      }
+
+      const [row] = await db
+        .update(notificationDestinations)
+        .set(updateData)
+        .where(eq(notificationDestinations.id, existing.id))
+        .returning();
+
+      if (!row) {
+        return reply.internalServerError('Failed to update notification destination');
+      }
+
+      app.log.info(
+        { userId: authUser.userId, destinationId: row.id },
+        'Notification destination updated'
+      );
+
+      await recordAudit(request, {
+        action: 'destination.update',
+        targetType: 'destination',
+        targetId: row.id,
+        targetLabel: row.name,
+        before: toAuditSnapshot(existing),
+        after: toAuditSnapshot(row, existing),
+      });
+
+      return toApiResponse(row);
+    }
+  );
+
+  /**
+   * DELETE /settings/notifications/destinations/:id - Delete a destination
+   */
+  app.delete<{ Params: { id: string } }>(
+    '/destinations/:id',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = notificationDestinationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid destination ID');
+      }
+
+      const authUser = request.user;
+
+      const [deleted] = await db
+        .delete(notificationDestinations)
+        .where(eq(notificationDestinations.id, params.data.id))
+        .returning();
+
+      if (!deleted) {
+        return reply.notFound('Notification destination not found');
+      }
+
+      app.log.info(
+        { userId: authUser.userId, destinationId: params.data.id },
+        'Notification destination deleted'
+      );
+
+      await recordAudit(request, {
+        action: 'destination.delete',
+        targetType: 'destination',
+        targetId: deleted.id,
+        targetLabel: deleted.name,
+        before: toAuditSnapshot(deleted),
+      });
+
+      return { success: true };
+    }
+  );
+
+  /**
+   * POST /settings/notifications/destinations/:id/test - Send a test notification
+   *
+   * Uses the saved config, so disabled destinations can be tested before enabling them.
+   */
+  app.post<{ Params: { id: string } }>(
+    '/destinations/:id/test',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = notificationDestinationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid destination ID');
+      }
+
+      const [destination] = await db
+        .select()
+        .from(notificationDestinations)
+        .where(eq(notificationDestinations.id, params.data.id))
+        .limit(1);
+
+      if (!destination) {
+        return reply.notFound('Notification destination not found');
+      }
+
+      const result = await notificationManager.testAgent(
+        DESTINATION_AGENTS[destination.type],
+        toNotificationSettings(destination)
+      );
+
+      if (!result.success) {
+        return reply.code(502).send({
+          success: false,
+          error: result.error ?? 'Notification test failed',
+        });
+      }
+
+      return { success: true };
+    }
+  );
+
+  /**
+   * POST /settings/notifications/destinations/:id/digest - Send the usage digest now
+   *
+   * Sends the most recent complete period, using the destination's digest frequency
+   * unless a period is given (weekly for destinations without a schedule).
+   */
+  app.post<{ Params: { id: string } }>(
+    '/destinations/:id/digest',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = notificationDestinationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid destination ID');
+      }
+
+      const body = sendDigestSchema.safeParse(request.body ?? {});
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const [destination] = await db
+        .select()
+        .from(notificationDestinations)
+        .where(eq(notificationDestinations.id, params.data.id))
+        .limit(1);
+
+      if (!destination) {
+        return reply.notFound('Notification destination not found');
+      }
+
+      const period =
+        body.data.period ??
+        (destination.digestFrequency === 'off' ? 'weekly' : destination.digestFrequency);
+      const results = await sendDigest(destination, period);
+      const failure = results.find((result) => !result.success);
+
+      if (results.length === 0 || failure) {
+        return reply.code(502).send({
+          success: false,
+          error: failure?.error ?? 'Digest could not be sent',
+        });
+      }
+
+      return { success: true };
+    }
+  );
+};
+
+/**
+ * Enabled destinations subscribed to an event (internal use by the notification queue).
+ * Severity and server filters are applied by the caller against the payload.
+ */
+export async function getDestinationsForEvent(
+  eventType: NotificationEventType
+): Promise<NotificationDestinationRow[]> {
+  return db
+    .select()
+    .from(notificationDestinations)
+    .where(
+      and(
+        eq(notificationDestinations.enabled, true),
+        arrayContains(notificationDestinations.events, [eventType])
+      )
+    );
+}
+
+/**
+ * Enabled destinations of the given types (internal use for rule notifications,
+ * which name channel types instead of events)
+ */
+export async function getDestinationsByType(
+  types: NotificationDestinationType[]
+): Promise<NotificationDestinationRow[]> {
+  if (types.length === 0) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(notificationDestinations)
+    .where(
+      and(eq(notificationDestinations.enabled, true), inArray(notificationDestinations.type, types))
+    );
+}
+
+/**
+ * Enabled destinations receiving the digest for a period (internal use by the digest queue)
+ */
+export async function getDestinationsForDigest(
+  period: DigestPeriod
+): Promise<NotificationDestinationRow[]> {
+  return db
+    .select()
+    .from(notificationDestinations)
+    .where(
+      and(
+        eq(notificationDestinations.enabled, true),
+        eq(notificationDestinations.digestFrequency, period)
+      )
+    );
+}
@@ -0,0 +1,208 @@
+/**
+ * Notification Template routes - User-defined message templates per event and agent
+ *
+ * Web admin endpoints:
+ * - GET /settings/notifications/templates - List all templates
+ * - PUT /settings/notifications/templates/:eventType/:agent - Create or replace a template
+ * - DELETE /settings/notifications/templates/:eventType/:agent - Revert to built-in formatting
+ * - POST /settings/notifications/templates/preview - Render a template against sample data
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, eq } from 'drizzle-orm';
+import {
+  notificationTemplateParamsSchema,
+  previewNotificationTemplateSchema,
+  upsertNotificationTemplateSchema,
+  type NotificationTemplate,
+  type NotificationTemplateEventType,
+  type NotificationTemplatePreview,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { notificationTemplates } from '../db/schema.js';
+import {
+  buildSampleTemplateVariables,
+  findUnknownVariables,
+  renderTemplate,
+  templateKey,
+} from '../services/notifications/formatters/template.js';
+import type { NotificationTemplateSet } from '../services/notifications/types.js';
+import { requirePermission } from '../utils/permissions.js';
+
+/**
+ * Transform DB row to API response
+ */
+function toApiResponse(row: typeof notificationTemplates.$inferSelect): NotificationTemplate {
+  return {
+    id: row.id,
+    eventType: row.eventType,
+    agent: row.agent,
+    title: row.title,
+    body: row.body,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Reject templates that reference variables not available for the event
+ */
+function getUnknownVariablesError(
+  eventType: NotificationTemplateEventType,
+  title: string,
+  body: string
+): string | null {
+  const unknown = findUnknownVariables(`${title}\n${body}`, eventType);
+  if (unknown.length === 0) {
+    return null;
+  }
+  const list = unknown.map((name) => `{{${name}}}`).join(', ');
+  return `Unknown template variable${unknown.length > 1 ? 's' : ''} for ${eventType}: ${list}`;
+}
+
+export const notificationTemplateRoutes: FastifyPluginAsync = async (app) => {
+  const requireNotificationsManage = [app.authenticate, requirePermission('notifications:manage')];
+
+  /**
+   * GET /settings/notifications/templates - List all templates
+   *
+   * Requires owner authentication. Events/agents without a template use built-in formatting.
+   */
+  app.get('/templates', { preHandler: requireNotificationsManage }, async () => {
+    const rows = await db
+      .select()
+      .from(notificationTemplates)
+      .orderBy(notificationTemplates.eventType, notificationTemplates.agent);
+
+    return rows.map(toApiResponse);
+  });
+
+  /**
+   * PUT /settings/notifications/templates/:eventType/:agent - Create or replace a template
+   */
+  app.put<{ Params: { eventType: string; agent: string } }>(
+    '/templates/:eventType/:agent',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = notificationTemplateParamsSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid event type or agent');
+      }
+
+      const body = upsertNotificationTemplateSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const authUser = request.user;
+
+      const { eventType, agent } = params.data;
+      const { title, body: templateBody } = body.data;
+
+      const variablesError = getUnknownVariablesError(eventType, title, templateBody);
+      if (variablesError) {
+        return reply.badRequest(variablesError);
+      }
+
+      const [row] = await db
+        .insert(notificationTemplates)
+        .values({ eventType, agent, title, body: templateBody })
+        .onConflictDoUpdate({
+          target: [notificationTemplates.eventType, notificationTemplates.agent],
+          set: { title, body: templateBody, updatedAt: new Date() },
+        })
+        .returning();
+
+      if (!row) {
+        return reply.internalServerError('Failed to save notification template');
+      }
+
+      app.log.info({ userId: authUser.userId, eventType, agent }, 'Notification template saved');
+
+      return toApiResponse(row);
+    }
+  );
+
+  /**
+   * DELETE /settings/notifications/templates/:eventType/:agent - Revert to built-in formatting
+   */
+  app.delete<{ Params: { eventType: string; agent: string } }>(
+    '/templates/:eventType/:agent',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = notificationTemplateParamsSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid event type or agent');
+      }
+
+      const authUser = request.user;
+
+      const { eventType, agent } = params.data;
+      const deleted = await db
+        .delete(notificationTemplates)
+        .where(
+          and(
+            eq(notificationTemplates.eventType, eventType),
+            eq(notificationTemplates.agent, agent)
+          )
+        )
+        .returning({ id: notificationTemplates.id });
+
+      if (deleted.length === 0) {
+        return reply.notFound('Notification template not found');
+      }
+
+      app.log.info({ userId: authUser.userId, eventType, agent }, 'Notification template deleted');
+
+      return { success: true };
+    }
+  );
+
+  /**
+   * POST /settings/notifications/templates/preview - Render a template against sample data
+   *
+   * Does not save anything; used for live preview while editing.
+   */
+  app.post(
+    '/templates/preview',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const body = previewNotificationTemplateSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const { eventType, title, body: templateBody } = body.data;
+
+      const variablesError = getUnknownVariablesError(eventType, title, templateBody);
+      if (variablesError) {
+        return reply.badRequest(variablesError);
+      }
+
+      const variables = buildSampleTemplateVariables(eventType);
+      const preview: NotificationTemplatePreview = {
+        title: renderTemplate(title, variables),
+        body: renderTemplate(templateBody, variables),
+      };
+      return preview;
+    }
+  );
+};
+
+/**
+ * Get all user-defined templates keyed for lookup by the notification manager (internal use)
+ */
+export async function getNotificationTemplates(): Promise<NotificationTemplateSet> {
+  const rows = await db
+    .select({
+      eventType: notificationTemplates.eventType,
+      agent: notificationTemplates.agent,
+      title: notificationTemplates.title,
+      body: notificationTemplates.body,
+    })
+    .from(notificationTemplates);
+
+  return new Map(
+    rows.map((row) => [templateKey(row.eventType, row.agent), { title: row.title, body: row.body }])
+  );
+}
@@ -11,6 +11,7 @@ import {
   OpenApiGeneratorV3,
 } from '@asteasolutions/zod-to-openapi';
 import { z } from 'zod';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, SERVER_TYPES } from '@tracearr/shared';
 
 extendZodWithOpenApi(z);
 
@@ -23,18 +24,28 @@ export const registry = new OpenAPIRegistry();
 registry.registerComponent('securitySchemes', 'bearerAuth', {
   type: 'http',
   scheme: 'bearer',
-  description: 'API key format: trr_pub_<token>. Generate in Settings > General.',
+  description: 'API key format: trr_pub_<token>. Create scoped keys in Settings > General.',
 });
 
 // ============================================================================
 // Shared Enums (single source of truth)
 // ============================================================================
 
-const ServerTypeEnum = z.enum(['plex', 'jellyfin', 'emby']);
+const ServerTypeEnum = z.enum(SERVER_TYPES);
 const MediaTypeEnum = z.enum(['movie', 'episode', 'track', 'live', 'photo', 'unknown']);
 const PlaybackStateEnum = z.enum(['playing', 'paused', 'stopped']);
 const SeverityEnum = z.enum(['low', 'warning', 'high']);
-const UserRoleEnum = z.enum(['owner', 'admin', 'viewer', 'member', 'disabled', 'pending']);
+const AuditActionEnum = z.enum(AUDIT_ACTIONS);
+const AuditTargetTypeEnum = z.enum(AUDIT_TARGET_TYPES);
+const UserRoleEnum = z.enum([
+  'owner',
+  'admin',
+  'moderator',
+  'viewer',
+  'member',
+  'disabled',
+  'pending',
+]);
 const TranscodeDecisionEnum = z.enum(['directplay', 'copy', 'transcode']);
 
 // ============================================================================
@@ -231,7 +242,9 @@ registry.registerPath({
   path: '/api/v1/public/health',
   tags: ['Public API'],
   summary: 'Check server connectivity',
-  description: 'Returns connection status for all configured media servers.',
+  description:
+    'Returns connection status for all configured media servers (only the key server for ' +
+    'server-limited keys). Needs no scope.',
   security: [{ bearerAuth: [] }],
   responses: {
     200: {
@@ -271,7 +284,9 @@ registry.registerPath({
   path: '/api/v1/public/stats',
   tags: ['Public API'],
   summary: 'Dashboard statistics',
-  description: 'Aggregate counts for dashboard display. Optionally filter by server.',
+  description:
+    'Aggregate counts for dashboard display. Optionally filter by server. ' +
+    'Requires the stats:read scope.',
   security: [{ bearerAuth: [] }],
   request: { query: StatsQuery },
   responses: {
@@ -280,6 +295,7 @@ registry.registerPath({
       content: { 'application/json': { schema: StatsResponse } },
     },
     401: { description: 'Invalid or missing API key' },
+    403: { description: 'API key lacks the stats:read scope or is limited to another server' },
   },
 });
 
@@ -364,7 +380,8 @@ registry.registerPath({
   summary: 'Active playback sessions',
   description:
     'Real-time active streams with codec and quality details. ' +
-    'Use summary=true for lightweight dashboard polling (omits data array).',
+    'Use summary=true for lightweight dashboard polling (omits data array).' +
+    ' Requires the streams:read scope.',
   security: [{ bearerAuth: [] }],
   request: { query: StreamsQuery },
   responses: {
@@ -377,6 +394,7 @@ registry.registerPath({
       },
     },
     401: { description: 'Invalid or missing API key' },
+    403: { description: 'API key lacks the streams:read scope or is limited to another server' },
   },
 });
 
@@ -418,7 +436,8 @@ registry.registerPath({
   tags: ['Public API'],
   summary: 'User list with activity metrics',
   description:
-    'Paginated users with session counts and trust scores. Users with accounts on multiple servers appear once per server.',
+    'Paginated users with session counts and trust scores. Users with accounts on multiple servers appear once per server.' +
+    ' Requires the users:read scope.',
   security: [{ bearerAuth: [] }],
   request: { query: UsersQuery },
   responses: {
@@ -427,6 +446,7 @@ registry.registerPath({
       content: { 'application/json': { schema: UsersResponse } },
     },
     401: { description: 'Invalid or missing API key' },
+    403: { description: 'API key lacks the users:read scope or is limited to another server' },
   },
 });
 
@@ -472,7 +492,8 @@ registry.registerPath({
   tags: ['Public API'],
   summary: 'Rule violations',
   description:
-    'Paginated violations in descending order. Filter by server, severity, or acknowledged status.',
+    'Paginated violations in descending order. Filter by server, severity, or acknowledged status.' +
+    ' Requires the violations:read scope.',
   security: [{ bearerAuth: [] }],
   request: { query: ViolationsQuery },
   responses: {
@@ -481,6 +502,7 @@ registry.registerPath({
       content: { 'application/json': { schema: ViolationsResponse } },
     },
     401: { description: 'Invalid or missing API key' },
+    403: { description: 'API key lacks the violations:read scope or is limited to another server' },
   },
 });
 
@@ -545,7 +567,8 @@ registry.registerPath({
   summary: 'Session history',
   description:
     'Paginated session history grouped by unique plays. ' +
-    'Multiple pause/resume cycles are aggregated into a single entry with combined duration and segment count.',
+    'Multiple pause/resume cycles are aggregated into a single entry with combined duration and segment count.' +
+    ' Requires the history:read scope.',
   security: [{ bearerAuth: [] }],
   request: { query: HistoryQuery },
   responses: {
@@ -554,6 +577,235 @@ registry.registerPath({
       content: { 'application/json': { schema: HistoryResponse } },
     },
     401: { description: 'Invalid or missing API key' },
+    403: { description: 'API key lacks the history:read scope or is limited to another server' },
+  },
+});
+
+// ============================================================================
+// GET /audit-log
+// ============================================================================
+
+const AuditLogQuery = PaginationQuery.extend({
+  action: AuditActionEnum.optional(),
+  targetType: AuditTargetTypeEnum.optional(),
+  targetId: z.string().optional().openapi({ description: 'Filter by target (with targetType)' }),
+  actorUserId: z.uuid().optional().openapi({ description: 'Filter by the user who acted' }),
+  startDate: z.coerce.date().optional().openapi({ description: 'Entries at or after this time' }),
+  endDate: z.coerce.date().optional().openapi({ description: 'Entries at or before this time' }),
+});
+
+const AuditLogEntry = z
+  .object({
+    id: z.uuid(),
+    actorUserId: z.uuid().nullable(),
+    actorUsername: z.string().openapi({ example: 'admin' }),
+    apiKeyName: z
+      .string()
+      .nullable()
+      .openapi({ description: 'API key used, for actions made through this API' }),
+    action: AuditActionEnum,
+    targetType: AuditTargetTypeEnum,
+    targetId: z.string().nullable(),
+    targetLabel: z.string().nullable().openapi({ example: 'Max 2 concurrent streams' }),
+    before: z
+      .record(z.string(), z.unknown())
+      .nullable()
+      .openapi({ description: 'Changed fields before the action (null for creations)' }),
+    after: z
+      .record(z.string(), z.unknown())
+      .nullable()
+      .openapi({ description: 'Changed fields after the action (null for deletions)' }),
+    ipAddress: z.string().nullable().openapi({ example: '192.168.1.10' }),
+    createdAt: z.iso.datetime(),
+  })
+  .openapi('AuditLogEntry');
+
+const AuditLogResponse = z
+  .object({
+    data: z.array(AuditLogEntry),
+    meta: PaginationMeta,
+  })
+  .openapi('AuditLogResponse');
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/public/audit-log',
+  tags: ['Public API'],
+  summary: 'Audit log',
+  description:
+    'Paginated administrative actions (rule changes, acknowledgements, trust changes, deletions) ' +
+    'in descending order. Filter by action, target, actor, or time range. Requires the ' +
+    'audit:read scope and a key that is not limited to one server.',
+  security: [{ bearerAuth: [] }],
+  request: { query: AuditLogQuery },
+  responses: {
+    200: {
+      description: 'Audit log retrieved',
+      content: { 'application/json': { schema: AuditLogResponse } },
+    },
+    401: { description: 'Invalid or missing API key' },
+    403: { description: 'API key lacks the audit:read scope or is limited to one server' },
+  },
+});
+
+// ============================================================================
+// Write endpoints
+// ============================================================================
+
+const IdParam = z.object({ id: z.uuid() });
+
+const writeResponses = (scope: string) => ({
+  400: { description: 'Invalid request' },
+  401: { description: 'Invalid or missing API key' },
+  403: { description: `API key lacks the ${scope} scope or is limited to another server` },
+  404: { description: 'Target not found' },
+  429: { description: 'Write rate limit exceeded (30 per minute per key)' },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/public/streams/{id}/terminate',
+  tags: ['Public API'],
+  summary: 'Terminate a stream',
+  description:
+    'Stops an active stream on its media server. The reason is shown to the viewer on Plex. ' +
+    'Requires the streams:terminate scope.',
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: IdParam,
+    body: {
+      required: false,
+      content: {
+        'application/json': {
+          schema: z.object({
+            reason: z.string().max(500).optional().openapi({ example: 'Too many streams at once' }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Stop command sent',
+      content: {
+        'application/json': {
+          schema: z
+            .object({
+              success: z.literal(true),
+              outcome: z.enum(['terminated', 'already_gone']),
+              terminationLogId: z.uuid(),
+            })
+            .openapi('TerminateStreamResponse'),
+        },
+      },
+    },
+    ...writeResponses('streams:terminate'),
+    409: { description: 'Stream has already ended' },
+    500: { description: 'The media server refused the stop command' },
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/public/violations/{id}/acknowledge',
+  tags: ['Public API'],
+  summary: 'Acknowledge a violation',
+  description:
+    'Marks a violation as acknowledged. Acknowledging it again is a no-op. ' +
+    'Requires the violations:ack scope.',
+  security: [{ bearerAuth: [] }],
+  request: { params: IdParam },
+  responses: {
+    200: {
+      description: 'Violation acknowledged',
+      content: {
+        'application/json': {
+          schema: z
+            .object({ success: z.literal(true), acknowledgedAt: z.iso.datetime() })
+            .openapi('AcknowledgeViolationResponse'),
+        },
+      },
+    },
+    ...writeResponses('violations:ack'),
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/public/rules/{id}/toggle',
+  tags: ['Public API'],
+  summary: 'Enable or disable a rule',
+  description:
+    'Sets whether a rule is active. Global rules can only be toggled by keys that are not ' +
+    'limited to one server. Requires the rules:toggle scope.',
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: IdParam,
+    body: {
+      content: { 'application/json': { schema: z.object({ isActive: z.boolean() }) } },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Rule updated',
+      content: {
+        'application/json': {
+          schema: z
+            .object({ id: z.uuid(), name: z.string(), isActive: z.boolean() })
+            .openapi('ToggleRuleResponse'),
+        },
+      },
+    },
+    ...writeResponses('rules:toggle'),
+  },
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/public/users/{id}/trust',
+  tags: ['Public API'],
+  summary: "Set or adjust a user's trust score",
+  description:
+    'Trust scores are kept per server, so pass serverId (implied for server-limited keys). ' +
+    'Send either score (0-100) or delta (e.g. -10). The change is recorded in the trust ' +
+    'score history. Requires the users:trust scope.',
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: IdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            serverId: z.uuid().optional(),
+            score: z.number().int().min(0).max(100).optional().openapi({ example: 80 }),
+            delta: z.number().int().min(-100).max(100).optional().openapi({ example: -10 }),
+            reason: z
+              .string()
+              .max(200)
+              .optional()
+              .openapi({ description: 'Shown in the trust score history' }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Trust score updated (unchanged if already at the target)',
+      content: {
+        'application/json': {
+          schema: z
+            .object({
+              userId: z.uuid(),
+              serverId: z.uuid(),
+              previousScore: z.number().int(),
+              trustScore: z.number().int(),
+            })
+            .openapi('TrustScoreResponse'),
+        },
+      },
+    },
+    ...writeResponses('users:trust'),
   },
 });
 
@@ -580,7 +832,16 @@ All endpoints require Bearer token authentication:
 Authorization: Bearer trr_pub_<your_token>
 \`\`\`
 
-Generate your API key in **Settings > General**.
+Create API keys in **Settings > General**. Each key has a name, read scopes
+(\`stats:read\`, \`streams:read\`, \`users:read\`, \`violations:read\`, \`history:read\`,
+\`audit:read\`), an optional expiry, and can be limited to one media server. Requests
+outside a key's scopes return 403; a server-limited key only ever sees its server.
+
+## Actions
+
+Write endpoints need their own scopes: \`streams:terminate\`, \`violations:ack\`,
+\`rules:toggle\` and \`users:trust\`. Each key may make 30 write calls per minute, and
+every action is recorded in the audit log with the name of the key that made it.
 
 ## Pagination
 
@@ -4,6 +4,10 @@
  * All routes require Bearer token authentication via Authorization header.
  * Token format: Authorization: Bearer trr_pub_<base64url>
  *
+ * Each key carries scopes and may be limited to one server, in which case
+ * every response only covers that server and writes outside it are refused.
+ * Write calls are rate-limited per key and recorded in the audit log.
+ *
  * Endpoints:
  * - GET /docs - OpenAPI 3.0 specification (JSON)
  * - GET /health - System health and server connectivity
@@ -12,12 +16,19 @@
  * - GET /users - User list with activity summary
  * - GET /violations - Violations list with filtering
  * - GET /history - Session history with filtering
+ * - GET /audit-log - Administrative actions with filtering
+ * - POST /streams/:id/terminate - Stop an active stream
+ * - POST /violations/:id/acknowledge - Acknowledge a violation
+ * - POST /rules/:id/toggle - Enable or disable a rule
+ * - POST /users/:id/trust - Set or adjust a user's trust score on one server
  */
 
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
 import { eq, desc, sql, and, gte, isNull, isNotNull } from 'drizzle-orm';
 import { z } from 'zod';
 import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
   formatBitrate,
   booleanStringSchema,
   isValidTimezone,
@@ -36,6 +47,13 @@ import { users, serverUsers, servers, sessions, violations, rules } from '../db/
 import { getCacheService } from '../services/cache.js';
 import { generateOpenAPIDocument } from './public.openapi.js';
 import { buildPosterUrl, buildAvatarUrl } from '../services/imageProxy.js';
+import { listAuditLog, recordAudit } from '../services/auditLog.js';
+import { terminateSession } from '../services/termination.js';
+import { acknowledgeViolation, getViolationAckTarget } from '../services/violations.js';
+import { applyTrustScoreChange, notifyTrustScoreChange } from '../services/trustScore.js';
+import { scheduleInactivityChecks, hasInactivityCondition } from '../jobs/inactivityCheckQueue.js';
+import { hashApiToken } from '../plugins/auth.js';
+import { getApiKeyServerId, requireApiScope } from '../utils/permissions.js';
 
 interface StreamCodecData {
   sourceVideoCodec: string | null;
@@ -58,6 +76,47 @@ function formatDisplayValues(data: StreamCodecData) {
   };
 }
 
+// Write calls allowed per API key per minute (on top of the global per-IP limit)
+const WRITE_RATE_LIMIT_PER_MINUTE = 30;
+
+const writeRouteConfig = {
+  rateLimit: {
+    max: WRITE_RATE_LIMIT_PER_MINUTE,
+    timeWindow: '1 minute',
+    // Runs before authentication, so key on the (hashed) bearer token
+    keyGenerator: (request: FastifyRequest) =>
+      hashApiToken(request.headers.authorization ?? request.ip),
+  },
+};
+
+const idParamSchema = z.object({ id: z.uuid() });
+
+const terminateBodySchema = z
+  .object({ reason: z.string().trim().max(500).optional() })
+  .nullish()
+  .transform((body) => body ?? {});
+
+const toggleRuleBodySchema = z.object({ isActive: z.boolean() });
+
+const trustBodySchema = z
+  .object({
+    serverId: z.uuid().optional(),
+    score: z.number().int().min(0).max(100).optional(),
+    delta: z.number().int().min(-100).max(100).optional(),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .refine((body) => (body.score === undefined) !== (body.delta === undefined), {
+    message: 'Provide either score or delta',
+  });
+
+/**
+ * Whether a public API key may act on a server (keys without a server act everywhere)
+ */
+function keyCoversServer(request: FastifyRequest, serverId: string | null): boolean {
+  const keyServerId = request.publicApiContext?.serverId;
+  return !keyServerId || keyServerId === serverId;
+}
+
 // Pagination schema for public API
 const paginationSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
@@ -145,6 +204,17 @@ function paginatedResponse<T>(
 }
 
 export const publicRoutes: FastifyPluginAsync = async (app) => {
+  const requireStatsRead = [app.authenticatePublicApi, requireApiScope('stats:read')];
+  const requireStreamsRead = [app.authenticatePublicApi, requireApiScope('streams:read')];
+  const requireUsersRead = [app.authenticatePublicApi, requireApiScope('users:read')];
+  const requireViolationsRead = [app.authenticatePublicApi, requireApiScope('violations:read')];
+  const requireHistoryRead = [app.authenticatePublicApi, requireApiScope('history:read')];
+  const requireAuditRead = [app.authenticatePublicApi, requireApiScope('audit:read')];
+  const requireStreamsTerminate = [app.authenticatePublicApi, requireApiScope('streams:terminate')];
+  const requireViolationsAck = [app.authenticatePublicApi, requireApiScope('violations:ack')];
+  const requireRulesToggle = [app.authenticatePublicApi, requireApiScope('rules:toggle')];
+  const requireUsersTrust = [app.authenticatePublicApi, requireApiScope('users:trust')];
+
   /**
    * GET /docs - OpenAPI 3.0 specification
    * No authentication required - allows integrations to discover the API
@@ -200,8 +270,9 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /health - System health and server connectivity
    */
-  app.get('/health', { preHandler: [app.authenticatePublicApi] }, async () => {
-    // Get all servers
+  app.get('/health', { preHandler: [app.authenticatePublicApi] }, async (request) => {
+    // Get all servers (or only the key's server)
+    const serverId = getApiKeyServerId(request, undefined);
     const allServers = await db
       .select({
         id: servers.id,
@@ -209,6 +280,7 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
         type: servers.type,
       })
       .from(servers)
+      .where(serverId ? eq(servers.id, serverId) : undefined)
       .orderBy(servers.displayOrder);
 
     // Get cached health state and active sessions
@@ -244,9 +316,9 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /stats - Dashboard overview statistics
    */
-  app.get('/stats', { preHandler: [app.authenticatePublicApi] }, async (request) => {
+  app.get('/stats', { preHandler: requireStatsRead }, async (request) => {
     const query = serverFilterSchema.safeParse(request.query);
-    const serverId = query.success ? query.data.serverId : undefined;
+    const serverId = getApiKeyServerId(request, query.success ? query.data.serverId : undefined);
 
     // Get active streams
     const cacheService = getCacheService();
@@ -300,9 +372,9 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
    *   - serverId: Filter to specific server
    *   - summary: If true, returns only summary stats (omits data array for lighter payload)
    */
-  app.get('/streams', { preHandler: [app.authenticatePublicApi] }, async (request) => {
+  app.get('/streams', { preHandler: requireStreamsRead }, async (request) => {
     const query = streamsQuerySchema.safeParse(request.query);
-    const serverId = query.success ? query.data.serverId : undefined;
+    const serverId = getApiKeyServerId(request, query.success ? query.data.serverId : undefined);
     const summaryOnly = query.success ? query.data.summary : false;
 
     const cacheService = getCacheService();
@@ -444,7 +516,7 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
    * GET /users - User list with activity summary
    * Returns user-server pairs (a user with accounts on multiple servers appears multiple times)
    */
-  app.get('/users', { preHandler: [app.authenticatePublicApi] }, async (request, reply) => {
+  app.get('/users', { preHandler: requireUsersRead }, async (request, reply) => {
     const pagination = paginationSchema.safeParse(request.query);
     const filter = serverFilterSchema.safeParse(request.query);
 
@@ -453,7 +525,7 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
     }
 
     const { page, pageSize } = pagination.data;
-    const serverId = filter.success ? filter.data.serverId : undefined;
+    const serverId = getApiKeyServerId(request, filter.success ? filter.data.serverId : undefined);
     const offset = (page - 1) * pageSize;
 
     const whereClause = serverId ? eq(serverUsers.serverId, serverId) : undefined;
@@ -514,7 +586,7 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /violations - Violations list with filtering
    */
-  app.get('/violations', { preHandler: [app.authenticatePublicApi] }, async (request, reply) => {
+  app.get('/violations', { preHandler: requireViolationsRead }, async (request, reply) => {
     const querySchema = paginationSchema.extend({
       serverId: z.uuid().optional(),
       severity: z.enum(['low', 'warning', 'high']).optional(),
@@ -526,7 +598,8 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
       return reply.badRequest('Invalid query parameters');
     }
 
-    const { page, pageSize, serverId, severity, acknowledged } = query.data;
+    const { page, pageSize, severity, acknowledged } = query.data;
+    const serverId = getApiKeyServerId(request, query.data.serverId);
     const offset = (page - 1) * pageSize;
 
     // Build where conditions - join with serverUsers to get serverId
@@ -611,7 +684,7 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
    * individual session records. Multiple pause/resume cycles for the same content
    * are aggregated into a single row with combined duration (matches Web UI behavior).
    */
-  app.get('/history', { preHandler: [app.authenticatePublicApi] }, async (request, reply) => {
+  app.get('/history', { preHandler: requireHistoryRead }, async (request, reply) => {
     const querySchema = paginationSchema.extend({
       serverId: z.uuid().optional(),
       state: z.enum(['playing', 'paused', 'stopped']).optional(),
@@ -626,7 +699,8 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
       return reply.badRequest('Invalid query parameters');
     }
 
-    const { page, pageSize, serverId, state, mediaType, startDate, endDate, timezone } = query.data;
+    const { page, pageSize, state, mediaType, startDate, endDate, timezone } = query.data;
+    const serverId = getApiKeyServerId(request, query.data.serverId);
     const offset = (page - 1) * pageSize;
 
     // Validate date range
@@ -842,4 +916,286 @@ export const publicRoutes: FastifyPluginAsync = async (app) => {
 
     return paginatedResponse(sessionData, total, page, pageSize);
   });
+
+  /**
+   * GET /audit-log - Administrative actions with filtering (newest first)
+   */
+  app.get('/audit-log', { preHandler: requireAuditRead }, async (request, reply) => {
+    // Audit entries span every server
+    if (request.publicApiContext?.serverId) {
+      return reply.forbidden('The audit log requires a key that is not limited to one server');
+    }
+
+    const querySchema = paginationSchema.extend({
+      action: z.enum(AUDIT_ACTIONS).optional(),
+      targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+      targetId: z.string().max(255).optional(),
+      actorUserId: z.uuid().optional(),
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional(),
+    });
+
+    const query = querySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest('Invalid query parameters');
+    }
+
+    const { page, pageSize, ...filters } = query.data;
+    const { data, total } = await listAuditLog(filters, page, pageSize);
+
+    const entries = data.map((entry) => ({
+      ...entry,
+      createdAt: entry.createdAt.toISOString(),
+    }));
+
+    return paginatedResponse(entries, total, page, pageSize);
+  });
+
+  /**
+   * POST /streams/:id/terminate - Stop an active stream
+   */
+  app.post(
+    '/streams/:id/terminate',
+    { preHandler: requireStreamsTerminate, config: writeRouteConfig },
+    async (request, reply) => {
+      const params = idParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid stream ID');
+      }
+      const body = terminateBodySchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const [session] = await db
+        .select({
+          id: sessions.id,
+          serverId: sessions.serverId,
+          state: sessions.state,
+          mediaTitle: sessions.mediaTitle,
+          username: serverUsers.username,
+        })
+        .from(sessions)
+        .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+        .where(eq(sessions.id, params.data.id))
+        .limit(1);
+
+      if (!session) {
+        return reply.notFound('Stream not found');
+      }
+      if (!keyCoversServer(request, session.serverId)) {
+        return reply.forbidden('API key is limited to another server');
+      }
+      if (session.state === 'stopped') {
+        return reply.conflict('Stream has already ended');
+      }
+
+      const result = await terminateSession({
+        sessionId: session.id,
+        trigger: 'manual',
+        triggeredByUserId: request.publicApiContext?.userId,
+        reason: body.data.reason,
+      });
+
+      await recordAudit(request, {
+        action: 'session.terminate',
+        targetType: 'session',
+        targetId: session.id,
+        targetLabel: `${session.username} · ${session.mediaTitle}`,
+        after: { outcome: result.outcome, reason: body.data.reason ?? null },
+      });
+
+      if (!result.success) {
+        app.log.error(
+          { sessionId: session.id, error: result.error, apiKeyId: request.publicApiContext?.keyId },
+          'Failed to terminate stream via public API'
+        );
+        return reply.code(500).send({
+          success: false,
+          error: result.error,
+          terminationLogId: result.terminationLogId,
+        });
+      }
+
+      return {
+        success: true,
+        outcome: result.outcome,
+        terminationLogId: result.terminationLogId,
+      };
+    }
+  );
+
+  /**
+   * POST /violations/:id/acknowledge - Acknowledge a violation
+   * Acknowledging an already acknowledged violation is a no-op.
+   */
+  app.post(
+    '/violations/:id/acknowledge',
+    { preHandler: requireViolationsAck, config: writeRouteConfig },
+    async (request, reply) => {
+      const params = idParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid violation ID');
+      }
+
+      const violation = await getViolationAckTarget(params.data.id);
+      if (!violation) {
+        return reply.notFound('Violation not found');
+      }
+      if (!keyCoversServer(request, violation.serverId)) {
+        return reply.forbidden('API key is limited to another server');
+      }
+
+      if (violation.acknowledgedAt) {
+        return { success: true, acknowledgedAt: violation.acknowledgedAt.toISOString() };
+      }
+
+      const acknowledgedAt = await acknowledgeViolation(request, violation);
+      if (!acknowledgedAt) {
+        return reply.internalServerError('Failed to acknowledge violation');
+      }
+
+      return { success: true, acknowledgedAt: acknowledgedAt.toISOString() };
+    }
+  );
+
+  /**
+   * POST /rules/:id/toggle - Enable or disable a rule
+   * Global rules can only be toggled by keys that are not limited to one server.
+   */
+  app.post(
+    '/rules/:id/toggle',
+    { preHandler: requireRulesToggle, config: writeRouteConfig },
+    async (request, reply) => {
+      const params = idParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid rule ID');
+      }
+      const body = toggleRuleBodySchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const [rule] = await db
+        .select({
+          id: rules.id,
+          name: rules.name,
+          isActive: rules.isActive,
+          serverId: sql<string | null>`coalesce(${rules.serverId}, ${serverUsers.serverId})`,
+        })
+        .from(rules)
+        .leftJoin(serverUsers, eq(rules.serverUserId, serverUsers.id))
+        .where(eq(rules.id, params.data.id))
+        .limit(1);
+
+      if (!rule) {
+        return reply.notFound('Rule not found');
+      }
+      if (!keyCoversServer(request, rule.serverId)) {
+        return reply.forbidden('API key is limited to another server');
+      }
+
+      const { isActive } = body.data;
+      if (rule.isActive === isActive) {
+        return { id: rule.id, name: rule.name, isActive };
+      }
+
+      const [updated] = await db
+        .update(rules)
+        .set({ isActive, updatedAt: new Date() })
+        .where(eq(rules.id, rule.id))
+        .returning({ id: rules.id, name: rules.name, conditions: rules.conditions });
+
+      if (!updated) {
+        return reply.internalServerError('Failed to update rule');
+      }
+
+      await recordAudit(request, {
+        action: 'rule.toggle',
+        targetType: 'rule',
+        targetId: updated.id,
+        targetLabel: updated.name,
+        before: { isActive: rule.isActive },
+        after: { isActive },
+      });
+
+      // Reschedule inactivity checks if this rule has inactivity conditions
+      if (hasInactivityCondition(updated.conditions)) {
+        void scheduleInactivityChecks();
+      }
+
+      return { id: updated.id, name: updated.name, isActive };
+    }
+  );
+
+  /**
+   * POST /users/:id/trust - Set or adjust a user's trust score on one server
+   *
+   * Trust scores are kept per server account, so serverId is required unless
+   * the key is limited to one server.
+   */
+  app.post(
+    '/users/:id/trust',
+    { preHandler: requireUsersTrust, config: writeRouteConfig },
+    async (request, reply) => {
+      const params = idParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+      const body = trustBodySchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const context = request.publicApiContext;
+      if (!context) {
+        return reply.unauthorized('Invalid API key');
+      }
+      const serverId = getApiKeyServerId(request, body.data.serverId);
+      if (!serverId) {
+        return reply.badRequest('serverId is required');
+      }
+
+      const [serverUser] = await db
+        .select({ id: serverUsers.id, trustScore: serverUsers.trustScore })
+        .from(serverUsers)
+        .where(and(eq(serverUsers.userId, params.data.id), eq(serverUsers.serverId, serverId)))
+        .limit(1);
+
+      if (!serverUser) {
+        return reply.notFound('User not found on this server');
+      }
+
+      const { score, delta, reason } = body.data;
+      const change = await applyTrustScoreChange(
+        db,
+        serverUser.id,
+        score !== undefined ? { score } : { delta: delta ?? 0 },
+        {
+          source: 'manual',
+          reason: reason || `Set by @${context.username} via API key "${context.keyName}"`,
+          changedByUserId: context.userId,
+        }
+      );
+
+      if (change) {
+        await recordAudit(request, {
+          action: 'user.trust_update',
+          targetType: 'server_user',
+          targetId: change.serverUserId,
+          targetLabel: change.username,
+          before: { trustScore: change.previousScore },
+          after: { trustScore: change.newScore },
+        });
+      }
+      await notifyTrustScoreChange(change);
+
+      return {
+        userId: params.data.id,
+        serverId,
+        previousScore: serverUser.trustScore,
+        trustScore: change?.newScore ?? serverUser.trustScore,
+      };
+    }
+  );
 };
@@ -0,0 +1,186 @@
+/**
+ * Rule exemption routes - Skip rules for trusted users
+ *
+ * - POST /rule-exemptions - Exempt a server user or identity from a rule (or all rules)
+ * - DELETE /rule-exemptions/:id - Revoke an exemption (kept in the user's history)
+ *
+ * Exemption history is listed per user by GET /users/:id/exemptions.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq } from 'drizzle-orm';
+import {
+  createRuleExemptionSchema,
+  hasPermission,
+  ruleExemptionIdParamSchema,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { ruleExemptions, rules, serverUsers, users } from '../db/schema.js';
+import { recordAudit } from '../services/auditLog.js';
+import { requirePermission } from '../utils/permissions.js';
+
+export const ruleExemptionRoutes: FastifyPluginAsync = async (app) => {
+  const requireRulesWrite = [app.authenticate, requirePermission('rules:write')];
+
+  /**
+   * POST /rule-exemptions - Create an exemption
+   *
+   * Exactly one of serverUserId (one account) or userId (every account of an
+   * identity) is required. Without ruleId the exemption covers every rule.
+   */
+  app.post('/', { preHandler: requireRulesWrite }, async (request, reply) => {
+    const body = createRuleExemptionSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest(`Invalid request body: ${body.error.message}`);
+    }
+
+    const authUser = request.user;
+
+    const { serverUserId, userId, ruleId, reason, expiresAt } = body.data;
+
+    // Shown in the audit log
+    let targetLabel: string | null = null;
+
+    if (serverUserId) {
+      const [serverUser] = await db
+        .select({ serverId: serverUsers.serverId, username: serverUsers.username })
+        .from(serverUsers)
+        .where(eq(serverUsers.id, serverUserId))
+        .limit(1);
+
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+      if (!hasPermission(authUser, 'rules:write', serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+      targetLabel = serverUser.username;
+    }
+
+    if (userId) {
+      const [identity] = await db
+        .select({ id: users.id, username: users.username })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+
+      if (!identity) {
+        return reply.notFound('User not found');
+      }
+      // Identity exemptions cover accounts on every server
+      if (!hasPermission(authUser, 'rules:write')) {
+        return reply.forbidden('You do not have access to this user');
+      }
+      targetLabel = identity.username;
+    }
+
+    if (ruleId) {
+      const [rule] = await db
+        .select({ id: rules.id })
+        .from(rules)
+        .where(eq(rules.id, ruleId))
+        .limit(1);
+
+      if (!rule) {
+        return reply.notFound('Rule not found');
+      }
+    }
+
+    const [row] = await db
+      .insert(ruleExemptions)
+      .values({
+        serverUserId: serverUserId ?? null,
+        userId: userId ?? null,
+        ruleId: ruleId ?? null,
+        reason,
+        expiresAt: expiresAt ?? null,
+        createdByUserId: authUser.userId,
+      })
+      .returning();
+
+    if (!row) {
+      return reply.internalServerError('Failed to create exemption');
+    }
+
+    app.log.info(
+      {
+        userId: authUser.userId,
+        exemptionId: row.id,
+        serverUserId: row.serverUserId,
+        identityId: row.userId,
+        ruleId: row.ruleId,
+        expiresAt: row.expiresAt,
+      },
+      'Rule exemption created'
+    );
+
+    await recordAudit(request, {
+      action: 'rule_exemption.create',
+      targetType: 'rule_exemption',
+      targetId: row.id,
+      targetLabel,
+      after: {
+        serverUserId: row.serverUserId,
+        userId: row.userId,
+        ruleId: row.ruleId,
+        reason: row.reason,
+        expiresAt: row.expiresAt,
+      },
+    });
+
+    return reply.code(201).send(row);
+  });
+
+  /**
+   * DELETE /rule-exemptions/:id - Revoke an exemption
+   */
+  app.delete('/:id', { preHandler: requireRulesWrite }, async (request, reply) => {
+    const params = ruleExemptionIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid exemption ID');
+    }
+
+    const authUser = request.user;
+
+    const [existing] = await db
+      .select({
+        id: ruleExemptions.id,
+        revokedAt: ruleExemptions.revokedAt,
+        serverId: serverUsers.serverId,
+        username: serverUsers.username,
+      })
+      .from(ruleExemptions)
+      .leftJoin(serverUsers, eq(ruleExemptions.serverUserId, serverUsers.id))
+      .where(eq(ruleExemptions.id, params.data.id))
+      .limit(1);
+
+    if (!existing) {
+      return reply.notFound('Exemption not found');
+    }
+    if (!hasPermission(authUser, 'rules:write', existing.serverId)) {
+      return reply.forbidden('You do not have access to this exemption');
+    }
+    if (existing.revokedAt) {
+      return reply.conflict('Exemption is already revoked');
+    }
+
+    const [row] = await db
+      .update(ruleExemptions)
+      .set({ revokedAt: new Date(), revokedByUserId: authUser.userId })
+      .where(eq(ruleExemptions.id, existing.id))
+      .returning();
+
+    app.log.info({ userId: authUser.userId, exemptionId: existing.id }, 'Rule exemption revoked');
+
+    await recordAudit(request, {
+      action: 'rule_exemption.revoke',
+      targetType: 'rule_exemption',
+      targetId: existing.id,
+      targetLabel: existing.username,
+      before: { revokedAt: null },
+      after: { revokedAt: row?.revokedAt ?? null },
+    });
+
+    return row;
+  });
+};
@@ -16,11 +16,19 @@ import {
   bulkUpdateRulesSchema,
   bulkDeleteRulesSchema,
   bulkMigrateRulesSchema,
+  ruleBacktestSchema,
+  hasPermission,
+} from '@tracearr/shared';
+import type {
+  RuleConditions,
+  RuleActions,
+  RuleSchedule,
+  ViolationSeverity,
 } from '@tracearr/shared';
-import type { RuleConditions, RuleActions, ViolationSeverity } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { rules, serverUsers, violations, servers } from '../db/schema.js';
 import { hasServerAccess } from '../utils/serverFiltering.js';
+import { permissionDeniedMessage, requirePermission } from '../utils/permissions.js';
 import { scheduleInactivityChecks, hasInactivityCondition } from '../jobs/inactivityCheckQueue.js';
 import {
   needsMigration,
@@ -28,8 +36,60 @@ import {
   migrateRules,
   type LegacyRule,
 } from '../services/rules/migration.js';
+import { backtestRule } from '../services/rules/backtest.js';
+import { recordAudit, type AuditEvent } from '../services/auditLog.js';
+
+// Rule fields captured in audit log snapshots
+const AUDITED_RULE_FIELDS = [
+  'name',
+  'description',
+  'type',
+  'params',
+  'conditions',
+  'actions',
+  'severity',
+  'serverId',
+  'serverUserId',
+  'isActive',
+  'schedule',
+  'snoozedUntil',
+];
+
+/**
+ * Pick the audited fields present on a rule row
+ */
+function toRuleAuditState(
+  rule: object,
+  fields: string[] = AUDITED_RULE_FIELDS
+): Record<string, unknown> {
+  const source = rule as Record<string, unknown>;
+  return Object.fromEntries(
+    fields.filter((field) => field in source).map((field) => [field, source[field]])
+  );
+}
+
+/**
+ * Audit event for a rule update; enabling or disabling alone counts as a toggle
+ */
+function ruleUpdateAuditEvent(
+  existingRule: object,
+  updatedRule: { id: string; name: string },
+  updateData: object
+): AuditEvent {
+  const fields = Object.keys(updateData).filter((field) => field !== 'updatedAt');
+  return {
+    action: fields.length === 1 && fields[0] === 'isActive' ? 'rule.toggle' : 'rule.update',
+    targetType: 'rule',
+    targetId: updatedRule.id,
+    targetLabel: updatedRule.name,
+    before: toRuleAuditState(existingRule, fields),
+    after: toRuleAuditState(updatedRule, fields),
+  };
+}
 
 export const ruleRoutes: FastifyPluginAsync = async (app) => {
+  const requireRulesWrite = [app.authenticate, requirePermission('rules:write')];
+
   /**
    * GET /rules - List all rules
    *
@@ -60,6 +120,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         serverUserServerId: serverUsers.serverId,
         serverName: servers.name,
         isActive: rules.isActive,
+        schedule: rules.schedule,
+        snoozedUntil: rules.snoozedUntil,
         createdAt: rules.createdAt,
         updatedAt: rules.updatedAt,
       })
@@ -93,7 +155,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /rules - Create a new rule
    */
-  app.post('/', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/', { preHandler: requireRulesWrite }, async (request, reply) => {
     const body = createRuleSchema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest('Invalid request body');
@@ -101,11 +163,6 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
 
     const authUser = request.user;
 
-    // Only owners can create rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can create rules');
-    }
-
     const { name, type, params, serverUserId, isActive } = body.data;
 
     // Verify serverUserId exists and user has access if provided
@@ -124,10 +181,12 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.notFound('Server user not found');
       }
 
-      // Verify owner has access to this server
-      if (!hasServerAccess(authUser, serverUser.serverId)) {
+      if (!hasPermission(authUser, 'rules:write', serverUser.serverId)) {
         return reply.forbidden('You do not have access to this server');
       }
+    } else if (!hasPermission(authUser, 'rules:write')) {
+      // Global rules apply to every server
+      return reply.forbidden(permissionDeniedMessage('rules:write'));
     }
 
     // Create rule
@@ -147,6 +206,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to create rule');
     }
 
+    await recordAudit(request, {
+      action: 'rule.create',
+      targetType: 'rule',
+      targetId: rule.id,
+      targetLabel: rule.name,
+      after: toRuleAuditState(rule),
+    });
+
     // Reschedule inactivity checks if this is an inactivity rule
     if (type === 'account_inactivity') {
       void scheduleInactivityChecks();
@@ -158,7 +225,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /rules/v2 - Create a new V2 rule with conditions and actions
    */
-  app.post('/v2', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/v2', { preHandler: requireRulesWrite }, async (request, reply) => {
     const body = createRuleV2Schema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest(`Invalid request body: ${body.error.message}`);
@@ -166,12 +233,17 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
 
     const authUser = request.user;
 
-    // Only owners can create rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can create rules');
-    }
-
-    const { name, description, serverId, isActive, severity, conditions, actions } = body.data;
+    const {
+      name,
+      description,
+      serverId,
+      isActive,
+      severity,
+      conditions,
+      actions,
+      schedule,
+      snoozedUntil,
+    } = body.data;
 
     // Verify serverId exists and user has access if provided
     if (serverId) {
@@ -185,10 +257,12 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.notFound('Server not found');
       }
 
-      // Verify owner has access to this server
-      if (!hasServerAccess(authUser, serverId)) {
+      if (!hasPermission(authUser, 'rules:write', serverId)) {
         return reply.forbidden('You do not have access to this server');
       }
+    } else if (!hasPermission(authUser, 'rules:write')) {
+      // Global rules apply to every server
+      return reply.forbidden(permissionDeniedMessage('rules:write'));
     }
 
     // Create rule with V2 format
@@ -202,6 +276,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         severity,
         conditions,
         actions,
+        schedule: schedule ?? null,
+        snoozedUntil: snoozedUntil ?? null,
       })
       .returning();
 
@@ -210,6 +286,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to create rule');
     }
 
+    await recordAudit(request, {
+      action: 'rule.create',
+      targetType: 'rule',
+      targetId: rule.id,
+      targetLabel: rule.name,
+      after: toRuleAuditState(rule),
+    });
+
     // Reschedule inactivity checks if this V2 rule has inactivity conditions
     if (hasInactivityCondition(conditions)) {
       void scheduleInactivityChecks();
@@ -218,6 +302,29 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     return reply.status(201).send(rule);
   });
 
+  /**
+   * POST /rules/v2/backtest - Dry-run a draft V2 rule against stored sessions
+   *
+   * Returns the violations the rule would have created and the actions that
+   * would have fired. Nothing is saved or executed.
+   */
+  app.post('/v2/backtest', { preHandler: requireRulesWrite }, async (request, reply) => {
+    const body = ruleBacktestSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest(`Invalid request body: ${body.error.message}`);
+    }
+
+    const authUser = request.user;
+
+    const { rule, startDate, endDate } = body.data;
+
+    if (rule.serverId && !hasServerAccess(authUser, rule.serverId)) {
+      return reply.forbidden('You do not have access to this server');
+    }
+
+    return backtestRule(rule, startDate, endDate, authUser);
+  });
+
   /**
    * GET /rules/:id - Get a specific rule
    */
@@ -249,6 +356,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         serverUserServerId: serverUsers.serverId,
         serverName: servers.name,
         isActive: rules.isActive,
+        schedule: rules.schedule,
+        snoozedUntil: rules.snoozedUntil,
         createdAt: rules.createdAt,
         updatedAt: rules.updatedAt,
       })
@@ -286,7 +395,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
    * PATCH /rules/:id - Update a rule
    */
-  app.patch('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/:id', { preHandler: requireRulesWrite }, async (request, reply) => {
     const params = ruleIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid rule ID');
@@ -300,15 +409,13 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can update rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can update rules');
-    }
-
     // Check rule exists and get server info
     const ruleRows = await db
       .select({
         id: rules.id,
+        name: rules.name,
+        params: rules.params,
+        isActive: rules.isActive,
         serverUserId: rules.serverUserId,
         serverId: serverUsers.serverId,
       })
@@ -322,12 +429,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.notFound('Rule not found');
     }
 
-    // Check access for user-specific rules
-    if (
-      existingRule.serverUserId &&
-      existingRule.serverId &&
-      !hasServerAccess(authUser, existingRule.serverId)
-    ) {
+    // User-specific rules are scoped to their server, the rest are global
+    if (!hasPermission(authUser, 'rules:write', existingRule.serverId)) {
       return reply.forbidden('You do not have access to this rule');
     }
 
@@ -361,6 +464,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to update rule');
     }
 
+    await recordAudit(request, ruleUpdateAuditEvent(existingRule, updatedRule, updateData));
+
     // Reschedule inactivity checks if this rule has inactivity conditions
     if (hasInactivityCondition(updatedRule.conditions)) {
       void scheduleInactivityChecks();
@@ -372,7 +477,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
    * PATCH /rules/:id/v2 - Update a rule with V2 format
    */
-  app.patch('/:id/v2', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/:id/v2', { preHandler: requireRulesWrite }, async (request, reply) => {
     const params = ruleIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid rule ID');
@@ -386,11 +491,6 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can update rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can update rules');
-    }
-
     // Check rule exists and get server info
     const ruleRows = await db
       .select({
@@ -398,7 +498,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         serverId: rules.serverId,
         serverUserId: rules.serverUserId,
         serverUserServerId: serverUsers.serverId,
+        name: rules.name,
+        description: rules.description,
+        severity: rules.severity,
         conditions: rules.conditions,
+        actions: rules.actions,
+        isActive: rules.isActive,
+        schedule: rules.schedule,
+        snoozedUntil: rules.snoozedUntil,
       })
       .from(rules)
       .leftJoin(serverUsers, eq(rules.serverUserId, serverUsers.id))
@@ -410,9 +517,9 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.notFound('Rule not found');
     }
 
-    // Check access for server-scoped or user-specific rules
+    // Check access for server-scoped or user-specific rules (global rules need it everywhere)
     const effectiveServerId = existingRule.serverId ?? existingRule.serverUserServerId;
-    if (effectiveServerId && !hasServerAccess(authUser, effectiveServerId)) {
+    if (!hasPermission(authUser, 'rules:write', effectiveServerId)) {
       return reply.forbidden('You do not have access to this rule');
     }
 
@@ -426,6 +533,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       conditions: RuleConditions;
       actions: RuleActions;
       isActive: boolean;
+      schedule: RuleSchedule | null;
+      snoozedUntil: Date | null;
       updatedAt: Date;
     }> = {
       updatedAt: new Date(),
@@ -455,6 +564,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       updateData.isActive = body.data.isActive;
     }
 
+    if (body.data.schedule !== undefined) {
+      updateData.schedule = body.data.schedule;
+    }
+
+    if (body.data.snoozedUntil !== undefined) {
+      updateData.snoozedUntil = body.data.snoozedUntil;
+    }
+
     // Update rule
     const updated = await db.update(rules).set(updateData).where(eq(rules.id, id)).returning();
 
@@ -463,6 +580,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to update rule');
     }
 
+    await recordAudit(request, ruleUpdateAuditEvent(existingRule, updatedRule, updateData));
+
     // Reschedule inactivity checks if inactivity conditions changed
     const hasInactivity = hasInactivityCondition(updatedRule.conditions);
     if (hadInactivity || hasInactivity) {
@@ -475,7 +594,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /rules/:id - Delete a rule
    */
-  app.delete('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/:id', { preHandler: requireRulesWrite }, async (request, reply) => {
     const params = ruleIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid rule ID');
@@ -484,16 +603,17 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can delete rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can delete rules');
-    }
-
     // Check rule exists and get server info
     const ruleRows = await db
       .select({
         id: rules.id,
+        name: rules.name,
+        type: rules.type,
+        params: rules.params,
+        severity: rules.severity,
         conditions: rules.conditions,
+        actions: rules.actions,
+        isActive: rules.isActive,
         serverUserId: rules.serverUserId,
         serverId: serverUsers.serverId,
       })
@@ -507,12 +627,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       return reply.notFound('Rule not found');
     }
 
-    // Check access for user-specific rules
-    if (
-      existingRule.serverUserId &&
-      existingRule.serverId &&
-      !hasServerAccess(authUser, existingRule.serverId)
-    ) {
+    // User-specific rules are scoped to their server, the rest are global
+    if (!hasPermission(authUser, 'rules:write', existingRule.serverId)) {
       return reply.forbidden('You do not have access to this rule');
     }
 
@@ -521,6 +637,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     // Delete rule (cascade will handle violations)
     await db.delete(rules).where(eq(rules.id, id));
 
+    await recordAudit(request, {
+      action: 'rule.delete',
+      targetType: 'rule',
+      targetId: id,
+      targetLabel: existingRule.name,
+      before: toRuleAuditState(existingRule),
+    });
+
     // Reschedule inactivity checks if this was an inactivity rule
     if (wasInactivityRule) {
       void scheduleInactivityChecks();
@@ -531,16 +655,11 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * PATCH /bulk - Bulk enable/disable rules
-   * Owner-only. Accepts array of rule IDs and isActive flag.
+   * Requires rules:write. Accepts array of rule IDs and isActive flag.
    */
-  app.patch('/bulk', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/bulk', { preHandler: requireRulesWrite }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can update rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only owners can update rules');
-    }
-
     const parsed = bulkUpdateRulesSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.badRequest('Invalid request body');
@@ -551,6 +670,8 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     const ruleDetails = await db
       .select({
         id: rules.id,
+        name: rules.name,
+        isActive: rules.isActive,
         serverUserId: rules.serverUserId,
         serverId: serverUsers.serverId,
       })
@@ -559,15 +680,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       .where(inArray(rules.id, ids));
 
     // Filter to only accessible rules
-    // Global rules (serverUserId = null) are accessible to all owners
-    // User-specific rules require server access
-    const accessibleIds = ruleDetails
-      .filter((r) => {
-        if (!r.serverUserId) return true; // Global rule
-        if (!r.serverId) return false;
-        return hasServerAccess(authUser, r.serverId);
-      })
-      .map((r) => r.id);
+    // Global rules (serverUserId = null) need the permission on every server
+    // User-specific rules need it on their server
+    const accessibleRules = ruleDetails.filter((r) => {
+      if (!r.serverUserId) return hasPermission(authUser, 'rules:write'); // Global rule
+      if (!r.serverId) return false;
+      return hasPermission(authUser, 'rules:write', r.serverId);
+    });
+    const accessibleIds = accessibleRules.map((r) => r.id);
 
     if (accessibleIds.length === 0) {
       return { success: true, updated: 0 };
@@ -582,21 +702,32 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       })
       .where(inArray(rules.id, accessibleIds));
 
+    await recordAudit(
+      request,
+      accessibleRules
+        .filter((r) => r.isActive !== isActive)
+        .map(
+          (r): AuditEvent => ({
+            action: 'rule.toggle',
+            targetType: 'rule',
+            targetId: r.id,
+            targetLabel: r.name,
+            before: { isActive: r.isActive },
+            after: { isActive },
+          })
+        )
+    );
+
     return { success: true, updated: accessibleIds.length };
   });
 
   /**
    * DELETE /bulk - Bulk delete rules
-   * Owner-only. Accepts array of rule IDs.
+   * Requires rules:write. Accepts array of rule IDs.
    */
-  app.delete('/bulk', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/bulk', { preHandler: requireRulesWrite }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can delete rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only owners can delete rules');
-    }
-
     const parsed = bulkDeleteRulesSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.badRequest('Invalid request body');
@@ -607,6 +738,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     const ruleDetails = await db
       .select({
         id: rules.id,
+        name: rules.name,
         serverUserId: rules.serverUserId,
         serverId: serverUsers.serverId,
       })
@@ -615,13 +747,12 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       .where(inArray(rules.id, deleteIds));
 
     // Filter to only accessible rules
-    const accessibleIds = ruleDetails
-      .filter((r) => {
-        if (!r.serverUserId) return true; // Global rule
-        if (!r.serverId) return false;
-        return hasServerAccess(authUser, r.serverId);
-      })
-      .map((r) => r.id);
+    const accessibleRules = ruleDetails.filter((r) => {
+      if (!r.serverUserId) return hasPermission(authUser, 'rules:write'); // Global rule
+      if (!r.serverId) return false;
+      return hasPermission(authUser, 'rules:write', r.serverId);
+    });
+    const accessibleIds = accessibleRules.map((r) => r.id);
 
     if (accessibleIds.length === 0) {
       return { success: true, deleted: 0 };
@@ -630,6 +761,19 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     // Bulk delete (cascade will handle violations)
     await db.delete(rules).where(inArray(rules.id, accessibleIds));
 
+    await recordAudit(
+      request,
+      accessibleRules.map(
+        (r): AuditEvent => ({
+          action: 'rule.delete',
+          targetType: 'rule',
+          targetId: r.id,
+          targetLabel: r.name,
+          before: { name: r.name },
+        })
+      )
+    );
+
     return { success: true, deleted: accessibleIds.length };
   });
 
@@ -637,14 +781,9 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
    * GET /rules/migrate/preview - Preview migration of legacy rules to V2 format
    * Shows what the migration would do without making changes.
    */
-  app.get('/migrate/preview', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.get('/migrate/preview', { preHandler: requireRulesWrite }, async (request) => {
     const authUser = request.user;
 
-    // Only owners can migrate rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can migrate rules');
-    }
-
     // Get all legacy rules that need migration
     const legacyRules = await db
       .select({
@@ -714,14 +853,9 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
    * POST /rules/migrate - Migrate legacy rules to V2 format
    * Converts all accessible legacy rules to V2 format.
    */
-  app.post('/migrate', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/migrate', { preHandler: requireRulesWrite }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can migrate rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can migrate rules');
-    }
-
     const parsed = bulkMigrateRulesSchema.safeParse(request.body ?? {});
     if (!parsed.success) {
       return reply.badRequest('Invalid request body');
@@ -810,7 +944,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
    * POST /rules/:id/migrate - Migrate a single legacy rule to V2 format
    */
-  app.post('/:id/migrate', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/:id/migrate', { preHandler: requireRulesWrite }, async (request, reply) => {
     const params = ruleIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid rule ID');
@@ -819,11 +953,6 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can migrate rules
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can migrate rules');
-    }
-
     // Get the rule
     const ruleRows = await db
       .select({
@@ -3,23 +3,60 @@
  */
 
 import type { FastifyPluginAsync } from 'fastify';
-import { eq, inArray, and, asc } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import { eq, inArray, and, asc, sql } from 'drizzle-orm';
 import {
   createServerSchema,
   serverIdParamSchema,
+  serverResourceHistoryQuerySchema,
   reorderServersSchema,
   updateServerSchema,
+  SERVER_RESOURCE_HISTORY,
   SERVER_STATS_CONFIG,
+  type ServerResourceHistory,
 } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { servers, plexAccounts } from '../db/schema.js';
 // Token encryption removed - tokens now stored in plain text (DB is localhost-only)
-import { PlexClient, JellyfinClient, EmbyClient } from '../services/mediaServer/index.js';
+import {
+  PlexClient,
+  JellyfinClient,
+  EmbyClient,
+  SubsonicClient,
+} from '../services/mediaServer/index.js';
+import { recordAudit } from '../services/auditLog.js';
 import { syncServer } from '../services/sync.js';
 import { getCacheService } from '../services/cache.js';
+import { getMediaServerCapabilities } from '../services/mediaServer/registry.js';
+import { validateServerAccess } from '../utils/serverFiltering.js';
 import { enqueueLibrarySync } from '../jobs/librarySyncQueue.js';
+import { requirePermission } from '../utils/permissions.js';
+
+// Server types that can send inbound webhooks (Plex and Emby webhooks, Jellyfin Webhook plugin)
+const WEBHOOK_SERVER_TYPES = new Set(['plex', 'jellyfin', 'emby']);
+
+function generateWebhookSecret(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Bucket width for a resource history range: the sample interval, widened
+ * to whole minutes until the range fits in MAX_POINTS buckets
+ */
+function getResourceBucketSeconds(start: Date, end: Date): number {
+  const sampleSeconds = SERVER_RESOURCE_HISTORY.SAMPLE_INTERVAL_MS / 1000;
+  const rangeSeconds = (end.getTime() - start.getTime()) / 1000;
+  const minimum = rangeSeconds / SERVER_RESOURCE_HISTORY.MAX_POINTS;
+  return Math.max(sampleSeconds, Math.ceil(minimum / sampleSeconds) * sampleSeconds);
+}
+
+function roundPercent(value: string | number | null): number | null {
+  return value === null ? null : Math.round(Number(value) * 10) / 10;
+}
 
 export const serverRoutes: FastifyPluginAsync = async (app) => {
+  const requireServersManage = [app.authenticate, requirePermission('servers:manage')];
+
   /**
    * GET /servers - List connected servers
    * Returns all servers (without tokens) for the authenticated user
@@ -55,7 +92,7 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
    * POST /servers - Add a new server
    * Encrypts the token before storage
    */
-  app.post('/', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/', { preHandler: requireServersManage }, async (request, reply) => {
     const body = createServerSchema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest('Invalid request body');
@@ -64,11 +101,6 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
     const { name, type, url, token } = body.data;
     const authUser = request.user;
 
-    // Only owners can add servers
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can add servers');
-    }
-
     // Check if server already exists
     const existing = await db.select().from(servers).where(eq(servers.url, url)).limit(1);
 
@@ -126,6 +158,16 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
         if (!isAdmin) {
           return reply.forbidden('Token does not have admin access to this Emby server');
         }
+      } else if (type === 'subsonic') {
+        // Token is the encoded token-auth parameters (see buildSubsonicToken)
+        const username = new URLSearchParams(token).get('u') ?? '';
+        const adminCheck = await SubsonicClient.verifyServerAdmin(url, username, token);
+        if (!adminCheck.success) {
+          if (adminCheck.code === SubsonicClient.AdminVerifyError.CONNECTION_FAILED) {
+            return reply.serviceUnavailable(adminCheck.message);
+          }
+          return reply.forbidden(adminCheck.message);
+        }
       }
     } catch (error) {
       app.log.error({ error }, 'Failed to verify server connection');
@@ -156,6 +198,15 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to create server');
     }
 
+    // The token is never written to the audit log
+    await recordAudit(request, {
+      action: 'server.create',
+      targetType: 'server',
+      targetId: server.id,
+      targetLabel: server.name,
+      after: { type: server.type, url: server.url },
+    });
+
     // Auto-sync users and libraries in background
     syncServer(server.id, { syncUsers: true, syncLibraries: true })
       .then((result) => {
@@ -184,7 +235,7 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
    * - Validates that the clientIdentifier matches the server's machineIdentifier
    * - This prevents accidentally connecting Server A's config to Server B's URL
    */
-  app.patch('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/:id', { preHandler: requireServersManage }, async (request, reply) => {
     const params = serverIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid server ID');
@@ -198,12 +249,6 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const { name: newName, url: bodyUrl, clientIdentifier } = body.data;
     const newUrl = bodyUrl !== undefined ? bodyUrl.replace(/\/$/, '') : undefined;
-    const authUser = request.user;
-
-    // Only owners can update servers
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can update servers');
-    }
 
     // Get existing server with token
     const serverRows = await db.select().from(servers).where(eq(servers.id, id)).limit(1);
@@ -262,6 +307,19 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
             if (!isAdmin) {
               return reply.forbidden('Token does not have admin access at this URL');
             }
+          } else if (server.type === 'subsonic') {
+            const username = new URLSearchParams(server.token).get('u') ?? '';
+            const adminCheck = await SubsonicClient.verifyServerAdmin(
+              newUrl,
+              username,
+              server.token
+            );
+            if (!adminCheck.success) {
+              if (adminCheck.code === SubsonicClient.AdminVerifyError.CONNECTION_FAILED) {
+                return reply.serviceUnavailable(adminCheck.message);
+              }
+              return reply.forbidden(adminCheck.message);
+            }
           }
         } catch (error) {
           app.log.error({ error, serverId: id, newUrl }, 'Failed to verify new server URL');
@@ -321,7 +379,7 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
    * PATCH /servers/reorder - Update server display order
    * Accepts array of { id, displayOrder } and updates all servers in a transaction
    */
-  app.patch('/reorder', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/reorder', { preHandler: requireServersManage }, async (request, reply) => {
     const body = reorderServersSchema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest('Invalid request body');
@@ -330,11 +388,6 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
     const { servers: serverUpdates } = body.data;
     const authUser = request.user;
 
-    // Only owners can reorder servers (guests can't manage server settings)
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can reorder servers');
-    }
-
     // Validate that all server IDs belong to accessible servers
     const serverIds = serverUpdates.map((s: { id: string; displayOrder: number }) => s.id);
     const existingServers = await db
@@ -380,30 +433,32 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
    * DELETE /servers/:id - Remove a server
    * Cascades to delete all related users, sessions, violations
    */
-  app.delete('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/:id', { preHandler: requireServersManage }, async (request, reply) => {
     const params = serverIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid server ID');
     }
 
     const { id } = params.data;
-    const authUser = request.user;
-
-    // Only owners can delete servers
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can delete servers');
-    }
 
     // Check if server exists and user has access
-    const server = await db.select().from(servers).where(eq(servers.id, id)).limit(1);
+    const [server] = await db.select().from(servers).where(eq(servers.id, id)).limit(1);
 
-    if (server.length === 0) {
+    if (!server) {
       return reply.notFound('Server not found');
     }
 
     // Delete server (cascade will handle related records)
     await db.delete(servers).where(eq(servers.id, id));
 
+    await recordAudit(request, {
+      action: 'server.delete',
+      targetType: 'server',
+      targetId: id,
+      targetLabel: server.name,
+      before: { type: server.type, url: server.url },
+    });
+
     return { success: true };
   });
 
@@ -412,7 +467,7 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
    * For Plex: Fetches users from Plex.tv including shared users
    * For Jellyfin: Fetches users from the server
    */
-  app.post('/:id/sync', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/:id/sync', { preHandler: requireServersManage }, async (request, reply) => {
     const params = serverIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid server ID');
@@ -421,11 +476,6 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can sync
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can sync servers');
-    }
-
     // Check server exists
     const serverRows = await db.select().from(servers).where(eq(servers.id, id)).limit(1);
 
@@ -465,6 +515,90 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
     }
   });
 
+  /**
+   * GET /servers/:id/webhook - Get the inbound webhook secret
+   * The receiver URL is /webhooks/:serverId/:secret (null = webhooks disabled)
+   */
+  app.get('/:id/webhook', { preHandler: requireServersManage }, async (request, reply) => {
+    const params = serverIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid server ID');
+    }
+
+    const [server] = await db
+      .select({ webhookSecret: servers.webhookSecret })
+      .from(servers)
+      .where(eq(servers.id, params.data.id))
+      .limit(1);
+
+    if (!server) {
+      return reply.notFound('Server not found');
+    }
+
+    return { secret: server.webhookSecret };
+  });
+
+  /**
+   * POST /servers/:id/webhook/regenerate - Generate or regenerate the inbound webhook secret
+   * Invalidates the previous webhook URL
+   */
+  app.post(
+    '/:id/webhook/regenerate',
+    { preHandler: requireServersManage },
+    async (request, reply) => {
+      const params = serverIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid server ID');
+      }
+
+      const [server] = await db
+        .select({ type: servers.type })
+        .from(servers)
+        .where(eq(servers.id, params.data.id))
+        .limit(1);
+
+      if (!server) {
+        return reply.notFound('Server not found');
+      }
+
+      if (!WEBHOOK_SERVER_TYPES.has(server.type)) {
+        return reply.badRequest(
+          'Inbound webhooks are only supported for Plex, Jellyfin and Emby servers'
+        );
+      }
+
+      const secret = generateWebhookSecret();
+      await db
+        .update(servers)
+        .set({ webhookSecret: secret, updatedAt: new Date() })
+        .where(eq(servers.id, params.data.id));
+
+      return { secret };
+    }
+  );
+
+  /**
+   * DELETE /servers/:id/webhook - Disable inbound webhooks for a server
+   */
+  app.delete('/:id/webhook', { preHandler: requireServersManage }, async (request, reply) => {
+    const params = serverIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid server ID');
+    }
+
+    const updated = await db
+      .update(servers)
+      .set({ webhookSecret: null, updatedAt: new Date() })
+      .where(eq(servers.id, params.data.id))
+      .returning({ id: servers.id });
+
+    if (updated.length === 0) {
+      return reply.notFound('Server not found');
+    }
+
+    return { success: true };
+  });
+
   /**
    * GET /servers/:id/statistics - Get server resource statistics (CPU, RAM)
    * On-demand endpoint for dashboard - data is not stored
@@ -516,6 +650,91 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
     }
   });
 
+  /**
+   * GET /servers/:id/resources - Stored resource history over a time range
+   * Samples are averaged into buckets so any range returns at most MAX_POINTS buckets.
+   * Stream and transcode counts are the peak within each bucket.
+   */
+  app.get('/:id/resources', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const params = serverIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid server ID');
+    }
+
+    const query = serverResourceHistoryQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest(query.error.issues[0]?.message ?? 'Invalid query');
+    }
+
+    const { id } = params.data;
+    const accessError = validateServerAccess(request.user, id);
+    if (accessError) {
+      return reply.forbidden(accessError);
+    }
+
+    const serverRows = await db
+      .select({ type: servers.type })
+      .from(servers)
+      .where(eq(servers.id, id))
+      .limit(1);
+
+    const server = serverRows[0];
+    if (!server) {
+      return reply.notFound('Server not found');
+    }
+
+    const { startDate, endDate } = query.data;
+    const bucketSeconds = getResourceBucketSeconds(startDate, endDate);
+    const bucketInterval = `${bucketSeconds} seconds`;
+
+    const result = await db.execute(sql`
+      SELECT
+        time_bucket(${bucketInterval}::interval, sampled_at) AS bucket,
+        AVG(host_cpu_utilization) AS host_cpu,
+        AVG(process_cpu_utilization) AS process_cpu,
+        AVG(host_memory_utilization) AS host_memory,
+        AVG(process_memory_utilization) AS process_memory,
+        MAX(stream_count)::int AS stream_count,
+        MAX(transcode_count)::int AS transcode_count,
+        ROUND(AVG(bandwidth_kbps))::int AS bandwidth_kbps
+      FROM server_resource_samples
+      WHERE server_id = ${id}
+        AND sampled_at >= ${startDate}
+        AND sampled_at < ${endDate}
+      GROUP BY bucket
+      ORDER BY bucket
+    `);
+
+    const rows = result.rows as {
+      bucket: Date | string;
+      host_cpu: string | number | null;
+      process_cpu: string | number | null;
+      host_memory: string | number | null;
+      process_memory: string | number | null;
+      stream_count: number;
+      transcode_count: number;
+      bandwidth_kbps: number;
+    }[];
+
+    const history: ServerResourceHistory = {
+      serverId: id,
+      bucketSeconds,
+      resourceUsageSupported: getMediaServerCapabilities(server.type).resourceUsage,
+      data: rows.map((row) => ({
+        at: new Date(row.bucket).toISOString(),
+        hostCpuUtilization: roundPercent(row.host_cpu),
+        processCpuUtilization: roundPercent(row.process_cpu),
+        hostMemoryUtilization: roundPercent(row.host_memory),
+        processMemoryUtilization: roundPercent(row.process_memory),
+        streamCount: row.stream_count,
+        transcodeCount: row.transcode_count,
+        bandwidthKbps: row.bandwidth_kbps,
+      })),
+    };
+
+    return history;
+  });
+
   /**
    * GET /servers/:id/image/* - Proxy images from Plex/Jellyfin servers
    * This endpoint fetches images without exposing server tokens to the client
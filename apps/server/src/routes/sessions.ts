@@ -13,6 +13,7 @@ import {
   historyQuerySchema,
   historyAggregatesQuerySchema,
   sessionIdParamSchema,
+  hasPermission,
   serverIdFilterSchema,
   terminateSessionBodySchema,
   REDIS_KEYS,
@@ -24,6 +25,7 @@ import {
   type RulesFilterOptions,
   type CountryOption,
   type HistoryAggregatesQueryInput,
+  type ServerType,
 } from '@tracearr/shared';
 import countries from 'i18n-iso-countries';
 import countriesEn from 'i18n-iso-countries/langs/en.json' with { type: 'json' };
@@ -33,7 +35,9 @@ countries.registerLocale(countriesEn);
 import { db } from '../db/client.js';
 import { sessions, serverUsers, servers, users } from '../db/schema.js';
 import { filterByServerAccess, hasServerAccess } from '../utils/serverFiltering.js';
+import { permissionDeniedMessage, requirePermission } from '../utils/permissions.js';
 import { terminateSession } from '../services/termination.js';
+import { recordAudit } from '../services/auditLog.js';
 import { getCacheService } from '../services/cache.js';
 
 /**
@@ -188,6 +192,9 @@ function buildHistoryFilterConditions(
 }
 
 export const sessionRoutes: FastifyPluginAsync = async (app) => {
+  const requireSessionsTerminate = [app.authenticate, requirePermission('sessions:terminate')];
+  const requireSessionsDelete = [app.authenticate, requirePermission('sessions:delete')];
+
   /**
    * GET /sessions - Query historical sessions with pagination and filters
    *
@@ -435,7 +442,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       server: {
         id: row.server_id,
         name: row.server_name,
-        type: row.server_type as 'plex' | 'jellyfin' | 'emby',
+        type: row.server_type as ServerType,
       },
       sessionKey: row.session_key,
       state: row.state,
@@ -756,7 +763,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       server: {
         id: row.server_id,
         name: row.server_name,
-        type: row.server_type as 'plex' | 'jellyfin' | 'emby',
+        type: row.server_type as ServerType,
       },
       sessionKey: row.session_key,
       state: row.state,
@@ -1358,7 +1365,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
    * Requires admin access. Sends a stop command to the media server
    * and logs the termination for auditing.
    */
-  app.post('/:id/terminate', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/:id/terminate', { preHandler: requireSessionsTerminate }, async (request, reply) => {
     const params = sessionIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid session ID');
@@ -1373,11 +1380,6 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
     const { reason } = body.data;
     const authUser = request.user;
 
-    // Only admins and owners can terminate sessions
-    if (authUser.role !== 'owner' && authUser.role !== 'admin') {
-      return reply.forbidden('Only administrators can terminate sessions');
-    }
-
     // Verify the session exists and user has access to its server
     const session = await db
       .select({
@@ -1399,6 +1401,10 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       return reply.forbidden('You do not have access to this server');
     }
 
+    if (!hasPermission(authUser, 'sessions:terminate', sessionData.serverId)) {
+      return reply.forbidden(permissionDeniedMessage('sessions:terminate'));
+    }
+
     // Check if session is already stopped
     if (sessionData.state === 'stopped') {
       return reply.conflict('Session has already ended');
@@ -1433,16 +1439,11 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * DELETE /sessions/bulk - Bulk delete historical sessions
-   * Owner-only. Accepts array of session IDs.
+   * Requires sessions:delete. Accepts array of session IDs.
    */
-  app.delete('/bulk', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/bulk', { preHandler: requireSessionsDelete }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can delete sessions
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only owners can delete sessions');
-    }
-
     const body = request.body as { ids: string[] };
 
     if (!body.ids || !Array.isArray(body.ids) || body.ids.length === 0) {
@@ -1460,7 +1461,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
 
     // Filter to only accessible sessions
     const accessibleIds = sessionDetails
-      .filter((s) => hasServerAccess(authUser, s.serverId))
+      .filter((s) => hasPermission(authUser, 'sessions:delete', s.serverId))
       .map((s) => s.id);
 
     if (accessibleIds.length === 0) {
@@ -1470,6 +1471,14 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
     // Bulk delete sessions
     await db.delete(sessions).where(inArray(sessions.id, accessibleIds));
 
+    // One entry for the whole batch; the ids are kept in the snapshot
+    await recordAudit(request, {
+      action: 'sessions.bulk_delete',
+      targetType: 'session',
+      targetLabel: `${accessibleIds.length} sessions`,
+      before: { count: accessibleIds.length, ids: accessibleIds },
+    });
+
     return { success: true, deleted: accessibleIds.length };
   });
 };
@@ -4,37 +4,115 @@
 
 import type { FastifyPluginAsync } from 'fastify';
 import { eq, sql } from 'drizzle-orm';
-import { randomBytes } from 'crypto';
-import { updateSettingsSchema, type Settings, type WebhookFormat } from '@tracearr/shared';
+import {
+  updateSettingsSchema,
+  type OidcRole,
+  type OidcRoleMapping,
+  type Settings,
+} from '@tracearr/shared';
 import { db } from '../db/client.js';
-import { settings, users, sessions } from '../db/schema.js';
+import { settings, sessions } from '../db/schema.js';
+import { recordAudit } from '../services/auditLog.js';
 import { geoipService } from '../services/geoip.js';
+import type { TrustRecoveryPolicy } from '../services/trustScore.js';
+import { requirePermission } from '../utils/permissions.js';
 
-// API token format: trr_pub_<32 random bytes as base64url>
-const API_TOKEN_PREFIX = 'trr_pub_';
+// Default settings row ID (singleton pattern)
+const SETTINGS_ID = 1;
 
-function generateApiToken(): string {
-  const randomPart = randomBytes(32).toString('base64url');
-  return `${API_TOKEN_PREFIX}${randomPart}`;
+// Trust recovery defaults (match the column defaults)
+const DEFAULT_TRUST_RECOVERY_SETTINGS = {
+  trustRecoveryEnabled: false,
+  trustRecoveryPoints: 5,
+  trustRecoveryIntervalDays: 7,
+  trustRecoveryFloor: 0,
+  trustRecoveryCap: 100,
+};
+
+function pickTrustRecoverySettings(
+  row: typeof settings.$inferSelect
+): typeof DEFAULT_TRUST_RECOVERY_SETTINGS {
+  return {
+    trustRecoveryEnabled: row.trustRecoveryEnabled,
+    trustRecoveryPoints: row.trustRecoveryPoints,
+    trustRecoveryIntervalDays: row.trustRecoveryIntervalDays,
+    trustRecoveryFloor: row.trustRecoveryFloor,
+    trustRecoveryCap: row.trustRecoveryCap,
+  };
 }
 
-import { notificationManager } from '../services/notifications/index.js';
+export type OidcSettings = Pick<
+  Settings,
+  | 'oidcEnabled'
+  | 'oidcDiscoveryUrl'
+  | 'oidcClientId'
+  | 'oidcClientSecret'
+  | 'oidcScopes'
+  | 'oidcRoleClaim'
+  | 'oidcRoleMapping'
+  | 'oidcDefaultRole'
+  | 'oidcAutoProvision'
+  | 'oidcLinkOwner'
+>;
+
+// OpenID Connect defaults (match the column defaults)
+const DEFAULT_OIDC_SETTINGS: OidcSettings = {
+  oidcEnabled: false,
+  oidcDiscoveryUrl: null,
+  oidcClientId: null,
+  oidcClientSecret: null,
+  oidcScopes: 'openid profile email',
+  oidcRoleClaim: 'groups',
+  oidcRoleMapping: [],
+  oidcDefaultRole: null,
+  oidcAutoProvision: false,
+  oidcLinkOwner: false,
+};
 
-// Default settings row ID (singleton pattern)
-const SETTINGS_ID = 1;
+function pickOidcSettings(row: typeof settings.$inferSelect): OidcSettings {
+  return {
+    oidcEnabled: row.oidcEnabled,
+    oidcDiscoveryUrl: row.oidcDiscoveryUrl,
+    oidcClientId: row.oidcClientId,
+    oidcClientSecret: row.oidcClientSecret ? '********' : null, // Mask client secret
+    oidcScopes: row.oidcScopes,
+    oidcRoleClaim: row.oidcRoleClaim,
+    oidcRoleMapping: row.oidcRoleMapping,
+    oidcDefaultRole: row.oidcDefaultRole,
+    oidcAutoProvision: row.oidcAutoProvision,
+    oidcLinkOwner: row.oidcLinkOwner,
+  };
+}
+
+// Columns masked in API responses and the audit log
+const SECRET_SETTINGS = ['tautulliApiKey', 'oidcClientSecret'] as const;
+
+/**
+ * Settings row for the audit log with secrets masked. A secret that differs
+ * from `previous` is recorded as changed without revealing either value.
+ */
+function auditSettingsSnapshot(
+  row: typeof settings.$inferSelect,
+  previous?: typeof settings.$inferSelect
+): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = { ...row };
+  delete snapshot.id;
+  delete snapshot.createdAt;
+  delete snapshot.updatedAt;
+  for (const key of SECRET_SETTINGS) {
+    const changed = previous !== undefined && previous[key] !== row[key];
+    snapshot[key] = row[key] ? (changed ? '******** (changed)' : '********') : null;
+  }
+  return snapshot;
+}
 
 export const settingsRoutes: FastifyPluginAsync = async (app) => {
+  const requireSettingsWrite = [app.authenticate, requirePermission('settings:write')];
+
   /**
    * GET /settings - Get application settings
    */
-  app.get('/', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    // Only owners can view settings
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can view settings');
-    }
-
+  app.get('/', { preHandler: requireSettingsWrite }, async (request, reply) => {
     // Get or create settings
     // First try to get settings - if primaryAuthMethod column doesn't exist, this will fail
     let settingsRow;
@@ -57,13 +135,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
           id: settings.id,
           allowGuestAccess: settings.allowGuestAccess,
           unitSystem: settings.unitSystem,
-          discordWebhookUrl: settings.discordWebhookUrl,
-          customWebhookUrl: settings.customWebhookUrl,
-          webhookFormat: settings.webhookFormat,
-          ntfyTopic: settings.ntfyTopic,
-          ntfyAuthToken: settings.ntfyAuthToken,
-          pushoverUserKey: settings.pushoverUserKey,
-          pushoverApiToken: settings.pushoverApiToken,
           pollerEnabled: settings.pollerEnabled,
           pollerIntervalMs: settings.pollerIntervalMs,
           tautulliUrl: settings.tautulliUrl,
@@ -116,16 +187,19 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       usePlexGeoip = row.usePlexGeoip;
     }
 
+    // Same for the trust recovery columns
+    const trustRecovery =
+      'trustRecoveryEnabled' in row && typeof row.trustRecoveryEnabled === 'boolean'
+        ? pickTrustRecoverySettings(row as typeof settings.$inferSelect)
+        : DEFAULT_TRUST_RECOVERY_SETTINGS;
+    const oidc =
+      'oidcEnabled' in row && typeof row.oidcEnabled === 'boolean'
+        ? pickOidcSettings(row as typeof settings.$inferSelect)
+        : DEFAULT_OIDC_SETTINGS;
+
     const result: Settings = {
       allowGuestAccess: row.allowGuestAccess,
       unitSystem: row.unitSystem,
-      discordWebhookUrl: row.discordWebhookUrl,
-      customWebhookUrl: row.customWebhookUrl,
-      webhookFormat: row.webhookFormat,
-      ntfyTopic: row.ntfyTopic,
-      ntfyAuthToken: row.ntfyAuthToken ? '********' : null, // Mask auth token
-      pushoverUserKey: row.pushoverUserKey,
-      pushoverApiToken: row.pushoverApiToken ? '********' : null, // Mask API Token
       pollerEnabled: row.pollerEnabled,
       pollerIntervalMs: row.pollerIntervalMs,
       usePlexGeoip,
@@ -135,6 +209,8 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       trustProxy: row.trustProxy,
       mobileEnabled: row.mobileEnabled,
       primaryAuthMethod,
+      ...oidc,
+      ...trustRecovery,
     };
 
     return result;
@@ -143,30 +219,16 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
   /**
    * PATCH /settings - Update application settings
    */
-  app.patch('/', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/', { preHandler: requireSettingsWrite }, async (request, reply) => {
     const body = updateSettingsSchema.safeParse(request.body);
     if (!body.success) {
       return reply.badRequest('Invalid request body');
     }
 
-    const authUser = request.user;
-
-    // Only owners can update settings
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can update settings');
-    }
-
     // Build update object
     const updateData: Partial<{
       allowGuestAccess: boolean;
       unitSystem: 'metric' | 'imperial';
-      discordWebhookUrl: string | null;
-      customWebhookUrl: string | null;
-      webhookFormat: WebhookFormat | null;
-      ntfyTopic: string | null;
-      ntfyAuthToken: string | null;
-      pushoverUserKey: string | null;
-      pushoverApiToken: string | null;
       pollerEnabled: boolean;
       pollerIntervalMs: number;
       usePlexGeoip: boolean;
@@ -175,6 +237,21 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       externalUrl: string | null;
       trustProxy: boolean;
       primaryAuthMethod: 'jellyfin' | 'local';
+      oidcEnabled: boolean;
+      oidcDiscoveryUrl: string | null;
+      oidcClientId: string | null;
+      oidcClientSecret: string | null;
+      oidcScopes: string;
+      oidcRoleClaim: string;
+      oidcRoleMapping: OidcRoleMapping[];
+      oidcDefaultRole: OidcRole | null;
+      oidcAutoProvision: boolean;
+      oidcLinkOwner: boolean;
+      trustRecoveryEnabled: boolean;
+      trustRecoveryPoints: number;
+      trustRecoveryIntervalDays: number;
+      trustRecoveryFloor: number;
+      trustRecoveryCap: number;
       updatedAt: Date;
     }> = {
       updatedAt: new Date(),
@@ -188,34 +265,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       updateData.unitSystem = body.data.unitSystem;
     }
 
-    if (body.data.discordWebhookUrl !== undefined) {
-      updateData.discordWebhookUrl = body.data.discordWebhookUrl;
-    }
-
-    if (body.data.customWebhookUrl !== undefined) {
-      updateData.customWebhookUrl = body.data.customWebhookUrl;
-    }
-
-    if (body.data.webhookFormat !== undefined) {
-      updateData.webhookFormat = body.data.webhookFormat;
-    }
-
-    if (body.data.ntfyTopic !== undefined) {
-      updateData.ntfyTopic = body.data.ntfyTopic;
-    }
-
-    if (body.data.ntfyAuthToken !== undefined) {
-      updateData.ntfyAuthToken = body.data.ntfyAuthToken;
-    }
-
-    if (body.data.pushoverUserKey !== undefined) {
-      updateData.pushoverUserKey = body.data.pushoverUserKey;
-    }
-
-    if (body.data.pushoverApiToken !== undefined) {
-      updateData.pushoverApiToken = body.data.pushoverApiToken;
-    }
-
     if (body.data.pollerEnabled !== undefined) {
       updateData.pollerEnabled = body.data.pollerEnabled;
     }
@@ -250,6 +299,67 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       updateData.primaryAuthMethod = body.data.primaryAuthMethod;
     }
 
+    if (body.data.oidcEnabled !== undefined) {
+      updateData.oidcEnabled = body.data.oidcEnabled;
+    }
+
+    if (body.data.oidcDiscoveryUrl !== undefined) {
+      updateData.oidcDiscoveryUrl = body.data.oidcDiscoveryUrl?.replace(/\/+$/, '') ?? null;
+    }
+
+    if (body.data.oidcClientId !== undefined) {
+      updateData.oidcClientId = body.data.oidcClientId;
+    }
+
+    // The masked placeholder sent back unchanged keeps the stored secret
+    if (body.data.oidcClientSecret !== undefined && body.data.oidcClientSecret !== '********') {
+      updateData.oidcClientSecret = body.data.oidcClientSecret;
+    }
+
+    if (body.data.oidcScopes !== undefined) {
+      updateData.oidcScopes = body.data.oidcScopes;
+    }
+
+    if (body.data.oidcRoleClaim !== undefined) {
+      updateData.oidcRoleClaim = body.data.oidcRoleClaim;
+    }
+
+    if (body.data.oidcRoleMapping !== undefined) {
+      updateData.oidcRoleMapping = body.data.oidcRoleMapping;
+    }
+
+    if (body.data.oidcDefaultRole !== undefined) {
+      updateData.oidcDefaultRole = body.data.oidcDefaultRole;
+    }
+
+    if (body.data.oidcAutoProvision !== undefined) {
+      updateData.oidcAutoProvision = body.data.oidcAutoProvision;
+    }
+
+    if (body.data.oidcLinkOwner !== undefined) {
+      updateData.oidcLinkOwner = body.data.oidcLinkOwner;
+    }
+
+    if (body.data.trustRecoveryEnabled !== undefined) {
+      updateData.trustRecoveryEnabled = body.data.trustRecoveryEnabled;
+    }
+
+    if (body.data.trustRecoveryPoints !== undefined) {
+      updateData.trustRecoveryPoints = body.data.trustRecoveryPoints;
+    }
+
+    if (body.data.trustRecoveryIntervalDays !== undefined) {
+      updateData.trustRecoveryIntervalDays = body.data.trustRecoveryIntervalDays;
+    }
+
+    if (body.data.trustRecoveryFloor !== undefined) {
+      updateData.trustRecoveryFloor = body.data.trustRecoveryFloor;
+    }
+
+    if (body.data.trustRecoveryCap !== undefined) {
+      updateData.trustRecoveryCap = body.data.trustRecoveryCap;
+    }
+
     // Ensure settings row exists
     const existing = await db.select().from(settings).where(eq(settings.id, SETTINGS_ID)).limit(1);
 
@@ -259,13 +369,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       await db.insert(settings).values({
         id: SETTINGS_ID,
         allowGuestAccess: updateData.allowGuestAccess ?? false,
-        discordWebhookUrl: updateData.discordWebhookUrl ?? null,
-        customWebhookUrl: updateData.customWebhookUrl ?? null,
-        webhookFormat: updateData.webhookFormat ?? null,
-        ntfyTopic: updateData.ntfyTopic ?? null,
-        ntfyAuthToken: updateData.ntfyAuthToken ?? null,
-        pushoverUserKey: updateData.pushoverUserKey ?? null,
-        pushoverApiToken: updateData.pushoverApiToken ?? null,
         pollerEnabled: updateData.pollerEnabled ?? true,
         pollerIntervalMs: updateData.pollerIntervalMs ?? 15000,
         usePlexGeoip: updateData.usePlexGeoip ?? false,
@@ -274,6 +377,27 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         externalUrl: updateData.externalUrl ?? null,
         trustProxy: updateData.trustProxy ?? false,
         primaryAuthMethod: updateData.primaryAuthMethod ?? 'local',
+        oidcEnabled: updateData.oidcEnabled ?? DEFAULT_OIDC_SETTINGS.oidcEnabled,
+        oidcDiscoveryUrl: updateData.oidcDiscoveryUrl ?? null,
+        oidcClientId: updateData.oidcClientId ?? null,
+        oidcClientSecret: updateData.oidcClientSecret ?? null,
+        oidcScopes: updateData.oidcScopes ?? DEFAULT_OIDC_SETTINGS.oidcScopes,
+        oidcRoleClaim: updateData.oidcRoleClaim ?? DEFAULT_OIDC_SETTINGS.oidcRoleClaim,
+        oidcRoleMapping: updateData.oidcRoleMapping ?? DEFAULT_OIDC_SETTINGS.oidcRoleMapping,
+        oidcDefaultRole: updateData.oidcDefaultRole ?? null,
+        oidcAutoProvision: updateData.oidcAutoProvision ?? DEFAULT_OIDC_SETTINGS.oidcAutoProvision,
+        oidcLinkOwner: updateData.oidcLinkOwner ?? DEFAULT_OIDC_SETTINGS.oidcLinkOwner,
+        trustRecoveryEnabled:
+          updateData.trustRecoveryEnabled ?? DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryEnabled,
+        trustRecoveryPoints:
+          updateData.trustRecoveryPoints ?? DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryPoints,
+        trustRecoveryIntervalDays:
+          updateData.trustRecoveryIntervalDays ??
+          DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryIntervalDays,
+        trustRecoveryFloor:
+          updateData.trustRecoveryFloor ?? DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryFloor,
+        trustRecoveryCap:
+          updateData.trustRecoveryCap ?? DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryCap,
       });
     } else {
       // Update existing
@@ -288,6 +412,20 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to update settings');
     }
 
+    const previous = existing[0];
+    const before = previous ? auditSettingsSnapshot(previous) : null;
+    const after = auditSettingsSnapshot(row, previous);
+    // Autosave sends unchanged values too; only record actual changes
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      await recordAudit(request, {
+        action: 'settings.update',
+        targetType: 'settings',
+        targetLabel: 'Settings',
+        before,
+        after,
+      });
+    }
+
     // Handle case where columns might not exist yet (before migration)
     let primaryAuthMethod: 'jellyfin' | 'local' = 'local';
     if ('primaryAuthMethod' in row && row.primaryAuthMethod) {
@@ -301,13 +439,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
     const result: Settings = {
       allowGuestAccess: row.allowGuestAccess,
       unitSystem: row.unitSystem,
-      discordWebhookUrl: row.discordWebhookUrl,
-      customWebhookUrl: row.customWebhookUrl,
-      webhookFormat: row.webhookFormat,
-      ntfyTopic: row.ntfyTopic,
-      ntfyAuthToken: row.ntfyAuthToken ? '********' : null, // Mask auth token
-      pushoverUserKey: row.pushoverUserKey,
-      pushoverApiToken: row.pushoverApiToken ? '********' : null, // Mask API token
       pollerEnabled: row.pollerEnabled,
       pollerIntervalMs: row.pollerIntervalMs,
       usePlexGeoip,
@@ -317,163 +448,13 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       trustProxy: row.trustProxy,
       mobileEnabled: row.mobileEnabled,
       primaryAuthMethod,
+      ...pickOidcSettings(row),
+      ...pickTrustRecoverySettings(row),
     };
 
     return result;
   });
 
-  /**
-   * POST /settings/test-webhook - Send a test notification to verify webhook configuration
-   */
-  app.post<{
-    Body: {
-      type: 'discord' | 'custom';
-      url?: string;
-      format?: WebhookFormat;
-      ntfyTopic?: string;
-      ntfyAuthToken?: string;
-      pushoverUserKey?: string;
-      pushoverApiToken?: string;
-    };
-  }>('/test-webhook', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    // Only owners can test webhooks
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can test webhooks');
-    }
-
-    const { type, url, format } = request.body;
-
-    if (!type) {
-      return reply.badRequest('Missing webhook type');
-    }
-
-    // Get current settings to find the URL if not provided
-    const settingsRow = await db
-      .select()
-      .from(settings)
-      .where(eq(settings.id, SETTINGS_ID))
-      .limit(1);
-
-    const currentSettings = settingsRow[0];
-
-    let webhookUrl: string | null = null;
-    let webhookFormat: WebhookFormat = 'json';
-    let ntfyTopic: string | null = null;
-    let ntfyAuthToken: string | null = null;
-    let pushoverUserKey: string | null = null;
-    let pushoverApiToken: string | null = null;
-
-    if (type === 'discord') {
-      webhookUrl = url ?? currentSettings?.discordWebhookUrl ?? null;
-    } else {
-      webhookUrl = url ?? currentSettings?.customWebhookUrl ?? null;
-      webhookFormat = format ?? currentSettings?.webhookFormat ?? 'json';
-      ntfyTopic = currentSettings?.ntfyTopic ?? null;
-      ntfyAuthToken = currentSettings?.ntfyAuthToken ?? null;
-      pushoverUserKey = currentSettings?.pushoverUserKey ?? null;
-      pushoverApiToken = currentSettings?.pushoverApiToken ?? null;
-    }
-
-    if (webhookFormat === 'pushover') {
-      if (!pushoverUserKey || !pushoverApiToken) {
-        return reply.badRequest('Pushover requires User Key and API Token');
-      }
-    } else if (!webhookUrl) {
-      return reply.badRequest(`No ${type} webhook URL configured`);
-    }
-
-    // Build notification settings for testing
-    const testSettings = {
-      discordWebhookUrl: type === 'discord' ? webhookUrl : null,
-      customWebhookUrl: type === 'custom' ? webhookUrl : null,
-      webhookFormat,
-      ntfyTopic,
-      ntfyAuthToken,
-      pushoverUserKey,
-      pushoverApiToken,
-    };
-
-    // Determine which agent to test based on type and format
-    let agentName: string;
-    if (type === 'discord') {
-      agentName = 'discord';
-    } else {
-      // Custom webhook - determine agent based on format
-      switch (webhookFormat) {
-        case 'ntfy':
-          agentName = 'ntfy';
-          break;
-        case 'apprise':
-          agentName = 'apprise';
-          break;
-        case 'pushover':
-          agentName = 'pushover';
-          break;
-        case 'gotify':
-          agentName = 'gotify';
-          break;
-        default:
-          agentName = 'json-webhook';
-      }
-    }
-
-    const result = await notificationManager.testAgent(agentName, testSettings);
-
-    if (!result.success) {
-      return reply.code(502).send({
-        success: false,
-        error: result.error ?? 'Webhook test failed',
-      });
-    }
-
-    return { success: true };
-  });
-
-  /**
-   * GET /settings/api-key - Get current API key
-   * Returns the full API key (retrievable anytime like Sonarr/Radarr)
-   */
-  app.get('/api-key', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    // Only owners can manage API keys
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can manage API keys');
-    }
-
-    const [user] = await db
-      .select({ apiToken: users.apiToken })
-      .from(users)
-      .where(eq(users.id, authUser.userId))
-      .limit(1);
-
-    return { token: user?.apiToken ?? null };
-  });
-
-  /**
-   * POST /settings/api-key/regenerate - Generate or regenerate API key
-   * Creates a new API key, invalidating any previous key
-   */
-  app.post('/api-key/regenerate', { preHandler: [app.authenticate] }, async (request, reply) => {
-    const authUser = request.user;
-
-    // Only owners can manage API keys
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can manage API keys');
-    }
-
-    const newToken = generateApiToken();
-
-    await db
-      .update(users)
-      .set({ apiToken: newToken, updatedAt: new Date() })
-      .where(eq(users.id, authUser.userId));
-
-    return { token: newToken };
-  });
-
   /**
    * GET /settings/ip-warning - Check if IP configuration warning should be shown
    * Returns whether all users have the same IP or all have local/private IPs
@@ -603,68 +584,52 @@ export async function getNetworkSettings(): Promise<{
 }
 
 /**
- * Notification settings for internal use by NotificationDispatcher
+ * Get the trust score recovery policy (for internal use by the recovery job)
  */
-export interface NotificationSettings {
-  discordWebhookUrl: string | null;
-  customWebhookUrl: string | null;
-  webhookFormat: WebhookFormat | null;
-  ntfyTopic: string | null;
-  ntfyAuthToken: string | null;
-  pushoverUserKey: string | null;
-  pushoverApiToken: string | null;
-  webhookSecret: string | null;
-  mobileEnabled: boolean;
-  unitSystem: 'metric' | 'imperial';
+export async function getTrustRecoveryPolicy(): Promise<TrustRecoveryPolicy> {
+  const row = await db
+    .select({
+      enabled: settings.trustRecoveryEnabled,
+      points: settings.trustRecoveryPoints,
+      intervalDays: settings.trustRecoveryIntervalDays,
+      floor: settings.trustRecoveryFloor,
+      cap: settings.trustRecoveryCap,
+    })
+    .from(settings)
+    .where(eq(settings.id, SETTINGS_ID))
+    .limit(1);
+
+  return (
+    row[0] ?? {
+      enabled: DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryEnabled,
+      points: DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryPoints,
+      intervalDays: DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryIntervalDays,
+      floor: DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryFloor,
+      cap: DEFAULT_TRUST_RECOVERY_SETTINGS.trustRecoveryCap,
+    }
+  );
 }
 
 /**
- * Get notification settings from database (for internal use by notification dispatcher)
+ * Get OpenID Connect settings with the unmasked client secret (for internal use by SSO login)
  */
-export async function getNotificationSettings(): Promise<NotificationSettings> {
+export async function getOidcSettings(): Promise<OidcSettings> {
   const row = await db
     .select({
-      discordWebhookUrl: settings.discordWebhookUrl,
-      customWebhookUrl: settings.customWebhookUrl,
-      webhookFormat: settings.webhookFormat,
-      ntfyTopic: settings.ntfyTopic,
-      ntfyAuthToken: settings.ntfyAuthToken,
-      pushoverUserKey: settings.pushoverUserKey,
-      pushoverApiToken: settings.pushoverApiToken,
-      mobileEnabled: settings.mobileEnabled,
-      unitSystem: settings.unitSystem,
+      oidcEnabled: settings.oidcEnabled,
+      oidcDiscoveryUrl: settings.oidcDiscoveryUrl,
+      oidcClientId: settings.oidcClientId,
+      oidcClientSecret: settings.oidcClientSecret,
+      oidcScopes: settings.oidcScopes,
+      oidcRoleClaim: settings.oidcRoleClaim,
+      oidcRoleMapping: settings.oidcRoleMapping,
+      oidcDefaultRole: settings.oidcDefaultRole,
+      oidcAutoProvision: settings.oidcAutoProvision,
+      oidcLinkOwner: settings.oidcLinkOwner,
     })
     .from(settings)
     .where(eq(settings.id, SETTINGS_ID))
     .limit(1);
 
-  const settingsRow = row[0];
-  if (!settingsRow) {
-    // Return defaults if settings don't exist yet
-    return {
-      discordWebhookUrl: null,
-      customWebhookUrl: null,
-      webhookFormat: null,
-      ntfyTopic: null,
-      ntfyAuthToken: null,
-      pushoverUserKey: null,
-      pushoverApiToken: null,
-      webhookSecret: null,
-      mobileEnabled: false,
-      unitSystem: 'metric',
-    };
-  }
-
-  return {
-    discordWebhookUrl: settingsRow.discordWebhookUrl,
-    customWebhookUrl: settingsRow.customWebhookUrl,
-    webhookFormat: settingsRow.webhookFormat,
-    ntfyTopic: settingsRow.ntfyTopic,
-    ntfyAuthToken: settingsRow.ntfyAuthToken,
-    pushoverUserKey: settingsRow.pushoverUserKey,
-    pushoverApiToken: settingsRow.pushoverApiToken,
-    webhookSecret: null, // TODO: Add webhookSecret column to settings table in Phase 4
-    mobileEnabled: settingsRow.mobileEnabled,
-    unitSystem: settingsRow.unitSystem,
-  };
+  return row[0] ?? DEFAULT_OIDC_SETTINGS;
 }
@@ -4,16 +4,18 @@
  * GET /bandwidth/daily - Daily bandwidth usage over time
  * GET /bandwidth/top-users - Top bandwidth consumers
  * GET /bandwidth/summary - Overall bandwidth summary
+ * GET /bandwidth/forecast - 30-day bandwidth and transcode capacity forecast
  */
 
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { sql } from 'drizzle-orm';
-import { statsQuerySchema } from '@tracearr/shared';
+import { bandwidthForecastQuerySchema, statsQuerySchema } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import '../../db/schema.js';
 import { resolveDateRange } from './utils.js';
 import { validateServerAccess, buildServerFilterFragment } from '../../utils/serverFiltering.js';
+import { buildCapacityForecast } from '../../services/capacityForecast.js';
 
 // Extended schema with optional serverUserId filter
 const bandwidthQuerySchema = statsQuerySchema.safeExtend({
@@ -343,4 +345,38 @@ export const bandwidthRoutes: FastifyPluginAsync = async (app) => {
       totalHours: Math.round((Number(row.total_duration_ms ?? 0) / 3600000) * 10) / 10,
     };
   });
+
+  /**
+   * GET /bandwidth/forecast - Capacity forecast per server
+   *
+   * Returns p95 and peak upstream bandwidth, peak concurrent transcodes and a
+   * 30-day linear projection, optionally under a what-if scenario (extra users,
+   * remote streams capped at 1080p).
+   */
+  app.get('/bandwidth/forecast', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const query = bandwidthForecastQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest('Invalid query parameters');
+    }
+
+    const { serverId, timezone, lookbackDays, addUsers, capRemote1080p } = query.data;
+    const authUser = request.user;
+
+    // Validate server access if specific server requested
+    if (serverId) {
+      const error = validateServerAccess(authUser, serverId);
+      if (error) {
+        return reply.forbidden(error);
+      }
+    }
+
+    return buildCapacityForecast({
+      authUser,
+      serverId,
+      timezone: timezone ?? 'UTC',
+      lookbackDays,
+      addUsers,
+      capRemote1080p,
+    });
+  });
 };
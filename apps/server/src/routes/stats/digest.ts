@@ -0,0 +1,73 @@
+/**
+ * Usage Digest Route
+ *
+ * GET /digest - Weekly/monthly usage digest as JSON or a downloadable HTML page
+ *
+ * Same report the digest queue sends to notification destinations.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { digestQuerySchema } from '@tracearr/shared';
+import { buildDigestReport } from '../../services/digest.js';
+import { renderDigestHtml } from '../../services/notifications/formatters/digest.js';
+import { validateServerAccess } from '../../utils/serverFiltering.js';
+
+export const digestRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /digest - Digest for the most recent complete week or month
+   *
+   * format=html returns a standalone page as an attachment. Accepts the access
+   * token as a query param so the browser can download it directly.
+   */
+  app.get('/digest', async (request, reply) => {
+    const queryToken = (request.query as { token?: string }).token;
+    if (queryToken) {
+      request.headers.authorization = `Bearer ${queryToken}`;
+    }
+
+    try {
+      await request.jwtVerify();
+    } catch {
+      return reply.unauthorized('Invalid or missing token');
+    }
+
+    const query = digestQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest('Invalid query parameters');
+    }
+
+    const { period, serverId, format } = query.data;
+    const authUser = request.user;
+
+    if (serverId) {
+      const error = validateServerAccess(authUser, serverId);
+      if (error) {
+        return reply.forbidden(error);
+      }
+    }
+
+    // Non-owners only see their servers (an empty list would mean all servers)
+    let serverIds: string[] = [];
+    if (serverId) {
+      serverIds = [serverId];
+    } else if (authUser.role !== 'owner') {
+      if (authUser.serverIds.length === 0) {
+        return reply.forbidden('No server access');
+      }
+      serverIds = authUser.serverIds;
+    }
+
+    const report = await buildDigestReport(period, serverIds);
+
+    if (format === 'json') {
+      return report;
+    }
+
+    const filename = `tracearr-${period}-digest-${report.start.slice(0, 10)}.html`;
+    return reply
+      .header('Content-Type', 'text/html; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .header('Cache-Control', 'no-store')
+      .send(renderDigestHtml(report));
+  });
+};
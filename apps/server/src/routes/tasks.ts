@@ -7,13 +7,27 @@
 
 import type { FastifyPluginAsync } from 'fastify';
 import type { RunningTask } from '@tracearr/shared';
-import { getAllActiveImports, getActiveImportProgress } from '../jobs/importQueue.js';
+import {
+  getAllActiveImports,
+  getActiveImportProgress,
+  type ImportJobType,
+} from '../jobs/importQueue.js';
 import { getAllActiveLibrarySyncs } from '../jobs/librarySyncQueue.js';
 import { getMaintenanceProgress, getAllActiveMaintenanceJobs } from '../jobs/maintenanceQueue.js';
+import { getActiveRestore } from '../jobs/restoreQueue.js';
 import { db } from '../db/client.js';
 import { servers } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
 
+/** Display names for import job types */
+const IMPORT_TYPE_NAMES: Record<ImportJobType, string> = {
+  tautulli: 'Tautulli',
+  jellystat: 'Jellystat',
+  plex_history: 'Plex history',
+  playback_reporting: 'Playback Reporting',
+  file: 'History file',
+};
+
 /**
  * Get server name by ID (for context in task display)
  */
@@ -32,7 +46,8 @@ export const tasksRoutes: FastifyPluginAsync = async (app) => {
    *
    * Returns unified list of running tasks from:
    * - Library sync queue
-   * - Import queue (Tautulli, Jellystat)
+   * - Import queue (Tautulli, Jellystat, Plex history, Playback Reporting)
+   * - Restore queue
    * - Maintenance queue
    */
   app.get('/running', { preHandler: [app.authenticate] }, async () => {
@@ -69,7 +84,7 @@ export const tasksRoutes: FastifyPluginAsync = async (app) => {
 
     for (const imp of imports) {
       const serverName = await getServerName(imp.serverId);
-      const importType = imp.type === 'tautulli' ? 'Tautulli' : 'Jellystat';
+      const importType = IMPORT_TYPE_NAMES[imp.type];
 
       // Use cached progress if available for this job (has more detail than BullMQ progress)
       const isCachedJob = cachedImportProgress?.jobId === imp.jobId;
@@ -119,7 +134,7 @@ export const tasksRoutes: FastifyPluginAsync = async (app) => {
 
       tasks.push({
         id: imp.jobId,
-        type: imp.type === 'tautulli' ? 'tautulli_import' : 'jellystat_import',
+        type: `${imp.type}_import`,
         name: `${importType} Import`,
         status: importStatus,
         progress: progressPct,
@@ -132,6 +147,31 @@ export const tasksRoutes: FastifyPluginAsync = async (app) => {
       });
     }
 
+    // Get backup restore task
+    const restore = await getActiveRestore();
+    if (restore) {
+      const progress = restore.progress;
+      let restoreStatus: RunningTask['status'] = restore.state === 'active' ? 'running' : 'pending';
+      if (progress?.status === 'waiting') {
+        restoreStatus = 'waiting';
+      }
+
+      tasks.push({
+        id: restore.jobId,
+        type: 'backup_restore',
+        name: 'Backup Restore',
+        status: restoreStatus,
+        progress:
+          progress && progress.totalBytes > 0
+            ? Math.round((progress.processedBytes / progress.totalBytes) * 100)
+            : null,
+        message: progress?.message ?? 'Starting restore...',
+        startedAt: progress?.startedAt ?? new Date(restore.createdAt).toISOString(),
+        context: progress?.currentTable,
+        waitingFor: progress?.waitingFor,
+      });
+    }
+
     // Get maintenance tasks - query BullMQ directly, then merge with in-memory progress
     const maintenanceJobs = await getAllActiveMaintenanceJobs();
     const cachedMaintenanceProgress = getMaintenanceProgress();
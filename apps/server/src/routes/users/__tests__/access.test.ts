@@ -0,0 +1,298 @@
+/**
+ * User Access routes tests
+ *
+ * Tests the API endpoints for roles and server grants:
+ * - GET /users/access - List identity users with their role and grants
+ * - PUT /users/:id/access - Replace a user's role and grants
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../../services/auditLog.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Import the mocked db and the routes
+import { db } from '../../../db/client.js';
+import { recordAudit } from '../../../services/auditLog.js';
+import { accessRoutes } from '../access.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(accessRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [randomUUID()],
+  };
+}
+
+/**
+ * Helper to create mock chain for a single-row lookup
+ */
+function createLookupSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  } as never;
+}
+
+/**
+ * Helper to create mock chain for a where-only query
+ */
+function createWhereSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue(resolvedValue),
+    }),
+  } as never;
+}
+
+/**
+ * Helper to create a transaction mock that records the writes
+ */
+function mockTransaction() {
+  const tx = {
+    update: vi.fn().mockReturnValue({
+      set: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+    }),
+    delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+    insert: vi.fn().mockReturnValue({ values: vi.fn().mockResolvedValue(undefined) }),
+  };
+  vi.mocked(db.transaction).mockImplementation(async (callback) => callback(tx as never));
+  return tx;
+}
+
+describe('User Access Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/access', () => {
+    it('returns users with their grants', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const userId = randomUUID();
+      const serverId = randomUUID();
+      vi.mocked(db.select)
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockResolvedValue([
+              {
+                id: userId,
+                username: 'alice',
+                name: 'Alice',
+                thumbnail: null,
+                email: null,
+                role: 'admin',
+              },
+            ]),
+          }),
+        } as never)
+        .mockReturnValueOnce({
+          from: vi.fn().mockResolvedValue([{ userId, serverId, role: 'admin' }]),
+        } as never);
+
+      const response = await app.inject({ method: 'GET', url: '/users/access' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual([
+        {
+          id: userId,
+          username: 'alice',
+          name: 'Alice',
+          thumbnail: null,
+          email: null,
+          role: 'admin',
+          grants: [{ serverId, role: 'admin' }],
+        },
+      ]);
+    });
+
+    it('rejects users without users:manage', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({ method: 'GET', url: '/users/access' });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toContain('users:manage');
+    });
+  });
+
+  describe('PUT /users/:id/access', () => {
+    it('replaces the role and grants', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const userId = randomUUID();
+      const serverId = randomUUID();
+      vi.mocked(db.select)
+        .mockReturnValueOnce(
+          createLookupSelectMock([{ id: userId, username: 'alice', role: 'viewer' }])
+        )
+        .mockReturnValueOnce(createWhereSelectMock([{ id: serverId }]))
+        .mockReturnValueOnce(createWhereSelectMock([]));
+      const tx = mockTransaction();
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${userId}/access`,
+        payload: { role: 'moderator', grants: [{ serverId, role: 'moderator' }] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ success: true, role: 'moderator' });
+      expect(tx.update).toHaveBeenCalled();
+      expect(tx.delete).toHaveBeenCalled();
+      expect(tx.insert).toHaveBeenCalled();
+      expect(recordAudit).toHaveBeenCalledWith(expect.anything(), {
+        action: 'user.access_update',
+        targetType: 'user',
+        targetId: userId,
+        targetLabel: 'alice',
+        before: { role: 'viewer', grants: [] },
+        after: { role: 'moderator', grants: [{ serverId, role: 'moderator' }] },
+      });
+    });
+
+    it('clears grants when none are given', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const userId = randomUUID();
+      vi.mocked(db.select)
+        .mockReturnValueOnce(createLookupSelectMock([{ id: userId, role: 'admin' }]))
+        .mockReturnValueOnce(createWhereSelectMock([{ serverId: randomUUID(), role: 'admin' }]));
+      const tx = mockTransaction();
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${userId}/access`,
+        payload: { role: 'admin', grants: [] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(tx.delete).toHaveBeenCalled();
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown servers', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const userId = randomUUID();
+      vi.mocked(db.select)
+        .mockReturnValueOnce(createLookupSelectMock([{ id: userId, role: 'viewer' }]))
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([]) }),
+        } as never);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${userId}/access`,
+        payload: { role: 'admin', grants: [{ serverId: randomUUID(), role: 'admin' }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses to change the owner', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const userId = randomUUID();
+      vi.mocked(db.select).mockReturnValueOnce(
+        createLookupSelectMock([{ id: userId, role: 'owner' }])
+      );
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${userId}/access`,
+        payload: { role: 'viewer', grants: [] },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses to change your own access', async () => {
+      const owner = createUser('owner');
+      app = await buildTestApp(owner);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${owner.userId}/access`,
+        payload: { role: 'viewer', grants: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects duplicate server grants', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const serverId = randomUUID();
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${randomUUID()}/access`,
+        payload: {
+          role: 'admin',
+          grants: [
+            { serverId, role: 'admin' },
+            { serverId, role: 'viewer' },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects assigning the owner role', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/${randomUUID()}/access`,
+        payload: { role: 'owner', grants: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * User Exemptions routes tests
+ *
+ * Tests the API endpoint for user rule exemption history:
+ * - GET /:id/exemptions - Get rule exemption history for a user
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser, RuleExemption } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+// Import the mocked db and the routes
+import { db } from '../../../db/client.js';
+import { exemptionsRoutes } from '../exemptions.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(exemptionsRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createTestExemption(overrides: Partial<RuleExemption> = {}): RuleExemption {
+  return {
+    id: randomUUID(),
+    serverUserId: randomUUID(),
+    userId: null,
+    ruleId: randomUUID(),
+    reason: 'Travels for work',
+    expiresAt: null,
+    createdByUserId: null,
+    createdAt: new Date(),
+    revokedAt: null,
+    revokedByUserId: null,
+    ...overrides,
+  };
+}
+
+function createOwnerUser(serverIds: string[] = [randomUUID()]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds,
+  };
+}
+
+/**
+ * Helper to create mock chain for server user lookup
+ */
+function createServerUserSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain for the exemptions query (1 leftJoin to rules)
+ */
+function createExemptionsSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      leftJoin: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockResolvedValue(resolvedValue),
+        }),
+      }),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain for the actor username lookup
+ */
+function createUsersSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue(resolvedValue),
+    }),
+  };
+}
+
+describe('User Exemptions Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/:id/exemptions', () => {
+    it('should return exemption history with status and actors', async () => {
+      const serverId = randomUUID();
+      const serverUserId = randomUUID();
+      const adminId = randomUUID();
+      app = await buildTestApp(createOwnerUser([serverId]));
+
+      const active = createTestExemption({ serverUserId, createdByUserId: adminId });
+      const expired = createTestExemption({
+        serverUserId,
+        expiresAt: new Date(Date.now() - 60_000),
+      });
+      const revoked = createTestExemption({
+        serverUserId: null,
+        userId: randomUUID(),
+        ruleId: null,
+        revokedAt: new Date(),
+        revokedByUserId: adminId,
+      });
+
+      mockDb.select.mockReturnValueOnce(
+        createServerUserSelectMock([{ serverId, userId: revoked.userId }])
+      );
+      mockDb.select.mockReturnValueOnce(
+        createExemptionsSelectMock([
+          { exemption: active, ruleName: 'Impossible Travel' },
+          { exemption: expired, ruleName: 'Device Velocity' },
+          { exemption: revoked, ruleName: null },
+        ])
+      );
+      mockDb.select.mockReturnValueOnce(
+        createUsersSelectMock([{ id: adminId, username: 'admin' }])
+      );
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${serverUserId}/exemptions`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data.map((e: { status: string }) => e.status)).toEqual([
+        'active',
+        'expired',
+        'revoked',
+      ]);
+      expect(body.data[0]).toMatchObject({
+        ruleName: 'Impossible Travel',
+        createdByUsername: 'admin',
+      });
+      expect(body.data[2]).toMatchObject({ ruleName: null, revokedByUsername: 'admin' });
+    });
+
+    it('should skip the actor lookup when nobody is recorded', async () => {
+      const serverId = randomUUID();
+      const serverUserId = randomUUID();
+      app = await buildTestApp(createOwnerUser([serverId]));
+
+      mockDb.select.mockReturnValueOnce(
+        createServerUserSelectMock([{ serverId, userId: randomUUID() }])
+      );
+      mockDb.select.mockReturnValueOnce(
+        createExemptionsSelectMock([{ exemption: createTestExemption(), ruleName: null }])
+      );
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${serverUserId}/exemptions`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data[0].createdByUsername).toBeNull();
+      expect(mockDb.select).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockDb.select.mockReturnValueOnce(createServerUserSelectMock([]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/exemptions`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should return 403 for a user on another server', async () => {
+      app = await buildTestApp(createOwnerUser([randomUUID()]));
+      mockDb.select.mockReturnValueOnce(
+        createServerUserSelectMock([{ serverId: randomUUID(), userId: randomUUID() }])
+      );
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/exemptions`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 400 for invalid user ID', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users/not-a-uuid/exemptions',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
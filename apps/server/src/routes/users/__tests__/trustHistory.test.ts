@@ -0,0 +1,187 @@
+/**
+ * User Trust History routes tests
+ *
+ * Tests the API endpoint for user trust score history:
+ * - GET /:id/trust-history - Get trust score changes for a user
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser, TrustScoreHistoryEntry } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+// Import the mocked db and the routes
+import { db } from '../../../db/client.js';
+import { trustHistoryRoutes } from '../trustHistory.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(trustHistoryRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createTestEntry(overrides: Partial<TrustScoreHistoryEntry> = {}): TrustScoreHistoryEntry {
+  return {
+    id: randomUUID(),
+    serverUserId: randomUUID(),
+    previousScore: 100,
+    newScore: 80,
+    source: 'violation',
+    reason: 'Violation: Concurrent streams',
+    changedByUserId: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createOwnerUser(serverIds: string[] = [randomUUID()]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds,
+  };
+}
+
+/**
+ * Helper to create mock chain for server user lookup
+ */
+function createServerUserSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain for the history query
+ */
+function createHistorySelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        orderBy: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+describe('User Trust History Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/:id/trust-history', () => {
+    it('returns trust score history for the user', async () => {
+      const serverId = randomUUID();
+      const serverUserId = randomUUID();
+      app = await buildTestApp(createOwnerUser([serverId]));
+
+      const entries = [
+        createTestEntry({ serverUserId, previousScore: 100, newScore: 80 }),
+        createTestEntry({
+          serverUserId,
+          previousScore: 80,
+          newScore: 85,
+          source: 'recovery',
+          reason: 'No violations in 7 days',
+        }),
+      ];
+
+      mockDb.select
+        .mockReturnValueOnce(createServerUserSelectMock([{ serverId }]))
+        .mockReturnValueOnce(createHistorySelectMock(entries));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${serverUserId}/trust-history`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data).toHaveLength(2);
+      expect(body.data[0].newScore).toBe(80);
+      expect(body.data[1].source).toBe('recovery');
+    });
+
+    it('returns 404 for an unknown user', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createServerUserSelectMock([]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/trust-history`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('returns 403 for a user on another server', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createServerUserSelectMock([{ serverId: randomUUID() }]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/trust-history`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('rejects an invalid user ID', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users/not-a-uuid/trust-history',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects an out of range window', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/trust-history?days=1000`,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
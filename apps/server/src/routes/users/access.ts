@@ -0,0 +1,138 @@
+/**
+ * User Access Routes
+ *
+ * Manage identity roles and server-scoped grants. Changes apply the next time
+ * the user's access token is refreshed.
+ *
+ * GET /access - List identity users with their role and server grants
+ * PUT /:id/access - Replace a user's role and server grants
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { updateUserAccessSchema, userIdParamSchema, type UserAccess } from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { servers, userServerGrants, users } from '../../db/schema.js';
+import { requirePermission } from '../../utils/permissions.js';
+import { recordAudit } from '../../services/auditLog.js';
+
+export const accessRoutes: FastifyPluginAsync = async (app) => {
+  const requireUsersManage = [app.authenticate, requirePermission('users:manage')];
+
+  /**
+   * GET /access - List identity users with their role and server grants
+   */
+  app.get('/access', { preHandler: requireUsersManage }, async () => {
+    const [userRows, grantRows] = await Promise.all([
+      db
+        .select({
+          id: users.id,
+          username: users.username,
+          name: users.name,
+          thumbnail: users.thumbnail,
+          email: users.email,
+          role: users.role,
+        })
+        .from(users)
+        .orderBy(asc(users.username)),
+      db
+        .select({
+          userId: userServerGrants.userId,
+          serverId: userServerGrants.serverId,
+          role: userServerGrants.role,
+        })
+        .from(userServerGrants),
+    ]);
+
+    const data: UserAccess[] = userRows.map((user) => ({
+      ...user,
+      grants: grantRows
+        .filter((grant) => grant.userId === user.id)
+        .map(({ serverId, role }) => ({ serverId, role })),
+    }));
+
+    return { data };
+  });
+
+  /**
+   * PUT /:id/access - Replace a user's role and server grants
+   *
+   * An empty grants list means the role applies on every server.
+   */
+  app.put('/:id/access', { preHandler: requireUsersManage }, async (request, reply) => {
+    const params = userIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid user ID');
+    }
+
+    const body = updateUserAccessSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('Invalid request body');
+    }
+
+    const { id } = params.data;
+    const { role, grants } = body.data;
+
+    if (id === request.user.userId) {
+      return reply.badRequest('You cannot change your own access');
+    }
+
+    const userRows = await db
+      .select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
+
+    const user = userRows[0];
+    if (!user) {
+      return reply.notFound('User not found');
+    }
+
+    if (user.role === 'owner') {
+      return reply.forbidden('The owner role cannot be changed');
+    }
+
+    if (grants.length > 0) {
+      const serverRows = await db
+        .select({ id: servers.id })
+        .from(servers)
+        .where(
+          inArray(
+            servers.id,
+            grants.map((grant) => grant.serverId)
+          )
+        );
+      if (serverRows.length !== grants.length) {
+        return reply.badRequest('Unknown server in grants');
+      }
+    }
+
+    const previousGrants = await db
+      .select({ serverId: userServerGrants.serverId, role: userServerGrants.role })
+      .from(userServerGrants)
+      .where(eq(userServerGrants.userId, id));
+
+    await db.transaction(async (tx) => {
+      await tx.update(users).set({ role, updatedAt: new Date() }).where(eq(users.id, id));
+      await tx.delete(userServerGrants).where(eq(userServerGrants.userId, id));
+      if (grants.length > 0) {
+        await tx
+          .insert(userServerGrants)
+          .values(
+            grants.map((grant) => ({ userId: id, serverId: grant.serverId, role: grant.role }))
+          );
+      }
+    });
+
+    await recordAudit(request, {
+      action: 'user.access_update',
+      targetType: 'user',
+      targetId: id,
+      targetLabel: user.username,
+      before: { role: user.role, grants: previousGrants },
+      after: { role, grants },
+    });
+
+    return { success: true, id, role, grants };
+  });
+};
@@ -0,0 +1,89 @@
+/**
+ * User Exemptions Route
+ *
+ * GET /:id/exemptions - Get rule exemption history for a user
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { desc, eq, inArray, or } from 'drizzle-orm';
+import { userIdParamSchema, type RuleExemptionWithDetails } from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { ruleExemptions, rules, serverUsers, users } from '../../db/schema.js';
+import { getExemptionStatus } from '../../services/rules/exemptions.js';
+
+export const exemptionsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /:id/exemptions - Get rule exemption history for a user
+   *
+   * Returns exemptions of this server account and of its identity (all of the
+   * identity's accounts), newest first, including expired and revoked ones.
+   */
+  app.get('/:id/exemptions', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const params = userIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid user ID');
+    }
+
+    const { id } = params.data;
+    const authUser = request.user;
+
+    const serverUserRows = await db
+      .select({ serverId: serverUsers.serverId, userId: serverUsers.userId })
+      .from(serverUsers)
+      .where(eq(serverUsers.id, id))
+      .limit(1);
+
+    const serverUser = serverUserRows[0];
+    if (!serverUser) {
+      return reply.notFound('User not found');
+    }
+
+    if (!authUser.serverIds.includes(serverUser.serverId)) {
+      return reply.forbidden('You do not have access to this user');
+    }
+
+    const rows = await db
+      .select({
+        exemption: ruleExemptions,
+        ruleName: rules.name,
+      })
+      .from(ruleExemptions)
+      .leftJoin(rules, eq(ruleExemptions.ruleId, rules.id))
+      .where(or(eq(ruleExemptions.serverUserId, id), eq(ruleExemptions.userId, serverUser.userId)))
+      .orderBy(desc(ruleExemptions.createdAt));
+
+    // Resolve who created/revoked each exemption
+    const actorIds = [
+      ...new Set(
+        rows.flatMap(({ exemption }) =>
+          [exemption.createdByUserId, exemption.revokedByUserId].filter(
+            (actorId): actorId is string => actorId !== null
+          )
+        )
+      ),
+    ];
+    const actors =
+      actorIds.length > 0
+        ? await db
+            .select({ id: users.id, username: users.username })
+            .from(users)
+            .where(inArray(users.id, actorIds))
+        : [];
+    const usernames = new Map(actors.map((actor) => [actor.id, actor.username]));
+
+    const now = new Date();
+    const data: RuleExemptionWithDetails[] = rows.map(({ exemption, ruleName }) => ({
+      ...exemption,
+      status: getExemptionStatus(exemption, now),
+      ruleName,
+      createdByUsername: exemption.createdByUserId
+        ? (usernames.get(exemption.createdByUserId) ?? null)
+        : null,
+      revokedByUsername: exemption.revokedByUserId
+        ? (usernames.get(exemption.revokedByUserId) ?? null)
+        : null,
+    }));
+
+    return { data };
+  });
+};
@@ -12,6 +12,10 @@
  * - GET /:id/locations - Get user's unique locations
  * - GET /:id/devices - Get user's unique devices
  * - GET /:id/terminations - Get user's termination history
+ * - GET /:id/exemptions - Get user's rule exemption history
+ * - GET /:id/trust-history - Get user's trust score changes
+ * - GET /access - List identity users with roles and server grants
+ * - PUT /:id/access - Update a user's role and server grants
  */
 
 import type { FastifyPluginAsync } from 'fastify';
@@ -21,6 +25,9 @@ import { sessionsRoutes } from './sessions.js';
 import { locationsRoutes } from './locations.js';
 import { devicesRoutes } from './devices.js';
 import { terminationsRoutes } from './terminations.js';
+import { exemptionsRoutes } from './exemptions.js';
+import { trustHistoryRoutes } from './trustHistory.js';
+import { accessRoutes } from './access.js';
 
 export const userRoutes: FastifyPluginAsync = async (app) => {
   // Register all sub-route plugins
@@ -31,4 +38,7 @@ export const userRoutes: FastifyPluginAsync = async (app) => {
   await app.register(locationsRoutes);
   await app.register(devicesRoutes);
   await app.register(terminationsRoutes);
+  await app.register(exemptionsRoutes);
+  await app.register(trustHistoryRoutes);
+  await app.register(accessRoutes);
 };
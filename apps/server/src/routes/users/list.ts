@@ -17,13 +17,20 @@ import {
   userIdParamSchema,
   paginationSchema,
   serverIdFilterSchema,
+  hasPermission,
 } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import { serverUsers, sessions, servers, users } from '../../db/schema.js';
 import { hasServerAccess } from '../../utils/serverFiltering.js';
 import { updateUser } from '../../services/userService.js';
+import { applyTrustScoreChange, notifyTrustScoreChange } from '../../services/trustScore.js';
+import { requirePermission } from '../../utils/permissions.js';
+import { recordAudit, type AuditEvent } from '../../services/auditLog.js';
 
 export const listRoutes: FastifyPluginAsync = async (app) => {
+  const requireUsersTrust = [app.authenticate, requirePermission('users:trust')];
+  const requireUsersManage = [app.authenticate, requirePermission('users:manage')];
+
   // Combined schema for pagination and server filter
   const userListQuerySchema = paginationSchema.extend(serverIdFilterSchema.shape);
 
@@ -185,7 +192,7 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
   /**
    * PATCH /:id - Update server user (trustScore, etc.)
    */
-  app.patch('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/:id', { preHandler: requireUsersTrust }, async (request, reply) => {
     const params = userIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid user ID');
@@ -199,11 +206,6 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can update users
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can update users');
-    }
-
     // Get existing server user
     const serverUserRows = await db
       .select()
@@ -217,26 +219,39 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
     }
 
     // Verify access (owners can see all servers)
-    if (!hasServerAccess(authUser, serverUser.serverId)) {
+    if (!hasPermission(authUser, 'users:trust', serverUser.serverId)) {
       return reply.forbidden('You do not have access to this user');
     }
 
-    // Build update object
-    const updateData: Partial<{
-      trustScore: number;
-      updatedAt: Date;
-    }> = {
-      updatedAt: new Date(),
-    };
-
+    // Trust score changes are recorded in the trust score history
     if (body.data.trustScore !== undefined) {
-      updateData.trustScore = body.data.trustScore;
+      const change = await applyTrustScoreChange(
+        db,
+        id,
+        { score: body.data.trustScore },
+        {
+          source: 'manual',
+          reason: `Set by @${authUser.username}`,
+          changedByUserId: authUser.userId,
+        }
+      );
+      if (change) {
+        await recordAudit(request, {
+          action: 'user.trust_update',
+          targetType: 'server_user',
+          targetId: id,
+          targetLabel: change.username,
+          before: { trustScore: change.previousScore },
+          after: { trustScore: change.newScore },
+        });
+      }
+      await notifyTrustScoreChange(change);
     }
 
     // Update server user
     const updated = await db
       .update(serverUsers)
-      .set(updateData)
+      .set({ updatedAt: new Date() })
       .where(eq(serverUsers.id, id))
       .returning({
         id: serverUsers.id,
@@ -264,9 +279,9 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * PATCH /:id/identity - Update user identity (display name)
-   * Owner-only. Updates the users table (identity), not server_users.
+   * Requires users:manage. Updates the users table (identity), not server_users.
    */
-  app.patch('/:id/identity', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/:id/identity', { preHandler: requireUsersManage }, async (request, reply) => {
     const params = userIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid user ID');
@@ -280,11 +295,6 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can update user identity
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only owners can update user identity');
-    }
-
     // Get serverUser to find userId (the identity)
     const serverUserRows = await db
       .select({ userId: serverUsers.userId, serverId: serverUsers.serverId })
@@ -310,16 +320,11 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * POST /bulk/reset-trust - Bulk reset trust scores to 100
-   * Owner-only. Accepts array of user IDs.
+   * Requires users:trust. Accepts array of user IDs.
    */
-  app.post('/bulk/reset-trust', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/bulk/reset-trust', { preHandler: requireUsersTrust }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can reset trust scores
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only owners can reset trust scores');
-    }
-
     const body = request.body as { ids: string[] };
 
     if (!body.ids || !Array.isArray(body.ids) || body.ids.length === 0) {
@@ -337,21 +342,40 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
 
     // Filter to only accessible users
     const accessibleIds = userDetails
-      .filter((u) => hasServerAccess(authUser, u.serverId))
+      .filter((u) => hasPermission(authUser, 'users:trust', u.serverId))
       .map((u) => u.id);
 
     if (accessibleIds.length === 0) {
       return { success: true, updated: 0 };
     }
 
-    // Bulk update trust scores to 100
-    await db
-      .update(serverUsers)
-      .set({
-        trustScore: 100,
-        updatedAt: new Date(),
-      })
-      .where(inArray(serverUsers.id, accessibleIds));
+    // Reset trust scores to 100 (one history entry per changed user)
+    const auditEvents: AuditEvent[] = [];
+    for (const serverUserId of accessibleIds) {
+      const change = await applyTrustScoreChange(
+        db,
+        serverUserId,
+        { score: 100 },
+        {
+          source: 'manual',
+          reason: `Reset by @${authUser.username}`,
+          changedByUserId: authUser.userId,
+        }
+      );
+      if (change) {
+        auditEvents.push({
+          action: 'user.trust_reset',
+          targetType: 'server_user',
+          targetId: serverUserId,
+          targetLabel: change.username,
+          before: { trustScore: change.previousScore },
+          after: { trustScore: change.newScore },
+        });
+      }
+      await notifyTrustScoreChange(change);
+    }
+
+    await recordAudit(request, auditEvents);
 
     return { success: true, updated: accessibleIds.length };
   });
@@ -0,0 +1,73 @@
+/**
+ * User Trust History Route
+ *
+ * GET /:id/trust-history - Get trust score changes for a user
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, asc, eq, gte } from 'drizzle-orm';
+import {
+  TIME_MS,
+  trustScoreHistoryQuerySchema,
+  userIdParamSchema,
+  type TrustScoreHistoryEntry,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { serverUsers, trustScoreHistory } from '../../db/schema.js';
+
+export const trustHistoryRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /:id/trust-history - Get trust score changes for a user
+   *
+   * Returns changes within the requested window, oldest first (chart order).
+   */
+  app.get('/:id/trust-history', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const params = userIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid user ID');
+    }
+
+    const query = trustScoreHistoryQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest('Invalid query parameters');
+    }
+
+    const { id } = params.data;
+    const { days } = query.data;
+    const authUser = request.user;
+
+    const serverUserRows = await db
+      .select({ serverId: serverUsers.serverId })
+      .from(serverUsers)
+      .where(eq(serverUsers.id, id))
+      .limit(1);
+
+    const serverUser = serverUserRows[0];
+    if (!serverUser) {
+      return reply.notFound('User not found');
+    }
+
+    if (!authUser.serverIds.includes(serverUser.serverId)) {
+      return reply.forbidden('You do not have access to this user');
+    }
+
+    const since = new Date(Date.now() - days * TIME_MS.DAY);
+
+    const data: TrustScoreHistoryEntry[] = await db
+      .select({
+        id: trustScoreHistory.id,
+        serverUserId: trustScoreHistory.serverUserId,
+        previousScore: trustScoreHistory.previousScore,
+        newScore: trustScoreHistory.newScore,
+        source: trustScoreHistory.source,
+        reason: trustScoreHistory.reason,
+        changedByUserId: trustScoreHistory.changedByUserId,
+        createdAt: trustScoreHistory.createdAt,
+      })
+      .from(trustScoreHistory)
+      .where(and(eq(trustScoreHistory.serverUserId, id), gte(trustScoreHistory.createdAt, since)))
+      .orderBy(asc(trustScoreHistory.createdAt));
+
+    return { data };
+  });
+};
@@ -16,6 +16,7 @@ import {
   isPrerelease,
   forceVersionCheck,
 } from '../jobs/versionCheckQueue.js';
+import { requirePermission } from '../utils/permissions.js';
 
 export const versionRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -63,16 +64,11 @@ export const versionRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * POST /version/check
-   * Force an immediate version check (admin only)
+   * Force an immediate version check
    */
   app.post('/check', {
-    preHandler: [app.authenticate],
-    handler: async (request, reply) => {
-      // Require admin role
-      if (request.user.role !== 'owner' && request.user.role !== 'admin') {
-        return reply.forbidden('Admin access required');
-      }
-
+    preHandler: [app.authenticate, requirePermission('maintenance:run')],
+    handler: async () => {
       await forceVersionCheck();
 
       return { message: 'Version check queued' };
@@ -7,6 +7,7 @@ import { eq, and, desc, gte, lte, isNull, isNotNull, sql, inArray } from 'drizzl
 import {
   violationQuerySchema,
   violationIdParamSchema,
+  hasPermission,
   type ViolationSessionInfo,
   type ViolationSortField,
   type ViolationWithDetails,
@@ -22,7 +23,15 @@ import {
   ruleActionResults,
 } from '../db/schema.js';
 import { hasServerAccess } from '../utils/serverFiltering.js';
+import { requirePermission } from '../utils/permissions.js';
 import { getTrustScorePenalty } from '../jobs/poller/violations.js';
+import {
+  applyTrustScoreChange,
+  notifyTrustScoreChange,
+  type TrustScoreChange,
+} from '../services/trustScore.js';
+import { recordAudit, type AuditEvent } from '../services/auditLog.js';
+import { acknowledgeViolation, getViolationAckTarget } from '../services/violations.js';
 
 /**
  * Build ORDER BY SQL clause for violations based on sort field and direction.
@@ -577,6 +586,9 @@ async function enrichViolations(violationData: ViolationRow[]) {
 }
 
 export const violationRoutes: FastifyPluginAsync = async (app) => {
+  const requireViolationsAck = [app.authenticate, requirePermission('violations:ack')];
+  const requireViolationsDelete = [app.authenticate, requirePermission('violations:delete')];
+
   /**
    * GET /violations - List violations with pagination and filters
    *
@@ -861,68 +873,40 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
   /**
    * PATCH /violations/:id - Acknowledge a violation
    */
-  app.patch('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.patch('/:id', { preHandler: requireViolationsAck }, async (request, reply) => {
     const params = violationIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid violation ID');
     }
 
-    const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can acknowledge violations
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can acknowledge violations');
-    }
-
     // Check violation exists and get server info for access check
-    const violationRows = await db
-      .select({
-        id: violations.id,
-        serverId: serverUsers.serverId,
-      })
-      .from(violations)
-      .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
-      .where(eq(violations.id, id))
-      .limit(1);
-
-    const violation = violationRows[0];
+    const violation = await getViolationAckTarget(params.data.id);
     if (!violation) {
       return reply.notFound('Violation not found');
     }
 
     // Check server access
-    if (!hasServerAccess(authUser, violation.serverId)) {
+    if (!hasPermission(authUser, 'violations:ack', violation.serverId)) {
       return reply.forbidden('You do not have access to this violation');
     }
 
-    // Update acknowledgment
-    const updated = await db
-      .update(violations)
-      .set({
-        acknowledgedAt: new Date(),
-      })
-      .where(eq(violations.id, id))
-      .returning({
-        id: violations.id,
-        acknowledgedAt: violations.acknowledgedAt,
-      });
-
-    const updatedViolation = updated[0];
-    if (!updatedViolation) {
+    const acknowledgedAt = await acknowledgeViolation(request, violation);
+    if (!acknowledgedAt) {
       return reply.internalServerError('Failed to acknowledge violation');
     }
 
     return {
       success: true,
-      acknowledgedAt: updatedViolation.acknowledgedAt,
+      acknowledgedAt,
     };
   });
 
   /**
    * DELETE /violations/:id - Dismiss (delete) a violation
    */
-  app.delete('/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/:id', { preHandler: requireViolationsDelete }, async (request, reply) => {
     const params = violationIdParamSchema.safeParse(request.params);
     if (!params.success) {
       return reply.badRequest('Invalid violation ID');
@@ -931,18 +915,15 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
     const { id } = params.data;
     const authUser = request.user;
 
-    // Only owners can delete violations
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can dismiss violations');
-    }
-
     // Check violation exists and get info needed for trust score restoration
     const violationRows = await db
       .select({
         id: violations.id,
         severity: violations.severity,
+        acknowledgedAt: violations.acknowledgedAt,
         serverUserId: violations.serverUserId,
         serverId: serverUsers.serverId,
+        username: serverUsers.username,
       })
       .from(violations)
       .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
@@ -955,7 +936,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
     }
 
     // Check server access
-    if (!hasServerAccess(authUser, violation.serverId)) {
+    if (!hasPermission(authUser, 'violations:delete', violation.serverId)) {
       return reply.forbidden('You do not have access to this violation');
     }
 
@@ -963,20 +944,33 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
     const trustPenalty = getTrustScorePenalty(violation.severity);
 
     // Delete violation and restore trust score atomically
-    await db.transaction(async (tx) => {
+    const change = await db.transaction(async (tx) => {
       // Delete the violation
       await tx.delete(violations).where(eq(violations.id, id));
 
       // Restore trust score (capped at 100)
-      await tx
-        .update(serverUsers)
-        .set({
-          trustScore: sql`LEAST(100, ${serverUsers.trustScore} + ${trustPenalty})`,
-          updatedAt: new Date(),
-        })
-        .where(eq(serverUsers.id, violation.serverUserId));
+      return applyTrustScoreChange(
+        tx,
+        violation.serverUserId,
+        { delta: trustPenalty },
+        {
+          source: 'violation_dismissed',
+          reason: 'Violation dismissed',
+          changedByUserId: authUser.userId,
+        }
+      );
+    });
+
+    await recordAudit(request, {
+      action: 'violation.dismiss',
+      targetType: 'violation',
+      targetId: id,
+      targetLabel: violation.username,
+      before: { severity: violation.severity, acknowledgedAt: violation.acknowledgedAt },
     });
 
+    await notifyTrustScoreChange(change);
+
     return { success: true };
   });
 
@@ -984,14 +978,9 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
    * POST /violations/bulk/acknowledge - Bulk acknowledge violations
    * Accepts either specific IDs or filter params with selectAll flag
    */
-  app.post('/bulk/acknowledge', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.post('/bulk/acknowledge', { preHandler: requireViolationsAck }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can acknowledge violations
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can acknowledge violations');
-    }
-
     const body = request.body as {
       ids?: string[];
       selectAll?: boolean;
@@ -1050,30 +1039,48 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
     }
 
     // Verify access to all violations
-    const accessibleViolations = await db
+    const violationDetails = await db
       .select({
         id: violations.id,
+        acknowledgedAt: violations.acknowledgedAt,
         serverId: serverUsers.serverId,
+        username: serverUsers.username,
       })
       .from(violations)
       .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
       .where(inArray(violations.id, violationIds));
 
     // Filter to only accessible violations
-    const accessibleIds = accessibleViolations
-      .filter((v) => hasServerAccess(authUser, v.serverId))
-      .map((v) => v.id);
+    const accessibleViolations = violationDetails.filter((v) =>
+      hasPermission(authUser, 'violations:ack', v.serverId)
+    );
+    const accessibleIds = accessibleViolations.map((v) => v.id);
 
     if (accessibleIds.length === 0) {
       return { success: true, acknowledged: 0 };
     }
 
     // Bulk update
+    const acknowledgedAt = new Date();
     await db
       .update(violations)
-      .set({ acknowledgedAt: new Date() })
+      .set({ acknowledgedAt })
       .where(inArray(violations.id, accessibleIds));
 
+    await recordAudit(
+      request,
+      accessibleViolations.map(
+        (v): AuditEvent => ({
+          action: 'violation.acknowledge',
+          targetType: 'violation',
+          targetId: v.id,
+          targetLabel: v.username,
+          before: { acknowledgedAt: v.acknowledgedAt },
+          after: { acknowledgedAt },
+        })
+      )
+    );
+
     return { success: true, acknowledged: accessibleIds.length };
   });
 
@@ -1081,14 +1088,9 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
    * DELETE /violations/bulk - Bulk dismiss (delete) violations
    * Accepts either specific IDs or filter params with selectAll flag
    */
-  app.delete('/bulk', { preHandler: [app.authenticate] }, async (request, reply) => {
+  app.delete('/bulk', { preHandler: requireViolationsDelete }, async (request, reply) => {
     const authUser = request.user;
 
-    // Only owners can dismiss violations
-    if (authUser.role !== 'owner') {
-      return reply.forbidden('Only server owners can dismiss violations');
-    }
-
     const body = request.body as {
       ids?: string[];
       selectAll?: boolean;
@@ -1153,8 +1155,10 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
       .select({
         id: violations.id,
         severity: violations.severity,
+        acknowledgedAt: violations.acknowledgedAt,
         serverUserId: violations.serverUserId,
         serverId: serverUsers.serverId,
+        username: serverUsers.username,
       })
       .from(violations)
       .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
@@ -1162,7 +1166,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
 
     // Filter to only accessible violations
     const accessibleViolations = violationDetails.filter((v) =>
-      hasServerAccess(authUser, v.serverId)
+      hasPermission(authUser, 'violations:delete', v.serverId)
     );
 
     if (accessibleViolations.length === 0) {
@@ -1182,22 +1186,46 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
     const accessibleIds = accessibleViolations.map((v) => v.id);
 
     // Delete violations and restore trust scores atomically
-    await db.transaction(async (tx) => {
+    const changes = await db.transaction(async (tx) => {
       // Delete all violations
       await tx.delete(violations).where(inArray(violations.id, accessibleIds));
 
       // Restore trust scores for each affected user
+      const restored: (TrustScoreChange | null)[] = [];
       for (const [serverUserId, totalPenalty] of trustRestoreByUser) {
-        await tx
-          .update(serverUsers)
-          .set({
-            trustScore: sql`LEAST(100, ${serverUsers.trustScore} + ${totalPenalty})`,
-            updatedAt: new Date(),
-          })
-          .where(eq(serverUsers.id, serverUserId));
+        restored.push(
+          await applyTrustScoreChange(
+            tx,
+            serverUserId,
+            { delta: totalPenalty },
+            {
+              source: 'violation_dismissed',
+              reason: 'Violations dismissed',
+              changedByUserId: authUser.userId,
+            }
+          )
+        );
       }
+      return restored;
     });
 
+    await recordAudit(
+      request,
+      accessibleViolations.map(
+        (v): AuditEvent => ({
+          action: 'violation.dismiss',
+          targetType: 'violation',
+          targetId: v.id,
+          targetLabel: v.username,
+          before: { severity: v.severity, acknowledgedAt: v.acknowledgedAt },
+        })
+      )
+    );
+
+    for (const change of changes) {
+      await notifyTrustScoreChange(change);
+    }
+
     return { success: true, dismissed: accessibleIds.length };
   });
 };
@@ -0,0 +1,124 @@
+/**
+ * Webhook Delivery routes - Log of outgoing JSON webhook deliveries
+ *
+ * Web admin endpoints:
+ * - GET /settings/notifications/webhook-deliveries - List deliveries (newest first)
+ * - POST /settings/notifications/webhook-deliveries/:id/redeliver - Send a delivery again
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { desc, eq, sql } from 'drizzle-orm';
+import {
+  webhookDeliveryIdParamSchema,
+  webhookDeliveryQuerySchema,
+  type PaginatedResponse,
+  type WebhookDelivery,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { webhookDeliveries } from '../db/schema.js';
+import {
+  redeliverWebhook,
+  type WebhookDeliveryRow,
+} from '../services/notifications/webhookDelivery.js';
+import { requirePermission } from '../utils/permissions.js';
+
+/**
+ * Transform DB row to API response
+ */
+function toApiResponse(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    event: row.event,
+    url: row.url,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    statusCode: row.statusCode,
+    latencyMs: row.latencyMs,
+    responseSnippet: row.responseSnippet,
+    error: row.error,
+    destinationId: row.destinationId,
+    redeliveryOf: row.redeliveryOf,
+    createdAt: row.createdAt,
+    lastAttemptAt: row.lastAttemptAt,
+    deliveredAt: row.deliveredAt,
+  };
+}
+
+export const webhookDeliveryRoutes: FastifyPluginAsync = async (app) => {
+  const requireNotificationsManage = [app.authenticate, requirePermission('notifications:manage')];
+
+  /**
+   * GET /settings/notifications/webhook-deliveries - List deliveries
+   *
+   * Requires owner authentication. Optional ?status= filter.
+   */
+  app.get(
+    '/webhook-deliveries',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const query = webhookDeliveryQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.badRequest('Invalid query parameters');
+      }
+
+      const { page, pageSize, status } = query.data;
+      const where = status ? eq(webhookDeliveries.status, status) : undefined;
+
+      const rows = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(where)
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize);
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(webhookDeliveries)
+        .where(where);
+
+      const total = countResult[0]?.count ?? 0;
+
+      const response: PaginatedResponse<WebhookDelivery> = {
+        data: rows.map(toApiResponse),
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      };
+      return response;
+    }
+  );
+
+  /**
+   * POST /settings/notifications/webhook-deliveries/:id/redeliver - Send a delivery again
+   *
+   * Logs a new delivery with the original payload and makes a single attempt,
+   * signed with the destination's current webhook secret. Returns the new delivery.
+   */
+  app.post<{ Params: { id: string } }>(
+    '/webhook-deliveries/:id/redeliver',
+    { preHandler: requireNotificationsManage },
+    async (request, reply) => {
+      const params = webhookDeliveryIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid delivery ID');
+      }
+
+      const authUser = request.user;
+
+      const delivery = await redeliverWebhook(params.data.id);
+      if (!delivery) {
+        return reply.notFound('Webhook delivery not found');
+      }
+
+      app.log.info(
+        { userId: authUser.userId, deliveryId: delivery.id, redeliveryOf: params.data.id },
+        'Webhook redelivered'
+      );
+
+      return toApiResponse(delivery);
+    }
+  );
+};
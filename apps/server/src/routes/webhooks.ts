@@ -0,0 +1,147 @@
+/**
+ * Inbound webhook routes - Playback notifications pushed by media servers
+ *
+ * - POST /webhooks/:serverId/:secret - Plex webhook (multipart), Emby webhook (JSON or
+ *   multipart) or Jellyfin Webhook plugin (JSON)
+ *
+ * The per-server secret in the URL authenticates the request (managed via
+ * /servers/:id/webhook); Plex can't send custom headers. It is redacted from
+ * request logs by redactWebhookUrl. Playback events trigger an immediate session
+ * update for the server instead of waiting for the next poll.
+ */
+
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { createHash, timingSafeEqual } from 'crypto';
+import { eq } from 'drizzle-orm';
+import multipart from '@fastify/multipart';
+import { z } from 'zod';
+import { db } from '../db/client.js';
+import { servers } from '../db/schema.js';
+import {
+  mapEmbyWebhook,
+  mapJellyfinWebhook,
+  mapPlexWebhook,
+  processPushedSessions,
+  type WebhookPlaybackNotification,
+} from '../jobs/poller/index.js';
+
+const webhookParamsSchema = z.object({
+  serverId: z.uuid(),
+  secret: z.string().min(1).max(100),
+});
+
+/**
+ * Replace the secret in a webhook receiver URL so it never reaches the logs
+ */
+export function redactWebhookUrl(url: string): string {
+  return url.replace(/(\/webhooks\/[^/?#]+\/)[^/?#]+/, '$1[redacted]');
+}
+
+/**
+ * Constant-time secret comparison (hashing first so lengths always match)
+ */
+function secretsMatch(expected: string, provided: string): boolean {
+  const a = createHash('sha256').update(expected).digest();
+  const b = createHash('sha256').update(provided).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Read the JSON field of a multipart webhook (`payload` for Plex, `data` for Emby),
+ * skipping any attached thumbnail
+ */
+async function readMultipartPayload(request: FastifyRequest): Promise<unknown> {
+  let payload: string | undefined;
+  for await (const part of request.parts()) {
+    if (part.type === 'file') {
+      part.file.resume();
+    } else if (part.fieldname === 'payload' || part.fieldname === 'data') {
+      payload = String(part.value);
+    }
+  }
+  return payload === undefined ? undefined : JSON.parse(payload);
+}
+
+function mapWebhook(serverType: string, payload: unknown): WebhookPlaybackNotification | null {
+  switch (serverType) {
+    case 'plex':
+      return mapPlexWebhook(payload);
+    case 'emby':
+      return mapEmbyWebhook(payload);
+    case 'jellyfin':
+      return mapJellyfinWebhook(payload);
+    default:
+      return null;
+  }
+}
+
+export const webhookRoutes: FastifyPluginAsync = async (app) => {
+  // Plex (and older Emby versions) send webhooks as multipart form data with a thumbnail attached
+  await app.register(multipart, {
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB (thumbnails are discarded)
+      files: 1,
+    },
+  });
+
+  /**
+   * POST /webhooks/:serverId/:secret - Receive a playback notification
+   *
+   * Responds 202 without waiting for the session update. Notifications that are
+   * not playback events (or come from another server on the same Plex account)
+   * are acknowledged and ignored.
+   */
+  app.post('/:serverId/:secret', async (request, reply) => {
+    const params = webhookParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.unauthorized('Invalid webhook URL');
+    }
+
+    const { serverId, secret } = params.data;
+
+    const [server] = await db
+      .select({
+        id: servers.id,
+        name: servers.name,
+        type: servers.type,
+        machineIdentifier: servers.machineIdentifier,
+        webhookSecret: servers.webhookSecret,
+      })
+      .from(servers)
+      .where(eq(servers.id, serverId))
+      .limit(1);
+
+    if (!server?.webhookSecret || !secretsMatch(server.webhookSecret, secret)) {
+      return reply.unauthorized('Invalid webhook URL');
+    }
+
+    let payload: unknown;
+    try {
+      payload = request.isMultipart() ? await readMultipartPayload(request) : request.body;
+    } catch {
+      return reply.badRequest('Invalid webhook payload');
+    }
+
+    const event = mapWebhook(server.type, payload);
+    if (!event) {
+      return reply.code(202).send({ accepted: false });
+    }
+
+    // Plex sends account webhooks for every server the account uses
+    if (
+      server.type === 'plex' &&
+      server.machineIdentifier &&
+      event.serverIdentifier &&
+      event.serverIdentifier !== server.machineIdentifier
+    ) {
+      return reply.code(202).send({ accepted: false });
+    }
+
+    app.log.debug({ serverId: server.id, event: event.event }, 'Inbound webhook received');
+
+    // Fetch and process the server's sessions (serialized per server by the poller)
+    void processPushedSessions(server.id);
+
+    return reply.code(202).send({ accepted: true, event: event.event });
+  });
+};
@@ -0,0 +1,123 @@
+/**
+ * Year in Review routes
+ *
+ * GET   /year-review                      - Users and their review status for a year
+ * POST  /year-review/generate             - Generate reviews for everyone (maintenance job)
+ * PATCH /year-review/users/:id/opt-out    - Set a user's privacy opt-out
+ * GET   /year-review/shared/:token        - Read-only review for a share link (no login)
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import {
+  generateYearReviewsSchema,
+  userIdParamSchema,
+  yearReviewOptOutSchema,
+  yearReviewQuerySchema,
+} from '@tracearr/shared';
+import { enqueueMaintenanceJob } from '../jobs/maintenanceQueue.js';
+import {
+  getSharedYearReview,
+  listYearReviewUsers,
+  setYearReviewOptOut,
+} from '../services/yearReview.js';
+import { requirePermission } from '../utils/permissions.js';
+
+export const yearReviewRoutes: FastifyPluginAsync = async (app) => {
+  const requireMaintenanceRun = [app.authenticate, requirePermission('maintenance:run')];
+  const requireUsersManage = [app.authenticate, requirePermission('users:manage')];
+
+  /**
+   * GET /year-review - Server users with their review for the selected year
+   */
+  app.get('/', { preHandler: requireMaintenanceRun }, async (request, reply) => {
+    const query = yearReviewQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.badRequest('Invalid query parameters');
+    }
+
+    const authUser = request.user;
+    const { data, error } = await listYearReviewUsers(
+      authUser,
+      query.data.year,
+      query.data.serverId
+    );
+    if (error) {
+      return reply.forbidden(error);
+    }
+
+    return { data };
+  });
+
+  /**
+   * POST /year-review/generate - Queue generation for every user with plays that year
+   */
+  app.post('/generate', { preHandler: requireMaintenanceRun }, async (request, reply) => {
+    const body = generateYearReviewsSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('Invalid request body');
+    }
+
+    const authUser = request.user;
+
+    try {
+      const jobId = await enqueueMaintenanceJob('generate_year_reviews', authUser.userId, {
+        year: body.data.year,
+        timezone: body.data.timezone,
+      });
+      return {
+        status: 'queued',
+        jobId,
+        message: 'Year in Review generation queued. Watch for progress updates via WebSocket.',
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already in progress')) {
+        return reply.conflict(error.message);
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * PATCH /year-review/users/:id/opt-out - Exclude a user from Year in Review
+   *
+   * Opting out deletes the user's stored reviews, so existing share links stop working.
+   */
+  app.patch<{ Params: { id: string } }>(
+    '/users/:id/opt-out',
+    { preHandler: requireUsersManage },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const body = yearReviewOptOutSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      const found = await setYearReviewOptOut(params.data.id, body.data.optOut);
+      if (!found) {
+        return reply.notFound('User not found');
+      }
+
+      return { success: true, optOut: body.data.optOut };
+    }
+  );
+
+  /**
+   * GET /year-review/shared/:token - Public read-only review
+   *
+   * The signed token is the only credential. Invalid tokens, missing reviews and
+   * opted-out users all return the same 404.
+   */
+  app.get<{ Params: { token: string } }>('/shared/:token', async (request, reply) => {
+    const review = await getSharedYearReview(request.params.token);
+    if (!review) {
+      return reply.notFound('Year in Review not found');
+    }
+
+    reply.header('Cache-Control', 'no-store');
+    return review;
+  });
+};
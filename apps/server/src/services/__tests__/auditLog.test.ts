@@ -0,0 +1,140 @@
+/**
+ * Audit Log Service Tests
+ *
+ * Tests audit recording:
+ * - Before/after snapshots reduced to changed fields
+ * - Actor and request IP captured on each entry (and the API key, if used)
+ * - Failures never propagate to the audited action
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { FastifyRequest } from 'fastify';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    insert: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import { diffAuditState, recordAudit } from '../auditLog.js';
+
+function createRequest() {
+  return {
+    user: { userId: 'user-1', username: 'owner', role: 'owner', serverIds: [] },
+    ip: '203.0.113.7',
+    log: { error: vi.fn() },
+  } as unknown as FastifyRequest & { log: { error: ReturnType<typeof vi.fn> } };
+}
+
+describe('diffAuditState', () => {
+  it('keeps only the fields that changed', () => {
+    expect(
+      diffAuditState(
+        { name: 'Old', isActive: true, params: { maxStreams: 2 } },
+        { name: 'New', isActive: true, params: { maxStreams: 2 } }
+      )
+    ).toEqual({ before: { name: 'Old' }, after: { name: 'New' } });
+  });
+
+  it('compares nested values by content', () => {
+    expect(diffAuditState({ grants: [{ serverId: 'a', role: 'admin' }] }, { grants: [] })).toEqual({
+      before: { grants: [{ serverId: 'a', role: 'admin' }] },
+      after: { grants: [] },
+    });
+  });
+
+  it('keeps full snapshots for creations and deletions', () => {
+    expect(diffAuditState(undefined, { name: 'Rule' })).toEqual({
+      before: null,
+      after: { name: 'Rule' },
+    });
+    expect(diffAuditState({ name: 'Rule' }, null)).toEqual({
+      before: { name: 'Rule' },
+      after: null,
+    });
+  });
+});
+
+describe('recordAudit', () => {
+  let values: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    values = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(db.insert).mockReturnValue({ values } as never);
+  });
+
+  it('records the actor, target and request IP', async () => {
+    await recordAudit(createRequest(), {
+      action: 'user.trust_update',
+      targetType: 'server_user',
+      targetId: 'su-1',
+      targetLabel: 'alice',
+      before: { trustScore: 40 },
+      after: { trustScore: 90 },
+    });
+
+    expect(values).toHaveBeenCalledWith([
+      {
+        actorUserId: 'user-1',
+        actorUsername: 'owner',
+        apiKeyName: null,
+        action: 'user.trust_update',
+        targetType: 'server_user',
+        targetId: 'su-1',
+        targetLabel: 'alice',
+        before: { trustScore: 40 },
+        after: { trustScore: 90 },
+        ipAddress: '203.0.113.7',
+      },
+    ]);
+  });
+
+  it('attributes public API calls to the key owner and key', async () => {
+    const request = {
+      publicApiContext: {
+        userId: 'user-1',
+        username: 'owner',
+        keyId: 'key-1',
+        keyName: 'Home Assistant',
+        scopes: ['streams:terminate'],
+        serverId: null,
+      },
+      ip: '203.0.113.8',
+      log: { error: vi.fn() },
+    } as unknown as FastifyRequest;
+
+    await recordAudit(request, { action: 'session.terminate', targetType: 'session' });
+
+    expect(values.mock.calls[0]?.[0]).toEqual([
+      expect.objectContaining({
+        actorUserId: 'user-1',
+        actorUsername: 'owner',
+        apiKeyName: 'Home Assistant',
+        ipAddress: '203.0.113.8',
+      }),
+    ]);
+  });
+
+  it('inserts batches in one statement and skips empty batches', async () => {
+    await recordAudit(createRequest(), [
+      { action: 'rule.delete', targetType: 'rule', targetId: 'r-1' },
+      { action: 'rule.delete', targetType: 'rule', targetId: 'r-2' },
+    ]);
+    await recordAudit(createRequest(), []);
+
+    expect(db.insert).toHaveBeenCalledTimes(1);
+    expect(values.mock.calls[0]?.[0]).toHaveLength(2);
+  });
+
+  it('logs and swallows insert failures', async () => {
+    values.mockRejectedValue(new Error('connection lost'));
+    const request = createRequest();
+
+    await expect(
+      recordAudit(request, { action: 'debug.reset', targetType: 'system' })
+    ).resolves.toBeUndefined();
+    expect(request.log.error).toHaveBeenCalled();
+  });
+});
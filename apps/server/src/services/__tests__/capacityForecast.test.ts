@@ -0,0 +1,251 @@
+/**
+ * Capacity Forecast Tests
+ *
+ * Tests the bandwidth/transcode forecast:
+ * - Percentiles, peak hour and daily peaks from hourly samples
+ * - Linear projection and the minimum history requirement
+ * - What-if user scaling and assembly from query results
+ *
+ * Uses a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    execute: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import {
+  buildCapacityForecast,
+  buildServerForecast,
+  getDailyPeaks,
+  getPeakHour,
+  percentile,
+  projectCapacity,
+  type HourlyLoadSample,
+} from '../capacityForecast.js';
+
+const SERVER_ID = '6f1c2b3a-4d5e-4f60-8a71-9b0c1d2e3f40';
+
+function rows(...items: Record<string, unknown>[]) {
+  return { rows: items } as never;
+}
+
+function sample(date: string, hour: number, bandwidthKbps: number, transcodes = 0) {
+  return { date, hour, bandwidthKbps, transcodes };
+}
+
+/**
+ * Daily peaks growing by 1 Mbps and 0.1 transcodes per day
+ */
+function growingHistory(days: number) {
+  return Array.from({ length: days }, (_, i) => ({
+    date: `2024-03-${String(i + 1).padStart(2, '0')}`,
+    peakBandwidthMbps: 10 + i,
+    peakTranscodes: 1 + i * 0.1,
+  }));
+}
+
+describe('capacityForecast', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('percentile', () => {
+    it('interpolates between ranks', () => {
+      const values = Array.from({ length: 21 }, (_, i) => i * 10);
+
+      expect(percentile(values, 0.95)).toBe(190);
+      expect(percentile([0, 10], 0.95)).toBeCloseTo(9.5);
+    });
+
+    it('returns 0 without values', () => {
+      expect(percentile([], 0.95)).toBe(0);
+    });
+  });
+
+  describe('getPeakHour', () => {
+    it('picks the hour with the highest average bandwidth', () => {
+      const samples: HourlyLoadSample[] = [
+        sample('2024-03-01', 20, 8000),
+        sample('2024-03-01', 21, 12000),
+        sample('2024-03-02', 20, 9000),
+        sample('2024-03-02', 21, 4000),
+        sample('2024-03-02', 3, 0),
+      ];
+
+      expect(getPeakHour(samples)).toBe(20);
+    });
+
+    it('falls back to transcodes without remote bandwidth', () => {
+      expect(getPeakHour([sample('2024-03-01', 19, 0, 2), sample('2024-03-01', 22, 0, 1)])).toBe(
+        19
+      );
+    });
+
+    it('returns null without any load', () => {
+      expect(getPeakHour([sample('2024-03-01', 12, 0)])).toBeNull();
+      expect(getPeakHour([])).toBeNull();
+    });
+  });
+
+  describe('getDailyPeaks', () => {
+    it('keeps the highest hour of each day and applies the scale', () => {
+      const peaks = getDailyPeaks(
+        [
+          sample('2024-03-02', 21, 20000, 1),
+          sample('2024-03-01', 20, 8000, 2),
+          sample('2024-03-01', 21, 12000, 1),
+        ],
+        1.5
+      );
+
+      expect(peaks).toEqual([
+        { date: '2024-03-01', peakBandwidthMbps: 18, peakTranscodes: 3 },
+        { date: '2024-03-02', peakBandwidthMbps: 30, peakTranscodes: 1.5 },
+      ]);
+    });
+  });
+
+  describe('projectCapacity', () => {
+    it('projects the trend over the horizon', () => {
+      const result = projectCapacity(growingHistory(10), 15, 30);
+
+      expect(result.forecast).toHaveLength(30);
+      expect(result.forecast[0]).toEqual({
+        date: '2024-03-11',
+        peakBandwidthMbps: 20,
+        peakTranscodes: 2,
+      });
+      expect(result.projected).toEqual({
+        // Trend grows from 19 to 49 Mbps over the horizon
+        p95BandwidthMbps: 38.68,
+        peakBandwidthMbps: 49,
+        peakTranscodes: 4.9,
+      });
+      expect(result.confidence).toBe('high');
+    });
+
+    it('crosses month boundaries', () => {
+      const result = projectCapacity(growingHistory(30), 15, 2);
+
+      expect(result.forecast.map((day) => day.date)).toEqual(['2024-03-31', '2024-04-01']);
+    });
+
+    it('never projects negative load', () => {
+      const history = growingHistory(10).map((day, i) => ({
+        ...day,
+        peakBandwidthMbps: 10 - i,
+      }));
+
+      const result = projectCapacity(history, 5, 30);
+
+      expect(result.projected?.peakBandwidthMbps).toBe(0);
+    });
+
+    it('needs a week of history', () => {
+      expect(projectCapacity(growingHistory(6), 15)).toEqual({
+        forecast: [],
+        projected: null,
+        confidence: null,
+      });
+    });
+  });
+
+  describe('buildServerForecast', () => {
+    it('scales load for added users', () => {
+      const samples = [sample('2024-03-01', 21, 10000, 2), sample('2024-03-01', 22, 5000, 1)];
+
+      const result = buildServerForecast(
+        { serverId: SERVER_ID, serverName: 'Home', activeUsers: 4 },
+        samples,
+        2
+      );
+
+      expect(result.peakBandwidthMbps).toBe(15);
+      expect(result.peakTranscodes).toBe(3);
+      expect(result.p95BandwidthMbps).toBe(14.63);
+      expect(result.peakHour).toBe(21);
+      expect(result.forecast).toEqual([]);
+    });
+
+    it('reports zeros for a server without samples', () => {
+      const result = buildServerForecast(
+        { serverId: SERVER_ID, serverName: 'Home', activeUsers: 0 },
+        [],
+        5
+      );
+
+      expect(result).toMatchObject({
+        p95BandwidthMbps: 0,
+        peakBandwidthMbps: 0,
+        peakTranscodes: 0,
+        peakHour: null,
+        history: [],
+      });
+    });
+  });
+
+  describe('buildCapacityForecast', () => {
+    it('groups hourly samples by server', async () => {
+      vi.mocked(db.execute)
+        .mockResolvedValueOnce(
+          rows({ server_id: SERVER_ID, server_name: 'Home Plex', active_users: 3 })
+        )
+        .mockResolvedValueOnce(
+          rows(
+            {
+              server_id: SERVER_ID,
+              date: '2024-03-01',
+              hour: 20,
+              bandwidth_kbps: '8000',
+              transcodes: 1,
+            },
+            {
+              server_id: SERVER_ID,
+              date: '2024-03-01',
+              hour: 21,
+              bandwidth_kbps: '16000',
+              transcodes: 2,
+            },
+            {
+              server_id: 'other',
+              date: '2024-03-01',
+              hour: 21,
+              bandwidth_kbps: '99000',
+              transcodes: 9,
+            }
+          )
+        );
+
+      const result = await buildCapacityForecast({
+        authUser: { role: 'owner', serverIds: [] },
+        timezone: 'UTC',
+        lookbackDays: 90,
+        addUsers: 0,
+        capRemote1080p: true,
+      });
+
+      expect(db.execute).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({
+        lookbackDays: 90,
+        horizonDays: 30,
+        minDataDays: 7,
+        scenario: { addUsers: 0, capRemote1080p: true },
+      });
+      expect(result.servers).toHaveLength(1);
+      expect(result.servers[0]).toMatchObject({
+        serverId: SERVER_ID,
+        serverName: 'Home Plex',
+        activeUsers: 3,
+        peakBandwidthMbps: 16,
+        peakTranscodes: 2,
+        peakHour: 21,
+        history: [{ date: '2024-03-01', peakBandwidthMbps: 16, peakTranscodes: 2 }],
+      });
+    });
+  });
+});
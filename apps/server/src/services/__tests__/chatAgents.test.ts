@@ -0,0 +1,259 @@
+/**
+ * Chat notification agent tests (Telegram, Matrix)
+ *
+ * Runs the agents against a local stub HTTP server (real fetch, no mocks) to verify:
+ * - Request method, path and auth for each API
+ * - Telegram MarkdownV2 formatting and escaping
+ * - Matrix HTML-formatted m.room.message content
+ * - Error reporting for API failures
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ViolationWithDetails } from '@tracearr/shared';
+import { TelegramAgent } from '../notifications/agents/telegram.js';
+import { MatrixAgent } from '../notifications/agents/matrix.js';
+import { PayloadBuilders, type NotificationSettings } from '../notifications/types.js';
+import { createMockActiveSession } from '../../test/fixtures.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let nextResponse: { status: number; body: unknown };
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => {
+      raw += chunk.toString();
+    });
+    req.on('end', () => {
+      requests.push({
+        method: req.method ?? '',
+        url: req.url ?? '',
+        headers: req.headers,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+      });
+      res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(nextResponse.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  nextResponse = { status: 200, body: { ok: true } };
+});
+
+const createSettings = (overrides: Partial<NotificationSettings> = {}): NotificationSettings => ({
+  discordWebhookUrl: null,
+  customWebhookUrl: null,
+  webhookFormat: null,
+  webhookSecret: null,
+  ntfyTopic: null,
+  ntfyAuthToken: null,
+  pushoverUserKey: null,
+  pushoverApiToken: null,
+  smtpHost: null,
+  smtpPort: null,
+  smtpSecurity: null,
+  smtpUsername: null,
+  smtpPassword: null,
+  smtpFrom: null,
+  smtpTo: null,
+  telegramBotToken: null,
+  telegramChatId: null,
+  matrixHomeserverUrl: null,
+  matrixAccessToken: null,
+  matrixRoomId: null,
+  ...overrides,
+});
+
+const createViolation = (): ViolationWithDetails => ({
+  id: 'violation-123',
+  ruleId: 'rule-456',
+  serverUserId: 'user-789',
+  sessionId: 'session-123',
+  severity: 'high',
+  data: {
+    evidence: [
+      {
+        conditions: [
+          {
+            field: 'concurrent_streams',
+            operator: 'gt',
+            threshold: 2,
+            actual: 3,
+            matched: true,
+          },
+        ],
+      },
+    ],
+  },
+  acknowledgedAt: null,
+  createdAt: new Date(),
+  user: {
+    id: 'user-789',
+    username: 'test_user',
+    serverId: 'server-id',
+    thumbUrl: null,
+    identityName: null,
+  },
+  rule: {
+    id: 'rule-456',
+    name: 'Max Streams (2)',
+    type: null,
+  },
+});
+
+describe('TelegramAgent', () => {
+  const settings = () =>
+    createSettings({ telegramBotToken: '123:ABC', telegramChatId: '-100200300' });
+
+  it('only sends when bot token and chat ID are set', () => {
+    const agent = new TelegramAgent(baseUrl);
+    expect(agent.shouldSend('server_down', settings())).toBe(true);
+    expect(agent.shouldSend('server_down', createSettings({ telegramBotToken: '123:ABC' }))).toBe(
+      false
+    );
+  });
+
+  it('posts MarkdownV2 messages to the bot API', async () => {
+    const agent = new TelegramAgent(baseUrl);
+
+    const result = await agent.send(PayloadBuilders.fromViolation(createViolation()), settings());
+
+    expect(result).toEqual({ success: true, agent: 'telegram' });
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request!.method).toBe('POST');
+    expect(request!.url).toBe('/bot123:ABC/sendMessage');
+    expect(request!.body.chat_id).toBe('-100200300');
+    expect(request!.body.parse_mode).toBe('MarkdownV2');
+
+    const text = request!.body.text as string;
+    expect(text.startsWith('*Violation Detected*\n')).toBe(true);
+    // Reserved characters in user-provided values are escaped
+    expect(text).toContain('test\\_user triggered Max Streams \\(2\\)');
+    expect(text).toContain('*Severity:* High');
+  });
+
+  it('formats session events', async () => {
+    const agent = new TelegramAgent(baseUrl);
+    const session = createMockActiveSession({ mediaTitle: 'Inception', year: 2010 });
+
+    await agent.send(PayloadBuilders.fromSessionStarted(session), settings());
+
+    const text = requests[0]!.body.text as string;
+    expect(text).toContain('*Stream Started*');
+    expect(text).toContain('started watching Inception \\- 2010');
+  });
+
+  it('reports bot API errors without leaking the token', async () => {
+    nextResponse = { status: 400, body: { ok: false, description: 'Bad Request: chat not found' } };
+    const agent = new TelegramAgent(baseUrl);
+
+    const result = await agent.sendTest(settings());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Telegram API failed: 400 Bad Request: chat not found');
+    expect(result.error).not.toContain('123:ABC');
+  });
+
+  it('fails the test when not configured', async () => {
+    const result = await new TelegramAgent(baseUrl).sendTest(createSettings());
+
+    expect(result.success).toBe(false);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('MatrixAgent', () => {
+  const settings = () =>
+    createSettings({
+      matrixHomeserverUrl: `${baseUrl}/`,
+      matrixAccessToken: 'syt_secret',
+      matrixRoomId: '!room:example.org',
+    });
+
+  beforeEach(() => {
+    nextResponse = { status: 200, body: { event_id: '$event' } };
+  });
+
+  it('sends HTML-formatted m.room.message events', async () => {
+    const agent = new MatrixAgent();
+
+    const result = await agent.send(
+      PayloadBuilders.fromNewDevice('<b>alice</b>', 'Living Room TV', 'Roku', 'Berlin, DE'),
+      settings()
+    );
+
+    expect(result).toEqual({ success: true, agent: 'matrix' });
+    const [request] = requests;
+    expect(request!.method).toBe('PUT');
+    expect(request!.url).toMatch(
+      /^\/_matrix\/client\/v3\/rooms\/!room%3Aexample\.org\/send\/m\.room\.message\/[0-9a-f-]{36}$/
+    );
+    expect(request!.headers.authorization).toBe('Bearer syt_secret');
+    expect(request!.body.msgtype).toBe('m.text');
+    expect(request!.body.format).toBe('org.matrix.custom.html');
+    expect(request!.body.body).toContain('<b>alice</b> connected from a new device');
+    expect(request!.body.formatted_body).toContain('<h4>New Device Detected</h4>');
+    expect(request!.body.formatted_body).toContain('&lt;b&gt;alice&lt;/b&gt;');
+    expect(request!.body.formatted_body).toContain(
+      '<li><strong>Device:</strong> Living Room TV</li>'
+    );
+  });
+
+  it('uses a fresh transaction ID per message', async () => {
+    const agent = new MatrixAgent();
+
+    await agent.send(PayloadBuilders.fromServerDown('Plex'), settings());
+    await agent.send(PayloadBuilders.fromServerUp('Plex'), settings());
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0]!.url).not.toBe(requests[1]!.url);
+  });
+
+  it('formats trust score changes', async () => {
+    const agent = new MatrixAgent();
+
+    await agent.send(PayloadBuilders.fromTrustScoreChanged('bob', 80, 60, 'Violation'), settings());
+
+    expect(requests[0]!.body.body).toContain("bob's trust score decreased");
+    expect(requests[0]!.body.formatted_body).toContain(
+      '<li><strong>Reason:</strong> Violation</li>'
+    );
+  });
+
+  it('reports homeserver errors', async () => {
+    nextResponse = { status: 403, body: { errcode: 'M_FORBIDDEN', error: 'Not in room' } };
+
+    const result = await new MatrixAgent().sendTest(settings());
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Matrix API failed: 403 M_FORBIDDEN: Not in room',
+    });
+  });
+
+  it('does not send without a room ID', () => {
+    expect(new MatrixAgent().shouldSend('server_down', { ...settings(), matrixRoomId: null })).toBe(
+      false
+    );
+  });
+});
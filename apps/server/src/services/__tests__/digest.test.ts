@@ -0,0 +1,363 @@
+/**
+ * Usage Digest Tests
+ *
+ * Tests the weekly/monthly digest:
+ * - Calendar-aligned period ranges
+ * - Report assembly from query results
+ * - Plain-text and HTML formatting
+ * - Sending to a single destination
+ *
+ * Uses a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockDigestReport } from '../../test/fixtures.js';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    execute: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import {
+  getDigestRange,
+  getPreviousDigestRange,
+  getChangePercent,
+  buildDigestReport,
+  sendDigest,
+} from '../digest.js';
+import {
+  formatDigestRange,
+  formatDigestTitle,
+  formatDigestSummary,
+  getDigestFields,
+  formatDigestText,
+  renderDigestHtml,
+} from '../notifications/formatters/digest.js';
+import { notificationManager } from '../notifications/index.js';
+
+// Monday 11 March 2024, 08:00 local time
+const NOW = new Date(2024, 2, 11, 8);
+
+function rows(...items: Record<string, unknown>[]) {
+  return { rows: items } as never;
+}
+
+/**
+ * Queue query results in the order buildDigestReport issues them
+ */
+function mockDigestQueries(overrides: { library?: Record<string, unknown>[] | Error } = {}) {
+  vi.mocked(db.execute)
+    .mockResolvedValueOnce(rows({ name: 'Home Plex' }, { name: 'Remote Jellyfin' }))
+    .mockResolvedValueOnce(
+      rows({
+        plays: 30,
+        watch_time_ms: String(45 * 60 * 60 * 1000),
+        active_users: 4,
+        direct_play: 21,
+        transcode: 9,
+        total_bytes: '12345678901',
+        avg_bitrate: '8250',
+        peak_bitrate: 25100,
+      })
+    )
+    .mockResolvedValueOnce(rows({ plays: 24 }))
+    .mockResolvedValueOnce(
+      rows(
+        {
+          username: 'alice',
+          identity_name: 'Alice',
+          play_count: 12,
+          watch_time_ms: String(20 * 60 * 60 * 1000),
+        },
+        { username: 'bob', identity_name: null, play_count: 5, watch_time_ms: '5400000' }
+      )
+    )
+    .mockResolvedValueOnce(
+      rows({ title: 'Heat', year: 1995, play_count: 3, watch_time_ms: String(3 * 60 * 60 * 1000) })
+    )
+    .mockResolvedValueOnce(rows())
+    .mockResolvedValueOnce(rows({ severity: 'high', count: 2 }, { severity: 'low', count: 1 }))
+    .mockResolvedValueOnce(rows({ name: 'Max 2 Streams', count: 3 }))
+    .mockResolvedValueOnce(
+      rows(
+        {
+          username: 'bob',
+          device_name: 'Apple TV',
+          platform: 'tvOS',
+          location: null,
+          first_seen_at: new Date(2024, 2, 8),
+        },
+        {
+          username: 'alice',
+          device_name: 'iPhone',
+          platform: 'iOS',
+          location: 'Berlin, Germany',
+          first_seen_at: new Date(2024, 2, 5),
+        }
+      )
+    );
+
+  if (overrides.library instanceof Error) {
+    vi.mocked(db.execute).mockRejectedValueOnce(overrides.library);
+  } else {
+    vi.mocked(db.execute).mockResolvedValueOnce(
+      rows(
+        ...(overrides.library ?? [
+          { day: '2024-03-03', movies: 100, episodes: 500, music: 0 },
+          { day: '2024-03-10', movies: 104, episodes: 520, music: 0 },
+        ])
+      )
+    );
+  }
+}
+
+describe('digest', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('getDigestRange', () => {
+    it('covers the previous Monday to Monday week', () => {
+      const range = getDigestRange('weekly', new Date(2024, 2, 13, 15));
+
+      expect(range.start).toEqual(new Date(2024, 2, 4));
+      expect(range.end).toEqual(new Date(2024, 2, 11));
+    });
+
+    it('treats Sunday as the end of the current week', () => {
+      const range = getDigestRange('weekly', new Date(2024, 2, 17, 23));
+
+      expect(range.start).toEqual(new Date(2024, 2, 4));
+      expect(range.end).toEqual(new Date(2024, 2, 11));
+    });
+
+    it('covers the week that just ended when run on Monday', () => {
+      const range = getDigestRange('weekly', NOW);
+
+      expect(range.start).toEqual(new Date(2024, 2, 4));
+      expect(range.end).toEqual(new Date(2024, 2, 11));
+    });
+
+    it('covers the previous calendar month', () => {
+      const range = getDigestRange('monthly', new Date(2024, 2, 1, 8));
+
+      expect(range.start).toEqual(new Date(2024, 1, 1));
+      expect(range.end).toEqual(new Date(2024, 2, 1));
+    });
+
+    it('wraps monthly ranges across the year boundary', () => {
+      const range = getDigestRange('monthly', new Date(2024, 0, 15));
+
+      expect(range.start).toEqual(new Date(2023, 11, 1));
+      expect(range.end).toEqual(new Date(2024, 0, 1));
+    });
+
+    it('returns the period before a range', () => {
+      const previous = getPreviousDigestRange('weekly', getDigestRange('weekly', NOW));
+
+      expect(previous.start).toEqual(new Date(2024, 1, 26));
+      expect(previous.end).toEqual(new Date(2024, 2, 4));
+    });
+  });
+
+  describe('getChangePercent', () => {
+    it('rounds the percentage change', () => {
+      expect(getChangePercent(30, 24)).toBe(25);
+      expect(getChangePercent(10, 30)).toBe(-67);
+    });
+
+    it('returns null without a previous value', () => {
+      expect(getChangePercent(10, 0)).toBeNull();
+    });
+  });
+
+  describe('buildDigestReport', () => {
+    it('maps query results into the report', async () => {
+      mockDigestQueries();
+
+      const report = await buildDigestReport('weekly', [], NOW);
+
+      expect(db.execute).toHaveBeenCalledTimes(10);
+      expect(report).toMatchObject({
+        period: 'weekly',
+        start: new Date(2024, 2, 4).toISOString(),
+        end: new Date(2024, 2, 11).toISOString(),
+        serverNames: ['Home Plex', 'Remote Jellyfin'],
+        totals: { plays: 30, watchTimeHours: 45, activeUsers: 4, playsChangePercent: 25 },
+        transcode: { directPlay: 21, transcode: 9, transcodePercent: 30 },
+        bandwidth: { totalGb: 12.35, avgBitrateMbps: 8.3, peakBitrateMbps: 25.1 },
+        violations: {
+          total: 3,
+          bySeverity: { low: 1, warning: 0, high: 2 },
+          topRules: [{ name: 'Max 2 Streams', count: 3 }],
+        },
+        topUsers: [
+          { username: 'alice', identityName: 'Alice', playCount: 12, watchTimeHours: 20 },
+          { username: 'bob', identityName: null, playCount: 5, watchTimeHours: 1.5 },
+        ],
+        topMovies: [{ title: 'Heat', year: 1995, playCount: 3, watchTimeHours: 3 }],
+        topShows: [],
+        newDeviceCount: 2,
+        libraryGrowth: { movies: 4, episodes: 20, music: 0 },
+        generatedAt: NOW.toISOString(),
+      });
+    });
+
+    it('orders new devices by first seen time', async () => {
+      mockDigestQueries();
+
+      const report = await buildDigestReport('weekly', [], NOW);
+
+      expect(report.newDevices.map((d) => d.deviceName)).toEqual(['iPhone', 'Apple TV']);
+    });
+
+    it('returns null library growth without snapshots', async () => {
+      mockDigestQueries({ library: [] });
+
+      const report = await buildDigestReport('weekly', [], NOW);
+
+      expect(report.libraryGrowth).toBeNull();
+    });
+
+    it('returns null library growth when the aggregate is unavailable', async () => {
+      mockDigestQueries({ library: new Error('relation "library_stats_daily" does not exist') });
+
+      const report = await buildDigestReport('weekly', [], NOW);
+
+      expect(report.libraryGrowth).toBeNull();
+    });
+
+    it('handles a period without activity', async () => {
+      vi.mocked(db.execute).mockResolvedValue(rows());
+
+      const report = await buildDigestReport('monthly', [], NOW);
+
+      expect(report.totals).toEqual({
+        plays: 0,
+        watchTimeHours: 0,
+        activeUsers: 0,
+        playsChangePercent: null,
+      });
+      expect(report.transcode.transcodePercent).toBe(0);
+      expect(report.violations.total).toBe(0);
+      expect(report.newDevices).toEqual([]);
+    });
+  });
+
+  describe('sendDigest', () => {
+    it('sends the report for the destination servers', async () => {
+      mockDigestQueries();
+      const send = vi
+        .spyOn(notificationManager, 'sendToDestinations')
+        .mockResolvedValue([{ success: true, agent: 'discord' }]);
+      const destination = {
+        id: 'dest-1',
+        type: 'discord' as const,
+        config: { discordWebhookUrl: 'https://discord.com/api/webhooks/1/a' },
+        serverIds: ['server-1'],
+      };
+
+      const results = await sendDigest(destination, 'weekly', NOW);
+
+      expect(results).toEqual([{ success: true, agent: 'discord' }]);
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'digest',
+          title: 'Weekly Digest: Mar 4 - Mar 10, 2024',
+          context: expect.objectContaining({ type: 'digest' }),
+        }),
+        [destination]
+      );
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats weekly and monthly ranges', () => {
+      const weekly = createMockDigestReport();
+      const monthly = createMockDigestReport({
+        period: 'monthly',
+        start: new Date(2024, 1, 1).toISOString(),
+        end: new Date(2024, 2, 1).toISOString(),
+      });
+
+      expect(formatDigestRange(weekly)).toBe('Mar 4 - Mar 10, 2024');
+      expect(formatDigestTitle(monthly)).toBe('Monthly Digest: February 2024');
+    });
+
+    it('includes the trend in the summary', () => {
+      expect(formatDigestSummary(createMockDigestReport())).toBe(
+        '42 plays and 31.5 hours watched by 8 users (+12% vs last week)'
+      );
+      expect(
+        formatDigestSummary(
+          createMockDigestReport({
+            period: 'monthly',
+            totals: { plays: 1, watchTimeHours: 2, activeUsers: 1, playsChangePercent: null },
+          })
+        )
+      ).toBe('1 play and 2 hours watched by 1 user');
+    });
+
+    it('lists key figures', () => {
+      const fields = getDigestFields(createMockDigestReport());
+
+      expect(fields).toEqual([
+        { label: 'Transcodes', value: '25% (10 of 40)' },
+        { label: 'Bandwidth', value: '12.34 GB (avg 8.2 Mbps, peak 25.1 Mbps)' },
+        { label: 'Violations', value: '5 (1 high, 2 warning, 2 low)' },
+        { label: 'New devices', value: '1' },
+        { label: 'Library', value: '+3 movies, +20 episodes, 0 tracks' },
+        { label: 'Top user', value: 'Alice (12.5 h)' },
+        { label: 'Top movie', value: 'Heat (1995), 4 plays' },
+        { label: 'Top show', value: 'The Office (2005), 12 plays' },
+      ]);
+    });
+
+    it('omits empty sections', () => {
+      const digest = createMockDigestReport({
+        violations: { total: 0, bySeverity: { low: 0, warning: 0, high: 0 }, topRules: [] },
+        topMovies: [],
+        libraryGrowth: null,
+      });
+      const labels = getDigestFields(digest).map((f) => f.label);
+      const text = formatDigestText(digest);
+
+      expect(labels).not.toContain('Library');
+      expect(labels).not.toContain('Top movie');
+      expect(text).toContain('Violations: None');
+      expect(text).not.toContain('Top movies');
+    });
+
+    it('numbers the top lists in plain text', () => {
+      const text = formatDigestText(createMockDigestReport());
+
+      expect(text).toContain('Top users\n1. Alice - 12.5 h, 10 plays');
+      expect(text).toContain('New devices\n1. bob: iPhone (iOS, Berlin, Germany)');
+    });
+
+    it('leaves out the top lists when requested', () => {
+      const text = formatDigestText(createMockDigestReport(), false);
+
+      expect(text).toContain('Top user: Alice (12.5 h)');
+      expect(text).not.toContain('Top users\n');
+    });
+
+    it('renders escaped HTML', () => {
+      const html = renderDigestHtml(
+        createMockDigestReport({
+          topMovies: [
+            { title: '<script>alert(1)</script>', year: null, playCount: 1, watchTimeHours: 2 },
+          ],
+        })
+      );
+
+      expect(html).toContain('<title>Weekly Digest: Mar 4 - Mar 10, 2024</title>');
+      expect(html).toContain('Servers: Home Plex');
+      expect(html).toContain('Most frequent violations');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).not.toContain('<script>');
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * History File Import Service Tests
+ *
+ * Covers the pure parsing, mapping and transformation helpers:
+ * - CSV and JSON (array, wrapped, NDJSON, nested) parsing
+ * - Mapping suggestions and mapping validation
+ * - Date and duration parsing
+ * - Row mapping, validation errors and stable rating keys
+ * - Row to session transformation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseHistoryFile,
+  suggestFileImportMapping,
+  validateFileImportMapping,
+  parseFileImportDate,
+  parseFileImportDuration,
+  parseFileImportMediaType,
+  mapFileImportRecord,
+  previewHistoryFile,
+  validateFileImportRows,
+  fileImportExternalId,
+  transformFileImportRow,
+} from '../fileImport.js';
+
+const SERVER_ID = '11111111-1111-1111-1111-111111111111';
+const SERVER_USER_ID = '22222222-2222-2222-2222-222222222222';
+
+const MAPPING = {
+  user: 'User',
+  title: 'Title',
+  startedAt: 'Started',
+  duration: 'Seconds',
+  showTitle: 'Show',
+  seasonNumber: 'Season',
+  episodeNumber: 'Episode',
+  ipAddress: 'IP',
+  player: 'Player',
+};
+
+const RECORD = {
+  User: 'Alice',
+  Title: 'Office Olympics',
+  Started: '2024-03-10 20:15:00',
+  Seconds: '1260',
+  Show: 'The Office',
+  Season: '2',
+  Episode: '3',
+  IP: '192.168.1.20',
+  Player: 'Firefox',
+};
+
+describe('parseHistoryFile', () => {
+  it('parses CSV with a header row and skips blank lines', () => {
+    const result = parseHistoryFile('\uFEFFuser,title,date\nalice,Heat,2024-03-10\n\n,,\n');
+    expect(result).toEqual({
+      format: 'csv',
+      columns: ['user', 'title', 'date'],
+      rows: [{ user: 'alice', title: 'Heat', date: '2024-03-10' }],
+    });
+  });
+
+  it('names blank and repeated headers', () => {
+    const { columns } = parseHistoryFile('title,,title\na,b,c\n');
+    expect(columns).toEqual(['title', 'Column 2', 'title (2)']);
+  });
+
+  it('parses JSON arrays and flattens nested objects', () => {
+    const result = parseHistoryFile(
+      JSON.stringify([
+        { user: { name: 'alice' }, title: 'Heat', seconds: 60 },
+        { user: { name: 'bob' }, title: 'Ronin', ip: null },
+      ])
+    );
+    expect(result.format).toBe('json');
+    expect(result.columns).toEqual(['user.name', 'title', 'seconds', 'ip']);
+    expect(result.rows[0]).toEqual({ 'user.name': 'alice', title: 'Heat', seconds: '60' });
+    expect(result.rows[1]).toEqual({ 'user.name': 'bob', title: 'Ronin', ip: '' });
+  });
+
+  it('finds the record list inside a wrapper object', () => {
+    const result = parseHistoryFile('{"count":1,"data":[{"title":"Heat"}]}');
+    expect(result.rows).toEqual([{ title: 'Heat' }]);
+  });
+
+  it('parses newline-delimited JSON', () => {
+    const result = parseHistoryFile('{"title":"Heat"}\n{"title":"Ronin"}\n');
+    expect(result.rows.map((r) => r.title)).toEqual(['Heat', 'Ronin']);
+  });
+
+  it('rejects JSON without records', () => {
+    expect(() => parseHistoryFile('{"count":1}')).toThrow(/array of records/);
+    expect(() => parseHistoryFile('[{"title":')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('suggestFileImportMapping', () => {
+  it('matches common column names regardless of case and punctuation', () => {
+    expect(
+      suggestFileImportMapping(['User Name', 'Full Title', 'Date', 'IP_Address', 'Device', 'Notes'])
+    ).toEqual({
+      user: 'User Name',
+      title: 'Full Title',
+      startedAt: 'Date',
+      ipAddress: 'IP_Address',
+      device: 'Device',
+    });
+  });
+
+  it('uses each column once', () => {
+    expect(suggestFileImportMapping(['name'])).toEqual({ title: 'name' });
+  });
+});
+
+describe('validateFileImportMapping', () => {
+  it('requires user, title and start time', () => {
+    expect(validateFileImportMapping({ title: 'a' }, ['a'])).toEqual([
+      'A column must be mapped to user',
+      'A column must be mapped to startedAt',
+    ]);
+  });
+
+  it('rejects columns that are not in the file', () => {
+    expect(
+      validateFileImportMapping({ user: 'a', title: 'b', startedAt: 'missing' }, ['a', 'b'])
+    ).toEqual(['Column "missing" mapped to startedAt is not in the file']);
+  });
+});
+
+describe('parseFileImportDate', () => {
+  it('parses timestamps without an offset as local time', () => {
+    expect(parseFileImportDate('2024-03-10 20:15:07.5')).toEqual(
+      new Date(2024, 2, 10, 20, 15, 7, 500)
+    );
+    expect(parseFileImportDate('2024-03-10')).toEqual(new Date(2024, 2, 10));
+  });
+
+  it('honours explicit offsets', () => {
+    expect(parseFileImportDate('2024-03-10T20:15:00Z')?.toISOString()).toBe(
+      '2024-03-10T20:15:00.000Z'
+    );
+  });
+
+  it('parses Unix epochs in seconds and milliseconds', () => {
+    expect(parseFileImportDate('1710101700')?.toISOString()).toBe('2024-03-10T20:15:00.000Z');
+    expect(parseFileImportDate('1710101700000')?.toISOString()).toBe('2024-03-10T20:15:00.000Z');
+  });
+
+  it('returns null for unrecognized values', () => {
+    expect(parseFileImportDate('')).toBeNull();
+    expect(parseFileImportDate('last tuesday')).toBeNull();
+  });
+});
+
+describe('parseFileImportDuration', () => {
+  it('parses seconds and clock durations', () => {
+    expect(parseFileImportDuration('90')).toBe(90_000);
+    expect(parseFileImportDuration('1:02:03')).toBe(3_723_000);
+    expect(parseFileImportDuration('21:00')).toBe(1_260_000);
+    expect(parseFileImportDuration('ninety')).toBeNull();
+  });
+});
+
+describe('parseFileImportMediaType', () => {
+  it('maps common spellings', () => {
+    expect(parseFileImportMediaType('Film')).toBe('movie');
+    expect(parseFileImportMediaType('TV Episode')).toBe('episode');
+    expect(parseFileImportMediaType('Audio')).toBe('track');
+    expect(parseFileImportMediaType('Live TV')).toBe('live');
+    expect(parseFileImportMediaType('photo')).toBeUndefined();
+  });
+});
+
+describe('mapFileImportRecord', () => {
+  it('maps a valid row and derives the stop time from the duration', () => {
+    const { row, errors } = mapFileImportRecord(RECORD, MAPPING);
+
+    expect(errors).toEqual([]);
+    expect(row).toMatchObject({
+      user: 'Alice',
+      title: 'Office Olympics',
+      mediaType: 'episode',
+      showTitle: 'The Office',
+      seasonNumber: 2,
+      episodeNumber: 3,
+      startedAt: new Date(2024, 2, 10, 20, 15, 0),
+      stoppedAt: new Date(2024, 2, 10, 20, 36, 0),
+      durationMs: 1_260_000,
+      ipAddress: '192.168.1.20',
+      player: 'Firefox',
+    });
+  });
+
+  it('derives the duration from the stop time', () => {
+    const { row } = mapFileImportRecord(
+      { u: 'a', t: 'Heat', s: '2024-03-10T20:00:00Z', e: '2024-03-10T20:30:00Z' },
+      { user: 'u', title: 't', startedAt: 's', stoppedAt: 'e' }
+    );
+    expect(row?.mediaType).toBe('movie');
+    expect(row?.durationMs).toBe(30 * 60 * 1000);
+  });
+
+  it('reports every problem in a row', () => {
+    const { row, errors } = mapFileImportRecord(
+      { ...RECORD, User: '', Started: 'soon', Season: 'two', IP: '999.1.1.1' },
+      MAPPING
+    );
+    expect(row).toBeNull();
+    expect(errors).toEqual([
+      'User is empty',
+      'Start time "soon" is not a recognized date',
+      'Season "two" is not a whole number',
+      'IP address "999.1.1.1" is not valid',
+    ]);
+  });
+
+  it('rejects stop times before the start', () => {
+    const { errors } = mapFileImportRecord(
+      { u: 'a', t: 'Heat', s: '2024-03-10T20:00:00Z', e: '2024-03-10T19:00:00Z' },
+      { user: 'u', title: 't', startedAt: 's', stoppedAt: 'e' }
+    );
+    expect(errors).toEqual(['Stop time is before start time']);
+  });
+
+  it('derives the same rating key for the same item regardless of case', () => {
+    const a = mapFileImportRecord(RECORD, MAPPING).row!;
+    const b = mapFileImportRecord(
+      { ...RECORD, User: 'Bob', Title: 'OFFICE OLYMPICS', Started: '2025-01-01' },
+      MAPPING
+    ).row!;
+    const c = mapFileImportRecord({ ...RECORD, Episode: '4' }, MAPPING).row!;
+
+    expect(a.ratingKey).toMatch(/^file-[0-9a-f]{24}$/);
+    expect(b.ratingKey).toBe(a.ratingKey);
+    expect(c.ratingKey).not.toBe(a.ratingKey);
+  });
+
+  it('uses a mapped item ID as the rating key', () => {
+    const { row } = mapFileImportRecord(
+      { ...RECORD, Id: '12345' },
+      { ...MAPPING, ratingKey: 'Id' }
+    );
+    expect(row?.ratingKey).toBe('12345');
+  });
+});
+
+describe('previewHistoryFile', () => {
+  it('returns columns, a suggested mapping and the first rows', () => {
+    const lines = ['user,title,date'];
+    for (let i = 0; i < 25; i++) lines.push(`alice,Movie ${i},2024-03-10`);
+
+    const preview = previewHistoryFile(lines.join('\n'));
+
+    expect(preview.totalRows).toBe(25);
+    expect(preview.sampleRows).toHaveLength(20);
+    expect(preview.suggestedMapping).toEqual({ user: 'user', title: 'title', startedAt: 'date' });
+  });
+});
+
+describe('validateFileImportRows', () => {
+  it('flags users that are not on the server', () => {
+    const results = validateFileImportRows(
+      [RECORD, { ...RECORD, User: 'mallory' }],
+      MAPPING,
+      new Map([['alice', SERVER_USER_ID]])
+    );
+
+    expect(results[0]).toMatchObject({ rowNumber: 1, errors: [] });
+    expect(results[0]!.session).toMatchObject({ user: 'Alice', durationMs: 1_260_000 });
+    expect(results[1]).toEqual({
+      rowNumber: 2,
+      errors: ['No user "mallory" on this server; the row will be skipped'],
+      session: null,
+    });
+  });
+});
+
+describe('transformFileImportRow', () => {
+  it('builds a stopped session', () => {
+    const row = mapFileImportRecord(RECORD, MAPPING).row!;
+    const session = transformFileImportRow(row, SERVER_ID, SERVER_USER_ID, 'jellyfin');
+
+    expect(session).toMatchObject({
+      serverId: SERVER_ID,
+      serverUserId: SERVER_USER_ID,
+      state: 'stopped',
+      mediaType: 'episode',
+      mediaTitle: 'Office Olympics',
+      grandparentTitle: 'The Office',
+      seasonNumber: 2,
+      episodeNumber: 3,
+      durationMs: 1_260_000,
+      ipAddress: '192.168.1.20',
+      playerName: 'Firefox',
+      shortSession: false,
+      externalSessionId: fileImportExternalId(row),
+      sessionKey: fileImportExternalId(row),
+    });
+  });
+
+  it('falls back when optional fields are missing', () => {
+    const row = mapFileImportRecord(
+      { u: 'a', t: 'Heat', s: '2024-03-10T20:00:00Z' },
+      { user: 'u', title: 't', startedAt: 's' }
+    ).row!;
+    const session = transformFileImportRow(row, SERVER_ID, SERVER_USER_ID);
+
+    expect(session.ipAddress).toBe('0.0.0.0');
+    expect(session.playerName).toBe('Unknown');
+    expect(session.stoppedAt).toEqual(session.startedAt);
+    expect(session.durationMs).toBeNull();
+    expect(session.shortSession).toBe(false);
+  });
+
+  it('keys the external ID on user, item and start time', () => {
+    const row = mapFileImportRecord(RECORD, MAPPING).row!;
+    expect(fileImportExternalId(row)).toBe(fileImportExternalId({ ...row, user: 'ALICE' }));
+    expect(fileImportExternalId(row)).not.toBe(
+      fileImportExternalId({ ...row, startedAt: new Date(0) })
+    );
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Notification destination tests
+ *
+ * Tests per-destination dispatch:
+ * - Agent settings built from a single destination
+ * - Event, severity and server filters
+ * - Sending to several destinations of the same type
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NotificationDestination } from '@tracearr/shared';
+
+vi.mock('../../db/client.js', () => ({
+  db: {},
+}));
+
+import {
+  NotificationManager,
+  destinationAccepts,
+  getMissingConfigKeys,
+  pickDestinationConfig,
+  toNotificationSettings,
+  type NotificationPayload,
+} from '../notifications/index.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createDestination(
+  overrides: Partial<NotificationDestination> = {}
+): NotificationDestination {
+  return {
+    id: 'destination-1',
+    name: 'Admins',
+    type: 'discord',
+    config: { discordWebhookUrl: 'https://discord.com/api/webhooks/1/a' },
+    enabled: true,
+    events: ['violation_detected', 'server_down'],
+    minSeverity: 'low',
+    serverIds: [],
+    digestFrequency: 'off',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const serverDownPayload: NotificationPayload = {
+  event: 'server_down',
+  title: 'Server Down',
+  message: 'Plex is unreachable',
+  severity: 'high',
+  timestamp: new Date().toISOString(),
+  context: { type: 'server_down', serverName: 'Plex' },
+};
+
+describe('toNotificationSettings', () => {
+  it('only configures the destination agent', () => {
+    const settings = toNotificationSettings(createDestination());
+
+    expect(settings.discordWebhookUrl).toBe('https://discord.com/api/webhooks/1/a');
+    expect(settings.customWebhookUrl).toBeNull();
+    expect(settings.smtpHost).toBeNull();
+    expect(settings.telegramBotToken).toBeNull();
+    expect(settings.destinationId).toBe('destination-1');
+  });
+
+  it('selects the webhook format from the destination type', () => {
+    const settings = toNotificationSettings(
+      createDestination({
+        type: 'apprise',
+        config: { customWebhookUrl: 'http://apprise:8000/notify/tracearr' },
+      })
+    );
+
+    expect(settings.webhookFormat).toBe('apprise');
+    expect(settings.customWebhookUrl).toBe('http://apprise:8000/notify/tracearr');
+  });
+
+  it('ignores config keys for other agents', () => {
+    const settings = toNotificationSettings(
+      createDestination({
+        config: {
+          discordWebhookUrl: 'https://discord.com/api/webhooks/1/a',
+          customWebhookUrl: 'https://hooks.example.com',
+        },
+      })
+    );
+
+    expect(settings.customWebhookUrl).toBeNull();
+  });
+});
+
+describe('pickDestinationConfig / getMissingConfigKeys', () => {
+  it('keeps only keys used by the type', () => {
+    expect(
+      pickDestinationConfig('telegram', {
+        telegramBotToken: '123:abc',
+        telegramChatId: '-100',
+        matrixRoomId: '!room',
+      })
+    ).toEqual({ telegramBotToken: '123:abc', telegramChatId: '-100' });
+  });
+
+  it('reports missing and empty required keys', () => {
+    expect(
+      getMissingConfigKeys('matrix', { matrixHomeserverUrl: 'https://m.org', matrixRoomId: '' })
+    ).toEqual(['matrixAccessToken', 'matrixRoomId']);
+  });
+});
+
+describe('destinationAccepts', () => {
+  it('accepts subscribed events', () => {
+    expect(destinationAccepts(createDestination(), serverDownPayload, 'server-1')).toBe(true);
+  });
+
+  it('rejects disabled destinations and unsubscribed events', () => {
+    expect(destinationAccepts(createDestination({ enabled: false }), serverDownPayload, null)).toBe(
+      false
+    );
+    expect(
+      destinationAccepts(createDestination({ events: ['server_up'] }), serverDownPayload, null)
+    ).toBe(false);
+  });
+
+  it('applies the severity floor', () => {
+    const destination = createDestination({ minSeverity: 'high' });
+
+    expect(destinationAccepts(destination, serverDownPayload, null)).toBe(true);
+    expect(
+      destinationAccepts(destination, { event: 'server_down', severity: 'warning' }, null)
+    ).toBe(false);
+  });
+
+  it('applies the server filter', () => {
+    const destination = createDestination({ serverIds: ['server-1'] });
+
+    expect(destinationAccepts(destination, serverDownPayload, 'server-1')).toBe(true);
+    expect(destinationAccepts(destination, serverDownPayload, 'server-2')).toBe(false);
+    // Events without a server are not filtered
+    expect(destinationAccepts(destination, serverDownPayload, null)).toBe(true);
+  });
+});
+
+describe('NotificationManager.sendToDestinations', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 204, text: vi.fn().mockResolvedValue('') });
+  });
+
+  it('sends to every destination of the same type', async () => {
+    const manager = new NotificationManager();
+
+    const results = await manager.sendToDestinations(serverDownPayload, [
+      createDestination(),
+      createDestination({
+        id: 'destination-2',
+        config: { discordWebhookUrl: 'https://discord.com/api/webhooks/2/b' },
+      }),
+    ]);
+
+    expect(results).toHaveLength(2);
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://discord.com/api/webhooks/1/a',
+      'https://discord.com/api/webhooks/2/b',
+    ]);
+  });
+
+  it('sends nothing without destinations', async () => {
+    const manager = new NotificationManager();
+
+    expect(await manager.sendToDestinations(serverDownPayload, [])).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
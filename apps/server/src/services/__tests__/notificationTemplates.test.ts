@@ -0,0 +1,269 @@
+/**
+ * Notification template tests
+ *
+ * Tests user-defined template rendering and dispatch:
+ * - {{variable}} substitution and unknown variable handling
+ * - Variable trees built from each payload type
+ * - Per-agent template selection in NotificationManager.sendAll
+ * - Agents using the rendered template instead of built-in formatting
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NOTIFICATION_TEMPLATE_VARIABLES } from '@tracearr/shared';
+import {
+  applyTemplate,
+  buildSampleTemplateVariables,
+  buildTemplateVariables,
+  findUnknownVariables,
+  renderTemplate,
+  templateKey,
+} from '../notifications/formatters/template.js';
+import { NotificationManager, PayloadBuilders } from '../notifications/index.js';
+import { DiscordAgent } from '../notifications/agents/discord.js';
+import { NtfyAgent } from '../notifications/agents/ntfy.js';
+import { JsonWebhookAgent } from '../notifications/agents/json-webhook.js';
+import type { NotificationSettings } from '../notifications/types.js';
+import { createMockActiveSession } from '../../test/fixtures.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// JSON webhook deliveries are logged to the database
+vi.mock('../../db/client.js', () => ({
+  db: {
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => ({
+        returning: vi.fn().mockResolvedValue([{ id: 'delivery-1', attempts: 0, ...values }]),
+      })),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) })),
+    })),
+  },
+}));
+
+const createSettings = (overrides: Partial<NotificationSettings> = {}): NotificationSettings => ({
+  discordWebhookUrl: null,
+  customWebhookUrl: null,
+  webhookFormat: null,
+  webhookSecret: null,
+  ntfyTopic: null,
+  ntfyAuthToken: null,
+  pushoverUserKey: null,
+  pushoverApiToken: null,
+  smtpHost: null,
+  smtpPort: null,
+  smtpSecurity: null,
+  smtpUsername: null,
+  smtpPassword: null,
+  smtpFrom: null,
+  smtpTo: null,
+  telegramBotToken: null,
+  telegramChatId: null,
+  matrixHomeserverUrl: null,
+  matrixAccessToken: null,
+  matrixRoomId: null,
+  ...overrides,
+});
+
+const getSentBody = (call: number) =>
+  JSON.parse(mockFetch.mock.calls[call]![1].body as string) as Record<string, unknown>;
+
+describe('renderTemplate', () => {
+  const variables = {
+    user: { username: 'alice' },
+    session: { year: 2010, grandparentTitle: null },
+  };
+
+  it('substitutes nested variables', () => {
+    expect(renderTemplate('{{user.username}} watched ({{ session.year }})', variables)).toBe(
+      'alice watched (2010)'
+    );
+  });
+
+  it('renders unknown, null and object values as empty strings', () => {
+    expect(
+      renderTemplate('[{{user.email}}][{{session.grandparentTitle}}][{{user}}]', variables)
+    ).toBe('[][][]');
+  });
+
+  it('leaves text without placeholders untouched', () => {
+    expect(renderTemplate('Plain {text} and }} braces', variables)).toBe(
+      'Plain {text} and }} braces'
+    );
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it('reports variables not documented for the event', () => {
+    expect(
+      findUnknownVariables(
+        '{{server.name}} {{session.mediaTitle}} {{nope}} {{nope}}',
+        'server_down'
+      )
+    ).toEqual(['session.mediaTitle', 'nope']);
+  });
+
+  it('accepts every documented variable', () => {
+    const template = NOTIFICATION_TEMPLATE_VARIABLES.stream_stopped
+      .map((v) => `{{${v.name}}}`)
+      .join(' ');
+    expect(findUnknownVariables(template, 'stream_stopped')).toEqual([]);
+  });
+});
+
+describe('buildTemplateVariables', () => {
+  it('exposes session, geo and server details for stream events', () => {
+    const session = createMockActiveSession({
+      mediaType: 'episode',
+      mediaTitle: 'Pilot',
+      grandparentTitle: 'Lost',
+      seasonNumber: 1,
+      episodeNumber: 2,
+      geoCity: 'Berlin',
+      geoCountry: 'DE',
+      durationMs: 125000,
+    });
+
+    const variables = buildTemplateVariables(PayloadBuilders.fromSessionStopped(session));
+
+    expect(
+      renderTemplate(
+        '{{user.username}}|{{session.displayTitle}}|{{geo.location}}|{{server.name}}|{{session.duration}}|{{event.type}}',
+        variables
+      )
+    ).toBe('testuser|Lost - S01E02|Berlin, DE|Test Server|2m 5s|stream_stopped');
+  });
+
+  it('exposes rule details for violations', () => {
+    const payload = PayloadBuilders.fromViolation({
+      id: 'violation-1',
+      ruleId: 'rule-1',
+      serverUserId: 'user-1',
+      sessionId: null,
+      severity: 'high',
+      data: {},
+      acknowledgedAt: null,
+      createdAt: new Date(),
+      user: {
+        id: 'user-1',
+        username: 'bob',
+        serverId: 'server-1',
+        thumbUrl: null,
+        identityName: 'Bob',
+      },
+      rule: { id: 'rule-1', name: 'No VPN', type: null },
+      server: { id: 'server-1', name: 'Main', type: 'jellyfin' },
+    });
+
+    expect(
+      renderTemplate(
+        '{{user.displayName}} broke {{violation.rule.name}} on {{server.name}} ({{violation.severity}})',
+        buildTemplateVariables(payload)
+      )
+    ).toBe('Bob broke No VPN on Main (high)');
+  });
+
+  it('exposes trust score details', () => {
+    const payload = PayloadBuilders.fromTrustScoreChanged('carol', 90, 70, null);
+    expect(
+      renderTemplate(
+        '{{user.username}}: {{trust.previousScore}} -> {{trust.newScore}} ({{trust.direction}})',
+        buildTemplateVariables(payload)
+      )
+    ).toBe('carol: 90 -> 70 (decreased)');
+  });
+});
+
+describe('buildSampleTemplateVariables', () => {
+  it('provides a value for every documented variable', () => {
+    for (const [eventType, documented] of Object.entries(NOTIFICATION_TEMPLATE_VARIABLES)) {
+      const variables = buildSampleTemplateVariables(
+        eventType as keyof typeof NOTIFICATION_TEMPLATE_VARIABLES
+      );
+      for (const { name } of documented) {
+        expect(renderTemplate(`{{${name}}}`, variables), `${eventType}: ${name}`).not.toBe('');
+      }
+    }
+  });
+});
+
+describe('applyTemplate', () => {
+  const templates = new Map([
+    [templateKey('server_down', 'discord'), { title: '{{server.name}} down', body: 'Check it' }],
+  ]);
+
+  it('renders the template for the matching event and agent', () => {
+    const payload = applyTemplate(PayloadBuilders.fromServerDown('Plex'), 'discord', templates);
+    expect(payload.template).toEqual({ title: 'Plex down', body: 'Check it' });
+  });
+
+  it('returns the payload unchanged without a matching template', () => {
+    const original = PayloadBuilders.fromServerDown('Plex');
+    expect(applyTemplate(original, 'ntfy', templates)).toBe(original);
+    expect(applyTemplate(original, 'discord', undefined)).toBe(original);
+  });
+});
+
+describe('template dispatch', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 200, text: vi.fn().mockResolvedValue('') });
+  });
+
+  it('applies templates per agent and falls back to built-in formatting', async () => {
+    const manager = new NotificationManager([new DiscordAgent(), new NtfyAgent()]);
+    const settings = createSettings({
+      discordWebhookUrl: 'https://discord.com/api/webhooks/1/abc',
+      customWebhookUrl: 'https://ntfy.example.com',
+      webhookFormat: 'ntfy',
+      ntfyTopic: 'alerts',
+      templates: new Map([
+        [
+          templateKey('server_up', 'discord'),
+          { title: '🟢 {{server.name}}', body: '**{{server.name}}** ist wieder online' },
+        ],
+      ]),
+    });
+
+    await manager.notifyServerUp('Plex', settings, 'plex');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const discordCall = mockFetch.mock.calls.findIndex(([url]) =>
+      String(url).startsWith('https://discord.com')
+    );
+    const discordBody = getSentBody(discordCall) as { embeds: Array<Record<string, unknown>> };
+    expect(discordBody.embeds[0]).toMatchObject({
+      title: '🟢 Plex',
+      description: '**Plex** ist wieder online',
+    });
+    expect(discordBody.embeds[0]!.fields).toBeUndefined();
+
+    const ntfyBody = getSentBody(discordCall === 0 ? 1 : 0);
+    expect(ntfyBody.title).toBe('Server Online');
+  });
+
+  it('adds rendered text to JSON webhooks while keeping structured data', async () => {
+    const agent = new JsonWebhookAgent();
+    const payload = applyTemplate(
+      PayloadBuilders.fromNewDevice('dave', 'iPad', 'iOS', 'Paris, FR'),
+      'json-webhook',
+      new Map([
+        [
+          templateKey('new_device', 'json-webhook'),
+          {
+            title: 'New device',
+            body: '{{user.username}} on {{device.name}} from {{geo.location}}',
+          },
+        ],
+      ])
+    );
+
+    await agent.send(payload, createSettings({ customWebhookUrl: 'https://hooks.example.com' }));
+
+    const body = getSentBody(0);
+    expect(body.title).toBe('New device');
+    expect(body.message).toBe('dave on iPad from Paris, FR');
+    expect(body.data).toMatchObject({ userName: 'dave', deviceName: 'iPad' });
+  });
+});
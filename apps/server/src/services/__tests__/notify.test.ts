@@ -5,18 +5,66 @@
  * - Discord webhook notifications
  * - Custom webhook notifications with different formats
  * - Ntfy authentication header handling
+ * - Email (SMTP) notifications via nodemailer
  * - Test webhook functionality
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { NotificationManager } from '../notifications/index.js';
-import type { ViolationWithDetails, Settings } from '@tracearr/shared';
-import { createMockActiveSession } from '../../test/fixtures.js';
+import {
+  NotificationManager,
+  PayloadBuilders,
+  type NotificationSettings,
+} from '../notifications/index.js';
+import type { ViolationWithDetails } from '@tracearr/shared';
+import { createMockActiveSession, createMockDigestReport } from '../../test/fixtures.js';
 
 // Mock global fetch
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+// Mock nodemailer transport
+const { mockSendMail, mockCreateTransport } = vi.hoisted(() => {
+  const mockSendMail = vi.fn();
+  return {
+    mockSendMail,
+    mockCreateTransport: vi.fn(() => ({ sendMail: mockSendMail, close: vi.fn() })),
+  };
+});
+
+vi.mock('nodemailer', () => ({
+  default: { createTransport: mockCreateTransport },
+}));
+
+// JSON webhook deliveries are logged to the database
+vi.mock('../../db/client.js', () => ({
+  db: {
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => ({
+        returning: vi.fn().mockResolvedValue([{ id: 'delivery-1', attempts: 0, ...values }]),
+      })),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) })),
+    })),
+  },
+}));
+
+// Email and chat agent settings, all unconfigured
+const UNCONFIGURED_AGENT_SETTINGS = {
+  smtpHost: null,
+  smtpPort: null,
+  smtpSecurity: null,
+  smtpUsername: null,
+  smtpPassword: null,
+  smtpFrom: null,
+  smtpTo: null,
+  telegramBotToken: null,
+  telegramChatId: null,
+  matrixHomeserverUrl: null,
+  matrixAccessToken: null,
+  matrixRoomId: null,
+};
+
 // Helper to create a mock Response with required methods
 const createMockResponse = (ok: boolean, body: string = '') => ({
   ok,
@@ -36,25 +84,18 @@ describe('NotificationManager', () => {
     vi.clearAllMocks();
   });
 
-  const createMockSettings = (overrides: Partial<Settings> = {}): Settings => ({
-    allowGuestAccess: false,
-    unitSystem: 'metric',
+  const createMockSettings = (
+    overrides: Partial<NotificationSettings> = {}
+  ): NotificationSettings => ({
     discordWebhookUrl: null,
     customWebhookUrl: null,
     webhookFormat: null,
+    webhookSecret: null,
     ntfyTopic: null,
     ntfyAuthToken: null,
     pushoverUserKey: null,
     pushoverApiToken: null,
-    pollerEnabled: true,
-    pollerIntervalMs: 15000,
-    tautulliUrl: null,
-    tautulliApiKey: null,
-    externalUrl: null,
-    trustProxy: false,
-    mobileEnabled: false,
-    primaryAuthMethod: 'local',
-    usePlexGeoip: false,
+    ...UNCONFIGURED_AGENT_SETTINGS,
     ...overrides,
   });
 
@@ -227,7 +268,7 @@ describe('NotificationManager', () => {
     });
 
     it('sends to both discord and custom webhooks', async () => {
-      mockFetch.mockResolvedValue({ ok: true });
+      mockFetch.mockResolvedValue(createMockResponse(true));
 
       const settings = createMockSettings({
         discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc',
@@ -439,6 +480,124 @@ describe('NotificationManager', () => {
       expect(body.get('priority')).toBe('-1');
     });
   });
+
+  describe('email agent', () => {
+    const smtpSettings = {
+      smtpHost: 'smtp.example.com',
+      smtpPort: 587,
+      smtpSecurity: 'starttls' as const,
+      smtpUsername: 'mailer',
+      smtpPassword: 'hunter2',
+      smtpFrom: 'Tracearr <tracearr@example.com>',
+      smtpTo: 'admin@example.com, mod@example.com',
+    };
+
+    beforeEach(() => {
+      mockSendMail.mockReset();
+      mockCreateTransport.mockClear();
+    });
+
+    it('sends multipart email for violations', async () => {
+      mockSendMail.mockResolvedValueOnce({ messageId: 'abc' });
+
+      const results = await manager.notifyViolation(
+        createMockViolation(),
+        createMockSettings(smtpSettings)
+      );
+
+      expect(results).toEqual([{ success: true, agent: 'email' }]);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockCreateTransport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          host: 'smtp.example.com',
+          port: 587,
+          secure: false,
+          requireTLS: true,
+          auth: { user: 'mailer', pass: 'hunter2' },
+        })
+      );
+
+      const mail = mockSendMail.mock.calls[0]![0];
+      expect(mail.from).toBe('Tracearr <tracearr@example.com>');
+      expect(mail.to).toEqual(['admin@example.com', 'mod@example.com']);
+      expect(mail.subject).toBe('[Tracearr] Violation: Test Rule (Test User)');
+      expect(mail.text).toContain('Rule: Test Rule');
+      expect(mail.html).toContain('Violation Detected');
+    });
+
+    it('uses implicit TLS and default port without auth', async () => {
+      mockSendMail.mockResolvedValueOnce({ messageId: 'abc' });
+
+      await manager.notifyServerDown(
+        'Plex Server',
+        createMockSettings({
+          ...smtpSettings,
+          smtpPort: null,
+          smtpSecurity: 'tls',
+          smtpUsername: null,
+          smtpPassword: null,
+        })
+      );
+
+      expect(mockCreateTransport).toHaveBeenCalledWith(
+        expect.objectContaining({ port: 465, secure: true, auth: undefined })
+      );
+      expect(mockSendMail.mock.calls[0]![0].subject).toBe('[Tracearr] Server offline: Plex Server');
+    });
+
+    it('escapes HTML in user-provided values', async () => {
+      mockSendMail.mockResolvedValueOnce({ messageId: 'abc' });
+
+      await manager.notifyNewDevice(
+        '<script>alert(1)</script>',
+        'Living Room TV',
+        null,
+        null,
+        createMockSettings(smtpSettings)
+      );
+
+      const mail = mockSendMail.mock.calls[0]![0];
+      expect(mail.html).not.toContain('<script>');
+      expect(mail.html).toContain('&lt;script&gt;');
+      expect(mail.text).toContain('<script>alert(1)</script>');
+    });
+
+    it('sends the full report for digests', async () => {
+      mockSendMail.mockResolvedValueOnce({ messageId: 'abc' });
+
+      await manager.sendAll(
+        PayloadBuilders.fromDigest(createMockDigestReport()),
+        createMockSettings(smtpSettings)
+      );
+
+      const mail = mockSendMail.mock.calls[0]![0];
+      expect(mail.subject).toBe('[Tracearr] Weekly Digest: Mar 4 - Mar 10, 2024');
+      expect(mail.html).toContain('Top movies');
+      expect(mail.html).toContain('Heat (1995)');
+      expect(mail.text).toContain('Top user: Alice (12.5 h)');
+    });
+
+    it('does not send when no recipients are configured', async () => {
+      const results = await manager.notifyViolation(
+        createMockViolation(),
+        createMockSettings({ ...smtpSettings, smtpTo: ' , ' })
+      );
+
+      expect(results).toEqual([]);
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it('reports SMTP failures', async () => {
+      mockSendMail.mockRejectedValueOnce(new Error('Invalid login'));
+
+      const results = await manager.notifyViolation(
+        createMockViolation(),
+        createMockSettings(smtpSettings)
+      );
+
+      expect(results).toEqual([{ success: false, error: 'Invalid login', agent: 'email' }]);
+    });
+  });
 });
 
 describe('testAgent', () => {
@@ -460,10 +619,12 @@ describe('testAgent', () => {
       discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc',
       customWebhookUrl: null,
       webhookFormat: null,
+      webhookSecret: null,
       ntfyTopic: null,
       ntfyAuthToken: null,
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(true);
@@ -488,10 +649,12 @@ describe('testAgent', () => {
       discordWebhookUrl: null,
       customWebhookUrl: 'https://ntfy.example.com',
       webhookFormat: 'ntfy',
+      webhookSecret: null,
       ntfyTopic: 'tracearr-test',
       ntfyAuthToken: 'tk_test_token_123',
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(true);
@@ -520,10 +683,12 @@ describe('testAgent', () => {
       discordWebhookUrl: null,
       customWebhookUrl: 'https://ntfy.example.com',
       webhookFormat: 'ntfy',
+      webhookSecret: null,
       ntfyTopic: 'tracearr-test',
       ntfyAuthToken: null,
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(true);
@@ -549,10 +714,12 @@ describe('testAgent', () => {
       discordWebhookUrl: null,
       customWebhookUrl: 'https://apprise.example.com/notify',
       webhookFormat: 'apprise',
+      webhookSecret: null,
       ntfyTopic: null,
       ntfyAuthToken: null,
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(true);
@@ -570,10 +737,12 @@ describe('testAgent', () => {
       discordWebhookUrl: null,
       customWebhookUrl: 'https://example.com/webhook',
       webhookFormat: 'json',
+      webhookSecret: null,
       ntfyTopic: null,
       ntfyAuthToken: null,
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(true);
@@ -595,10 +764,12 @@ describe('testAgent', () => {
       discordWebhookUrl: null,
       customWebhookUrl: 'https://ntfy.example.com',
       webhookFormat: 'ntfy',
+      webhookSecret: null,
       ntfyTopic: 'test',
       ntfyAuthToken: 'bad_token',
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(false);
@@ -612,25 +783,72 @@ describe('testAgent', () => {
       discordWebhookUrl: null,
       customWebhookUrl: 'https://unreachable.example.com',
       webhookFormat: 'json',
+      webhookSecret: null,
       ntfyTopic: null,
       ntfyAuthToken: null,
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(false);
     expect(result.error).toBe('Network error');
   });
 
+  it('sends email test message', async () => {
+    mockSendMail.mockResolvedValueOnce({ messageId: 'abc' });
+
+    const result = await manager.testAgent('email', {
+      discordWebhookUrl: null,
+      customWebhookUrl: null,
+      webhookFormat: null,
+      webhookSecret: null,
+      ntfyTopic: null,
+      ntfyAuthToken: null,
+      pushoverUserKey: null,
+      pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
+      smtpHost: 'smtp.example.com',
+      smtpFrom: 'tracearr@example.com',
+      smtpTo: 'admin@example.com',
+    });
+
+    expect(result.success).toBe(true);
+    const mail = mockSendMail.mock.calls[0]![0];
+    expect(mail.subject).toBe('[Tracearr] Test Notification');
+    expect(mail.text).toContain('This is a test notification from Tracearr');
+  });
+
+  it('returns error when email test is missing recipients', async () => {
+    const result = await manager.testAgent('email', {
+      discordWebhookUrl: null,
+      customWebhookUrl: null,
+      webhookFormat: null,
+      webhookSecret: null,
+      ntfyTopic: null,
+      ntfyAuthToken: null,
+      pushoverUserKey: null,
+      pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
+      smtpHost: 'smtp.example.com',
+      smtpFrom: 'tracearr@example.com',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('recipient');
+  });
+
   it('returns error for unknown agent', async () => {
     const result = await manager.testAgent('unknown-agent', {
       discordWebhookUrl: null,
       customWebhookUrl: null,
       webhookFormat: null,
+      webhookSecret: null,
       ntfyTopic: null,
       ntfyAuthToken: null,
       pushoverUserKey: null,
       pushoverApiToken: null,
+      ...UNCONFIGURED_AGENT_SETTINGS,
     });
 
     expect(result.success).toBe(false);
@@ -0,0 +1,307 @@
+/**
+ * OpenID Connect service tests
+ *
+ * Runs the code flow against a local mock OIDC issuer (real fetch, no mocks) to verify:
+ * - Discovery URL handling and the PKCE authorization URL
+ * - Code exchange with client_secret_basic and client_secret_post
+ * - ID token signature, issuer, audience and nonce checks
+ * - Userinfo claims merged into the identity
+ * - Claim-to-role mapping
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateKeyPairSync, type KeyObject } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import {
+  authenticateWithCode,
+  buildAuthorizationUrl,
+  discoverProvider,
+  getCodeChallenge,
+  getDiscoveryUrl,
+  OidcError,
+  resolveOidcRole,
+  type OidcClientConfig,
+} from '../oidc.js';
+
+const CLIENT_ID = 'tracearr';
+const CLIENT_SECRET = 'client-secret';
+const KEY_ID = 'issuer-key';
+
+interface TokenRequest {
+  headers: IncomingMessage['headers'];
+  params: URLSearchParams;
+}
+
+const signingKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+let server: Server;
+let issuer: string;
+let tokenRequests: TokenRequest[];
+// Per-test knobs for the mock issuer
+let authMethods: string[] | undefined;
+let idTokenClaims: Record<string, unknown>;
+let idTokenKey: KeyObject;
+let userInfo: Record<string, unknown>;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => {
+      raw += chunk.toString();
+    });
+    req.on('end', () => {
+      switch (req.url) {
+        case '/.well-known/openid-configuration':
+          return sendJson(res, 200, {
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+            userinfo_endpoint: `${issuer}/userinfo`,
+            token_endpoint_auth_methods_supported: authMethods,
+          });
+        case '/jwks':
+          return sendJson(res, 200, {
+            keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig' }],
+          });
+        case '/token': {
+          const params = new URLSearchParams(raw);
+          tokenRequests.push({ headers: req.headers, params });
+          if (params.get('code') !== 'valid-code') {
+            return sendJson(res, 400, { error: 'invalid_grant' });
+          }
+          const idToken = jwt.sign(idTokenClaims, idTokenKey, {
+            algorithm: 'RS256',
+            keyid: KEY_ID,
+            expiresIn: 300,
+          });
+          return sendJson(res, 200, { id_token: idToken, access_token: 'access-token' });
+        }
+        case '/userinfo':
+          if (req.headers.authorization !== 'Bearer access-token') {
+            return sendJson(res, 401, { error: 'invalid_token' });
+          }
+          return sendJson(res, 200, userInfo);
+        default:
+          return sendJson(res, 404, { error: 'not_found' });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  tokenRequests = [];
+  authMethods = undefined;
+  idTokenKey = signingKey.privateKey;
+  idTokenClaims = {
+    iss: issuer,
+    aud: CLIENT_ID,
+    sub: 'user-123',
+    nonce: 'expected-nonce',
+    email: 'Alice@Example.com',
+    email_verified: true,
+    preferred_username: 'alice',
+  };
+  userInfo = { sub: 'user-123', groups: ['tracearr-admins', 'family'] };
+});
+
+const client = (): OidcClientConfig => ({
+  discoveryUrl: issuer,
+  clientId: CLIENT_ID,
+  clientSecret: CLIENT_SECRET,
+  scopes: 'openid profile email',
+});
+
+const login = {
+  code: 'valid-code',
+  redirectUri: 'https://tracearr.example.com/auth/oidc-callback',
+  codeVerifier: 'code-verifier',
+  nonce: 'expected-nonce',
+};
+
+describe('getDiscoveryUrl', () => {
+  it('appends the well-known path to an issuer URL', () => {
+    expect(getDiscoveryUrl('https://auth.example.com/application/o/tracearr/')).toBe(
+      'https://auth.example.com/application/o/tracearr/.well-known/openid-configuration'
+    );
+  });
+
+  it('keeps a full discovery URL as-is', () => {
+    const url = 'https://auth.example.com/.well-known/openid-configuration';
+    expect(getDiscoveryUrl(url)).toBe(url);
+  });
+});
+
+describe('buildAuthorizationUrl', () => {
+  it('requests a code with state, nonce and an S256 challenge', async () => {
+    const metadata = await discoverProvider(issuer);
+
+    const url = new URL(
+      buildAuthorizationUrl(metadata, {
+        clientId: CLIENT_ID,
+        redirectUri: login.redirectUri,
+        scopes: 'openid email groups',
+        state: 'state-value',
+        nonce: 'nonce-value',
+        codeVerifier: 'code-verifier',
+      })
+    );
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: CLIENT_ID,
+      redirect_uri: login.redirectUri,
+      scope: 'openid email groups',
+      state: 'state-value',
+      nonce: 'nonce-value',
+      code_challenge: getCodeChallenge('code-verifier'),
+      code_challenge_method: 'S256',
+    });
+  });
+});
+
+describe('authenticateWithCode', () => {
+  it('returns the identity with userinfo claims merged in', async () => {
+    const identity = await authenticateWithCode(client(), login);
+
+    expect(identity).toMatchObject({
+      subject: 'user-123',
+      email: 'alice@example.com',
+      emailVerified: true,
+      username: 'alice',
+    });
+    expect(identity.claims.groups).toEqual(['tracearr-admins', 'family']);
+
+    const [request] = tokenRequests;
+    const basic = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
+    expect(request?.headers.authorization).toBe(`Basic ${basic}`);
+    expect(request?.params.get('code_verifier')).toBe('code-verifier');
+    expect(request?.params.get('redirect_uri')).toBe(login.redirectUri);
+    expect(request?.params.has('client_secret')).toBe(false);
+  });
+
+  it('sends the secret in the body when the issuer only supports client_secret_post', async () => {
+    authMethods = ['client_secret_post'];
+
+    await authenticateWithCode(client(), login);
+
+    const [request] = tokenRequests;
+    expect(request?.headers.authorization).toBeUndefined();
+    expect(request?.params.get('client_id')).toBe(CLIENT_ID);
+    expect(request?.params.get('client_secret')).toBe(CLIENT_SECRET);
+  });
+
+  it('ignores userinfo for a different subject', async () => {
+    userInfo = { sub: 'someone-else', email: 'mallory@example.com' };
+
+    const identity = await authenticateWithCode(client(), login);
+
+    expect(identity.email).toBe('alice@example.com');
+  });
+
+  it('treats a missing email_verified claim as unverified', async () => {
+    delete idTokenClaims.email_verified;
+
+    const identity = await authenticateWithCode(client(), login);
+
+    expect(identity.emailVerified).toBe(false);
+  });
+
+  it('accepts email_verified sent as a string', async () => {
+    idTokenClaims.email_verified = 'true';
+
+    const identity = await authenticateWithCode(client(), login);
+
+    expect(identity.emailVerified).toBe(true);
+  });
+
+  it('shortens names that do not fit the users table', async () => {
+    idTokenClaims.preferred_username = 'a'.repeat(300);
+    idTokenClaims.name = 'B'.repeat(300);
+
+    const identity = await authenticateWithCode(client(), login);
+
+    expect(identity.username).toHaveLength(100);
+    expect(identity.name).toHaveLength(255);
+  });
+
+  it('rejects a rejected authorization code', async () => {
+    await expect(authenticateWithCode(client(), { ...login, code: 'bad' })).rejects.toThrow(
+      OidcError
+    );
+  });
+
+  it('rejects an ID token with the wrong nonce', async () => {
+    await expect(
+      authenticateWithCode(client(), { ...login, nonce: 'replayed-nonce' })
+    ).rejects.toThrow(/nonce/);
+  });
+
+  it('rejects an ID token for another client', async () => {
+    idTokenClaims.aud = 'other-client';
+
+    await expect(authenticateWithCode(client(), login)).rejects.toThrow(/audience/);
+  });
+
+  it('rejects an ID token from another issuer', async () => {
+    idTokenClaims.iss = 'https://evil.example.com';
+
+    await expect(authenticateWithCode(client(), login)).rejects.toThrow(/issuer/);
+  });
+
+  it('rejects an ID token not signed by the issuer', async () => {
+    idTokenKey = otherKey.privateKey;
+
+    await expect(authenticateWithCode(client(), login)).rejects.toThrow(/signature/);
+  });
+
+  it('reports unreachable issuers', async () => {
+    await expect(
+      authenticateWithCode({ ...client(), discoveryUrl: `${issuer}/missing` }, login)
+    ).rejects.toThrow(/discovery/);
+  });
+});
+
+describe('resolveOidcRole', () => {
+  const mapping = [
+    { value: 'family', role: 'viewer' as const },
+    { value: 'tracearr-admins', role: 'admin' as const },
+    { value: 'mods', role: 'moderator' as const },
+  ];
+
+  it('picks the most privileged matching role', () => {
+    expect(resolveOidcRole({ groups: ['family', 'tracearr-admins'] }, 'groups', mapping)).toBe(
+      'admin'
+    );
+  });
+
+  it('accepts a single string claim', () => {
+    expect(resolveOidcRole({ role: 'mods' }, 'role', mapping)).toBe('moderator');
+  });
+
+  it('follows nested claims', () => {
+    expect(
+      resolveOidcRole({ realm_access: { roles: ['family'] } }, 'realm_access.roles', mapping)
+    ).toBe('viewer');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(resolveOidcRole({ groups: ['strangers'] }, 'groups', mapping)).toBeNull();
+    expect(resolveOidcRole({}, 'groups', mapping)).toBeNull();
+  });
+});
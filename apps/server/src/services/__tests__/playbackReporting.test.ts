@@ -0,0 +1,239 @@
+/**
+ * Playback Reporting Import Service Tests
+ *
+ * Covers the pure parsing and transformation helpers:
+ * - DateCreated parsing (local time and explicit offsets)
+ * - Backup (headerless TSV) and CSV export parsing
+ * - ItemType mapping and composite ItemName splitting
+ * - Row to session transformation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeJellyfinId,
+  parsePlaybackReportingDate,
+  parsePlaybackReportingFile,
+  mapPlaybackReportingItemType,
+  parsePlaybackReportingItemName,
+  playbackReportingExternalId,
+  transformPlaybackReportingRow,
+  type PlaybackReportingRow,
+} from '../playbackReporting.js';
+
+const SERVER_ID = '11111111-1111-1111-1111-111111111111';
+const SERVER_USER_ID = '22222222-2222-2222-2222-222222222222';
+
+const EPISODE_ROW: PlaybackReportingRow = {
+  dateCreated: new Date(2024, 2, 10, 20, 15, 0),
+  userId: 'a91468af8ed947e0add77f191736dab5',
+  itemId: '5f0d7c2c3b9f4c1e8a6b2d4e6f8a0b1c',
+  itemType: 'Episode',
+  itemName: 'The Office - s02e03 - Office Olympics',
+  playbackMethod: 'Transcode (v:h264 a:aac)',
+  clientName: 'Jellyfin Web',
+  deviceName: 'Firefox',
+  playDuration: 1260,
+};
+
+describe('normalizeJellyfinId', () => {
+  it('strips dashes and lowercases GUIDs', () => {
+    expect(normalizeJellyfinId('A91468AF-8ED9-47E0-ADD7-7F191736DAB5')).toBe(
+      'a91468af8ed947e0add77f191736dab5'
+    );
+  });
+});
+
+describe('parsePlaybackReportingDate', () => {
+  it('parses plugin timestamps as local time', () => {
+    const date = parsePlaybackReportingDate('2024-03-10 20:15:07.1234567');
+    expect(date).toEqual(new Date(2024, 2, 10, 20, 15, 7, 123));
+  });
+
+  it('honours explicit offsets', () => {
+    expect(parsePlaybackReportingDate('2024-03-10T20:15:07Z')?.toISOString()).toBe(
+      '2024-03-10T20:15:07.000Z'
+    );
+    expect(parsePlaybackReportingDate('2024-03-10T20:15:07+02:00')?.toISOString()).toBe(
+      '2024-03-10T18:15:07.000Z'
+    );
+  });
+
+  it('returns null for unparseable values', () => {
+    expect(parsePlaybackReportingDate('')).toBeNull();
+    expect(parsePlaybackReportingDate('yesterday')).toBeNull();
+  });
+});
+
+describe('parsePlaybackReportingFile', () => {
+  it('parses the headerless backup format in table column order', () => {
+    const text = [
+      '2024-03-10 20:15:00.0000000\tA91468AF-8ED9-47E0-ADD7-7F191736DAB5\titem1\tMovie\tHeat, Part 1\tDirectPlay\tJellyfin Web\tChrome\t5400',
+      '2024-03-11 09:00:00.0000000\ta91468af8ed947e0add77f191736dab5\titem2\tAudio\tA - B - C\tDirectStream\tFinamp\tPixel\t200',
+    ].join('\n');
+
+    const { rows, errors } = parsePlaybackReportingFile(text);
+
+    expect(errors).toBe(0);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      userId: 'a91468af8ed947e0add77f191736dab5',
+      itemId: 'item1',
+      itemType: 'Movie',
+      itemName: 'Heat, Part 1',
+      playbackMethod: 'DirectPlay',
+      clientName: 'Jellyfin Web',
+      deviceName: 'Chrome',
+      playDuration: 5400,
+    });
+    expect(rows[0]!.dateCreated).toEqual(new Date(2024, 2, 10, 20, 15, 0));
+  });
+
+  it('parses CSV exports with a header row in any column order', () => {
+    const text = [
+      'rowid,PlayDuration,DateCreated,UserId,ItemId,ItemType,ItemName,PlaybackMethod,ClientName,DeviceName',
+      '1,60,2024-03-10 20:15:00,user1,item1,Episode,"Show - s01e01 - Pilot, Part 1",DirectPlay,,',
+    ].join('\n');
+
+    const { rows, errors } = parsePlaybackReportingFile(text);
+
+    expect(errors).toBe(0);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      userId: 'user1',
+      itemName: 'Show - s01e01 - Pilot, Part 1',
+      clientName: null,
+      deviceName: null,
+      playDuration: 60,
+    });
+  });
+
+  it('counts rows that cannot be parsed', () => {
+    const text = [
+      'not a date\tuser1\titem1\tMovie\tFilm\tDirectPlay\tWeb\tChrome\t60',
+      '2024-03-10 20:15:00\t\titem1\tMovie\tFilm\tDirectPlay\tWeb\tChrome\t60',
+      '2024-03-10 20:15:00\tuser1\titem1\tMovie\tFilm\tDirectPlay\tWeb\tChrome\tabc',
+      '2024-03-10 20:15:00\tuser1\titem1\tMovie\tFilm\tDirectPlay\tWeb\tChrome\t60',
+    ].join('\n');
+
+    const { rows, errors } = parsePlaybackReportingFile(text);
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toBe(3);
+  });
+
+  it('rejects headers missing required columns', () => {
+    expect(() => parsePlaybackReportingFile('DateCreated,UserId\n2024-03-10,user1')).toThrow(
+      /Missing PlaybackActivity columns: itemid/
+    );
+  });
+
+  it('returns no rows for an empty file', () => {
+    expect(parsePlaybackReportingFile('')).toEqual({ rows: [], errors: 0 });
+  });
+});
+
+describe('mapPlaybackReportingItemType', () => {
+  it('maps tracked item types', () => {
+    expect(mapPlaybackReportingItemType('Movie')).toBe('movie');
+    expect(mapPlaybackReportingItemType('MusicVideo')).toBe('movie');
+    expect(mapPlaybackReportingItemType('Episode')).toBe('episode');
+    expect(mapPlaybackReportingItemType('Audio')).toBe('track');
+    expect(mapPlaybackReportingItemType('TvChannel')).toBe('live');
+  });
+
+  it('returns null for untracked item types', () => {
+    expect(mapPlaybackReportingItemType('AudioBook')).toBeNull();
+    expect(mapPlaybackReportingItemType('Photo')).toBeNull();
+  });
+});
+
+describe('parsePlaybackReportingItemName', () => {
+  it('splits episode names', () => {
+    expect(parsePlaybackReportingItemName('episode', 'Mr. Robot - s01e10 - eps1.9')).toMatchObject({
+      mediaTitle: 'eps1.9',
+      grandparentTitle: 'Mr. Robot',
+      seasonNumber: 1,
+      episodeNumber: 10,
+    });
+  });
+
+  it('splits track names and keeps dashes in the title', () => {
+    expect(
+      parsePlaybackReportingItemName('track', 'Daft Punk - Discovery - One More Time - Edit')
+    ).toMatchObject({
+      mediaTitle: 'One More Time - Edit',
+      artistName: 'Daft Punk',
+      albumName: 'Discovery',
+    });
+  });
+
+  it('leaves other names untouched', () => {
+    expect(parsePlaybackReportingItemName('movie', 'Spider-Man - Homecoming')).toMatchObject({
+      mediaTitle: 'Spider-Man - Homecoming',
+      grandparentTitle: null,
+      artistName: null,
+    });
+  });
+});
+
+describe('transformPlaybackReportingRow', () => {
+  it('builds a stopped session spanning the played duration', () => {
+    const session = transformPlaybackReportingRow(
+      EPISODE_ROW,
+      'episode',
+      SERVER_ID,
+      SERVER_USER_ID
+    );
+
+    expect(session).toMatchObject({
+      serverId: SERVER_ID,
+      serverUserId: SERVER_USER_ID,
+      ratingKey: EPISODE_ROW.itemId,
+      externalSessionId: playbackReportingExternalId(EPISODE_ROW),
+      state: 'stopped',
+      mediaType: 'episode',
+      mediaTitle: 'Office Olympics',
+      grandparentTitle: 'The Office',
+      seasonNumber: 2,
+      episodeNumber: 3,
+      durationMs: 1_260_000,
+      totalDurationMs: null,
+      watched: false,
+      shortSession: false,
+      isTranscode: true,
+      ipAddress: '0.0.0.0',
+      playerName: 'Firefox',
+      product: 'Jellyfin Web',
+    });
+    expect(session.startedAt).toEqual(EPISODE_ROW.dateCreated);
+    expect(session.stoppedAt!.getTime() - session.startedAt!.getTime()).toBe(1_260_000);
+  });
+
+  it('prefers enrichment metadata over parsed names', () => {
+    const session = transformPlaybackReportingRow(
+      EPISODE_ROW,
+      'episode',
+      SERVER_ID,
+      SERVER_USER_ID,
+      { seasonNumber: 5, episodeNumber: 7, year: 2006, thumbPath: '/Items/abc/Images/Primary' }
+    );
+
+    expect(session).toMatchObject({
+      seasonNumber: 5,
+      episodeNumber: 7,
+      year: 2006,
+      thumbPath: '/Items/abc/Images/Primary',
+    });
+  });
+
+  it('marks short plays', () => {
+    const session = transformPlaybackReportingRow(
+      { ...EPISODE_ROW, playDuration: 30 },
+      'episode',
+      SERVER_ID,
+      SERVER_USER_ID
+    );
+
+    expect(session.shortSession).toBe(true);
+  });
+});
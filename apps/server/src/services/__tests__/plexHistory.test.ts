@@ -0,0 +1,111 @@
+/**
+ * Plex History Import Service Tests
+ *
+ * Covers transformation of Plex play history entries into sessions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { plexHistoryExternalId, transformPlexHistoryEntry } from '../plexHistory.js';
+import type { PlexHistoryEntry } from '../mediaServer/plex/parser.js';
+
+const SERVER_ID = '11111111-1111-1111-1111-111111111111';
+const SERVER_USER_ID = '22222222-2222-2222-2222-222222222222';
+
+// 2024-03-10T20:00:00Z
+const VIEWED_AT = 1710100800;
+
+const EPISODE_ENTRY: PlexHistoryEntry = {
+  historyId: '4821',
+  ratingKey: '12345',
+  title: 'Office Olympics',
+  type: 'episode',
+  grandparentTitle: 'The Office',
+  parentTitle: 'Season 2',
+  parentIndex: 2,
+  index: 3,
+  thumbPath: '/library/metadata/100/thumb/1700000000',
+  viewedAt: VIEWED_AT,
+  accountId: '1',
+  deviceId: '7',
+};
+
+const TRACK_ENTRY: PlexHistoryEntry = {
+  historyId: '4822',
+  ratingKey: '555',
+  title: 'One More Time',
+  type: 'track',
+  grandparentTitle: 'Daft Punk',
+  parentTitle: 'Discovery',
+  parentIndex: 1,
+  index: 1,
+  viewedAt: VIEWED_AT,
+};
+
+describe('plexHistoryExternalId', () => {
+  it('is derived from the history id', () => {
+    expect(plexHistoryExternalId(EPISODE_ENTRY)).toBe('plexhist-4821');
+  });
+});
+
+describe('transformPlexHistoryEntry', () => {
+  it('ends the session at viewedAt and starts it one runtime earlier', () => {
+    const session = transformPlexHistoryEntry(
+      EPISODE_ENTRY,
+      SERVER_ID,
+      SERVER_USER_ID,
+      { ratingKey: '12345', durationMs: 1_320_000, year: 2005 },
+      { id: '7', name: 'Living Room', platform: 'Roku', clientIdentifier: 'roku-abc' }
+    );
+
+    expect(session).toMatchObject({
+      serverId: SERVER_ID,
+      serverUserId: SERVER_USER_ID,
+      ratingKey: '12345',
+      externalSessionId: 'plexhist-4821',
+      state: 'stopped',
+      mediaType: 'episode',
+      mediaTitle: 'Office Olympics',
+      grandparentTitle: 'The Office',
+      seasonNumber: 2,
+      episodeNumber: 3,
+      year: 2005,
+      durationMs: 1_320_000,
+      totalDurationMs: 1_320_000,
+      watched: true,
+      shortSession: false,
+      ipAddress: '0.0.0.0',
+      playerName: 'Living Room',
+      deviceId: 'roku-abc',
+      artistName: null,
+    });
+    expect(session.stoppedAt).toEqual(new Date(VIEWED_AT * 1000));
+    expect(session.startedAt).toEqual(new Date(VIEWED_AT * 1000 - 1_320_000));
+  });
+
+  it('falls back to a zero-length session when the item no longer exists', () => {
+    const session = transformPlexHistoryEntry(EPISODE_ENTRY, SERVER_ID, SERVER_USER_ID);
+
+    expect(session.durationMs).toBeNull();
+    expect(session.shortSession).toBe(false);
+    expect(session.startedAt).toEqual(session.stoppedAt);
+    expect(session.playerName).toBe('Unknown');
+    expect(session.deviceId).toBeNull();
+  });
+
+  it('maps music metadata for tracks', () => {
+    const session = transformPlexHistoryEntry(TRACK_ENTRY, SERVER_ID, SERVER_USER_ID, {
+      ratingKey: '555',
+      durationMs: 320_000,
+    });
+
+    expect(session).toMatchObject({
+      mediaType: 'track',
+      grandparentTitle: null,
+      seasonNumber: null,
+      artistName: 'Daft Punk',
+      albumName: 'Discovery',
+      trackNumber: 1,
+      discNumber: 1,
+    });
+  });
+});
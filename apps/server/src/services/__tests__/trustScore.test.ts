@@ -0,0 +1,193 @@
+/**
+ * Trust Score Service Tests
+ *
+ * Tests trust score changes and the recovery policy:
+ * - Clamping and capped increases
+ * - Recovery floor and cap
+ * - History recording for applied changes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../db/client.js', () => ({
+  db: {},
+}));
+
+import {
+  applyTrustScoreChange,
+  getRecoveredScore,
+  resolveTrustScore,
+  type TrustRecoveryPolicy,
+} from '../trustScore.js';
+
+const POLICY: TrustRecoveryPolicy = {
+  enabled: true,
+  points: 5,
+  intervalDays: 7,
+  floor: 20,
+  cap: 100,
+};
+
+function createExecutorMock(row: unknown) {
+  const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+  const values = vi.fn().mockResolvedValue(undefined);
+  return {
+    set,
+    values,
+    executor: {
+      select: vi.fn().mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            for: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue(row ? [row] : []),
+            }),
+          }),
+        }),
+      }),
+      update: vi.fn().mockReturnValue({ set }),
+      insert: vi.fn().mockReturnValue({ values }),
+    },
+  };
+}
+
+describe('resolveTrustScore', () => {
+  it('applies a delta and clamps to 0-100', () => {
+    expect(resolveTrustScore(50, { delta: -20 })).toBe(30);
+    expect(resolveTrustScore(10, { delta: -20 })).toBe(0);
+    expect(resolveTrustScore(95, { delta: 20 })).toBe(100);
+  });
+
+  it('sets an absolute score', () => {
+    expect(resolveTrustScore(50, { score: 75 })).toBe(75);
+    expect(resolveTrustScore(50, { score: 150 })).toBe(100);
+  });
+
+  it('caps increases at max', () => {
+    expect(resolveTrustScore(78, { delta: 5, max: 80 })).toBe(80);
+  });
+
+  it('does not lower a score already above max', () => {
+    expect(resolveTrustScore(90, { delta: 5, max: 80 })).toBe(90);
+  });
+
+  it('ignores max for decreases', () => {
+    expect(resolveTrustScore(90, { delta: -5, max: 80 })).toBe(85);
+  });
+});
+
+describe('getRecoveredScore', () => {
+  it('adds the policy points', () => {
+    expect(getRecoveredScore(60, POLICY)).toBe(65);
+  });
+
+  it('stops at the cap', () => {
+    expect(getRecoveredScore(98, POLICY)).toBe(100);
+    expect(getRecoveredScore(78, { ...POLICY, cap: 80 })).toBe(80);
+  });
+
+  it('returns null at or above the cap', () => {
+    expect(getRecoveredScore(100, POLICY)).toBeNull();
+    expect(getRecoveredScore(85, { ...POLICY, cap: 80 })).toBeNull();
+  });
+
+  it('returns null below the floor', () => {
+    expect(getRecoveredScore(19, POLICY)).toBeNull();
+    expect(getRecoveredScore(20, POLICY)).toBe(25);
+  });
+
+  it('returns null when disabled', () => {
+    expect(getRecoveredScore(60, { ...POLICY, enabled: false })).toBeNull();
+  });
+});
+
+describe('applyTrustScoreChange', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('updates the score and records history', async () => {
+    const { executor, set, values } = createExecutorMock({
+      trustScore: 80,
+      serverId: 'server-1',
+      username: 'alice',
+    });
+
+    const change = await applyTrustScoreChange(
+      executor as any,
+      'user-1',
+      { delta: -20 },
+      { source: 'violation', reason: 'Violation: Concurrent streams' }
+    );
+
+    expect(change).toEqual({
+      serverUserId: 'user-1',
+      serverId: 'server-1',
+      username: 'alice',
+      previousScore: 80,
+      newScore: 60,
+      source: 'violation',
+      reason: 'Violation: Concurrent streams',
+    });
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ trustScore: 60 }));
+    expect(values).toHaveBeenCalledWith({
+      serverUserId: 'user-1',
+      previousScore: 80,
+      newScore: 60,
+      source: 'violation',
+      reason: 'Violation: Concurrent streams',
+      changedByUserId: null,
+    });
+  });
+
+  it('records who made a manual change', async () => {
+    const { executor, values } = createExecutorMock({
+      trustScore: 40,
+      serverId: 'server-1',
+      username: 'alice',
+    });
+
+    await applyTrustScoreChange(
+      executor as any,
+      'user-1',
+      { score: 100 },
+      { source: 'manual', reason: 'Set by @owner', changedByUserId: 'owner-1' }
+    );
+
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({ newScore: 100, source: 'manual', changedByUserId: 'owner-1' })
+    );
+  });
+
+  it('returns null without writing when the score does not change', async () => {
+    const { executor } = createExecutorMock({
+      trustScore: 100,
+      serverId: 'server-1',
+      username: 'alice',
+    });
+
+    const change = await applyTrustScoreChange(
+      executor as any,
+      'user-1',
+      { delta: 5 },
+      { source: 'recovery', reason: null }
+    );
+
+    expect(change).toBeNull();
+    expect(executor.update).not.toHaveBeenCalled();
+    expect(executor.insert).not.toHaveBeenCalled();
+  });
+
+  it('returns null for an unknown user', async () => {
+    const { executor } = createExecutorMock(null);
+
+    const change = await applyTrustScoreChange(
+      executor as any,
+      'missing',
+      { delta: -10 },
+      { source: 'violation', reason: null }
+    );
+
+    expect(change).toBeNull();
+    expect(executor.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * JSON webhook delivery tests
+ *
+ * Tests signed, logged webhook delivery:
+ * - HMAC-SHA256 signature and header construction
+ * - Attempt outcome recording (status, latency, response snippet)
+ * - Retry scheduling through the notification queue
+ * - Manual redelivery signed with the destination's secret
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'node:crypto';
+
+const { mockEnqueueWebhookRetry } = vi.hoisted(() => ({
+  mockEnqueueWebhookRetry: vi.fn(),
+}));
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../jobs/notificationQueue.js', () => ({
+  enqueueWebhookRetry: mockEnqueueWebhookRetry,
+}));
+
+import { db } from '../../db/client.js';
+import {
+  attemptWebhookDelivery,
+  buildWebhookHeaders,
+  deliverWebhook,
+  redeliverWebhook,
+  retryWebhookDelivery,
+  signWebhookPayload,
+  type WebhookDeliveryRow,
+} from '../notifications/webhookDelivery.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createDelivery(overrides: Partial<WebhookDeliveryRow> = {}): WebhookDeliveryRow {
+  return {
+    id: 'delivery-1',
+    event: 'server_down',
+    url: 'https://hooks.example.com/tracearr',
+    payload: '{"event":"server_down"}',
+    status: 'pending',
+    attempts: 0,
+    statusCode: null,
+    latencyMs: null,
+    responseSnippet: null,
+    error: null,
+    destinationId: null,
+    redeliveryOf: null,
+    createdAt: new Date(),
+    lastAttemptAt: null,
+    deliveredAt: null,
+    ...overrides,
+  };
+}
+
+const createResponse = (status: number, body = '') => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: vi.fn().mockResolvedValue(body),
+});
+
+let mockSet: ReturnType<typeof vi.fn>;
+let mockValues: ReturnType<typeof vi.fn>;
+
+function mockSelectRows(rows: unknown[]) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(rows),
+      }),
+    }),
+  } as never;
+}
+
+function mockSelectDelivery(rows: WebhookDeliveryRow[], destinationSecret?: string) {
+  vi.mocked(db.select)
+    .mockReturnValueOnce(mockSelectRows(rows))
+    .mockReturnValueOnce(mockSelectRows([{ config: { webhookSecret: destinationSecret } }]));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(db.select).mockReset();
+  mockFetch.mockReset();
+
+  mockSet = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+  vi.mocked(db.update).mockReturnValue({ set: mockSet } as never);
+
+  mockValues = vi.fn((values: Partial<WebhookDeliveryRow>) => ({
+    returning: vi.fn().mockResolvedValue([createDelivery({ id: 'delivery-2', ...values })]),
+  }));
+  vi.mocked(db.insert).mockReturnValue({ values: mockValues } as never);
+});
+
+describe('signWebhookPayload', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 's3cret').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('s3cret', '1700000000', '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe('buildWebhookHeaders', () => {
+  it('omits signature headers without a secret', () => {
+    const headers = buildWebhookHeaders({ body: '{}', event: 'test', secret: null });
+
+    expect(headers).toEqual({
+      'Content-Type': 'application/json',
+      'X-Tracearr-Event': 'test',
+    });
+  });
+
+  it('signs the body with the timestamp header', () => {
+    const headers = buildWebhookHeaders({
+      body: '{"event":"test"}',
+      event: 'test',
+      secret: 's3cret',
+      deliveryId: 'delivery-1',
+    });
+
+    const timestamp = headers['X-Tracearr-Timestamp']!;
+    expect(timestamp).toMatch(/^\d+$/);
+    expect(headers['X-Tracearr-Delivery']).toBe('delivery-1');
+    expect(headers['X-Tracearr-Signature']).toBe(
+      signWebhookPayload('s3cret', timestamp, '{"event":"test"}')
+    );
+  });
+});
+
+describe('attemptWebhookDelivery', () => {
+  it('records a successful attempt', async () => {
+    mockFetch.mockResolvedValueOnce(createResponse(200, 'x'.repeat(600)));
+
+    const result = await attemptWebhookDelivery(createDelivery(), 's3cret', false);
+
+    expect(result).toMatchObject({
+      status: 'success',
+      attempts: 1,
+      statusCode: 200,
+      error: null,
+    });
+    expect(result.responseSnippet).toHaveLength(500);
+    expect(result.deliveredAt).toBeInstanceOf(Date);
+    expect(mockSet).toHaveBeenCalledWith(expect.objectContaining({ status: 'success' }));
+
+    const [url, init] = mockFetch.mock.calls[0]!;
+    expect(url).toBe('https://hooks.example.com/tracearr');
+    expect(init.body).toBe('{"event":"server_down"}');
+    expect(init.headers['X-Tracearr-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+
+  it('marks non-final failures as retrying', async () => {
+    mockFetch.mockResolvedValueOnce(createResponse(503, 'Service Unavailable'));
+
+    const result = await attemptWebhookDelivery(createDelivery({ attempts: 2 }), null, false);
+
+    expect(result).toMatchObject({
+      status: 'retrying',
+      attempts: 3,
+      statusCode: 503,
+      error: 'HTTP 503',
+      responseSnippet: 'Service Unavailable',
+      deliveredAt: null,
+    });
+  });
+
+  it('marks the final failure as failed and keeps network errors', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    const result = await attemptWebhookDelivery(createDelivery(), null, true);
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      statusCode: null,
+      error: 'connect ECONNREFUSED',
+    });
+  });
+});
+
+describe('deliverWebhook', () => {
+  const options = {
+    url: 'https://hooks.example.com/tracearr',
+    event: 'server_up',
+    body: '{"event":"server_up"}',
+    secret: null,
+  };
+
+  it('logs the delivery and does not retry on success', async () => {
+    mockFetch.mockResolvedValueOnce(createResponse(204));
+
+    const result = await deliverWebhook(options);
+
+    expect(mockValues).toHaveBeenCalledWith({
+      url: options.url,
+      event: 'server_up',
+      payload: '{"event":"server_up"}',
+      destinationId: null,
+    });
+    expect(result.status).toBe('success');
+    expect(mockEnqueueWebhookRetry).not.toHaveBeenCalled();
+  });
+
+  it('schedules retries when the first attempt fails', async () => {
+    mockFetch.mockResolvedValueOnce(createResponse(500));
+    mockEnqueueWebhookRetry.mockResolvedValueOnce('job-1');
+
+    const result = await deliverWebhook(options);
+
+    expect(result.status).toBe('retrying');
+    expect(mockEnqueueWebhookRetry).toHaveBeenCalledWith('delivery-2');
+  });
+
+  it('marks the delivery failed when retries cannot be scheduled', async () => {
+    mockFetch.mockResolvedValueOnce(createResponse(500));
+    mockEnqueueWebhookRetry.mockResolvedValueOnce(undefined);
+
+    const result = await deliverWebhook(options);
+
+    expect(result.status).toBe('failed');
+    expect(mockSet).toHaveBeenLastCalledWith({ status: 'failed' });
+  });
+});
+
+describe('retryWebhookDelivery', () => {
+  it('skips deliveries that already succeeded', async () => {
+    mockSelectDelivery([createDelivery({ status: 'success' })]);
+
+    expect(await retryWebhookDelivery('delivery-1', false)).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('attempts a pending retry', async () => {
+    mockSelectDelivery([createDelivery({ status: 'retrying', attempts: 1 })]);
+    mockFetch.mockResolvedValueOnce(createResponse(200));
+
+    const result = await retryWebhookDelivery('delivery-1', false);
+
+    expect(result).toMatchObject({ status: 'success', attempts: 2 });
+    // No destination, so the retry is unsigned
+    expect(mockFetch.mock.calls[0]![1].headers['X-Tracearr-Signature']).toBeUndefined();
+  });
+
+  it('signs the retry with the destination secret', async () => {
+    mockSelectDelivery(
+      [createDelivery({ status: 'retrying', attempts: 1, destinationId: 'destination-1' })],
+      's3cret'
+    );
+    mockFetch.mockResolvedValueOnce(createResponse(200));
+
+    await retryWebhookDelivery('delivery-1', false);
+
+    expect(mockFetch.mock.calls[0]![1].headers['X-Tracearr-Signature']).toMatch(
+      /^sha256=[0-9a-f]{64}$/
+    );
+  });
+});
+
+describe('redeliverWebhook', () => {
+  it('logs a new delivery linked to the original', async () => {
+    mockSelectDelivery(
+      [createDelivery({ status: 'failed', attempts: 6, destinationId: 'destination-1' })],
+      's3cret'
+    );
+    mockFetch.mockResolvedValueOnce(createResponse(500));
+
+    const result = await redeliverWebhook('delivery-1');
+
+    expect(mockValues).toHaveBeenCalledWith({
+      url: 'https://hooks.example.com/tracearr',
+      event: 'server_down',
+      payload: '{"event":"server_down"}',
+      destinationId: 'destination-1',
+      redeliveryOf: 'delivery-1',
+    });
+    expect(mockFetch.mock.calls[0]![1].headers['X-Tracearr-Signature']).toMatch(/^sha256=/);
+    // Manual redeliveries are a single attempt
+    expect(result).toMatchObject({ id: 'delivery-2', status: 'failed', attempts: 1 });
+    expect(mockEnqueueWebhookRetry).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the delivery does not exist', async () => {
+    mockSelectDelivery([]);
+
+    expect(await redeliverWebhook('missing')).toBeNull();
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
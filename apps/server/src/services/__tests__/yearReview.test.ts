@@ -0,0 +1,230 @@
+/**
+ * Year in Review Tests
+ *
+ * Tests the yearly summary:
+ * - Default year and streak detection
+ * - Share token signing and verification
+ * - Stats assembly from query results
+ *
+ * Uses a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    execute: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import {
+  buildYearReviewStats,
+  createYearReviewShareToken,
+  getDefaultReviewYear,
+  getLongestStreak,
+  verifyYearReviewShareToken,
+} from '../yearReview.js';
+
+const SERVER_USER_ID = '4c0a8f6e-2d5b-4f4e-9a51-0c1d2e3f4a5b';
+
+function rows(...items: Record<string, unknown>[]) {
+  return { rows: items } as never;
+}
+
+/**
+ * Queue query results in the order buildYearReviewStats issues them
+ */
+function mockReviewQueries() {
+  vi.mocked(db.execute)
+    .mockResolvedValueOnce(rows({ plays: 120, watch_time_ms: String(150 * 60 * 60 * 1000) }))
+    .mockResolvedValueOnce(
+      rows({
+        title: 'The Office',
+        year: null,
+        plays: 40,
+        watch_time_ms: String(14 * 60 * 60 * 1000),
+      })
+    )
+    .mockResolvedValueOnce(
+      rows({ title: 'Heat', year: 1995, plays: 2, watch_time_ms: String(5.5 * 60 * 60 * 1000) })
+    )
+    .mockResolvedValueOnce(rows())
+    .mockResolvedValueOnce(
+      rows({ day: '2024-01-02' }, { day: '2024-03-10' }, { day: '2024-03-11' })
+    )
+    .mockResolvedValueOnce(rows({ show: 'The Office', day: '2024-03-10', episodes: 7 }))
+    .mockResolvedValueOnce(
+      rows(
+        { dow: 0, hour: 21, plays: 10 },
+        { dow: 1, hour: 21, plays: 4 },
+        { dow: 1, hour: 8, plays: 1 }
+      )
+    )
+    .mockResolvedValueOnce(rows({ name: 'Apple TV', platform: 'tvOS', plays: 90 }))
+    .mockResolvedValueOnce(
+      rows(
+        {
+          position: 'first',
+          media_title: 'Pilot',
+          grandparent_title: 'The Office',
+          artist_name: null,
+          media_type: 'episode',
+          started_at: new Date('2024-01-02T20:00:00Z'),
+        },
+        {
+          position: 'last',
+          media_title: 'Heat',
+          grandparent_title: null,
+          artist_name: null,
+          media_type: 'movie',
+          started_at: new Date('2024-12-30T22:00:00Z'),
+        }
+      )
+    );
+}
+
+describe('yearReview', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('getDefaultReviewYear', () => {
+    it('uses the previous year until December', () => {
+      expect(getDefaultReviewYear(new Date(2025, 0, 10))).toBe(2024);
+      expect(getDefaultReviewYear(new Date(2025, 10, 30))).toBe(2024);
+    });
+
+    it('uses the current year in December', () => {
+      expect(getDefaultReviewYear(new Date(2025, 11, 1))).toBe(2025);
+    });
+  });
+
+  describe('getLongestStreak', () => {
+    it('finds the longest run of consecutive days', () => {
+      expect(
+        getLongestStreak([
+          '2024-01-01',
+          '2024-01-02',
+          '2024-01-05',
+          '2024-01-06',
+          '2024-01-07',
+          '2024-01-09',
+        ])
+      ).toEqual({ days: 3, start: '2024-01-05', end: '2024-01-07' });
+    });
+
+    it('counts runs across month boundaries', () => {
+      expect(getLongestStreak(['2024-02-28', '2024-02-29', '2024-03-01'])).toEqual({
+        days: 3,
+        start: '2024-02-28',
+        end: '2024-03-01',
+      });
+    });
+
+    it('keeps the earliest of equally long runs', () => {
+      expect(getLongestStreak(['2024-01-01', '2024-01-03'])).toEqual({
+        days: 1,
+        start: '2024-01-01',
+        end: '2024-01-01',
+      });
+    });
+
+    it('returns null without active days', () => {
+      expect(getLongestStreak([])).toBeNull();
+    });
+  });
+
+  describe('share tokens', () => {
+    it('round-trips the user and year', () => {
+      const token = createYearReviewShareToken(SERVER_USER_ID, 2024);
+
+      expect(verifyYearReviewShareToken(token)).toEqual({
+        serverUserId: SERVER_USER_ID,
+        year: 2024,
+      });
+    });
+
+    it('rejects a tampered payload', () => {
+      const [, signature] = createYearReviewShareToken(SERVER_USER_ID, 2024).split('.');
+      const payload = Buffer.from(`${SERVER_USER_ID}:2023`).toString('base64url');
+
+      expect(verifyYearReviewShareToken(`${payload}.${signature}`)).toBeNull();
+    });
+
+    it('rejects malformed tokens', () => {
+      expect(verifyYearReviewShareToken('')).toBeNull();
+      expect(verifyYearReviewShareToken('abc')).toBeNull();
+      expect(verifyYearReviewShareToken('a.b.c')).toBeNull();
+    });
+  });
+
+  describe('buildYearReviewStats', () => {
+    it('maps query results into the review', async () => {
+      mockReviewQueries();
+
+      const stats = await buildYearReviewStats(SERVER_USER_ID, 2024, 'Europe/Berlin');
+
+      expect(db.execute).toHaveBeenCalledTimes(9);
+      expect(stats).toMatchObject({
+        year: 2024,
+        timezone: 'Europe/Berlin',
+        totalHours: 150,
+        totalPlays: 120,
+        activeDays: 3,
+        topShows: [{ title: 'The Office', year: null, plays: 40, hours: 14 }],
+        topMovies: [{ title: 'Heat', year: 1995, plays: 2, hours: 5.5 }],
+        topArtists: [],
+        longestStreak: { days: 2, start: '2024-03-10', end: '2024-03-11' },
+        biggestBinge: { show: 'The Office', episodes: 7, date: '2024-03-10' },
+        favoriteHour: 21,
+        favoriteDay: 0,
+        devices: [{ name: 'Apple TV', platform: 'tvOS', plays: 90 }],
+        firstPlay: {
+          title: 'The Office - Pilot',
+          mediaType: 'episode',
+          at: '2024-01-02T20:00:00.000Z',
+        },
+        lastPlay: { title: 'Heat', mediaType: 'movie', at: '2024-12-30T22:00:00.000Z' },
+      });
+      expect(stats.playsByHour[21]).toBe(14);
+      expect(stats.playsByDay[1]).toBe(5);
+    });
+
+    it('returns empty stats for a year without plays', async () => {
+      vi.mocked(db.execute).mockResolvedValue(rows());
+
+      const stats = await buildYearReviewStats(SERVER_USER_ID, 2024);
+
+      expect(stats).toMatchObject({
+        timezone: 'UTC',
+        totalHours: 0,
+        totalPlays: 0,
+        activeDays: 0,
+        longestStreak: null,
+        biggestBinge: null,
+        favoriteHour: null,
+        favoriteDay: null,
+        firstPlay: null,
+        lastPlay: null,
+      });
+      expect(stats.playsByHour).toHaveLength(24);
+      expect(stats.playsByDay).toHaveLength(7);
+    });
+
+    it('does not count a single episode as a binge', async () => {
+      vi.mocked(db.execute).mockResolvedValue(rows());
+      vi.mocked(db.execute)
+        .mockResolvedValueOnce(rows())
+        .mockResolvedValueOnce(rows())
+        .mockResolvedValueOnce(rows())
+        .mockResolvedValueOnce(rows())
+        .mockResolvedValueOnce(rows())
+        .mockResolvedValueOnce(rows({ show: 'The Office', day: '2024-03-10', episodes: 1 }));
+
+      const stats = await buildYearReviewStats(SERVER_USER_ID, 2024);
+
+      expect(stats.biggestBinge).toBeNull();
+    });
+  });
+});
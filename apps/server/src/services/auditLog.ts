@@ -0,0 +1,148 @@
+/**
+ * Audit Log Service
+ *
+ * Records administrative actions (who did what to which target, from where)
+ * in the append-only audit_log table. Recording never fails the action being
+ * audited: errors are logged and swallowed.
+ */
+
+import type { FastifyRequest } from 'fastify';
+import { and, desc, eq, gte, lte, sql, type SQL } from 'drizzle-orm';
+import type {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogQueryInput,
+  AuditTargetType,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { auditLog } from '../db/schema.js';
+
+export interface AuditActor {
+  userId: string | null;
+  username: string;
+  /** Public API key the action was made with */
+  apiKeyName: string | null;
+  ipAddress: string | null;
+}
+
+export interface AuditEvent {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  /** State before the action (omit for creations) */
+  before?: Record<string, unknown> | null;
+  /** State after the action (omit for deletions) */
+  after?: Record<string, unknown> | null;
+}
+
+export type AuditLogFilters = Omit<AuditLogQueryInput, 'page' | 'pageSize'>;
+
+/**
+ * Actor for an authenticated dashboard or public API request
+ */
+export function getAuditActor(request: FastifyRequest): AuditActor {
+  const apiContext = request.publicApiContext;
+  if (apiContext) {
+    return {
+      userId: apiContext.userId,
+      username: apiContext.username,
+      apiKeyName: apiContext.keyName,
+      ipAddress: request.ip || null,
+    };
+  }
+  return {
+    userId: request.user.userId,
+    username: request.user.username,
+    apiKeyName: null,
+    ipAddress: request.ip || null,
+  };
+}
+
+/**
+ * Reduce before/after snapshots to the fields that changed
+ *
+ * Creations and deletions keep their full snapshot on the side that exists.
+ */
+export function diffAuditState(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  if (!before || !after) {
+    return { before: before ?? null, after: after ?? null };
+  }
+
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Record one or more audit events for the request's user (or API key)
+ */
+export async function recordAudit(
+  request: FastifyRequest,
+  events: AuditEvent | AuditEvent[]
+): Promise<void> {
+  const list = Array.isArray(events) ? events : [events];
+  if (list.length === 0) return;
+
+  const actor = getAuditActor(request);
+  try {
+    await db.insert(auditLog).values(
+      list.map((event) => ({
+        actorUserId: actor.userId,
+        actorUsername: actor.username,
+        apiKeyName: actor.apiKeyName,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId ?? null,
+        targetLabel: event.targetLabel ?? null,
+        ...diffAuditState(event.before, event.after),
+        ipAddress: actor.ipAddress,
+      }))
+    );
+  } catch (error) {
+    request.log.error({ error, actions: list.map((e) => e.action) }, 'Failed to record audit log');
+  }
+}
+
+/**
+ * List audit entries (newest first) with their total count
+ */
+export async function listAuditLog(
+  filters: AuditLogFilters,
+  page: number,
+  pageSize: number
+): Promise<{ data: AuditLogEntry[]; total: number }> {
+  const conditions: SQL[] = [];
+  if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+  if (filters.targetType) conditions.push(eq(auditLog.targetType, filters.targetType));
+  if (filters.targetId) conditions.push(eq(auditLog.targetId, filters.targetId));
+  if (filters.actorUserId) conditions.push(eq(auditLog.actorUserId, filters.actorUserId));
+  if (filters.startDate) conditions.push(gte(auditLog.createdAt, filters.startDate));
+  if (filters.endDate) conditions.push(lte(auditLog.createdAt, filters.endDate));
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, countResult] = await Promise.all([
+    db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditLog)
+      .where(where),
+  ]);
+
+  return { data: rows, total: countResult[0]?.count ?? 0 };
+}
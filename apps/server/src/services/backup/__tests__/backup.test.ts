@@ -0,0 +1,271 @@
+/**
+ * Backup Module Tests
+ *
+ * Covers the pure parts of export/restore:
+ * - Tar entry writing and streaming reads
+ * - Row serialization (credential removal) and deserialization
+ * - Foreign key remapping
+ * - Manifest validation, NDJSON chunk parsing and server matching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../db/client.js', () => ({
+  db: {},
+}));
+
+vi.mock('../../import/aggregateRefresh.js', () => ({
+  refreshAggregatesAfterImport: vi.fn(),
+}));
+
+import { createTarEntry, readTarEntries, TAR_END } from '../archive.js';
+import {
+  getBackupTable,
+  serializeBackupRow,
+  deserializeBackupRow,
+  remapBackupRow,
+  type BackupIdMap,
+} from '../tables.js';
+import { backupChunkName, createBackupManifest } from '../export.js';
+import { parseBackupManifest, parseBackupChunk, matchBackupServer } from '../restore.js';
+
+/**
+ * Yield a buffer in fixed-size pieces, like a file or gunzip stream would
+ */
+async function* chunked(data: Buffer, size: number): AsyncGenerator<Buffer> {
+  for (let offset = 0; offset < data.length; offset += size) {
+    yield data.subarray(offset, offset + size);
+  }
+}
+
+async function collect(source: AsyncIterable<Buffer>) {
+  const entries: { name: string; data: string }[] = [];
+  for await (const entry of readTarEntries(source)) {
+    entries.push({ name: entry.name, data: entry.data.toString('utf8') });
+  }
+  return entries;
+}
+
+function emptyMaps(): Record<BackupIdMap, Map<string, string>> {
+  return {
+    servers: new Map(),
+    users: new Map(),
+    serverUsers: new Map(),
+    rules: new Map(),
+    violations: new Map(),
+  };
+}
+
+describe('tar archive', () => {
+  it('pads entries to 512-byte blocks', () => {
+    expect(createTarEntry('a.txt', Buffer.from('hello')).length).toBe(1024);
+    expect(createTarEntry('b.txt', Buffer.alloc(512)).length).toBe(1024);
+    expect(createTarEntry('c.txt', Buffer.alloc(0)).length).toBe(512);
+  });
+
+  it('writes a valid header checksum', () => {
+    const header = createTarEntry('a.txt', Buffer.from('hello')).subarray(0, 512);
+    const stored = parseInt(header.subarray(148, 154).toString('utf8'), 8);
+
+    let expected = 0;
+    for (let i = 0; i < 512; i++) {
+      expected += i >= 148 && i < 156 ? 0x20 : header[i]!;
+    }
+
+    expect(stored).toBe(expected);
+    expect(header.subarray(257, 262).toString('utf8')).toBe('ustar');
+  });
+
+  it('rejects names longer than 100 bytes', () => {
+    expect(() => createTarEntry('x'.repeat(101), Buffer.alloc(0))).toThrow(/too long/);
+  });
+
+  it('round-trips entries across arbitrary stream chunk boundaries', async () => {
+    const archive = Buffer.concat([
+      createTarEntry('manifest.json', Buffer.from('{"a":1}')),
+      createTarEntry('sessions/000001.ndjson', Buffer.from('x'.repeat(1500))),
+      createTarEntry('empty.txt', Buffer.alloc(0)),
+      TAR_END,
+    ]);
+
+    for (const size of [1, 100, 512, 4096, archive.length]) {
+      expect(await collect(chunked(archive, size))).toEqual([
+        { name: 'manifest.json', data: '{"a":1}' },
+        { name: 'sessions/000001.ndjson', data: 'x'.repeat(1500) },
+        { name: 'empty.txt', data: '' },
+      ]);
+    }
+  });
+
+  it('tolerates a missing end-of-archive marker', async () => {
+    const archive = createTarEntry('a.txt', Buffer.from('hello'));
+    expect(await collect(chunked(archive, 64))).toEqual([{ name: 'a.txt', data: 'hello' }]);
+  });
+
+  it('throws on a truncated entry', async () => {
+    const archive = createTarEntry('a.txt', Buffer.alloc(2000)).subarray(0, 1000);
+    await expect(collect(chunked(archive, 256))).rejects.toThrow(/truncated/);
+  });
+});
+
+describe('backup tables', () => {
+  it('removes credentials on export', () => {
+    const servers = getBackupTable('servers')!;
+    const row = serializeBackupRow(servers, {
+      id: 's1',
+      name: 'Plex',
+      token: 'encrypted',
+      webhookSecret: 'secret',
+    });
+    expect(row).toEqual({ id: 's1', name: 'Plex' });
+
+    const users = getBackupTable('users')!;
+    expect(serializeBackupRow(users, { id: 'u1', passwordHash: 'hash' })).toEqual({ id: 'u1' });
+
+    const settings = getBackupTable('settings')!;
+    expect(
+      serializeBackupRow(settings, {
+        id: 1,
+        tautulliApiKey: 'api-key',
+        oidcClientId: 'tracearr',
+        oidcClientSecret: 'client-secret',
+      })
+    ).toEqual({ id: 1, oidcClientId: 'tracearr' });
+  });
+
+  it('drops unknown and omitted columns and revives timestamps on restore', () => {
+    const sessions = getBackupTable('sessions')!;
+    const values = deserializeBackupRow(sessions, {
+      id: 'a',
+      startedAt: '2024-03-10T20:15:00.000Z',
+      stoppedAt: null,
+      mediaTitle: 'Heat',
+      columnFromTheFuture: 1,
+    });
+
+    expect(values).toEqual({
+      id: 'a',
+      startedAt: new Date('2024-03-10T20:15:00.000Z'),
+      stoppedAt: null,
+      mediaTitle: 'Heat',
+    });
+
+    const settings = getBackupTable('settings')!;
+    expect(
+      deserializeBackupRow(settings, { id: 1, tautulliApiKey: 'x', oidcClientSecret: 'y' })
+    ).toEqual({ id: 1 });
+  });
+
+  it('remaps foreign keys and skips rows whose parents were not restored', () => {
+    const sessions = getBackupTable('sessions')!;
+    const maps = emptyMaps();
+    maps.servers.set('old-server', 'new-server');
+    maps.serverUsers.set('old-su', 'new-su');
+
+    expect(
+      remapBackupRow(sessions, { id: 'a', serverId: 'old-server', serverUserId: 'old-su' }, maps)
+    ).toEqual({ id: 'a', serverId: 'new-server', serverUserId: 'new-su' });
+
+    expect(
+      remapBackupRow(sessions, { id: 'a', serverId: 'other', serverUserId: 'old-su' }, maps)
+    ).toBeNull();
+  });
+
+  it('clears optional references instead of skipping', () => {
+    const terminationLogs = getBackupTable('termination_logs')!;
+    const maps = emptyMaps();
+    maps.servers.set('s', 's');
+    maps.serverUsers.set('su', 'su');
+
+    expect(
+      remapBackupRow(
+        terminationLogs,
+        { serverId: 's', serverUserId: 'su', ruleId: 'gone', triggeredByUserId: null },
+        maps
+      )
+    ).toEqual({ serverId: 's', serverUserId: 'su', ruleId: null, triggeredByUserId: null });
+  });
+
+  it('never widens a scoped rule to all servers', () => {
+    const rules = getBackupTable('rules')!;
+    expect(remapBackupRow(rules, { id: 'r', serverId: 'unmatched' }, emptyMaps())).toBeNull();
+    expect(remapBackupRow(rules, { id: 'r', serverId: null }, emptyMaps())).toEqual({
+      id: 'r',
+      serverId: null,
+    });
+  });
+});
+
+describe('parseBackupManifest', () => {
+  it('accepts manifests written by the exporter', () => {
+    const manifest = createBackupManifest();
+    expect(parseBackupManifest('manifest.json', Buffer.from(JSON.stringify(manifest)))).toEqual(
+      manifest
+    );
+    expect(manifest.tables.indexOf('server_users')).toBeLessThan(manifest.tables.indexOf('users'));
+  });
+
+  it('rejects archives that do not start with a manifest', () => {
+    expect(() => parseBackupManifest(backupChunkName('sessions', 1), Buffer.from('{}'))).toThrow(
+      /must be the first entry/
+    );
+  });
+
+  it('rejects foreign and newer manifests', () => {
+    expect(() => parseBackupManifest('manifest.json', Buffer.from('not json'))).toThrow(
+      /not valid JSON/
+    );
+    expect(() =>
+      parseBackupManifest('manifest.json', Buffer.from('{"format":"other","version":1}'))
+    ).toThrow(/unrecognized manifest/);
+    expect(() =>
+      parseBackupManifest('manifest.json', Buffer.from('{"format":"tracearr-backup","version":99}'))
+    ).toThrow(/newer than this Tracearr supports/);
+  });
+});
+
+describe('parseBackupChunk', () => {
+  it('parses NDJSON rows and counts bad lines', () => {
+    const { rows, errors } = parseBackupChunk(Buffer.from('{"id":1}\n\nnot json\n[1]\n{"id":2}\n'));
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(errors).toBe(2);
+  });
+});
+
+describe('matchBackupServer', () => {
+  const existing = [
+    {
+      id: 'plex-1',
+      name: 'Home',
+      type: 'plex',
+      url: 'http://plex.local:32400',
+      machineIdentifier: 'abc',
+    },
+    {
+      id: 'jf-1',
+      name: 'Home',
+      type: 'jellyfin',
+      url: 'http://jf.local:8096',
+      machineIdentifier: null,
+    },
+    { id: 'jf-2', name: 'Dupe', type: 'jellyfin', url: 'http://a', machineIdentifier: null },
+    { id: 'jf-3', name: 'Dupe', type: 'jellyfin', url: 'http://b', machineIdentifier: null },
+  ];
+
+  it('matches by id, machine identifier, then URL', () => {
+    expect(matchBackupServer({ id: 'jf-1' }, existing)?.id).toBe('jf-1');
+    expect(matchBackupServer({ id: 'x', machineIdentifier: 'abc' }, existing)?.id).toBe('plex-1');
+    expect(
+      matchBackupServer({ id: 'x', type: 'jellyfin', url: 'HTTP://jf.local:8096/' }, existing)?.id
+    ).toBe('jf-1');
+  });
+
+  it('only matches by name when the name is unambiguous', () => {
+    expect(
+      matchBackupServer({ id: 'x', type: 'plex', name: 'Home', url: 'http://new' }, existing)?.id
+    ).toBe('plex-1');
+    expect(
+      matchBackupServer({ id: 'x', type: 'jellyfin', name: 'Dupe', url: 'http://new' }, existing)
+    ).toBeUndefined();
+  });
+});
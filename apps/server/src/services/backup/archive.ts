@@ -0,0 +1,121 @@
+/**
+ * Tar Archive Module
+ *
+ * Minimal ustar writer/reader for backup archives. Entries are small NDJSON
+ * chunks built in memory, so each entry's size is known before its header is
+ * written and the archive can be streamed without temporary files.
+ */
+
+const BLOCK_SIZE = 512;
+
+/** Largest single entry the reader accepts (export chunks are far smaller) */
+const MAX_ENTRY_SIZE = 256 * 1024 * 1024;
+
+/** Two zero blocks terminate a tar archive */
+export const TAR_END = Buffer.alloc(BLOCK_SIZE * 2);
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  // Zero-padded octal followed by a NUL terminator
+  writeString(header, value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const raw = header.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function paddingFor(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+/**
+ * Build a complete tar entry (header, data, padding) for a regular file
+ *
+ * @param name - Path inside the archive (max 100 bytes)
+ */
+export function createTarEntry(name: string, data: Buffer, mtime = new Date()): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Tar entry name too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, data.length, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.fill(0x20, 148, 156); // checksum is computed with its own field as spaces
+  header.write('0', 156, 'utf8'); // regular file
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+
+  return Buffer.concat([header, data, Buffer.alloc(paddingFor(data.length))]);
+}
+
+/**
+ * Read regular-file entries from a tar byte stream
+ *
+ * Directory, link and extended header entries are skipped.
+ */
+export async function* readTarEntries(source: AsyncIterable<Buffer>): AsyncGenerator<TarEntry> {
+  const chunks: Buffer[] = [];
+  let buffered = 0;
+  const iterator = source[Symbol.asyncIterator]();
+
+  // Wait until at least `size` bytes are buffered, then remove and return them
+  const take = async (size: number): Promise<Buffer | null> => {
+    while (buffered < size) {
+      const next = await iterator.next();
+      if (next.done) return null;
+      chunks.push(next.value);
+      buffered += next.value.length;
+    }
+    const all = chunks.length === 1 ? chunks[0]! : Buffer.concat(chunks);
+    chunks.length = 0;
+    const rest = all.subarray(size);
+    if (rest.length > 0) chunks.push(rest);
+    buffered = rest.length;
+    return all.subarray(0, size);
+  };
+
+  for (;;) {
+    const header = await take(BLOCK_SIZE);
+    // Missing end-of-archive blocks are tolerated
+    if (!header || header.every((byte) => byte === 0)) return;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    if (!Number.isFinite(size) || size < 0 || size > MAX_ENTRY_SIZE) {
+      throw new Error('Invalid or oversized tar entry');
+    }
+
+    const prefix = readString(header, 345, 155);
+    const baseName = readString(header, 0, 100);
+    const name = prefix ? `${prefix}/${baseName}` : baseName;
+    const type = String.fromCharCode(header[156]!);
+
+    const body = await take(size + paddingFor(size));
+    if (!body) {
+      throw new Error(`Archive is truncated (entry ${name})`);
+    }
+
+    // '0' and NUL both denote regular files
+    if (type === '0' || type === '\0') {
+      yield { name, data: Buffer.from(body.subarray(0, size)) };
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Backup Export Module
+ *
+ * Streams the database into a gzipped tar archive:
+ * - manifest.json first, so restore can validate before reading any rows
+ * - one directory per table holding NDJSON chunks (sessions/000001.ndjson, ...)
+ *
+ * Tables are read with keyset pagination on id, so memory use stays flat
+ * regardless of history size.
+ */
+
+import { Readable } from 'node:stream';
+import { createGzip } from 'node:zlib';
+import { asc, gt, getTableColumns, type SQL } from 'drizzle-orm';
+import type { BackupManifest } from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { createTarEntry, TAR_END } from './archive.js';
+import { BACKUP_TABLES, serializeBackupRow, type BackupTable } from './tables.js';
+
+/** Archive format version - bump when the layout changes incompatibly */
+export const BACKUP_FORMAT_VERSION = 1;
+
+export const BACKUP_MANIFEST_NAME = 'manifest.json';
+
+const EXPORT_CHUNK_SIZE = 5000;
+
+/**
+ * Build the archive path for a table chunk
+ */
+export function backupChunkName(tableName: string, index: number): string {
+  return `${tableName}/${String(index).padStart(6, '0')}.ndjson`;
+}
+
+/**
+ * Build the manifest for a new backup
+ */
+export function createBackupManifest(): BackupManifest {
+  return {
+    format: 'tracearr-backup',
+    version: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    appVersion: process.env.APP_VERSION ?? '0.0.0',
+    tables: BACKUP_TABLES.map((t) => t.name),
+  };
+}
+
+/**
+ * Read a table in id order, one chunk of rows at a time
+ */
+async function* readTableChunks(def: BackupTable): AsyncGenerator<Record<string, unknown>[]> {
+  const idColumn = getTableColumns(def.table).id!;
+  let lastId: unknown = null;
+
+  for (;;) {
+    const where: SQL | undefined = lastId === null ? undefined : gt(idColumn, lastId);
+    const rows = (await db
+      .select()
+      .from(def.table)
+      .where(where)
+      .orderBy(asc(idColumn))
+      .limit(EXPORT_CHUNK_SIZE)) as Record<string, unknown>[];
+
+    if (rows.length === 0) return;
+    yield rows;
+
+    if (rows.length < EXPORT_CHUNK_SIZE) return;
+    lastId = rows[rows.length - 1]!.id;
+  }
+}
+
+/**
+ * Generate the uncompressed tar archive
+ */
+export async function* generateBackupArchive(): AsyncGenerator<Buffer> {
+  const createdAt = new Date();
+  const manifest = createBackupManifest();
+
+  yield createTarEntry(BACKUP_MANIFEST_NAME, Buffer.from(JSON.stringify(manifest)), createdAt);
+
+  for (const def of BACKUP_TABLES) {
+    let index = 0;
+    for await (const rows of readTableChunks(def)) {
+      index++;
+      const ndjson = rows.map((row) => JSON.stringify(serializeBackupRow(def, row))).join('\n');
+      yield createTarEntry(backupChunkName(def.name, index), Buffer.from(ndjson + '\n'), createdAt);
+    }
+  }
+
+  yield TAR_END;
+}
+
+/**
+ * Create a gzipped backup stream suitable for an HTTP response
+ */
+export function createBackupStream(): Readable {
+  const gzip = createGzip();
+  const source = Readable.from(generateBackupArchive());
+
+  source.on('error', (err) => {
+    console.error('[Backup] Export failed:', err);
+    gzip.destroy(err);
+  });
+
+  return source.pipe(gzip);
+}
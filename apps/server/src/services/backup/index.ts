@@ -0,0 +1,17 @@
+/**
+ * Backup Module
+ *
+ * Full data export (streamed .tar.gz of NDJSON chunks) and restore.
+ * Used by the backup routes and the restore queue.
+ */
+
+export {
+  BACKUP_FORMAT_VERSION,
+  createBackupManifest,
+  createBackupStream,
+  generateBackupArchive,
+} from './export.js';
+
+export { restoreBackup, type RestoreOptions } from './restore.js';
+
+export { BACKUP_TABLES, type BackupTable } from './tables.js';
@@ -0,0 +1,627 @@
+/**
+ * Backup Restore Module
+ *
+ * Restores a backup archive produced by the export module into this database.
+ *
+ * Servers are never created: credentials are not part of a backup, so each
+ * archived server is matched to a server already configured here (by id,
+ * machine identifier, URL or name). Data for unmatched servers is skipped.
+ *
+ * Identities are matched before anything is inserted - first through their
+ * server accounts, then by id, email and Plex account - so restoring onto a
+ * fresh install that has already synced its servers does not duplicate users.
+ * Every other row keeps its archived id, which makes re-running a restore safe.
+ */
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { createGunzip } from 'node:zlib';
+import { and, eq, inArray, sql, getTableColumns, type SQL } from 'drizzle-orm';
+import type {
+  BackupConflictStrategy,
+  BackupManifest,
+  BackupRestoreProgress,
+  BackupRestoreResult,
+  BackupTableRestoreStats,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { servers, users, serverUsers } from '../../db/schema.js';
+import { refreshAggregatesAfterImport } from '../import/aggregateRefresh.js';
+import { readTarEntries } from './archive.js';
+import { BACKUP_FORMAT_VERSION, BACKUP_MANIFEST_NAME } from './export.js';
+import {
+  getBackupTable,
+  deserializeBackupRow,
+  remapBackupRow,
+  type BackupIdMap,
+  type BackupTable,
+} from './tables.js';
+
+/** Rows per insert statement (sessions have ~70 columns; Postgres allows 65535 parameters) */
+const INSERT_BATCH_SIZE = 500;
+
+const PROGRESS_INTERVAL_MS = 1000;
+
+export interface RestoreOptions {
+  conflictStrategy: BackupConflictStrategy;
+}
+
+type Row = Record<string, unknown>;
+
+interface ExistingServer {
+  id: string;
+  name: string;
+  type: string;
+  url: string;
+  machineIdentifier: string | null;
+}
+
+interface RestoreContext {
+  strategy: BackupConflictStrategy;
+  maps: Record<BackupIdMap, Map<string, string>>;
+  stats: Record<string, BackupTableRestoreStats>;
+  unmatchedServers: BackupRestoreResult['unmatchedServers'];
+  existingServers: ExistingServer[];
+  /** Server accounts waiting for their identity to be restored */
+  pendingServerUsers: Row[];
+  serverUsersFlushed: boolean;
+  minStartedAt: Date | null;
+  maxStartedAt: Date | null;
+}
+
+/**
+ * Validate the archive manifest
+ *
+ * @throws Error when the entry is not a Tracearr backup manifest this version can read
+ */
+export function parseBackupManifest(name: string, data: Buffer): BackupManifest {
+  if (name !== BACKUP_MANIFEST_NAME) {
+    throw new Error('Not a Tracearr backup: manifest.json must be the first entry');
+  }
+
+  let manifest: Partial<BackupManifest>;
+  try {
+    manifest = JSON.parse(data.toString('utf8')) as Partial<BackupManifest>;
+  } catch {
+    throw new Error('Not a Tracearr backup: manifest.json is not valid JSON');
+  }
+
+  if (manifest.format !== 'tracearr-backup' || typeof manifest.version !== 'number') {
+    throw new Error('Not a Tracearr backup: unrecognized manifest');
+  }
+  if (manifest.version > BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      `Backup format version ${manifest.version} is newer than this Tracearr supports (${BACKUP_FORMAT_VERSION}). Update Tracearr and try again.`
+    );
+  }
+
+  return manifest as BackupManifest;
+}
+
+/**
+ * Parse an NDJSON chunk, counting lines that are not JSON objects
+ */
+export function parseBackupChunk(data: Buffer): { rows: Row[]; errors: number } {
+  const rows: Row[] = [];
+  let errors = 0;
+
+  for (const line of data.toString('utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        rows.push(parsed as Row);
+      } else {
+        errors++;
+      }
+    } catch {
+      errors++;
+    }
+  }
+
+  return { rows, errors };
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Find the configured server an archived server corresponds to
+ */
+export function matchBackupServer(
+  archived: Row,
+  existing: ExistingServer[]
+): ExistingServer | undefined {
+  const byId = existing.find((s) => s.id === archived.id);
+  if (byId) return byId;
+
+  if (typeof archived.machineIdentifier === 'string' && archived.machineIdentifier) {
+    const byMachine = existing.find((s) => s.machineIdentifier === archived.machineIdentifier);
+    if (byMachine) return byMachine;
+  }
+
+  if (typeof archived.url === 'string') {
+    const url = normalizeUrl(archived.url);
+    const byUrl = existing.find((s) => s.type === archived.type && normalizeUrl(s.url) === url);
+    if (byUrl) return byUrl;
+  }
+
+  // Name is only trusted when it is unambiguous
+  const byName = existing.filter((s) => s.type === archived.type && s.name === archived.name);
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+function getStats(ctx: RestoreContext, table: string): BackupTableRestoreStats {
+  ctx.stats[table] ??= { restored: 0, matched: 0, skipped: 0, errors: 0 };
+  return ctx.stats[table];
+}
+
+/**
+ * Build the ON CONFLICT DO UPDATE set clause from the columns present in a batch
+ */
+function buildOverwriteSet(def: BackupTable, sample: Row): Record<string, SQL> {
+  const columns = getTableColumns(def.table);
+  const targets = new Set(def.conflictTarget.map((c) => c.name));
+  const set: Record<string, SQL> = {};
+
+  for (const key of Object.keys(sample)) {
+    const column = columns[key];
+    if (!column || targets.has(column.name)) continue;
+    set[key] = sql.raw(`excluded."${column.name}"`);
+  }
+
+  return set;
+}
+
+async function insertRows(ctx: RestoreContext, def: BackupTable, rows: Row[]): Promise<string[]> {
+  const idColumn = getTableColumns(def.table).id!;
+  const query = db.insert(def.table).values(rows);
+  const set = buildOverwriteSet(def, rows[0]!);
+
+  const result =
+    ctx.strategy === 'overwrite' && Object.keys(set).length > 0
+      ? await query
+          .onConflictDoUpdate({ target: def.conflictTarget, set })
+          .returning({ id: idColumn })
+      : await query.onConflictDoNothing().returning({ id: idColumn });
+
+  return result.map((r) => String(r.id));
+}
+
+/**
+ * Insert a batch, falling back to row-by-row inserts so one bad row does not
+ * lose the whole batch
+ */
+async function insertBatch(ctx: RestoreContext, def: BackupTable, rows: Row[]): Promise<void> {
+  const stats = getStats(ctx, def.name);
+
+  try {
+    const insertedIds = await insertRows(ctx, def, rows);
+    stats.restored += insertedIds.length;
+    stats.skipped += rows.length - insertedIds.length;
+  } catch (batchError) {
+    console.warn(`[Restore] Batch insert into ${def.name} failed, retrying rows:`, batchError);
+    for (const row of rows) {
+      try {
+        const ids = await insertRows(ctx, def, [row]);
+        if (ids.length > 0) stats.restored++;
+        else stats.skipped++;
+      } catch (rowError) {
+        stats.errors++;
+        console.warn(`[Restore] Failed to restore ${def.name} row ${String(row.id)}:`, rowError);
+      }
+    }
+  }
+
+  if (def.trackIds) {
+    // Rows skipped on conflict already exist with the same id and stay referenceable
+    const idColumn = getTableColumns(def.table).id!;
+    const ids = rows.map((r) => r.id).filter((id): id is string => typeof id === 'string');
+    if (ids.length > 0) {
+      const existing = await db
+        .select({ id: idColumn })
+        .from(def.table)
+        .where(inArray(idColumn, ids));
+      for (const { id } of existing) {
+        ctx.maps[def.trackIds].set(String(id), String(id));
+      }
+    }
+  }
+
+  if (def.name === 'sessions') {
+    for (const row of rows) {
+      const startedAt = row.startedAt;
+      if (!(startedAt instanceof Date) || Number.isNaN(startedAt.getTime())) continue;
+      if (!ctx.minStartedAt || startedAt < ctx.minStartedAt) ctx.minStartedAt = startedAt;
+      if (!ctx.maxStartedAt || startedAt > ctx.maxStartedAt) ctx.maxStartedAt = startedAt;
+    }
+  }
+}
+
+/**
+ * Restore a chunk of a table with no special matching rules
+ */
+async function restoreGenericRows(
+  ctx: RestoreContext,
+  def: BackupTable,
+  rows: Row[]
+): Promise<void> {
+  const stats = getStats(ctx, def.name);
+  const values: Row[] = [];
+
+  for (const row of rows) {
+    const remapped = remapBackupRow(def, deserializeBackupRow(def, row), ctx.maps);
+    if (remapped) {
+      values.push(remapped);
+    } else {
+      stats.skipped++;
+    }
+  }
+
+  for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+    await insertBatch(ctx, def, values.slice(i, i + INSERT_BATCH_SIZE));
+  }
+}
+
+function restoreServers(ctx: RestoreContext, rows: Row[]): void {
+  const stats = getStats(ctx, 'servers');
+
+  for (const row of rows) {
+    const match = matchBackupServer(row, ctx.existingServers);
+    if (match) {
+      ctx.maps.servers.set(String(row.id), match.id);
+      stats.matched++;
+    } else {
+      ctx.unmatchedServers.push({
+        name: String(row.name ?? ''),
+        type: String(row.type ?? ''),
+        url: String(row.url ?? ''),
+      });
+      stats.skipped++;
+    }
+  }
+}
+
+/**
+ * Match archived server accounts to existing ones; the rest wait for their identity
+ */
+async function restoreServerUsers(ctx: RestoreContext, rows: Row[]): Promise<void> {
+  const stats = getStats(ctx, 'server_users');
+  const candidates: Row[] = [];
+
+  for (const row of rows) {
+    const serverId = ctx.maps.servers.get(String(row.serverId));
+    if (!serverId || typeof row.externalId !== 'string') {
+      stats.skipped++;
+      continue;
+    }
+    candidates.push({ ...row, serverId });
+  }
+
+  for (const serverId of new Set(candidates.map((r) => r.serverId as string))) {
+    const forServer = candidates.filter((r) => r.serverId === serverId);
+    const existing = await db
+      .select({
+        id: serverUsers.id,
+        userId: serverUsers.userId,
+        externalId: serverUsers.externalId,
+      })
+      .from(serverUsers)
+      .where(
+        and(
+          eq(serverUsers.serverId, serverId),
+          inArray(
+            serverUsers.externalId,
+            forServer.map((r) => r.externalId as string)
+          )
+        )
+      );
+    const byExternalId = new Map(existing.map((e) => [e.externalId, e]));
+
+    for (const row of forServer) {
+      const match = byExternalId.get(row.externalId as string);
+      if (match) {
+        ctx.maps.serverUsers.set(String(row.id), match.id);
+        if (typeof row.userId === 'string' && !ctx.maps.users.has(row.userId)) {
+          ctx.maps.users.set(row.userId, match.userId);
+        }
+        stats.matched++;
+      } else {
+        ctx.pendingServerUsers.push(row);
+      }
+    }
+  }
+}
+
+async function findExistingUser(row: Row): Promise<string | null> {
+  if (typeof row.id === 'string') {
+    const [byId] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, row.id))
+      .limit(1);
+    if (byId) return byId.id;
+  }
+
+  if (typeof row.email === 'string' && row.email) {
+    const [byEmail] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.email, row.email))
+      .limit(1);
+    if (byEmail) return byEmail.id;
+  }
+
+  if (typeof row.plexAccountId === 'string' && row.plexAccountId) {
+    const [byPlex] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.plexAccountId, row.plexAccountId))
+      .limit(1);
+    if (byPlex) return byPlex.id;
+  }
+
+  return null;
+}
+
+/**
+ * Match archived identities to existing users, inserting the rest
+ *
+ * Existing identities are never modified, whichever conflict strategy is used.
+ */
+async function restoreUsers(ctx: RestoreContext, def: BackupTable, rows: Row[]): Promise<void> {
+  const stats = getStats(ctx, 'users');
+  const toInsert: Row[] = [];
+
+  for (const row of rows) {
+    const archivedId = String(row.id);
+    if (ctx.maps.users.has(archivedId)) {
+      stats.matched++;
+      continue;
+    }
+
+    const existingId = await findExistingUser(row);
+    if (existingId) {
+      ctx.maps.users.set(archivedId, existingId);
+      stats.matched++;
+      continue;
+    }
+
+    const values = deserializeBackupRow(def, row);
+    // There is only one owner - the account doing the restore
+    if (values.role === 'owner') values.role = 'admin';
+    toInsert.push(values);
+  }
+
+  for (const values of toInsert) {
+    try {
+      const [inserted] = await db
+        .insert(users)
+        .values(values as typeof users.$inferInsert)
+        .onConflictDoNothing()
+        .returning({ id: users.id });
+      if (inserted) {
+        ctx.maps.users.set(String(values.id), inserted.id);
+        stats.restored++;
+      } else {
+        stats.skipped++;
+      }
+    } catch (error) {
+      stats.errors++;
+      console.warn(`[Restore] Failed to restore user ${String(values.id)}:`, error);
+    }
+  }
+}
+
+/**
+ * Insert server accounts that had no existing match, once identities are restored
+ */
+async function flushPendingServerUsers(ctx: RestoreContext): Promise<void> {
+  if (ctx.serverUsersFlushed) return;
+  ctx.serverUsersFlushed = true;
+
+  const def = getBackupTable('server_users')!;
+  const stats = getStats(ctx, def.name);
+  const pending = ctx.pendingServerUsers;
+  ctx.pendingServerUsers = [];
+
+  for (const row of pending) {
+    const userId = ctx.maps.users.get(String(row.userId));
+    if (!userId) {
+      stats.skipped++;
+      continue;
+    }
+
+    const values = { ...deserializeBackupRow(def, row), serverId: row.serverId, userId };
+    try {
+      await db
+        .insert(serverUsers)
+        .values(values as typeof serverUsers.$inferInsert)
+        .onConflictDoNothing();
+
+      // The account may already exist under a different id
+      const [stored] = await db
+        .select({ id: serverUsers.id })
+        .from(serverUsers)
+        .where(
+          and(
+            eq(serverUsers.serverId, row.serverId as string),
+            eq(serverUsers.externalId, row.externalId as string)
+          )
+        )
+        .limit(1);
+
+      if (stored) {
+        ctx.maps.serverUsers.set(String(row.id), stored.id);
+        stats.restored++;
+      } else {
+        stats.skipped++;
+      }
+    } catch (error) {
+      stats.errors++;
+      console.warn(`[Restore] Failed to restore server user ${String(row.id)}:`, error);
+    }
+  }
+}
+
+function totals(ctx: RestoreContext): { restored: number; skipped: number; errors: number } {
+  let restored = 0;
+  let skipped = 0;
+  let errors = 0;
+  for (const stats of Object.values(ctx.stats)) {
+    restored += stats.restored + stats.matched;
+    skipped += stats.skipped;
+    errors += stats.errors;
+  }
+  return { restored, skipped, errors };
+}
+
+/**
+ * Restore a backup archive from disk
+ *
+ * @param filePath - Path to the gzipped tar archive
+ * @param onProgress - Called at most once per second while restoring
+ * @throws Error when the file is not a valid backup archive
+ */
+export async function restoreBackup(
+  filePath: string,
+  options: RestoreOptions,
+  onProgress?: (progress: BackupRestoreProgress) => Promise<void>
+): Promise<BackupRestoreResult> {
+  const { size: totalBytes } = await stat(filePath);
+  let processedBytes = 0;
+
+  const fileStream = createReadStream(filePath);
+  const gunzip = createGunzip();
+  fileStream.on('data', (chunk) => {
+    processedBytes += chunk.length;
+  });
+  fileStream.on('error', (err) => gunzip.destroy(err));
+  fileStream.pipe(gunzip);
+
+  const existingServers = await db
+    .select({
+      id: servers.id,
+      name: servers.name,
+      type: servers.type,
+      url: servers.url,
+      machineIdentifier: servers.machineIdentifier,
+    })
+    .from(servers);
+
+  const ctx: RestoreContext = {
+    strategy: options.conflictStrategy,
+    maps: {
+      servers: new Map(),
+      users: new Map(),
+      serverUsers: new Map(),
+      rules: new Map(),
+      violations: new Map(),
+    },
+    stats: {},
+    unmatchedServers: [],
+    existingServers,
+    pendingServerUsers: [],
+    serverUsersFlushed: false,
+    minStartedAt: null,
+    maxStartedAt: null,
+  };
+
+  let manifest: BackupManifest | null = null;
+  let currentTable: string | undefined;
+  let lastProgressAt = 0;
+
+  const reportProgress = async (force = false) => {
+    if (!onProgress) return;
+    const now = Date.now();
+    if (!force && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+    lastProgressAt = now;
+
+    const { restored, skipped, errors } = totals(ctx);
+    await onProgress({
+      status: 'processing',
+      currentTable,
+      processedBytes,
+      totalBytes,
+      restoredRecords: restored,
+      skippedRecords: skipped,
+      errorRecords: errors,
+      message: currentTable ? `Restoring ${currentTable}...` : 'Reading backup...',
+    });
+  };
+
+  try {
+    for await (const entry of readTarEntries(gunzip)) {
+      if (!manifest) {
+        manifest = parseBackupManifest(entry.name, entry.data);
+        console.log(
+          `[Restore] Restoring backup from ${manifest.createdAt} (Tracearr ${manifest.appVersion})`
+        );
+        continue;
+      }
+
+      const tableName = entry.name.split('/')[0]!;
+      const def = getBackupTable(tableName);
+      if (!def) {
+        // Tables added in newer versions are ignored
+        continue;
+      }
+
+      if (tableName !== 'servers' && tableName !== 'server_users' && tableName !== 'users') {
+        await flushPendingServerUsers(ctx);
+      }
+
+      currentTable = tableName;
+      const { rows, errors } = parseBackupChunk(entry.data);
+      getStats(ctx, tableName).errors += errors;
+
+      switch (tableName) {
+        case 'servers':
+          restoreServers(ctx, rows);
+          break;
+        case 'server_users':
+          await restoreServerUsers(ctx, rows);
+          break;
+        case 'users':
+          await restoreUsers(ctx, def, rows);
+          break;
+        default:
+          await restoreGenericRows(ctx, def, rows);
+      }
+
+      await reportProgress();
+    }
+  } finally {
+    fileStream.destroy();
+  }
+
+  if (!manifest) {
+    throw new Error('Not a Tracearr backup: archive is empty');
+  }
+
+  await flushPendingServerUsers(ctx);
+  currentTable = undefined;
+  processedBytes = totalBytes;
+  await reportProgress(true);
+
+  if (ctx.minStartedAt) {
+    await refreshAggregatesAfterImport('[Restore]', ctx.minStartedAt, ctx.maxStartedAt);
+  }
+
+  const { restored, skipped, errors } = totals(ctx);
+  const serverNote =
+    ctx.unmatchedServers.length > 0
+      ? ` Data for ${ctx.unmatchedServers.length} server(s) not configured here was skipped.`
+      : '';
+
+  return {
+    success: true,
+    restored,
+    skipped,
+    errors,
+    message: `Restore complete: ${restored} restored, ${skipped} skipped, ${errors} errors.${serverNote}`,
+    tables: ctx.stats,
+    unmatchedServers: ctx.unmatchedServers,
+  };
+}
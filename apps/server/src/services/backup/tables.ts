@@ -0,0 +1,207 @@
+/**
+ * Backup Table Registry
+ *
+ * Declares which tables go into a backup archive, in restore order, and how
+ * each table's foreign keys are remapped on restore.
+ *
+ * Archive order matters: server_users precede users so restored identities can
+ * be matched through their server accounts before any identity is inserted.
+ */
+
+import { getTableColumns } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import {
+  servers,
+  users,
+  serverUsers,
+  sessions,
+  rules,
+  violations,
+  ruleActionResults,
+  terminationLogs,
+  settings,
+} from '../../db/schema.js';
+
+/** Id maps built during restore (archived id -> id in this database) */
+export type BackupIdMap = 'servers' | 'users' | 'serverUsers' | 'rules' | 'violations';
+
+export interface BackupReference {
+  map: BackupIdMap;
+  /** skip: drop the row when the referenced row was not restored; null: clear the reference */
+  onMissing: 'skip' | 'null';
+}
+
+export interface BackupTable {
+  /** SQL table name, also the archive directory name */
+  name: string;
+  table: PgTable;
+  /** Credentials that never leave the server */
+  omit: string[];
+  /** Foreign keys to remap on restore, keyed by column property */
+  references: Record<string, BackupReference>;
+  /** Unique columns used by the overwrite strategy */
+  conflictTarget: PgColumn[];
+  /** Record restored ids so later tables can reference them */
+  trackIds?: BackupIdMap;
+}
+
+export const BACKUP_TABLES: BackupTable[] = [
+  {
+    name: 'servers',
+    table: servers,
+    omit: ['token', 'webhookSecret'],
+    references: {},
+    conflictTarget: [servers.id],
+  },
+  {
+    name: 'server_users',
+    table: serverUsers,
+    omit: [],
+    references: {
+      serverId: { map: 'servers', onMissing: 'skip' },
+      userId: { map: 'users', onMissing: 'skip' },
+    },
+    conflictTarget: [serverUsers.id],
+  },
+  {
+    name: 'users',
+    table: users,
+    omit: ['passwordHash'],
+    references: {},
+    conflictTarget: [users.id],
+  },
+  {
+    name: 'sessions',
+    table: sessions,
+    omit: [],
+    references: {
+      serverId: { map: 'servers', onMissing: 'skip' },
+      serverUserId: { map: 'serverUsers', onMissing: 'skip' },
+    },
+    // Hypertable primary key includes the partition column
+    conflictTarget: [sessions.id, sessions.startedAt],
+  },
+  {
+    name: 'rules',
+    table: rules,
+    omit: [],
+    references: {
+      // A scoped rule must not silently become global
+      serverId: { map: 'servers', onMissing: 'skip' },
+      serverUserId: { map: 'serverUsers', onMissing: 'skip' },
+    },
+    conflictTarget: [rules.id],
+    trackIds: 'rules',
+  },
+  {
+    name: 'violations',
+    table: violations,
+    omit: [],
+    references: {
+      ruleId: { map: 'rules', onMissing: 'skip' },
+      serverUserId: { map: 'serverUsers', onMissing: 'skip' },
+    },
+    conflictTarget: [violations.id],
+    trackIds: 'violations',
+  },
+  {
+    name: 'rule_action_results',
+    table: ruleActionResults,
+    omit: [],
+    references: {
+      violationId: { map: 'violations', onMissing: 'skip' },
+      ruleId: { map: 'rules', onMissing: 'skip' },
+    },
+    conflictTarget: [ruleActionResults.id],
+  },
+  {
+    name: 'termination_logs',
+    table: terminationLogs,
+    omit: [],
+    references: {
+      serverId: { map: 'servers', onMissing: 'skip' },
+      serverUserId: { map: 'serverUsers', onMissing: 'skip' },
+      triggeredByUserId: { map: 'users', onMissing: 'null' },
+      ruleId: { map: 'rules', onMissing: 'null' },
+      violationId: { map: 'violations', onMissing: 'null' },
+    },
+    conflictTarget: [terminationLogs.id],
+  },
+  {
+    name: 'settings',
+    table: settings,
+    omit: ['tautulliApiKey', 'oidcClientSecret'],
+    references: {},
+    conflictTarget: [settings.id],
+  },
+];
+
+/**
+ * Look up a table definition by archive name
+ */
+export function getBackupTable(name: string): BackupTable | undefined {
+  return BACKUP_TABLES.find((t) => t.name === name);
+}
+
+/**
+ * Convert a row to its archived form (credentials removed)
+ */
+export function serializeBackupRow(
+  def: BackupTable,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !def.omit.includes(key)));
+}
+
+/**
+ * Convert an archived row back into insert values
+ *
+ * Unknown keys (from newer or older schemas) are dropped and missing columns
+ * fall back to their defaults. Timestamps are revived from their JSON strings.
+ */
+export function deserializeBackupRow(
+  def: BackupTable,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const columns = getTableColumns(def.table);
+  const values: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const column = columns[key];
+    if (!column || def.omit.includes(key)) continue;
+
+    values[key] =
+      column.columnType === 'PgTimestamp' && typeof value === 'string' ? new Date(value) : value;
+  }
+
+  return values;
+}
+
+/**
+ * Rewrite a row's foreign keys using the restore id maps
+ *
+ * @returns The remapped row, or null when a required reference is missing
+ */
+export function remapBackupRow(
+  def: BackupTable,
+  values: Record<string, unknown>,
+  maps: Record<BackupIdMap, Map<string, string>>
+): Record<string, unknown> | null {
+  const result = { ...values };
+
+  for (const [key, ref] of Object.entries(def.references)) {
+    const archivedId = result[key];
+    if (archivedId === null || archivedId === undefined) continue;
+
+    const mappedId = maps[ref.map].get(String(archivedId));
+    if (mappedId) {
+      result[key] = mappedId;
+    } else if (ref.onMissing === 'null') {
+      result[key] = null;
+    } else {
+      return null;
+    }
+  }
+
+  return result;
+}
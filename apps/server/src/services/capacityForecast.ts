@@ -0,0 +1,381 @@
+/**
+ * Capacity Forecasting
+ *
+ * Projects peak upstream bandwidth and concurrent transcodes per server for the
+ * next CAPACITY_FORECAST_HORIZON_DAYS days, so upload links and transcoding
+ * hardware can be sized before they run out.
+ *
+ * Load is measured with the same event-based concurrency algorithm as
+ * GET /stats/concurrent: session starts add their bitrate/transcode, stops
+ * remove it, and running totals give the exact concurrent load at every event.
+ * Zero-delta events at every hour boundary make hours without starts or stops
+ * still report the load carried over from earlier sessions.
+ *
+ * Only remote streams count towards upstream bandwidth; local streams never
+ * leave the LAN. Every transcode counts towards the transcode load.
+ *
+ * What-if inputs:
+ * - addUsers scales load by (activeUsers + addUsers) / activeUsers, assuming
+ *   new users behave like the current average user
+ * - capRemote1080p treats remote streams delivered above 1080p as transcoded
+ *   down to CAPACITY_FORECAST_1080P_KBPS (less bandwidth, more transcodes)
+ */
+
+import { sql } from 'drizzle-orm';
+import {
+  CAPACITY_FORECAST_1080P_KBPS,
+  CAPACITY_FORECAST_HORIZON_DAYS,
+  TIME_MS,
+  type CapacityForecastDay,
+  type CapacityForecastResponse,
+  type CapacityForecastServer,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { MEDIA_TYPE_SQL_FILTER_S } from '../constants/index.js';
+import { buildServerFilterFragment } from '../utils/serverFiltering.js';
+import {
+  getConfidenceLevel,
+  linearRegression,
+  type RegressionResult,
+} from '../utils/regression.js';
+
+// Forecasts need at least a week of daily peaks to be meaningful
+export const MIN_FORECAST_DATA_DAYS = 7;
+
+const LOCAL_NETWORK_COUNTRY = 'Local Network';
+
+export interface CapacityForecastOptions {
+  authUser: { role: string; serverIds: string[] };
+  serverId?: string;
+  timezone: string;
+  lookbackDays: number;
+  addUsers: number;
+  capRemote1080p: boolean;
+}
+
+/** Peak load within one local hour */
+export interface HourlyLoadSample {
+  /** Local date (YYYY-MM-DD) */
+  date: string;
+  /** Local hour of day (0-23) */
+  hour: number;
+  bandwidthKbps: number;
+  transcodes: number;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toMbps(kbps: number): number {
+  return roundTo(kbps / 1000, 2);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * TIME_MS.DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Percentile with linear interpolation between ranks (same as PERCENTILE_CONT)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (rank - lower);
+}
+
+/**
+ * Hour of day with the highest average load
+ *
+ * Ranks by bandwidth, falling back to transcodes for servers without remote
+ * streams. Returns null when there was no load at all.
+ */
+export function getPeakHour(samples: HourlyLoadSample[]): number | null {
+  const bandwidth = new Array<number>(24).fill(0);
+  const transcodes = new Array<number>(24).fill(0);
+  const counts = new Array<number>(24).fill(0);
+
+  for (const sample of samples) {
+    bandwidth[sample.hour] = (bandwidth[sample.hour] ?? 0) + sample.bandwidthKbps;
+    transcodes[sample.hour] = (transcodes[sample.hour] ?? 0) + sample.transcodes;
+    counts[sample.hour] = (counts[sample.hour] ?? 0) + 1;
+  }
+
+  for (const totals of [bandwidth, transcodes]) {
+    const averages = totals.map((total, hour) => {
+      const count = counts[hour] ?? 0;
+      return count > 0 ? total / count : 0;
+    });
+    const peak = Math.max(...averages);
+    if (peak > 0) return averages.indexOf(peak);
+  }
+
+  return null;
+}
+
+/**
+ * Collapse hourly samples into daily peaks, scaled by the what-if user factor
+ */
+export function getDailyPeaks(samples: HourlyLoadSample[], scale: number): CapacityForecastDay[] {
+  const byDate = new Map<string, { bandwidthKbps: number; transcodes: number }>();
+
+  for (const sample of samples) {
+    const day = byDate.get(sample.date) ?? { bandwidthKbps: 0, transcodes: 0 };
+    day.bandwidthKbps = Math.max(day.bandwidthKbps, sample.bandwidthKbps);
+    day.transcodes = Math.max(day.transcodes, sample.transcodes);
+    byDate.set(sample.date, day);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      peakBandwidthMbps: toMbps(day.bandwidthKbps * scale),
+      peakTranscodes: roundTo(day.transcodes * scale, 1),
+    }));
+}
+
+function predict(regression: RegressionResult, x: number): number {
+  return Math.max(0, regression.slope * x + regression.intercept);
+}
+
+/**
+ * Project daily peaks forward with a linear trend
+ *
+ * Returns an empty forecast until MIN_FORECAST_DATA_DAYS days of history exist.
+ * The projected p95 grows with the bandwidth trend between today and the end
+ * of the horizon.
+ */
+export function projectCapacity(
+  history: CapacityForecastDay[],
+  p95BandwidthMbps: number,
+  horizonDays: number = CAPACITY_FORECAST_HORIZON_DAYS
+): Pick<CapacityForecastServer, 'forecast' | 'projected' | 'confidence'> {
+  const lastDay = history[history.length - 1];
+  if (history.length < MIN_FORECAST_DATA_DAYS || !lastDay) {
+    return { forecast: [], projected: null, confidence: null };
+  }
+
+  const bandwidthTrend = linearRegression(
+    history.map((day, x) => ({ x, y: day.peakBandwidthMbps }))
+  );
+  const transcodeTrend = linearRegression(history.map((day, x) => ({ x, y: day.peakTranscodes })));
+  const lastX = history.length - 1;
+
+  const forecast: CapacityForecastDay[] = [];
+  for (let day = 1; day <= horizonDays; day++) {
+    forecast.push({
+      date: addDays(lastDay.date, day),
+      peakBandwidthMbps: roundTo(predict(bandwidthTrend, lastX + day), 2),
+      peakTranscodes: roundTo(predict(transcodeTrend, lastX + day), 1),
+    });
+  }
+
+  const hasBandwidth = history.some((day) => day.peakBandwidthMbps > 0);
+  const currentBandwidth = predict(bandwidthTrend, lastX);
+  const growth =
+    currentBandwidth > 0 ? predict(bandwidthTrend, lastX + horizonDays) / currentBandwidth : 1;
+  const end = forecast[forecast.length - 1];
+
+  return {
+    forecast,
+    projected: end
+      ? {
+          p95BandwidthMbps: roundTo(p95BandwidthMbps * growth, 2),
+          peakBandwidthMbps: end.peakBandwidthMbps,
+          peakTranscodes: end.peakTranscodes,
+        }
+      : null,
+    confidence: getConfidenceLevel(hasBandwidth ? bandwidthTrend.r2 : transcodeTrend.r2),
+  };
+}
+
+/**
+ * Build the forecast for one server from its hourly samples
+ */
+export function buildServerForecast(
+  server: { serverId: string; serverName: string; activeUsers: number },
+  samples: HourlyLoadSample[],
+  addUsers: number
+): CapacityForecastServer {
+  const scale = server.activeUsers > 0 ? (server.activeUsers + addUsers) / server.activeUsers : 1;
+  const history = getDailyPeaks(samples, scale);
+  const p95BandwidthMbps = toMbps(
+    percentile(
+      samples.map((sample) => sample.bandwidthKbps),
+      0.95
+    ) * scale
+  );
+
+  return {
+    ...server,
+    p95BandwidthMbps,
+    peakBandwidthMbps: Math.max(0, ...history.map((day) => day.peakBandwidthMbps)),
+    peakTranscodes: Math.max(0, ...history.map((day) => day.peakTranscodes)),
+    peakHour: getPeakHour(samples),
+    history,
+    ...projectCapacity(history, p95BandwidthMbps),
+  };
+}
+
+/**
+ * Forecast bandwidth and transcode capacity for every accessible server
+ *
+ * History covers the last `lookbackDays` complete days in the given timezone;
+ * today is left out so a partial day doesn't drag the trend down.
+ */
+export async function buildCapacityForecast(
+  options: CapacityForecastOptions
+): Promise<CapacityForecastResponse> {
+  const { authUser, serverId, timezone, lookbackDays, addUsers, capRemote1080p } = options;
+
+  const range = sql`
+    forecast_range AS (
+      SELECT
+        range_end - make_interval(days => ${lookbackDays}::int) AS range_start,
+        range_end
+      FROM (
+        SELECT date_trunc('day', now() AT TIME ZONE ${timezone}) AT TIME ZONE ${timezone} AS range_end
+      ) bounds
+    )
+  `;
+
+  const [serversResult, samplesResult] = await Promise.all([
+    db.execute(sql`
+      WITH ${range}
+      SELECT
+        sv.id AS server_id,
+        sv.name AS server_name,
+        COUNT(DISTINCT s.server_user_id)::int AS active_users
+      FROM sessions s
+      JOIN servers sv ON sv.id = s.server_id
+      CROSS JOIN forecast_range r
+      WHERE s.started_at >= r.range_start
+        AND s.started_at < r.range_end
+        ${MEDIA_TYPE_SQL_FILTER_S}
+        ${buildServerFilterFragment(serverId, authUser, 's.server_id')}
+      GROUP BY sv.id, sv.name
+      ORDER BY sv.name
+    `),
+    db.execute(sql`
+      WITH ${range},
+      filtered AS (
+        SELECT
+          s.server_id,
+          s.started_at,
+          s.stopped_at,
+          s.is_transcode,
+          COALESCE(s.bitrate, 0) AS bitrate,
+          COALESCE(s.geo_country, '') <> ${LOCAL_NETWORK_COUNTRY} AS is_remote,
+          COALESCE((s.stream_video_details->>'height')::int, s.source_video_height, 0) > 1080 AS above_1080p
+        FROM sessions s
+        CROSS JOIN forecast_range r
+        WHERE s.stopped_at IS NOT NULL
+          AND s.stopped_at >= r.range_start
+          AND s.started_at < r.range_end
+          ${MEDIA_TYPE_SQL_FILTER_S}
+          ${buildServerFilterFragment(serverId, authUser, 's.server_id')}
+      ),
+      loads AS (
+        SELECT
+          server_id,
+          started_at,
+          stopped_at,
+          CASE
+            WHEN NOT is_remote THEN 0
+            WHEN ${capRemote1080p}::boolean AND above_1080p THEN LEAST(bitrate, ${CAPACITY_FORECAST_1080P_KBPS})
+            ELSE bitrate
+          END AS bandwidth_kbps,
+          CASE
+            WHEN is_transcode OR (${capRemote1080p}::boolean AND is_remote AND above_1080p) THEN 1
+            ELSE 0
+          END AS transcodes
+        FROM filtered
+      ),
+      events AS (
+        SELECT server_id, started_at AS event_time, bandwidth_kbps AS bandwidth_delta, transcodes AS transcode_delta
+        FROM loads
+        UNION ALL
+        SELECT server_id, stopped_at, -bandwidth_kbps, -transcodes
+        FROM loads
+        UNION ALL
+        SELECT srv.server_id, hour_start, 0, 0
+        FROM (SELECT DISTINCT server_id FROM loads) srv
+        CROSS JOIN forecast_range r
+        CROSS JOIN generate_series(r.range_start, r.range_end - interval '1 hour', interval '1 hour') AS hour_start
+      ),
+      running AS (
+        SELECT
+          server_id,
+          event_time,
+          SUM(bandwidth_delta) OVER (
+            PARTITION BY server_id ORDER BY event_time, bandwidth_delta DESC
+          ) AS bandwidth_kbps,
+          SUM(transcode_delta) OVER (
+            PARTITION BY server_id ORDER BY event_time, transcode_delta DESC
+          ) AS transcodes
+        FROM events
+      )
+      SELECT
+        ru.server_id,
+        to_char(ru.event_time AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS date,
+        EXTRACT(HOUR FROM ru.event_time AT TIME ZONE ${timezone})::int AS hour,
+        MAX(ru.bandwidth_kbps)::bigint AS bandwidth_kbps,
+        MAX(ru.transcodes)::int AS transcodes
+      FROM running ru
+      CROSS JOIN forecast_range r
+      WHERE ru.event_time >= r.range_start AND ru.event_time < r.range_end
+      GROUP BY 1, 2, 3
+      ORDER BY 1, 2, 3
+    `),
+  ]);
+
+  const serverRows = serversResult.rows as {
+    server_id: string;
+    server_name: string;
+    active_users: number;
+  }[];
+  const sampleRows = samplesResult.rows as {
+    server_id: string;
+    date: string;
+    hour: number;
+    bandwidth_kbps: string | number | null;
+    transcodes: number | null;
+  }[];
+
+  const samplesByServer = new Map<string, HourlyLoadSample[]>();
+  for (const row of sampleRows) {
+    const samples = samplesByServer.get(row.server_id) ?? [];
+    samples.push({
+      date: row.date,
+      hour: row.hour,
+      bandwidthKbps: Math.max(0, Number(row.bandwidth_kbps ?? 0)),
+      transcodes: Math.max(0, row.transcodes ?? 0),
+    });
+    samplesByServer.set(row.server_id, samples);
+  }
+
+  return {
+    lookbackDays,
+    horizonDays: CAPACITY_FORECAST_HORIZON_DAYS,
+    minDataDays: MIN_FORECAST_DATA_DAYS,
+    scenario: { addUsers, capRemote1080p },
+    servers: serverRows.map((row) =>
+      buildServerForecast(
+        {
+          serverId: row.server_id,
+          serverName: row.server_name,
+          activeUsers: row.active_users,
+        },
+        samplesByServer.get(row.server_id) ?? [],
+        addUsers
+      )
+    ),
+  };
+}
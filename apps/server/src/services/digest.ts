@@ -0,0 +1,378 @@
+/**
+ * Usage digest reports
+ *
+ * Builds the weekly/monthly summary sent to notification destinations:
+ * plays and watch time, top users and content, new devices, violations,
+ * transcode ratio, bandwidth and library growth. The queries follow the
+ * stats and library routes, scoped to a fixed period and a set of servers.
+ *
+ * Periods are calendar-aligned in the server's local time: weekly digests
+ * cover Monday to Sunday, monthly digests the previous calendar month.
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+import {
+  DIGEST_TOP_LIMIT,
+  SESSION_LIMITS,
+  type DigestPeriod,
+  type DigestReport,
+  type DigestTopContent,
+  type NotificationDestination,
+  type ViolationSeverity,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { MEDIA_TYPE_SQL_FILTER, MEDIA_TYPE_SQL_FILTER_S } from '../constants/index.js';
+import { notificationManager, PayloadBuilders, type SendResult } from './notifications/index.js';
+
+export interface DigestRange {
+  /** Inclusive */
+  start: Date;
+  /** Exclusive */
+  end: Date;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * The most recent complete period before `now`
+ */
+export function getDigestRange(period: DigestPeriod, now: Date = new Date()): DigestRange {
+  if (period === 'monthly') {
+    const end = new Date(now.getFullYear(), now.getMonth(), 1);
+    return { start: new Date(end.getFullYear(), end.getMonth() - 1, 1), end };
+  }
+
+  // getDay() is 0 for Sunday; weeks start on Monday
+  const daysSinceMonday = (now.getDay() + 6) % 7;
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday);
+  return { start: new Date(end.getFullYear(), end.getMonth(), end.getDate() - 7), end };
+}
+
+/**
+ * The period immediately before the given one (used for play count trends)
+ */
+export function getPreviousDigestRange(period: DigestPeriod, range: DigestRange): DigestRange {
+  return getDigestRange(period, range.start);
+}
+
+/**
+ * Percentage change, or null when there is nothing to compare against
+ */
+export function getChangePercent(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+function toHours(ms: number | string): number {
+  return Math.round((Number(ms) / MS_PER_HOUR) * 10) / 10;
+}
+
+/**
+ * Restrict a query to the given servers (empty = all servers)
+ */
+function buildServerIdsFilter(serverIds: string[], columnRef: string): SQL {
+  if (serverIds.length === 0) {
+    return sql``;
+  }
+  const col = sql.raw(columnRef);
+  return sql`AND ${col} IN (${sql.join(
+    serverIds.map((id) => sql`${id}`),
+    sql`, `
+  )})`;
+}
+
+interface TotalsRow {
+  plays: number;
+  watch_time_ms: string;
+  active_users: number;
+  direct_play: number;
+  transcode: number;
+  total_bytes: string | null;
+  avg_bitrate: string | null;
+  peak_bitrate: number | null;
+}
+
+function toTopContent(rows: Record<string, unknown>[]): DigestTopContent[] {
+  return (
+    rows as { title: string; year: number | null; play_count: number; watch_time_ms: string }[]
+  ).map((r) => ({
+    title: r.title,
+    year: r.year,
+    playCount: r.play_count,
+    watchTimeHours: toHours(r.watch_time_ms),
+  }));
+}
+
+/**
+ * Library size change over the period from the library_stats_daily aggregate.
+ * Returns null when the aggregate is missing or has no snapshots for the period.
+ */
+async function getLibraryGrowth(
+  range: DigestRange,
+  serverIds: string[]
+): Promise<DigestReport['libraryGrowth']> {
+  try {
+    // Include the day before the period so additions on its first day count
+    const since = new Date(range.start.getTime() - 24 * MS_PER_HOUR);
+    const result = await db.execute(sql`
+      SELECT
+        lsd.day::date::text AS day,
+        COALESCE(SUM(lsd.movie_count), 0)::int AS movies,
+        COALESCE(SUM(lsd.episode_count), 0)::int AS episodes,
+        COALESCE(SUM(lsd.music_count), 0)::int AS music
+      FROM library_stats_daily lsd
+      WHERE lsd.day >= ${since.toISOString()}::date
+        AND lsd.day < ${range.end.toISOString()}::date
+        ${buildServerIdsFilter(serverIds, 'lsd.server_id')}
+      GROUP BY lsd.day::date
+      ORDER BY lsd.day::date
+    `);
+
+    const rows = result.rows as { day: string; movies: number; episodes: number; music: number }[];
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    if (!first || !last) {
+      return null;
+    }
+
+    return {
+      movies: last.movies - first.movies,
+      episodes: last.episodes - first.episodes,
+      music: last.music - first.music,
+    };
+  } catch {
+    // Continuous aggregate not created (TimescaleDB unavailable)
+    return null;
+  }
+}
+
+/**
+ * Assemble the digest for the most recent complete period
+ *
+ * @param serverIds - Servers to report on (empty = all servers)
+ */
+export async function buildDigestReport(
+  period: DigestPeriod,
+  serverIds: string[] = [],
+  now: Date = new Date()
+): Promise<DigestReport> {
+  const range = getDigestRange(period, now);
+  const previous = getPreviousDigestRange(period, range);
+  const serverFilter = buildServerIdsFilter(serverIds, 'server_id');
+  const sessionServerFilter = buildServerIdsFilter(serverIds, 's.server_id');
+  const userServerFilter = buildServerIdsFilter(serverIds, 'su.server_id');
+  const inRange = sql`started_at >= ${range.start} AND started_at < ${range.end}`;
+
+  const [
+    serversResult,
+    totalsResult,
+    previousResult,
+    usersResult,
+    moviesResult,
+    showsResult,
+    severityResult,
+    rulesResult,
+    devicesResult,
+    libraryGrowth,
+  ] = await Promise.all([
+    db.execute(sql`
+      SELECT name FROM servers WHERE true ${buildServerIdsFilter(serverIds, 'id')} ORDER BY name
+    `),
+    db.execute(sql`
+      SELECT
+        COUNT(DISTINCT COALESCE(reference_id, id)) FILTER (WHERE duration_ms >= ${SESSION_LIMITS.MIN_PLAY_TIME_MS})::int AS plays,
+        COALESCE(SUM(duration_ms), 0)::bigint AS watch_time_ms,
+        COUNT(DISTINCT server_user_id)::int AS active_users,
+        COUNT(DISTINCT COALESCE(reference_id, id)) FILTER (WHERE NOT is_transcode)::int AS direct_play,
+        COUNT(DISTINCT COALESCE(reference_id, id)) FILTER (WHERE is_transcode)::int AS transcode,
+        -- bitrate is stored in kbps and duration in ms, so kbps * ms / 8 = bytes
+        (SUM(COALESCE(bitrate, 0)::bigint * COALESCE(duration_ms, 0)::bigint) / 8)::bigint AS total_bytes,
+        AVG(bitrate)::bigint AS avg_bitrate,
+        MAX(bitrate)::int AS peak_bitrate
+      FROM sessions
+      WHERE ${inRange}
+      ${MEDIA_TYPE_SQL_FILTER}
+      ${serverFilter}
+    `),
+    db.execute(sql`
+      SELECT
+        COUNT(DISTINCT COALESCE(reference_id, id)) FILTER (WHERE duration_ms >= ${SESSION_LIMITS.MIN_PLAY_TIME_MS})::int AS plays
+      FROM sessions
+      WHERE started_at >= ${previous.start} AND started_at < ${previous.end}
+      ${MEDIA_TYPE_SQL_FILTER}
+      ${serverFilter}
+    `),
+    db.execute(sql`
+      SELECT
+        su.username,
+        u.name AS identity_name,
+        COUNT(DISTINCT COALESCE(s.reference_id, s.id)) FILTER (WHERE s.duration_ms >= ${SESSION_LIMITS.MIN_PLAY_TIME_MS})::int AS play_count,
+        COALESCE(SUM(s.duration_ms), 0)::bigint AS watch_time_ms
+      FROM sessions s
+      INNER JOIN server_users su ON su.id = s.server_user_id
+      INNER JOIN users u ON u.id = su.user_id
+      WHERE s.started_at >= ${range.start} AND s.started_at < ${range.end}
+      ${MEDIA_TYPE_SQL_FILTER_S}
+      ${sessionServerFilter}
+      GROUP BY su.id, su.username, u.name
+      ORDER BY watch_time_ms DESC
+      LIMIT ${DIGEST_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      SELECT
+        media_title AS title,
+        year,
+        COUNT(DISTINCT COALESCE(reference_id, id))::int AS play_count,
+        COALESCE(SUM(duration_ms), 0)::bigint AS watch_time_ms
+      FROM sessions
+      WHERE ${inRange} AND media_type = 'movie'
+      ${serverFilter}
+      GROUP BY media_title, year
+      ORDER BY play_count DESC
+      LIMIT ${DIGEST_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      SELECT
+        grandparent_title AS title,
+        MAX(year) AS year,
+        COUNT(DISTINCT COALESCE(reference_id, id))::int AS play_count,
+        COALESCE(SUM(duration_ms), 0)::bigint AS watch_time_ms
+      FROM sessions
+      WHERE ${inRange} AND media_type = 'episode' AND grandparent_title IS NOT NULL
+      ${serverFilter}
+      GROUP BY grandparent_title
+      ORDER BY play_count DESC
+      LIMIT ${DIGEST_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      SELECT v.severity, COUNT(*)::int AS count
+      FROM violations v
+      INNER JOIN server_users su ON su.id = v.server_user_id
+      WHERE v.created_at >= ${range.start} AND v.created_at < ${range.end}
+      ${userServerFilter}
+      GROUP BY v.severity
+    `),
+    db.execute(sql`
+      SELECT r.name, COUNT(*)::int AS count
+      FROM violations v
+      INNER JOIN rules r ON r.id = v.rule_id
+      INNER JOIN server_users su ON su.id = v.server_user_id
+      WHERE v.created_at >= ${range.start} AND v.created_at < ${range.end}
+      ${userServerFilter}
+      GROUP BY r.name
+      ORDER BY count DESC
+      LIMIT 3
+    `),
+    // Devices whose first session for the user falls in the period
+    db.execute(sql`
+      SELECT DISTINCT ON (s.server_user_id, s.device_id)
+        su.username,
+        COALESCE(s.device, s.player_name, s.product, 'Unknown') AS device_name,
+        s.platform,
+        NULLIF(CONCAT_WS(', ', s.geo_city, s.geo_country), '') AS location,
+        s.started_at AS first_seen_at
+      FROM sessions s
+      INNER JOIN server_users su ON su.id = s.server_user_id
+      WHERE s.started_at >= ${range.start} AND s.started_at < ${range.end}
+      AND s.device_id IS NOT NULL
+      ${sessionServerFilter}
+      AND NOT EXISTS (
+        SELECT 1 FROM sessions p
+        WHERE p.server_user_id = s.server_user_id
+          AND p.device_id = s.device_id
+          AND p.started_at < ${range.start}
+      )
+      ORDER BY s.server_user_id, s.device_id, s.started_at
+    `),
+    getLibraryGrowth(range, serverIds),
+  ]);
+
+  const totals = totalsResult.rows[0] as TotalsRow | undefined;
+  const plays = totals?.plays ?? 0;
+  const previousPlays = (previousResult.rows[0] as { plays: number } | undefined)?.plays ?? 0;
+  const directPlay = totals?.direct_play ?? 0;
+  const transcode = totals?.transcode ?? 0;
+
+  const bySeverity: Record<ViolationSeverity, number> = { low: 0, warning: 0, high: 0 };
+  for (const row of severityResult.rows as { severity: ViolationSeverity; count: number }[]) {
+    bySeverity[row.severity] = row.count;
+  }
+
+  const newDevices = (
+    devicesResult.rows as {
+      username: string;
+      device_name: string;
+      platform: string | null;
+      location: string | null;
+      first_seen_at: Date | string;
+    }[]
+  )
+    .map((r) => ({
+      username: r.username,
+      deviceName: r.device_name,
+      platform: r.platform,
+      location: r.location,
+      firstSeenAt: new Date(r.first_seen_at).toISOString(),
+    }))
+    .sort((a, b) => a.firstSeenAt.localeCompare(b.firstSeenAt));
+
+  return {
+    period,
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    serverNames: (serversResult.rows as { name: string }[]).map((r) => r.name),
+    totals: {
+      plays,
+      watchTimeHours: toHours(totals?.watch_time_ms ?? 0),
+      activeUsers: totals?.active_users ?? 0,
+      playsChangePercent: getChangePercent(plays, previousPlays),
+    },
+    transcode: {
+      directPlay,
+      transcode,
+      transcodePercent:
+        directPlay + transcode > 0 ? Math.round((transcode / (directPlay + transcode)) * 100) : 0,
+    },
+    bandwidth: {
+      totalGb: Math.round((Number(totals?.total_bytes ?? 0) / 1e9) * 100) / 100,
+      avgBitrateMbps: Math.round((Number(totals?.avg_bitrate ?? 0) / 1000) * 10) / 10,
+      peakBitrateMbps: Math.round(((totals?.peak_bitrate ?? 0) / 1000) * 10) / 10,
+    },
+    violations: {
+      total: bySeverity.low + bySeverity.warning + bySeverity.high,
+      bySeverity,
+      topRules: rulesResult.rows as { name: string; count: number }[],
+    },
+    topUsers: (
+      usersResult.rows as {
+        username: string;
+        identity_name: string | null;
+        play_count: number;
+        watch_time_ms: string;
+      }[]
+    ).map((r) => ({
+      username: r.username,
+      identityName: r.identity_name,
+      playCount: r.play_count,
+      watchTimeHours: toHours(r.watch_time_ms),
+    })),
+    topMovies: toTopContent(moviesResult.rows),
+    topShows: toTopContent(showsResult.rows),
+    newDevices: newDevices.slice(0, DIGEST_TOP_LIMIT),
+    newDeviceCount: newDevices.length,
+    libraryGrowth,
+    generatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Build and send a digest to one destination, covering the destination's servers
+ */
+export async function sendDigest(
+  destination: Pick<NotificationDestination, 'id' | 'type' | 'config' | 'serverIds'>,
+  period: DigestPeriod,
+  now: Date = new Date()
+): Promise<SendResult[]> {
+  const report = await buildDigestReport(period, destination.serverIds, now);
+  return notificationManager.sendToDestinations(PayloadBuilders.fromDigest(report), [destination]);
+}
@@ -0,0 +1,865 @@
+/**
+ * Generic History File Import Service
+ *
+ * Imports watch history from spreadsheets and homegrown loggers. The user
+ * uploads a CSV/TSV or JSON file and maps its columns to session fields; rows
+ * then run through the shared import pipeline.
+ *
+ * Accepted files:
+ * - CSV/TSV/semicolon-separated text with a header row
+ * - A JSON array of objects, an object holding such an array (e.g. `{ "data": [...] }`),
+ *   or newline-delimited JSON. Nested objects are flattened to dotted column names.
+ *
+ * Timestamps without an offset are interpreted in Tracearr's timezone (TZ).
+ * Files without item IDs get a stable key derived from the title, so importing
+ * the same file twice is deduplicated like any other import.
+ */
+
+import { createHash } from 'node:crypto';
+import { isIP } from 'node:net';
+import { eq } from 'drizzle-orm';
+import type {
+  FileImportMapping,
+  FileImportField,
+  FileImportPreview,
+  FileImportRowValidation,
+  FileImportSessionPreview,
+  HistoryImportProgress,
+  HistoryImportResult,
+  ServerType,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { servers, serverUsers } from '../db/schema.js';
+import type { PubSubService } from './cache.js';
+import { normalizeClient } from '../utils/platformNormalizer.js';
+import { parseDelimited } from '../utils/csv.js';
+import {
+  createDeduplicationContext,
+  createMediaKey,
+  createSkippedUserTracker,
+  createInsertBatchCollector,
+  createProgressTracker,
+  findOverlappingSession,
+  queryExistingByMediaKeys,
+  refreshAggregatesAfterImport,
+  type NewSession,
+} from './import/index.js';
+
+const CHUNK_SIZE = 2000;
+const INSERT_CHUNK_SIZE = 500;
+const PREVIEW_ROW_COUNT = 20;
+const PROGRESS_THROTTLE_MS = 2000;
+const PROGRESS_RECORD_INTERVAL = 500;
+// Live sessions and logged rows are recorded at slightly different moments
+const OVERLAP_TOLERANCE_MS = 5 * 60 * 1000;
+// Clock skew allowance when rejecting timestamps in the future
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+type FileImportMediaType = FileImportSessionPreview['mediaType'];
+
+/** Fields every mapping must include */
+const REQUIRED_FIELDS: FileImportField[] = ['user', 'title', 'startedAt'];
+
+/**
+ * Column names recognized for each field, compared without case or punctuation
+ */
+const FIELD_ALIASES: Record<FileImportField, string[]> = {
+  user: ['user', 'username', 'friendlyname', 'userid', 'account', 'viewer'],
+  title: ['title', 'mediatitle', 'itemname', 'fulltitle', 'name', 'episodetitle'],
+  startedAt: [
+    'startedat',
+    'started',
+    'start',
+    'starttime',
+    'date',
+    'datetime',
+    'timestamp',
+    'datecreated',
+    'watchedat',
+    'playedat',
+    'viewedat',
+  ],
+  stoppedAt: [
+    'stoppedat',
+    'stopped',
+    'stop',
+    'stoptime',
+    'endedat',
+    'end',
+    'endtime',
+    'finishedat',
+  ],
+  duration: ['duration', 'durationseconds', 'playduration', 'playtime', 'watchtime', 'seconds'],
+  mediaType: ['mediatype', 'type', 'itemtype', 'kind'],
+  showTitle: ['showtitle', 'show', 'series', 'seriesname', 'showname', 'grandparenttitle'],
+  seasonNumber: ['season', 'seasonnumber', 'parentmediaindex'],
+  episodeNumber: ['episode', 'episodenumber', 'mediaindex'],
+  year: ['year', 'releaseyear'],
+  ratingKey: ['ratingkey', 'itemid', 'mediaid'],
+  ipAddress: ['ip', 'ipaddress', 'remoteaddress', 'clientip'],
+  player: ['player', 'playername', 'client', 'clientname'],
+  device: ['device', 'devicename'],
+  platform: ['platform', 'os'],
+};
+
+/**
+ * A parsed history file: every row keyed by column name
+ */
+export interface ParsedHistoryFile {
+  format: 'csv' | 'json';
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * A row after applying the column mapping
+ */
+export interface FileImportRow {
+  user: string;
+  title: string;
+  mediaType: FileImportMediaType;
+  showTitle: string | null;
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+  year: number | null;
+  /** Item ID from the file, or a key derived from the title fields */
+  ratingKey: string;
+  startedAt: Date;
+  stoppedAt: Date | null;
+  durationMs: number | null;
+  ipAddress: string | null;
+  player: string | null;
+  device: string | null;
+  platform: string | null;
+}
+
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+/**
+ * Flatten a JSON record into dotted column names
+ *
+ * @example
+ * flattenRecord({ user: { name: 'alice' }, ip: '1.2.3.4' })
+ * // { 'user.name': 'alice', ip: '1.2.3.4' }
+ */
+function flattenRecord(
+  value: Record<string, unknown>,
+  prefix = '',
+  out: Record<string, string> = {}
+): Record<string, string> {
+  for (const [key, child] of Object.entries(value)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (child && typeof child === 'object' && !Array.isArray(child)) {
+      flattenRecord(child as Record<string, unknown>, column, out);
+    } else {
+      out[column] = stringifyValue(child);
+    }
+  }
+  return out;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Find the list of records in a parsed JSON document
+ */
+function extractJsonRecords(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+
+  if (isRecord(document)) {
+    // Wrapper objects like { "data": [...] } or { "history": [...] }
+    const list = Object.values(document).find(
+      (value) => Array.isArray(value) && value.some(isRecord)
+    );
+    if (list) return list as unknown[];
+  }
+
+  throw new Error('JSON file must contain an array of records');
+}
+
+function parseJsonHistory(text: string): unknown[] {
+  try {
+    return extractJsonRecords(JSON.parse(text));
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+
+  // Newline-delimited JSON (one record per line)
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  try {
+    return lines.map((line) => JSON.parse(line) as unknown);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+}
+
+/**
+ * Parse an uploaded history file into rows keyed by column name
+ *
+ * Files starting with `[` or `{` are read as JSON, anything else as delimited
+ * text with a header row.
+ */
+export function parseHistoryFile(text: string): ParsedHistoryFile {
+  const content = text.replace(/^\uFEFF/, '');
+  const trimmed = content.trimStart();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    const rows = parseJsonHistory(trimmed)
+      .filter(isRecord)
+      .map((record) => {
+        const row = flattenRecord(record);
+        for (const column of Object.keys(row)) {
+          if (!seen.has(column)) {
+            seen.add(column);
+            columns.push(column);
+          }
+        }
+        return row;
+      });
+    return { format: 'json', columns, rows };
+  }
+
+  const records = parseDelimited(content);
+  if (records.length === 0) return { format: 'csv', columns: [], rows: [] };
+
+  // Blank and repeated headers still need distinct names to be mappable
+  const columns: string[] = [];
+  records[0]!.forEach((cell, index) => {
+    const base = cell.trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let n = 2; columns.includes(name); n++) {
+      name = `${base} (${n})`;
+    }
+    columns.push(name);
+  });
+
+  const rows = records
+    .slice(1)
+    .filter((record) => record.some((cell) => cell.trim()))
+    .map((record) => Object.fromEntries(columns.map((column, i) => [column, record[i] ?? ''])));
+
+  return { format: 'csv', columns, rows };
+}
+
+/**
+ * Guess a column mapping from the file's column names
+ *
+ * Each column is used for at most one field; fields are matched in priority
+ * order so e.g. "name" only becomes the title when no better column exists.
+ */
+export function suggestFileImportMapping(columns: string[]): FileImportMapping {
+  const mapping: FileImportMapping = {};
+  const used = new Set<string>();
+  const normalized = columns.map((column) => ({ column, key: normalizeColumnName(column) }));
+
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [FileImportField, string[]][]) {
+    for (const alias of aliases) {
+      const match = normalized.find(({ column, key }) => key === alias && !used.has(column));
+      if (match) {
+        mapping[field] = match.column;
+        used.add(match.column);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Check that a mapping covers the required fields and only names existing columns
+ *
+ * @returns Human-readable problems (empty when the mapping is usable)
+ */
+export function validateFileImportMapping(mapping: FileImportMapping, columns: string[]): string[] {
+  const errors: string[] = [];
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!mapping[field]) {
+      errors.push(`A column must be mapped to ${field}`);
+    }
+  }
+
+  for (const [field, column] of Object.entries(mapping)) {
+    if (column && !columns.includes(column)) {
+      errors.push(`Column "${column}" mapped to ${field} is not in the file`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a timestamp from a history file
+ *
+ * Accepts ISO 8601 (with or without offset), `yyyy-MM-dd HH:mm[:ss]`, plain
+ * dates and Unix epochs in seconds or milliseconds. Values without an offset
+ * are local time. Other formats fall back to the JavaScript date parser.
+ */
+export function parseFileImportDate(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{9,13}(\.\d+)?$/.test(trimmed)) {
+    const epoch = Number(trimmed);
+    return new Date(epoch >= 1e12 ? epoch : epoch * 1000);
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/.exec(
+    trimmed
+  );
+  if (match) {
+    const [, year, month, day, hour, minute, second, fraction] = match;
+    const date = new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour ?? 0),
+      Number(minute ?? 0),
+      Number(second ?? 0),
+      fraction ? Number(fraction.slice(0, 3).padEnd(3, '0')) : 0
+    );
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a play duration to milliseconds
+ *
+ * Plain numbers are seconds; `h:mm:ss` and `mm:ss` are also accepted.
+ */
+export function parseFileImportDuration(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (match) {
+    const [, hours, minutes, seconds] = match;
+    return (Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  }
+
+  return null;
+}
+
+/**
+ * Map a free-form media type to a session media type
+ *
+ * @returns undefined when the value is not recognized
+ */
+export function parseFileImportMediaType(value: string): FileImportMediaType | undefined {
+  switch (normalizeColumnName(value)) {
+    case 'movie':
+    case 'movies':
+    case 'film':
+    case 'video':
+      return 'movie';
+    case 'episode':
+    case 'episodes':
+    case 'tv':
+    case 'show':
+    case 'series':
+    case 'tvepisode':
+      return 'episode';
+    case 'track':
+    case 'tracks':
+    case 'audio':
+    case 'music':
+    case 'song':
+      return 'track';
+    case 'live':
+    case 'livetv':
+    case 'tvchannel':
+      return 'live';
+    default:
+      return undefined;
+  }
+}
+
+function hashKey(...parts: (string | number | null)[]): string {
+  return createHash('sha1')
+    .update(parts.map((p) => String(p ?? '')).join('\u0000'))
+    .digest('hex')
+    .slice(0, 24);
+}
+
+/**
+ * Apply a column mapping to a raw row
+ *
+ * @returns The mapped row, or the problems that prevent importing it
+ */
+export function mapFileImportRecord(
+  record: Record<string, string>,
+  mapping: FileImportMapping
+): { row: FileImportRow | null; errors: string[] } {
+  const errors: string[] = [];
+  const get = (field: FileImportField) => {
+    const column = mapping[field];
+    return column ? (record[column]?.trim() ?? '') : '';
+  };
+  const optional = (field: FileImportField, maxLength: number) =>
+    get(field).substring(0, maxLength) || null;
+  const integer = (field: FileImportField, label: string) => {
+    const value = get(field);
+    if (!value) return null;
+    if (!/^\d+$/.test(value)) {
+      errors.push(`${label} "${value}" is not a whole number`);
+      return null;
+    }
+    return Number(value);
+  };
+
+  const user = get('user');
+  if (!user) errors.push('User is empty');
+
+  const title = get('title');
+  if (!title) errors.push('Title is empty');
+
+  const startedAtValue = get('startedAt');
+  const startedAt = parseFileImportDate(startedAtValue);
+  if (!startedAtValue) {
+    errors.push('Start time is empty');
+  } else if (!startedAt) {
+    errors.push(`Start time "${startedAtValue}" is not a recognized date`);
+  } else if (startedAt.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+    errors.push('Start time is in the future');
+  }
+
+  const stoppedAtValue = get('stoppedAt');
+  let stoppedAt = stoppedAtValue ? parseFileImportDate(stoppedAtValue) : null;
+  if (stoppedAtValue && !stoppedAt) {
+    errors.push(`Stop time "${stoppedAtValue}" is not a recognized date`);
+  } else if (stoppedAt && startedAt && stoppedAt < startedAt) {
+    errors.push('Stop time is before start time');
+  }
+
+  const durationValue = get('duration');
+  let durationMs = durationValue ? parseFileImportDuration(durationValue) : null;
+  if (durationValue && durationMs === null) {
+    errors.push(`Duration "${durationValue}" is not a number of seconds or h:mm:ss`);
+  }
+
+  const showTitle = optional('showTitle', 255);
+  const mediaTypeValue = get('mediaType');
+  let mediaType: FileImportMediaType | undefined = showTitle ? 'episode' : 'movie';
+  if (mediaTypeValue) {
+    mediaType = parseFileImportMediaType(mediaTypeValue);
+    if (!mediaType) errors.push(`Media type "${mediaTypeValue}" is not recognized`);
+  }
+
+  const seasonNumber = integer('seasonNumber', 'Season');
+  const episodeNumber = integer('episodeNumber', 'Episode');
+  const year = integer('year', 'Year');
+
+  const ipAddress = get('ipAddress') || null;
+  if (ipAddress && !isIP(ipAddress)) {
+    errors.push(`IP address "${ipAddress}" is not valid`);
+  }
+
+  if (errors.length > 0 || !startedAt || !mediaType) {
+    return { row: null, errors };
+  }
+
+  // Fill in whichever of stop time and duration the file does not have
+  if (durationMs === null && stoppedAt) {
+    durationMs = stoppedAt.getTime() - startedAt.getTime();
+  } else if (durationMs !== null && !stoppedAt) {
+    stoppedAt = new Date(startedAt.getTime() + durationMs);
+  }
+
+  const ratingKey =
+    get('ratingKey').substring(0, 255) ||
+    `file-${hashKey(mediaType, title.toLowerCase(), showTitle?.toLowerCase() ?? null, seasonNumber, episodeNumber)}`;
+
+  return {
+    row: {
+      user,
+      title,
+      mediaType,
+      showTitle,
+      seasonNumber,
+      episodeNumber,
+      year,
+      ratingKey,
+      startedAt,
+      stoppedAt,
+      durationMs,
+      ipAddress,
+      player: optional('player', 255),
+      device: optional('device', 255),
+      platform: optional('platform', 100),
+    },
+    errors,
+  };
+}
+
+/**
+ * Build an upload preview: columns, a suggested mapping and the first rows
+ */
+export function previewHistoryFile(text: string): FileImportPreview {
+  const { format, columns, rows } = parseHistoryFile(text);
+  return {
+    format,
+    columns,
+    totalRows: rows.length,
+    sampleRows: rows.slice(0, PREVIEW_ROW_COUNT),
+    suggestedMapping: suggestFileImportMapping(columns),
+  };
+}
+
+/**
+ * Load the lookup used to match a file's user column to server users
+ *
+ * Users are matched case-insensitively by username, email, or server user ID.
+ */
+export async function createFileImportUserLookup(serverId: string): Promise<Map<string, string>> {
+  const rows = await db
+    .select({
+      id: serverUsers.id,
+      externalId: serverUsers.externalId,
+      plexAccountId: serverUsers.plexAccountId,
+      username: serverUsers.username,
+      email: serverUsers.email,
+    })
+    .from(serverUsers)
+    .where(eq(serverUsers.serverId, serverId));
+
+  const lookup = new Map<string, string>();
+  for (const row of rows) {
+    for (const key of [row.externalId, row.plexAccountId, row.email, row.username]) {
+      if (key) lookup.set(key.trim().toLowerCase(), row.id);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Validate preview rows against a mapping
+ *
+ * @param userLookup - When given, rows whose user is not on the server are flagged
+ */
+export function validateFileImportRows(
+  rows: Record<string, string>[],
+  mapping: FileImportMapping,
+  userLookup?: Map<string, string>
+): FileImportRowValidation[] {
+  return rows.map((record, index) => {
+    const { row, errors } = mapFileImportRecord(record, mapping);
+    if (row && userLookup && !userLookup.has(row.user.toLowerCase())) {
+      errors.push(`No user "${row.user}" on this server; the row will be skipped`);
+    }
+
+    const session: FileImportSessionPreview | null =
+      row && errors.length === 0
+        ? {
+            user: row.user,
+            title: row.title,
+            mediaType: row.mediaType,
+            showTitle: row.showTitle,
+            seasonNumber: row.seasonNumber,
+            episodeNumber: row.episodeNumber,
+            startedAt: row.startedAt.toISOString(),
+            stoppedAt: row.stoppedAt?.toISOString() ?? null,
+            durationMs: row.durationMs,
+            ipAddress: row.ipAddress,
+            player: row.player,
+            device: row.device,
+            platform: row.platform,
+          }
+        : null;
+
+    return { rowNumber: index + 1, errors, session };
+  });
+}
+
+/**
+ * Build the external ID used to deduplicate file rows across imports
+ */
+export function fileImportExternalId(row: FileImportRow): string {
+  return `file-${hashKey(row.user.toLowerCase(), row.ratingKey, row.startedAt.getTime())}`;
+}
+
+/**
+ * Transform a mapped file row into session insert data
+ */
+export function transformFileImportRow(
+  row: FileImportRow,
+  serverId: string,
+  serverUserId: string,
+  serverType?: ServerType
+): NewSession {
+  const externalId = fileImportExternalId(row);
+  const stoppedAt = row.stoppedAt ?? row.startedAt;
+  const isTrack = row.mediaType === 'track';
+  const isEpisode = row.mediaType === 'episode';
+  const normalized = normalizeClient(row.player ?? '', row.device ?? '', serverType);
+
+  return {
+    serverId,
+    serverUserId,
+    sessionKey: externalId,
+    plexSessionId: null,
+    ratingKey: row.ratingKey,
+    externalSessionId: externalId,
+    referenceId: null,
+    state: 'stopped',
+    mediaType: row.mediaType,
+    mediaTitle: row.title,
+    grandparentTitle: isEpisode ? row.showTitle : null,
+    seasonNumber: isEpisode ? row.seasonNumber : null,
+    episodeNumber: isEpisode ? row.episodeNumber : null,
+    year: row.year,
+    thumbPath: null,
+    artistName: isTrack ? row.showTitle : null,
+    albumName: null,
+    trackNumber: isTrack ? row.episodeNumber : null,
+    discNumber: isTrack ? row.seasonNumber : null,
+    startedAt: row.startedAt,
+    lastSeenAt: stoppedAt,
+    lastPausedAt: null,
+    stoppedAt,
+    durationMs: row.durationMs,
+    // Files rarely record runtime or completion
+    totalDurationMs: null,
+    progressMs: null,
+    pausedDurationMs: 0,
+    watched: false,
+    forceStopped: false,
+    shortSession: row.durationMs !== null && row.durationMs < 120000,
+    ipAddress: row.ipAddress ?? '0.0.0.0',
+    playerName: (row.player ?? row.device ?? 'Unknown').substring(0, 255),
+    device: (row.device ?? normalized.device).substring(0, 255),
+    deviceId: null,
+    product: row.player,
+    platform: (row.platform ?? normalized.platform).substring(0, 100),
+    quality: null,
+    isTranscode: false,
+    videoDecision: null,
+    audioDecision: null,
+    bitrate: null,
+  };
+}
+
+/**
+ * Import a generic CSV/JSON history file into Tracearr
+ *
+ * @param serverId - Target Tracearr server ID
+ * @param fileContents - Raw CSV/TSV or JSON file
+ * @param mapping - Session field -> column name
+ * @param pubSubService - Optional pub/sub service for progress updates
+ * @param onProgress - Optional callback for each published update (job progress, lock extension)
+ */
+export async function importHistoryFile(
+  serverId: string,
+  fileContents: string,
+  mapping: FileImportMapping,
+  pubSubService?: PubSubService,
+  onProgress?: (progress: HistoryImportProgress) => Promise<void>
+): Promise<HistoryImportResult> {
+  const progress: HistoryImportProgress = {
+    status: 'idle',
+    totalRecords: 0,
+    processedRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message: 'Starting import...',
+  };
+
+  const tracker = createProgressTracker<HistoryImportProgress>({
+    pubSubService,
+    channel: 'import:file:progress',
+    throttleMs: PROGRESS_THROTTLE_MS,
+    throttleRecords: PROGRESS_RECORD_INTERVAL,
+    onProgress: onProgress ? () => onProgress(progress) : undefined,
+  });
+
+  tracker.forcePublish(progress);
+
+  try {
+    progress.status = 'parsing';
+    progress.message = 'Parsing file...';
+    tracker.forcePublish(progress);
+
+    const { columns, rows } = parseHistoryFile(fileContents);
+    const mappingErrors = validateFileImportMapping(mapping, columns);
+    if (mappingErrors.length > 0) {
+      throw new Error(mappingErrors.join('; '));
+    }
+
+    progress.totalRecords = rows.length;
+
+    if (rows.length === 0) {
+      const message = 'No rows found in file';
+      progress.status = 'complete';
+      progress.message = message;
+      tracker.forcePublish(progress);
+      return { success: true, imported: 0, skipped: 0, errors: 0, message };
+    }
+
+    const [server] = await db.select().from(servers).where(eq(servers.id, serverId)).limit(1);
+
+    if (!server) {
+      throw new Error(`Server not found: ${serverId}`);
+    }
+
+    const userLookup = await createFileImportUserLookup(serverId);
+    const skippedUserTracker = createSkippedUserTracker();
+
+    const dedup = createDeduplicationContext<NewSession, string>(serverId, {
+      getExternalId: (s) => s.externalSessionId ?? null,
+      getTimeKey: (s) =>
+        s.ratingKey && s.startedAt
+          ? { serverUserId: s.serverUserId, ratingKey: s.ratingKey, startedAt: s.startedAt }
+          : null,
+    });
+    const insertBatch = createInsertBatchCollector({ chunkSize: INSERT_CHUNK_SIZE });
+
+    progress.status = 'processing';
+    progress.message = 'Processing records...';
+    tracker.forcePublish(progress);
+
+    let minImportDate: Date | null = null;
+    let maxImportDate: Date | null = null;
+    let skipped = 0;
+    let errors = 0;
+
+    for (let chunkStart = 0; chunkStart < rows.length; chunkStart += CHUNK_SIZE) {
+      const chunk = rows.slice(chunkStart, chunkStart + CHUNK_SIZE);
+      const candidates: NewSession[] = [];
+
+      for (const record of chunk) {
+        progress.processedRecords++;
+
+        const { row } = mapFileImportRecord(record, mapping);
+        if (!row) {
+          errors++;
+          progress.errorRecords++;
+          continue;
+        }
+
+        const serverUserId = userLookup.get(row.user.toLowerCase());
+        if (!serverUserId) {
+          skippedUserTracker.track(row.user, row.user);
+          skipped++;
+          progress.skippedRecords++;
+          continue;
+        }
+
+        candidates.push(transformFileImportRow(row, serverId, serverUserId, server.type));
+      }
+
+      const { toInsert, skipped: duplicateCount } = await dedup.deduplicate(candidates);
+      skipped += duplicateCount;
+      progress.skippedRecords += duplicateCount;
+
+      // Skip plays Tracearr already tracked live or imported from another source
+      if (toInsert.length > 0) {
+        const starts = toInsert.map((s) => s.startedAt!.getTime());
+        const stops = toInsert.map((s) => s.stoppedAt!.getTime());
+        const existing = await queryExistingByMediaKeys(
+          serverId,
+          toInsert.map((s) => ({ serverUserId: s.serverUserId, ratingKey: s.ratingKey! })),
+          { minTime: new Date(Math.min(...starts)), maxTime: new Date(Math.max(...stops)) }
+        );
+
+        for (const session of toInsert) {
+          const overlapping = findOverlappingSession(
+            existing.get(createMediaKey(session.serverUserId, session.ratingKey!)),
+            session.startedAt!,
+            session.stoppedAt!,
+            OVERLAP_TOLERANCE_MS
+          );
+          if (overlapping) {
+            skipped++;
+            progress.skippedRecords++;
+            continue;
+          }
+
+          insertBatch.add(session);
+          progress.importedRecords++;
+          const startedAt = session.startedAt!;
+          if (!minImportDate || startedAt < minImportDate) minImportDate = startedAt;
+          if (!maxImportDate || startedAt > maxImportDate) maxImportDate = startedAt;
+        }
+      }
+
+      if (insertBatch.shouldFlush()) {
+        await insertBatch.flush();
+      }
+
+      progress.message = `Processing: ${progress.processedRecords}/${progress.totalRecords}`;
+      tracker.publish(progress, progress.processedRecords);
+    }
+
+    await insertBatch.flush();
+    const imported = insertBatch.totalInserted;
+
+    if (errors > 0) {
+      console.warn(`[FileImport] Skipped ${errors} rows that failed validation`);
+    }
+
+    progress.message = 'Refreshing aggregates...';
+    tracker.forcePublish(progress);
+    await refreshAggregatesAfterImport('[FileImport]', minImportDate, maxImportDate);
+
+    let message = `Import complete: ${imported} imported, ${skipped} skipped, ${errors} errors`;
+    const skippedUsersWarning = skippedUserTracker.formatWarning();
+    if (skippedUsersWarning) {
+      message += `. Warning: ${skippedUsersWarning}`;
+    }
+
+    progress.status = 'complete';
+    progress.message = message;
+    tracker.forcePublish(progress);
+
+    return {
+      success: true,
+      imported,
+      skipped,
+      errors,
+      message,
+      skippedUsers:
+        skippedUserTracker.size > 0
+          ? skippedUserTracker.getAll().map((u) => ({
+              externalUserId: u.externalId,
+              username: u.username,
+              recordCount: u.count,
+            }))
+          : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[FileImport] Import failed:', error);
+
+    progress.status = 'error';
+    progress.message = `Import failed: ${errorMessage}`;
+    tracker.forcePublish(progress);
+
+    return {
+      success: false,
+      imported: progress.importedRecords,
+      skipped: progress.skippedRecords,
+      errors: progress.errorRecords,
+      message: `Import failed: ${errorMessage}`,
+    };
+  }
+}
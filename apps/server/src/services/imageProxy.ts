@@ -22,6 +22,7 @@ import { TIME_MS } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { servers } from '../db/schema.js';
 import { registerService, unregisterService } from './serviceTracker.js';
+import { SubsonicClient } from './mediaServer/subsonic/client.js';
 // Token encryption removed - tokens now stored in plain text (DB is localhost-only)
 
 // Cache directory (in project root/data/image-cache)
@@ -228,6 +229,12 @@ export async function proxyImage(options: ProxyOptions): Promise<ProxyResult> {
     const separator = imagePath.includes('?') ? '&' : '?';
     imageUrl = `${baseUrl}${imagePath}${separator}X-Plex-Token=${token}`;
     headers['Accept'] = 'image/*';
+  } else if (server.type === 'subsonic') {
+    // Subsonic image paths are REST endpoints (/rest/getCoverArt?id=...) authenticated via query
+    const baseUrl = server.url.replace(/\/$/, '');
+    const separator = imagePath.includes('?') ? '&' : '?';
+    imageUrl = `${baseUrl}${imagePath}${separator}${SubsonicClient.buildImageQuery(token)}`;
+    headers['Accept'] = 'image/*';
   } else {
     // Jellyfin - imagePath should include the full endpoint
     const baseUrl = server.url.replace(/\/$/, '');
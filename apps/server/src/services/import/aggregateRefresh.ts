@@ -0,0 +1,55 @@
+/**
+ * Aggregate Refresh Module
+ *
+ * Refreshes continuous aggregates for the date range an import touched, and
+ * queues a full rebuild when a fresh install is missing older history.
+ */
+
+import { refreshAggregates, checkAggregateNeedsRebuild } from '../../db/timescale.js';
+import { enqueueMaintenanceJob } from '../../jobs/maintenanceQueue.js';
+
+const REFRESH_BUFFER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Refresh aggregates after an import
+ *
+ * Never throws - aggregate refresh failures must not fail an otherwise successful import.
+ *
+ * @param logPrefix - Log prefix of the calling importer (e.g. '[PlexHistory]')
+ * @param minImportDate - Earliest imported session start (null when nothing was imported)
+ * @param maxImportDate - Latest imported session start
+ */
+export async function refreshAggregatesAfterImport(
+  logPrefix: string,
+  minImportDate: Date | null,
+  maxImportDate: Date | null
+): Promise<void> {
+  try {
+    // Bounded refresh with 1 day buffer on each side for timezone edge cases
+    if (minImportDate && maxImportDate) {
+      const startTime = new Date(minImportDate.getTime() - REFRESH_BUFFER_MS);
+      const endTime = new Date(maxImportDate.getTime() + REFRESH_BUFFER_MS);
+      console.log(
+        `${logPrefix} Refreshing aggregates for date range: ${startTime.toISOString()} to ${endTime.toISOString()}`
+      );
+      await refreshAggregates({ startTime, endTime });
+    } else {
+      await refreshAggregates();
+    }
+
+    const rebuildStatus = await checkAggregateNeedsRebuild();
+    if (rebuildStatus.needsRebuild) {
+      console.log(
+        `${logPrefix} Fresh install detected - queueing safe aggregate rebuild: ${rebuildStatus.reason}`
+      );
+      try {
+        await enqueueMaintenanceJob('full_aggregate_rebuild', 'system');
+      } catch {
+        // Job might already be running/queued - that's fine
+        console.log(`${logPrefix} Could not queue aggregate rebuild (may already be running)`);
+      }
+    }
+  } catch (err) {
+    console.warn(`${logPrefix} Failed to refresh aggregates after import:`, err);
+  }
+}
@@ -5,7 +5,10 @@
  * 1. Tier 1: Match by externalSessionId (fast, exact)
  * 2. Tier 2: Match by composite time-based key (fallback for missing external IDs)
  *
- * Used by both Tautulli and Jellystat importers.
+ * Sources without exact start times (Plex history, Playback Reporting) can additionally
+ * match against any session of the same user and item in an overlapping time window.
+ *
+ * Used by the Tautulli, Jellystat, Plex history and Playback Reporting importers.
  */
 
 import { eq, and, inArray, gte, lte } from 'drizzle-orm';
@@ -224,6 +227,109 @@ export function createTimeKey(serverUserId: string, ratingKey: string, startedAt
   return `${serverUserId}:${ratingKey}:${startedAt.getTime()}`;
 }
 
+/**
+ * Create a user + media key string for overlap matching
+ */
+export function createMediaKey(serverUserId: string, ratingKey: string): string {
+  return `${serverUserId}:${ratingKey}`;
+}
+
+/**
+ * Query existing sessions by user + media pairs within time bounds
+ *
+ * Returns every matching session grouped by media key so callers can check
+ * for overlapping plays. Chunked like the other dedup queries.
+ */
+export async function queryExistingByMediaKeys(
+  serverId: string,
+  keys: Array<{ serverUserId: string; ratingKey: string }>,
+  timeBounds: TimeBounds
+): Promise<Map<string, ExistingSession[]>> {
+  if (keys.length === 0) return new Map();
+
+  const map = new Map<string, ExistingSession[]>();
+  const wanted = new Set(keys.map((k) => createMediaKey(k.serverUserId, k.ratingKey)));
+  const uniqueRatingKeys = [...new Set(keys.map((k) => k.ratingKey))];
+  const uniqueUserIds = [...new Set(keys.map((k) => k.serverUserId))];
+
+  const minTime = new Date(timeBounds.minTime.getTime() - TIME_BOUNDS_BUFFER_MS);
+  const maxTime = new Date(timeBounds.maxTime.getTime() + TIME_BOUNDS_BUFFER_MS);
+
+  for (let i = 0; i < uniqueRatingKeys.length; i += DEDUP_CHUNK_SIZE) {
+    const ratingKeyChunk = uniqueRatingKeys.slice(i, i + DEDUP_CHUNK_SIZE);
+
+    const existing = await db
+      .select({
+        id: sessions.id,
+        externalSessionId: sessions.externalSessionId,
+        ratingKey: sessions.ratingKey,
+        startedAt: sessions.startedAt,
+        serverUserId: sessions.serverUserId,
+        totalDurationMs: sessions.totalDurationMs,
+        stoppedAt: sessions.stoppedAt,
+        durationMs: sessions.durationMs,
+        pausedDurationMs: sessions.pausedDurationMs,
+        watched: sessions.watched,
+        sourceVideoCodec: sessions.sourceVideoCodec,
+      })
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.serverId, serverId),
+          inArray(sessions.ratingKey, ratingKeyChunk),
+          inArray(sessions.serverUserId, uniqueUserIds),
+          gte(sessions.startedAt, minTime),
+          lte(sessions.startedAt, maxTime)
+        )
+      );
+
+    for (const s of existing) {
+      if (!s.ratingKey) continue;
+      const key = createMediaKey(s.serverUserId, s.ratingKey);
+      if (!wanted.has(key)) continue;
+      const list = map.get(key);
+      if (list) {
+        list.push(s);
+      } else {
+        map.set(key, [s]);
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Find an existing session that overlaps a play window
+ *
+ * @param candidates - Existing sessions for the same user + media
+ * @param startedAt - Start of the incoming play
+ * @param stoppedAt - End of the incoming play
+ * @param toleranceMs - Slack applied on both sides of the window
+ */
+export function findOverlappingSession(
+  candidates: ExistingSession[] | undefined,
+  startedAt: Date,
+  stoppedAt: Date,
+  toleranceMs: number
+): ExistingSession | null {
+  if (!candidates) return null;
+
+  const windowStart = startedAt.getTime() - toleranceMs;
+  const windowEnd = stoppedAt.getTime() + toleranceMs;
+
+  for (const session of candidates) {
+    if (!session.startedAt) continue;
+    const sessionStart = session.startedAt.getTime();
+    const sessionEnd = (session.stoppedAt ?? session.startedAt).getTime();
+    if (sessionStart <= windowEnd && sessionEnd >= windowStart) {
+      return session;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Deduplicate a batch of records against existing sessions
  *
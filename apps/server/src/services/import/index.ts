@@ -2,7 +2,7 @@
  * Import Utilities
  *
  * Shared modules for session import operations.
- * Used by Tautulli and Jellystat importers.
+ * Used by the Tautulli, Jellystat, Plex history and Playback Reporting importers.
  */
 
 // Deduplication
@@ -14,6 +14,9 @@ export {
   queryExistingByExternalIds,
   queryExistingByTimeKeys,
   createTimeKey,
+  createMediaKey,
+  queryExistingByMediaKeys,
+  findOverlappingSession,
   deduplicateBatch,
   createDeduplicationContext,
 } from './deduplication.js';
@@ -44,3 +47,6 @@ export {
   createProgressTracker,
   createSimpleProgressPublisher,
 } from './progressTracker.js';
+
+// Aggregate Refresh
+export { refreshAggregatesAfterImport } from './aggregateRefresh.js';
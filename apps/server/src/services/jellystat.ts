@@ -58,7 +58,7 @@ const TICKS_TO_MS = 10000; // 100ns ticks to ms
 /**
  * Media enrichment data from Jellyfin/Emby API
  */
-interface MediaEnrichment {
+export interface MediaEnrichment {
   seasonNumber?: number;
   episodeNumber?: number;
   year?: number;
@@ -266,7 +266,7 @@ export function extractJellystatStreamDetails(
 /**
  * Interface for clients that support getItems (both Jellyfin and Emby)
  */
-interface MediaServerClientWithItems {
+export interface MediaServerClientWithItems {
   getItems(ids: string[]): Promise<
     {
       Id: string;
@@ -463,8 +463,10 @@ export function transformActivityToSession(
 
 /**
  * Batch fetch media enrichment data from Jellyfin/Emby
+ *
+ * Also used by the Playback Reporting importer, whose export has no metadata beyond item names.
  */
-async function fetchMediaEnrichment(
+export async function fetchMediaEnrichment(
   client: MediaServerClientWithItems,
   mediaIds: string[]
 ): Promise<Map<string, MediaEnrichment>> {
@@ -524,7 +526,7 @@ async function fetchMediaEnrichment(
       }
     }
   } catch (error) {
-    console.warn('[Jellystat] Media enrichment batch failed:', error);
+    console.warn('[Import] Media enrichment batch failed:', error);
   }
 
   return enrichmentMap;
@@ -13,7 +13,8 @@ import { eq, and, inArray, sql, gte, lt } from 'drizzle-orm';
 import { db } from '../db/client.js';
 import { servers, libraryItems, librarySnapshots } from '../db/schema.js';
 import { createMediaServerClient, type MediaLibraryItem } from './mediaServer/index.js';
-import type { LibrarySyncProgress } from '@tracearr/shared';
+import { getMediaServerCapabilities } from './mediaServer/registry.js';
+import type { LibrarySyncProgress, ServerType } from '@tracearr/shared';
 import { getHeavyOpsStatus } from '../jobs/heavyOpsLock.js';
 
 // Constants for batching and rate limiting
@@ -68,6 +69,11 @@ export class LibrarySyncService {
       throw new Error(`Server not found: ${serverId}`);
     }
 
+    if (!getMediaServerCapabilities(server.type).libraryItems) {
+      console.log(`[LibrarySync] Library scanning not supported for ${server.name}, skipping`);
+      return results;
+    }
+
     const startedAt = new Date().toISOString();
 
     // Create media server client
@@ -725,7 +731,7 @@ export class LibrarySyncService {
   private async getServer(serverId: string): Promise<{
     id: string;
     name: string;
-    type: 'plex' | 'jellyfin' | 'emby';
+    type: ServerType;
     url: string;
     token: string;
   } | null> {
@@ -0,0 +1,179 @@
+/**
+ * Recorded Subsonic API Responses
+ *
+ * Captured from a Navidrome 0.53 server (f=json) with identifying values replaced.
+ * Used by the Subsonic parser and client tests.
+ */
+
+export const pingResponse = {
+  'subsonic-response': {
+    status: 'ok',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+  },
+};
+
+export const wrongCredentialsResponse = {
+  'subsonic-response': {
+    status: 'failed',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+    error: { code: 40, message: 'Wrong username or password' },
+  },
+};
+
+export const nowPlayingResponse = {
+  'subsonic-response': {
+    status: 'ok',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+    nowPlaying: {
+      entry: [
+        {
+          id: '2f5b7c1e9a8d4e3f',
+          parent: '7c0e1d2a3b4c5d6e',
+          isDir: false,
+          title: 'Windowlicker',
+          album: 'Windowlicker',
+          artist: 'Aphex Twin',
+          track: 1,
+          year: 1999,
+          genre: 'Electronic',
+          coverArt: 'al-7c0e1d2a3b4c5d6e_0',
+          size: 14920417,
+          contentType: 'audio/flac',
+          suffix: 'flac',
+          duration: 367,
+          bitRate: 1011,
+          path: 'Aphex Twin/Windowlicker/01 - Windowlicker.flac',
+          discNumber: 1,
+          created: '2024-03-02T18:11:05.120Z',
+          albumId: '7c0e1d2a3b4c5d6e',
+          artistId: '9a1b2c3d4e5f6a7b',
+          type: 'music',
+          isVideo: false,
+          username: 'alice',
+          minutesAgo: 2,
+          playerId: 3,
+          playerName: 'Feishin',
+        },
+        {
+          id: '8e7d6c5b4a392817',
+          parent: '1a2b3c4d5e6f7a8b',
+          isDir: false,
+          title: 'Teardrop',
+          album: 'Mezzanine',
+          artist: 'Massive Attack',
+          track: 3,
+          year: 1998,
+          coverArt: 'al-1a2b3c4d5e6f7a8b_0',
+          size: 7711230,
+          contentType: 'audio/mpeg',
+          suffix: 'mp3',
+          duration: 330,
+          bitRate: 320,
+          path: 'Massive Attack/Mezzanine/03 - Teardrop.mp3',
+          created: '2024-01-15T09:40:51.004Z',
+          albumId: '1a2b3c4d5e6f7a8b',
+          artistId: '2b3c4d5e6f7a8b9c',
+          type: 'music',
+          isVideo: false,
+          username: 'bob',
+          minutesAgo: 12,
+          playerId: 7,
+          playerName: 'DSub',
+        },
+      ],
+    },
+  },
+};
+
+export const emptyNowPlayingResponse = {
+  'subsonic-response': {
+    status: 'ok',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+    nowPlaying: {},
+  },
+};
+
+export const usersResponse = {
+  'subsonic-response': {
+    status: 'ok',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+    users: {
+      user: [
+        {
+          username: 'alice',
+          email: 'alice@example.com',
+          scrobblingEnabled: true,
+          adminRole: true,
+          settingsRole: true,
+          downloadRole: true,
+          uploadRole: false,
+          playlistRole: true,
+          coverArtRole: true,
+          commentRole: false,
+          podcastRole: false,
+          streamRole: true,
+          jukeboxRole: false,
+          shareRole: true,
+          videoConversionRole: false,
+          folder: [1],
+        },
+        {
+          username: 'bob',
+          scrobblingEnabled: true,
+          adminRole: false,
+          settingsRole: true,
+          downloadRole: true,
+          uploadRole: false,
+          playlistRole: true,
+          coverArtRole: true,
+          commentRole: false,
+          podcastRole: false,
+          streamRole: true,
+          jukeboxRole: false,
+          shareRole: false,
+          videoConversionRole: false,
+          folder: [1],
+        },
+      ],
+    },
+  },
+};
+
+export const userResponse = {
+  'subsonic-response': {
+    status: 'ok',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+    user: usersResponse['subsonic-response'].users.user[0],
+  },
+};
+
+export const musicFoldersResponse = {
+  'subsonic-response': {
+    status: 'ok',
+    version: '1.16.1',
+    type: 'navidrome',
+    serverVersion: '0.53.3 (13af8ed4)',
+    openSubsonic: true,
+    musicFolders: {
+      musicFolder: [{ id: 1, name: 'Music Library' }],
+    },
+  },
+};
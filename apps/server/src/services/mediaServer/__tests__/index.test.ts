@@ -21,6 +21,11 @@ import {
   PlexClient,
   JellyfinClient,
   EmbyClient,
+  SubsonicClient,
+  getMediaServerAdapter,
+  getMediaServerCapabilities,
+  getRegisteredServerTypes,
+  registerMediaServerAdapter,
   type IMediaServerClient,
   type MediaSession,
   type MediaUser,
@@ -65,6 +70,17 @@ describe('createMediaServerClient', () => {
     expect(client.serverType).toBe('emby');
   });
 
+  it('should create SubsonicClient for type "subsonic"', () => {
+    const client = createMediaServerClient({
+      type: 'subsonic',
+      url: 'http://navidrome.local:4533',
+      token: 'u=admin&t=token&s=salt',
+    });
+
+    expect(client).toBeInstanceOf(SubsonicClient);
+    expect(client.serverType).toBe('subsonic');
+  });
+
   it('should throw error for unknown server type', () => {
     expect(() =>
       createMediaServerClient({
@@ -398,3 +414,63 @@ describe('Polymorphic Client Usage', () => {
     expect(clients.filter((c) => c.serverType === 'emby')).toHaveLength(1);
   });
 });
+
+// ============================================================================
+// Adapter Registry Tests
+// ============================================================================
+
+describe('Media server adapter registry', () => {
+  it('should register an adapter for every built-in server type', () => {
+    expect(getRegisteredServerTypes()).toEqual(
+      expect.arrayContaining(['plex', 'jellyfin', 'emby', 'subsonic'])
+    );
+  });
+
+  it('should describe push channels per server type', () => {
+    expect(getMediaServerCapabilities('plex').realtime).toBe('sse');
+    expect(getMediaServerCapabilities('jellyfin').realtime).toBe('websocket');
+    expect(getMediaServerCapabilities('emby').realtime).toBe('websocket');
+    expect(getMediaServerCapabilities('subsonic').realtime).toBeNull();
+  });
+
+  it('should mark unsupported Subsonic features', () => {
+    expect(getMediaServerCapabilities('subsonic')).toEqual({
+      users: true,
+      libraries: true,
+      libraryItems: false,
+      terminateSession: false,
+      watchHistory: false,
+      resourceUsage: false,
+      realtime: null,
+    });
+  });
+
+  it('should throw for unknown server types', () => {
+    expect(() => getMediaServerAdapter('unknown' as 'plex')).toThrow('Unknown media server type');
+  });
+
+  it('should create clients through a registered adapter', () => {
+    const original = getMediaServerAdapter('subsonic');
+    const createClient = vi.fn(original.createClient);
+
+    registerMediaServerAdapter({ ...original, createClient });
+    try {
+      const client = createMediaServerClient({
+        type: 'subsonic',
+        url: 'http://navidrome.local:4533',
+        token: 'u=admin&t=token&s=salt',
+        name: 'Navidrome',
+      });
+
+      expect(client).toBeInstanceOf(SubsonicClient);
+      expect(createClient).toHaveBeenCalledWith({
+        url: 'http://navidrome.local:4533',
+        token: 'u=admin&t=token&s=salt',
+        id: undefined,
+        name: 'Navidrome',
+      });
+    } finally {
+      registerMediaServerAdapter(original);
+    }
+  });
+});
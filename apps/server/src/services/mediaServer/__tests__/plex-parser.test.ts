@@ -25,6 +25,11 @@ import {
   parseMediaMetadataResponse,
   parseLibraryItemsResponse,
   getTranscodingSessionRatingKeys,
+  parsePlexHistoryPage,
+  parsePlexItemInfoResponse,
+  parsePlexDevicesResponse,
+  parseStatisticsResourcesResponse,
+  averageStatisticsDataPoints,
   type PlexOriginalMedia,
 } from '../plex/parser.js';
 
@@ -1518,3 +1523,174 @@ describe('Plex Library Item Parser', () => {
     });
   });
 });
+
+describe('Plex Play History Parser', () => {
+  describe('parsePlexHistoryPage', () => {
+    it('parses history entries and the total count', () => {
+      const result = parsePlexHistoryPage({
+        MediaContainer: {
+          size: 2,
+          totalSize: 1200,
+          Metadata: [
+            {
+              historyKey: '/status/sessions/history/4821',
+              ratingKey: '12345',
+              title: 'Office Olympics',
+              type: 'episode',
+              grandparentTitle: 'The Office',
+              parentIndex: '2',
+              index: '3',
+              thumb: '/library/metadata/12345/thumb/1',
+              grandparentThumb: '/library/metadata/100/thumb/1',
+              viewedAt: 1710100800,
+              accountID: 1,
+              deviceID: 7,
+            },
+            {
+              historyKey: '/status/sessions/history/4822',
+              ratingKey: '678',
+              title: 'Heat',
+              type: 'movie',
+              thumb: '/library/metadata/678/thumb/1',
+              viewedAt: 1710104400,
+            },
+          ],
+        },
+      });
+
+      expect(result.totalCount).toBe(1200);
+      expect(result.entries).toHaveLength(2);
+      expect(result.entries[0]).toMatchObject({
+        historyId: '4821',
+        ratingKey: '12345',
+        type: 'episode',
+        grandparentTitle: 'The Office',
+        parentIndex: 2,
+        index: 3,
+        thumbPath: '/library/metadata/100/thumb/1',
+        viewedAt: 1710100800,
+        accountId: '1',
+        deviceId: '7',
+      });
+      expect(result.entries[1]).toMatchObject({
+        historyId: '4822',
+        type: 'movie',
+        thumbPath: '/library/metadata/678/thumb/1',
+        accountId: undefined,
+      });
+    });
+
+    it('drops entries without a history or rating key', () => {
+      const result = parsePlexHistoryPage({
+        MediaContainer: {
+          totalSize: 2,
+          Metadata: [{ ratingKey: '1', title: 'No key' }, { historyKey: '/x/2' }],
+        },
+      });
+
+      expect(result.entries).toEqual([]);
+      expect(result.totalCount).toBe(2);
+    });
+
+    it('handles an empty container', () => {
+      expect(parsePlexHistoryPage({ MediaContainer: { size: 0 } })).toEqual({
+        entries: [],
+        totalCount: 0,
+      });
+    });
+  });
+
+  describe('parsePlexItemInfoResponse', () => {
+    it('parses runtime and year', () => {
+      expect(
+        parsePlexItemInfoResponse({
+          MediaContainer: {
+            Metadata: [
+              { ratingKey: '1', duration: 1320000, year: 2005 },
+              { ratingKey: '2' },
+              { title: 'missing key' },
+            ],
+          },
+        })
+      ).toEqual([
+        { ratingKey: '1', durationMs: 1320000, year: 2005 },
+        { ratingKey: '2', durationMs: undefined, year: undefined },
+      ]);
+    });
+  });
+
+  describe('parsePlexDevicesResponse', () => {
+    it('parses devices', () => {
+      expect(
+        parsePlexDevicesResponse({
+          MediaContainer: {
+            Device: [
+              { id: 7, name: 'Living Room', platform: 'Roku', clientIdentifier: 'roku-abc' },
+              { name: 'No id' },
+            ],
+          },
+        })
+      ).toEqual([{ id: '7', name: 'Living Room', platform: 'Roku', clientIdentifier: 'roku-abc' }]);
+    });
+  });
+});
+
+// ============================================================================
+// Statistics Resources Tests
+// ============================================================================
+
+describe('Plex Statistics Parser', () => {
+  const response = {
+    MediaContainer: {
+      StatisticsResources: [
+        {
+          at: 1000,
+          timespan: 6,
+          hostCpuUtilization: 20,
+          processCpuUtilization: 10,
+          hostMemoryUtilization: 50,
+          processMemoryUtilization: 5,
+        },
+        {
+          at: 1060,
+          timespan: 6,
+          hostCpuUtilization: 40,
+          processCpuUtilization: 30.25,
+          hostMemoryUtilization: 60,
+          processMemoryUtilization: 7,
+        },
+        {
+          at: 1066,
+          timespan: 6,
+          hostCpuUtilization: 60,
+          processCpuUtilization: 50,
+          hostMemoryUtilization: 62,
+          processMemoryUtilization: 8,
+        },
+      ],
+    },
+  };
+
+  it('should parse data points newest first', () => {
+    const points = parseStatisticsResourcesResponse(response);
+    expect(points.map((p) => p.at)).toEqual([1066, 1060, 1000]);
+  });
+
+  it('should average data points inside the window', () => {
+    const points = parseStatisticsResourcesResponse(response);
+    expect(averageStatisticsDataPoints(points, 1060)).toEqual({
+      hostCpuUtilization: 50,
+      processCpuUtilization: 40.1,
+      hostMemoryUtilization: 61,
+      processMemoryUtilization: 7.5,
+    });
+    expect(averageStatisticsDataPoints(points)?.hostCpuUtilization).toBe(40);
+  });
+
+  it('should return null when no points are in the window', () => {
+    expect(averageStatisticsDataPoints([])).toBeNull();
+    expect(
+      averageStatisticsDataPoints(parseStatisticsResourcesResponse(response), 2000)
+    ).toBeNull();
+  });
+});
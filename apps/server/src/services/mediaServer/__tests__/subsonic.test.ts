@@ -0,0 +1,302 @@
+/**
+ * Subsonic Parser and Client Tests
+ *
+ * Runs against recorded Navidrome responses (see fixtures/subsonic.ts).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseMusicFoldersResponse,
+  parseNowPlayingResponse,
+  parseUsersResponse,
+  SubsonicApiError,
+  unwrapResponse,
+} from '../subsonic/parser.js';
+import { SubsonicClient, buildSubsonicToken } from '../subsonic/client.js';
+import {
+  emptyNowPlayingResponse,
+  musicFoldersResponse,
+  nowPlayingResponse,
+  pingResponse,
+  userResponse,
+  usersResponse,
+  wrongCredentialsResponse,
+} from './fixtures/subsonic.js';
+
+const TOKEN = 'u=alice&t=26719a1196d2a940705a59634eb18eab&s=c19b2d';
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => body,
+  };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+describe('Subsonic Parser', () => {
+  describe('unwrapResponse', () => {
+    it('should return the envelope for ok responses', () => {
+      expect(unwrapResponse(pingResponse).status).toBe('ok');
+    });
+
+    it('should throw SubsonicApiError with the error code for failed responses', () => {
+      expect(() => unwrapResponse(wrongCredentialsResponse)).toThrow(SubsonicApiError);
+      try {
+        unwrapResponse(wrongCredentialsResponse);
+      } catch (error) {
+        expect((error as SubsonicApiError).code).toBe(40);
+        expect((error as SubsonicApiError).message).toBe(
+          'Subsonic error 40: Wrong username or password'
+        );
+      }
+    });
+
+    it('should throw for responses without an envelope', () => {
+      expect(() => unwrapResponse({ foo: 'bar' })).toThrow('Invalid response');
+    });
+  });
+
+  describe('parseNowPlayingResponse', () => {
+    it('should parse now playing entries into track sessions', () => {
+      const sessions = parseNowPlayingResponse(nowPlayingResponse);
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions[0]).toMatchObject({
+        sessionKey: 'alice:3',
+        mediaId: '2f5b7c1e9a8d4e3f',
+        user: { id: 'alice', username: 'alice' },
+        media: {
+          title: 'Windowlicker',
+          type: 'track',
+          durationMs: 367_000,
+          year: 1999,
+          genres: ['Electronic'],
+          thumbPath: '/rest/getCoverArt?id=al-7c0e1d2a3b4c5d6e_0',
+        },
+        music: {
+          artistName: 'Aphex Twin',
+          albumName: 'Windowlicker',
+          trackNumber: 1,
+          discNumber: 1,
+        },
+        player: { name: 'Feishin', deviceId: '3', product: 'Feishin' },
+        quality: {
+          bitrate: 1011,
+          isTranscode: false,
+          videoDecision: 'directplay',
+          audioDecision: 'directplay',
+          sourceAudioCodec: 'FLAC',
+        },
+      });
+    });
+
+    it('should estimate position from minutesAgo', () => {
+      const [session] = parseNowPlayingResponse(nowPlayingResponse);
+
+      expect(session!.playback.state).toBe('playing');
+      expect(session!.playback.positionMs).toBe(120_000);
+      expect(session!.playback.progressPercent).toBe(33);
+    });
+
+    it('should cap the estimated position at the track duration', () => {
+      const session = parseNowPlayingResponse(nowPlayingResponse)[1]!;
+
+      expect(session.playback.positionMs).toBe(330_000);
+      expect(session.playback.progressPercent).toBe(100);
+    });
+
+    it('should return an empty array when nothing is playing', () => {
+      expect(parseNowPlayingResponse(emptyNowPlayingResponse)).toEqual([]);
+    });
+
+    it('should accept a single entry object instead of an array', () => {
+      const entry = nowPlayingResponse['subsonic-response'].nowPlaying.entry[0];
+      const sessions = parseNowPlayingResponse({
+        'subsonic-response': { status: 'ok', nowPlaying: { entry } },
+      });
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]!.sessionKey).toBe('alice:3');
+    });
+  });
+
+  describe('parseUsersResponse', () => {
+    it('should identify users by username and map admin role', () => {
+      const users = parseUsersResponse(usersResponse);
+
+      expect(users).toEqual([
+        {
+          id: 'alice',
+          username: 'alice',
+          email: 'alice@example.com',
+          isAdmin: true,
+          sharedLibraries: ['1'],
+        },
+        {
+          id: 'bob',
+          username: 'bob',
+          email: undefined,
+          isAdmin: false,
+          sharedLibraries: ['1'],
+        },
+      ]);
+    });
+  });
+
+  describe('parseMusicFoldersResponse', () => {
+    it('should map music folders to music libraries', () => {
+      expect(parseMusicFoldersResponse(musicFoldersResponse)).toEqual([
+        { id: '1', name: 'Music Library', type: 'music' },
+      ]);
+    });
+  });
+});
+
+// ============================================================================
+// Client
+// ============================================================================
+
+describe('SubsonicClient', () => {
+  const originalFetch = global.fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    global.fetch = mockFetch as typeof global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should authenticate requests with the stored token parameters', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(nowPlayingResponse));
+    const client = new SubsonicClient({ url: 'http://navidrome.local:4533/', token: TOKEN });
+
+    const sessions = await client.getSessions();
+
+    expect(sessions).toHaveLength(2);
+    const url = new URL(mockFetch.mock.calls[0]![0] as string);
+    expect(url.origin + url.pathname).toBe('http://navidrome.local:4533/rest/getNowPlaying');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      u: 'alice',
+      t: '26719a1196d2a940705a59634eb18eab',
+      s: 'c19b2d',
+      v: '1.13.0',
+      c: 'Tracearr',
+      f: 'json',
+    });
+  });
+
+  it('should fetch users and music folders', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(usersResponse))
+      .mockResolvedValueOnce(jsonResponse(musicFoldersResponse));
+    const client = new SubsonicClient({ url: 'http://navidrome.local:4533', token: TOKEN });
+
+    expect(await client.getUsers()).toHaveLength(2);
+    expect(await client.getLibraries()).toEqual([
+      { id: '1', name: 'Music Library', type: 'music' },
+    ]);
+    expect(mockFetch.mock.calls[1]![0]).toContain('/rest/getMusicFolders?');
+  });
+
+  it('should report connection status from ping', async () => {
+    const client = new SubsonicClient({ url: 'http://navidrome.local:4533', token: TOKEN });
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(pingResponse));
+    expect(await client.testConnection()).toBe(true);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(wrongCredentialsResponse));
+    expect(await client.testConnection()).toBe(false);
+  });
+
+  it('should reject unsupported operations', async () => {
+    const client = new SubsonicClient({ url: 'http://navidrome.local:4533', token: TOKEN });
+
+    await expect(client.terminateSession('alice:3')).rejects.toThrow('do not support');
+    await expect(client.getLibraryItems('1')).rejects.toThrow('do not support');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  describe('verifyServerAdmin', () => {
+    it('should succeed for admin users', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(pingResponse))
+        .mockResolvedValueOnce(jsonResponse(userResponse));
+
+      const result = await SubsonicClient.verifyServerAdmin(
+        'http://navidrome.local:4533',
+        'alice',
+        TOKEN
+      );
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch.mock.calls[1]![0]).toContain('username=alice');
+    });
+
+    it('should report invalid credentials', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(wrongCredentialsResponse));
+
+      const result = await SubsonicClient.verifyServerAdmin(
+        'http://navidrome.local:4533',
+        'alice',
+        TOKEN
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        code: SubsonicClient.AdminVerifyError.INVALID_CREDENTIALS,
+      });
+    });
+
+    it('should report non-admin users', async () => {
+      const bob = usersResponse['subsonic-response'].users.user[1];
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(pingResponse))
+        .mockResolvedValueOnce(jsonResponse({ 'subsonic-response': { status: 'ok', user: bob } }));
+
+      const result = await SubsonicClient.verifyServerAdmin(
+        'http://navidrome.local:4533',
+        'bob',
+        TOKEN
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        code: SubsonicClient.AdminVerifyError.NOT_ADMIN,
+      });
+    });
+
+    it('should report connection failures', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      const result = await SubsonicClient.verifyServerAdmin(
+        'http://navidrome.local:4533',
+        'alice',
+        TOKEN
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        code: SubsonicClient.AdminVerifyError.CONNECTION_FAILED,
+      });
+    });
+  });
+
+  describe('buildSubsonicToken', () => {
+    it('should store an md5 token with a random salt instead of the password', () => {
+      const params = new URLSearchParams(buildSubsonicToken('alice', 'sesame'));
+
+      expect(params.get('u')).toBe('alice');
+      expect(params.get('s')).toMatch(/^[0-9a-f]{16}$/);
+      expect(params.get('t')).toMatch(/^[0-9a-f]{32}$/);
+      expect(params.has('p')).toBe(false);
+    });
+  });
+});
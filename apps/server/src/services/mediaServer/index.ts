@@ -1,8 +1,9 @@
 /**
  * Media Server Client Module
  *
- * Provides a unified interface for Plex and Jellyfin media server integrations.
- * Use the factory function to create clients based on server type.
+ * Provides a unified interface for Plex, Jellyfin, Emby and Subsonic integrations.
+ * Use the factory function to create clients based on server type; integrations
+ * are resolved through the adapter registry (see registry.ts).
  *
  * @example
  * import { createMediaServerClient, type IMediaServerClient } from './services/mediaServer';
@@ -17,9 +18,7 @@
  * const users = await client.getUsers();
  */
 
-import { PlexClient } from './plex/client.js';
-import { JellyfinClient } from './jellyfin/client.js';
-import { EmbyClient } from './emby/client.js';
+import { getMediaServerAdapter } from './registry.js';
 import type {
   IMediaServerClient,
   IMediaServerClientWithHistory,
@@ -56,16 +55,7 @@ export function createMediaServerClient(options: CreateClientOptions): IMediaSer
     name: options.name,
   };
 
-  switch (options.type) {
-    case 'plex':
-      return new PlexClient(config);
-    case 'jellyfin':
-      return new JellyfinClient(config);
-    case 'emby':
-      return new EmbyClient(config);
-    default:
-      throw new Error(`Unknown media server type: ${options.type as string}`);
-  }
+  return getMediaServerAdapter(options.type).createClient(config);
 }
 
 /**
@@ -95,12 +85,24 @@ export type {
   MediaLibrary,
   MediaLibraryItem,
   MediaWatchHistoryItem,
+  MediaServerResourceUsage,
 } from './types.js';
 
 // Clients (for static method access and direct instantiation)
 export { PlexClient } from './plex/client.js';
 export { JellyfinClient } from './jellyfin/client.js';
 export { EmbyClient } from './emby/client.js';
+export { SubsonicClient, buildSubsonicToken } from './subsonic/client.js';
+
+// Adapter registry
+export {
+  registerMediaServerAdapter,
+  getMediaServerAdapter,
+  getMediaServerCapabilities,
+  getRegisteredServerTypes,
+  type MediaServerAdapter,
+  type MediaServerCapabilities,
+} from './registry.js';
 
 // Plex-specific types
 export type { PlexServerResource, PlexServerConnection } from './plex/parser.js';
@@ -115,3 +117,4 @@ export type { EmbyActivityEntry, EmbyAuthResult } from './emby/parser.js';
 export * as plexParser from './plex/parser.js';
 export * as jellyfinParser from './jellyfin/parser.js';
 export * as embyParser from './emby/parser.js';
+export * as subsonicParser from './subsonic/parser.js';
@@ -15,6 +15,7 @@ import type {
   MediaLibraryItem,
   MediaWatchHistoryItem,
   MediaServerConfig,
+  MediaServerResourceUsage,
 } from '../types.js';
 import {
   parseSessionsResponse,
@@ -26,12 +27,19 @@ import {
   parseXmlUsersResponse,
   parseSharedServersXml,
   parseStatisticsResourcesResponse,
+  averageStatisticsDataPoints,
   parseMediaMetadataResponse,
   parseLibraryItemsResponse,
+  parsePlexHistoryPage,
+  parsePlexItemInfoResponse,
+  parsePlexDevicesResponse,
   getTranscodingSessionRatingKeys,
   type PlexServerResource,
   type PlexStatisticsDataPoint,
   type PlexOriginalMedia,
+  type PlexHistoryEntry,
+  type PlexItemInfo,
+  type PlexDevice,
 } from './parser.js';
 
 const PLEX_TV_BASE = 'https://plex.tv';
@@ -271,6 +279,66 @@ export class PlexClient implements IMediaServerClient, IMediaServerClientWithHis
     return parseWatchHistoryResponse(data);
   }
 
+  /**
+   * Get one page of the server's full play history, oldest first
+   *
+   * Used by the Plex history importer. Unlike getWatchHistory this keeps the
+   * history key, account and device IDs needed to build sessions.
+   *
+   * @param options - Pagination options (offset, limit)
+   * @returns Entries and total count for pagination tracking
+   */
+  async getHistoryPage(options?: {
+    offset?: number;
+    limit?: number;
+  }): Promise<{ entries: PlexHistoryEntry[]; totalCount: number }> {
+    const params = new URLSearchParams({
+      sort: 'viewedAt:asc',
+      'X-Plex-Container-Start': String(options?.offset ?? 0),
+      'X-Plex-Container-Size': String(options?.limit ?? 100),
+    });
+
+    const data = await fetchJson<unknown>(`${this.baseUrl}/status/sessions/history/all?${params}`, {
+      headers: this.buildHeaders(),
+      service: 'plex',
+      timeout: 30000,
+    });
+
+    return parsePlexHistoryPage(data);
+  }
+
+  /**
+   * Get runtime and year for several library items in one request
+   *
+   * Items that no longer exist on the server are simply absent from the result.
+   */
+  async getItemsInfo(ratingKeys: string[]): Promise<PlexItemInfo[]> {
+    if (ratingKeys.length === 0) return [];
+
+    const data = await fetchJson<unknown>(
+      `${this.baseUrl}/library/metadata/${ratingKeys.map(encodeURIComponent).join(',')}`,
+      {
+        headers: this.buildHeaders(),
+        service: 'plex',
+        timeout: 30000,
+      }
+    );
+
+    return parsePlexItemInfoResponse(data);
+  }
+
+  /**
+   * Get devices that have connected to this server (keyed by local device ID in history)
+   */
+  async getDevices(): Promise<PlexDevice[]> {
+    const data = await fetchJson<unknown>(`${this.baseUrl}/devices`, {
+      headers: this.buildHeaders(),
+      service: 'plex',
+    });
+
+    return parsePlexDevicesResponse(data);
+  }
+
   // ==========================================================================
   // Session Control
   // ==========================================================================
@@ -339,6 +407,16 @@ export class PlexClient implements IMediaServerClient, IMediaServerClientWithHis
     return parseStatisticsResourcesResponse(data);
   }
 
+  /**
+   * Get CPU and memory utilization averaged over the last minute
+   *
+   * Used by the resource sampler, which stores one reading per minute.
+   */
+  async getResourceUsage(): Promise<MediaServerResourceUsage | null> {
+    const points = await this.getServerStatistics();
+    return averageStatisticsDataPoints(points, Math.floor(Date.now() / 1000) - 60);
+  }
+
   // ==========================================================================
   // Static Methods - Plex.tv API Operations
   // ==========================================================================
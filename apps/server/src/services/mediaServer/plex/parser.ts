@@ -21,6 +21,7 @@ import type {
   MediaLibrary,
   MediaLibraryItem,
   MediaWatchHistoryItem,
+  MediaServerResourceUsage,
 } from '../types.js';
 import type {
   SourceVideoDetails,
@@ -80,6 +81,8 @@ export interface PlexRawSession {
   parentIndex?: unknown;
   index?: unknown;
   year?: unknown;
+  contentRating?: unknown;
+  Genre?: unknown;
   thumb?: unknown;
   grandparentThumb?: unknown;
   art?: unknown;
@@ -630,6 +633,17 @@ function parseMediaType(type: unknown, isLive: boolean = false): MediaSession['m
   }
 }
 
+/**
+ * Parse a Plex tag list (e.g., Genre: [{ tag: 'Drama' }]) into tag names.
+ * Returns undefined when the list is missing so "not reported" stays distinct from "none".
+ */
+function parsePlexTags(tags: unknown): string[] | undefined {
+  if (!Array.isArray(tags)) return undefined;
+  return parseArray(tags, (tag) => parseString((tag as Record<string, unknown>)?.tag)).filter(
+    Boolean
+  );
+}
+
 /**
  * Parse player state from Plex to unified state
  */
@@ -771,6 +785,8 @@ export function parseSession(
       type: mediaType,
       durationMs,
       year: parseOptionalNumber(item.year),
+      contentRating: parseOptionalString(item.contentRating),
+      genres: parsePlexTags(item.Genre),
       thumbPath: parseOptionalString(item.thumb),
     },
     playback: {
@@ -1010,6 +1026,136 @@ export function parseWatchHistoryResponse(data: unknown): MediaWatchHistoryItem[
   return parseArray(metadata, (item) => parseWatchHistoryItem(item as Record<string, unknown>));
 }
 
+/**
+ * Entry from Plex's own play history (/status/sessions/history/all)
+ *
+ * Plex only records an entry when an item is marked as watched, so there is
+ * no start time, play duration, or stream information.
+ */
+export interface PlexHistoryEntry {
+  /** Numeric history id taken from historyKey (stable per server) */
+  historyId: string;
+  ratingKey: string;
+  title: string;
+  type: MediaSession['media']['type'];
+  /** Show title for episodes, artist for tracks */
+  grandparentTitle?: string;
+  /** Album title for tracks */
+  parentTitle?: string;
+  /** Season number for episodes, disc number for tracks */
+  parentIndex?: number;
+  /** Episode number for episodes, track number for tracks */
+  index?: number;
+  /** Poster path (show poster for episodes, matching live sessions) */
+  thumbPath?: string;
+  /** Unix timestamp (seconds) when the item was marked watched */
+  viewedAt: number;
+  /** Local PMS account ID (matches server_users.external_id) */
+  accountId?: string;
+  /** Local PMS device ID (see /devices) */
+  deviceId?: string;
+}
+
+/**
+ * Parse a raw Plex play history entry
+ *
+ * @returns null when the entry has no history key or rating key
+ */
+export function parsePlexHistoryEntry(item: Record<string, unknown>): PlexHistoryEntry | null {
+  const historyKey = parseString(item.historyKey);
+  const historyId = historyKey.split('/').pop() ?? '';
+  const ratingKey = parseString(item.ratingKey);
+  if (!historyId || !ratingKey) return null;
+
+  const type = parseMediaType(item.type);
+
+  return {
+    historyId,
+    ratingKey,
+    title: parseString(item.title),
+    type,
+    grandparentTitle: parseOptionalString(item.grandparentTitle),
+    parentTitle: parseOptionalString(item.parentTitle),
+    parentIndex: parseOptionalNumber(item.parentIndex),
+    index: parseOptionalNumber(item.index),
+    thumbPath:
+      type === 'episode'
+        ? (parseOptionalString(item.grandparentThumb) ?? parseOptionalString(item.thumb))
+        : parseOptionalString(item.thumb),
+    viewedAt: parseNumber(item.viewedAt),
+    accountId: parseOptionalString(item.accountID),
+    deviceId: parseOptionalString(item.deviceID),
+  };
+}
+
+/**
+ * Parse a page of Plex play history
+ */
+export function parsePlexHistoryPage(data: unknown): {
+  entries: PlexHistoryEntry[];
+  totalCount: number;
+} {
+  const container = data as { MediaContainer?: { Metadata?: unknown[]; totalSize?: unknown } };
+  const entries = parseArray(container?.MediaContainer?.Metadata, (item) =>
+    parsePlexHistoryEntry(item as Record<string, unknown>)
+  ).filter((entry): entry is PlexHistoryEntry => entry !== null);
+
+  return {
+    entries,
+    totalCount: parseNumber(container?.MediaContainer?.totalSize, entries.length),
+  };
+}
+
+/**
+ * Runtime and release info for a library item, used to size imported history entries
+ */
+export interface PlexItemInfo {
+  ratingKey: string;
+  durationMs?: number;
+  year?: number;
+}
+
+/**
+ * Parse a /library/metadata/{keys} response into item runtime info
+ */
+export function parsePlexItemInfoResponse(data: unknown): PlexItemInfo[] {
+  const container = data as { MediaContainer?: { Metadata?: unknown[] } };
+  return parseArray(container?.MediaContainer?.Metadata, (raw) => {
+    const item = raw as Record<string, unknown>;
+    return {
+      ratingKey: parseString(item.ratingKey),
+      durationMs: parseOptionalNumber(item.duration),
+      year: parseOptionalNumber(item.year),
+    };
+  }).filter((info) => info.ratingKey !== '');
+}
+
+/**
+ * Device known to the Plex server (/devices)
+ */
+export interface PlexDevice {
+  id: string;
+  name: string;
+  platform?: string;
+  clientIdentifier?: string;
+}
+
+/**
+ * Parse a /devices response
+ */
+export function parsePlexDevicesResponse(data: unknown): PlexDevice[] {
+  const container = data as { MediaContainer?: { Device?: unknown[] } };
+  return parseArray(container?.MediaContainer?.Device, (raw) => {
+    const device = raw as Record<string, unknown>;
+    return {
+      id: parseString(device.id),
+      name: parseString(device.name),
+      platform: parseOptionalString(device.platform),
+      clientIdentifier: parseOptionalString(device.clientIdentifier),
+    };
+  }).filter((device) => device.id !== '');
+}
+
 // ============================================================================
 // Server Resource Parsing (for plex.tv API)
 // ============================================================================
@@ -1303,6 +1449,30 @@ export function parseStatisticsResourcesResponse(data: unknown): PlexStatisticsD
   ).sort((a, b) => b.at - a.at); // Sort newest first
 }
 
+/**
+ * Average statistics data points into a single utilization reading
+ * Only points at or after `since` (Unix seconds) are included when given
+ */
+export function averageStatisticsDataPoints(
+  points: PlexStatisticsDataPoint[],
+  since?: number
+): MediaServerResourceUsage | null {
+  const window = since === undefined ? points : points.filter((p) => p.at >= since);
+  if (window.length === 0) {
+    return null;
+  }
+
+  const average = (key: keyof MediaServerResourceUsage) =>
+    Math.round((window.reduce((sum, p) => sum + p[key], 0) / window.length) * 10) / 10;
+
+  return {
+    hostCpuUtilization: average('hostCpuUtilization'),
+    processCpuUtilization: average('processCpuUtilization'),
+    hostMemoryUtilization: average('hostMemoryUtilization'),
+    processMemoryUtilization: average('processMemoryUtilization'),
+  };
+}
+
 // ============================================================================
 // Library Item Parsing (for library sync)
 // ============================================================================
@@ -0,0 +1,163 @@
+/**
+ * Media Server Adapter Registry
+ *
+ * Maps each server type to the adapter that creates its client and describes
+ * what the integration supports. Services check capabilities here instead of
+ * branching on the server type, so a new adapter only needs to be registered.
+ *
+ * @example
+ * registerMediaServerAdapter({
+ *   type: 'subsonic',
+ *   displayName: 'Subsonic',
+ *   capabilities: { ... },
+ *   createClient: (config) => new SubsonicClient(config),
+ * });
+ */
+
+import type { ServerType } from '@tracearr/shared';
+import { PlexClient } from './plex/client.js';
+import { JellyfinClient } from './jellyfin/client.js';
+import { EmbyClient } from './emby/client.js';
+import { SubsonicClient } from './subsonic/client.js';
+import type { IMediaServerClient, MediaServerConfig } from './types.js';
+
+/**
+ * Features an integration supports beyond session polling
+ */
+export interface MediaServerCapabilities {
+  /** Server users can be listed and synced */
+  users: boolean;
+  /** Libraries can be listed */
+  libraries: boolean;
+  /** Library items can be scanned for snapshots */
+  libraryItems: boolean;
+  /** Playback sessions can be stopped remotely */
+  terminateSession: boolean;
+  /** Watch history can be imported */
+  watchHistory: boolean;
+  /**
+   * Host and process CPU/memory utilization can be read. Only Plex reports
+   * these (/statistics/resources); Jellyfin and Emby have no equivalent.
+   */
+  resourceUsage: boolean;
+  /** Push channel for session updates (null = polling only) */
+  realtime: 'sse' | 'websocket' | null;
+}
+
+/**
+ * A registered media server integration
+ */
+export interface MediaServerAdapter {
+  type: ServerType;
+  /** Human-readable name for logs and messages */
+  displayName: string;
+  capabilities: MediaServerCapabilities;
+  createClient(config: MediaServerConfig): IMediaServerClient;
+}
+
+const adapters = new Map<ServerType, MediaServerAdapter>([
+  [
+    'plex',
+    {
+      type: 'plex',
+      displayName: 'Plex',
+      capabilities: {
+        users: true,
+        libraries: true,
+        libraryItems: true,
+        terminateSession: true,
+        watchHistory: true,
+        resourceUsage: true,
+        realtime: 'sse',
+      },
+      createClient: (config) => new PlexClient(config),
+    },
+  ],
+  [
+    'jellyfin',
+    {
+      type: 'jellyfin',
+      displayName: 'Jellyfin',
+      capabilities: {
+        users: true,
+        libraries: true,
+        libraryItems: true,
+        terminateSession: true,
+        watchHistory: true,
+        // System/Info and the activity log carry no CPU or memory figures
+        resourceUsage: false,
+        realtime: 'websocket',
+      },
+      createClient: (config) => new JellyfinClient(config),
+    },
+  ],
+  [
+    'emby',
+    {
+      type: 'emby',
+      displayName: 'Emby',
+      capabilities: {
+        users: true,
+        libraries: true,
+        libraryItems: true,
+        terminateSession: true,
+        watchHistory: true,
+        // System/Info and the activity log carry no CPU or memory figures
+        resourceUsage: false,
+        realtime: 'websocket',
+      },
+      createClient: (config) => new EmbyClient(config),
+    },
+  ],
+  [
+    'subsonic',
+    {
+      type: 'subsonic',
+      displayName: 'Subsonic',
+      capabilities: {
+        users: true,
+        libraries: true,
+        libraryItems: false,
+        terminateSession: false,
+        watchHistory: false,
+        resourceUsage: false,
+        realtime: null,
+      },
+      createClient: (config) => new SubsonicClient(config),
+    },
+  ],
+]);
+
+/**
+ * Register (or replace) the adapter for a server type
+ */
+export function registerMediaServerAdapter(adapter: MediaServerAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+/**
+ * Get the adapter for a server type
+ *
+ * @throws Error if no adapter is registered for the type
+ */
+export function getMediaServerAdapter(type: ServerType): MediaServerAdapter {
+  const adapter = adapters.get(type);
+  if (!adapter) {
+    throw new Error(`Unknown media server type: ${type as string}`);
+  }
+  return adapter;
+}
+
+/**
+ * Get the capabilities of a server type
+ */
+export function getMediaServerCapabilities(type: ServerType): MediaServerCapabilities {
+  return getMediaServerAdapter(type).capabilities;
+}
+
+/**
+ * Server types with a registered adapter
+ */
+export function getRegisteredServerTypes(): ServerType[] {
+  return [...adapters.keys()];
+}
@@ -0,0 +1,254 @@
+/**
+ * Jellyfin/Emby WebSocket Event Source Tests
+ *
+ * Tests the WebSocket connection lifecycle against a fake WebSocket:
+ * - Endpoint URL and Sessions subscription
+ * - Session list and playback message handling
+ * - KeepAlive and heartbeat
+ * - Reconnection and fallback to polling
+ *
+ * Uses fake timers and a stubbed global WebSocket.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SSE_CONFIG } from '@tracearr/shared';
+import { JellyfinEmbyEventSource } from '../jellyfinEmbyEventSource.js';
+import { createMovieSession } from '../../__tests__/shared/fixtures.js';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close = vi.fn(() => {
+    this.readyState = 3;
+  });
+
+  // Test helpers
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function latestSocket(): FakeWebSocket {
+  const socket = FakeWebSocket.instances.at(-1);
+  if (!socket) throw new Error('No socket created');
+  return socket;
+}
+
+function createEventSource(serverType: 'jellyfin' | 'emby' = 'jellyfin') {
+  return new JellyfinEmbyEventSource({
+    serverId: 'server-1',
+    serverName: 'Test Server',
+    serverType,
+    url: 'https://media.example.com/',
+    token: 'api-key',
+  });
+}
+
+describe('JellyfinEmbyEventSource', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('connect', () => {
+    it('connects to the Jellyfin socket endpoint', async () => {
+      await createEventSource('jellyfin').connect();
+
+      expect(latestSocket().url).toBe(
+        'wss://media.example.com/socket?api_key=api-key&deviceId=tracearr-server-1'
+      );
+    });
+
+    it('connects to the Emby socket endpoint', async () => {
+      await createEventSource('emby').connect();
+
+      expect(latestSocket().url).toBe(
+        'wss://media.example.com/embywebsocket?api_key=api-key&deviceId=tracearr-server-1'
+      );
+    });
+
+    it('subscribes to session updates once open', async () => {
+      const source = createEventSource();
+      const states: string[] = [];
+      source.on('connection:state', (state: string) => states.push(state));
+
+      await source.connect();
+      latestSocket().open();
+
+      expect(states).toEqual(['connecting', 'connected']);
+      expect(latestSocket().sent).toEqual([{ MessageType: 'SessionsStart', Data: '0,1500' }]);
+      expect(source.getStatus().connectedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('messages', () => {
+    it('emits parsed sessions', async () => {
+      const source = createEventSource();
+      const onSessions = vi.fn();
+      source.on('sessions', onSessions);
+
+      await source.connect();
+      latestSocket().open();
+      latestSocket().receive({ MessageType: 'Sessions', Data: [createMovieSession()] });
+
+      expect(onSessions).toHaveBeenCalledTimes(1);
+      const sessions = onSessions.mock.calls[0]?.[0] as { sessionKey: string }[];
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]?.sessionKey).toBe('session-123');
+    });
+
+    it('emits playback start and stop', async () => {
+      const source = createEventSource();
+      const onStart = vi.fn();
+      const onStopped = vi.fn();
+      source.on('playback:start', onStart);
+      source.on('playback:stopped', onStopped);
+
+      await source.connect();
+      latestSocket().open();
+      latestSocket().receive({ MessageType: 'PlaybackStart', Data: {} });
+      latestSocket().receive({ MessageType: 'PlaybackStopped', Data: {} });
+
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(onStopped).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores malformed messages', async () => {
+      const source = createEventSource();
+      const onSessions = vi.fn();
+      source.on('sessions', onSessions);
+
+      await source.connect();
+      latestSocket().open();
+      latestSocket().onmessage?.({ data: 'not json' });
+      latestSocket().receive({ MessageType: 'Sessions', Data: 'nope' });
+
+      expect(onSessions).not.toHaveBeenCalled();
+      expect(source.getState()).toBe('connected');
+    });
+  });
+
+  describe('keepalive', () => {
+    it('sends KeepAlive at half the server timeout', async () => {
+      const source = createEventSource();
+      await source.connect();
+      const socket = latestSocket();
+      socket.open();
+      socket.receive({ MessageType: 'ForceKeepAlive', Data: 60 });
+
+      vi.advanceTimersByTime(30_000);
+
+      expect(socket.sent).toContainEqual({ MessageType: 'KeepAlive' });
+    });
+
+    it('reconnects when the server stops answering after ForceKeepAlive', async () => {
+      const source = createEventSource();
+      await source.connect();
+      latestSocket().open();
+      latestSocket().receive({ MessageType: 'ForceKeepAlive', Data: 60 });
+
+      vi.advanceTimersByTime(90_000);
+
+      expect(source.getState()).toBe('reconnecting');
+    });
+
+    it('stays connected without ForceKeepAlive while idle', async () => {
+      const source = createEventSource();
+      await source.connect();
+      latestSocket().open();
+
+      vi.advanceTimersByTime(10 * 60_000);
+
+      expect(source.getState()).toBe('connected');
+    });
+  });
+
+  describe('reconnection', () => {
+    it('reconnects after the socket closes', async () => {
+      const source = createEventSource();
+      await source.connect();
+      latestSocket().open();
+
+      latestSocket().onclose?.({ code: 1006 });
+      expect(source.getState()).toBe('reconnecting');
+      expect(source.getStatus().error).toBe('Connection closed (code: 1006)');
+
+      vi.advanceTimersByTime(SSE_CONFIG.INITIAL_RETRY_DELAY_MS + 1000);
+
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      expect(source.getState()).toBe('connecting');
+    });
+
+    it('falls back to polling after max retries', async () => {
+      const source = createEventSource();
+      await source.connect();
+
+      for (let i = 0; i <= SSE_CONFIG.MAX_RETRIES; i++) {
+        latestSocket().onerror?.();
+        vi.advanceTimersByTime(SSE_CONFIG.MAX_RETRY_DELAY_MS + 1000);
+      }
+
+      expect(source.getState()).toBe('fallback');
+    });
+
+    it('does not reconnect after disconnect', async () => {
+      const source = createEventSource();
+      await source.connect();
+      const socket = latestSocket();
+      socket.open();
+
+      source.disconnect();
+      vi.advanceTimersByTime(SSE_CONFIG.MAX_RETRY_DELAY_MS * 2);
+
+      expect(socket.close).toHaveBeenCalled();
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      expect(source.getState()).toBe('disconnected');
+    });
+
+    it('falls back to polling and warns once when WebSocket is unavailable', async () => {
+      vi.stubGlobal('WebSocket', undefined);
+      const first = createEventSource('jellyfin');
+      const second = createEventSource('emby');
+
+      await first.connect();
+      await second.connect();
+
+      expect(first.getState()).toBe('fallback');
+      expect(second.getState()).toBe('fallback');
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Node.js 22'));
+    });
+  });
+});
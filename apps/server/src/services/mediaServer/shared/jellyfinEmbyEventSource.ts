@@ -0,0 +1,435 @@
+/**
+ * Jellyfin/Emby WebSocket Event Source
+ *
+ * Handles WebSocket connections to Jellyfin and Emby servers for real-time
+ * session notifications, replacing interval polling while connected.
+ *
+ * Endpoints:
+ * - Jellyfin: /socket?api_key=...&deviceId=...
+ * - Emby: /embywebsocket?api_key=...&deviceId=...
+ *
+ * Message types we care about:
+ * - Sessions: Full session list, pushed after subscribing with SessionsStart
+ * - PlaybackStart / PlaybackStopped: Playback began or ended
+ * - ForceKeepAlive: Server keepalive timeout; we must send KeepAlive within it
+ * - KeepAlive: Server reply to our KeepAlive
+ */
+
+import { EventEmitter } from 'events';
+import { SSE_CONFIG, type SSEConnectionState } from '@tracearr/shared';
+import type { MediaSession } from '../types.js';
+import { parseSessionsResponse as parseJellyfinSessions } from '../jellyfin/parser.js';
+import { parseSessionsResponse as parseEmbySessions } from '../emby/parser.js';
+
+// Sessions subscription: "<initial delay ms>,<interval ms>"
+const SESSIONS_SUBSCRIPTION = '0,1500';
+
+// KeepAlive interval used until the server announces its timeout
+const DEFAULT_KEEPALIVE_MS = 30000;
+
+// WebSocket readyState for an open connection
+const WS_OPEN = 1;
+
+// Node.js only ships a global WebSocket from v22; warn about its absence once per process
+let missingWebSocketWarned = false;
+
+interface JellyfinEmbyMessage {
+  MessageType?: string;
+  Data?: unknown;
+}
+
+// Event types emitted by JellyfinEmbyEventSource
+export interface JellyfinEmbyEventSourceEvents {
+  sessions: MediaSession[];
+  'playback:start': undefined;
+  'playback:stopped': undefined;
+  'connection:state': SSEConnectionState;
+  'connection:error': Error;
+}
+
+/**
+ * JellyfinEmbyEventSource - Manages the WebSocket connection to a Jellyfin or Emby server
+ *
+ * Emits the same connection events as PlexEventSource, so SSEManager can treat
+ * both alike for fallback handling.
+ *
+ * @example
+ * const ws = new JellyfinEmbyEventSource({
+ *   serverId: 'abc123',
+ *   serverName: 'Jellyfin',
+ *   serverType: 'jellyfin',
+ *   url: 'http://jellyfin.local:8096',
+ *   token: 'api-key',
+ * });
+ *
+ * ws.on('sessions', (sessions) => {
+ *   console.log('Active sessions:', sessions.length);
+ * });
+ *
+ * await ws.connect();
+ */
+export class JellyfinEmbyEventSource extends EventEmitter {
+  private readonly serverId: string;
+  private readonly serverName: string;
+  private readonly serverType: 'jellyfin' | 'emby';
+  private readonly baseUrl: string;
+  private readonly token: string;
+
+  private socket: WebSocket | null = null;
+  private state: SSEConnectionState = 'disconnected';
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private connectionTimer: NodeJS.Timeout | null = null;
+  private keepAliveMs = DEFAULT_KEEPALIVE_MS;
+  private lastEventTime: Date | null = null;
+  private connectedAt: Date | null = null;
+  private lastError: Error | null = null;
+
+  constructor(config: {
+    serverId: string;
+    serverName: string;
+    serverType: 'jellyfin' | 'emby';
+    url: string;
+    token: string;
+  }) {
+    super();
+    this.serverId = config.serverId;
+    this.serverName = config.serverName;
+    this.serverType = config.serverType;
+    this.baseUrl = config.url.replace(/\/$/, '');
+    this.token = config.token;
+  }
+
+  /**
+   * Get current connection state
+   */
+  getState(): SSEConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Get connection status for monitoring
+   */
+  getStatus(): {
+    serverId: string;
+    serverName: string;
+    state: SSEConnectionState;
+    connectedAt: Date | null;
+    lastEventAt: Date | null;
+    reconnectAttempts: number;
+    error: string | null;
+  } {
+    return {
+      serverId: this.serverId,
+      serverName: this.serverName,
+      state: this.state,
+      connectedAt: this.connectedAt,
+      lastEventAt: this.lastEventTime,
+      reconnectAttempts: this.reconnectAttempts,
+      error: this.lastError?.message ?? null,
+    };
+  }
+
+  /**
+   * Build the WebSocket URL (http(s) -> ws(s))
+   */
+  private getSocketUrl(): string {
+    const path = this.serverType === 'emby' ? '/embywebsocket' : '/socket';
+    const params = new URLSearchParams({
+      api_key: this.token,
+      deviceId: `tracearr-${this.serverId}`,
+    });
+    return `${this.baseUrl.replace(/^http/i, 'ws')}${path}?${params.toString()}`;
+  }
+
+  /**
+   * Connect to the server WebSocket
+   */
+  async connect(): Promise<void> {
+    if (this.state === 'connected' || this.state === 'connecting') {
+      return;
+    }
+
+    // Retrying cannot help without a WebSocket implementation; poll instead
+    if (typeof WebSocket === 'undefined') {
+      if (!missingWebSocketWarned) {
+        missingWebSocketWarned = true;
+        console.warn(
+          '[WebSocket] This Node.js runtime has no WebSocket support (Node.js 22 or newer is required); Jellyfin and Emby servers will be polled instead'
+        );
+      }
+      this.setState('fallback');
+      return;
+    }
+
+    this.setState('connecting');
+    this.clearTimers();
+
+    try {
+      console.log(`[WebSocket] Connecting to ${this.serverName} at ${this.baseUrl}`);
+
+      const socket = new WebSocket(this.getSocketUrl());
+      this.socket = socket;
+
+      this.startConnectionTimeout();
+
+      socket.onopen = () => {
+        if (this.state !== 'connecting') {
+          console.warn(
+            `[WebSocket] Ignoring onopen for ${this.serverName} - state is ${this.state}`
+          );
+          return;
+        }
+        this.clearConnectionTimeout();
+        console.log(`[WebSocket] Connected to ${this.serverName}`);
+        this.setState('connected');
+        this.connectedAt = new Date();
+        this.reconnectAttempts = 0;
+        this.lastError = null;
+
+        this.send({ MessageType: 'SessionsStart', Data: SESSIONS_SUBSCRIPTION });
+        this.startKeepAlive();
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        this.handleMessage(event.data);
+      };
+
+      socket.onerror = () => {
+        this.handleError(new Error('WebSocket error'));
+      };
+
+      socket.onclose = (event: CloseEvent) => {
+        if (this.state === 'disconnected') {
+          return;
+        }
+        this.handleError(new Error(`Connection closed (code: ${event.code})`));
+      };
+    } catch (error) {
+      this.handleError(error as Error);
+    }
+  }
+
+  /**
+   * Disconnect from the WebSocket
+   */
+  disconnect(): void {
+    console.log(`[WebSocket] Disconnecting from ${this.serverName}`);
+    this.clearTimers();
+    this.setState('disconnected');
+    this.cleanupSocket();
+    this.connectedAt = null;
+  }
+
+  /**
+   * Close the socket and drop its handlers
+   */
+  private cleanupSocket(): void {
+    if (!this.socket) {
+      return;
+    }
+
+    this.socket.onopen = null;
+    this.socket.onmessage = null;
+    this.socket.onerror = null;
+    this.socket.onclose = null;
+
+    try {
+      this.socket.close();
+    } catch {
+      // Closing a socket that never opened can throw; nothing to clean up
+    }
+    this.socket = null;
+  }
+
+  /**
+   * Send a message if the socket is open
+   */
+  private send(message: JellyfinEmbyMessage): void {
+    if (this.socket?.readyState === WS_OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Handle incoming WebSocket message
+   */
+  private handleMessage(raw: unknown): void {
+    this.lastEventTime = new Date();
+    this.resetHeartbeatMonitor();
+
+    if (typeof raw !== 'string' || !raw) {
+      return;
+    }
+
+    try {
+      const message = JSON.parse(raw) as JellyfinEmbyMessage;
+
+      switch (message.MessageType) {
+        case 'Sessions': {
+          if (!Array.isArray(message.Data)) return;
+          const parse = this.serverType === 'emby' ? parseEmbySessions : parseJellyfinSessions;
+          this.emit('sessions', parse(message.Data));
+          break;
+        }
+        case 'PlaybackStart':
+          this.emit('playback:start');
+          break;
+        case 'PlaybackStopped':
+          this.emit('playback:stopped');
+          break;
+        case 'ForceKeepAlive':
+          // Data is the server's keepalive timeout in seconds; ping at half of it
+          if (typeof message.Data === 'number' && message.Data > 0) {
+            this.keepAliveMs = (message.Data * 1000) / 2;
+          }
+          this.startKeepAlive();
+          // The server now replies to our KeepAlives, so silence means a dead connection
+          this.resetHeartbeatMonitor(true);
+          break;
+      }
+    } catch (error) {
+      console.error(`[WebSocket] Failed to parse message from ${this.serverName}:`, error);
+    }
+  }
+
+  /**
+   * Handle connection error
+   */
+  private handleError(error: unknown): void {
+    this.clearTimers();
+
+    const errorMessage = error instanceof Error ? error.message : 'Connection error';
+    this.lastError = error instanceof Error ? error : new Error(errorMessage);
+    console.error(`[WebSocket] Error on ${this.serverName}: ${errorMessage}`);
+    this.emit('connection:error', this.lastError);
+
+    this.cleanupSocket();
+
+    // Attempt reconnection with exponential backoff
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Schedule a reconnection attempt
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= SSE_CONFIG.MAX_RETRIES) {
+      console.error(
+        `[WebSocket] Max retries (${SSE_CONFIG.MAX_RETRIES}) reached for ${this.serverName}, falling back to polling`
+      );
+      this.setState('fallback');
+      return;
+    }
+
+    this.setState('reconnecting');
+    this.reconnectAttempts++;
+
+    // Exponential backoff with jitter
+    const baseDelay = Math.min(
+      SSE_CONFIG.INITIAL_RETRY_DELAY_MS *
+        Math.pow(SSE_CONFIG.RETRY_MULTIPLIER, this.reconnectAttempts - 1),
+      SSE_CONFIG.MAX_RETRY_DELAY_MS
+    );
+    const jitter = Math.random() * 1000; // Add up to 1s jitter
+    const delay = baseDelay + jitter;
+
+    console.log(
+      `[WebSocket] Reconnecting to ${this.serverName} in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts}/${SSE_CONFIG.MAX_RETRIES})`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      if (this.state === 'disconnected') {
+        return;
+      }
+      void this.connect();
+    }, delay);
+  }
+
+  /**
+   * Send KeepAlive messages so the server does not drop the connection
+   */
+  private startKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+    }
+    this.keepAliveTimer = setInterval(() => {
+      this.send({ MessageType: 'KeepAlive' });
+    }, this.keepAliveMs);
+  }
+
+  /**
+   * Reset heartbeat timer (called on each message)
+   *
+   * Only armed once the server has announced ForceKeepAlive; servers that never
+   * do may stay silent while nothing is playing.
+   */
+  private resetHeartbeatMonitor(arm = false): void {
+    if (!this.heartbeatTimer && !arm) {
+      return;
+    }
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+    }
+
+    // Miss three KeepAlive replies before giving up on the connection
+    this.heartbeatTimer = setTimeout(() => {
+      if (this.state === 'disconnected') {
+        return;
+      }
+      console.warn(`[WebSocket] Heartbeat timeout on ${this.serverName}, reconnecting`);
+      this.handleError(new Error('Heartbeat timeout'));
+    }, this.keepAliveMs * 3);
+  }
+
+  /**
+   * Clear all timers
+   */
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    this.clearConnectionTimeout();
+  }
+
+  private startConnectionTimeout(): void {
+    this.clearConnectionTimeout();
+    this.connectionTimer = setTimeout(() => {
+      if (this.state === 'disconnected') {
+        return;
+      }
+      console.warn(
+        `[WebSocket] Connection timeout on ${this.serverName} (stuck in connecting state)`
+      );
+      this.handleError(new Error('Connection timeout'));
+    }, SSE_CONFIG.HEARTBEAT_TIMEOUT_MS);
+  }
+
+  private clearConnectionTimeout(): void {
+    if (this.connectionTimer) {
+      clearTimeout(this.connectionTimer);
+      this.connectionTimer = null;
+    }
+  }
+
+  /**
+   * Update and emit connection state
+   */
+  private setState(state: SSEConnectionState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.emit('connection:state', state);
+    }
+  }
+}
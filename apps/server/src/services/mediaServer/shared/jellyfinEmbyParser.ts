@@ -109,6 +109,15 @@ export function parsePlaybackState(isPaused: unknown): MediaSession['playback'][
   return parseBoolean(isPaused) ? 'paused' : 'playing';
 }
 
+/**
+ * Parse the Genres string array from a Jellyfin/Emby item.
+ * Returns undefined when the list is missing so "not reported" stays distinct from "none".
+ */
+export function parseGenres(genres: unknown): string[] | undefined {
+  if (!Array.isArray(genres)) return undefined;
+  return genres.map((genre) => parseString(genre)).filter(Boolean);
+}
+
 /**
  * Parse sessions API response - filters to only sessions with active playback
  */
@@ -188,6 +197,8 @@ export function parseSessionCore(
       type: mediaType,
       durationMs,
       year: parseOptionalNumber(nowPlaying.ProductionYear),
+      contentRating: parseOptionalString(nowPlaying.OfficialRating),
+      genres: parseGenres(nowPlaying.Genres),
       thumbPath,
     },
     playback: {
@@ -0,0 +1,237 @@
+/**
+ * Subsonic Media Server Client
+ *
+ * Implements IMediaServerClient for Subsonic-compatible music servers
+ * (Subsonic, Navidrome, Airsonic-Advanced, Gonic).
+ *
+ * Subsonic authenticates every request with query parameters. The stored token
+ * is the encoded `u`/`t`/`s` token-auth parameters (see buildSubsonicToken), so
+ * the plain password never needs to be kept.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { fetchJson } from '../../../utils/http.js';
+import type {
+  IMediaServerClient,
+  MediaSession,
+  MediaUser,
+  MediaLibrary,
+  MediaLibraryItem,
+  MediaServerConfig,
+} from '../types.js';
+import {
+  parseMusicFoldersResponse,
+  parseNowPlayingResponse,
+  parseUserResponse,
+  parseUsersResponse,
+  SubsonicApiError,
+  unwrapResponse,
+} from './parser.js';
+
+// Client identification constants
+const CLIENT_NAME = 'Tracearr';
+/** Lowest API version with token authentication */
+const API_VERSION = '1.13.0';
+
+/**
+ * Build the stored token for a Subsonic account
+ *
+ * Uses Subsonic token authentication: t = md5(password + salt).
+ */
+export function buildSubsonicToken(username: string, password: string): string {
+  const salt = randomBytes(8).toString('hex');
+  const token = createHash('md5')
+    .update(password + salt)
+    .digest('hex');
+  return new URLSearchParams({ u: username, t: token, s: salt }).toString();
+}
+
+/**
+ * Subsonic client implementation
+ *
+ * @example
+ * const client = new SubsonicClient({ url: 'http://navidrome.local:4533', token: buildSubsonicToken(u, p) });
+ * const sessions = await client.getSessions();
+ */
+export class SubsonicClient implements IMediaServerClient {
+  public readonly serverType = 'subsonic' as const;
+
+  private readonly baseUrl: string;
+  private readonly authParams: string;
+
+  constructor(config: MediaServerConfig) {
+    this.baseUrl = config.url.replace(/\/$/, '');
+    this.authParams = config.token;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Build an authenticated REST URL
+   */
+  private buildUrl(endpoint: string, params?: Record<string, string>): string {
+    return SubsonicClient.buildRestUrl(this.baseUrl, this.authParams, endpoint, params);
+  }
+
+  private static buildRestUrl(
+    baseUrl: string,
+    authParams: string,
+    endpoint: string,
+    params?: Record<string, string>
+  ): string {
+    const query = new URLSearchParams(authParams);
+    query.set('v', API_VERSION);
+    query.set('c', CLIENT_NAME);
+    query.set('f', 'json');
+    for (const [key, value] of Object.entries(params ?? {})) {
+      query.set(key, value);
+    }
+    return `${baseUrl}/rest/${endpoint}?${query}`;
+  }
+
+  private async request(endpoint: string, params?: Record<string, string>): Promise<unknown> {
+    return fetchJson<unknown>(this.buildUrl(endpoint, params), {
+      headers: { Accept: 'application/json' },
+      service: 'subsonic',
+      timeout: 10000,
+    });
+  }
+
+  // ==========================================================================
+  // IMediaServerClient Implementation
+  // ==========================================================================
+
+  /**
+   * Get all active playback sessions (getNowPlaying)
+   */
+  async getSessions(): Promise<MediaSession[]> {
+    return parseNowPlayingResponse(await this.request('getNowPlaying'));
+  }
+
+  /**
+   * Get all users (requires admin)
+   */
+  async getUsers(): Promise<MediaUser[]> {
+    return parseUsersResponse(await this.request('getUsers'));
+  }
+
+  /**
+   * Get all music folders
+   */
+  async getLibraries(): Promise<MediaLibrary[]> {
+    return parseMusicFoldersResponse(await this.request('getMusicFolders'));
+  }
+
+  /**
+   * Test connection and credentials (ping)
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      unwrapResponse(await this.request('ping'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Subsonic has no API to stop another client's playback
+   */
+  terminateSession(_sessionId: string, _reason?: string): Promise<boolean> {
+    return Promise.reject(new Error('Subsonic servers do not support terminating sessions'));
+  }
+
+  /**
+   * Library scanning is not supported for Subsonic servers
+   */
+  getLibraryItems(
+    _libraryId: string,
+    _options?: { offset?: number; limit?: number }
+  ): Promise<{ items: MediaLibraryItem[]; totalCount: number }> {
+    return Promise.reject(new Error('Subsonic servers do not support library scanning'));
+  }
+
+  // ==========================================================================
+  // Static Methods
+  // ==========================================================================
+
+  /**
+   * Build the query string appended to proxied image paths (e.g. getCoverArt)
+   */
+  static buildImageQuery(token: string): string {
+    const query = new URLSearchParams(token);
+    query.set('v', API_VERSION);
+    query.set('c', CLIENT_NAME);
+    return query.toString();
+  }
+
+  /**
+   * Error types for server admin verification
+   */
+  static readonly AdminVerifyError = {
+    CONNECTION_FAILED: 'CONNECTION_FAILED',
+    INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+    NOT_ADMIN: 'NOT_ADMIN',
+  } as const;
+
+  /**
+   * Verify credentials and admin access on a Subsonic server
+   *
+   * @returns { success: true } if admin access verified
+   * @returns { success: false, code, message } if verification failed
+   */
+  static async verifyServerAdmin(
+    serverUrl: string,
+    username: string,
+    token: string
+  ): Promise<{ success: true } | { success: false; code: string; message: string }> {
+    const url = serverUrl.replace(/\/$/, '');
+    const fetchOptions = {
+      headers: { Accept: 'application/json' },
+      service: 'subsonic',
+      timeout: 10000,
+    };
+
+    try {
+      const data = await fetchJson<unknown>(
+        SubsonicClient.buildRestUrl(url, token, 'ping'),
+        fetchOptions
+      );
+      unwrapResponse(data);
+    } catch (error) {
+      if (error instanceof SubsonicApiError && error.code === 40) {
+        return {
+          success: false,
+          code: SubsonicClient.AdminVerifyError.INVALID_CREDENTIALS,
+          message: 'Invalid username or password',
+        };
+      }
+      const message = error instanceof Error ? error.message : 'Unable to connect to server';
+      return {
+        success: false,
+        code: SubsonicClient.AdminVerifyError.CONNECTION_FAILED,
+        message: `Cannot reach Subsonic server at ${url}. ${message}`,
+      };
+    }
+
+    try {
+      const data = await fetchJson<unknown>(
+        SubsonicClient.buildRestUrl(url, token, 'getUser', { username }),
+        fetchOptions
+      );
+      if (parseUserResponse(data).isAdmin) {
+        return { success: true };
+      }
+    } catch {
+      // Fall through - treat lookup failures as missing admin rights
+    }
+
+    return {
+      success: false,
+      code: SubsonicClient.AdminVerifyError.NOT_ADMIN,
+      message: 'You must be an admin on this Subsonic server',
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Subsonic API Response Parser
+ *
+ * Pure functions for parsing raw Subsonic API responses into typed objects.
+ * Separated from the client for testability and reuse.
+ *
+ * Based on the Subsonic REST API v1.16.1 (also implemented by Navidrome,
+ * Airsonic-Advanced and Gonic). All responses use the JSON format (f=json).
+ */
+
+import {
+  parseArray,
+  parseBoolean,
+  parseNumber,
+  parseOptionalNumber,
+  parseOptionalString,
+  parseString,
+} from '../../../utils/parsing.js';
+import type { MediaLibrary, MediaSession, MediaUser } from '../types.js';
+import { calculateProgress } from '../shared/parserUtils.js';
+
+/**
+ * Error returned inside a Subsonic response envelope
+ *
+ * Subsonic servers answer HTTP 200 for API errors and report them in the body.
+ */
+export class SubsonicApiError extends Error {
+  /** Subsonic error code (40 = wrong credentials, 50 = not authorized, 70 = not found) */
+  public readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(`Subsonic error ${code}: ${message}`);
+    this.name = 'SubsonicApiError';
+    this.code = code;
+  }
+}
+
+/**
+ * Unwrap the `subsonic-response` envelope
+ *
+ * @throws SubsonicApiError if the server reported a failure
+ */
+export function unwrapResponse(data: unknown): Record<string, unknown> {
+  const envelope = (data as Record<string, unknown> | null)?.['subsonic-response'];
+  if (!envelope || typeof envelope !== 'object') {
+    throw new SubsonicApiError(0, 'Invalid response');
+  }
+
+  const response = envelope as Record<string, unknown>;
+  if (response.status !== 'ok') {
+    const error = (response.error ?? {}) as Record<string, unknown>;
+    throw new SubsonicApiError(
+      parseNumber(error.code),
+      parseString(error.message, 'Request failed')
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Read a list from a response element
+ *
+ * Some servers return a single object instead of a one-element array.
+ */
+function getList(container: unknown, key: string): unknown[] {
+  if (!container || typeof container !== 'object') return [];
+  const value = (container as Record<string, unknown>)[key];
+  if (Array.isArray(value)) return value;
+  return value && typeof value === 'object' ? [value] : [];
+}
+
+// ============================================================================
+// Session Parsing
+// ============================================================================
+
+/**
+ * Parse a getNowPlaying entry into a MediaSession
+ *
+ * Subsonic only reports what is playing and how many minutes ago it started,
+ * so the position is estimated from that and capped at the track duration.
+ */
+export function parseNowPlayingEntry(entry: Record<string, unknown>): MediaSession {
+  const username = parseString(entry.username);
+  const playerId = parseString(entry.playerId);
+  const durationMs = parseNumber(entry.duration) * 1000;
+  const positionMs = Math.min(parseNumber(entry.minutesAgo) * 60_000, durationMs);
+  const coverArt = parseOptionalString(entry.coverArt);
+  const suffix = parseOptionalString(entry.suffix);
+  const playerName = parseString(entry.playerName) || 'Subsonic Player';
+
+  return {
+    sessionKey: `${username}:${playerId}`,
+    mediaId: parseString(entry.id),
+    user: {
+      id: username,
+      username: username || 'Unknown',
+    },
+    media: {
+      title: parseString(entry.title),
+      type: 'track',
+      durationMs,
+      year: parseOptionalNumber(entry.year),
+      genres: parseOptionalString(entry.genre) ? [parseString(entry.genre)] : undefined,
+      thumbPath: coverArt ? `/rest/getCoverArt?id=${encodeURIComponent(coverArt)}` : undefined,
+    },
+    music: {
+      artistName: parseOptionalString(entry.artist),
+      albumName: parseOptionalString(entry.album),
+      trackNumber: parseOptionalNumber(entry.track),
+      discNumber: parseOptionalNumber(entry.discNumber),
+    },
+    playback: {
+      state: 'playing',
+      positionMs,
+      progressPercent: calculateProgress(positionMs, durationMs),
+    },
+    player: {
+      name: playerName,
+      deviceId: playerId || playerName,
+      product: playerName,
+    },
+    network: {
+      // Subsonic does not expose the client address
+      ipAddress: '0.0.0.0',
+      isLocal: false,
+    },
+    quality: {
+      bitrate: parseNumber(entry.bitRate),
+      isTranscode: false,
+      videoDecision: 'directplay',
+      audioDecision: 'directplay',
+      sourceAudioCodec: suffix?.toUpperCase(),
+    },
+  };
+}
+
+/**
+ * Parse a getNowPlaying response
+ */
+export function parseNowPlayingResponse(data: unknown): MediaSession[] {
+  const response = unwrapResponse(data);
+  return parseArray(getList(response.nowPlaying, 'entry'), (entry) =>
+    parseNowPlayingEntry(entry as Record<string, unknown>)
+  );
+}
+
+// ============================================================================
+// User Parsing
+// ============================================================================
+
+/**
+ * Parse a Subsonic user (users are identified by username)
+ */
+export function parseUser(user: Record<string, unknown>): MediaUser {
+  const username = parseString(user.username);
+  return {
+    id: username,
+    username,
+    email: parseOptionalString(user.email),
+    isAdmin: parseBoolean(user.adminRole),
+    sharedLibraries: parseArray(user.folder, (folder) => String(folder)),
+  };
+}
+
+/**
+ * Parse a getUsers response
+ */
+export function parseUsersResponse(data: unknown): MediaUser[] {
+  const response = unwrapResponse(data);
+  return parseArray(getList(response.users, 'user'), (user) =>
+    parseUser(user as Record<string, unknown>)
+  );
+}
+
+/**
+ * Parse a getUser response
+ */
+export function parseUserResponse(data: unknown): MediaUser {
+  const response = unwrapResponse(data);
+  return parseUser((response.user ?? {}) as Record<string, unknown>);
+}
+
+// ============================================================================
+// Library Parsing
+// ============================================================================
+
+/**
+ * Parse a getMusicFolders response (music folders are the Subsonic libraries)
+ */
+export function parseMusicFoldersResponse(data: unknown): MediaLibrary[] {
+  const response = unwrapResponse(data);
+  return parseArray(getList(response.musicFolders, 'musicFolder'), (folder) => {
+    const f = folder as Record<string, unknown>;
+    return {
+      id: parseString(f.id),
+      name: parseString(f.name),
+      type: 'music',
+    };
+  });
+}
@@ -45,6 +45,10 @@ export interface MediaSession {
     durationMs: number;
     /** Release year */
     year?: number;
+    /** Content rating (e.g., 'PG-13', 'TV-MA') */
+    contentRating?: string;
+    /** Genre names (undefined if the server didn't report any) */
+    genres?: string[];
     /** Poster/thumbnail path */
     thumbPath?: string;
   };
@@ -346,6 +350,16 @@ export interface MediaWatchHistoryItem {
   playCount?: number;
 }
 
+/**
+ * Host and media server process utilization, as percentages (0-100)
+ */
+export interface MediaServerResourceUsage {
+  hostCpuUtilization: number;
+  processCpuUtilization: number;
+  hostMemoryUtilization: number;
+  processMemoryUtilization: number;
+}
+
 // ============================================================================
 // Media Server Client Interface
 // ============================================================================
@@ -445,6 +459,16 @@ export interface IMediaServerClient {
       limit?: number;
     }
   ): Promise<{ items: MediaLibraryItem[]; totalCount: number }>;
+
+  /**
+   * Get current CPU and memory utilization
+   *
+   * Optional - only implemented by servers that report resource usage.
+   *
+   * @returns Utilization averaged over the server's most recent reporting window,
+   *   or null if the server returned no data
+   */
+  getResourceUsage?(): Promise<MediaServerResourceUsage | null>;
 }
 
 /**
@@ -16,8 +16,10 @@ import type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
 } from '../types.js';
 import { formatViolationMessage } from '../formatters/violation.js';
+import { formatDigestText, formatDigestTitle } from '../formatters/digest.js';
 
 interface ApprisePayload {
   title: string;
@@ -67,6 +69,14 @@ export class AppriseAgent extends BaseAgent {
   }
 
   private buildApprisePayload(payload: NotificationPayload): ApprisePayload {
+    if (payload.template) {
+      return {
+        title: payload.template.title,
+        body: payload.template.body,
+        type: this.severityToAppriseType(payload.severity),
+      };
+    }
+
     switch (payload.context.type) {
       case 'violation_detected':
         return this.buildViolationPayload(payload.context);
@@ -82,6 +92,8 @@ export class AppriseAgent extends BaseAgent {
         return this.buildNewDevicePayload(payload.context);
       case 'trust_score_changed':
         return this.buildTrustScoreChangedPayload(payload.context);
+      case 'digest':
+        return this.buildDigestPayload(payload.context);
     }
   }
 
@@ -155,6 +167,14 @@ export class AppriseAgent extends BaseAgent {
     };
   }
 
+  private buildDigestPayload(ctx: DigestContext): ApprisePayload {
+    return {
+      title: formatDigestTitle(ctx.digest),
+      body: formatDigestText(ctx.digest),
+      type: 'info',
+    };
+  }
+
   private severityToAppriseType(severity: string): 'info' | 'success' | 'warning' | 'failure' {
     const map: Record<string, 'info' | 'success' | 'warning' | 'failure'> = {
       high: 'failure',
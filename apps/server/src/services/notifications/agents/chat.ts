@@ -0,0 +1,179 @@
+/**
+ * Base class for chat notification agents (Telegram, Matrix)
+ *
+ * Builds a service-neutral ChatMessage for every event type. Subclasses only
+ * render it into their markup and deliver it.
+ */
+
+import { BaseAgent } from './base.js';
+import type {
+  NotificationPayload,
+  ViolationContext,
+  SessionContext,
+  ServerContext,
+  NewDeviceContext,
+  TrustScoreChangedContext,
+  DigestContext,
+} from '../types.js';
+import { formatEvidenceAsText, getSeverityInfo } from '../formatters/violation.js';
+import type { ChatField, ChatMessage } from '../formatters/chat.js';
+import { formatDigestSummary, formatDigestTitle, getDigestFields } from '../formatters/digest.js';
+
+export abstract class ChatAgent extends BaseAgent {
+  /**
+   * Build the message for a notification payload
+   */
+  protected buildChatMessage(payload: NotificationPayload): ChatMessage {
+    if (payload.template) {
+      return { heading: payload.template.title, summary: payload.template.body, fields: [] };
+    }
+
+    switch (payload.context.type) {
+      case 'violation_detected':
+        return this.buildViolationMessage(payload, payload.context);
+      case 'stream_started':
+        return this.buildSessionStartedMessage(payload.context);
+      case 'stream_stopped':
+        return this.buildSessionStoppedMessage(payload.context);
+      case 'server_down':
+        return this.buildServerDownMessage(payload.context);
+      case 'server_up':
+        return this.buildServerUpMessage(payload.context);
+      case 'new_device':
+        return this.buildNewDeviceMessage(payload.context);
+      case 'trust_score_changed':
+        return this.buildTrustScoreChangedMessage(payload.context);
+      case 'digest':
+        return this.buildDigestMessage(payload.context);
+    }
+  }
+
+  /**
+   * Message used by sendTest
+   */
+  protected buildTestMessage(): ChatMessage {
+    return {
+      heading: 'Test Notification',
+      summary: 'This is a test notification from Tracearr',
+      fields: [],
+    };
+  }
+
+  private buildViolationMessage(payload: NotificationPayload, ctx: ViolationContext): ChatMessage {
+    const { violation } = ctx;
+    const userName = violation.user.identityName ?? violation.user.username;
+    const data = violation.data;
+
+    // Rule notify actions carry their own title/message
+    if (data?.ruleNotification === true) {
+      return {
+        heading: payload.title,
+        summary: payload.message,
+        fields: [
+          { label: 'User', value: userName },
+          { label: 'Rule', value: violation.rule.name },
+        ],
+      };
+    }
+
+    const { label: severityLabel } = getSeverityInfo(violation.severity);
+    return {
+      heading: 'Violation Detected',
+      summary: `${userName} triggered ${violation.rule.name}`,
+      fields: [
+        { label: 'User', value: userName },
+        { label: 'Rule', value: violation.rule.name },
+        { label: 'Severity', value: severityLabel },
+        ...formatEvidenceAsText(data),
+      ],
+    };
+  }
+
+  private buildSessionStartedMessage(ctx: SessionContext): ChatMessage {
+    const { session } = ctx;
+    const { title: mediaTitle, subtitle } = this.getMediaDisplay(session);
+    const userName = this.getUserDisplayName(session);
+    const mediaDisplay = subtitle ? `${mediaTitle} - ${subtitle}` : mediaTitle;
+
+    const fields: ChatField[] = [
+      { label: 'Playback', value: this.getPlaybackType(session) },
+      { label: 'Player', value: session.product || session.playerName || 'Unknown' },
+    ];
+    if (session.geoCity && session.geoCountry) {
+      fields.push({ label: 'Location', value: `${session.geoCity}, ${session.geoCountry}` });
+    }
+
+    return {
+      heading: 'Stream Started',
+      summary: `${userName} started watching ${mediaDisplay}`,
+      fields,
+    };
+  }
+
+  private buildSessionStoppedMessage(ctx: SessionContext): ChatMessage {
+    const { session } = ctx;
+    const { title: mediaTitle, subtitle } = this.getMediaDisplay(session);
+    const userName = this.getUserDisplayName(session);
+    const mediaDisplay = subtitle ? `${mediaTitle} - ${subtitle}` : mediaTitle;
+
+    return {
+      heading: 'Stream Ended',
+      summary: `${userName} finished watching ${mediaDisplay}`,
+      fields: session.durationMs
+        ? [{ label: 'Duration', value: this.formatDuration(session.durationMs) }]
+        : [],
+    };
+  }
+
+  private buildServerDownMessage(ctx: ServerContext): ChatMessage {
+    return {
+      heading: 'Server Offline',
+      summary: `${ctx.serverName} is not responding`,
+      fields: ctx.serverType ? [{ label: 'Server Type', value: ctx.serverType }] : [],
+    };
+  }
+
+  private buildServerUpMessage(ctx: ServerContext): ChatMessage {
+    return {
+      heading: 'Server Online',
+      summary: `${ctx.serverName} is back online`,
+      fields: ctx.serverType ? [{ label: 'Server Type', value: ctx.serverType }] : [],
+    };
+  }
+
+  private buildNewDeviceMessage(ctx: NewDeviceContext): ChatMessage {
+    const fields: ChatField[] = [{ label: 'Device', value: ctx.deviceName }];
+    if (ctx.platform) fields.push({ label: 'Platform', value: ctx.platform });
+    if (ctx.location) fields.push({ label: 'Location', value: ctx.location });
+
+    return {
+      heading: 'New Device Detected',
+      summary: `${ctx.userName} connected from a new device`,
+      fields,
+    };
+  }
+
+  private buildTrustScoreChangedMessage(ctx: TrustScoreChangedContext): ChatMessage {
+    const direction = ctx.newScore < ctx.previousScore ? 'decreased' : 'increased';
+    const fields: ChatField[] = [
+      { label: 'Previous Score', value: String(ctx.previousScore) },
+      { label: 'New Score', value: String(ctx.newScore) },
+    ];
+    if (ctx.reason) fields.push({ label: 'Reason', value: ctx.reason });
+
+    return {
+      heading: 'Trust Score Changed',
+      summary: `${ctx.userName}'s trust score ${direction}`,
+      fields,
+    };
+  }
+
+  private buildDigestMessage(ctx: DigestContext): ChatMessage {
+    const { digest } = ctx;
+    return {
+      heading: formatDigestTitle(digest),
+      summary: formatDigestSummary(digest),
+      fields: getDigestFields(digest),
+    };
+  }
+}
@@ -16,12 +16,14 @@ import type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
 } from '../types.js';
 import {
   formatViolationDetailsForDiscord,
   getSeverityInfo,
   type DiscordField,
 } from '../formatters/violation.js';
+import { formatDigestSummary, formatDigestTitle, getDigestFields } from '../formatters/digest.js';
 
 interface DiscordEmbed {
   title: string;
@@ -72,6 +74,15 @@ export class DiscordAgent extends BaseAgent {
   }
 
   private buildEmbed(payload: NotificationPayload): DiscordEmbed {
+    // User-defined templates replace the built-in embed; markdown is left to the template
+    if (payload.template) {
+      return {
+        title: payload.template.title,
+        description: payload.template.body,
+        color: getSeverityInfo(payload.severity).color,
+      };
+    }
+
     switch (payload.context.type) {
       case 'violation_detected':
         return this.buildViolationEmbed(payload, payload.context);
@@ -87,6 +98,8 @@ export class DiscordAgent extends BaseAgent {
         return this.buildNewDeviceEmbed(payload, payload.context);
       case 'trust_score_changed':
         return this.buildTrustScoreChangedEmbed(payload, payload.context);
+      case 'digest':
+        return this.buildDigestEmbed(payload.context);
     }
   }
 
@@ -262,6 +275,20 @@ export class DiscordAgent extends BaseAgent {
     };
   }
 
+  private buildDigestEmbed(ctx: DigestContext): DiscordEmbed {
+    const { digest } = ctx;
+    return {
+      title: formatDigestTitle(digest),
+      description: formatDigestSummary(digest),
+      color: 0x3498db, // Blue
+      fields: getDigestFields(digest).map((field) => ({
+        name: field.label,
+        value: field.value,
+        inline: true,
+      })),
+    };
+  }
+
   private async sendWebhook(webhookUrl: string, embed: DiscordEmbed): Promise<void> {
     const response = await fetch(webhookUrl, {
       method: 'POST',
@@ -0,0 +1,316 @@
+/**
+ * Email (SMTP) Notification Agent
+ *
+ * Sends multipart HTML + plain-text emails through a configured SMTP server.
+ */
+
+import nodemailer from 'nodemailer';
+import { SEVERITY_LEVELS } from '@tracearr/shared';
+import { BaseAgent } from './base.js';
+import type {
+  NotificationPayload,
+  NotificationSettings,
+  NotificationEventType,
+  SendResult,
+  TestResult,
+  ViolationContext,
+  SessionContext,
+  ServerContext,
+  NewDeviceContext,
+  TrustScoreChangedContext,
+  DigestContext,
+} from '../types.js';
+import { formatEvidenceAsText, getSeverityInfo } from '../formatters/violation.js';
+import {
+  formatDigestSummary,
+  formatDigestTitle,
+  getDigestFields,
+  renderDigestHtml,
+} from '../formatters/digest.js';
+import {
+  parseRecipients,
+  renderEmail,
+  toCssColor,
+  type EmailField,
+  type EmailMessage,
+  type RenderedEmail,
+} from '../formatters/email.js';
+
+/** Default ports per security mode when smtpPort is not set */
+const DEFAULT_SMTP_PORTS = {
+  none: 25,
+  starttls: 587,
+  tls: 465,
+} as const;
+
+export class EmailAgent extends BaseAgent {
+  readonly name = 'email';
+  readonly displayName = 'Email';
+
+  shouldSend(_event: NotificationEventType, settings: NotificationSettings): boolean {
+    return (
+      !!settings.smtpHost && !!settings.smtpFrom && parseRecipients(settings.smtpTo).length > 0
+    );
+  }
+
+  async send(payload: NotificationPayload, settings: NotificationSettings): Promise<SendResult> {
+    if (!this.shouldSend(payload.event, settings)) {
+      return this.handleError(new Error('SMTP settings not configured'), 'send');
+    }
+
+    try {
+      const email = renderEmail(this.buildMessage(payload));
+      // Digests are sent as the full report rather than the summary card
+      if (payload.context.type === 'digest' && !payload.template) {
+        email.html = renderDigestHtml(payload.context.digest);
+      }
+      await this.sendMail(settings, email);
+      return this.successResult();
+    } catch (error) {
+      return this.handleError(error, 'send');
+    }
+  }
+
+  async sendTest(settings: NotificationSettings): Promise<TestResult> {
+    if (!settings.smtpHost || !settings.smtpFrom) {
+      return this.failureTestResult('SMTP host and sender address are required');
+    }
+    if (parseRecipients(settings.smtpTo).length === 0) {
+      return this.failureTestResult('At least one recipient address is required');
+    }
+
+    try {
+      await this.sendMail(
+        settings,
+        renderEmail({
+          subject: 'Test Notification',
+          heading: 'Test Notification',
+          summary: 'This is a test notification from Tracearr',
+          fields: [],
+          color: '#3498db',
+        })
+      );
+      return this.successTestResult();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.failureTestResult(message);
+    }
+  }
+
+  private buildMessage(payload: NotificationPayload): EmailMessage {
+    if (payload.template) {
+      return {
+        subject: payload.template.title,
+        heading: payload.template.title,
+        summary: payload.template.body,
+        fields: [],
+        color: toCssColor(getSeverityInfo(payload.severity).color),
+      };
+    }
+
+    switch (payload.context.type) {
+      case 'violation_detected':
+        return this.buildViolationMessage(payload, payload.context);
+      case 'stream_started':
+        return this.buildSessionStartedMessage(payload.context);
+      case 'stream_stopped':
+        return this.buildSessionStoppedMessage(payload.context);
+      case 'server_down':
+        return this.buildServerDownMessage(payload.context);
+      case 'server_up':
+        return this.buildServerUpMessage(payload.context);
+      case 'new_device':
+        return this.buildNewDeviceMessage(payload.context);
+      case 'trust_score_changed':
+        return this.buildTrustScoreChangedMessage(payload.context);
+      case 'digest':
+        return this.buildDigestMessage(payload.context);
+    }
+  }
+
+  private buildViolationMessage(payload: NotificationPayload, ctx: ViolationContext): EmailMessage {
+    const { violation } = ctx;
+    const userName = violation.user.identityName ?? violation.user.username;
+    const { label: severityLabel, color } = getSeverityInfo(violation.severity);
+    const data = violation.data;
+
+    // Rule notify actions carry their own title/message
+    if (data?.ruleNotification === true) {
+      return {
+        subject: payload.title,
+        heading: payload.title,
+        summary: payload.message,
+        fields: [
+          { label: 'User', value: userName },
+          { label: 'Rule', value: violation.rule.name },
+        ],
+        color: toCssColor(color),
+      };
+    }
+
+    const severity = violation.severity as keyof typeof SEVERITY_LEVELS;
+    const fields: EmailField[] = [
+      { label: 'User', value: userName },
+      { label: 'Rule', value: violation.rule.name },
+      { label: 'Severity', value: severityLabel },
+      ...formatEvidenceAsText(data),
+    ];
+
+    return {
+      subject: `Violation: ${violation.rule.name} (${userName})`,
+      heading: 'Violation Detected',
+      summary: `User ${userName} triggered ${violation.rule.name} (${SEVERITY_LEVELS[severity]?.label ?? severity} severity)`,
+      fields,
+      color: toCssColor(color),
+    };
+  }
+
+  private buildSessionStartedMessage(ctx: SessionContext): EmailMessage {
+    const { session } = ctx;
+    const { title: mediaTitle, subtitle } = this.getMediaDisplay(session);
+    const userName = this.getUserDisplayName(session);
+    const mediaDisplay = subtitle ? `${mediaTitle} - ${subtitle}` : mediaTitle;
+
+    const fields: EmailField[] = [
+      { label: 'User', value: userName },
+      { label: 'Media', value: mediaDisplay },
+      { label: 'Playback', value: this.getPlaybackType(session) },
+      { label: 'Player', value: session.product || session.playerName || 'Unknown' },
+    ];
+    if (session.geoCity && session.geoCountry) {
+      fields.push({ label: 'Location', value: `${session.geoCity}, ${session.geoCountry}` });
+    }
+
+    return {
+      subject: `${userName} started watching ${mediaTitle}`,
+      heading: 'Stream Started',
+      summary: `${userName} started watching ${mediaDisplay}`,
+      fields,
+      color: '#3498db',
+    };
+  }
+
+  private buildSessionStoppedMessage(ctx: SessionContext): EmailMessage {
+    const { session } = ctx;
+    const { title: mediaTitle, subtitle } = this.getMediaDisplay(session);
+    const userName = this.getUserDisplayName(session);
+    const mediaDisplay = subtitle ? `${mediaTitle} - ${subtitle}` : mediaTitle;
+
+    return {
+      subject: `${userName} finished watching ${mediaTitle}`,
+      heading: 'Stream Ended',
+      summary: `${userName} finished watching ${mediaDisplay}`,
+      fields: [
+        { label: 'User', value: userName },
+        { label: 'Media', value: mediaDisplay },
+        {
+          label: 'Duration',
+          value: session.durationMs ? this.formatDuration(session.durationMs) : 'Unknown',
+        },
+      ],
+      color: '#95a5a6',
+    };
+  }
+
+  private buildServerDownMessage(ctx: ServerContext): EmailMessage {
+    return {
+      subject: `Server offline: ${ctx.serverName}`,
+      heading: 'Server Offline',
+      summary: `${ctx.serverName} is not responding`,
+      fields: ctx.serverType ? [{ label: 'Server Type', value: ctx.serverType }] : [],
+      color: '#e74c3c',
+    };
+  }
+
+  private buildServerUpMessage(ctx: ServerContext): EmailMessage {
+    return {
+      subject: `Server online: ${ctx.serverName}`,
+      heading: 'Server Online',
+      summary: `${ctx.serverName} is back online`,
+      fields: ctx.serverType ? [{ label: 'Server Type', value: ctx.serverType }] : [],
+      color: '#2ecc71',
+    };
+  }
+
+  private buildNewDeviceMessage(ctx: NewDeviceContext): EmailMessage {
+    const locationStr = ctx.location ? ` from ${ctx.location}` : '';
+    const fields: EmailField[] = [
+      { label: 'User', value: ctx.userName },
+      { label: 'Device', value: ctx.deviceName },
+    ];
+    if (ctx.platform) fields.push({ label: 'Platform', value: ctx.platform });
+    if (ctx.location) fields.push({ label: 'Location', value: ctx.location });
+
+    return {
+      subject: `New device for ${ctx.userName}`,
+      heading: 'New Device Detected',
+      summary: `${ctx.userName} connected from a new device: ${ctx.deviceName}${locationStr}`,
+      fields,
+      color: '#f39c12',
+    };
+  }
+
+  private buildTrustScoreChangedMessage(ctx: TrustScoreChangedContext): EmailMessage {
+    const decreased = ctx.newScore < ctx.previousScore;
+    const direction = decreased ? 'decreased' : 'increased';
+    const reasonStr = ctx.reason ? `: ${ctx.reason}` : '';
+    const fields: EmailField[] = [
+      { label: 'User', value: ctx.userName },
+      { label: 'Previous Score', value: String(ctx.previousScore) },
+      { label: 'New Score', value: String(ctx.newScore) },
+    ];
+    if (ctx.reason) fields.push({ label: 'Reason', value: ctx.reason });
+
+    return {
+      subject: `Trust score ${direction} for ${ctx.userName}`,
+      heading: 'Trust Score Changed',
+      summary: `${ctx.userName}'s trust score ${direction} from ${ctx.previousScore} to ${ctx.newScore}${reasonStr}`,
+      fields,
+      color: decreased ? '#e74c3c' : '#2ecc71',
+    };
+  }
+
+  private buildDigestMessage(ctx: DigestContext): EmailMessage {
+    const { digest } = ctx;
+    return {
+      subject: formatDigestTitle(digest),
+      heading: formatDigestTitle(digest),
+      summary: formatDigestSummary(digest),
+      fields: getDigestFields(digest),
+      color: '#3498db',
+    };
+  }
+
+  private async sendMail(settings: NotificationSettings, email: RenderedEmail): Promise<void> {
+    const { smtpHost, smtpFrom } = settings;
+    if (!smtpHost || !smtpFrom) {
+      throw new Error('SMTP settings not configured');
+    }
+
+    const security = settings.smtpSecurity ?? 'starttls';
+    const transport = nodemailer.createTransport({
+      host: smtpHost,
+      port: settings.smtpPort ?? DEFAULT_SMTP_PORTS[security],
+      secure: security === 'tls',
+      requireTLS: security === 'starttls',
+      ignoreTLS: security === 'none',
+      auth: settings.smtpUsername
+        ? { user: settings.smtpUsername, pass: settings.smtpPassword ?? '' }
+        : undefined,
+      connectionTimeout: 10_000,
+      greetingTimeout: 10_000,
+    });
+
+    try {
+      await transport.sendMail({
+        from: smtpFrom,
+        to: parseRecipients(settings.smtpTo),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+    } finally {
+      transport.close();
+    }
+  }
+}
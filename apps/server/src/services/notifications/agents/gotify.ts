@@ -16,8 +16,10 @@ import type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
 } from '../types.js';
 import { formatViolationMessage } from '../formatters/violation.js';
+import { formatDigestText, formatDigestTitle } from '../formatters/digest.js';
 
 interface GotifyPayload {
   title: string;
@@ -67,6 +69,14 @@ export class GotifyAgent extends BaseAgent {
   }
 
   private buildGotifyPayload(payload: NotificationPayload): GotifyPayload {
+    if (payload.template) {
+      return {
+        title: payload.template.title,
+        message: payload.template.body,
+        priority: this.severityToGotifyPriority(payload.severity),
+      };
+    }
+
     switch (payload.context.type) {
       case 'violation_detected':
         return this.buildViolationPayload(payload.context);
@@ -82,6 +92,8 @@ export class GotifyAgent extends BaseAgent {
         return this.buildNewDevicePayload(payload.context);
       case 'trust_score_changed':
         return this.buildTrustScoreChangedPayload(payload.context);
+      case 'digest':
+        return this.buildDigestPayload(payload.context);
     }
   }
 
@@ -155,6 +167,14 @@ export class GotifyAgent extends BaseAgent {
     };
   }
 
+  private buildDigestPayload(ctx: DigestContext): GotifyPayload {
+    return {
+      title: formatDigestTitle(ctx.digest),
+      message: formatDigestText(ctx.digest),
+      priority: 3,
+    };
+  }
+
   private severityToGotifyPriority(severity: string): number {
     const map: Record<string, number> = { high: 5, warning: 4, low: 3 };
     return map[severity] ?? 3;
@@ -11,6 +11,10 @@ export { AppriseAgent } from './apprise.js';
 export { PushoverAgent } from './pushover.js';
 export { JsonWebhookAgent } from './json-webhook.js';
 export { GotifyAgent } from './gotify.js';
+export { EmailAgent } from './email.js';
+export { ChatAgent } from './chat.js';
+export { TelegramAgent } from './telegram.js';
+export { MatrixAgent } from './matrix.js';
 
 import type { NotificationAgent } from '../types.js';
 import { DiscordAgent } from './discord.js';
@@ -19,6 +23,9 @@ import { AppriseAgent } from './apprise.js';
 import { PushoverAgent } from './pushover.js';
 import { JsonWebhookAgent } from './json-webhook.js';
 import { GotifyAgent } from './gotify.js';
+import { EmailAgent } from './email.js';
+import { TelegramAgent } from './telegram.js';
+import { MatrixAgent } from './matrix.js';
 
 /**
  * Agent registry - lazy-loaded singleton instances
@@ -50,6 +57,15 @@ function getOrCreateAgent(name: string): NotificationAgent | undefined {
     case 'gotify':
       agentRegistry[name] = new GotifyAgent();
       break;
+    case 'email':
+      agentRegistry[name] = new EmailAgent();
+      break;
+    case 'telegram':
+      agentRegistry[name] = new TelegramAgent();
+      break;
+    case 'matrix':
+      agentRegistry[name] = new MatrixAgent();
+      break;
     default:
       return undefined;
   }
@@ -62,7 +78,17 @@ function getOrCreateAgent(name: string): NotificationAgent | undefined {
  */
 export function createAllAgents(): NotificationAgent[] {
   // Ensure all agents are created
-  const names = ['discord', 'ntfy', 'gotify', 'apprise', 'pushover', 'json-webhook'];
+  const names = [
+    'discord',
+    'ntfy',
+    'gotify',
+    'apprise',
+    'pushover',
+    'json-webhook',
+    'email',
+    'telegram',
+    'matrix',
+  ];
   return names.map((name) => getOrCreateAgent(name)!);
 }
 
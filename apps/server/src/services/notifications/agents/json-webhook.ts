@@ -1,11 +1,14 @@
 /**
  * Generic JSON Webhook Notification Agent
  *
- * Sends raw JSON payloads to custom webhook endpoints.
+ * Sends raw JSON payloads to custom webhook endpoints. Payloads are signed with
+ * HMAC-SHA256 when a webhook secret is configured, and every event is logged as a
+ * delivery that the notification queue retries with backoff on failure.
  */
 
 import { NOTIFICATION_EVENTS } from '@tracearr/shared';
 import { BaseAgent } from './base.js';
+import { buildWebhookHeaders, deliverWebhook } from '../webhookDelivery.js';
 import type {
   NotificationPayload,
   NotificationSettings,
@@ -17,11 +20,15 @@ import type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
 } from '../types.js';
 
 interface JsonWebhookPayload {
   event: string;
   timestamp: string;
+  /** Rendered user-defined template, when one is configured */
+  title?: string;
+  message?: string;
   data: Record<string, unknown>;
 }
 
@@ -43,7 +50,17 @@ export class JsonWebhookAgent extends BaseAgent {
 
     try {
       const jsonPayload = this.buildJsonPayload(payload);
-      await this.sendWebhook(settings.customWebhookUrl, jsonPayload);
+      const delivery = await deliverWebhook({
+        url: settings.customWebhookUrl,
+        event: jsonPayload.event,
+        body: JSON.stringify(jsonPayload),
+        secret: settings.webhookSecret,
+        destinationId: settings.destinationId,
+      });
+      if (delivery.status !== 'success') {
+        // Failed deliveries are retried by the notification queue
+        return this.handleError(new Error(`JSON webhook failed: ${delivery.error}`), 'send');
+      }
       return this.successResult();
     } catch (error) {
       return this.handleError(error, 'send');
@@ -61,7 +78,7 @@ export class JsonWebhookAgent extends BaseAgent {
         timestamp: new Date().toISOString(),
         data: { message: 'This is a test notification from Tracearr' },
       };
-      await this.sendWebhook(settings.customWebhookUrl, payload);
+      await this.sendWebhook(settings.customWebhookUrl, payload, settings.webhookSecret);
       return this.successTestResult();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -70,6 +87,22 @@ export class JsonWebhookAgent extends BaseAgent {
   }
 
   private buildJsonPayload(payload: NotificationPayload): JsonWebhookPayload {
+    const jsonPayload = this.buildEventPayload(payload);
+    if (!payload.template) {
+      return jsonPayload;
+    }
+
+    // Templates add rendered text alongside the structured event data
+    return {
+      event: jsonPayload.event,
+      timestamp: jsonPayload.timestamp,
+      title: payload.template.title,
+      message: payload.template.body,
+      data: jsonPayload.data,
+    };
+  }
+
+  private buildEventPayload(payload: NotificationPayload): JsonWebhookPayload {
     switch (payload.context.type) {
       case 'violation_detected':
         return this.buildViolationPayload(payload, payload.context);
@@ -85,6 +118,8 @@ export class JsonWebhookAgent extends BaseAgent {
         return this.buildNewDevicePayload(payload, payload.context);
       case 'trust_score_changed':
         return this.buildTrustScoreChangedPayload(payload, payload.context);
+      case 'digest':
+        return this.buildDigestPayload(payload, payload.context);
     }
   }
 
@@ -226,11 +261,27 @@ export class JsonWebhookAgent extends BaseAgent {
     };
   }
 
-  private async sendWebhook(webhookUrl: string, payload: JsonWebhookPayload): Promise<void> {
+  private buildDigestPayload(payload: NotificationPayload, ctx: DigestContext): JsonWebhookPayload {
+    return {
+      event: 'digest',
+      timestamp: payload.timestamp,
+      data: { ...ctx.digest },
+    };
+  }
+
+  /**
+   * Send a test payload directly (signed, but not logged or retried)
+   */
+  private async sendWebhook(
+    webhookUrl: string,
+    payload: JsonWebhookPayload,
+    secret: string | null
+  ): Promise<void> {
+    const body = JSON.stringify(payload);
     const response = await fetch(webhookUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
+      headers: buildWebhookHeaders({ body, event: payload.event, secret }),
+      body,
     });
     const text = await response.text().catch(() => '');
 
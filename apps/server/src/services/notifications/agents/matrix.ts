@@ -0,0 +1,103 @@
+/**
+ * Matrix Notification Agent
+ *
+ * Posts HTML-formatted m.room.message events to a Matrix room using the
+ * client-server API and an access token.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ChatAgent } from './chat.js';
+import type {
+  NotificationPayload,
+  NotificationSettings,
+  NotificationEventType,
+  SendResult,
+  TestResult,
+} from '../types.js';
+import { renderChatText, renderMatrixHtml, type ChatMessage } from '../formatters/chat.js';
+
+interface MatrixTarget {
+  homeserverUrl: string;
+  accessToken: string;
+  roomId: string;
+}
+
+interface MatrixErrorResponse {
+  errcode?: string;
+  error?: string;
+}
+
+export class MatrixAgent extends ChatAgent {
+  readonly name = 'matrix';
+  readonly displayName = 'Matrix';
+
+  shouldSend(_event: NotificationEventType, settings: NotificationSettings): boolean {
+    return this.getTarget(settings) !== null;
+  }
+
+  async send(payload: NotificationPayload, settings: NotificationSettings): Promise<SendResult> {
+    const target = this.getTarget(settings);
+    if (!target) {
+      return this.handleError(new Error('Matrix settings not configured'), 'send');
+    }
+
+    try {
+      await this.sendMessage(target, this.buildChatMessage(payload));
+      return this.successResult();
+    } catch (error) {
+      return this.handleError(error, 'send');
+    }
+  }
+
+  async sendTest(settings: NotificationSettings): Promise<TestResult> {
+    const target = this.getTarget(settings);
+    if (!target) {
+      return this.failureTestResult('Matrix homeserver URL, access token and room ID are required');
+    }
+
+    try {
+      await this.sendMessage(target, this.buildTestMessage());
+      return this.successTestResult();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.failureTestResult(message);
+    }
+  }
+
+  private getTarget(settings: NotificationSettings): MatrixTarget | null {
+    const { matrixHomeserverUrl, matrixAccessToken, matrixRoomId } = settings;
+    if (!matrixHomeserverUrl || !matrixAccessToken || !matrixRoomId) {
+      return null;
+    }
+    return {
+      homeserverUrl: matrixHomeserverUrl.replace(/\/+$/, ''),
+      accessToken: matrixAccessToken,
+      roomId: matrixRoomId,
+    };
+  }
+
+  private async sendMessage(target: MatrixTarget, message: ChatMessage): Promise<void> {
+    // Transaction IDs make retries idempotent on the homeserver side
+    const url = `${target.homeserverUrl}/_matrix/client/v3/rooms/${encodeURIComponent(target.roomId)}/send/m.room.message/${randomUUID()}`;
+
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${target.accessToken}`,
+      },
+      body: JSON.stringify({
+        msgtype: 'm.text',
+        body: renderChatText(message),
+        format: 'org.matrix.custom.html',
+        formatted_body: renderMatrixHtml(message),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as MatrixErrorResponse | null;
+      const detail = body?.errcode ? `${body.errcode}: ${body.error ?? ''}` : '';
+      throw new Error(`Matrix API failed: ${response.status} ${detail}`.trim());
+    }
+  }
+}
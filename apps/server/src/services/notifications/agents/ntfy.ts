@@ -16,8 +16,10 @@ import type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
 } from '../types.js';
 import { formatViolationMessage } from '../formatters/violation.js';
+import { formatDigestText, formatDigestTitle } from '../formatters/digest.js';
 
 interface NtfyPayload {
   topic: string;
@@ -73,6 +75,16 @@ export class NtfyAgent extends BaseAgent {
   private buildNtfyPayload(payload: NotificationPayload, topic: string | null): NtfyPayload {
     const ntfyTopic = topic || 'tracearr';
 
+    if (payload.template) {
+      return {
+        topic: ntfyTopic,
+        title: payload.template.title,
+        message: payload.template.body,
+        priority: this.severityToNtfyPriority(payload.severity),
+        tags: ['tracearr'],
+      };
+    }
+
     switch (payload.context.type) {
       case 'violation_detected':
         return this.buildViolationPayload(ntfyTopic, payload.context);
@@ -88,6 +100,8 @@ export class NtfyAgent extends BaseAgent {
         return this.buildNewDevicePayload(ntfyTopic, payload.context);
       case 'trust_score_changed':
         return this.buildTrustScoreChangedPayload(ntfyTopic, payload.context);
+      case 'digest':
+        return this.buildDigestPayload(ntfyTopic, payload.context);
     }
   }
 
@@ -175,6 +189,16 @@ export class NtfyAgent extends BaseAgent {
     };
   }
 
+  private buildDigestPayload(topic: string, ctx: DigestContext): NtfyPayload {
+    return {
+      topic,
+      title: formatDigestTitle(ctx.digest),
+      message: formatDigestText(ctx.digest),
+      priority: 3,
+      tags: ['tracearr'],
+    };
+  }
+
   private severityToNtfyPriority(severity: string): number {
     const map: Record<string, number> = { high: 5, warning: 4, low: 3 };
     return map[severity] ?? 3;
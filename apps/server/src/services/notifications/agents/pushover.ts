@@ -16,8 +16,10 @@ import type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
 } from '../types.js';
 import { formatViolationMessage } from '../formatters/violation.js';
+import { formatDigestText, formatDigestTitle } from '../formatters/digest.js';
 
 export class PushoverAgent extends BaseAgent {
   readonly name = 'pushover';
@@ -78,6 +80,14 @@ export class PushoverAgent extends BaseAgent {
     message: string;
     priority: string;
   } {
+    if (payload.template) {
+      return {
+        title: payload.template.title,
+        message: payload.template.body,
+        priority: this.severityToPushoverPriority(payload.severity),
+      };
+    }
+
     switch (payload.context.type) {
       case 'violation_detected':
         return this.buildViolationParams(payload.context);
@@ -93,6 +103,8 @@ export class PushoverAgent extends BaseAgent {
         return this.buildNewDeviceParams(payload.context);
       case 'trust_score_changed':
         return this.buildTrustScoreChangedParams(payload.context);
+      case 'digest':
+        return this.buildDigestParams(payload.context);
     }
   }
 
@@ -194,6 +206,19 @@ export class PushoverAgent extends BaseAgent {
     };
   }
 
+  private buildDigestParams(ctx: DigestContext): {
+    title: string;
+    message: string;
+    priority: string;
+  } {
+    // Pushover messages are capped at 1024 characters, so the top lists are left out
+    return {
+      title: formatDigestTitle(ctx.digest),
+      message: formatDigestText(ctx.digest, false),
+      priority: '-1',
+    };
+  }
+
   private severityToPushoverPriority(severity: string): string {
     const map: Record<string, string> = { high: '1', warning: '0', low: '-1' };
     return map[severity] ?? '-1';
@@ -0,0 +1,95 @@
+/**
+ * Telegram Notification Agent
+ *
+ * Sends MarkdownV2-formatted messages through the Telegram Bot API.
+ */
+
+import { ChatAgent } from './chat.js';
+import type {
+  NotificationPayload,
+  NotificationSettings,
+  NotificationEventType,
+  SendResult,
+  TestResult,
+} from '../types.js';
+import { renderTelegramMarkdown } from '../formatters/chat.js';
+
+const TELEGRAM_API_URL = 'https://api.telegram.org';
+
+interface TelegramResponse {
+  ok: boolean;
+  description?: string;
+}
+
+export class TelegramAgent extends ChatAgent {
+  readonly name = 'telegram';
+  readonly displayName = 'Telegram';
+
+  private readonly apiUrl: string;
+
+  /**
+   * @param apiUrl Bot API base URL (override for a self-hosted Bot API server)
+   */
+  constructor(apiUrl: string = TELEGRAM_API_URL) {
+    super();
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  shouldSend(_event: NotificationEventType, settings: NotificationSettings): boolean {
+    return !!settings.telegramBotToken && !!settings.telegramChatId;
+  }
+
+  async send(payload: NotificationPayload, settings: NotificationSettings): Promise<SendResult> {
+    if (!settings.telegramBotToken || !settings.telegramChatId) {
+      return this.handleError(new Error('Telegram bot token or chat ID not configured'), 'send');
+    }
+
+    try {
+      await this.sendMessage(
+        settings.telegramBotToken,
+        settings.telegramChatId,
+        renderTelegramMarkdown(this.buildChatMessage(payload))
+      );
+      return this.successResult();
+    } catch (error) {
+      return this.handleError(error, 'send');
+    }
+  }
+
+  async sendTest(settings: NotificationSettings): Promise<TestResult> {
+    if (!settings.telegramBotToken || !settings.telegramChatId) {
+      return this.failureTestResult('Telegram bot token and chat ID are required');
+    }
+
+    try {
+      await this.sendMessage(
+        settings.telegramBotToken,
+        settings.telegramChatId,
+        renderTelegramMarkdown(this.buildTestMessage())
+      );
+      return this.successTestResult();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return this.failureTestResult(message);
+    }
+  }
+
+  private async sendMessage(botToken: string, chatId: string, text: string): Promise<void> {
+    const response = await fetch(`${this.apiUrl}/bot${botToken}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: chatId,
+        text,
+        parse_mode: 'MarkdownV2',
+        disable_web_page_preview: true,
+      }),
+    });
+
+    if (!response.ok) {
+      // Bot API errors carry a JSON description; never echo the URL (it contains the token)
+      const body = (await response.json().catch(() => null)) as TelegramResponse | null;
+      throw new Error(`Telegram API failed: ${response.status} ${body?.description ?? ''}`.trim());
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Notification destinations
+ *
+ * A destination is one configured target (a Discord channel, a webhook endpoint,
+ * an SMTP mailbox...). Several destinations of the same type can exist; each is
+ * sent through its type's agent with settings built from the destination alone.
+ */
+
+import {
+  getSeverityPriority,
+  type NotificationDestination,
+  type NotificationDestinationConfig,
+  type NotificationDestinationType,
+  type WebhookFormat,
+} from '@tracearr/shared';
+import type { NotificationPayload, NotificationSettings } from './types.js';
+
+type ConfigKey = keyof NotificationDestinationConfig;
+
+/**
+ * Agent that sends each destination type
+ */
+export const DESTINATION_AGENTS: Record<NotificationDestinationType, string> = {
+  discord: 'discord',
+  json: 'json-webhook',
+  ntfy: 'ntfy',
+  apprise: 'apprise',
+  pushover: 'pushover',
+  gotify: 'gotify',
+  email: 'email',
+  telegram: 'telegram',
+  matrix: 'matrix',
+};
+
+/**
+ * Config keys used by each destination type (other keys are dropped on save)
+ */
+export const DESTINATION_CONFIG_KEYS: Record<NotificationDestinationType, readonly ConfigKey[]> = {
+  discord: ['discordWebhookUrl'],
+  json: ['customWebhookUrl', 'webhookSecret'],
+  ntfy: ['customWebhookUrl', 'ntfyTopic', 'ntfyAuthToken'],
+  apprise: ['customWebhookUrl'],
+  pushover: ['pushoverUserKey', 'pushoverApiToken'],
+  gotify: ['customWebhookUrl'],
+  email: [
+    'smtpHost',
+    'smtpPort',
+    'smtpSecurity',
+    'smtpUsername',
+    'smtpPassword',
+    'smtpFrom',
+    'smtpTo',
+  ],
+  telegram: ['telegramBotToken', 'telegramChatId'],
+  matrix: ['matrixHomeserverUrl', 'matrixAccessToken', 'matrixRoomId'],
+};
+
+/**
+ * Config keys a destination needs before it can send
+ */
+export const REQUIRED_CONFIG_KEYS: Record<NotificationDestinationType, readonly ConfigKey[]> = {
+  discord: ['discordWebhookUrl'],
+  json: ['customWebhookUrl'],
+  ntfy: ['customWebhookUrl', 'ntfyTopic'],
+  apprise: ['customWebhookUrl'],
+  pushover: ['pushoverUserKey', 'pushoverApiToken'],
+  gotify: ['customWebhookUrl'],
+  email: ['smtpHost', 'smtpFrom', 'smtpTo'],
+  telegram: ['telegramBotToken', 'telegramChatId'],
+  matrix: ['matrixHomeserverUrl', 'matrixAccessToken', 'matrixRoomId'],
+};
+
+/**
+ * Config keys holding credentials (masked in API responses)
+ */
+export const SECRET_CONFIG_KEYS: ReadonlySet<ConfigKey> = new Set<ConfigKey>([
+  'webhookSecret',
+  'ntfyAuthToken',
+  'pushoverApiToken',
+  'smtpPassword',
+  'telegramBotToken',
+  'matrixAccessToken',
+]);
+
+/**
+ * Config keys holding URLs that can embed credentials (the Discord webhook token,
+ * a Gotify or ntfy `?token=`). Admins need them to edit the destination, so they
+ * are only masked in the audit log.
+ */
+export const CREDENTIAL_URL_CONFIG_KEYS: ReadonlySet<ConfigKey> = new Set<ConfigKey>([
+  'discordWebhookUrl',
+  'customWebhookUrl',
+]);
+
+/**
+ * Events new destinations subscribe to unless told otherwise
+ * (matches the default routing: no stream start/stop or trust score noise)
+ */
+export const DEFAULT_DESTINATION_EVENTS: NotificationDestination['events'] = [
+  'violation_detected',
+  'concurrent_streams',
+  'new_device',
+  'server_down',
+  'server_up',
+];
+
+// Payload format selected on the custom webhook agents
+const WEBHOOK_FORMATS: Partial<Record<NotificationDestinationType, WebhookFormat>> = {
+  json: 'json',
+  ntfy: 'ntfy',
+  apprise: 'apprise',
+  pushover: 'pushover',
+  gotify: 'gotify',
+};
+
+/**
+ * Keep only the config keys the destination type uses
+ */
+export function pickDestinationConfig(
+  type: NotificationDestinationType,
+  config: NotificationDestinationConfig
+): NotificationDestinationConfig {
+  const picked: Record<string, unknown> = {};
+  for (const key of DESTINATION_CONFIG_KEYS[type]) {
+    if (config[key] !== undefined) {
+      picked[key] = config[key];
+    }
+  }
+  return picked as NotificationDestinationConfig;
+}
+
+/**
+ * Required config keys that are missing or empty
+ */
+export function getMissingConfigKeys(
+  type: NotificationDestinationType,
+  config: NotificationDestinationConfig
+): ConfigKey[] {
+  return REQUIRED_CONFIG_KEYS[type].filter((key) => config[key] == null || config[key] === '');
+}
+
+/**
+ * Build agent settings for a single destination. Every other agent's fields are
+ * null, so sending with these settings only reaches this destination.
+ */
+export function toNotificationSettings(
+  destination: Pick<NotificationDestination, 'id' | 'type' | 'config'>
+): NotificationSettings {
+  const config = pickDestinationConfig(destination.type, destination.config);
+
+  return {
+    discordWebhookUrl: config.discordWebhookUrl ?? null,
+    customWebhookUrl: config.customWebhookUrl ?? null,
+    webhookFormat: WEBHOOK_FORMATS[destination.type] ?? null,
+    webhookSecret: config.webhookSecret ?? null,
+    ntfyTopic: config.ntfyTopic ?? null,
+    ntfyAuthToken: config.ntfyAuthToken ?? null,
+    pushoverUserKey: config.pushoverUserKey ?? null,
+    pushoverApiToken: config.pushoverApiToken ?? null,
+    smtpHost: config.smtpHost ?? null,
+    smtpPort: config.smtpPort ?? null,
+    smtpSecurity: config.smtpSecurity ?? null,
+    smtpUsername: config.smtpUsername ?? null,
+    smtpPassword: config.smtpPassword ?? null,
+    smtpFrom: config.smtpFrom ?? null,
+    smtpTo: config.smtpTo ?? null,
+    telegramBotToken: config.telegramBotToken ?? null,
+    telegramChatId: config.telegramChatId ?? null,
+    matrixHomeserverUrl: config.matrixHomeserverUrl ?? null,
+    matrixAccessToken: config.matrixAccessToken ?? null,
+    matrixRoomId: config.matrixRoomId ?? null,
+    destinationId: destination.id,
+  };
+}
+
+/**
+ * Check a destination's routing against a notification: it must be enabled,
+ * subscribed to the event, at or above its severity floor, and (when it filters
+ * by server) the event must come from one of its servers. Digests are sent on
+ * the destination's digest schedule instead, so they never match here.
+ */
+export function destinationAccepts(
+  destination: Pick<NotificationDestination, 'enabled' | 'events' | 'minSeverity' | 'serverIds'>,
+  payload: Pick<NotificationPayload, 'event' | 'severity'>,
+  serverId: string | null
+): boolean {
+  if (
+    !destination.enabled ||
+    payload.event === 'digest' ||
+    !destination.events.includes(payload.event)
+  ) {
+    return false;
+  }
+  if (getSeverityPriority(payload.severity) < getSeverityPriority(destination.minSeverity)) {
+    return false;
+  }
+  return matchesServerFilter(destination, serverId);
+}
+
+/**
+ * Events without a server (or destinations without a server filter) always match
+ */
+export function matchesServerFilter(
+  destination: Pick<NotificationDestination, 'serverIds'>,
+  serverId: string | null
+): boolean {
+  return (
+    destination.serverIds.length === 0 ||
+    serverId === null ||
+    destination.serverIds.includes(serverId)
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Chat message rendering utilities (Telegram, Matrix)
+ *
+ * Chat agents describe each event as a heading, a one-line summary and a list
+ * of label/value rows, then render it in the markup their service understands.
+ */
+
+export interface ChatField {
+  label: string;
+  value: string;
+}
+
+export interface ChatMessage {
+  heading: string;
+  summary: string;
+  fields: ChatField[];
+}
+
+/** Characters that must be escaped anywhere in Telegram MarkdownV2 text */
+const TELEGRAM_MARKDOWN_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+/**
+ * Escape text for Telegram's MarkdownV2 parse mode
+ */
+export function escapeTelegramMarkdown(text: string): string {
+  return text.replace(TELEGRAM_MARKDOWN_SPECIAL, '\\$&');
+}
+
+/**
+ * Render a message as Telegram MarkdownV2
+ */
+export function renderTelegramMarkdown(message: ChatMessage): string {
+  const lines = [
+    `*${escapeTelegramMarkdown(message.heading)}*`,
+    escapeTelegramMarkdown(message.summary),
+  ];
+
+  if (message.fields.length > 0) {
+    lines.push('');
+    for (const field of message.fields) {
+      lines.push(
+        `*${escapeTelegramMarkdown(field.label)}:* ${escapeTelegramMarkdown(field.value)}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Escape text for inclusion in Matrix formatted_body HTML
+ */
+export function escapeMatrixHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a message as HTML for Matrix's org.matrix.custom.html format
+ */
+export function renderMatrixHtml(message: ChatMessage): string {
+  const summary = escapeMatrixHtml(message.summary).replace(/\n/g, '<br />');
+  let html = `<h4>${escapeMatrixHtml(message.heading)}</h4><p>${summary}</p>`;
+
+  if (message.fields.length > 0) {
+    const items = message.fields
+      .map(
+        (field) =>
+          `<li><strong>${escapeMatrixHtml(field.label)}:</strong> ${escapeMatrixHtml(field.value)}</li>`
+      )
+      .join('');
+    html += `<ul>${items}</ul>`;
+  }
+
+  return html;
+}
+
+/**
+ * Render a message as plain text (Matrix fallback body)
+ */
+export function renderChatText(message: ChatMessage): string {
+  const lines = [message.heading, message.summary];
+
+  if (message.fields.length > 0) {
+    lines.push('');
+    for (const field of message.fields) {
+      lines.push(`${field.label}: ${field.value}`);
+    }
+  }
+
+  return lines.join('\n');
+}
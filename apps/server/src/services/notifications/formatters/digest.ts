@@ -0,0 +1,324 @@
+/**
+ * Usage digest formatting
+ *
+ * Push and chat agents get a condensed digest (title, summary and key figures,
+ * plus the top lists where the service allows longer messages). Email and the
+ * download endpoint use the full standalone HTML report.
+ */
+
+import type { DigestReport, DigestTopContent } from '@tracearr/shared';
+import { escapeHtml } from './email.js';
+
+export interface DigestField {
+  label: string;
+  value: string;
+}
+
+const PERIOD_LABELS: Record<DigestReport['period'], string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const numberFormat = new Intl.NumberFormat('en-US');
+
+function formatNumber(value: number): string {
+  return numberFormat.format(value);
+}
+
+function plural(count: number, word: string): string {
+  return `${formatNumber(count)} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${formatNumber(value)}` : formatNumber(value);
+}
+
+/**
+ * Human-readable period covered by the digest, e.g. "Mar 4 - Mar 10, 2024" or "March 2024"
+ */
+export function formatDigestRange(digest: Pick<DigestReport, 'period' | 'start' | 'end'>): string {
+  const start = new Date(digest.start);
+  if (digest.period === 'monthly') {
+    return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+
+  // The end is exclusive; show the last day covered
+  const last = new Date(new Date(digest.end).getTime() - 1);
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const endLabel = last.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return `${startLabel} - ${endLabel}`;
+}
+
+export function formatDigestTitle(digest: Pick<DigestReport, 'period' | 'start' | 'end'>): string {
+  return `${PERIOD_LABELS[digest.period]} Digest: ${formatDigestRange(digest)}`;
+}
+
+/**
+ * One-line summary, e.g. "42 plays and 31.5 hours watched by 8 users (+12% plays)"
+ */
+export function formatDigestSummary(digest: Pick<DigestReport, 'period' | 'totals'>): string {
+  const { plays, watchTimeHours, activeUsers, playsChangePercent } = digest.totals;
+  const previous = digest.period === 'weekly' ? 'last week' : 'last month';
+  const change =
+    playsChangePercent === null ? '' : ` (${formatSigned(playsChangePercent)}% vs ${previous})`;
+  return `${plural(plays, 'play')} and ${watchTimeHours} hours watched by ${plural(activeUsers, 'user')}${change}`;
+}
+
+function formatContent(item: DigestTopContent): string {
+  const year = item.year ? ` (${item.year})` : '';
+  return `${item.title}${year}`;
+}
+
+/**
+ * Key figures shown by every agent
+ */
+export function getDigestFields(digest: DigestReport): DigestField[] {
+  const { transcode, bandwidth, violations, libraryGrowth } = digest;
+  const fields: DigestField[] = [
+    {
+      label: 'Transcodes',
+      value: `${transcode.transcodePercent}% (${formatNumber(transcode.transcode)} of ${formatNumber(transcode.directPlay + transcode.transcode)})`,
+    },
+    {
+      label: 'Bandwidth',
+      value: `${bandwidth.totalGb} GB (avg ${bandwidth.avgBitrateMbps} Mbps, peak ${bandwidth.peakBitrateMbps} Mbps)`,
+    },
+    {
+      label: 'Violations',
+      value:
+        violations.total === 0
+          ? 'None'
+          : `${formatNumber(violations.total)} (${violations.bySeverity.high} high, ${violations.bySeverity.warning} warning, ${violations.bySeverity.low} low)`,
+    },
+    { label: 'New devices', value: formatNumber(digest.newDeviceCount) },
+  ];
+
+  if (libraryGrowth) {
+    fields.push({
+      label: 'Library',
+      value: `${formatSigned(libraryGrowth.movies)} movies, ${formatSigned(libraryGrowth.episodes)} episodes, ${formatSigned(libraryGrowth.music)} tracks`,
+    });
+  }
+
+  const topUser = digest.topUsers[0];
+  if (topUser) {
+    fields.push({
+      label: 'Top user',
+      value: `${topUser.identityName ?? topUser.username} (${topUser.watchTimeHours} h)`,
+    });
+  }
+  const topMovie = digest.topMovies[0];
+  if (topMovie) {
+    fields.push({
+      label: 'Top movie',
+      value: `${formatContent(topMovie)}, ${plural(topMovie.playCount, 'play')}`,
+    });
+  }
+  const topShow = digest.topShows[0];
+  if (topShow) {
+    fields.push({
+      label: 'Top show',
+      value: `${formatContent(topShow)}, ${plural(topShow.playCount, 'play')}`,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Numbered top lists as plain text sections
+ */
+function getDigestListSections(digest: DigestReport): { heading: string; lines: string[] }[] {
+  return [
+    {
+      heading: 'Top users',
+      lines: digest.topUsers.map(
+        (u) =>
+          `${u.identityName ?? u.username} - ${u.watchTimeHours} h, ${plural(u.playCount, 'play')}`
+      ),
+    },
+    {
+      heading: 'Top movies',
+      lines: digest.topMovies.map((m) => `${formatContent(m)} - ${plural(m.playCount, 'play')}`),
+    },
+    {
+      heading: 'Top shows',
+      lines: digest.topShows.map((s) => `${formatContent(s)} - ${plural(s.playCount, 'play')}`),
+    },
+    {
+      heading: 'New devices',
+      lines: digest.newDevices.map((d) => {
+        const details = [d.platform, d.location].filter(Boolean).join(', ');
+        return `${d.username}: ${d.deviceName}${details ? ` (${details})` : ''}`;
+      }),
+    },
+  ].filter((section) => section.lines.length > 0);
+}
+
+/**
+ * Plain-text digest body (summary, key figures and optionally the top lists)
+ */
+export function formatDigestText(digest: DigestReport, includeLists = true): string {
+  const lines = [formatDigestSummary(digest), ''];
+  for (const field of getDigestFields(digest)) {
+    lines.push(`${field.label}: ${field.value}`);
+  }
+
+  if (includeLists) {
+    for (const section of getDigestListSections(digest)) {
+      lines.push('', section.heading);
+      section.lines.forEach((line, index) => lines.push(`${index + 1}. ${line}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a table section of the HTML report
+ */
+function renderHtmlTable(heading: string, columns: string[], rows: string[][]): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const head = columns
+    .map(
+      (column, index) =>
+        `<th style="padding:6px 8px;text-align:${index === 0 ? 'left' : 'right'};color:#6b7280;font-size:12px;font-weight:600;border-bottom:1px solid #e5e7eb;">${escapeHtml(column)}</th>`
+    )
+    .join('');
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${row
+          .map(
+            (cell, index) =>
+              `<td style="padding:6px 8px;text-align:${index === 0 ? 'left' : 'right'};color:#111827;font-size:14px;border-bottom:1px solid #f3f4f6;">${escapeHtml(cell)}</td>`
+          )
+          .join('')}</tr>`
+    )
+    .join('');
+
+  return `
+          <h2 style="margin:24px 0 8px;font-size:16px;color:#111827;">${escapeHtml(heading)}</h2>
+          <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;border-collapse:collapse;">
+            <tr>${head}</tr>${body}
+          </table>`;
+}
+
+/**
+ * Render the full digest as a standalone HTML page. Uses table layout and
+ * inline styles only so the same markup works as an email body.
+ */
+export function renderDigestHtml(digest: DigestReport): string {
+  const title = formatDigestTitle(digest);
+  const figures = [
+    { label: 'Plays', value: formatNumber(digest.totals.plays) },
+    { label: 'Hours watched', value: String(digest.totals.watchTimeHours) },
+    { label: 'Active users', value: formatNumber(digest.totals.activeUsers) },
+  ]
+    .map(
+      (figure) => `
+              <td style="padding:12px;text-align:center;background-color:#f9fafb;border-radius:6px;">
+                <div style="font-size:24px;font-weight:700;color:#111827;">${escapeHtml(figure.value)}</div>
+                <div style="font-size:12px;color:#6b7280;">${escapeHtml(figure.label)}</div>
+              </td>`
+    )
+    .join('<td style="width:8px;"></td>');
+
+  const fieldRows = getDigestFields(digest)
+    .map(
+      (field) => `
+            <tr>
+              <td style="padding:6px 12px 6px 0;color:#6b7280;font-size:13px;white-space:nowrap;vertical-align:top;">${escapeHtml(field.label)}</td>
+              <td style="padding:6px 0;color:#111827;font-size:14px;">${escapeHtml(field.value)}</td>
+            </tr>`
+    )
+    .join('');
+
+  const sections = [
+    renderHtmlTable(
+      'Top users',
+      ['User', 'Plays', 'Hours'],
+      digest.topUsers.map((u) => [
+        u.identityName ?? u.username,
+        formatNumber(u.playCount),
+        String(u.watchTimeHours),
+      ])
+    ),
+    renderHtmlTable(
+      'Top movies',
+      ['Movie', 'Plays', 'Hours'],
+      digest.topMovies.map((m) => [
+        formatContent(m),
+        formatNumber(m.playCount),
+        String(m.watchTimeHours),
+      ])
+    ),
+    renderHtmlTable(
+      'Top shows',
+      ['Show', 'Plays', 'Hours'],
+      digest.topShows.map((s) => [
+        formatContent(s),
+        formatNumber(s.playCount),
+        String(s.watchTimeHours),
+      ])
+    ),
+    renderHtmlTable(
+      'Most frequent violations',
+      ['Rule', 'Violations'],
+      digest.violations.topRules.map((r) => [r.name, formatNumber(r.count)])
+    ),
+    renderHtmlTable(
+      digest.newDeviceCount > digest.newDevices.length
+        ? `New devices (first ${digest.newDevices.length} of ${digest.newDeviceCount})`
+        : 'New devices',
+      ['User', 'Device', 'Location'],
+      digest.newDevices.map((d) => [
+        d.username,
+        d.platform ? `${d.deviceName} (${d.platform})` : d.deviceName,
+        d.location ?? '',
+      ])
+    ),
+  ].join('');
+
+  const servers =
+    digest.serverNames.length > 0 ? `Servers: ${digest.serverNames.join(', ')}` : 'All servers';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background-color:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+    <table role="presentation" cellpadding="0" cellspacing="0" style="max-width:640px;width:100%;margin:0 auto;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+      <tr>
+        <td style="height:4px;background-color:#3498db;"></td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 4px;font-size:20px;color:#111827;">${escapeHtml(title)}</h1>
+          <p style="margin:0 0 16px;font-size:13px;color:#6b7280;">${escapeHtml(servers)}</p>
+          <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;">
+            <tr>${figures}
+            </tr>
+          </table>
+          <p style="margin:16px 0 0;font-size:14px;color:#374151;">${escapeHtml(formatDigestSummary(digest))}</p>
+          <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;border-top:1px solid #e5e7eb;margin-top:16px;padding-top:8px;">${fieldRows}
+          </table>${sections}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:12px 24px;background-color:#f9fafb;font-size:12px;color:#9ca3af;">Generated by Tracearr on ${escapeHtml(new Date(digest.generatedAt).toLocaleString('en-US'))}</td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
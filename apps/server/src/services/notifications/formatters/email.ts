@@ -0,0 +1,138 @@
+/**
+ * Email rendering utilities
+ *
+ * Every event is described as a small structured message (heading, summary,
+ * key/value rows) and rendered into both an HTML and a plain-text body so mail
+ * clients without HTML support still get a readable notification.
+ */
+
+export interface EmailField {
+  label: string;
+  value: string;
+}
+
+export interface EmailMessage {
+  /** Subject line (prefixed with "[Tracearr]" when rendered) */
+  subject: string;
+  /** Large heading at the top of the message */
+  heading: string;
+  /** One-sentence summary shown under the heading */
+  summary: string;
+  /** Detail rows rendered as a table (HTML) or "Label: value" lines (text) */
+  fields: EmailField[];
+  /** Accent color for the HTML header bar (CSS hex, e.g. #e74c3c) */
+  color: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SUBJECT_PREFIX = '[Tracearr]';
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert a numeric color (as used by Discord embeds) to a CSS hex string
+ */
+export function toCssColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * Render the plain-text alternative body
+ */
+export function renderEmailText(message: EmailMessage): string {
+  const lines = [message.heading, '', message.summary];
+
+  if (message.fields.length > 0) {
+    lines.push('');
+    for (const field of message.fields) {
+      lines.push(`${field.label}: ${field.value}`);
+    }
+  }
+
+  lines.push('', '--', 'Sent by Tracearr');
+  return lines.join('\n');
+}
+
+/**
+ * Render the HTML body. Uses table layout and inline styles only,
+ * since most mail clients strip <style> blocks.
+ */
+export function renderEmailHtml(message: EmailMessage): string {
+  const rows = message.fields
+    .map(
+      (field) => `
+          <tr>
+            <td style="padding:6px 12px 6px 0;color:#6b7280;font-size:13px;white-space:nowrap;vertical-align:top;">${escapeHtml(field.label)}</td>
+            <td style="padding:6px 0;color:#111827;font-size:14px;">${escapeHtml(field.value)}</td>
+          </tr>`
+    )
+    .join('');
+
+  const fieldsTable =
+    message.fields.length > 0
+      ? `
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;border-top:1px solid #e5e7eb;margin-top:16px;padding-top:8px;">${rows}
+        </table>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(message.subject)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background-color:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+    <table role="presentation" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;margin:0 auto;background-color:#ffffff;border-radius:8px;overflow:hidden;">
+      <tr>
+        <td style="height:4px;background-color:${message.color};"></td>
+      </tr>
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 8px;font-size:20px;color:#111827;">${escapeHtml(message.heading)}</h1>
+          <p style="margin:0;font-size:14px;color:#374151;white-space:pre-line;">${escapeHtml(message.summary)}</p>${fieldsTable}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:12px 24px;background-color:#f9fafb;font-size:12px;color:#9ca3af;">Sent by Tracearr</td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+/**
+ * Render a structured message into subject, text and HTML parts
+ */
+export function renderEmail(message: EmailMessage): RenderedEmail {
+  return {
+    subject: `${SUBJECT_PREFIX} ${message.subject}`,
+    text: renderEmailText(message),
+    html: renderEmailHtml(message),
+  };
+}
+
+/**
+ * Split a comma/semicolon separated recipient list into trimmed addresses
+ */
+export function parseRecipients(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(/[,;]/)
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0);
+}
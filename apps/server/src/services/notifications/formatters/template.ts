@@ -0,0 +1,361 @@
+/**
+ * User-defined notification template rendering
+ *
+ * Templates are plain strings with {{path}} placeholders (e.g. {{user.username}},
+ * {{session.mediaTitle}}) resolved against a variable tree built from the
+ * notification payload. The documented variables per event live in
+ * NOTIFICATION_TEMPLATE_VARIABLES in @tracearr/shared.
+ */
+
+import {
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  SEVERITY_LEVELS,
+  type NotificationTemplateEventType,
+} from '@tracearr/shared';
+import type {
+  ActiveSession,
+  NotificationEventType,
+  NotificationPayload,
+  NotificationTemplateSet,
+  RenderedTemplate,
+} from '../types.js';
+import { formatViolationMessage } from './violation.js';
+import { formatDigestRange } from './digest.js';
+
+export type TemplateValue = string | number | null | undefined | TemplateVariables;
+
+export interface TemplateVariables {
+  [key: string]: TemplateValue;
+}
+
+/** Matches {{ path.to.value }} placeholders */
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Key used to look up a template in a NotificationTemplateSet
+ */
+export function templateKey(event: NotificationEventType, agent: string): string {
+  return `${event}:${agent}`;
+}
+
+/**
+ * Replace {{path}} placeholders with values from the variable tree.
+ * Unknown or empty variables render as an empty string.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER, (_match, path: string) => {
+    let value: TemplateValue = variables;
+    for (const segment of path.split('.')) {
+      if (value === null || typeof value !== 'object') return '';
+      value = value[segment];
+    }
+    if (value === null || value === undefined || typeof value === 'object') return '';
+    return String(value);
+  });
+}
+
+/**
+ * Placeholders in a template that are not documented for the event type
+ */
+export function findUnknownVariables(
+  template: string,
+  eventType: NotificationTemplateEventType
+): string[] {
+  const known = new Set(NOTIFICATION_TEMPLATE_VARIABLES[eventType].map((v) => v.name));
+  const unknown = new Set<string>();
+  for (const [, path] of template.matchAll(PLACEHOLDER)) {
+    if (path && !known.has(path)) unknown.add(path);
+  }
+  return [...unknown];
+}
+
+/**
+ * Build the variable tree for a notification payload
+ */
+export function buildTemplateVariables(payload: NotificationPayload): TemplateVariables {
+  const event: TemplateVariables = {
+    type: payload.event,
+    title: payload.title,
+    message: payload.message,
+    severity: payload.severity,
+    timestamp: payload.timestamp,
+  };
+  const { context } = payload;
+
+  switch (context.type) {
+    case 'violation_detected': {
+      const { violation } = context;
+      return {
+        event,
+        user: {
+          username: violation.user.username,
+          displayName: violation.user.identityName ?? violation.user.username,
+        },
+        violation: {
+          rule: { name: violation.rule.name, type: violation.rule.type },
+          severity: violation.severity,
+          summary: formatViolationMessage(violation),
+        },
+        ...(violation.session ? buildSessionVariables(violation.session) : {}),
+        server: { name: violation.server?.name, type: violation.server?.type },
+      };
+    }
+    case 'stream_started':
+    case 'stream_stopped': {
+      const { session } = context;
+      const { session: sessionVariables, geo } = buildSessionVariables(session);
+      return {
+        event,
+        user: {
+          username: session.user.username,
+          displayName: session.user.identityName ?? session.user.username,
+        },
+        session: {
+          ...sessionVariables,
+          playbackType: getPlaybackType(session),
+          duration: session.durationMs ? formatDuration(session.durationMs) : null,
+        },
+        geo,
+        server: { name: session.server.name, type: session.server.type },
+      };
+    }
+    case 'server_down':
+    case 'server_up':
+      return { event, server: { name: context.serverName, type: context.serverType } };
+    case 'new_device':
+      return {
+        event,
+        user: { username: context.userName },
+        device: { name: context.deviceName, platform: context.platform },
+        geo: { location: context.location },
+      };
+    case 'trust_score_changed':
+      return {
+        event,
+        user: { username: context.userName },
+        trust: {
+          previousScore: context.previousScore,
+          newScore: context.newScore,
+          direction: context.newScore < context.previousScore ? 'decreased' : 'increased',
+          reason: context.reason,
+        },
+      };
+    case 'digest': {
+      const { digest } = context;
+      return {
+        event,
+        digest: {
+          period: digest.period,
+          range: formatDigestRange(digest),
+          plays: digest.totals.plays,
+          watchTimeHours: digest.totals.watchTimeHours,
+          activeUsers: digest.totals.activeUsers,
+          transcodePercent: digest.transcode.transcodePercent,
+          bandwidthGb: digest.bandwidth.totalGb,
+          violations: digest.violations.total,
+          newDevices: digest.newDeviceCount,
+          topUser: digest.topUsers[0]?.username,
+          topMovie: digest.topMovies[0]?.title,
+          topShow: digest.topShows[0]?.title,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Return the payload with the agent's template rendered into it, or the payload
+ * unchanged when no template is defined (built-in formatting applies).
+ */
+export function applyTemplate(
+  payload: NotificationPayload,
+  agent: string,
+  templates: NotificationTemplateSet | undefined
+): NotificationPayload {
+  const template = templates?.get(templateKey(payload.event, agent));
+  if (!template) return payload;
+
+  const variables = buildTemplateVariables(payload);
+  const rendered: RenderedTemplate = {
+    title: renderTemplate(template.title, variables),
+    body: renderTemplate(template.body, variables),
+  };
+  return { ...payload, template: rendered };
+}
+
+/**
+ * Example values used by the template preview endpoint
+ */
+export function buildSampleTemplateVariables(
+  eventType: NotificationTemplateEventType
+): TemplateVariables {
+  const severity = eventType === 'server_down' ? 'high' : 'low';
+  const event: TemplateVariables = {
+    type: eventType,
+    title: SAMPLE_EVENT_TEXT[eventType].title,
+    message: SAMPLE_EVENT_TEXT[eventType].body,
+    severity,
+    timestamp: '2025-01-01T20:30:00.000Z',
+  };
+  const session: TemplateVariables = {
+    mediaTitle: 'Ozymandias',
+    grandparentTitle: 'Breaking Bad',
+    displayTitle: 'Breaking Bad - S05E14',
+    mediaType: 'episode',
+    year: 2013,
+    seasonNumber: 5,
+    episodeNumber: 14,
+    playerName: 'Living Room TV',
+    product: 'Plex for Android (TV)',
+    platform: 'Android',
+    device: 'SHIELD Android TV',
+    quality: '1080p',
+    ipAddress: '203.0.113.42',
+    playbackType: 'Direct Play',
+    duration: '47m 12s',
+  };
+  const geo: TemplateVariables = {
+    city: 'Berlin',
+    region: 'Berlin',
+    country: 'Germany',
+    location: 'Berlin, Germany',
+  };
+  const user: TemplateVariables = { username: 'jsmith', displayName: 'John Smith' };
+  const server: TemplateVariables = { name: 'Home Plex', type: 'plex' };
+
+  switch (eventType) {
+    case 'violation_detected':
+      return {
+        event: { ...event, severity: 'high' },
+        user,
+        violation: {
+          rule: { name: 'Max 2 Streams', type: 'concurrent_streams' },
+          severity: 'high',
+          summary: `User John Smith triggered Max 2 Streams (${SEVERITY_LEVELS.high.label} severity)`,
+        },
+        session,
+        geo,
+        server,
+      };
+    case 'stream_started':
+    case 'stream_stopped':
+      return { event, user, session, geo, server };
+    case 'server_down':
+    case 'server_up':
+      return { event, server };
+    case 'new_device':
+      return {
+        event: { ...event, severity: 'warning' },
+        user: { username: 'John Smith' },
+        device: { name: 'iPhone', platform: 'iOS' },
+        geo: { location: 'Berlin, Germany' },
+      };
+    case 'trust_score_changed':
+      return {
+        event: { ...event, severity: 'warning' },
+        user: { username: 'John Smith' },
+        trust: {
+          previousScore: 100,
+          newScore: 80,
+          direction: 'decreased',
+          reason: 'Violation: Max 2 Streams',
+        },
+      };
+  }
+}
+
+const SAMPLE_EVENT_TEXT: Record<NotificationTemplateEventType, RenderedTemplate> = {
+  violation_detected: {
+    title: 'Violation Detected',
+    body: 'User John Smith triggered a rule violation',
+  },
+  stream_started: { title: 'Stream Started', body: 'John Smith started streaming' },
+  stream_stopped: { title: 'Stream Stopped', body: 'John Smith stopped streaming' },
+  server_down: { title: 'Server Offline', body: 'Home Plex is not responding' },
+  server_up: { title: 'Server Online', body: 'Home Plex is back online' },
+  new_device: {
+    title: 'New Device Detected',
+    body: 'John Smith connected from a new device: iPhone from Berlin, Germany',
+  },
+  trust_score_changed: {
+    title: 'Trust Score Changed',
+    body: "John Smith's trust score decreased from 100 to 80: Violation: Max 2 Streams",
+  },
+};
+
+type SessionFields = Pick<
+  ActiveSession,
+  | 'mediaTitle'
+  | 'grandparentTitle'
+  | 'mediaType'
+  | 'year'
+  | 'seasonNumber'
+  | 'episodeNumber'
+  | 'playerName'
+  | 'product'
+  | 'platform'
+  | 'device'
+  | 'quality'
+  | 'ipAddress'
+  | 'geoCity'
+  | 'geoRegion'
+  | 'geoCountry'
+>;
+
+/**
+ * Session and geo variables shared by session and violation events
+ */
+function buildSessionVariables(session: SessionFields): {
+  session: TemplateVariables;
+  geo: TemplateVariables;
+} {
+  return {
+    session: {
+      mediaTitle: session.mediaTitle,
+      grandparentTitle: session.grandparentTitle,
+      displayTitle: getDisplayTitle(session),
+      mediaType: session.mediaType,
+      year: session.year,
+      seasonNumber: session.seasonNumber,
+      episodeNumber: session.episodeNumber,
+      playerName: session.playerName,
+      product: session.product,
+      platform: session.platform,
+      device: session.device,
+      quality: session.quality,
+      ipAddress: session.ipAddress,
+    },
+    geo: {
+      city: session.geoCity,
+      region: session.geoRegion,
+      country: session.geoCountry,
+      location: [session.geoCity, session.geoCountry].filter(Boolean).join(', ') || null,
+    },
+  };
+}
+
+function getDisplayTitle(session: SessionFields): string {
+  if (session.mediaType === 'episode' && session.grandparentTitle) {
+    if (session.seasonNumber && session.episodeNumber) {
+      const season = session.seasonNumber.toString().padStart(2, '0');
+      const episode = session.episodeNumber.toString().padStart(2, '0');
+      return `${session.grandparentTitle} - S${season}E${episode}`;
+    }
+    return `${session.grandparentTitle} - ${session.mediaTitle}`;
+  }
+  return session.year ? `${session.mediaTitle} (${session.year})` : session.mediaTitle;
+}
+
+function getPlaybackType(session: ActiveSession): string {
+  if (session.isTranscode) return 'Transcode';
+  if (session.videoDecision === 'copy' || session.audioDecision === 'copy') return 'Direct Stream';
+  return 'Direct Play';
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${Math.floor(ms / 1000) % 60}s`;
+  return `${Math.floor(ms / 1000)}s`;
+}
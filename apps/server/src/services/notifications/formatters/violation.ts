@@ -112,6 +112,28 @@ function formatEvidenceForDiscord(evidence: GroupEvidence[]): DiscordField[] {
   return fields;
 }
 
+/**
+ * Format matched V2 evidence conditions as plain label/value pairs (no markdown).
+ */
+export function formatEvidenceAsText(
+  data: Record<string, unknown> | null
+): Array<{ label: string; value: string }> {
+  if (!data || !Array.isArray(data.evidence)) return [];
+
+  const lines: Array<{ label: string; value: string }> = [];
+  for (const group of data.evidence as GroupEvidence[]) {
+    for (const cond of group.conditions.filter((c) => c.matched)) {
+      const actual =
+        cond.actual !== null && cond.actual !== undefined ? String(cond.actual) : 'N/A';
+      lines.push({
+        label: CONDITION_FIELD_LABELS[cond.field] ?? cond.field,
+        value: `${actual} (${OPERATOR_LABELS[cond.operator] ?? cond.operator} ${String(cond.threshold)})`,
+      });
+    }
+  }
+  return lines;
+}
+
 /**
  * Format violation details into Discord embed fields based on rule type
  */
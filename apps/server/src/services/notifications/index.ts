@@ -5,6 +5,7 @@
  * Provides a unified interface for sending notifications through all enabled channels.
  */
 
+import type { NotificationDestination, ServerType } from '@tracearr/shared';
 import type {
   NotificationAgent,
   NotificationPayload,
@@ -16,6 +17,8 @@ import type {
 } from './types.js';
 import { PayloadBuilders } from './types.js';
 import { createAllAgents } from './agents/index.js';
+import { applyTemplate } from './formatters/template.js';
+import { toNotificationSettings } from './destinations.js';
 
 // Re-export types and utilities
 export type {
@@ -31,10 +34,15 @@ export type {
   ServerContext,
   NewDeviceContext,
   TrustScoreChangedContext,
+  DigestContext,
   NotificationContext,
+  NotificationTemplateSet,
+  RenderedTemplate,
 } from './types.js';
 export { PayloadBuilders } from './types.js';
+export { templateKey } from './formatters/template.js';
 export * from './agents/index.js';
+export * from './destinations.js';
 
 /**
  * Central notification manager that orchestrates all agents.
@@ -72,6 +80,7 @@ export class NotificationManager {
 
   /**
    * Send notification to all enabled agents for the given event.
+   * Agents with a user-defined template for the event receive it rendered.
    * Returns results from all agents (success and failures).
    */
   async sendAll(
@@ -85,7 +94,9 @@ export class NotificationManager {
     }
 
     const results = await Promise.allSettled(
-      enabledAgents.map((agent) => agent.send(payload, settings))
+      enabledAgents.map((agent) =>
+        agent.send(applyTemplate(payload, agent.name, settings.templates), settings)
+      )
     );
 
     return results.map((result, index) => {
@@ -101,6 +112,23 @@ export class NotificationManager {
     });
   }
 
+  /**
+   * Send a notification to each destination through its type's agent.
+   * Settings are built per destination, so several destinations of one type all receive it.
+   */
+  async sendToDestinations(
+    payload: NotificationPayload,
+    destinations: Pick<NotificationDestination, 'id' | 'type' | 'config'>[],
+    templates?: NotificationSettings['templates']
+  ): Promise<SendResult[]> {
+    const results = await Promise.all(
+      destinations.map((destination) =>
+        this.sendAll(payload, { ...toNotificationSettings(destination), templates })
+      )
+    );
+    return results.flat();
+  }
+
   /**
    * Test a specific agent by name
    */
@@ -153,7 +181,7 @@ export class NotificationManager {
   async notifyServerDown(
     serverName: string,
     settings: NotificationSettings,
-    serverType?: 'plex' | 'jellyfin' | 'emby'
+    serverType?: ServerType
   ): Promise<SendResult[]> {
     const payload = PayloadBuilders.fromServerDown(serverName, serverType);
     return this.sendAll(payload, settings);
@@ -165,7 +193,7 @@ export class NotificationManager {
   async notifyServerUp(
     serverName: string,
     settings: NotificationSettings,
-    serverType?: 'plex' | 'jellyfin' | 'emby'
+    serverType?: ServerType
   ): Promise<SendResult[]> {
     const payload = PayloadBuilders.fromServerUp(serverName, serverType);
     return this.sendAll(payload, settings);
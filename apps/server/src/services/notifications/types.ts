@@ -4,7 +4,16 @@
  * Based on Jellyseerr's agent pattern for extensible notifications.
  */
 
-import type { ViolationWithDetails, ActiveSession, Settings } from '@tracearr/shared';
+import type {
+  ViolationWithDetails,
+  ActiveSession,
+  Settings,
+  SmtpSecurity,
+  WebhookFormat,
+  ServerType,
+  DigestReport,
+} from '@tracearr/shared';
+import { formatDigestSummary, formatDigestTitle } from './formatters/digest.js';
 
 // Re-export for convenience
 export type { ViolationWithDetails, ActiveSession, Settings };
@@ -19,7 +28,8 @@ export type NotificationEventType =
   | 'new_device'
   | 'trust_score_changed'
   | 'server_down'
-  | 'server_up';
+  | 'server_up'
+  | 'digest';
 
 /**
  * Severity levels for notifications
@@ -48,7 +58,7 @@ export interface SessionContext {
 export interface ServerContext {
   type: 'server_down' | 'server_up';
   serverName: string;
-  serverType?: 'plex' | 'jellyfin' | 'emby';
+  serverType?: ServerType;
 }
 
 /**
@@ -73,6 +83,14 @@ export interface TrustScoreChangedContext {
   reason: string | null;
 }
 
+/**
+ * Context provided with scheduled usage digests
+ */
+export interface DigestContext {
+  type: 'digest';
+  digest: DigestReport;
+}
+
 /**
  * Union of all notification contexts
  */
@@ -81,7 +99,8 @@ export type NotificationContext =
   | SessionContext
   | ServerContext
   | NewDeviceContext
-  | TrustScoreChangedContext;
+  | TrustScoreChangedContext
+  | DigestContext;
 
 /**
  * Unified notification payload for all agents
@@ -107,8 +126,24 @@ export interface NotificationPayload {
 
   /** Optional image URL (e.g., poster) */
   imageUrl?: string;
+
+  /** User-defined template rendered for the receiving agent (replaces built-in formatting) */
+  template?: RenderedTemplate;
 }
 
+/**
+ * Title and body produced from a user-defined notification template
+ */
+export interface RenderedTemplate {
+  title: string;
+  body: string;
+}
+
+/**
+ * User-defined template strings (with {{variable}} placeholders) keyed by templateKey(event, agent)
+ */
+export type NotificationTemplateSet = ReadonlyMap<string, { title: string; body: string }>;
+
 /**
  * Result of a notification send attempt
  */
@@ -128,19 +163,35 @@ export interface TestResult {
 }
 
 /**
- * Settings type with agent-specific fields extracted
- * Agents can pick the fields they need
+ * Connection settings handed to agents, built from one notification destination.
+ * Fields belonging to other agent types are null, so only that destination's agent sends.
  */
-export type NotificationSettings = Pick<
-  Settings,
-  | 'discordWebhookUrl'
-  | 'customWebhookUrl'
-  | 'webhookFormat'
-  | 'ntfyTopic'
-  | 'ntfyAuthToken'
-  | 'pushoverUserKey'
-  | 'pushoverApiToken'
->;
+export interface NotificationSettings {
+  discordWebhookUrl: string | null;
+  customWebhookUrl: string | null;
+  webhookFormat: WebhookFormat | null;
+  webhookSecret: string | null;
+  ntfyTopic: string | null;
+  ntfyAuthToken: string | null;
+  pushoverUserKey: string | null;
+  pushoverApiToken: string | null;
+  smtpHost: string | null;
+  smtpPort: number | null;
+  smtpSecurity: SmtpSecurity | null;
+  smtpUsername: string | null;
+  smtpPassword: string | null;
+  smtpFrom: string | null;
+  smtpTo: string | null;
+  telegramBotToken: string | null;
+  telegramChatId: string | null;
+  matrixHomeserverUrl: string | null;
+  matrixAccessToken: string | null;
+  matrixRoomId: string | null;
+  /** Destination being sent to; JSON webhook deliveries are logged against it */
+  destinationId?: string;
+  /** User-defined templates; agents without one use their built-in formatting */
+  templates?: NotificationTemplateSet;
+}
 
 /**
  * Interface that all notification agents must implement
@@ -216,10 +267,7 @@ export const PayloadBuilders = {
     };
   },
 
-  fromServerDown(
-    serverName: string,
-    serverType?: 'plex' | 'jellyfin' | 'emby'
-  ): NotificationPayload {
+  fromServerDown(serverName: string, serverType?: ServerType): NotificationPayload {
     return {
       event: 'server_down',
       title: 'Server Offline',
@@ -230,7 +278,7 @@ export const PayloadBuilders = {
     };
   },
 
-  fromServerUp(serverName: string, serverType?: 'plex' | 'jellyfin' | 'emby'): NotificationPayload {
+  fromServerUp(serverName: string, serverType?: ServerType): NotificationPayload {
     return {
       event: 'server_up',
       title: 'Server Online',
@@ -275,4 +323,15 @@ export const PayloadBuilders = {
       context: { type: 'trust_score_changed', userName, previousScore, newScore, reason },
     };
   },
+
+  fromDigest(digest: DigestReport): NotificationPayload {
+    return {
+      event: 'digest',
+      title: formatDigestTitle(digest),
+      message: formatDigestSummary(digest),
+      severity: 'low',
+      timestamp: new Date().toISOString(),
+      context: { type: 'digest', digest },
+    };
+  },
 };
@@ -0,0 +1,245 @@
+/**
+ * JSON Webhook Delivery
+ *
+ * Signs outgoing JSON webhook requests, records every delivery in webhook_deliveries
+ * and hands failed deliveries to the notification queue for retries with backoff.
+ *
+ * When a signing secret is configured each request carries:
+ * - X-Tracearr-Timestamp: unix time (seconds) the request was signed
+ * - X-Tracearr-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * Receivers recompute the HMAC with the shared secret, compare it in constant time
+ * and reject stale timestamps to prevent replays.
+ */
+
+import { createHmac } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import type { WebhookDeliveryStatus } from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { notificationDestinations, webhookDeliveries } from '../../db/schema.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Tracearr-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Tracearr-Timestamp';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Tracearr-Delivery';
+export const WEBHOOK_EVENT_HEADER = 'X-Tracearr-Event';
+
+/** Per-attempt request timeout */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Characters of the response body kept in the delivery log */
+const RESPONSE_SNIPPET_LENGTH = 500;
+
+export type WebhookDeliveryRow = typeof webhookDeliveries.$inferSelect;
+
+/**
+ * Compute the signature header value for a request body
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Build request headers for a JSON webhook, signed when a secret is configured
+ */
+export function buildWebhookHeaders(options: {
+  body: string;
+  event: string;
+  secret: string | null;
+  deliveryId?: string;
+}): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [WEBHOOK_EVENT_HEADER]: options.event,
+  };
+
+  if (options.deliveryId) {
+    headers[WEBHOOK_DELIVERY_HEADER] = options.deliveryId;
+  }
+
+  if (options.secret) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    headers[WEBHOOK_TIMESTAMP_HEADER] = timestamp;
+    headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(options.secret, timestamp, options.body);
+  }
+
+  return headers;
+}
+
+/**
+ * Current signing secret of the destination a delivery was sent to.
+ * Deliveries whose destination was removed are sent unsigned.
+ */
+async function getDestinationSecret(destinationId: string | null): Promise<string | null> {
+  if (!destinationId) {
+    return null;
+  }
+
+  const [destination] = await db
+    .select({ config: notificationDestinations.config })
+    .from(notificationDestinations)
+    .where(eq(notificationDestinations.id, destinationId))
+    .limit(1);
+
+  return destination?.config.webhookSecret ?? null;
+}
+
+/**
+ * POST a logged delivery once and record the outcome on its row.
+ * `final` marks the last scheduled attempt, so a failure is logged as 'failed'
+ * instead of 'retrying'.
+ */
+export async function attemptWebhookDelivery(
+  delivery: WebhookDeliveryRow,
+  secret: string | null,
+  final: boolean
+): Promise<WebhookDeliveryRow> {
+  const startedAt = Date.now();
+  let statusCode: number | null = null;
+  let responseText = '';
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: buildWebhookHeaders({
+        body: delivery.payload,
+        event: delivery.event,
+        secret,
+        deliveryId: delivery.id,
+      }),
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    responseText = await response.text().catch(() => '');
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  const now = new Date();
+  const status: WebhookDeliveryStatus = error === null ? 'success' : final ? 'failed' : 'retrying';
+  const changes = {
+    status,
+    attempts: delivery.attempts + 1,
+    statusCode,
+    latencyMs: now.getTime() - startedAt,
+    responseSnippet: responseText ? responseText.slice(0, RESPONSE_SNIPPET_LENGTH) : null,
+    error,
+    lastAttemptAt: now,
+    deliveredAt: error === null ? now : null,
+  };
+
+  await db.update(webhookDeliveries).set(changes).where(eq(webhookDeliveries.id, delivery.id));
+
+  return { ...delivery, ...changes };
+}
+
+/**
+ * Log and send a JSON webhook. A failed first attempt is queued for retries;
+ * the returned row reflects the first attempt only.
+ */
+export async function deliverWebhook(options: {
+  url: string;
+  event: string;
+  body: string;
+  secret: string | null;
+  destinationId?: string | null;
+}): Promise<WebhookDeliveryRow> {
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      url: options.url,
+      event: options.event,
+      payload: options.body,
+      destinationId: options.destinationId ?? null,
+    })
+    .returning();
+
+  if (!delivery) {
+    throw new Error('Failed to record webhook delivery');
+  }
+
+  const result = await attemptWebhookDelivery(delivery, options.secret, false);
+  if (result.status === 'success') {
+    return result;
+  }
+
+  // Dynamic import avoids a cycle (the queue imports the notification agents)
+  const { enqueueWebhookRetry } = await import('../../jobs/notificationQueue.js');
+  const jobId = await enqueueWebhookRetry(delivery.id).catch((err: unknown) => {
+    console.error(`[json-webhook] Failed to schedule retry for delivery ${delivery.id}:`, err);
+    return undefined;
+  });
+
+  if (!jobId) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'failed' })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return { ...result, status: 'failed' };
+  }
+
+  return result;
+}
+
+/**
+ * Retry a logged delivery from the notification queue, signed with its
+ * destination's current secret. Deliveries that were deleted or already
+ * succeeded are skipped.
+ */
+export async function retryWebhookDelivery(
+  deliveryId: string,
+  final: boolean
+): Promise<WebhookDeliveryRow | null> {
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!delivery || delivery.status === 'success') {
+    return null;
+  }
+
+  const secret = await getDestinationSecret(delivery.destinationId);
+  return attemptWebhookDelivery(delivery, secret, final);
+}
+
+/**
+ * Send a logged delivery again as a new delivery (single attempt, no retries),
+ * signed with its destination's current secret.
+ * Returns null when the original delivery does not exist.
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDeliveryRow | null> {
+  const [original] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!original) {
+    return null;
+  }
+
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      url: original.url,
+      event: original.event,
+      payload: original.payload,
+      destinationId: original.destinationId,
+      redeliveryOf: original.id,
+    })
+    .returning();
+
+  if (!delivery) {
+    throw new Error('Failed to record webhook delivery');
+  }
+
+  const secret = await getDestinationSecret(original.destinationId);
+  return attemptWebhookDelivery(delivery, secret, true);
+}
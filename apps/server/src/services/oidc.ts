@@ -0,0 +1,376 @@
+/**
+ * OpenID Connect Service
+ *
+ * Authorization code flow with PKCE against a generic OIDC provider
+ * (Authentik, Authelia, Keycloak, ...):
+ * - Provider metadata from the discovery document
+ * - Authorization URL with state, nonce and S256 code challenge
+ * - Code exchange and ID token verification against the provider's JWKS
+ * - Mapping a claim (e.g. groups) onto Tracearr roles
+ */
+
+import { createHash, createPublicKey, randomBytes, type JsonWebKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { ROLE_PERMISSIONS, type OidcRole, type OidcRoleMapping } from '@tracearr/shared';
+import { fetchJson } from '../utils/http.js';
+
+const DISCOVERY_PATH = '/.well-known/openid-configuration';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Lengths of the users.username and users.name columns provisioned accounts are stored in
+const MAX_USERNAME_LENGTH = 100;
+const MAX_NAME_LENGTH = 255;
+
+// Only asymmetric signatures are accepted, so the client secret never verifies a token
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+];
+
+/**
+ * Error raised when the provider can't be reached or returns something unusable
+ */
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const providerMetadataSchema = z.object({
+  issuer: z.string().min(1),
+  authorization_endpoint: z.url(),
+  token_endpoint: z.url(),
+  jwks_uri: z.url(),
+  userinfo_endpoint: z.url().optional(),
+  token_endpoint_auth_methods_supported: z.array(z.string()).optional(),
+});
+
+const tokenResponseSchema = z.object({
+  id_token: z.string().min(1),
+  access_token: z.string().optional(),
+});
+
+const jwksSchema = z.object({
+  keys: z.array(z.looseObject({ kty: z.string(), kid: z.string().optional() })),
+});
+
+export type OidcProviderMetadata = z.infer<typeof providerMetadataSchema>;
+
+export type OidcClaims = Record<string, unknown>;
+
+export interface OidcClientConfig {
+  discoveryUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+/**
+ * Identity returned by the provider after a successful sign-in
+ */
+export interface OidcIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  username: string;
+  name: string | null;
+  picture: string | null;
+  claims: OidcClaims;
+}
+
+/**
+ * Accept either the issuer URL or the full discovery document URL
+ */
+export function getDiscoveryUrl(url: string): string {
+  const trimmed = url.replace(/\/+$/, '');
+  return trimmed.endsWith(DISCOVERY_PATH) ? trimmed : `${trimmed}${DISCOVERY_PATH}`;
+}
+
+/**
+ * Fetch and validate the provider's discovery document
+ */
+export async function discoverProvider(discoveryUrl: string): Promise<OidcProviderMetadata> {
+  let document: unknown;
+  try {
+    document = await fetchJson<unknown>(getDiscoveryUrl(discoveryUrl), {
+      service: 'oidc',
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  } catch (error) {
+    throw new OidcError(
+      `Failed to load OIDC discovery document: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+
+  const metadata = providerMetadataSchema.safeParse(document);
+  if (!metadata.success) {
+    throw new OidcError('OIDC discovery document is missing required endpoints');
+  }
+  return metadata.data;
+}
+
+/**
+ * Random value for state, nonce and the PKCE verifier
+ */
+export function generateOidcSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * S256 code challenge for a PKCE verifier
+ */
+export function getCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Build the URL the browser is sent to for signing in at the provider
+ */
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    scopes: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', params.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', getCodeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code for tokens.
+ * Uses client_secret_basic unless the provider only supports client_secret_post.
+ */
+export async function exchangeCode(
+  metadata: OidcProviderMetadata,
+  client: Pick<OidcClientConfig, 'clientId' | 'clientSecret'>,
+  params: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<{ idToken: string; accessToken: string | null }> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+
+  const authMethods = metadata.token_endpoint_auth_methods_supported;
+  if (authMethods && !authMethods.includes('client_secret_basic')) {
+    body.set('client_id', client.clientId);
+    body.set('client_secret', client.clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  let response: unknown;
+  try {
+    response = await fetchJson<unknown>(metadata.token_endpoint, {
+      service: 'oidc',
+      method: 'POST',
+      headers,
+      body: body.toString(),
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  } catch (error) {
+    throw new OidcError(
+      `OIDC token exchange failed: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+
+  const tokens = tokenResponseSchema.safeParse(response);
+  if (!tokens.success) {
+    throw new OidcError('OIDC token response did not include an ID token');
+  }
+  return { idToken: tokens.data.id_token, accessToken: tokens.data.access_token ?? null };
+}
+
+/**
+ * Verify the ID token signature against the provider's JWKS and check
+ * issuer, audience, expiry and nonce. Returns the token's claims.
+ */
+export async function verifyIdToken(
+  metadata: OidcProviderMetadata,
+  idToken: string,
+  params: { clientId: string; nonce: string }
+): Promise<OidcClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('OIDC ID token is malformed');
+  }
+
+  let jwks: z.infer<typeof jwksSchema>;
+  try {
+    jwks = jwksSchema.parse(
+      await fetchJson<unknown>(metadata.jwks_uri, { service: 'oidc', timeout: REQUEST_TIMEOUT_MS })
+    );
+  } catch {
+    throw new OidcError('Failed to load OIDC signing keys');
+  }
+
+  const { kid } = decoded.header;
+  const jwk = kid
+    ? jwks.keys.find((key) => key.kid === kid)
+    : jwks.keys.find((key) => key.use !== 'enc');
+  if (!jwk) {
+    throw new OidcError('No OIDC signing key matches the ID token');
+  }
+
+  try {
+    const publicKey = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+    return jwt.verify(idToken, publicKey, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: params.clientId,
+      nonce: params.nonce,
+      clockTolerance: 30,
+    }) as OidcClaims;
+  } catch (error) {
+    throw new OidcError(
+      `OIDC ID token is invalid: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+}
+
+/**
+ * Fetch claims from the userinfo endpoint (some providers only put groups there)
+ */
+export async function fetchUserInfo(
+  metadata: OidcProviderMetadata,
+  accessToken: string
+): Promise<OidcClaims> {
+  if (!metadata.userinfo_endpoint) return {};
+
+  try {
+    return await fetchJson<OidcClaims>(metadata.userinfo_endpoint, {
+      service: 'oidc',
+      headers: { Accept: 'application/json', Authorization: `Bearer ${accessToken}` },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  } catch (error) {
+    throw new OidcError(
+      `Failed to load OIDC user info: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+}
+
+function stringClaim(claims: OidcClaims, name: string): string | null {
+  const value = claims[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Complete the code flow: exchange the code, verify the ID token and merge
+ * in userinfo claims.
+ */
+export async function authenticateWithCode(
+  client: OidcClientConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OidcIdentity> {
+  const metadata = await discoverProvider(client.discoveryUrl);
+  const { idToken, accessToken } = await exchangeCode(metadata, client, params);
+  const idClaims = await verifyIdToken(metadata, idToken, {
+    clientId: client.clientId,
+    nonce: params.nonce,
+  });
+
+  const subject = stringClaim(idClaims, 'sub');
+  if (!subject) {
+    throw new OidcError('OIDC ID token has no subject');
+  }
+
+  let claims = idClaims;
+  if (accessToken) {
+    const userInfo = await fetchUserInfo(metadata, accessToken);
+    // Userinfo for a different subject must be ignored (OIDC Core 5.3.2)
+    if (userInfo.sub === subject) {
+      claims = { ...idClaims, ...userInfo };
+    }
+  }
+
+  const email = stringClaim(claims, 'email')?.toLowerCase() ?? null;
+  const name = stringClaim(claims, 'name')?.slice(0, MAX_NAME_LENGTH) ?? null;
+  const username =
+    stringClaim(claims, 'preferred_username') ?? name ?? email?.split('@')[0] ?? subject;
+
+  return {
+    subject,
+    email,
+    // Only an explicit claim counts; providers that omit it are treated as unverified
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    username: username.slice(0, MAX_USERNAME_LENGTH),
+    name,
+    picture: stringClaim(claims, 'picture'),
+    claims,
+  };
+}
+
+/**
+ * Read a claim by name, following dots into nested objects
+ * (e.g. "realm_access.roles" for Keycloak)
+ */
+function getClaimValues(claims: OidcClaims, claimName: string): string[] {
+  let value: unknown = claims[claimName];
+  if (value === undefined && claimName.includes('.')) {
+    value = claimName
+      .split('.')
+      .reduce<unknown>(
+        (current, key) =>
+          current && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        claims
+      );
+  }
+
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return [];
+}
+
+/**
+ * Map the role claim onto a Tracearr role.
+ * When several values match, the most privileged role wins; null if none match.
+ */
+export function resolveOidcRole(
+  claims: OidcClaims,
+  roleClaim: string,
+  mapping: OidcRoleMapping[]
+): OidcRole | null {
+  const values = new Set(getClaimValues(claims, roleClaim));
+
+  let resolved: OidcRole | null = null;
+  for (const entry of mapping) {
+    if (!values.has(entry.value)) continue;
+    if (!resolved || ROLE_PERMISSIONS[entry.role] > ROLE_PERMISSIONS[resolved]) {
+      resolved = entry.role;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,593 @@
+/**
+ * Jellyfin Playback Reporting Import Service
+ *
+ * Imports watch history recorded by the Jellyfin Playback Reporting plugin.
+ *
+ * Accepted files:
+ * - The plugin's own backup ("Save Backup Data"): tab-separated, no header row
+ * - A CSV/TSV export of the PlaybackActivity table with a header row
+ *   (e.g. `sqlite3 -header -csv playback_reporting.db "SELECT * FROM PlaybackActivity"`)
+ *
+ * The raw SQLite database cannot be read directly because Tracearr ships no SQLite driver.
+ *
+ * Playback Reporting stores DateCreated in the Jellyfin server's local time without
+ * an offset, so timestamps are interpreted in Tracearr's timezone (TZ).
+ */
+
+import { eq } from 'drizzle-orm';
+import type { HistoryImportProgress, HistoryImportResult } from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { servers } from '../db/schema.js';
+import type { PubSubService } from './cache.js';
+import { JellyfinClient } from './mediaServer/jellyfin/client.js';
+import { EmbyClient } from './mediaServer/emby/client.js';
+import { fetchMediaEnrichment, type MediaEnrichment } from './jellystat.js';
+import { normalizeClient } from '../utils/platformNormalizer.js';
+import { parseJellystatPlayMethod } from '../utils/transcodeNormalizer.js';
+import { parseDelimited } from '../utils/csv.js';
+import {
+  createDeduplicationContext,
+  createMediaKey,
+  createUserMapping,
+  createSkippedUserTracker,
+  createInsertBatchCollector,
+  createProgressTracker,
+  findOverlappingSession,
+  queryExistingByMediaKeys,
+  refreshAggregatesAfterImport,
+  type NewSession,
+} from './import/index.js';
+
+const CHUNK_SIZE = 2000;
+const INSERT_CHUNK_SIZE = 500;
+const ENRICHMENT_BATCH_SIZE = 200;
+const PROGRESS_THROTTLE_MS = 2000;
+const PROGRESS_RECORD_INTERVAL = 500;
+// Live sessions and plugin rows are recorded at slightly different moments
+const OVERLAP_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Column order of the plugin's backup file (also the PlaybackActivity table order)
+ */
+const BACKUP_COLUMNS = [
+  'datecreated',
+  'userid',
+  'itemid',
+  'itemtype',
+  'itemname',
+  'playbackmethod',
+  'clientname',
+  'devicename',
+  'playduration',
+] as const;
+
+type PlaybackReportingColumn = (typeof BACKUP_COLUMNS)[number];
+
+/**
+ * A single PlaybackActivity row
+ */
+export interface PlaybackReportingRow {
+  dateCreated: Date;
+  userId: string;
+  itemId: string;
+  itemType: string;
+  itemName: string;
+  playbackMethod: string | null;
+  clientName: string | null;
+  deviceName: string | null;
+  /** Seconds actually played */
+  playDuration: number;
+}
+
+/**
+ * Normalize a Jellyfin GUID to the dashless lowercase form used by the API
+ */
+export function normalizeJellyfinId(id: string): string {
+  return id.trim().replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * Parse a DateCreated value
+ *
+ * The plugin writes `yyyy-MM-dd HH:mm:ss.fffffff` in server-local time. Values
+ * with an explicit offset or `Z` are honoured as-is.
+ */
+export function parsePlaybackReportingDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?$/.exec(trimmed);
+
+  if (match) {
+    const [, year, month, day, hour, minute, second, fraction] = match;
+    const ms = fraction ? Number(fraction.slice(0, 3).padEnd(3, '0')) : 0;
+    const date = new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+      ms
+    );
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Playback Reporting backup or PlaybackActivity export
+ *
+ * @returns Valid rows plus the number of rows that could not be parsed
+ */
+export function parsePlaybackReportingFile(text: string): {
+  rows: PlaybackReportingRow[];
+  errors: number;
+} {
+  const records = parseDelimited(text);
+  if (records.length === 0) return { rows: [], errors: 0 };
+
+  // Header rows name the columns; the plugin backup has none and uses table order
+  const first = records[0]!.map((cell) => cell.trim().toLowerCase());
+  let columnIndex: Record<PlaybackReportingColumn, number>;
+  let dataRows = records;
+
+  if (first.includes('datecreated')) {
+    const missing = BACKUP_COLUMNS.filter((c) => !first.includes(c));
+    if (missing.length > 0) {
+      throw new Error(`Missing PlaybackActivity columns: ${missing.join(', ')}`);
+    }
+    columnIndex = Object.fromEntries(BACKUP_COLUMNS.map((c) => [c, first.indexOf(c)])) as Record<
+      PlaybackReportingColumn,
+      number
+    >;
+    dataRows = records.slice(1);
+  } else {
+    columnIndex = Object.fromEntries(BACKUP_COLUMNS.map((c, i) => [c, i])) as Record<
+      PlaybackReportingColumn,
+      number
+    >;
+  }
+
+  const rows: PlaybackReportingRow[] = [];
+  let errors = 0;
+
+  for (const record of dataRows) {
+    const get = (column: PlaybackReportingColumn) => record[columnIndex[column]]?.trim() ?? '';
+    const optional = (column: PlaybackReportingColumn) => get(column) || null;
+
+    const dateCreated = parsePlaybackReportingDate(get('datecreated'));
+    const userId = get('userid');
+    const itemId = get('itemid');
+    const playDuration = Number(get('playduration'));
+
+    if (!dateCreated || !userId || !itemId || !Number.isFinite(playDuration)) {
+      errors++;
+      continue;
+    }
+
+    rows.push({
+      dateCreated,
+      userId: normalizeJellyfinId(userId),
+      itemId: normalizeJellyfinId(itemId),
+      itemType: get('itemtype'),
+      itemName: get('itemname'),
+      playbackMethod: optional('playbackmethod'),
+      clientName: optional('clientname'),
+      deviceName: optional('devicename'),
+      playDuration: Math.max(0, Math.round(playDuration)),
+    });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Map a Playback Reporting ItemType to a session media type
+ *
+ * @returns null for item types Tracearr does not track (audiobooks, photos, ...)
+ */
+export function mapPlaybackReportingItemType(itemType: string): NewSession['mediaType'] | null {
+  switch (itemType.toLowerCase()) {
+    case 'movie':
+    case 'video':
+    case 'musicvideo':
+      return 'movie';
+    case 'episode':
+      return 'episode';
+    case 'audio':
+      return 'track';
+    case 'tvchannel':
+      return 'live';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split the plugin's composite ItemName into title fields
+ *
+ * Episodes are stored as "Series - s01e02 - Title" and tracks as
+ * "Artist - Album - Title"; anything else is the plain item name.
+ */
+export function parsePlaybackReportingItemName(
+  mediaType: NewSession['mediaType'],
+  itemName: string
+): {
+  mediaTitle: string;
+  grandparentTitle: string | null;
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+  artistName: string | null;
+  albumName: string | null;
+} {
+  const result = {
+    mediaTitle: itemName,
+    grandparentTitle: null as string | null,
+    seasonNumber: null as number | null,
+    episodeNumber: null as number | null,
+    artistName: null as string | null,
+    albumName: null as string | null,
+  };
+
+  if (mediaType === 'episode') {
+    const match = /^(.*) - s(\d+)e(\d+) - (.*)$/i.exec(itemName);
+    if (match) {
+      result.grandparentTitle = match[1]!;
+      result.seasonNumber = Number(match[2]);
+      result.episodeNumber = Number(match[3]);
+      result.mediaTitle = match[4]!;
+    }
+  } else if (mediaType === 'track') {
+    const parts = itemName.split(' - ');
+    if (parts.length >= 3) {
+      result.artistName = parts[0]!.substring(0, 255);
+      result.albumName = parts[1]!.substring(0, 255);
+      result.mediaTitle = parts.slice(2).join(' - ');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the external ID used to deduplicate Playback Reporting rows across imports
+ */
+export function playbackReportingExternalId(row: PlaybackReportingRow): string {
+  return `pbr-${row.userId}-${row.itemId}-${row.dateCreated.getTime()}`;
+}
+
+/**
+ * Transform a Playback Reporting row into session insert data
+ */
+export function transformPlaybackReportingRow(
+  row: PlaybackReportingRow,
+  mediaType: NewSession['mediaType'],
+  serverId: string,
+  serverUserId: string,
+  enrichment?: MediaEnrichment
+): NewSession {
+  const durationMs = row.playDuration * 1000;
+  const startedAt = row.dateCreated;
+  const stoppedAt = new Date(startedAt.getTime() + durationMs);
+  const names = parsePlaybackReportingItemName(mediaType, row.itemName);
+  const isTrack = mediaType === 'track';
+  const externalId = playbackReportingExternalId(row);
+
+  const { videoDecision, audioDecision, isTranscode } = parseJellystatPlayMethod(
+    row.playbackMethod
+  );
+
+  const clientName = row.clientName ?? '';
+  const deviceName = row.deviceName ?? '';
+  const normalized = normalizeClient(clientName, deviceName, 'jellyfin');
+
+  return {
+    serverId,
+    serverUserId,
+    sessionKey: externalId,
+    plexSessionId: null,
+    ratingKey: row.itemId,
+    externalSessionId: externalId,
+    referenceId: null,
+    state: 'stopped',
+    mediaType,
+    mediaTitle: names.mediaTitle,
+    grandparentTitle: names.grandparentTitle,
+    seasonNumber: enrichment?.seasonNumber ?? names.seasonNumber,
+    episodeNumber: enrichment?.episodeNumber ?? names.episodeNumber,
+    year: enrichment?.year ?? null,
+    thumbPath: enrichment?.thumbPath ?? null,
+    artistName: isTrack ? (enrichment?.artistName ?? names.artistName) : null,
+    albumName: isTrack ? (enrichment?.albumName ?? names.albumName) : null,
+    trackNumber: isTrack ? (enrichment?.trackNumber ?? null) : null,
+    discNumber: isTrack ? (enrichment?.discNumber ?? null) : null,
+    startedAt,
+    lastSeenAt: stoppedAt,
+    lastPausedAt: null,
+    stoppedAt,
+    durationMs,
+    // The plugin does not record runtime or completion
+    totalDurationMs: null,
+    progressMs: null,
+    pausedDurationMs: 0,
+    watched: false,
+    forceStopped: false,
+    shortSession: durationMs < 120000,
+    // The plugin does not record client addresses
+    ipAddress: '0.0.0.0',
+    playerName: (deviceName || clientName || 'Unknown').substring(0, 255),
+    device: normalized.device.substring(0, 255),
+    deviceId: null,
+    product: clientName.substring(0, 255) || null,
+    platform: normalized.platform.substring(0, 100),
+    quality: null,
+    isTranscode,
+    videoDecision,
+    audioDecision,
+    bitrate: null,
+  };
+}
+
+/**
+ * Import a Playback Reporting backup into Tracearr
+ *
+ * @param serverId - Target Tracearr Jellyfin/Emby server ID
+ * @param fileContents - Raw backup or PlaybackActivity export
+ * @param pubSubService - Optional pub/sub service for progress updates
+ * @param onProgress - Optional callback for each published update (job progress, lock extension)
+ */
+export async function importPlaybackReporting(
+  serverId: string,
+  fileContents: string,
+  pubSubService?: PubSubService,
+  onProgress?: (progress: HistoryImportProgress) => Promise<void>
+): Promise<HistoryImportResult> {
+  const progress: HistoryImportProgress = {
+    status: 'idle',
+    totalRecords: 0,
+    processedRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message: 'Starting import...',
+  };
+
+  const tracker = createProgressTracker<HistoryImportProgress>({
+    pubSubService,
+    channel: 'import:playback-reporting:progress',
+    throttleMs: PROGRESS_THROTTLE_MS,
+    throttleRecords: PROGRESS_RECORD_INTERVAL,
+    onProgress: onProgress ? () => onProgress(progress) : undefined,
+  });
+
+  tracker.forcePublish(progress);
+
+  try {
+    progress.status = 'parsing';
+    progress.message = 'Parsing Playback Reporting data...';
+    tracker.forcePublish(progress);
+
+    const { rows, errors: parseErrors } = parsePlaybackReportingFile(fileContents);
+    progress.totalRecords = rows.length + parseErrors;
+    progress.processedRecords = parseErrors;
+    progress.errorRecords = parseErrors;
+
+    if (parseErrors > 0) {
+      console.warn(`[PlaybackReporting] Skipped ${parseErrors} malformed rows during parsing`);
+    }
+
+    if (rows.length === 0) {
+      const message =
+        parseErrors > 0
+          ? `No valid playback rows found (${parseErrors} malformed)`
+          : 'No playback rows found in file';
+      progress.status = 'complete';
+      progress.message = message;
+      tracker.forcePublish(progress);
+      return { success: true, imported: 0, skipped: 0, errors: parseErrors, message };
+    }
+
+    const [server] = await db.select().from(servers).where(eq(servers.id, serverId)).limit(1);
+
+    if (!server) {
+      throw new Error(`Server not found: ${serverId}`);
+    }
+
+    if (server.type !== 'jellyfin' && server.type !== 'emby') {
+      throw new Error(
+        `Playback Reporting import only supports Jellyfin/Emby servers, got: ${server.type}`
+      );
+    }
+
+    // Index users by dashless ID to match the plugin's GUID format
+    const userMap = new Map<string, string>();
+    for (const [externalId, serverUserId] of await createUserMapping(serverId)) {
+      userMap.set(normalizeJellyfinId(externalId), serverUserId);
+    }
+    const skippedUserTracker = createSkippedUserTracker();
+
+    const clientConfig = {
+      url: server.url,
+      token: server.token,
+      id: server.id,
+      name: server.name,
+    };
+    const client =
+      server.type === 'emby' ? new EmbyClient(clientConfig) : new JellyfinClient(clientConfig);
+
+    const dedup = createDeduplicationContext<NewSession, string>(serverId, {
+      getExternalId: (s) => s.externalSessionId ?? null,
+      getTimeKey: (s) =>
+        s.ratingKey && s.startedAt
+          ? { serverUserId: s.serverUserId, ratingKey: s.ratingKey, startedAt: s.startedAt }
+          : null,
+    });
+    const insertBatch = createInsertBatchCollector({ chunkSize: INSERT_CHUNK_SIZE });
+
+    progress.status = 'processing';
+    progress.message = 'Processing records...';
+    tracker.forcePublish(progress);
+
+    let minImportDate: Date | null = null;
+    let maxImportDate: Date | null = null;
+    let skipped = 0;
+    let errors = parseErrors;
+
+    for (let chunkStart = 0; chunkStart < rows.length; chunkStart += CHUNK_SIZE) {
+      const chunk = rows.slice(chunkStart, chunkStart + CHUNK_SIZE);
+      const pending: Array<{
+        row: PlaybackReportingRow;
+        mediaType: NewSession['mediaType'];
+        serverUserId: string;
+      }> = [];
+
+      for (const row of chunk) {
+        progress.processedRecords++;
+
+        const mediaType = mapPlaybackReportingItemType(row.itemType);
+        if (!mediaType) {
+          skipped++;
+          progress.skippedRecords++;
+          continue;
+        }
+
+        const serverUserId = userMap.get(row.userId);
+        if (!serverUserId) {
+          skippedUserTracker.track(row.userId, null);
+          skipped++;
+          progress.skippedRecords++;
+          continue;
+        }
+
+        pending.push({ row, mediaType, serverUserId });
+      }
+
+      // Fill in artwork, year and episode numbers for items still on the server
+      const enrichmentMap = new Map<string, MediaEnrichment>();
+      const itemIds = [...new Set(pending.map((p) => p.row.itemId))];
+      for (let i = 0; i < itemIds.length; i += ENRICHMENT_BATCH_SIZE) {
+        const batch = await fetchMediaEnrichment(
+          client,
+          itemIds.slice(i, i + ENRICHMENT_BATCH_SIZE)
+        );
+        for (const [id, data] of batch) {
+          enrichmentMap.set(normalizeJellyfinId(id), data);
+        }
+      }
+
+      const candidates: NewSession[] = [];
+      for (const { row, mediaType, serverUserId } of pending) {
+        try {
+          candidates.push(
+            transformPlaybackReportingRow(
+              row,
+              mediaType,
+              serverId,
+              serverUserId,
+              enrichmentMap.get(row.itemId)
+            )
+          );
+        } catch (error) {
+          console.error('[PlaybackReporting] Error processing row:', row.itemId, error);
+          errors++;
+          progress.errorRecords++;
+        }
+      }
+
+      const { toInsert, skipped: duplicateCount } = await dedup.deduplicate(candidates);
+      skipped += duplicateCount;
+      progress.skippedRecords += duplicateCount;
+
+      // Skip plays Tracearr already tracked live or imported from Jellystat
+      if (toInsert.length > 0) {
+        const starts = toInsert.map((s) => s.startedAt!.getTime());
+        const stops = toInsert.map((s) => s.stoppedAt!.getTime());
+        const existing = await queryExistingByMediaKeys(
+          serverId,
+          toInsert.map((s) => ({ serverUserId: s.serverUserId, ratingKey: s.ratingKey! })),
+          { minTime: new Date(Math.min(...starts)), maxTime: new Date(Math.max(...stops)) }
+        );
+
+        for (const session of toInsert) {
+          const overlapping = findOverlappingSession(
+            existing.get(createMediaKey(session.serverUserId, session.ratingKey!)),
+            session.startedAt!,
+            session.stoppedAt!,
+            OVERLAP_TOLERANCE_MS
+          );
+          if (overlapping) {
+            skipped++;
+            progress.skippedRecords++;
+            continue;
+          }
+
+          insertBatch.add(session);
+          progress.importedRecords++;
+          const startedAt = session.startedAt!;
+          if (!minImportDate || startedAt < minImportDate) minImportDate = startedAt;
+          if (!maxImportDate || startedAt > maxImportDate) maxImportDate = startedAt;
+        }
+      }
+
+      if (insertBatch.shouldFlush()) {
+        await insertBatch.flush();
+      }
+
+      progress.message = `Processing: ${progress.processedRecords}/${progress.totalRecords}`;
+      tracker.publish(progress, progress.processedRecords);
+    }
+
+    await insertBatch.flush();
+    const imported = insertBatch.totalInserted;
+
+    progress.message = 'Refreshing aggregates...';
+    tracker.forcePublish(progress);
+    await refreshAggregatesAfterImport('[PlaybackReporting]', minImportDate, maxImportDate);
+
+    let message = `Import complete: ${imported} imported, ${skipped} skipped, ${errors} errors`;
+    const skippedUsersWarning = skippedUserTracker.formatWarning();
+    if (skippedUsersWarning) {
+      message += `. Warning: ${skippedUsersWarning}`;
+    }
+
+    progress.status = 'complete';
+    progress.message = message;
+    tracker.forcePublish(progress);
+
+    return {
+      success: true,
+      imported,
+      skipped,
+      errors,
+      message,
+      skippedUsers:
+        skippedUserTracker.size > 0
+          ? skippedUserTracker.getAll().map((u) => ({
+              externalUserId: u.externalId,
+              username: u.username,
+              recordCount: u.count,
+            }))
+          : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[PlaybackReporting] Import failed:', error);
+
+    progress.status = 'error';
+    progress.message = `Import failed: ${errorMessage}`;
+    tracker.forcePublish(progress);
+
+    return {
+      success: false,
+      imported: progress.importedRecords,
+      skipped: progress.skippedRecords,
+      errors: progress.errorRecords,
+      message: `Import failed: ${errorMessage}`,
+    };
+  }
+}
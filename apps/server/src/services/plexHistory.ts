@@ -0,0 +1,358 @@
+/**
+ * Plex Watch History Import Service
+ *
+ * Imports Plex Media Server's own play history (/status/sessions/history/all)
+ * for servers that were never tracked by Tautulli.
+ *
+ * Plex only records when an item was marked watched, so each entry becomes a
+ * completed session that ends at viewedAt and starts one runtime earlier.
+ * Entries overlapping a session Tracearr already has for the same user and
+ * item (live tracking, Tautulli import) are skipped.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { HistoryImportProgress, HistoryImportResult } from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { servers } from '../db/schema.js';
+import type { PubSubService } from './cache.js';
+import { PlexClient } from './mediaServer/plex/client.js';
+import type { PlexDevice, PlexHistoryEntry, PlexItemInfo } from './mediaServer/plex/parser.js';
+import { normalizeClient } from '../utils/platformNormalizer.js';
+import {
+  createDeduplicationContext,
+  createMediaKey,
+  createUserMapping,
+  createSkippedUserTracker,
+  createInsertBatchCollector,
+  createProgressTracker,
+  findOverlappingSession,
+  lookupUser,
+  queryExistingByMediaKeys,
+  refreshAggregatesAfterImport,
+  type NewSession,
+} from './import/index.js';
+
+const PAGE_SIZE = 500;
+const METADATA_BATCH_SIZE = 50;
+const INSERT_CHUNK_SIZE = 500;
+const PROGRESS_THROTTLE_MS = 2000;
+const PROGRESS_RECORD_INTERVAL = 500;
+// Live sessions usually run past the point Plex marks an item watched
+const OVERLAP_TOLERANCE_MS = 60 * 60 * 1000;
+
+const IMPORTABLE_TYPES = new Set<PlexHistoryEntry['type']>(['movie', 'episode', 'track']);
+
+/**
+ * Build the external ID used to deduplicate Plex history entries across imports
+ */
+export function plexHistoryExternalId(entry: PlexHistoryEntry): string {
+  return `plexhist-${entry.historyId}`;
+}
+
+/**
+ * Transform a Plex history entry into session insert data
+ *
+ * @param itemInfo - Runtime info for the item (missing when the item was deleted)
+ * @param device - Device that played the item (missing when Plex no longer knows it)
+ */
+export function transformPlexHistoryEntry(
+  entry: PlexHistoryEntry,
+  serverId: string,
+  serverUserId: string,
+  itemInfo?: PlexItemInfo,
+  device?: PlexDevice
+): NewSession {
+  const stoppedAt = new Date(entry.viewedAt * 1000);
+  const durationMs = itemInfo?.durationMs ?? null;
+  const startedAt = durationMs ? new Date(stoppedAt.getTime() - durationMs) : stoppedAt;
+  const mediaType = entry.type as 'movie' | 'episode' | 'track';
+  const isTrack = mediaType === 'track';
+  const externalId = plexHistoryExternalId(entry);
+
+  const deviceName = device?.name ?? '';
+  const normalized = normalizeClient(device?.platform ?? '', deviceName, 'plex');
+
+  return {
+    serverId,
+    serverUserId,
+    sessionKey: externalId,
+    plexSessionId: null,
+    ratingKey: entry.ratingKey,
+    externalSessionId: externalId,
+    referenceId: null,
+    state: 'stopped',
+    mediaType,
+    mediaTitle: entry.title,
+    grandparentTitle: mediaType === 'episode' ? (entry.grandparentTitle ?? null) : null,
+    seasonNumber: mediaType === 'episode' ? (entry.parentIndex ?? null) : null,
+    episodeNumber: mediaType === 'episode' ? (entry.index ?? null) : null,
+    year: itemInfo?.year ?? null,
+    thumbPath: entry.thumbPath?.substring(0, 500) ?? null,
+    artistName: isTrack ? (entry.grandparentTitle?.substring(0, 255) ?? null) : null,
+    albumName: isTrack ? (entry.parentTitle?.substring(0, 255) ?? null) : null,
+    trackNumber: isTrack ? (entry.index ?? null) : null,
+    discNumber: isTrack ? (entry.parentIndex ?? null) : null,
+    startedAt,
+    lastSeenAt: stoppedAt,
+    lastPausedAt: null,
+    stoppedAt,
+    durationMs,
+    totalDurationMs: durationMs,
+    progressMs: durationMs,
+    pausedDurationMs: 0,
+    // Plex only writes history when an item is marked watched
+    watched: true,
+    forceStopped: false,
+    shortSession: durationMs !== null && durationMs < 120000,
+    // History has no network information
+    ipAddress: '0.0.0.0',
+    playerName: (deviceName || 'Unknown').substring(0, 255),
+    device: normalized.device.substring(0, 255),
+    deviceId: device?.clientIdentifier?.substring(0, 255) ?? null,
+    product: null,
+    platform: normalized.platform.substring(0, 100),
+    quality: null,
+    isTranscode: false,
+    videoDecision: null,
+    audioDecision: null,
+    bitrate: null,
+  };
+}
+
+/**
+ * Import Plex's own watch history into Tracearr
+ *
+ * @param serverId - Target Tracearr Plex server ID
+ * @param pubSubService - Optional pub/sub service for progress updates
+ * @param onProgress - Optional callback for each published update (job progress, lock extension)
+ */
+export async function importPlexHistory(
+  serverId: string,
+  pubSubService?: PubSubService,
+  onProgress?: (progress: HistoryImportProgress) => Promise<void>
+): Promise<HistoryImportResult> {
+  const progress: HistoryImportProgress = {
+    status: 'idle',
+    totalRecords: 0,
+    processedRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message: 'Starting import...',
+  };
+
+  const tracker = createProgressTracker<HistoryImportProgress>({
+    pubSubService,
+    channel: 'import:plex-history:progress',
+    throttleMs: PROGRESS_THROTTLE_MS,
+    throttleRecords: PROGRESS_RECORD_INTERVAL,
+    onProgress: onProgress ? () => onProgress(progress) : undefined,
+  });
+
+  tracker.forcePublish(progress);
+
+  try {
+    const [server] = await db.select().from(servers).where(eq(servers.id, serverId)).limit(1);
+
+    if (!server) {
+      throw new Error(`Server not found: ${serverId}`);
+    }
+
+    if (server.type !== 'plex') {
+      throw new Error(`Plex history import only supports Plex servers, got: ${server.type}`);
+    }
+
+    const client = new PlexClient({
+      url: server.url,
+      token: server.token,
+      id: server.id,
+      name: server.name,
+    });
+
+    progress.status = 'fetching';
+    progress.message = 'Fetching watch history from Plex...';
+    tracker.forcePublish(progress);
+
+    const userMap = await createUserMapping(serverId);
+    const skippedUserTracker = createSkippedUserTracker();
+
+    // Device names are cosmetic - continue without them if Plex refuses
+    const devices = new Map<string, PlexDevice>();
+    try {
+      for (const device of await client.getDevices()) {
+        devices.set(device.id, device);
+      }
+    } catch (error) {
+      console.warn('[PlexHistory] Could not fetch devices, continuing without names:', error);
+    }
+
+    const itemInfoCache = new Map<string, PlexItemInfo | null>();
+    const dedup = createDeduplicationContext<NewSession, string>(serverId, {
+      getExternalId: (s) => s.externalSessionId ?? null,
+      getTimeKey: (s) =>
+        s.ratingKey && s.startedAt
+          ? { serverUserId: s.serverUserId, ratingKey: s.ratingKey, startedAt: s.startedAt }
+          : null,
+    });
+    const insertBatch = createInsertBatchCollector({ chunkSize: INSERT_CHUNK_SIZE });
+
+    let minImportDate: Date | null = null;
+    let maxImportDate: Date | null = null;
+    let skipped = 0;
+    let errors = 0;
+    let offset = 0;
+
+    for (;;) {
+      const page = await client.getHistoryPage({ offset, limit: PAGE_SIZE });
+      progress.totalRecords = page.totalCount;
+      offset += PAGE_SIZE;
+
+      // Look up runtimes for items we haven't seen yet
+      const missingKeys = [
+        ...new Set(page.entries.map((e) => e.ratingKey).filter((k) => !itemInfoCache.has(k))),
+      ];
+      for (let i = 0; i < missingKeys.length; i += METADATA_BATCH_SIZE) {
+        const batch = missingKeys.slice(i, i + METADATA_BATCH_SIZE);
+        try {
+          for (const info of await client.getItemsInfo(batch)) {
+            itemInfoCache.set(info.ratingKey, info);
+          }
+        } catch (error) {
+          console.warn('[PlexHistory] Metadata batch failed:', error);
+        }
+        // Deleted items stay unknown - the session is imported without a duration
+        for (const key of batch) {
+          if (!itemInfoCache.has(key)) itemInfoCache.set(key, null);
+        }
+      }
+
+      const candidates: NewSession[] = [];
+      for (const entry of page.entries) {
+        progress.processedRecords++;
+
+        if (!IMPORTABLE_TYPES.has(entry.type) || entry.viewedAt <= 0) {
+          skipped++;
+          progress.skippedRecords++;
+          continue;
+        }
+
+        const serverUserId = entry.accountId ? lookupUser(userMap, entry.accountId) : null;
+        if (!serverUserId) {
+          skippedUserTracker.track(entry.accountId ?? 'unknown', null);
+          skipped++;
+          progress.skippedRecords++;
+          continue;
+        }
+
+        try {
+          candidates.push(
+            transformPlexHistoryEntry(
+              entry,
+              serverId,
+              serverUserId,
+              itemInfoCache.get(entry.ratingKey) ?? undefined,
+              entry.deviceId ? devices.get(entry.deviceId) : undefined
+            )
+          );
+        } catch (error) {
+          console.error('[PlexHistory] Error processing entry:', entry.historyId, error);
+          errors++;
+          progress.errorRecords++;
+        }
+      }
+
+      const { toInsert, skipped: duplicateCount } = await dedup.deduplicate(candidates);
+      skipped += duplicateCount;
+      progress.skippedRecords += duplicateCount;
+
+      // Skip plays Tracearr already tracked live or imported from Tautulli
+      if (toInsert.length > 0) {
+        const starts = toInsert.map((s) => s.startedAt!.getTime());
+        const stops = toInsert.map((s) => s.stoppedAt!.getTime());
+        const existing = await queryExistingByMediaKeys(
+          serverId,
+          toInsert.map((s) => ({ serverUserId: s.serverUserId, ratingKey: s.ratingKey! })),
+          { minTime: new Date(Math.min(...starts)), maxTime: new Date(Math.max(...stops)) }
+        );
+
+        for (const session of toInsert) {
+          const overlapping = findOverlappingSession(
+            existing.get(createMediaKey(session.serverUserId, session.ratingKey!)),
+            session.startedAt!,
+            session.stoppedAt!,
+            OVERLAP_TOLERANCE_MS
+          );
+          if (overlapping) {
+            skipped++;
+            progress.skippedRecords++;
+            continue;
+          }
+
+          insertBatch.add(session);
+          progress.importedRecords++;
+          const startedAt = session.startedAt!;
+          if (!minImportDate || startedAt < minImportDate) minImportDate = startedAt;
+          if (!maxImportDate || startedAt > maxImportDate) maxImportDate = startedAt;
+        }
+      }
+
+      if (insertBatch.shouldFlush()) {
+        await insertBatch.flush();
+      }
+
+      progress.status = 'processing';
+      progress.message = `Processing: ${progress.processedRecords}/${progress.totalRecords}`;
+      tracker.publish(progress, progress.processedRecords);
+
+      if (offset >= page.totalCount) break;
+    }
+
+    await insertBatch.flush();
+    const imported = insertBatch.totalInserted;
+
+    progress.message = 'Refreshing aggregates...';
+    tracker.forcePublish(progress);
+    await refreshAggregatesAfterImport('[PlexHistory]', minImportDate, maxImportDate);
+
+    let message = `Import complete: ${imported} imported, ${skipped} skipped, ${errors} errors`;
+    const skippedUsersWarning = skippedUserTracker.formatWarning();
+    if (skippedUsersWarning) {
+      message += `. Warning: ${skippedUsersWarning}`;
+    }
+
+    progress.status = 'complete';
+    progress.message = message;
+    tracker.forcePublish(progress);
+
+    return {
+      success: true,
+      imported,
+      skipped,
+      errors,
+      message,
+      skippedUsers:
+        skippedUserTracker.size > 0
+          ? skippedUserTracker.getAll().map((u) => ({
+              externalUserId: u.externalId,
+              username: u.username,
+              recordCount: u.count,
+            }))
+          : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[PlexHistory] Import failed:', error);
+
+    progress.status = 'error';
+    progress.message = `Import failed: ${errorMessage}`;
+    tracker.forcePublish(progress);
+
+    return {
+      success: false,
+      imported: progress.importedRecords,
+      skipped: progress.skippedRecords,
+      errors: progress.errorRecords,
+      message: `Import failed: ${errorMessage}`,
+    };
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Rule backtest tests
+ *
+ * Tests replaying stored sessions through a draft rule:
+ * - Active/recent session context rebuilt at each session's start
+ * - Time conditions and schedules evaluated at the session start time
+ * - Simulated cooldowns and confirmation skips
+ * - Per-user and per-action counts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Server, Session, ServerUser, RuleV2 } from '@tracearr/shared';
+import { createMockServerUser, createMockSession } from '../../../test/fixtures.js';
+
+vi.mock('../../../db/client.js', () => ({
+  db: {},
+}));
+
+import { replayRule, toDraftRule, type BacktestData } from '../backtest.js';
+
+const SERVER: Server = {
+  id: 'server-1',
+  name: 'Plex',
+  type: 'plex',
+  url: '',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function at(time: string): Date {
+  return new Date(`2024-03-01T${time}:00Z`);
+}
+
+function createSession(
+  serverUser: ServerUser,
+  startedAt: Date,
+  overrides: Partial<Session> = {}
+): Session {
+  return createMockSession({
+    serverId: SERVER.id,
+    serverUserId: serverUser.id,
+    startedAt,
+    stoppedAt: new Date(startedAt.getTime() + 60 * 60 * 1000),
+    ...overrides,
+  });
+}
+
+function createData(sessions: Session[], serverUsers: ServerUser[]): BacktestData {
+  const historyByUser = new Map<string, Session[]>();
+  for (const session of sessions) {
+    historyByUser.set(session.serverUserId, [
+      ...(historyByUser.get(session.serverUserId) ?? []),
+      session,
+    ]);
+  }
+
+  return {
+    sessions,
+    historyByUser,
+    serverUsers: new Map(serverUsers.map((u) => [u.id, u])),
+    servers: new Map([[SERVER.id, SERVER]]),
+  };
+}
+
+function createRule(overrides: Partial<RuleV2> = {}): RuleV2 {
+  return toDraftRule({
+    name: 'Draft',
+    isActive: false,
+    severity: 'warning',
+    conditions: {
+      groups: [
+        {
+          conditions: [
+            {
+              field: 'concurrent_streams',
+              operator: 'gte',
+              value: 2,
+              params: { exclude_same_device: false },
+            },
+          ],
+        },
+      ],
+    },
+    actions: { actions: [{ type: 'log_only' }] },
+    ...overrides,
+  });
+}
+
+describe('toDraftRule', () => {
+  it('evaluates drafts even when saved inactive', () => {
+    const rule = createRule();
+
+    expect(rule.isActive).toBe(true);
+    expect(rule.id).toBe('draft');
+    expect(rule.description).toBeNull();
+  });
+});
+
+describe('replayRule', () => {
+  it('rebuilds active sessions at each session start', async () => {
+    const alice = createMockServerUser({ serverId: SERVER.id, username: 'alice' });
+    const first = createSession(alice, at('10:00'));
+    // Overlaps the first session
+    const second = createSession(alice, at('10:30'));
+    // Starts after both stopped
+    const third = createSession(alice, at('12:00'));
+
+    const result = await replayRule(createRule(), createData([first, second, third], [alice]));
+
+    expect(result.sessionsEvaluated).toBe(3);
+    expect(result.matchCount).toBe(1);
+    expect(result.matches[0]?.sessionId).toBe(second.id);
+    expect(result.matches[0]?.evidence[0]?.conditions[0]).toMatchObject({
+      actual: 2,
+      relatedSessionIds: [first.id],
+    });
+  });
+
+  it('evaluates time conditions at the session start', async () => {
+    const alice = createMockServerUser({ serverId: SERVER.id });
+    const late = createSession(alice, at('23:00'));
+    const early = createSession(alice, at('09:00'));
+    const rule = createRule({
+      conditions: {
+        groups: [{ conditions: [{ field: 'local_hour', operator: 'gte', value: 22 }] }],
+      },
+    });
+
+    const result = await replayRule(rule, createData([early, late], [alice]));
+
+    expect(result.matches.map((m) => m.sessionId)).toEqual([late.id]);
+  });
+
+  it('only replays sessions inside the rule schedule', async () => {
+    const alice = createMockServerUser({ serverId: SERVER.id });
+    const late = createSession(alice, at('23:00'));
+    const early = createSession(alice, at('09:00'));
+    const rule = createRule({
+      conditions: {
+        groups: [{ conditions: [{ field: 'media_type', operator: 'eq', value: 'movie' }] }],
+      },
+      schedule: {
+        timezone: 'UTC',
+        windows: [{ days: ['fri'], startTime: '22:00', endTime: '06:00' }],
+      },
+    });
+
+    const result = await replayRule(rule, createData([early, late], [alice]));
+
+    expect(result.sessionsEvaluated).toBe(1);
+    expect(result.matches.map((m) => m.sessionId)).toEqual([late.id]);
+  });
+
+  it('skips sessions on other servers for server-scoped rules', async () => {
+    const alice = createMockServerUser({ serverId: SERVER.id });
+    const other = createSession(alice, at('10:00'), { serverId: 'server-2' });
+
+    const result = await replayRule(
+      createRule({ serverId: SERVER.id }),
+      createData([other], [alice])
+    );
+
+    expect(result.sessionsEvaluated).toBe(0);
+  });
+
+  it('simulates cooldowns and confirmation', async () => {
+    const alice = createMockServerUser({ serverId: SERVER.id });
+    const sessions = [
+      createSession(alice, at('10:00')),
+      createSession(alice, at('10:10')),
+      createSession(alice, at('10:20')),
+      createSession(alice, at('10:50')),
+    ];
+    const rule = createRule({
+      conditions: {
+        groups: [{ conditions: [{ field: 'media_type', operator: 'eq', value: 'movie' }] }],
+      },
+      actions: {
+        actions: [
+          { type: 'notify', channels: ['discord'], cooldown_minutes: 30 },
+          { type: 'kill_stream', require_confirmation: true },
+        ],
+      },
+    });
+
+    const result = await replayRule(rule, createData(sessions, [alice]));
+
+    // Most recent first
+    expect(result.matches.map((m) => m.actions[0])).toEqual([
+      { actionType: 'notify', fired: true },
+      { actionType: 'notify', fired: false, skipReason: 'cooldown' },
+      { actionType: 'notify', fired: false, skipReason: 'cooldown' },
+      { actionType: 'notify', fired: true },
+    ]);
+    expect(result.matches[0]?.actions[1]).toEqual({
+      actionType: 'kill_stream',
+      fired: false,
+      skipReason: 'confirmation',
+    });
+    expect(result.actionCounts).toEqual({ notify: 2 });
+  });
+
+  it('counts matches per user', async () => {
+    const alice = createMockServerUser({ serverId: SERVER.id, username: 'alice' });
+    const bob = createMockServerUser({ serverId: SERVER.id, username: 'bob' });
+    const rule = createRule({
+      conditions: {
+        groups: [{ conditions: [{ field: 'media_type', operator: 'eq', value: 'movie' }] }],
+      },
+    });
+
+    const result = await replayRule(
+      rule,
+      createData(
+        [
+          createSession(alice, at('10:00')),
+          createSession(bob, at('11:00')),
+          createSession(bob, at('13:00')),
+        ],
+        [alice, bob]
+      )
+    );
+
+    expect(result.userCounts.map((u) => [u.username, u.count])).toEqual([
+      ['bob', 2],
+      ['alice', 1],
+    ]);
+    expect(result.actionCounts).toEqual({ log_only: 3 });
+  });
+});
@@ -37,6 +37,8 @@ function createMockSession(overrides: Partial<Session> = {}): Session {
     seasonNumber: null,
     episodeNumber: null,
     year: 2024,
+    contentRating: null,
+    genres: null,
     thumbPath: null,
     ratingKey: 'rk-1',
     externalSessionId: 'ext-1',
@@ -136,6 +138,8 @@ function createMockRule(overrides: Partial<RuleV2> = {}): RuleV2 {
     severity: 'warning',
     conditions: { groups: [] },
     actions: { actions: [] },
+    schedule: null,
+    snoozedUntil: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -634,6 +638,89 @@ describe('evaluateRules', () => {
     expect(results[0]?.ruleId).toBe('rule-2');
   });
 
+  it('skips snoozed rules and rules outside their schedule', () => {
+    const evaluatedAt = new Date('2024-03-06T12:00:00Z'); // Wednesday noon UTC
+    const rules: RuleV2[] = [
+      createMockRule({
+        id: 'snoozed',
+        snoozedUntil: new Date('2024-03-07T00:00:00Z'),
+      }),
+      createMockRule({
+        id: 'snooze-expired',
+        snoozedUntil: new Date('2024-03-06T00:00:00Z'),
+      }),
+      createMockRule({
+        id: 'weekends',
+        schedule: {
+          timezone: 'UTC',
+          windows: [{ days: ['sat', 'sun'], startTime: '00:00', endTime: '23:59' }],
+        },
+      }),
+      createMockRule({
+        id: 'weekdays',
+        schedule: {
+          timezone: 'UTC',
+          windows: [
+            { days: ['mon', 'tue', 'wed', 'thu', 'fri'], startTime: '09:00', endTime: '17:00' },
+          ],
+        },
+      }),
+    ];
+
+    const server = createMockServer();
+    const serverUser = createMockServerUser({ serverId: server.id });
+    const session = createMockSession({ serverId: server.id, serverUserId: serverUser.id });
+
+    const results = evaluateRules(
+      {
+        session,
+        serverUser,
+        server,
+        activeSessions: [session],
+        recentSessions: [session],
+        evaluatedAt,
+      },
+      rules
+    );
+
+    expect(results.map((r) => r.ruleId)).toEqual(['snooze-expired', 'weekdays']);
+  });
+
+  it('skips rules the user is exempt from', () => {
+    const rules: RuleV2[] = [createMockRule({ id: 'rule-1' }), createMockRule({ id: 'rule-2' })];
+
+    const server = createMockServer();
+    const serverUser = createMockServerUser({ serverId: server.id });
+    const session = createMockSession({ serverId: server.id, serverUserId: serverUser.id });
+
+    const results = evaluateRules(
+      {
+        session,
+        serverUser,
+        server,
+        activeSessions: [session],
+        recentSessions: [session],
+        exemptions: [
+          {
+            id: 'exemption-1',
+            serverUserId: serverUser.id,
+            userId: null,
+            ruleId: 'rule-1',
+            reason: 'Travels for work',
+            expiresAt: null,
+            createdByUserId: null,
+            createdAt: new Date(),
+            revokedAt: null,
+            revokedByUserId: null,
+          },
+        ],
+      },
+      rules
+    );
+
+    expect(results.map((r) => r.ruleId)).toEqual(['rule-2']);
+  });
+
   it('respects server scope', () => {
     const rules: RuleV2[] = [
       createMockRule({
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Condition, Session, ServerUser, Server, RuleV2 } from '@tracearr/shared';
 import type { EvaluationContext, EvaluatorResult } from '../types.js';
 import {
@@ -8,6 +8,7 @@ import {
   normalizeDeviceType,
   normalizePlatform,
   calculateDistanceKm,
+  getLocalTime,
 } from '../evaluators/index.js';
 
 // Mock geoipService
@@ -45,6 +46,8 @@ function createMockSession(overrides: Partial<Session> = {}): Session {
     seasonNumber: null,
     episodeNumber: null,
     year: 2024,
+    contentRating: null,
+    genres: null,
     thumbPath: null,
     ratingKey: 'rk-1',
     externalSessionId: 'ext-1',
@@ -147,6 +150,8 @@ function createMockRule(overrides: Partial<RuleV2> = {}): RuleV2 {
     severity: 'warning',
     conditions: { groups: [] },
     actions: { actions: [] },
+    schedule: null,
+    snoozedUntil: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -1800,6 +1805,287 @@ describe('Scope Evaluators', () => {
   });
 });
 
+describe('Time Evaluators', () => {
+  // Wednesday 2024-01-10 03:30 UTC = Tuesday 2024-01-09 22:30 in New York
+  const NOW = new Date('2024-01-10T03:30:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getLocalTime', () => {
+    it('converts to the given timezone', () => {
+      expect(getLocalTime(NOW, 'America/New_York')).toEqual({ hour: 22, minute: 30, day: 'tue' });
+      expect(getLocalTime(NOW, 'UTC')).toEqual({ hour: 3, minute: 30, day: 'wed' });
+    });
+
+    it('falls back to UTC for missing or invalid timezones', () => {
+      expect(getLocalTime(NOW, undefined)).toEqual({ hour: 3, minute: 30, day: 'wed' });
+      expect(getLocalTime(NOW, 'Not/AZone')).toEqual({ hour: 3, minute: 30, day: 'wed' });
+    });
+  });
+
+  describe('local_hour', () => {
+    it('evaluates the hour in the condition timezone', () => {
+      const ctx = createTestContext();
+      const evaluator = evaluatorRegistry.local_hour;
+      const params = { timezone: 'America/New_York' };
+
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'local_hour', operator: 'gte', value: 18, params })
+          )
+        )
+      ).toBe(true);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'local_hour', operator: 'lt', value: 23, params })
+          )
+        )
+      ).toBe(true);
+      // Defaults to UTC (03:00)
+      expect(
+        matched(
+          evaluator(ctx, createCondition({ field: 'local_hour', operator: 'gte', value: 18 }))
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('day_of_week', () => {
+    it('evaluates the day in the condition timezone', () => {
+      const ctx = createTestContext();
+      const evaluator = evaluatorRegistry.day_of_week;
+      const weeknights = ['mon', 'tue', 'wed', 'thu', 'fri'];
+
+      const result = evaluator(
+        ctx,
+        createCondition({
+          field: 'day_of_week',
+          operator: 'eq',
+          value: 'tue',
+          params: { timezone: 'America/New_York' },
+        })
+      );
+      expect(matched(result)).toBe(true);
+      expect((result as EvaluatorResult).actual).toBe('tue');
+
+      expect(
+        matched(
+          evaluator(ctx, createCondition({ field: 'day_of_week', operator: 'eq', value: 'tue' }))
+        )
+      ).toBe(false);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'day_of_week', operator: 'in', value: weeknights })
+          )
+        )
+      ).toBe(true);
+    });
+  });
+});
+
+describe('Media Metadata Evaluators', () => {
+  describe('media_title', () => {
+    it('evaluates the title', () => {
+      const session = createMockSession({ mediaTitle: 'The Dark Knight' });
+      const ctx = createTestContext({ session });
+      const evaluator = evaluatorRegistry.media_title;
+
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'media_title', operator: 'contains', value: 'dark' })
+          )
+        )
+      ).toBe(true);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'media_title', operator: 'eq', value: 'Batman Begins' })
+          )
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('grandparent_title', () => {
+    it('uses the show name, falling back to the artist', () => {
+      const evaluator = evaluatorRegistry.grandparent_title;
+      const condition = createCondition({
+        field: 'grandparent_title',
+        operator: 'eq',
+        value: 'Bluey',
+      });
+
+      const episode = createMockSession({ mediaType: 'episode', grandparentTitle: 'Bluey' });
+      expect(matched(evaluator(createTestContext({ session: episode }), condition))).toBe(true);
+
+      const track = createMockSession({ mediaType: 'track', artistName: 'Bluey' });
+      expect(matched(evaluator(createTestContext({ session: track }), condition))).toBe(true);
+    });
+  });
+
+  describe('content_rating', () => {
+    it('evaluates the content rating', () => {
+      const session = createMockSession({ contentRating: 'R' });
+      const ctx = createTestContext({ session });
+      const evaluator = evaluatorRegistry.content_rating;
+
+      expect(
+        matched(
+          evaluator(ctx, createCondition({ field: 'content_rating', operator: 'eq', value: 'R' }))
+        )
+      ).toBe(true);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'content_rating', operator: 'in', value: ['G', 'PG'] })
+          )
+        )
+      ).toBe(false);
+    });
+
+    it('treats a missing rating as empty', () => {
+      const ctx = createTestContext();
+      const result = evaluatorRegistry.content_rating(
+        ctx,
+        createCondition({ field: 'content_rating', operator: 'eq', value: 'R' })
+      );
+
+      expect(matched(result)).toBe(false);
+      expect((result as EvaluatorResult).actual).toBe('');
+    });
+  });
+
+  describe('genre', () => {
+    const session = createMockSession({ genres: ['Action', 'Science Fiction'] });
+    const ctx = createTestContext({ session });
+    const evaluator = evaluatorRegistry.genre;
+
+    it('matches when any genre matches (case-insensitive)', () => {
+      expect(
+        matched(
+          evaluator(ctx, createCondition({ field: 'genre', operator: 'eq', value: 'action' }))
+        )
+      ).toBe(true);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'genre', operator: 'in', value: ['Horror', 'Action'] })
+          )
+        )
+      ).toBe(true);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'genre', operator: 'contains', value: 'fiction' })
+          )
+        )
+      ).toBe(true);
+    });
+
+    it('negative operators match only when no genre matches', () => {
+      expect(
+        matched(
+          evaluator(ctx, createCondition({ field: 'genre', operator: 'neq', value: 'Action' }))
+        )
+      ).toBe(false);
+      expect(
+        matched(
+          evaluator(
+            ctx,
+            createCondition({ field: 'genre', operator: 'not_in', value: ['Horror', 'Thriller'] })
+          )
+        )
+      ).toBe(true);
+    });
+
+    it('handles sessions without genres', () => {
+      const noGenres = createTestContext();
+
+      expect(
+        matched(
+          evaluator(noGenres, createCondition({ field: 'genre', operator: 'eq', value: 'Action' }))
+        )
+      ).toBe(false);
+      expect(
+        matched(
+          evaluator(
+            noGenres,
+            createCondition({ field: 'genre', operator: 'not_in', value: ['Horror'] })
+          )
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('year', () => {
+    it('evaluates the release year', () => {
+      const session = createMockSession({ year: 1994 });
+      const ctx = createTestContext({ session });
+      const evaluator = evaluatorRegistry.year;
+
+      expect(
+        matched(evaluator(ctx, createCondition({ field: 'year', operator: 'lt', value: 2000 })))
+      ).toBe(true);
+      expect(
+        matched(
+          evaluator(
+            createTestContext({ session: createMockSession({ year: null }) }),
+            createCondition({ field: 'year', operator: 'lt', value: 2000 })
+          )
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('media_duration_minutes', () => {
+    it('evaluates the total media length in minutes', () => {
+      const session = createMockSession({ totalDurationMs: 95 * 60_000 });
+      const ctx = createTestContext({ session });
+      const evaluator = evaluatorRegistry.media_duration_minutes;
+
+      const result = evaluator(
+        ctx,
+        createCondition({ field: 'media_duration_minutes', operator: 'gt', value: 90 })
+      );
+      expect(matched(result)).toBe(true);
+      expect((result as EvaluatorResult).actual).toBe(95);
+    });
+
+    it('does not match when the length is unknown', () => {
+      const session = createMockSession({ totalDurationMs: null });
+      const ctx = createTestContext({ session });
+
+      expect(
+        matched(
+          evaluatorRegistry.media_duration_minutes(
+            ctx,
+            createCondition({ field: 'media_duration_minutes', operator: 'lt', value: 10 })
+          )
+        )
+      ).toBe(false);
+    });
+  });
+});
+
 describe('Evaluator Registry', () => {
   it('has evaluators for all condition fields', () => {
     const expectedFields = [
@@ -1826,6 +2112,14 @@ describe('Evaluator Registry', () => {
       'server_id',
       'library_id',
       'media_type',
+      'local_hour',
+      'day_of_week',
+      'media_title',
+      'grandparent_title',
+      'content_rating',
+      'genre',
+      'year',
+      'media_duration_minutes',
     ];
 
     for (const field of expectedFields) {
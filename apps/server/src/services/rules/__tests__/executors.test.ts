@@ -37,6 +37,8 @@ function createMockSession(overrides: Partial<Session> = {}): Session {
     seasonNumber: null,
     episodeNumber: null,
     year: 2024,
+    contentRating: null,
+    genres: null,
     thumbPath: null,
     ratingKey: '12345',
     externalSessionId: null,
@@ -136,6 +138,8 @@ function createMockRule(overrides: Partial<RuleV2> = {}): RuleV2 {
     severity: 'warning',
     conditions: { groups: [] },
     actions: { actions: [] },
+    schedule: null,
+    snoozedUntil: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -0,0 +1,66 @@
+/**
+ * Rule exemption tests
+ *
+ * Tests exemption status and rule matching:
+ * - Active, expired and revoked exemptions
+ * - Rule-specific and all-rule exemptions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getExemptionStatus, isExemptFromRule } from '../exemptions.js';
+
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+function createExemption(
+  overrides: Partial<{ ruleId: string | null; expiresAt: Date | null; revokedAt: Date | null }> = {}
+) {
+  return { ruleId: 'rule-1', expiresAt: null, revokedAt: null, ...overrides };
+}
+
+describe('getExemptionStatus', () => {
+  it('is active without expiry', () => {
+    expect(getExemptionStatus(createExemption(), NOW)).toBe('active');
+  });
+
+  it('is active until it expires', () => {
+    const exemption = createExemption({ expiresAt: new Date('2024-03-01T12:00:01Z') });
+
+    expect(getExemptionStatus(exemption, NOW)).toBe('active');
+    expect(getExemptionStatus(exemption, new Date('2024-03-01T12:00:01Z'))).toBe('expired');
+  });
+
+  it('reports revoked before expired', () => {
+    const exemption = createExemption({
+      expiresAt: new Date('2024-02-01T00:00:00Z'),
+      revokedAt: new Date('2024-01-15T00:00:00Z'),
+    });
+
+    expect(getExemptionStatus(exemption, NOW)).toBe('revoked');
+  });
+});
+
+describe('isExemptFromRule', () => {
+  it('matches the exempted rule only', () => {
+    const exemptions = [createExemption()];
+
+    expect(isExemptFromRule(exemptions, 'rule-1', NOW)).toBe(true);
+    expect(isExemptFromRule(exemptions, 'rule-2', NOW)).toBe(false);
+  });
+
+  it('matches every rule when no rule is set', () => {
+    expect(isExemptFromRule([createExemption({ ruleId: null })], 'rule-2', NOW)).toBe(true);
+  });
+
+  it('ignores expired and revoked exemptions', () => {
+    const exemptions = [
+      createExemption({ expiresAt: new Date('2024-02-01T00:00:00Z') }),
+      createExemption({ revokedAt: new Date('2024-02-01T00:00:00Z') }),
+    ];
+
+    expect(isExemptFromRule(exemptions, 'rule-1', NOW)).toBe(false);
+  });
+
+  it('is not exempt without exemptions', () => {
+    expect(isExemptFromRule([], 'rule-1', NOW)).toBe(false);
+  });
+});
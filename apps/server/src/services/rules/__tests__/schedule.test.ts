@@ -0,0 +1,107 @@
+/**
+ * Rule schedule tests
+ *
+ * Tests when a rule is in effect:
+ * - Weekly windows read in the schedule timezone
+ * - Windows that run past midnight
+ * - Snooze expiry
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { RuleSchedule } from '@tracearr/shared';
+import { isRuleInEffect, isWithinSchedule } from '../schedule.js';
+
+// 2024-03-01 is a Friday
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+describe('isWithinSchedule', () => {
+  const weekdayEvenings: RuleSchedule = {
+    timezone: 'UTC',
+    windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], startTime: '18:00', endTime: '23:00' }],
+  };
+
+  it('matches inside a window', () => {
+    expect(isWithinSchedule(weekdayEvenings, at('2024-03-01T18:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(weekdayEvenings, at('2024-03-01T22:59:00Z'))).toBe(true);
+  });
+
+  it('excludes the end time and other days', () => {
+    expect(isWithinSchedule(weekdayEvenings, at('2024-03-01T23:00:00Z'))).toBe(false);
+    expect(isWithinSchedule(weekdayEvenings, at('2024-03-01T17:59:00Z'))).toBe(false);
+    // Saturday
+    expect(isWithinSchedule(weekdayEvenings, at('2024-03-02T19:00:00Z'))).toBe(false);
+  });
+
+  it('reads windows in the schedule timezone', () => {
+    const schedule: RuleSchedule = { ...weekdayEvenings, timezone: 'America/New_York' };
+
+    // 23:30 UTC Friday is 18:30 in New York
+    expect(isWithinSchedule(schedule, at('2024-03-01T23:30:00Z'))).toBe(true);
+    // 18:30 UTC Friday is 13:30 in New York
+    expect(isWithinSchedule(schedule, at('2024-03-01T18:30:00Z'))).toBe(false);
+  });
+
+  it('runs windows past midnight into the next day', () => {
+    const fridayNight: RuleSchedule = {
+      timezone: 'UTC',
+      windows: [{ days: ['fri'], startTime: '22:00', endTime: '02:00' }],
+    };
+
+    expect(isWithinSchedule(fridayNight, at('2024-03-01T23:00:00Z'))).toBe(true);
+    // Saturday 01:00 belongs to Friday's window
+    expect(isWithinSchedule(fridayNight, at('2024-03-02T01:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(fridayNight, at('2024-03-02T02:00:00Z'))).toBe(false);
+    // Friday 01:00 belongs to Thursday, which is not scheduled
+    expect(isWithinSchedule(fridayNight, at('2024-03-01T01:00:00Z'))).toBe(false);
+  });
+
+  it('matches any of several windows', () => {
+    const schedule: RuleSchedule = {
+      timezone: 'UTC',
+      windows: [
+        { days: ['sat'], startTime: '10:00', endTime: '12:00' },
+        { days: ['fri'], startTime: '08:00', endTime: '09:00' },
+      ],
+    };
+
+    expect(isWithinSchedule(schedule, at('2024-03-01T08:30:00Z'))).toBe(true);
+    expect(isWithinSchedule(schedule, at('2024-03-02T11:00:00Z'))).toBe(true);
+  });
+
+  it('treats a schedule without windows as always on', () => {
+    expect(isWithinSchedule({ timezone: 'UTC', windows: [] }, at('2024-03-01T00:00:00Z'))).toBe(
+      true
+    );
+  });
+});
+
+describe('isRuleInEffect', () => {
+  it('applies unscheduled rules at all times', () => {
+    expect(isRuleInEffect({ schedule: null, snoozedUntil: null }, at('2024-03-01T03:00:00Z'))).toBe(
+      true
+    );
+  });
+
+  it('pauses snoozed rules until the snooze expires', () => {
+    const rule = { schedule: null, snoozedUntil: at('2024-03-01T12:00:00Z') };
+
+    expect(isRuleInEffect(rule, at('2024-03-01T11:59:00Z'))).toBe(false);
+    expect(isRuleInEffect(rule, at('2024-03-01T12:00:00Z'))).toBe(true);
+  });
+
+  it('requires both an expired snooze and an open window', () => {
+    const rule = {
+      schedule: {
+        timezone: 'UTC',
+        windows: [{ days: ['fri' as const], startTime: '10:00', endTime: '14:00' }],
+      },
+      snoozedUntil: at('2024-03-01T11:00:00Z'),
+    };
+
+    expect(isRuleInEffect(rule, at('2024-03-01T10:30:00Z'))).toBe(false);
+    expect(isRuleInEffect(rule, at('2024-03-01T13:00:00Z'))).toBe(true);
+    expect(isRuleInEffect(rule, at('2024-03-01T15:00:00Z'))).toBe(false);
+  });
+});
@@ -15,6 +15,8 @@ function createMockSession(overrides: Partial<Session> = {}): Session {
     seasonNumber: null,
     episodeNumber: null,
     year: 2024,
+    contentRating: null,
+    genres: null,
     thumbPath: null,
     ratingKey: '12345',
     externalSessionId: null,
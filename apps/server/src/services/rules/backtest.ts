@@ -0,0 +1,331 @@
+/**
+ * Rule Backtest (Dry Run)
+ *
+ * Replays stored sessions through the V2 rules engine to show what a draft rule
+ * would have done. Nothing is written: no violations, no trust changes, no actions.
+ *
+ * Each session is evaluated as the poller would have seen it when it started:
+ * - activeSessions: the user's sessions still playing at that moment
+ * - recentSessions: the user's sessions from the preceding 24 hours
+ * - time-based conditions and the rule schedule use the session start time
+ */
+
+import { and, asc, eq, gte, inArray, lte, type SQL } from 'drizzle-orm';
+import {
+  SESSION_LIMITS,
+  TIME_MS,
+  type Action,
+  type ActionType,
+  type AuthUser,
+  type CreateRuleV2Input,
+  type RuleBacktestAction,
+  type RuleBacktestMatch,
+  type RuleBacktestResult,
+  type RuleBacktestUserCount,
+  type RuleV2,
+  type Server,
+  type ServerUser,
+  type Session,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { servers, serverUsers, sessions, users } from '../../db/schema.js';
+import { mapSessionRow } from '../../jobs/poller/sessionMapper.js';
+import { buildServerAccessCondition } from '../../utils/serverFiltering.js';
+import { evaluateRuleAsync } from './engine.js';
+import { isRuleInEffect } from './schedule.js';
+
+/** Sessions replayed per backtest (the oldest in the range are kept) */
+export const MAX_BACKTEST_SESSIONS = 20_000;
+
+/** Matches returned in full (counts still cover every match) */
+export const MAX_BACKTEST_MATCHES = 500;
+
+// Same lookback the poller uses when loading recent sessions
+const RECENT_SESSION_HOURS = 24;
+
+export interface BacktestData {
+  /** Sessions to evaluate, oldest first */
+  sessions: Session[];
+  /** Sessions per server user used to rebuild context (may include the evaluated ones) */
+  historyByUser: Map<string, Session[]>;
+  serverUsers: Map<string, ServerUser>;
+  servers: Map<string, Server>;
+}
+
+/**
+ * Build an in-memory rule from a draft. The rule is treated as active and not
+ * snoozed so it is evaluated regardless of the draft's isActive flag or snooze.
+ */
+export function toDraftRule(draft: CreateRuleV2Input): RuleV2 {
+  const now = new Date();
+  return {
+    id: 'draft',
+    name: draft.name,
+    description: draft.description ?? null,
+    serverId: draft.serverId ?? null,
+    isActive: true,
+    severity: draft.severity,
+    conditions: draft.conditions,
+    actions: draft.actions,
+    schedule: draft.schedule ?? null,
+    snoozedUntil: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Sessions of the same user that were playing when `session` started
+ */
+function getActiveAt(session: Session, history: Session[]): Session[] {
+  const startedAt = session.startedAt.getTime();
+  return history.filter(
+    (s) =>
+      s.id !== session.id &&
+      s.startedAt.getTime() <= startedAt &&
+      (s.stoppedAt === null || s.stoppedAt.getTime() > startedAt)
+  );
+}
+
+/**
+ * Sessions of the same user from the lookback window before `session` (newest first)
+ */
+function getRecentBefore(session: Session, history: Session[]): Session[] {
+  const startedAt = session.startedAt.getTime();
+  const since = startedAt - RECENT_SESSION_HOURS * TIME_MS.HOUR;
+  return history
+    .filter((s) => {
+      const time = s.startedAt.getTime();
+      return s.id !== session.id && time >= since && time <= startedAt;
+    })
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+    .slice(0, SESSION_LIMITS.MAX_RECENT_PER_USER);
+}
+
+function getCooldownMinutes(action: Action): number {
+  return 'cooldown_minutes' in action ? (action.cooldown_minutes ?? 0) : 0;
+}
+
+function requiresConfirmation(action: Action): boolean {
+  return 'require_confirmation' in action && action.require_confirmation === true;
+}
+
+/**
+ * Replay sessions through the engine for one rule.
+ *
+ * Cooldowns are simulated the way the executor applies them: one cooldown per
+ * rule and user, started by any action that runs and checked before each action.
+ */
+export async function replayRule(
+  rule: RuleV2,
+  data: BacktestData
+): Promise<Omit<RuleBacktestResult, 'startDate' | 'endDate' | 'truncated'>> {
+  const matches: RuleBacktestMatch[] = [];
+  const userCounts = new Map<string, RuleBacktestUserCount>();
+  const actionCounts: Partial<Record<ActionType, number>> = {};
+  const cooldownUntil = new Map<string, number>();
+  let sessionsEvaluated = 0;
+
+  for (const session of data.sessions) {
+    if (rule.serverId && rule.serverId !== session.serverId) continue;
+    if (!isRuleInEffect(rule, session.startedAt)) continue;
+
+    const serverUser = data.serverUsers.get(session.serverUserId);
+    const server = data.servers.get(session.serverId);
+    if (!serverUser || !server) continue;
+
+    sessionsEvaluated++;
+
+    const history = data.historyByUser.get(session.serverUserId) ?? [];
+    const result = await evaluateRuleAsync({
+      session,
+      serverUser,
+      server,
+      activeSessions: getActiveAt(session, history),
+      recentSessions: getRecentBefore(session, history),
+      rule,
+      evaluatedAt: session.startedAt,
+    });
+
+    if (!result.matched) continue;
+
+    const time = session.startedAt.getTime();
+    const actions: RuleBacktestAction[] = [];
+    for (const action of result.actions) {
+      const cooldownMinutes = getCooldownMinutes(action);
+      if (cooldownMinutes > 0 && (cooldownUntil.get(serverUser.id) ?? 0) > time) {
+        actions.push({ actionType: action.type, fired: false, skipReason: 'cooldown' });
+        continue;
+      }
+      if (requiresConfirmation(action)) {
+        actions.push({ actionType: action.type, fired: false, skipReason: 'confirmation' });
+        continue;
+      }
+
+      actions.push({ actionType: action.type, fired: true });
+      actionCounts[action.type] = (actionCounts[action.type] ?? 0) + 1;
+      if (cooldownMinutes > 0) {
+        cooldownUntil.set(serverUser.id, time + cooldownMinutes * TIME_MS.MINUTE);
+      }
+    }
+
+    const userCount = userCounts.get(serverUser.id) ?? {
+      serverUserId: serverUser.id,
+      username: serverUser.username,
+      identityName: serverUser.identityName ?? null,
+      count: 0,
+    };
+    userCount.count++;
+    userCounts.set(serverUser.id, userCount);
+
+    matches.push({
+      sessionId: session.id,
+      serverId: session.serverId,
+      serverUserId: serverUser.id,
+      username: serverUser.username,
+      identityName: serverUser.identityName ?? null,
+      mediaTitle: session.mediaTitle,
+      grandparentTitle: session.grandparentTitle,
+      startedAt: session.startedAt,
+      matchedGroups: result.matchedGroups,
+      evidence: result.evidence ?? [],
+      actions,
+    });
+  }
+
+  return {
+    sessionsEvaluated,
+    matchCount: matches.length,
+    matches: matches.reverse().slice(0, MAX_BACKTEST_MATCHES),
+    userCounts: Array.from(userCounts.values()).sort((a, b) => b.count - a.count),
+    actionCounts,
+  };
+}
+
+/**
+ * Load sessions started in the range plus the context needed to replay them.
+ */
+async function loadBacktestData(
+  rule: RuleV2,
+  startDate: Date,
+  endDate: Date,
+  authUser: AuthUser
+): Promise<{ data: BacktestData; truncated: boolean }> {
+  const conditions: SQL[] = [gte(sessions.startedAt, startDate), lte(sessions.startedAt, endDate)];
+  if (rule.serverId) {
+    conditions.push(eq(sessions.serverId, rule.serverId));
+  }
+  const accessCondition = buildServerAccessCondition(authUser, sessions.serverId);
+  if (accessCondition) {
+    conditions.push(accessCondition);
+  }
+
+  const rows = await db
+    .select()
+    .from(sessions)
+    .where(and(...conditions))
+    .orderBy(asc(sessions.startedAt))
+    .limit(MAX_BACKTEST_SESSIONS + 1);
+
+  const truncated = rows.length > MAX_BACKTEST_SESSIONS;
+  const targetSessions = rows.slice(0, MAX_BACKTEST_SESSIONS).map(mapSessionRow);
+
+  const data: BacktestData = {
+    sessions: targetSessions,
+    historyByUser: new Map(),
+    serverUsers: new Map(),
+    servers: new Map(),
+  };
+
+  const lastSession = targetSessions[targetSessions.length - 1];
+  if (!lastSession) {
+    return { data, truncated };
+  }
+
+  const serverUserIds = [...new Set(targetSessions.map((s) => s.serverUserId))];
+  const serverIds = [...new Set(targetSessions.map((s) => s.serverId))];
+
+  // Context sessions: anything the evaluated sessions could look back on
+  const historyRows = await db
+    .select()
+    .from(sessions)
+    .where(
+      and(
+        inArray(sessions.serverUserId, serverUserIds),
+        gte(
+          sessions.startedAt,
+          new Date(startDate.getTime() - RECENT_SESSION_HOURS * TIME_MS.HOUR)
+        ),
+        lte(sessions.startedAt, lastSession.startedAt)
+      )
+    )
+    .orderBy(asc(sessions.startedAt));
+
+  for (const row of historyRows) {
+    const history = data.historyByUser.get(row.serverUserId) ?? [];
+    history.push(mapSessionRow(row));
+    data.historyByUser.set(row.serverUserId, history);
+  }
+
+  const userRows = await db
+    .select({
+      serverUser: serverUsers,
+      identityName: users.name,
+    })
+    .from(serverUsers)
+    .innerJoin(users, eq(serverUsers.userId, users.id))
+    .where(inArray(serverUsers.id, serverUserIds));
+
+  for (const { serverUser, identityName } of userRows) {
+    data.serverUsers.set(serverUser.id, {
+      id: serverUser.id,
+      userId: serverUser.userId,
+      serverId: serverUser.serverId,
+      externalId: serverUser.externalId,
+      username: serverUser.username,
+      email: serverUser.email,
+      thumbUrl: serverUser.thumbUrl,
+      isServerAdmin: serverUser.isServerAdmin,
+      trustScore: serverUser.trustScore,
+      sessionCount: serverUser.sessionCount,
+      joinedAt: serverUser.joinedAt,
+      lastActivityAt: serverUser.lastActivityAt,
+      createdAt: serverUser.createdAt,
+      updatedAt: serverUser.updatedAt,
+      identityName,
+    });
+  }
+
+  const serverRows = await db
+    .select({ id: servers.id, name: servers.name, type: servers.type })
+    .from(servers)
+    .where(inArray(servers.id, serverIds));
+
+  for (const server of serverRows) {
+    data.servers.set(server.id, {
+      ...server,
+      url: '', // Not needed for rule evaluation
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  return { data, truncated };
+}
+
+/**
+ * Backtest a draft rule against sessions started between startDate and endDate.
+ * Only sessions on servers the user can access are replayed.
+ */
+export async function backtestRule(
+  draft: CreateRuleV2Input,
+  startDate: Date,
+  endDate: Date,
+  authUser: AuthUser
+): Promise<RuleBacktestResult> {
+  const rule = toDraftRule(draft);
+  const { data, truncated } = await loadBacktestData(rule, startDate, endDate, authUser);
+  const result = await replayRule(rule, data);
+
+  return { startDate, endDate, truncated, ...result };
+}
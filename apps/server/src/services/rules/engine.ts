@@ -14,6 +14,8 @@ import type {
   EvaluatorResult,
 } from './types.js';
 import { evaluatorRegistry } from './evaluators/index.js';
+import { isRuleInEffect } from './schedule.js';
+import { isExemptFromRule } from './exemptions.js';
 import { rulesLogger as logger } from '../../utils/logger.js';
 
 /**
@@ -214,8 +216,13 @@ export function evaluateRules(
   const results: EvaluationResult[] = [];
 
   for (const rule of rules) {
-    // Skip inactive rules
-    if (!rule.isActive) {
+    // Skip inactive rules, and rules that are snoozed or outside their schedule
+    if (!rule.isActive || !isRuleInEffect(rule, baseContext.evaluatedAt)) {
+      continue;
+    }
+
+    // Skip rules the user is exempt from
+    if (isExemptFromRule(baseContext.exemptions ?? [], rule.id, baseContext.evaluatedAt)) {
       continue;
     }
 
@@ -375,7 +382,11 @@ export async function evaluateRulesAsync(
   const results: EvaluationResult[] = [];
 
   for (const rule of rules) {
-    if (!rule.isActive) {
+    if (!rule.isActive || !isRuleInEffect(rule, baseContext.evaluatedAt)) {
+      continue;
+    }
+
+    if (isExemptFromRule(baseContext.exemptions ?? [], rule.id, baseContext.evaluatedAt)) {
       continue;
     }
 
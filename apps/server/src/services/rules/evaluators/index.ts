@@ -1,11 +1,13 @@
 import type {
   Condition,
   ConditionField,
+  DayOfWeek,
   VideoResolution,
   DeviceType,
   Platform,
   TranscodingConditionValue,
 } from '@tracearr/shared';
+import { isValidTimezone } from '@tracearr/shared';
 import type { ConditionEvaluator, EvaluationContext, EvaluatorResult } from '../types.js';
 import { compare } from '../comparisons.js';
 import { geoipService } from '../../geoip.js';
@@ -155,6 +157,64 @@ function normalizePlatform(platform: string | null): Platform {
   return 'unknown';
 }
 
+const WEEKDAY_TO_DAY_OF_WEEK: Record<string, DayOfWeek> = {
+  Sun: 'sun',
+  Mon: 'mon',
+  Tue: 'tue',
+  Wed: 'wed',
+  Thu: 'thu',
+  Fri: 'fri',
+  Sat: 'sat',
+};
+
+/**
+ * Get the hour (0-23), minute and day of week of a moment in an IANA timezone.
+ * Falls back to UTC when the timezone is missing or invalid.
+ */
+function getLocalTime(
+  date: Date,
+  timezone: string | undefined
+): { hour: number; minute: number; day: DayOfWeek } {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone && isValidTimezone(timezone) ? timezone : 'UTC',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+  });
+
+  const parts = formatter.formatToParts(date);
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value ?? '0', 10);
+  const minute = parseInt(parts.find((p) => p.type === 'minute')?.value ?? '0', 10);
+  const weekday = parts.find((p) => p.type === 'weekday')?.value ?? 'Sun';
+
+  return { hour, minute, day: WEEKDAY_TO_DAY_OF_WEEK[weekday] ?? 'sun' };
+}
+
+/**
+ * Compare a list of values against a condition. Positive operators match when any
+ * value matches; negative operators (neq, not_in, not_contains) match when none do.
+ * Comparison is case-insensitive.
+ */
+function compareAny(values: string[], condition: Condition): boolean {
+  const lower = (v: unknown) => (typeof v === 'string' ? v.toLowerCase() : v);
+  const expected = Array.isArray(condition.value)
+    ? (condition.value as unknown[]).map(lower)
+    : lower(condition.value);
+  const normalized = values.map((v) => v.toLowerCase());
+
+  switch (condition.operator) {
+    case 'neq':
+      return normalized.every((v) => compare(v, 'neq', expected as Condition['value']));
+    case 'not_in':
+      return normalized.every((v) => compare(v, 'not_in', expected as Condition['value']));
+    case 'not_contains':
+      return normalized.every((v) => compare(v, 'not_contains', expected as Condition['value']));
+    default:
+      return normalized.some((v) => compare(v, condition.operator, expected as Condition['value']));
+  }
+}
+
 // ============================================================================
 // Session Behavior Evaluators
 // ============================================================================
@@ -609,8 +669,9 @@ const evaluateAccountAgeDays: ConditionEvaluator = (
 ): EvaluatorResult => {
   const { serverUser } = context;
 
+  const now = context.evaluatedAt?.getTime() ?? Date.now();
   const ageDays = Math.floor(
-    (Date.now() - new Date(serverUser.createdAt).getTime()) / (1000 * 60 * 60 * 24)
+    (now - new Date(serverUser.createdAt).getTime()) / (1000 * 60 * 60 * 24)
   );
 
   return {
@@ -818,6 +879,127 @@ const evaluateMediaType: ConditionEvaluator = (
   };
 };
 
+// ============================================================================
+// Time Evaluators
+// ============================================================================
+
+const evaluateLocalHour: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const timezone = condition.params?.timezone ?? 'UTC';
+  const { hour } = getLocalTime(context.evaluatedAt ?? new Date(), timezone);
+
+  return {
+    matched: compare(hour, condition.operator, condition.value),
+    actual: hour,
+    details: { timezone },
+  };
+};
+
+const evaluateDayOfWeek: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const timezone = condition.params?.timezone ?? 'UTC';
+  const { day } = getLocalTime(context.evaluatedAt ?? new Date(), timezone);
+
+  return {
+    matched: compare(day, condition.operator, condition.value),
+    actual: day,
+    details: { timezone },
+  };
+};
+
+// ============================================================================
+// Media Metadata Evaluators
+// ============================================================================
+
+const evaluateMediaTitle: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const { session } = context;
+
+  return {
+    matched: compare(session.mediaTitle, condition.operator, condition.value),
+    actual: session.mediaTitle,
+  };
+};
+
+const evaluateGrandparentTitle: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const { session } = context;
+
+  // Show name for episodes, artist for tracks
+  const title = session.grandparentTitle ?? session.artistName ?? '';
+
+  return {
+    matched: compare(title, condition.operator, condition.value),
+    actual: title,
+  };
+};
+
+const evaluateContentRating: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const { session } = context;
+
+  const rating = session.contentRating ?? '';
+
+  return {
+    matched: compare(rating, condition.operator, condition.value),
+    actual: rating,
+  };
+};
+
+const evaluateGenre: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const { session } = context;
+
+  const genres = session.genres ?? [];
+
+  return {
+    matched: compareAny(genres, condition),
+    actual: genres,
+  };
+};
+
+const evaluateYear: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const { session } = context;
+
+  return {
+    matched: compare(session.year, condition.operator, condition.value),
+    actual: session.year,
+  };
+};
+
+const evaluateMediaDurationMinutes: ConditionEvaluator = (
+  context: EvaluationContext,
+  condition: Condition
+): EvaluatorResult => {
+  const { session } = context;
+
+  if (session.totalDurationMs === null) {
+    return { matched: false, actual: null };
+  }
+
+  const minutes = Math.round(session.totalDurationMs / 60_000);
+
+  return {
+    matched: compare(minutes, condition.operator, condition.value),
+    actual: minutes,
+  };
+};
+
 // ============================================================================
 // Evaluator Registry
 // ============================================================================
@@ -857,6 +1039,18 @@ export const evaluatorRegistry: Record<ConditionField, ConditionEvaluator> = {
   server_id: evaluateServerId,
   library_id: evaluateLibraryId,
   media_type: evaluateMediaType,
+
+  // Time
+  local_hour: evaluateLocalHour,
+  day_of_week: evaluateDayOfWeek,
+
+  // Media metadata
+  media_title: evaluateMediaTitle,
+  grandparent_title: evaluateGrandparentTitle,
+  content_rating: evaluateContentRating,
+  genre: evaluateGenre,
+  year: evaluateYear,
+  media_duration_minutes: evaluateMediaDurationMinutes,
 };
 
 // Export helper functions for testing
@@ -866,4 +1060,5 @@ export {
   resolutionToNumber,
   normalizeDeviceType,
   normalizePlatform,
+  getLocalTime,
 };
@@ -0,0 +1,39 @@
+/**
+ * Rule Exemptions
+ *
+ * An exemption skips one rule (or every rule) for a server user, or for every
+ * server account of an identity. Exemptions can expire and can be revoked;
+ * both keep the row so it stays in the user's history.
+ */
+
+import type { RuleExemption, RuleExemptionStatus } from '@tracearr/shared';
+
+type ExemptionState = Pick<RuleExemption, 'expiresAt' | 'revokedAt'>;
+
+export function getExemptionStatus(
+  exemption: ExemptionState,
+  at: Date = new Date()
+): RuleExemptionStatus {
+  if (exemption.revokedAt) {
+    return 'revoked';
+  }
+  if (exemption.expiresAt && exemption.expiresAt.getTime() <= at.getTime()) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Check whether any of a user's exemptions covers the rule at the given moment.
+ */
+export function isExemptFromRule(
+  exemptions: (ExemptionState & Pick<RuleExemption, 'ruleId'>)[],
+  ruleId: string,
+  at: Date = new Date()
+): boolean {
+  return exemptions.some(
+    (exemption) =>
+      (exemption.ruleId === null || exemption.ruleId === ruleId) &&
+      getExemptionStatus(exemption, at) === 'active'
+  );
+}
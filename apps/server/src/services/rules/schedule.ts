@@ -0,0 +1,66 @@
+/**
+ * Rule Schedules and Snooze
+ *
+ * A rule with a schedule only applies inside one of its weekly windows, read in
+ * the schedule's timezone. A snoozed rule is paused until its snooze expires.
+ * Both are checked on top of isActive, so a rule can be relaxed temporarily
+ * without being disabled or edited.
+ */
+
+import type { DayOfWeek, RuleSchedule, RuleScheduleWindow, RuleV2 } from '@tracearr/shared';
+import { getLocalTime } from './evaluators/index.js';
+
+const DAYS: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':');
+  return Number(hours) * 60 + Number(minutes);
+}
+
+/**
+ * Check a window against a local day and minute of day. Windows ending before
+ * they start run past midnight into the following day.
+ */
+function isInWindow(window: RuleScheduleWindow, day: DayOfWeek, minuteOfDay: number): boolean {
+  const start = toMinutes(window.startTime);
+  const end = toMinutes(window.endTime);
+
+  if (start < end) {
+    return window.days.includes(day) && minuteOfDay >= start && minuteOfDay < end;
+  }
+
+  const previousDay = DAYS[(DAYS.indexOf(day) + 6) % 7] ?? 'sat';
+  return (
+    (window.days.includes(day) && minuteOfDay >= start) ||
+    (window.days.includes(previousDay) && minuteOfDay < end)
+  );
+}
+
+/**
+ * Check whether a schedule covers the given moment. A schedule without windows
+ * covers every moment.
+ */
+export function isWithinSchedule(schedule: RuleSchedule, at: Date): boolean {
+  if (schedule.windows.length === 0) {
+    return true;
+  }
+
+  const { hour, minute, day } = getLocalTime(at, schedule.timezone);
+  const minuteOfDay = hour * 60 + minute;
+  return schedule.windows.some((window) => isInWindow(window, day, minuteOfDay));
+}
+
+/**
+ * Check whether a rule should be evaluated at the given moment: not snoozed and
+ * inside its schedule (if any). Does not check isActive.
+ */
+export function isRuleInEffect(
+  rule: Pick<RuleV2, 'schedule' | 'snoozedUntil'>,
+  at: Date = new Date()
+): boolean {
+  if (rule.snoozedUntil && new Date(rule.snoozedUntil).getTime() > at.getTime()) {
+    return false;
+  }
+
+  return rule.schedule ? isWithinSchedule(rule.schedule, at) : true;
+}
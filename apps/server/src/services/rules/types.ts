@@ -6,6 +6,7 @@ import type {
   ServerUser,
   Server,
   GroupEvidence,
+  RuleExemption,
 } from '@tracearr/shared';
 
 export interface EvaluationContext {
@@ -15,6 +16,10 @@ export interface EvaluationContext {
   activeSessions: Session[];
   recentSessions: Session[];
   rule: RuleV2;
+  /** Point in time to evaluate at (defaults to now; set when replaying history) */
+  evaluatedAt?: Date;
+  /** Active exemptions of the server user; covered rules are skipped */
+  exemptions?: RuleExemption[];
 }
 
 export interface EvaluatorResult {
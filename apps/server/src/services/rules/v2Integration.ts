@@ -6,11 +6,12 @@
  */
 
 import type { Redis } from 'ioredis';
-import { eq, sql, and, isNull, isNotNull } from 'drizzle-orm';
+import { eq, and, isNull, isNotNull } from 'drizzle-orm';
 import { REDIS_KEYS } from '@tracearr/shared';
 import { db } from '../../db/client.js';
-import { rules, serverUsers, sessions, ruleActionResults } from '../../db/schema.js';
+import { rules, sessions, ruleActionResults } from '../../db/schema.js';
 import { rulesLogger } from '../../utils/logger.js';
+import { applyTrustScoreChange, notifyTrustScoreChange } from '../trustScore.js';
 import {
   setActionExecutorDeps,
   type ActionExecutorDeps,
@@ -132,16 +133,16 @@ export function createActionExecutorDeps(redis: Redis): ActionExecutorDeps {
 
     /**
      * Adjust user trust score by delta amount.
-     * Clamps result to 0-100 using GREATEST/LEAST SQL functions.
+     * Clamps result to 0-100 and records the change in the trust score history.
      */
     adjustUserTrust: async (userId, delta) => {
-      await db
-        .update(serverUsers)
-        .set({
-          trustScore: sql`LEAST(100, GREATEST(0, ${serverUsers.trustScore} + ${delta}))`,
-          updatedAt: new Date(),
-        })
-        .where(eq(serverUsers.id, userId));
+      const change = await applyTrustScoreChange(
+        db,
+        userId,
+        { delta },
+        { source: 'rule_action', reason: `Rule action: adjust trust by ${delta}` }
+      );
+      await notifyTrustScoreChange(change);
 
       rulesLogger.debug(`Adjusted trust score by ${delta}`, { userId });
     },
@@ -151,30 +152,28 @@ export function createActionExecutorDeps(redis: Redis): ActionExecutorDeps {
      * Clamps to 0-100 range.
      */
     setUserTrust: async (userId, value) => {
-      const clampedValue = Math.min(100, Math.max(0, value));
-
-      await db
-        .update(serverUsers)
-        .set({
-          trustScore: clampedValue,
-          updatedAt: new Date(),
-        })
-        .where(eq(serverUsers.id, userId));
-
-      rulesLogger.debug(`Set trust score to ${clampedValue}`, { userId });
+      const change = await applyTrustScoreChange(
+        db,
+        userId,
+        { score: value },
+        { source: 'rule_action', reason: `Rule action: set trust to ${value}` }
+      );
+      await notifyTrustScoreChange(change);
+
+      rulesLogger.debug(`Set trust score to ${change?.newScore ?? value}`, { userId });
     },
 
     /**
      * Reset user trust score to baseline (100).
      */
     resetUserTrust: async (userId) => {
-      await db
-        .update(serverUsers)
-        .set({
-          trustScore: 100,
-          updatedAt: new Date(),
-        })
-        .where(eq(serverUsers.id, userId));
+      const change = await applyTrustScoreChange(
+        db,
+        userId,
+        { score: 100 },
+        { source: 'rule_action', reason: 'Rule action: reset trust' }
+      );
+      await notifyTrustScoreChange(change);
 
       rulesLogger.debug('Reset trust score to 100', { userId });
     },
@@ -10,6 +10,8 @@ export interface TrackedService {
   description: string;
   intervalMs: number;
   running: boolean;
+  /** Optional detail for connection-based services (e.g. "connected", "fallback") */
+  status?: string;
 }
 
 const services = new Map<string, TrackedService>();
@@ -25,6 +27,13 @@ export function unregisterService(id: string): void {
   }
 }
 
+export function setServiceStatus(id: string, status: string): void {
+  const service = services.get(id);
+  if (service) {
+    service.status = status;
+  }
+}
+
 export function getAllServices(): TrackedService[] {
   return Array.from(services.values());
 }
@@ -1,27 +1,31 @@
 /**
  * SSE Connection Manager
  *
- * Manages Server-Sent Events connections for all Plex servers.
- * Coordinates between SSE (real-time) and poller (fallback/reconciliation).
+ * Manages real-time connections for all media servers: Server-Sent Events for
+ * Plex, WebSockets for Jellyfin/Emby.
+ * Coordinates between push (real-time) and poller (fallback/reconciliation).
  *
  * Architecture:
- * - Primary: SSE connections for instant session updates
- * - Fallback: Polling when SSE fails or for servers that don't support SSE
+ * - Primary: SSE/WebSocket connections for instant session updates
+ * - Fallback: Polling when a connection fails
  * - Reconciliation: Light periodic poll to catch any missed events
  */
 
 import { EventEmitter } from 'events';
-import { eq } from 'drizzle-orm';
 import {
   POLLING_INTERVALS,
   type SSEConnectionState,
   type SSEConnectionStatus,
   type PlexPlaySessionNotification,
+  type ServerType,
 } from '@tracearr/shared';
-import { registerService, unregisterService } from './serviceTracker.js';
+import { registerService, setServiceStatus, unregisterService } from './serviceTracker.js';
 import { db } from '../db/client.js';
 import { servers } from '../db/schema.js';
 import { PlexEventSource } from './mediaServer/plex/eventSource.js';
+import { JellyfinEmbyEventSource } from './mediaServer/shared/jellyfinEmbyEventSource.js';
+import { getMediaServerAdapter } from './mediaServer/registry.js';
+import type { MediaSession } from './mediaServer/types.js';
 import type { CacheService, PubSubService } from './cache.js';
 
 // Events emitted by SSEManager for consumers
@@ -30,16 +34,20 @@ export interface SSEManagerEvents {
   'plex:session:paused': { serverId: string; notification: PlexPlaySessionNotification };
   'plex:session:stopped': { serverId: string; notification: PlexPlaySessionNotification };
   'plex:session:progress': { serverId: string; notification: PlexPlaySessionNotification };
+  /** Jellyfin/Emby pushed their full session list */
+  'websocket:sessions': { serverId: string; sessions: MediaSession[] };
+  /** Jellyfin/Emby playback started or stopped; sessions need a refetch */
+  'websocket:playback': { serverId: string };
   'connection:status': SSEConnectionStatus;
-  'fallback:activated': { serverId: string; serverName: string };
-  'fallback:deactivated': { serverId: string; serverName: string };
+  'fallback:activated': { serverId: string; serverName: string; serverType: ServerType };
+  'fallback:deactivated': { serverId: string; serverName: string; serverType: ServerType };
 }
 
 interface ServerConnection {
   serverId: string;
   serverName: string;
-  serverType: 'plex' | 'jellyfin' | 'emby';
-  eventSource: PlexEventSource | null;
+  serverType: ServerType;
+  eventSource: PlexEventSource | JellyfinEmbyEventSource | null;
   state: SSEConnectionState;
   inFallback: boolean;
 }
@@ -83,22 +91,21 @@ export class SSEManager extends EventEmitter {
   }
 
   /**
-   * Start SSE connections for all Plex servers
+   * Start real-time connections for all servers
    */
   async start(): Promise<void> {
     if (!this.initialized) {
       throw new Error('SSEManager not initialized');
     }
 
-    // Get all Plex servers
-    const allServers = await db.select().from(servers).where(eq(servers.type, 'plex'));
+    const allServers = await db.select().from(servers);
 
-    console.log(`[SSEManager] Starting SSE for ${allServers.length} Plex server(s)`);
+    console.log(`[SSEManager] Starting real-time connections for ${allServers.length} server(s)`);
 
-    // Create SSE connections for each Plex server in parallel
+    // Create connections for each server in parallel
     await Promise.all(
       allServers.map((server) =>
-        this.addServer(server.id, server.name, server.type as 'plex', server.url, server.token)
+        this.addServer(server.id, server.name, server.type, server.url, server.token)
       )
     );
 
@@ -106,7 +113,7 @@ export class SSEManager extends EventEmitter {
     this.startReconciliation();
     registerService('sse-manager', {
       name: 'SSE Manager',
-      description: 'Manages real-time Plex SSE connections',
+      description: 'Manages real-time Plex SSE and Jellyfin/Emby WebSocket connections',
       intervalMs: POLLING_INTERVALS.SSE_RECONCILIATION,
     });
   }
@@ -124,23 +131,26 @@ export class SSEManager extends EventEmitter {
     }
     unregisterService('sse-manager');
 
-    // Disconnect all SSE connections
+    // Disconnect all connections
     for (const connection of this.connections.values()) {
       if (connection.eventSource) {
         connection.eventSource.disconnect();
       }
+      if (usesWebSocket(connection.serverType)) {
+        unregisterService(getWebSocketServiceId(connection.serverId));
+      }
     }
 
     this.connections.clear();
   }
 
   /**
-   * Add a server and establish SSE connection
+   * Add a server and establish its SSE/WebSocket connection
    */
   async addServer(
     serverId: string,
     serverName: string,
-    serverType: 'plex' | 'jellyfin' | 'emby',
+    serverType: ServerType,
     url: string,
     token: string
   ): Promise<void> {
@@ -165,8 +175,16 @@ export class SSEManager extends EventEmitter {
         inFallback: false,
       };
 
-      // Only Plex supports SSE currently
-      if (serverType === 'plex') {
+      // Register before connecting so state events find the connection
+      this.connections.set(serverId, connection);
+
+      const adapter = getMediaServerAdapter(serverType);
+
+      if (adapter.capabilities.realtime === null) {
+        // No push channel - the poller covers this server
+        connection.state = 'fallback';
+        connection.inFallback = true;
+      } else if (serverType === 'plex') {
         const eventSource = new PlexEventSource({
           serverId,
           serverName,
@@ -175,20 +193,35 @@ export class SSEManager extends EventEmitter {
         });
 
         // Wire up event handlers
-        this.setupEventHandlers(eventSource, serverId, serverName);
+        this.setupEventHandlers(eventSource, serverId);
+        this.setupConnectionHandlers(eventSource, connection);
 
         connection.eventSource = eventSource;
 
         // Connect
         await eventSource.connect();
-      } else {
-        // Jellyfin/Emby: Start in fallback mode (polling)
-        connection.inFallback = true;
-        connection.state = 'fallback';
-        this.emit('fallback:activated', { serverId, serverName });
-      }
+      } else if (serverType === 'jellyfin' || serverType === 'emby') {
+        const eventSource = new JellyfinEmbyEventSource({
+          serverId,
+          serverName,
+          serverType,
+          url,
+          token,
+        });
 
-      this.connections.set(serverId, connection);
+        this.setupWebSocketEventHandlers(eventSource, serverId);
+        this.setupConnectionHandlers(eventSource, connection);
+
+        connection.eventSource = eventSource;
+
+        registerService(getWebSocketServiceId(serverId), {
+          name: `${serverName} WebSocket`,
+          description: `Real-time ${adapter.displayName} session updates`,
+          intervalMs: 0, // event-driven, not interval-based
+        });
+
+        await eventSource.connect();
+      }
     } finally {
       this.pendingOperations.delete(serverId);
     }
@@ -223,6 +256,9 @@ export class SSEManager extends EventEmitter {
       connection.eventSource.removeAllListeners();
       connection.eventSource.disconnect();
     }
+    if (usesWebSocket(connection.serverType)) {
+      unregisterService(getWebSocketServiceId(serverId));
+    }
 
     this.connections.delete(serverId);
     console.log(`[SSEManager] Removed server ${connection.serverName}`);
@@ -238,7 +274,6 @@ export class SSEManager extends EventEmitter {
       if (connection.eventSource) {
         statuses.push(connection.eventSource.getStatus());
       } else {
-        // Non-SSE server (Jellyfin/Emby)
         statuses.push({
           serverId: connection.serverId,
           serverName: connection.serverName,
@@ -263,13 +298,13 @@ export class SSEManager extends EventEmitter {
   }
 
   /**
-   * Get list of servers that need polling (fallback mode or non-Plex)
+   * Get list of servers that need polling (fallback mode)
    */
   getServersNeedingPoll(): string[] {
     const serverIds: string[] = [];
 
     for (const connection of this.connections.values()) {
-      if (connection.inFallback || connection.serverType !== 'plex') {
+      if (connection.inFallback) {
         serverIds.push(connection.serverId);
       }
     }
@@ -280,11 +315,7 @@ export class SSEManager extends EventEmitter {
   /**
    * Set up event handlers for a PlexEventSource
    */
-  private setupEventHandlers(
-    eventSource: PlexEventSource,
-    serverId: string,
-    serverName: string
-  ): void {
+  private setupEventHandlers(eventSource: PlexEventSource, serverId: string): void {
     // Session events - forward to processor
     eventSource.on('session:playing', (notification: PlexPlaySessionNotification) => {
       this.emit('plex:session:playing', { serverId, notification });
@@ -301,27 +332,65 @@ export class SSEManager extends EventEmitter {
     eventSource.on('session:progress', (notification: PlexPlaySessionNotification) => {
       this.emit('plex:session:progress', { serverId, notification });
     });
+  }
+
+  /**
+   * Set up event handlers for a JellyfinEmbyEventSource
+   */
+  private setupWebSocketEventHandlers(
+    eventSource: JellyfinEmbyEventSource,
+    serverId: string
+  ): void {
+    eventSource.on('sessions', (sessions: MediaSession[]) => {
+      this.emit('websocket:sessions', { serverId, sessions });
+    });
+
+    eventSource.on('playback:start', () => {
+      this.emit('websocket:playback', { serverId });
+    });
+
+    eventSource.on('playback:stopped', () => {
+      this.emit('websocket:playback', { serverId });
+    });
+  }
+
+  /**
+   * Track connection state and fallback transitions for any event source
+   */
+  private setupConnectionHandlers(
+    eventSource: PlexEventSource | JellyfinEmbyEventSource,
+    connection: ServerConnection
+  ): void {
+    const { serverId, serverName, serverType } = connection;
 
-    // Connection state changes
     eventSource.on('connection:state', (state: SSEConnectionState) => {
-      const connection = this.connections.get(serverId);
-      if (connection) {
-        connection.state = state;
-
-        // Handle fallback transitions
-        if (state === 'fallback' && !connection.inFallback) {
-          connection.inFallback = true;
-          console.log(`[SSEManager] Server ${serverName} entering fallback mode`);
-          this.emit('fallback:activated', { serverId, serverName });
-        } else if (state === 'connected' && connection.inFallback) {
-          connection.inFallback = false;
-          console.log(`[SSEManager] Server ${serverName} exiting fallback mode`);
-          this.emit('fallback:deactivated', { serverId, serverName });
-        }
+      // Ignore events from a connection that has since been replaced or removed
+      if (this.connections.get(serverId) !== connection) {
+        return;
+      }
+      connection.state = state;
 
-        // Emit status update
-        this.emit('connection:status', eventSource.getStatus());
+      // Handle fallback transitions
+      if (state === 'fallback' && !connection.inFallback) {
+        connection.inFallback = true;
+        console.log(`[SSEManager] Server ${serverName} entering fallback mode`);
+        this.emit('fallback:activated', { serverId, serverName, serverType });
+      } else if (state === 'connected' && connection.inFallback) {
+        connection.inFallback = false;
+        console.log(`[SSEManager] Server ${serverName} exiting fallback mode`);
+        this.emit('fallback:deactivated', { serverId, serverName, serverType });
       }
+
+      if (usesWebSocket(serverType)) {
+        const serviceId = getWebSocketServiceId(serverId);
+        setServiceStatus(serviceId, state);
+        if (state === 'fallback') {
+          unregisterService(serviceId);
+        }
+      }
+
+      // Emit status update
+      this.emit('connection:status', eventSource.getStatus());
     });
 
     eventSource.on('connection:error', (error: Error) => {
@@ -402,16 +471,10 @@ export class SSEManager extends EventEmitter {
         }
       }
 
-      // Add new Plex servers
+      // Add new servers
       for (const server of allServers) {
-        if (!connectedServerIds.has(server.id) && server.type === 'plex') {
-          await this.addServer(
-            server.id,
-            server.name,
-            server.type as 'plex',
-            server.url,
-            server.token
-          );
+        if (!connectedServerIds.has(server.id)) {
+          await this.addServer(server.id, server.name, server.type, server.url, server.token);
         }
       }
     } finally {
@@ -420,5 +483,19 @@ export class SSEManager extends EventEmitter {
   }
 }
 
+/**
+ * Whether a server type's real-time connection is a WebSocket
+ */
+function usesWebSocket(serverType: ServerType): boolean {
+  return getMediaServerAdapter(serverType).capabilities.realtime === 'websocket';
+}
+
+/**
+ * Service tracker id for a Jellyfin/Emby WebSocket connection
+ */
+function getWebSocketServiceId(serverId: string): string {
+  return `websocket:${serverId}`;
+}
+
 // Singleton instance
 export const sseManager = new SSEManager();
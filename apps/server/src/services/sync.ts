@@ -6,9 +6,11 @@
  */
 
 import { eq } from 'drizzle-orm';
+import type { ServerType } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { servers } from '../db/schema.js';
 import { createMediaServerClient, PlexClient, type MediaUser } from './mediaServer/index.js';
+import { getMediaServerAdapter } from './mediaServer/registry.js';
 import { syncUserFromMediaServer, type SyncUserOptions } from './userService.js';
 
 export interface SyncResult {
@@ -118,16 +120,16 @@ async function syncPlexUsers(
 }
 
 /**
- * Sync users from Jellyfin or Emby server to local database
- * Both use the same IMediaServerClient interface via createMediaServerClient
+ * Sync users from a Jellyfin, Emby or Subsonic server to local database
+ * All use the same IMediaServerClient interface via createMediaServerClient
  */
 async function syncMediaServerUsers(
   serverId: string,
-  serverType: 'jellyfin' | 'emby',
+  serverType: Exclude<ServerType, 'plex'>,
   serverUrl: string,
   token: string
 ): Promise<{ added: number; updated: number; skipped: number; errors: string[] }> {
-  const serverName = serverType.charAt(0).toUpperCase() + serverType.slice(1);
+  const serverName = getMediaServerAdapter(serverType).displayName;
   try {
     const client = createMediaServerClient({
       type: serverType,
@@ -182,7 +184,7 @@ export async function syncServer(
       result.usersUpdated = userResult.updated;
       result.usersSkipped = userResult.skipped;
       result.errors.push(...userResult.errors);
-    } else if (server.type === 'jellyfin' || server.type === 'emby') {
+    } else if (getMediaServerAdapter(server.type).capabilities.users) {
       const userResult = await syncMediaServerUsers(serverId, server.type, serverUrl, server.token);
       result.usersAdded = userResult.added;
       result.usersUpdated = userResult.updated;
@@ -0,0 +1,152 @@
+/**
+ * Trust Score Service
+ *
+ * Every change to a server user's trust score goes through applyTrustScoreChange,
+ * which locks the row, clamps the new score and records it in trust_score_history.
+ * Notifications are sent separately (after the caller's transaction commits).
+ */
+
+import { eq } from 'drizzle-orm';
+import type { TrustScoreChangeSource } from '@tracearr/shared';
+import type { db } from '../db/client.js';
+import { serverUsers, trustScoreHistory } from '../db/schema.js';
+
+// Transactions expose the same query builders as db
+type TrustScoreExecutor = Pick<typeof db, 'select' | 'update' | 'insert'>;
+
+/** Relative or absolute change; `max` caps a relative increase below 100 */
+export type TrustScoreUpdate = { delta: number; max?: number } | { score: number };
+
+export interface TrustScoreChangeOptions {
+  source: TrustScoreChangeSource;
+  reason: string | null;
+  /** User who made a manual change */
+  changedByUserId?: string | null;
+}
+
+export interface TrustScoreChange {
+  serverUserId: string;
+  serverId: string;
+  username: string;
+  previousScore: number;
+  newScore: number;
+  source: TrustScoreChangeSource;
+  reason: string | null;
+}
+
+export interface TrustRecoveryPolicy {
+  enabled: boolean;
+  /** Points restored per clean interval */
+  points: number;
+  /** Days without violations (and without recovery) before the next recovery */
+  intervalDays: number;
+  /** Users below this score are left for manual review */
+  floor: number;
+  /** Recovery never raises a score above this */
+  cap: number;
+}
+
+/**
+ * Clamp a trust score to the valid 0-100 range
+ */
+export function clampTrustScore(score: number): number {
+  return Math.min(100, Math.max(0, Math.round(score)));
+}
+
+/**
+ * Resolve the new score for an update
+ */
+export function resolveTrustScore(current: number, update: TrustScoreUpdate): number {
+  if ('score' in update) {
+    return clampTrustScore(update.score);
+  }
+  let next = current + update.delta;
+  if (update.max !== undefined && update.delta > 0) {
+    // A cap only limits increases; it never lowers a score that is already above it
+    next = Math.min(next, Math.max(current, update.max));
+  }
+  return clampTrustScore(next);
+}
+
+/**
+ * Score a user recovers to under the policy, or null if they do not recover
+ */
+export function getRecoveredScore(current: number, policy: TrustRecoveryPolicy): number | null {
+  if (!policy.enabled || current < policy.floor || current >= policy.cap) {
+    return null;
+  }
+  return Math.min(policy.cap, current + policy.points);
+}
+
+/**
+ * Change a server user's trust score and record it in the history.
+ * Returns null when the user does not exist or the score does not change.
+ */
+export async function applyTrustScoreChange(
+  executor: TrustScoreExecutor,
+  serverUserId: string,
+  update: TrustScoreUpdate,
+  options: TrustScoreChangeOptions
+): Promise<TrustScoreChange | null> {
+  const [current] = await executor
+    .select({
+      trustScore: serverUsers.trustScore,
+      serverId: serverUsers.serverId,
+      username: serverUsers.username,
+    })
+    .from(serverUsers)
+    .where(eq(serverUsers.id, serverUserId))
+    .for('update')
+    .limit(1);
+
+  if (!current) return null;
+
+  const newScore = resolveTrustScore(current.trustScore, update);
+  if (newScore === current.trustScore) return null;
+
+  await executor
+    .update(serverUsers)
+    .set({ trustScore: newScore, updatedAt: new Date() })
+    .where(eq(serverUsers.id, serverUserId));
+
+  await executor.insert(trustScoreHistory).values({
+    serverUserId,
+    previousScore: current.trustScore,
+    newScore,
+    source: options.source,
+    reason: options.reason,
+    changedByUserId: options.changedByUserId ?? null,
+  });
+
+  return {
+    serverUserId,
+    serverId: current.serverId,
+    username: current.username,
+    previousScore: current.trustScore,
+    newScore,
+    source: options.source,
+    reason: options.reason,
+  };
+}
+
+/**
+ * Send the trust_score_changed notification for a recorded change
+ */
+export async function notifyTrustScoreChange(change: TrustScoreChange | null): Promise<void> {
+  if (!change) return;
+
+  // Dynamic import to avoid circular dependencies
+  const { enqueueNotification } = await import('../jobs/notificationQueue.js');
+
+  await enqueueNotification({
+    type: 'trust_score_changed',
+    payload: {
+      serverUserId: change.serverUserId,
+      serverId: change.serverId,
+      userName: change.username,
+      previousScore: change.previousScore,
+      newScore: change.newScore,
+      reason: change.reason,
+    },
+  });
+}
@@ -194,6 +194,7 @@ export async function updateUser(
     thumbnail: string | null;
     passwordHash: string | null;
     plexAccountId: string | null;
+    role: UserRole;
   }>
 ): Promise<User> {
   const rows = await db
@@ -0,0 +1,66 @@
+/**
+ * Violation Service
+ *
+ * Acknowledgement shared by the dashboard and public API routes. Callers look
+ * the violation up, check access to its server, then acknowledge it.
+ */
+
+import type { FastifyRequest } from 'fastify';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { serverUsers, violations } from '../db/schema.js';
+import { recordAudit } from './auditLog.js';
+
+export interface ViolationAckTarget {
+  id: string;
+  acknowledgedAt: Date | null;
+  serverId: string;
+  username: string;
+}
+
+/**
+ * Look up a violation with the server and user it belongs to
+ */
+export async function getViolationAckTarget(id: string): Promise<ViolationAckTarget | null> {
+  const [violation] = await db
+    .select({
+      id: violations.id,
+      acknowledgedAt: violations.acknowledgedAt,
+      serverId: serverUsers.serverId,
+      username: serverUsers.username,
+    })
+    .from(violations)
+    .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
+    .where(eq(violations.id, id))
+    .limit(1);
+
+  return violation ?? null;
+}
+
+/**
+ * Acknowledge a violation and record it in the audit log.
+ * Returns the new acknowledgement time, or null if the update failed.
+ */
+export async function acknowledgeViolation(
+  request: FastifyRequest,
+  violation: ViolationAckTarget
+): Promise<Date | null> {
+  const [updated] = await db
+    .update(violations)
+    .set({ acknowledgedAt: new Date() })
+    .where(eq(violations.id, violation.id))
+    .returning({ acknowledgedAt: violations.acknowledgedAt });
+
+  if (!updated) return null;
+
+  await recordAudit(request, {
+    action: 'violation.acknowledge',
+    targetType: 'violation',
+    targetId: violation.id,
+    targetLabel: violation.username,
+    before: { acknowledgedAt: violation.acknowledgedAt },
+    after: { acknowledgedAt: updated.acknowledgedAt },
+  });
+
+  return updated.acknowledgedAt;
+}
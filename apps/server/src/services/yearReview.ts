@@ -0,0 +1,503 @@
+/**
+ * Year in Review
+ *
+ * Builds a per-server-user summary of one calendar year (hours, top shows,
+ * movies and artists, streaks, favorite hour/day, devices, first and last
+ * play) and stores it so share pages don't hit the sessions hypertable.
+ *
+ * Top shows and movies come from the daily_content_engagement continuous
+ * aggregate (plays of at least 2 minutes); everything else from raw sessions.
+ * Music isn't part of that aggregate, so artists are read from sessions too.
+ *
+ * Share links carry an HMAC-signed token instead of a stored secret. Users who
+ * opt out are skipped by generation and their links stop resolving.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { and, asc, desc, eq, sql, type SQL } from 'drizzle-orm';
+import {
+  SESSION_LIMITS,
+  YEAR_REVIEW_TOP_LIMIT,
+  type AuthUser,
+  type MediaType,
+  type SharedYearReview,
+  type YearReviewPlay,
+  type YearReviewStats,
+  type YearReviewTopItem,
+  type YearReviewUserSummary,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { serverUsers, servers, users, yearReviews } from '../db/schema.js';
+import { buildServerFilterCondition } from '../utils/serverFiltering.js';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Movies, episodes and music count towards the review; live TV and extras don't
+const REVIEW_MEDIA_TYPES_SQL = sql.raw(`AND media_type IN ('movie', 'episode', 'track')`);
+
+// Keeps share tokens from being valid for any other HMAC use of the secret
+const SHARE_TOKEN_CONTEXT = 'tracearr:year-review';
+
+function toHours(ms: number | string): number {
+  return Math.round((Number(ms) / MS_PER_HOUR) * 10) / 10;
+}
+
+/**
+ * Sessions started within the year in the given timezone
+ */
+function yearRangeFilter(year: number, timezone: string, column = 'started_at'): SQL {
+  const col = sql.raw(column);
+  return sql`${col} >= make_timestamptz(${year}, 1, 1, 0, 0, 0, ${timezone})
+    AND ${col} < make_timestamptz(${year + 1}, 1, 1, 0, 0, 0, ${timezone})`;
+}
+
+/**
+ * Year to review by default: the current year once December starts, else the previous one
+ */
+export function getDefaultReviewYear(now: Date = new Date()): number {
+  return now.getMonth() === 11 ? now.getFullYear() : now.getFullYear() - 1;
+}
+
+/**
+ * Longest run of consecutive days, from sorted YYYY-MM-DD strings
+ */
+export function getLongestStreak(days: string[]): YearReviewStats['longestStreak'] {
+  let best: YearReviewStats['longestStreak'] = null;
+  let runStart = '';
+  let runLength = 0;
+  let previous: string | null = null;
+
+  for (const day of days) {
+    const isConsecutive =
+      previous !== null && Date.parse(day) - Date.parse(previous) === 24 * MS_PER_HOUR;
+    if (isConsecutive) {
+      runLength++;
+    } else {
+      runStart = day;
+      runLength = 1;
+    }
+
+    if (!best || runLength > best.days) {
+      best = { days: runLength, start: runStart, end: day };
+    }
+    previous = day;
+  }
+
+  return best;
+}
+
+/**
+ * Index of the largest value, or null when every value is zero
+ */
+function getPeakIndex(values: number[]): number | null {
+  const max = Math.max(...values);
+  return max > 0 ? values.indexOf(max) : null;
+}
+
+function toTopItems(rows: Record<string, unknown>[]): YearReviewTopItem[] {
+  return (
+    rows as { title: string; year: number | null; plays: number; watch_time_ms: string }[]
+  ).map((r) => ({
+    title: r.title,
+    year: r.year,
+    plays: r.plays,
+    hours: toHours(r.watch_time_ms),
+  }));
+}
+
+function toPlay(row: Record<string, unknown> | undefined): YearReviewPlay | null {
+  if (!row) return null;
+  const r = row as {
+    media_title: string;
+    grandparent_title: string | null;
+    artist_name: string | null;
+    media_type: MediaType;
+    started_at: Date | string;
+  };
+  const parent = r.media_type === 'track' ? r.artist_name : r.grandparent_title;
+  return {
+    title: parent ? `${parent} - ${r.media_title}` : r.media_title,
+    mediaType: r.media_type,
+    at: new Date(r.started_at).toISOString(),
+  };
+}
+
+/**
+ * Build the review for one server user. Returns stats with zero plays when
+ * the user didn't watch anything that year.
+ */
+export async function buildYearReviewStats(
+  serverUserId: string,
+  year: number,
+  timezone = 'UTC'
+): Promise<YearReviewStats> {
+  const inYear = sql`server_user_id = ${serverUserId} AND ${yearRangeFilter(year, timezone)}`;
+  const localTime = sql`(started_at AT TIME ZONE ${timezone})`;
+  const validPlay = sql`duration_ms >= ${SESSION_LIMITS.MIN_PLAY_TIME_MS}`;
+
+  const [
+    totalsResult,
+    showsResult,
+    moviesResult,
+    artistsResult,
+    daysResult,
+    bingeResult,
+    patternResult,
+    devicesResult,
+    firstLastResult,
+  ] = await Promise.all([
+    db.execute(sql`
+      SELECT
+        COUNT(DISTINCT COALESCE(reference_id, id)) FILTER (WHERE ${validPlay})::int AS plays,
+        COALESCE(SUM(duration_ms), 0)::bigint AS watch_time_ms
+      FROM sessions
+      WHERE ${inYear}
+      ${REVIEW_MEDIA_TYPES_SQL}
+    `),
+    db.execute(sql`
+      SELECT
+        show_title AS title,
+        NULL::int AS year,
+        SUM(valid_session_count)::int AS plays,
+        SUM(watched_ms)::bigint AS watch_time_ms
+      FROM daily_content_engagement
+      WHERE server_user_id = ${serverUserId}
+        AND ${yearRangeFilter(year, timezone, 'day')}
+        AND media_type = 'episode'
+        AND show_title IS NOT NULL
+      GROUP BY show_title
+      ORDER BY watch_time_ms DESC
+      LIMIT ${YEAR_REVIEW_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      SELECT
+        media_title AS title,
+        MAX(year) AS year,
+        SUM(valid_session_count)::int AS plays,
+        SUM(watched_ms)::bigint AS watch_time_ms
+      FROM daily_content_engagement
+      WHERE server_user_id = ${serverUserId}
+        AND ${yearRangeFilter(year, timezone, 'day')}
+        AND media_type = 'movie'
+      GROUP BY media_title
+      ORDER BY watch_time_ms DESC
+      LIMIT ${YEAR_REVIEW_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      SELECT
+        COALESCE(artist_name, grandparent_title) AS title,
+        NULL::int AS year,
+        COUNT(*) FILTER (WHERE ${validPlay})::int AS plays,
+        COALESCE(SUM(duration_ms), 0)::bigint AS watch_time_ms
+      FROM sessions
+      WHERE ${inYear}
+        AND media_type = 'track'
+        AND COALESCE(artist_name, grandparent_title) IS NOT NULL
+      GROUP BY 1
+      ORDER BY watch_time_ms DESC
+      LIMIT ${YEAR_REVIEW_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      SELECT DISTINCT ${localTime}::date::text AS day
+      FROM sessions
+      WHERE ${inYear}
+      ${REVIEW_MEDIA_TYPES_SQL}
+      ORDER BY day
+    `),
+    db.execute(sql`
+      SELECT
+        grandparent_title AS show,
+        ${localTime}::date::text AS day,
+        COUNT(DISTINCT rating_key)::int AS episodes
+      FROM sessions
+      WHERE ${inYear}
+        AND media_type = 'episode'
+        AND grandparent_title IS NOT NULL
+        AND ${validPlay}
+      GROUP BY 1, 2
+      ORDER BY episodes DESC, day
+      LIMIT 1
+    `),
+    db.execute(sql`
+      SELECT
+        EXTRACT(DOW FROM ${localTime})::int AS dow,
+        EXTRACT(HOUR FROM ${localTime})::int AS hour,
+        COUNT(DISTINCT COALESCE(reference_id, id))::int AS plays
+      FROM sessions
+      WHERE ${inYear}
+      ${REVIEW_MEDIA_TYPES_SQL}
+      GROUP BY 1, 2
+    `),
+    db.execute(sql`
+      SELECT
+        COALESCE(device, player_name, product, 'Unknown') AS name,
+        platform,
+        COUNT(DISTINCT COALESCE(reference_id, id))::int AS plays
+      FROM sessions
+      WHERE ${inYear}
+      ${REVIEW_MEDIA_TYPES_SQL}
+      GROUP BY 1, 2
+      ORDER BY plays DESC
+      LIMIT ${YEAR_REVIEW_TOP_LIMIT}
+    `),
+    db.execute(sql`
+      (SELECT 'first' AS position, media_title, grandparent_title, artist_name, media_type, started_at
+        FROM sessions WHERE ${inYear} ${REVIEW_MEDIA_TYPES_SQL} ORDER BY started_at ASC LIMIT 1)
+      UNION ALL
+      (SELECT 'last' AS position, media_title, grandparent_title, artist_name, media_type, started_at
+        FROM sessions WHERE ${inYear} ${REVIEW_MEDIA_TYPES_SQL} ORDER BY started_at DESC LIMIT 1)
+    `),
+  ]);
+
+  const totals = totalsResult.rows[0] as { plays: number; watch_time_ms: string } | undefined;
+  const days = (daysResult.rows as { day: string }[]).map((r) => r.day);
+
+  const playsByHour = new Array<number>(24).fill(0);
+  const playsByDay = new Array<number>(7).fill(0);
+  for (const row of patternResult.rows as { dow: number; hour: number; plays: number }[]) {
+    playsByHour[row.hour] = (playsByHour[row.hour] ?? 0) + row.plays;
+    playsByDay[row.dow] = (playsByDay[row.dow] ?? 0) + row.plays;
+  }
+
+  const binge = bingeResult.rows[0] as { show: string; day: string; episodes: number } | undefined;
+  const firstLast = firstLastResult.rows as { position: 'first' | 'last' }[];
+
+  return {
+    year,
+    timezone,
+    totalHours: toHours(totals?.watch_time_ms ?? 0),
+    totalPlays: totals?.plays ?? 0,
+    activeDays: days.length,
+    topShows: toTopItems(showsResult.rows),
+    topMovies: toTopItems(moviesResult.rows),
+    topArtists: toTopItems(artistsResult.rows),
+    longestStreak: getLongestStreak(days),
+    // A single episode isn't a binge
+    biggestBinge:
+      binge && binge.episodes > 1
+        ? { show: binge.show, episodes: binge.episodes, date: binge.day }
+        : null,
+    favoriteHour: getPeakIndex(playsByHour),
+    favoriteDay: getPeakIndex(playsByDay),
+    playsByHour,
+    playsByDay,
+    devices: devicesResult.rows as { name: string; platform: string | null; plays: number }[],
+    firstPlay: toPlay(firstLast.find((r) => r.position === 'first')),
+    lastPlay: toPlay(firstLast.find((r) => r.position === 'last')),
+  };
+}
+
+/**
+ * Generate and store reviews for every server user with plays that year,
+ * skipping users who opted out
+ */
+export async function generateYearReviews(
+  year: number,
+  timezone = 'UTC',
+  onProgress?: (processed: number, total: number) => Promise<void>
+): Promise<{ total: number; generated: number; errors: number }> {
+  const result = await db.execute(sql`
+    SELECT su.id
+    FROM server_users su
+    WHERE su.year_review_opt_out = false
+      AND EXISTS (
+        SELECT 1 FROM sessions
+        WHERE server_user_id = su.id
+          AND ${yearRangeFilter(year, timezone)}
+          ${REVIEW_MEDIA_TYPES_SQL}
+      )
+  `);
+  const serverUserIds = (result.rows as { id: string }[]).map((r) => r.id);
+
+  let generated = 0;
+  let errors = 0;
+
+  for (const [index, serverUserId] of serverUserIds.entries()) {
+    try {
+      const stats = await buildYearReviewStats(serverUserId, year, timezone);
+      if (stats.totalPlays > 0) {
+        await db
+          .insert(yearReviews)
+          .values({ serverUserId, year, stats })
+          .onConflictDoUpdate({
+            target: [yearReviews.serverUserId, yearReviews.year],
+            set: { stats, generatedAt: new Date() },
+          });
+        generated++;
+      }
+    } catch (error) {
+      console.error(`[YearReview] Failed to generate ${year} review for ${serverUserId}:`, error);
+      errors++;
+    }
+
+    await onProgress?.(index + 1, serverUserIds.length);
+  }
+
+  return { total: serverUserIds.length, generated, errors };
+}
+
+function signShareToken(payload: string): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return createHmac('sha256', secret)
+    .update(`${SHARE_TOKEN_CONTEXT}:${payload}`)
+    .digest('base64url');
+}
+
+/**
+ * Signed token for a user's read-only review page
+ */
+export function createYearReviewShareToken(serverUserId: string, year: number): string {
+  const payload = Buffer.from(`${serverUserId}:${year}`).toString('base64url');
+  return `${payload}.${signShareToken(payload)}`;
+}
+
+/**
+ * Decode a share token, or null when it is malformed or the signature doesn't match
+ */
+export function verifyYearReviewShareToken(
+  token: string
+): { serverUserId: string; year: number } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(signShareToken(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [serverUserId, yearText] = Buffer.from(payload, 'base64url').toString('utf8').split(':');
+  const year = Number(yearText);
+  if (!serverUserId || !Number.isInteger(year)) {
+    return null;
+  }
+  return { serverUserId, year };
+}
+
+/**
+ * Review for a share token (null when the token is invalid, the review doesn't
+ * exist or the user has opted out)
+ */
+export async function getSharedYearReview(token: string): Promise<SharedYearReview | null> {
+  const decoded = verifyYearReviewShareToken(token);
+  if (!decoded) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({
+      username: serverUsers.username,
+      identityName: users.name,
+      serverName: servers.name,
+      stats: yearReviews.stats,
+      generatedAt: yearReviews.generatedAt,
+    })
+    .from(yearReviews)
+    .innerJoin(serverUsers, eq(serverUsers.id, yearReviews.serverUserId))
+    .innerJoin(users, eq(users.id, serverUsers.userId))
+    .innerJoin(servers, eq(servers.id, serverUsers.serverId))
+    .where(
+      and(
+        eq(yearReviews.serverUserId, decoded.serverUserId),
+        eq(yearReviews.year, decoded.year),
+        eq(serverUsers.yearReviewOptOut, false)
+      )
+    )
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  return { ...row, generatedAt: row.generatedAt.toISOString() };
+}
+
+/**
+ * Server users visible to the caller with their review status for a year
+ */
+export async function listYearReviewUsers(
+  authUser: AuthUser,
+  year: number,
+  serverId?: string
+): Promise<{ data: YearReviewUserSummary[]; error: string | null }> {
+  const { condition, error } = buildServerFilterCondition(authUser, serverId, serverUsers.serverId);
+  if (error) {
+    return { data: [], error };
+  }
+
+  const rows = await db
+    .select({
+      serverUserId: serverUsers.id,
+      username: serverUsers.username,
+      identityName: users.name,
+      thumbUrl: serverUsers.thumbUrl,
+      serverId: serverUsers.serverId,
+      serverName: servers.name,
+      optOut: serverUsers.yearReviewOptOut,
+      stats: yearReviews.stats,
+      generatedAt: yearReviews.generatedAt,
+    })
+    .from(serverUsers)
+    .innerJoin(users, eq(users.id, serverUsers.userId))
+    .innerJoin(servers, eq(servers.id, serverUsers.serverId))
+    .leftJoin(
+      yearReviews,
+      and(eq(yearReviews.serverUserId, serverUsers.id), eq(yearReviews.year, year))
+    )
+    .where(condition)
+    .orderBy(
+      desc(sql`(${yearReviews.stats}->>'totalHours')::numeric NULLS LAST`),
+      asc(serverUsers.username)
+    );
+
+  return {
+    data: rows.map((row) => {
+      const review =
+        row.stats && row.generatedAt && !row.optOut
+          ? {
+              totalHours: row.stats.totalHours,
+              totalPlays: row.stats.totalPlays,
+              generatedAt: row.generatedAt.toISOString(),
+            }
+          : null;
+      return {
+        serverUserId: row.serverUserId,
+        username: row.username,
+        identityName: row.identityName,
+        thumbUrl: row.thumbUrl,
+        serverId: row.serverId,
+        serverName: row.serverName,
+        optOut: row.optOut,
+        review,
+        shareToken: review ? createYearReviewShareToken(row.serverUserId, year) : null,
+      };
+    }),
+    error: null,
+  };
+}
+
+/**
+ * Set a user's opt-out. Opting out deletes their stored reviews.
+ * Returns false when the server user doesn't exist.
+ */
+export async function setYearReviewOptOut(serverUserId: string, optOut: boolean): Promise<boolean> {
+  const updated = await db
+    .update(serverUsers)
+    .set({ yearReviewOptOut: optOut, updatedAt: new Date() })
+    .where(eq(serverUsers.id, serverUserId))
+    .returning({ id: serverUsers.id });
+
+  if (updated.length === 0) {
+    return false;
+  }
+
+  if (optOut) {
+    await db.delete(yearReviews).where(eq(yearReviews.serverUserId, serverUserId));
+  }
+  return true;
+}
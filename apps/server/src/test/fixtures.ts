@@ -26,6 +26,7 @@ import type {
   SourceAudioDetails,
   TranscodeInfo,
   SubtitleInfo,
+  DigestReport,
 } from '@tracearr/shared';
 import { RULE_DEFAULTS, DEFAULT_STREAM_DETAILS } from '@tracearr/shared';
 import { randomUUID } from 'node:crypto';
@@ -50,6 +51,8 @@ export function createMockSession(overrides: Partial<Session> = {}): Session {
     seasonNumber: null,
     episodeNumber: null,
     year: 2024,
+    contentRating: null,
+    genres: null,
     thumbPath: null,
     ratingKey: null,
     externalSessionId: null,
@@ -120,6 +123,8 @@ export function createMockActiveSession(overrides: Partial<ActiveSession> = {}):
     seasonNumber: overrides.seasonNumber ?? null,
     episodeNumber: overrides.episodeNumber ?? null,
     year: overrides.year ?? 2024,
+    contentRating: overrides.contentRating ?? null,
+    genres: overrides.genres ?? null,
     thumbPath: overrides.thumbPath ?? '/library/metadata/123/thumb',
     ratingKey: overrides.ratingKey ?? 'media-123',
     externalSessionId: overrides.externalSessionId ?? null,
@@ -512,6 +517,42 @@ export function createMockViolation(overrides: Partial<Violation> = {}): Violati
   };
 }
 
+/**
+ * Create a mock weekly usage digest (Mar 4 - Mar 10, 2024)
+ */
+export function createMockDigestReport(overrides: Partial<DigestReport> = {}): DigestReport {
+  return {
+    period: 'weekly',
+    start: new Date(2024, 2, 4).toISOString(),
+    end: new Date(2024, 2, 11).toISOString(),
+    serverNames: ['Home Plex'],
+    totals: { plays: 42, watchTimeHours: 31.5, activeUsers: 8, playsChangePercent: 12 },
+    transcode: { directPlay: 30, transcode: 10, transcodePercent: 25 },
+    bandwidth: { totalGb: 12.34, avgBitrateMbps: 8.2, peakBitrateMbps: 25.1 },
+    violations: {
+      total: 5,
+      bySeverity: { low: 2, warning: 2, high: 1 },
+      topRules: [{ name: 'Max 2 Streams', count: 3 }],
+    },
+    topUsers: [{ username: 'alice', identityName: 'Alice', playCount: 10, watchTimeHours: 12.5 }],
+    topMovies: [{ title: 'Heat', year: 1995, playCount: 4, watchTimeHours: 6.8 }],
+    topShows: [{ title: 'The Office', year: 2005, playCount: 12, watchTimeHours: 4.2 }],
+    newDevices: [
+      {
+        username: 'bob',
+        deviceName: 'iPhone',
+        platform: 'iOS',
+        location: 'Berlin, Germany',
+        firstSeenAt: new Date(2024, 2, 6).toISOString(),
+      },
+    ],
+    newDeviceCount: 1,
+    libraryGrowth: { movies: 3, episodes: 20, music: 0 },
+    generatedAt: new Date(2024, 2, 11, 8).toISOString(),
+    ...overrides,
+  };
+}
+
 /**
  * Create a mock auth user for request authentication
  */
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for delimited text parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, parseDelimited } from '../csv.js';
+
+describe('detectDelimiter', () => {
+  it('prefers tabs when present', () => {
+    expect(detectDelimiter('2024-01-01\tuser\tMovie, The')).toBe('\t');
+  });
+
+  it('picks the more frequent of comma and semicolon', () => {
+    expect(detectDelimiter('a,b,c')).toBe(',');
+    expect(detectDelimiter('a;b;c,d')).toBe(';');
+  });
+
+  it('defaults to comma for single-column input', () => {
+    expect(detectDelimiter('title')).toBe(',');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('splits rows and fields', () => {
+    expect(parseDelimited('a,b\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('handles quoted fields with delimiters, escaped quotes and newlines', () => {
+    const text = 'title,notes\n"Lock, Stock","He said ""hi""\nthen left"';
+    expect(parseDelimited(text)).toEqual([
+      ['title', 'notes'],
+      ['Lock, Stock', 'He said "hi"\nthen left'],
+    ]);
+  });
+
+  it('handles CRLF line endings and a byte order mark', () => {
+    expect(parseDelimited('\ufeffa,b\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('skips blank lines but keeps empty fields', () => {
+    expect(parseDelimited('a,,c\n\n1,2,')).toEqual([
+      ['a', '', 'c'],
+      ['1', '2', ''],
+    ]);
+  });
+
+  it('uses an explicit delimiter', () => {
+    expect(parseDelimited('a\tb, c', '\t')).toEqual([['a', 'b, c']]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseDelimited('')).toEqual([]);
+  });
+});
@@ -77,6 +77,7 @@ describe('ErrorCodes', () => {
     expect(ErrorCodes.PLEX_ERROR).toBe('EXT_001');
     expect(ErrorCodes.JELLYFIN_ERROR).toBe('EXT_002');
     expect(ErrorCodes.GEOIP_ERROR).toBe('EXT_003');
+    expect(ErrorCodes.SUBSONIC_ERROR).toBe('EXT_005');
   });
 });
 
@@ -423,6 +424,14 @@ describe('ExternalServiceError', () => {
     expect(error.message).toBe('Emby error: Invalid API key');
   });
 
+  it('should use SUBSONIC_ERROR code for subsonic service', () => {
+    const error = new ExternalServiceError('subsonic', 'Wrong username or password');
+
+    expect(error.statusCode).toBe(502);
+    expect(error.code).toBe(ErrorCodes.SUBSONIC_ERROR);
+    expect(error.message).toBe('Subsonic error: Wrong username or password');
+  });
+
   it('should capitalize service name in message', () => {
     const plexError = new ExternalServiceError('plex', 'test');
     const jellyfinError = new ExternalServiceError('jellyfin', 'test');
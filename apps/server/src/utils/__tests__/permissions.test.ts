@@ -0,0 +1,271 @@
+/**
+ * Permission model and preHandler tests
+ *
+ * Covers role permissions, server-scoped grants, the requirePermission
+ * preHandler used by routes and public API key scopes.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import {
+  hasPermission,
+  hasPermissionOnAnyServer,
+  getServerRole,
+  type ApiKeyScope,
+  type AuthUser,
+  type PermissionSubject,
+} from '@tracearr/shared';
+import type { PublicApiContext } from '../../plugins/auth.js';
+import {
+  getApiKeyServerId,
+  getRequestServerId,
+  requireApiScope,
+  requirePermission,
+} from '../permissions.js';
+
+const SERVER_A = '11111111-1111-4111-8111-111111111111';
+const SERVER_B = '22222222-2222-4222-8222-222222222222';
+
+function subject(
+  role: PermissionSubject['role'],
+  serverRoles?: PermissionSubject['serverRoles']
+): PermissionSubject {
+  return {
+    role,
+    serverIds: serverRoles ? Object.keys(serverRoles) : [SERVER_A, SERVER_B],
+    serverRoles,
+  };
+}
+
+describe('hasPermission', () => {
+  it('grants everything to the owner', () => {
+    const owner = subject('owner');
+
+    expect(hasPermission(owner, 'debug:run')).toBe(true);
+    expect(hasPermission(owner, 'rules:write', SERVER_A)).toBe(true);
+  });
+
+  it('lets admins manage settings but not servers', () => {
+    const admin = subject('admin');
+
+    expect(hasPermission(admin, 'settings:write')).toBe(true);
+    expect(hasPermission(admin, 'rules:write', SERVER_B)).toBe(true);
+    expect(hasPermission(admin, 'servers:manage')).toBe(false);
+    expect(hasPermission(admin, 'backup:manage')).toBe(false);
+  });
+
+  it('limits moderators to violation triage and terminating streams', () => {
+    const moderator = subject('moderator');
+
+    expect(hasPermission(moderator, 'violations:ack', SERVER_A)).toBe(true);
+    expect(hasPermission(moderator, 'sessions:terminate', SERVER_A)).toBe(true);
+    expect(hasPermission(moderator, 'rules:write', SERVER_A)).toBe(false);
+    expect(hasPermission(moderator, 'settings:write')).toBe(false);
+  });
+
+  it('denies viewers every permission', () => {
+    const viewer = subject('viewer');
+
+    expect(hasPermission(viewer, 'violations:ack', SERVER_A)).toBe(false);
+    expect(hasPermissionOnAnyServer(viewer, 'sessions:terminate')).toBe(false);
+  });
+
+  describe('server grants', () => {
+    const scopedAdmin = subject('admin', { [SERVER_A]: 'admin' });
+
+    it('applies scoped permissions only to granted servers', () => {
+      expect(hasPermission(scopedAdmin, 'rules:write', SERVER_A)).toBe(true);
+      expect(hasPermission(scopedAdmin, 'rules:write', SERVER_B)).toBe(false);
+    });
+
+    it('requires a server for scoped permissions', () => {
+      expect(hasPermission(scopedAdmin, 'rules:write')).toBe(false);
+      expect(hasPermissionOnAnyServer(scopedAdmin, 'rules:write')).toBe(true);
+    });
+
+    it('keeps account-level permissions from the account role', () => {
+      expect(hasPermission(scopedAdmin, 'settings:write')).toBe(true);
+    });
+
+    it('uses the granted role on each server', () => {
+      const mixed = subject('admin', { [SERVER_A]: 'admin', [SERVER_B]: 'moderator' });
+
+      expect(getServerRole(mixed, SERVER_B)).toBe('moderator');
+      expect(hasPermission(mixed, 'violations:ack', SERVER_B)).toBe(true);
+      expect(hasPermission(mixed, 'rules:write', SERVER_B)).toBe(false);
+    });
+
+    it('returns no role for servers without access', () => {
+      expect(getServerRole(scopedAdmin, SERVER_B)).toBeNull();
+    });
+  });
+});
+
+describe('requirePermission', () => {
+  let app: FastifyInstance;
+
+  async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+    const instance = Fastify({ logger: false });
+    await instance.register(sensible);
+    instance.decorate('authenticate', async (request: any) => {
+      request.user = authUser;
+    });
+
+    const preHandler = [instance.authenticate, requirePermission('rules:write')];
+    instance.post('/rules', { preHandler }, async () => ({ ok: true }));
+    instance.get('/servers/:serverId/rules', { preHandler }, async () => ({ ok: true }));
+
+    await instance.ready();
+    return instance;
+  }
+
+  function createUser(role: AuthUser['role'], serverRoles?: AuthUser['serverRoles']): AuthUser {
+    return {
+      userId: '33333333-3333-4333-8333-333333333333',
+      username: 'test',
+      role,
+      serverIds: serverRoles ? Object.keys(serverRoles) : [SERVER_A, SERVER_B],
+      serverRoles,
+    };
+  }
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('allows users with the permission', async () => {
+    app = await buildTestApp(createUser('admin'));
+
+    const response = await app.inject({ method: 'POST', url: '/rules', payload: {} });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('rejects users without the permission', async () => {
+    app = await buildTestApp(createUser('moderator'));
+
+    const response = await app.inject({ method: 'POST', url: '/rules', payload: {} });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().message).toContain('rules:write');
+  });
+
+  it('checks the server named in the body', async () => {
+    app = await buildTestApp(createUser('admin', { [SERVER_A]: 'admin' }));
+
+    const allowed = await app.inject({
+      method: 'POST',
+      url: '/rules',
+      payload: { serverId: SERVER_A },
+    });
+    const denied = await app.inject({
+      method: 'POST',
+      url: '/rules',
+      payload: { serverId: SERVER_B },
+    });
+
+    expect(allowed.statusCode).toBe(200);
+    expect(denied.statusCode).toBe(403);
+  });
+
+  it('checks the server named in the params', async () => {
+    app = await buildTestApp(createUser('admin', { [SERVER_A]: 'admin' }));
+
+    const response = await app.inject({ method: 'GET', url: `/servers/${SERVER_B}/rules` });
+
+    expect(response.statusCode).toBe(403);
+  });
+});
+
+describe('requireApiScope', () => {
+  let app: FastifyInstance;
+
+  async function buildTestApp(
+    scopes: ApiKeyScope[],
+    serverId: string | null = null
+  ): Promise<FastifyInstance> {
+    const instance = Fastify({ logger: false });
+    await instance.register(sensible);
+    instance.decorate('authenticatePublicApi', async (request: any) => {
+      const context: PublicApiContext = {
+        userId: '33333333-3333-4333-8333-333333333333',
+        username: 'owner',
+        keyId: '44444444-4444-4444-8444-444444444444',
+        keyName: 'Homarr',
+        scopes,
+        serverId,
+      };
+      request.publicApiContext = context;
+    });
+
+    const preHandler = [instance.authenticatePublicApi, requireApiScope('streams:read')];
+    instance.get('/streams', { preHandler }, async () => ({ ok: true }));
+
+    await instance.ready();
+    return instance;
+  }
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('allows keys with the scope', async () => {
+    app = await buildTestApp(['stats:read', 'streams:read']);
+
+    const response = await app.inject({ method: 'GET', url: '/streams' });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('rejects keys without the scope', async () => {
+    app = await buildTestApp(['stats:read']);
+
+    const response = await app.inject({ method: 'GET', url: '/streams' });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().message).toContain('streams:read');
+  });
+
+  it('rejects server-limited keys asking for another server', async () => {
+    app = await buildTestApp(['streams:read'], SERVER_A);
+
+    const own = await app.inject({ method: 'GET', url: `/streams?serverId=${SERVER_A}` });
+    const other = await app.inject({ method: 'GET', url: `/streams?serverId=${SERVER_B}` });
+
+    expect(own.statusCode).toBe(200);
+    expect(other.statusCode).toBe(403);
+  });
+});
+
+describe('getApiKeyServerId', () => {
+  it('forces the key server over the requested one', () => {
+    const limited = { publicApiContext: { serverId: SERVER_A } };
+    const unlimited = { publicApiContext: { serverId: null } };
+
+    expect(getApiKeyServerId(limited as never, undefined)).toBe(SERVER_A);
+    expect(getApiKeyServerId(unlimited as never, SERVER_B)).toBe(SERVER_B);
+    expect(getApiKeyServerId(unlimited as never, undefined)).toBe(undefined);
+  });
+});
+
+describe('getRequestServerId', () => {
+  it('prefers params over query and body', () => {
+    const request = {
+      params: { serverId: SERVER_A },
+      query: { serverId: SERVER_B },
+      body: { serverId: SERVER_B },
+    };
+
+    expect(getRequestServerId(request as never)).toBe(SERVER_A);
+  });
+
+  it('ignores empty and non-string values', () => {
+    expect(getRequestServerId({ params: {}, query: { serverId: '' }, body: null } as never)).toBe(
+      undefined
+    );
+    expect(getRequestServerId({ params: {}, query: {}, body: { serverId: 5 } } as never)).toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for linear regression helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getConfidenceLevel, linearRegression } from '../regression.js';
+
+describe('linearRegression', () => {
+  it('fits a perfect line', () => {
+    const result = linearRegression([
+      { x: 0, y: 1 },
+      { x: 1, y: 3 },
+      { x: 2, y: 5 },
+    ]);
+
+    expect(result.slope).toBeCloseTo(2);
+    expect(result.intercept).toBeCloseTo(1);
+    expect(result.r2).toBeCloseTo(1);
+  });
+
+  it('reports a lower r2 for noisy data', () => {
+    const result = linearRegression([
+      { x: 0, y: 1 },
+      { x: 1, y: 4 },
+      { x: 2, y: 2 },
+      { x: 3, y: 5 },
+    ]);
+
+    expect(result.slope).toBeGreaterThan(0);
+    expect(result.r2).toBeLessThan(1);
+  });
+
+  it('returns a flat line for fewer than two points', () => {
+    expect(linearRegression([{ x: 0, y: 7 }])).toEqual({ slope: 0, intercept: 7, r2: 0 });
+    expect(linearRegression([])).toEqual({ slope: 0, intercept: 0, r2: 0 });
+  });
+});
+
+describe('getConfidenceLevel', () => {
+  it('maps r2 to confidence buckets', () => {
+    expect(getConfidenceLevel(0.9)).toBe('high');
+    expect(getConfidenceLevel(0.6)).toBe('medium');
+    expect(getConfidenceLevel(0.2)).toBe('low');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Delimited Text Parsing Utilities
+ *
+ * Minimal RFC 4180-style parser for CSV/TSV files uploaded for import.
+ * Handles quoted fields (including embedded delimiters, quotes, and newlines),
+ * CRLF line endings, and a leading UTF-8 byte order mark.
+ */
+
+/**
+ * Guess the delimiter of a delimited text file from its first line
+ *
+ * Tabs win over commas because tab-separated exports (e.g. Playback Reporting
+ * backups) routinely contain commas inside titles.
+ *
+ * @example
+ * detectDelimiter('a\tb\tc') // '\t'
+ * detectDelimiter('a,b;c') // ','
+ */
+export function detectDelimiter(text: string): ',' | '\t' | ';' {
+  const newline = text.indexOf('\n');
+  const firstLine = newline === -1 ? text : text.slice(0, newline);
+
+  if (firstLine.includes('\t')) return '\t';
+
+  const commas = firstLine.split(',').length - 1;
+  const semicolons = firstLine.split(';').length - 1;
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Parse delimited text into rows of raw string fields
+ *
+ * Blank lines are dropped. Fields are returned untrimmed so callers can decide
+ * whether whitespace is significant.
+ *
+ * @param text - File contents
+ * @param delimiter - Field delimiter (default: detected from the first line)
+ *
+ * @example
+ * parseDelimited('a,"b, c"\n1,2') // [['a', 'b, c'], ['1', '2']]
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines (a single empty field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (input[i + 1] !== '\n') endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
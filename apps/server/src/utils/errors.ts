@@ -5,7 +5,7 @@
 
 import type { FastifyInstance, FastifyError } from 'fastify';
 import type { ZodError } from 'zod';
-import type { ApiError } from '@tracearr/shared';
+import type { ApiError, ServerType } from '@tracearr/shared';
 
 // Error codes for client identification
 export const ErrorCodes = {
@@ -39,6 +39,7 @@ export const ErrorCodes = {
   JELLYFIN_ERROR: 'EXT_002',
   GEOIP_ERROR: 'EXT_003',
   EMBY_ERROR: 'EXT_004',
+  SUBSONIC_ERROR: 'EXT_005',
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -197,14 +198,15 @@ export class ServiceUnavailableError extends AppError {
 }
 
 /**
- * External service error (Plex, Jellyfin, Emby, etc.)
+ * External service error (Plex, Jellyfin, Emby, Subsonic, etc.)
  */
 export class ExternalServiceError extends AppError {
-  constructor(service: 'plex' | 'jellyfin' | 'emby' | 'geoip', message: string) {
+  constructor(service: ServerType | 'geoip', message: string) {
     const codeMap: Record<typeof service, ErrorCode> = {
       plex: ErrorCodes.PLEX_ERROR,
       jellyfin: ErrorCodes.JELLYFIN_ERROR,
       emby: ErrorCodes.EMBY_ERROR,
+      subsonic: ErrorCodes.SUBSONIC_ERROR,
       geoip: ErrorCodes.GEOIP_ERROR,
     };
     const code = codeMap[service];
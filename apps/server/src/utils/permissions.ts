@@ -0,0 +1,91 @@
+/**
+ * Permission enforcement for API routes
+ *
+ * Routes declare what they need with a preHandler after authentication:
+ *
+ * ```ts
+ * app.post('/rules', { preHandler: [app.authenticate, requirePermission('rules:write')] }, ...)
+ * ```
+ *
+ * When the request names a server (serverId in params, query or body) the
+ * permission is checked against the user's role on that server. Otherwise the
+ * request is let through if the permission holds on any server, and handlers
+ * acting on an existing resource check its server with hasPermission().
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import {
+  hasPermission,
+  hasPermissionOnAnyServer,
+  type ApiKeyScope,
+  type Permission,
+} from '@tracearr/shared';
+
+/**
+ * Message returned when a permission check fails
+ */
+export function permissionDeniedMessage(permission: Permission): string {
+  return `You do not have permission to perform this action (${permission})`;
+}
+
+/**
+ * Find the server a request targets, if it names one.
+ */
+export function getRequestServerId(request: FastifyRequest): string | undefined {
+  for (const source of [request.params, request.query, request.body]) {
+    if (source && typeof source === 'object' && 'serverId' in source) {
+      const { serverId } = source as { serverId: unknown };
+      if (typeof serverId === 'string' && serverId.length > 0) {
+        return serverId;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create a preHandler that rejects requests lacking a permission.
+ * Must run after app.authenticate so request.user is populated.
+ */
+export function requirePermission(permission: Permission) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const serverId = getRequestServerId(request);
+    const allowed = serverId
+      ? hasPermission(request.user, permission, serverId)
+      : hasPermissionOnAnyServer(request.user, permission);
+
+    if (!allowed) {
+      return reply.forbidden(permissionDeniedMessage(permission));
+    }
+  };
+}
+
+/**
+ * Create a preHandler that rejects public API keys lacking a scope, or naming
+ * a server other than the one the key is limited to.
+ * Must run after app.authenticatePublicApi.
+ */
+export function requireApiScope(scope: ApiKeyScope) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const context = request.publicApiContext;
+    if (!context?.scopes.includes(scope)) {
+      return reply.forbidden(`API key is missing the ${scope} scope`);
+    }
+
+    const serverId = getRequestServerId(request);
+    if (context.serverId && serverId && serverId !== context.serverId) {
+      return reply.forbidden('API key is limited to another server');
+    }
+  };
+}
+
+/**
+ * Server a public API request is limited to: the key's server if it has one,
+ * otherwise the server the request asked for.
+ */
+export function getApiKeyServerId(
+  request: FastifyRequest,
+  requestedServerId: string | undefined
+): string | undefined {
+  return request.publicApiContext?.serverId ?? requestedServerId;
+}
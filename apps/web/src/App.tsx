@@ -7,10 +7,17 @@ import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { useDocumentTitle } from '@/hooks/useDocumentTitle';
 import { Login } from '@/pages/Login';
 import { PlexCallback } from '@/pages/PlexCallback';
+import { OidcCallback } from '@/pages/OidcCallback';
 import { Setup } from '@/pages/Setup';
 import { Dashboard } from '@/pages/Dashboard';
 import { Map } from '@/pages/Map';
-import { StatsActivity, StatsUsers, StatsDevices, StatsBandwidth } from '@/pages/stats';
+import {
+  StatsActivity,
+  StatsUsers,
+  StatsDevices,
+  StatsBandwidth,
+  StatsYearReview,
+} from '@/pages/stats';
 import { LibraryOverview, LibraryQuality, LibraryStorage, LibraryWatch } from '@/pages/library';
 import { Users } from '@/pages/Users';
 import { UserDetail } from '@/pages/UserDetail';
@@ -22,6 +29,7 @@ import { Settings } from '@/pages/Settings';
 import { Debug } from '@/pages/Debug';
 import { NotFound } from '@/pages/NotFound';
 import { Maintenance } from '@/pages/Maintenance';
+import { YearReviewShared } from '@/pages/YearReviewShared';
 import { useMaintenanceMode } from '@/hooks/useMaintenanceMode';
 
 // Lazy load ApiDocs to avoid loading swagger-ui-react (which uses Node's Buffer) on app startup
@@ -42,7 +50,9 @@ export function App() {
         {/* Public routes */}
         <Route path="/login" element={<Login />} />
         <Route path="/auth/plex-callback" element={<PlexCallback />} />
+        <Route path="/auth/oidc-callback" element={<OidcCallback />} />
         <Route path="/setup" element={<Setup />} />
+        <Route path="/year-review/shared/:token" element={<YearReviewShared />} />
 
         {/* Protected routes */}
         <Route
@@ -61,6 +71,7 @@ export function App() {
           <Route path="stats/activity" element={<StatsActivity />} />
           <Route path="stats/library" element={<Navigate to="/library" replace />} />
           <Route path="stats/users" element={<StatsUsers />} />
+          <Route path="stats/year-review" element={<StatsYearReview />} />
 
           {/* Performance routes */}
           <Route path="stats/devices" element={<StatsDevices />} />
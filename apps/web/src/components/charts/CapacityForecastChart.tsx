@@ -0,0 +1,288 @@
+import { useMemo } from 'react';
+import Highcharts from 'highcharts';
+import HighchartsReact from 'highcharts-react-official';
+import type { CapacityForecastServer } from '@tracearr/shared';
+import { ChartSkeleton } from '@/components/ui/skeleton';
+
+interface CapacityForecastChartProps {
+  data: CapacityForecastServer | undefined;
+  isLoading?: boolean;
+  height?: number;
+}
+
+function toTimestamp(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+/**
+ * Daily peak upstream bandwidth and concurrent transcodes, with the linear
+ * forecast drawn dashed after the "Now" line and the p95 as a reference line.
+ */
+export function CapacityForecastChart({
+  data,
+  isLoading,
+  height = 300,
+}: CapacityForecastChartProps) {
+  const options = useMemo<Highcharts.Options>(() => {
+    if (!data || data.history.length === 0) {
+      return {};
+    }
+
+    const lastHistory = data.history[data.history.length - 1];
+    const lastHistoryDate = lastHistory ? toTimestamp(lastHistory.date) : null;
+
+    const historyBandwidth: [number, number][] = data.history.map((d) => [
+      toTimestamp(d.date),
+      d.peakBandwidthMbps,
+    ]);
+    const historyTranscodes: [number, number][] = data.history.map((d) => [
+      toTimestamp(d.date),
+      d.peakTranscodes,
+    ]);
+
+    // Start forecast lines from the last observed day so they connect
+    const forecastBandwidth: [number, number][] = [];
+    const forecastTranscodes: [number, number][] = [];
+    if (data.forecast.length > 0 && lastHistory && lastHistoryDate !== null) {
+      forecastBandwidth.push([lastHistoryDate, lastHistory.peakBandwidthMbps]);
+      forecastTranscodes.push([lastHistoryDate, lastHistory.peakTranscodes]);
+      for (const d of data.forecast) {
+        forecastBandwidth.push([toTimestamp(d.date), d.peakBandwidthMbps]);
+        forecastTranscodes.push([toTimestamp(d.date), d.peakTranscodes]);
+      }
+    }
+
+    const series: Highcharts.SeriesOptionsType[] = [
+      {
+        type: 'area',
+        name: 'Peak Bandwidth',
+        data: historyBandwidth,
+        yAxis: 0,
+        color: 'hsl(var(--primary))',
+        fillOpacity: 0.15,
+        marker: { enabled: false },
+      },
+      {
+        type: 'line',
+        name: 'Peak Transcodes',
+        data: historyTranscodes,
+        yAxis: 1,
+        color: 'hsl(var(--chart-2))',
+        step: 'center',
+        marker: { enabled: false },
+      },
+    ];
+
+    if (forecastBandwidth.length > 0) {
+      series.push(
+        {
+          type: 'line',
+          name: 'Bandwidth Forecast',
+          data: forecastBandwidth,
+          yAxis: 0,
+          color: 'hsl(var(--primary))',
+          dashStyle: 'ShortDash',
+          marker: { enabled: false },
+        },
+        {
+          type: 'line',
+          name: 'Transcode Forecast',
+          data: forecastTranscodes,
+          yAxis: 1,
+          color: 'hsl(var(--chart-2))',
+          dashStyle: 'ShortDash',
+          marker: { enabled: false },
+        }
+      );
+    }
+
+    return {
+      chart: {
+        height,
+        backgroundColor: 'transparent',
+        style: {
+          fontFamily: 'inherit',
+        },
+        reflow: true,
+      },
+      title: {
+        text: undefined,
+      },
+      credits: {
+        enabled: false,
+      },
+      legend: {
+        enabled: true,
+        itemStyle: {
+          color: 'hsl(var(--muted-foreground))',
+          fontWeight: 'normal',
+          fontSize: '11px',
+        },
+        itemHoverStyle: {
+          color: 'hsl(var(--foreground))',
+        },
+      },
+      xAxis: {
+        type: 'datetime',
+        labels: {
+          style: {
+            color: 'hsl(var(--muted-foreground))',
+          },
+          formatter: function () {
+            return new Date(this.value as number).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+            });
+          },
+        },
+        lineColor: 'hsl(var(--border))',
+        tickColor: 'hsl(var(--border))',
+        plotLines:
+          forecastBandwidth.length > 0 && lastHistoryDate !== null
+            ? [
+                {
+                  color: 'hsl(var(--border))',
+                  width: 1,
+                  value: lastHistoryDate,
+                  dashStyle: 'Dash',
+                  label: {
+                    text: 'Now',
+                    style: {
+                      color: 'hsl(var(--muted-foreground))',
+                      fontSize: '10px',
+                    },
+                    verticalAlign: 'top',
+                    y: 12,
+                  },
+                },
+              ]
+            : [],
+      },
+      yAxis: [
+        {
+          title: {
+            text: 'Upstream (Mbps)',
+            style: {
+              color: 'hsl(var(--primary))',
+            },
+          },
+          labels: {
+            style: {
+              color: 'hsl(var(--muted-foreground))',
+            },
+          },
+          gridLineColor: 'hsl(var(--border))',
+          min: 0,
+          plotLines: [
+            {
+              color: 'hsl(var(--muted-foreground))',
+              width: 1,
+              value: data.p95BandwidthMbps,
+              dashStyle: 'Dot',
+              zIndex: 3,
+              label: {
+                text: `p95 ${data.p95BandwidthMbps.toFixed(1)} Mbps`,
+                align: 'left',
+                style: {
+                  color: 'hsl(var(--muted-foreground))',
+                  fontSize: '10px',
+                },
+              },
+            },
+          ],
+        },
+        {
+          title: {
+            text: 'Transcodes',
+            style: {
+              color: 'hsl(var(--chart-2))',
+            },
+          },
+          labels: {
+            style: {
+              color: 'hsl(var(--muted-foreground))',
+            },
+          },
+          gridLineWidth: 0,
+          allowDecimals: false,
+          min: 0,
+          opposite: true,
+        },
+      ],
+      tooltip: {
+        backgroundColor: 'hsl(var(--popover))',
+        borderColor: 'hsl(var(--border))',
+        style: {
+          color: 'hsl(var(--popover-foreground))',
+        },
+        shared: true,
+        formatter: function () {
+          // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+          const dateStr = new Date(this.x as number).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+          });
+
+          let html = `<b>${dateStr}</b>`;
+          for (const point of this.points ?? []) {
+            const isBandwidth = point.series.yAxis.options.opposite !== true;
+            const value = isBandwidth ? `${point.y?.toFixed(1)} Mbps` : `${point.y?.toFixed(1)}`;
+            html += `<br/><span style="color:${point.color}">●</span> ${point.series.name}: <b>${value}</b>`;
+          }
+          return html;
+        },
+      },
+      series,
+      responsive: {
+        rules: [
+          {
+            condition: {
+              maxWidth: 400,
+            },
+            chartOptions: {
+              legend: {
+                enabled: false,
+              },
+              yAxis: [
+                {
+                  title: {
+                    text: undefined,
+                  },
+                },
+                {
+                  title: {
+                    text: undefined,
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    };
+  }, [data, height]);
+
+  if (isLoading) {
+    return <ChartSkeleton height={height} />;
+  }
+
+  if (!data || data.history.length === 0) {
+    return (
+      <div
+        className="text-muted-foreground flex items-center justify-center rounded-lg border border-dashed"
+        style={{ height }}
+      >
+        No streaming history to forecast from
+      </div>
+    );
+  }
+
+  return (
+    <HighchartsReact
+      highcharts={Highcharts}
+      options={options}
+      containerProps={{ style: { width: '100%', height: '100%' } }}
+    />
+  );
+}
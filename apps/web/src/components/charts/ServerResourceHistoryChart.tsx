@@ -0,0 +1,273 @@
+import { useMemo } from 'react';
+import Highcharts from 'highcharts';
+import HighchartsReact from 'highcharts-react-official';
+import type { ServerResourceSample } from '@tracearr/shared';
+import { getHour12 } from '@/lib/timeFormat';
+import { ChartSkeleton } from '@/components/ui/skeleton';
+
+const COLORS = {
+  process: '#00b4e4',
+  system: '#cc7b9f',
+  transcodes: 'hsl(var(--chart-4))',
+  streams: 'hsl(var(--chart-2))',
+};
+
+interface ServerResourceHistoryChartProps {
+  data: ServerResourceSample[] | undefined;
+  /** Bucket width in seconds, used to break lines where no samples were taken */
+  bucketSeconds: number;
+  /** Whether CPU/RAM series are available for this server */
+  resourceUsageSupported: boolean;
+  isLoading?: boolean;
+  height?: number;
+}
+
+type Point = [number, number | null];
+
+/**
+ * Build a series, inserting a null wherever buckets are missing so lines break across gaps
+ */
+function toSeries(
+  data: ServerResourceSample[],
+  bucketMs: number,
+  value: (sample: ServerResourceSample) => number | null
+): Point[] {
+  const points: Point[] = [];
+  let previous: number | null = null;
+
+  for (const sample of data) {
+    const x = new Date(sample.at).getTime();
+    if (previous !== null && x - previous > bucketMs * 1.5) {
+      points.push([previous + bucketMs, null]);
+    }
+    points.push([x, value(sample)]);
+    previous = x;
+  }
+
+  return points;
+}
+
+/**
+ * Stored resource history - CPU/RAM percentages against stream and transcode counts
+ * Sharing the time axis makes transcode-driven CPU spikes easy to spot
+ */
+export function ServerResourceHistoryChart({
+  data,
+  bucketSeconds,
+  resourceUsageSupported,
+  isLoading,
+  height = 280,
+}: ServerResourceHistoryChartProps) {
+  const options = useMemo<Highcharts.Options>(() => {
+    if (!data || data.length === 0) {
+      return {};
+    }
+
+    const bucketMs = bucketSeconds * 1000;
+    const bandwidthByTime = new Map(
+      data.map((sample) => [new Date(sample.at).getTime(), sample.bandwidthKbps])
+    );
+
+    const countSeries: Highcharts.SeriesOptionsType[] = [
+      {
+        type: 'column',
+        name: 'Transcodes',
+        yAxis: resourceUsageSupported ? 1 : 0,
+        data: toSeries(data, bucketMs, (s) => s.transcodeCount),
+        color: COLORS.transcodes,
+        opacity: 0.6,
+      },
+      {
+        type: 'line',
+        name: 'Streams',
+        yAxis: resourceUsageSupported ? 1 : 0,
+        step: 'left',
+        data: toSeries(data, bucketMs, (s) => s.streamCount),
+        color: COLORS.streams,
+      },
+    ];
+
+    const usageSeries: Highcharts.SeriesOptionsType[] = resourceUsageSupported
+      ? [
+          {
+            type: 'line',
+            name: 'Server CPU',
+            data: toSeries(data, bucketMs, (s) => s.processCpuUtilization),
+            color: COLORS.process,
+          },
+          {
+            type: 'line',
+            name: 'System CPU',
+            data: toSeries(data, bucketMs, (s) => s.hostCpuUtilization),
+            color: COLORS.system,
+          },
+          {
+            type: 'line',
+            name: 'Server RAM',
+            data: toSeries(data, bucketMs, (s) => s.processMemoryUtilization),
+            color: COLORS.process,
+            dashStyle: 'ShortDash',
+            visible: false,
+          },
+          {
+            type: 'line',
+            name: 'System RAM',
+            data: toSeries(data, bucketMs, (s) => s.hostMemoryUtilization),
+            color: COLORS.system,
+            dashStyle: 'ShortDash',
+            visible: false,
+          },
+        ]
+      : [];
+
+    const axisLabelStyle = {
+      color: 'hsl(var(--muted-foreground))',
+      fontSize: '10px',
+    };
+
+    const countAxis: Highcharts.YAxisOptions = {
+      title: { text: undefined },
+      labels: { style: axisLabelStyle },
+      gridLineColor: resourceUsageSupported ? 'transparent' : 'hsl(var(--border) / 0.5)',
+      min: 0,
+      allowDecimals: false,
+      opposite: resourceUsageSupported,
+    };
+
+    return {
+      chart: {
+        height,
+        backgroundColor: 'transparent',
+        style: {
+          fontFamily: 'inherit',
+        },
+        spacing: [10, 10, 15, 10],
+        reflow: true,
+        zooming: { type: 'x' },
+      },
+      title: {
+        text: undefined,
+      },
+      credits: {
+        enabled: false,
+      },
+      legend: {
+        enabled: true,
+        align: 'left',
+        verticalAlign: 'top',
+        itemStyle: {
+          color: 'hsl(var(--muted-foreground))',
+          fontWeight: 'normal',
+          fontSize: '11px',
+        },
+        itemHoverStyle: {
+          color: 'hsl(var(--foreground))',
+        },
+      },
+      xAxis: {
+        type: 'datetime',
+        labels: {
+          style: axisLabelStyle,
+        },
+        dateTimeLabelFormats: {
+          minute: getHour12() ? '%l:%M %p' : '%H:%M',
+          hour: getHour12() ? '%l %p' : '%H:%M',
+          day: '%b %e',
+        },
+        lineColor: 'hsl(var(--border))',
+        tickColor: 'hsl(var(--border))',
+      },
+      yAxis: resourceUsageSupported
+        ? [
+            {
+              title: { text: undefined },
+              labels: { style: axisLabelStyle, format: '{value}%' },
+              gridLineColor: 'hsl(var(--border) / 0.5)',
+              min: 0,
+              max: 100,
+            },
+            countAxis,
+          ]
+        : [countAxis],
+      plotOptions: {
+        series: {
+          marker: {
+            enabled: false,
+            states: {
+              hover: {
+                enabled: true,
+                radius: 3,
+              },
+            },
+          },
+          connectNulls: false,
+        },
+        line: {
+          lineWidth: 2,
+        },
+        column: {
+          borderWidth: 0,
+          groupPadding: 0,
+          pointPadding: 0.1,
+        },
+      },
+      tooltip: {
+        shared: true,
+        backgroundColor: 'hsl(var(--popover))',
+        borderColor: 'hsl(var(--border))',
+        style: {
+          color: 'hsl(var(--popover-foreground))',
+          fontSize: '11px',
+        },
+        formatter: function () {
+          const x = this.x;
+          const time = new Date(x).toLocaleString(undefined, {
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            hour12: getHour12(),
+          });
+          let html = `<b>${time}</b><br/>`;
+          for (const point of this.points ?? []) {
+            if (point.y === null || point.y === undefined) continue;
+            // With CPU/RAM available, the first axis holds percentages
+            const isPercent =
+              resourceUsageSupported && point.series.yAxis === point.series.chart.yAxis[0];
+            const value = isPercent ? `${Math.round(point.y)}%` : String(point.y);
+            html += `<span style="color:${point.series.color as string}">●</span> ${point.series.name}: <b>${value}</b><br/>`;
+          }
+          const bandwidth = bandwidthByTime.get(x);
+          if (bandwidth !== undefined) {
+            html += `Bandwidth: <b>${(bandwidth / 1000).toFixed(1)} Mbps</b>`;
+          }
+          return html;
+        },
+      },
+      series: [...usageSeries, ...countSeries],
+    };
+  }, [data, bucketSeconds, resourceUsageSupported, height]);
+
+  if (isLoading) {
+    return <ChartSkeleton height={height} />;
+  }
+
+  if (!data || data.length === 0) {
+    return (
+      <div
+        className="text-muted-foreground flex items-center justify-center rounded-lg border border-dashed text-sm"
+        style={{ height }}
+      >
+        No samples recorded in this range yet
+      </div>
+    );
+  }
+
+  return (
+    <HighchartsReact
+      highcharts={Highcharts}
+      options={options}
+      containerProps={{ style: { width: '100%', height: '100%' } }}
+    />
+  );
+}
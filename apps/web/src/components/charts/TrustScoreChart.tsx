@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import Highcharts from 'highcharts';
+import HighchartsReact from 'highcharts-react-official';
+import type { TrustScoreHistoryEntry } from '@tracearr/shared';
+import { ChartSkeleton } from '@/components/ui/skeleton';
+
+interface TrustScoreChartProps {
+  /** Changes in the window, oldest first */
+  data: TrustScoreHistoryEntry[] | undefined;
+  /** Current score, drawn up to now */
+  currentScore: number;
+  /** Window length in days */
+  days: number;
+  isLoading?: boolean;
+  height?: number;
+}
+
+export function TrustScoreChart({
+  data,
+  currentScore,
+  days,
+  isLoading,
+  height = 200,
+}: TrustScoreChartProps) {
+  const options = useMemo<Highcharts.Options>(() => {
+    if (!data) {
+      return {};
+    }
+
+    const now = Date.now();
+    const start = now - days * 24 * 60 * 60 * 1000;
+    const first = data[0];
+
+    // Score held at window start, every change, then the current score up to now
+    const points: Highcharts.PointOptionsObject[] = [
+      { x: start, y: first ? first.previousScore : currentScore },
+      ...data.map((entry) => ({
+        x: new Date(entry.createdAt).getTime(),
+        y: entry.newScore,
+        custom: { reason: entry.reason },
+      })),
+      { x: now, y: currentScore },
+    ];
+
+    return {
+      chart: {
+        type: 'line',
+        height,
+        backgroundColor: 'transparent',
+        style: {
+          fontFamily: 'inherit',
+        },
+        reflow: true,
+      },
+      title: {
+        text: undefined,
+      },
+      credits: {
+        enabled: false,
+      },
+      legend: {
+        enabled: false,
+      },
+      xAxis: {
+        type: 'datetime',
+        min: start,
+        max: now,
+        labels: {
+          style: {
+            color: 'hsl(var(--muted-foreground))',
+          },
+          formatter: function () {
+            const date = new Date(this.value as number);
+            return `${date.getMonth() + 1}/${date.getDate()}`;
+          },
+        },
+        lineColor: 'hsl(var(--border))',
+        tickColor: 'hsl(var(--border))',
+      },
+      yAxis: {
+        title: {
+          text: undefined,
+        },
+        labels: {
+          style: {
+            color: 'hsl(var(--muted-foreground))',
+          },
+        },
+        gridLineColor: 'hsl(var(--border))',
+        min: 0,
+        max: 100,
+        tickInterval: 25,
+      },
+      plotOptions: {
+        line: {
+          step: 'left',
+          lineWidth: 2,
+          color: 'hsl(var(--primary))',
+          marker: {
+            enabled: false,
+            states: {
+              hover: {
+                enabled: true,
+                radius: 4,
+              },
+            },
+          },
+        },
+      },
+      tooltip: {
+        backgroundColor: 'hsl(var(--popover))',
+        borderColor: 'hsl(var(--border))',
+        style: {
+          color: 'hsl(var(--popover-foreground))',
+        },
+        formatter: function () {
+          const date = new Date(this.x).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+          });
+          const reason = (this.options.custom as { reason?: string | null } | undefined)?.reason;
+          return `<b>${date}</b><br/>Trust score: ${this.y}${reason ? `<br/>${reason}` : ''}`;
+        },
+      },
+      series: [
+        {
+          type: 'line',
+          name: 'Trust score',
+          data: points,
+        },
+      ],
+    };
+  }, [data, currentScore, days, height]);
+
+  if (isLoading) {
+    return <ChartSkeleton height={height} />;
+  }
+
+  return (
+    <HighchartsReact
+      highcharts={Highcharts}
+      options={options}
+      containerProps={{ style: { width: '100%', height: '100%' } }}
+    />
+  );
+}
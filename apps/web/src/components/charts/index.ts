@@ -14,3 +14,6 @@ export { WatchCountChart } from './WatchCountChart';
 export { CompletionDonutChart } from './CompletionDonutChart';
 export { HourlyDistributionChart } from './HourlyDistributionChart';
 export { MonthlyTrendChart } from './MonthlyTrendChart';
+export { TrustScoreChart } from './TrustScoreChart';
+export { ServerResourceHistoryChart } from './ServerResourceHistoryChart';
+export { CapacityForecastChart } from './CapacityForecastChart';
@@ -21,6 +21,7 @@ interface TrackedService {
   description: string;
   intervalMs: number;
   running: boolean;
+  status?: string;
 }
 
 interface TasksData {
@@ -51,7 +52,7 @@ const QUEUE_INFO: Array<{
   {
     key: 'imports',
     name: 'Imports',
-    description: 'Tautulli / Jellystat history',
+    description: 'Tautulli, Jellystat, Plex & Playback Reporting history',
     hasDlq: true,
   },
   {
@@ -260,7 +261,7 @@ export function TasksTab() {
                       <td className="text-muted-foreground py-2.5 pr-4">
                         {formatInterval(service.intervalMs)}
                       </td>
-                      <td className="py-2.5">
+                      <td className="flex items-center gap-2 py-2.5">
                         {service.running ? (
                           <Badge variant="success" className="gap-1 text-xs">
                             <CheckCircle2 className="h-3 w-3" />
@@ -272,6 +273,9 @@ export function TasksTab() {
                             Stopped
                           </Badge>
                         )}
+                        {service.status && (
+                          <span className="text-muted-foreground text-xs">{service.status}</span>
+                        )}
                       </td>
                     </tr>
                   ))}
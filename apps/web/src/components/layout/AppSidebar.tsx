@@ -26,6 +26,7 @@ import { navigation, isNavGroup, type NavItem, type NavGroup } from './nav-data'
 import { UpdateDialog } from './UpdateDialog';
 import { cn } from '@/lib/utils';
 import { useVersion } from '@/hooks/queries';
+import { usePermissions } from '@/hooks/usePermissions';
 
 function NavMenuItem({ item }: { item: NavItem }) {
   const { setOpenMobile } = useSidebar();
@@ -208,6 +209,8 @@ function ExternalLinks() {
 }
 
 export function AppSidebar() {
+  const { can } = usePermissions();
+
   return (
     <Sidebar>
       <SidebarHeader className="border-b p-0">
@@ -224,6 +227,9 @@ export function AppSidebar() {
                 if (isNavGroup(entry)) {
                   return <NavMenuGroup key={entry.nameKey} group={entry} />;
                 }
+                if (entry.permissions && !entry.permissions.some((p) => can(p))) {
+                  return null;
+                }
                 return <NavMenuItem key={entry.href} item={entry} />;
               })}
             </SidebarMenu>
@@ -16,13 +16,17 @@ import {
   Sparkles,
   HardDrive,
   Eye,
+  Gift,
 } from 'lucide-react';
 import type { NavKey } from '@tracearr/translations';
+import type { Permission } from '@tracearr/shared';
 
 export interface NavItem {
   nameKey: NavKey;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
+  // Shown only when the user holds at least one of these permissions
+  permissions?: Permission[];
 }
 
 export interface NavGroup {
@@ -47,6 +51,7 @@ export const navigation: NavEntry[] = [
     children: [
       { nameKey: 'activity', href: '/stats/activity', icon: TrendingUp },
       { nameKey: 'users', href: '/stats/users', icon: UserCircle },
+      { nameKey: 'yearReview', href: '/stats/year-review', icon: Gift },
     ],
   },
   {
@@ -70,5 +75,19 @@ export const navigation: NavEntry[] = [
   { nameKey: 'users', href: '/users', icon: Users },
   { nameKey: 'rules', href: '/rules', icon: Shield },
   { nameKey: 'violations', href: '/violations', icon: AlertTriangle },
-  { nameKey: 'settings', href: '/settings', icon: Settings },
+  {
+    nameKey: 'settings',
+    href: '/settings',
+    icon: Settings,
+    permissions: [
+      'settings:write',
+      'servers:manage',
+      'notifications:manage',
+      'users:manage',
+      'mobile:manage',
+      'import:run',
+      'backup:manage',
+      'maintenance:run',
+    ],
+  },
 ];
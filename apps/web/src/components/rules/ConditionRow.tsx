@@ -1,6 +1,11 @@
 import { ChevronsUpDown, X } from 'lucide-react';
 import type { Condition, ConditionField, Operator, RulesFilterOptions } from '@tracearr/shared';
-import { fromMetricDistance, toMetricDistance, formatConditionFieldValue } from '@tracearr/shared';
+import {
+  fromMetricDistance,
+  toMetricDistance,
+  formatConditionFieldValue,
+  getClientTimezone,
+} from '@tracearr/shared';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
@@ -53,9 +58,10 @@ export function ConditionRow({
   const handleFieldChange = (newField: ConditionField) => {
     const newFieldDef = FIELD_DEFINITIONS[newField];
     // Build params based on field capabilities
-    const params: { window_hours?: number; exclude_same_device?: boolean } = {};
+    const params: { window_hours?: number; exclude_same_device?: boolean; timezone?: string } = {};
     if (newFieldDef.hasWindowHours) params.window_hours = 24;
     if (newFieldDef.hasExcludeSameDevice) params.exclude_same_device = true;
+    if (newFieldDef.hasTimezone) params.timezone = getClientTimezone();
 
     onChange({
       field: newField,
@@ -109,6 +115,14 @@ export function ConditionRow({
     });
   };
 
+  // Handle timezone change (empty falls back to UTC on the server)
+  const handleTimezoneChange = (timezone: string) => {
+    onChange({
+      ...condition,
+      params: { ...condition.params, timezone: timezone.trim() || undefined },
+    });
+  };
+
   return (
     <div className="flex items-start gap-2">
       {/* Field Selector */}
@@ -175,6 +189,24 @@ export function ConditionRow({
         </div>
       )}
 
+      {/* Timezone (for time of day fields) */}
+      {fieldDef.hasTimezone && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Input
+              type="text"
+              className="w-[160px]"
+              placeholder="UTC"
+              value={condition.params?.timezone ?? ''}
+              onChange={(e) => handleTimezoneChange(e.target.value)}
+            />
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-[240px]">
+            IANA timezone the time is evaluated in (e.g., America/New_York). Defaults to UTC.
+          </TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Exclude Same Device (for cross-session comparisons) */}
       {fieldDef.hasExcludeSameDevice && (
         <Tooltip>
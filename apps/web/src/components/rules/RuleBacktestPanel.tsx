@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FlaskConical, Loader2, AlertTriangle } from 'lucide-react';
+import type {
+  ActionType,
+  CreateRuleV2Input,
+  RuleBacktestMatch,
+  RuleBacktestResult,
+  RulesFilterOptions,
+} from '@tracearr/shared';
+import { TIME_MS, formatEvidenceDescription } from '@tracearr/shared';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ACTION_DEFINITIONS } from '@/lib/rules';
+import { useRuleBacktest } from '@/hooks/queries/useRulesV2';
+import { useSettings } from '@/hooks/queries';
+
+// Backtest ranges offered in the UI (server allows up to 90 days)
+const RANGE_OPTIONS = [
+  { value: '1', label: 'Last 24 hours' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+// Matches listed in the panel (the API returns up to 500)
+const VISIBLE_MATCHES = 25;
+
+interface RuleBacktestPanelProps {
+  /** Build the draft from the current form, or null when it is invalid */
+  getDraft: () => CreateRuleV2Input | null;
+  filterOptions?: RulesFilterOptions;
+}
+
+export function RuleBacktestPanel({ getDraft, filterOptions }: RuleBacktestPanelProps) {
+  const [days, setDays] = useState('7');
+  const backtest = useRuleBacktest();
+  const result = backtest.data;
+
+  const handleRun = () => {
+    const draft = getDraft();
+    if (!draft) return;
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - Number(days) * TIME_MS.DAY);
+    backtest.mutate({
+      rule: draft,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+    });
+  };
+
+  return (
+    <div className="bg-muted/30 space-y-4 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b pb-3">
+        <div>
+          <h3 className="text-base font-semibold">Dry Run</h3>
+          <p className="text-muted-foreground text-sm">
+            Replay past sessions to see what this rule would have done. Nothing is saved.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((opt) => (
+                <SelectItem key={opt.value} value={opt.value}>
+                  {opt.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" onClick={handleRun} disabled={backtest.isPending}>
+            {backtest.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FlaskConical className="mr-2 h-4 w-4" />
+            )}
+            Run
+          </Button>
+        </div>
+      </div>
+
+      {result && <BacktestResults result={result} filterOptions={filterOptions} />}
+    </div>
+  );
+}
+
+function BacktestResults({
+  result,
+  filterOptions,
+}: {
+  result: RuleBacktestResult;
+  filterOptions?: RulesFilterOptions;
+}) {
+  const { data: settings } = useSettings();
+  const unitSystem = settings?.unitSystem ?? 'metric';
+  const actionCounts = Object.entries(result.actionCounts) as [ActionType, number][];
+
+  return (
+    <div className="space-y-4">
+      {result.truncated && (
+        <div className="flex items-center gap-2 text-sm text-yellow-600 dark:text-yellow-500">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          Too many sessions in this range; only the oldest {result.sessionsEvaluated} were replayed.
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <span>
+          <span className="font-semibold">{result.matchCount}</span> violation
+          {result.matchCount === 1 ? '' : 's'}
+        </span>
+        <span className="text-muted-foreground">
+          {result.sessionsEvaluated} session{result.sessionsEvaluated === 1 ? '' : 's'} evaluated
+        </span>
+        {actionCounts.map(([type, count]) => (
+          <Badge key={type} variant="secondary">
+            {ACTION_DEFINITIONS[type].label}: {count}
+          </Badge>
+        ))}
+      </div>
+
+      {result.userCounts.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">By user</p>
+          <div className="flex flex-wrap gap-2">
+            {result.userCounts.slice(0, 10).map((user) => (
+              <Badge key={user.serverUserId} variant="outline">
+                {user.identityName || user.username}: {user.count}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result.matches.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Recent matches</p>
+          <ul className="divide-y rounded-md border text-sm">
+            {result.matches.slice(0, VISIBLE_MATCHES).map((match) => (
+              <BacktestMatchRow
+                key={match.sessionId}
+                match={match}
+                serverName={filterOptions?.servers?.find((s) => s.id === match.serverId)?.name}
+                description={formatEvidenceDescription(match.evidence, unitSystem)}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BacktestMatchRow({
+  match,
+  serverName,
+  description,
+}: {
+  match: RuleBacktestMatch;
+  serverName?: string;
+  description: string;
+}) {
+  const skipped = match.actions.filter((a) => !a.fired);
+
+  return (
+    <li className="flex flex-col gap-0.5 px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-medium">
+          {match.identityName || match.username}
+          <span className="text-muted-foreground font-normal">
+            {' '}
+            · {match.grandparentTitle ? `${match.grandparentTitle} - ` : ''}
+            {match.mediaTitle}
+          </span>
+        </span>
+        <span className="text-muted-foreground shrink-0 text-xs">
+          {format(new Date(match.startedAt), 'MMM d, HH:mm')}
+          {serverName ? ` · ${serverName}` : ''}
+        </span>
+      </div>
+      <span className="text-muted-foreground text-xs">
+        {description}
+        {skipped.length > 0 &&
+          ` · skipped ${skipped
+            .map((a) => `${ACTION_DEFINITIONS[a.actionType].label} (${a.skipReason})`)
+            .join(', ')}`}
+      </span>
+    </li>
+  );
+}
+
+export default RuleBacktestPanel;
@@ -10,7 +10,9 @@ import type {
   CreateRuleV2Input,
   UpdateRuleV2Input,
   RulesFilterOptions,
+  RuleSchedule,
 } from '@tracearr/shared';
+import { isValidTimezone } from '@tracearr/shared';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -24,6 +26,8 @@ import {
 } from '@/components/ui/select';
 import { ConditionGroup } from './ConditionGroup';
 import { ActionRow } from './ActionRow';
+import { RuleBacktestPanel } from './RuleBacktestPanel';
+import { RuleScheduleEditor } from './RuleScheduleEditor';
 import {
   getDefaultOperatorForField,
   getDefaultValueForField,
@@ -42,6 +46,7 @@ interface RuleInput {
   // V2 fields
   conditions?: RuleConditions | null;
   actions?: RuleActions | null;
+  schedule?: RuleSchedule | null;
 }
 
 interface RuleBuilderProps {
@@ -114,6 +119,7 @@ export function RuleBuilder({
   const [isActive, setIsActive] = useState(initialRule?.isActive ?? true);
   const [conditions, setConditions] = useState<RuleConditions>(extractConditions(initialRule));
   const [actions, setActions] = useState<RuleActions>(extractActions(initialRule));
+  const [schedule, setSchedule] = useState<RuleSchedule | null>(initialRule?.schedule ?? null);
   const [errors, setErrors] = useState<string[]>([]);
 
   // Validation
@@ -134,22 +140,43 @@ export function RuleBuilder({
       }
     }
 
+    if (schedule) {
+      if (!isValidTimezone(schedule.timezone)) {
+        newErrors.push('Schedule timezone must be a valid IANA timezone');
+      }
+      for (const window of schedule.windows) {
+        if (window.days.length === 0) {
+          newErrors.push('Each schedule window needs at least one day');
+        }
+        if (!window.startTime || !window.endTime || window.startTime === window.endTime) {
+          newErrors.push('Each schedule window needs different start and end times');
+        }
+      }
+    }
+
     setErrors(newErrors);
     return newErrors.length === 0;
   };
 
-  // Submit handler
-  const handleSubmit = async () => {
-    if (!validate()) return;
+  // Build the rule from the form (null when validation fails)
+  const buildRule = (): CreateRuleV2Input | null => {
+    if (!validate()) return null;
 
-    const data: CreateRuleV2Input | UpdateRuleV2Input = {
+    return {
       name: name.trim(),
       description: description.trim() || null,
       severity,
       isActive,
       conditions,
       actions,
+      schedule,
     };
+  };
+
+  // Submit handler
+  const handleSubmit = async () => {
+    const data = buildRule();
+    if (!data) return;
 
     await onSave(data);
   };
@@ -320,6 +347,12 @@ export function RuleBuilder({
         </Button>
       </div>
 
+      {/* Schedule */}
+      <RuleScheduleEditor schedule={schedule} onChange={setSchedule} />
+
+      {/* Dry Run */}
+      <RuleBacktestPanel getDraft={buildRule} filterOptions={filterOptions} />
+
       {/* Footer */}
       <div className="flex items-center justify-end gap-3 border-t pt-4">
         <Button type="button" variant="outline" onClick={onCancel}>
@@ -12,6 +12,7 @@ import type {
   RuleConditions,
   RuleActions,
   RulesFilterOptions,
+  RuleSchedule,
   ViolationSeverity,
 } from '@tracearr/shared';
 
@@ -24,6 +25,7 @@ interface RuleInput {
   isActive: boolean;
   conditions?: RuleConditions | null;
   actions?: RuleActions | null;
+  schedule?: RuleSchedule | null;
 }
 
 interface RuleBuilderDialogProps {
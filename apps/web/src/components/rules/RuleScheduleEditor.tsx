@@ -0,0 +1,136 @@
+import { Plus, X } from 'lucide-react';
+import type { DayOfWeek, RuleSchedule, RuleScheduleWindow } from '@tracearr/shared';
+import { getClientTimezone } from '@tracearr/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DAY_OF_WEEK_OPTIONS } from '@/lib/rules';
+
+interface RuleScheduleEditorProps {
+  /** Null when the rule applies at all times */
+  schedule: RuleSchedule | null;
+  onChange: (schedule: RuleSchedule | null) => void;
+}
+
+function createDefaultWindow(): RuleScheduleWindow {
+  return { days: ['mon', 'tue', 'wed', 'thu', 'fri'], startTime: '18:00', endTime: '23:00' };
+}
+
+export function RuleScheduleEditor({ schedule, onChange }: RuleScheduleEditorProps) {
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled ? { timezone: getClientTimezone(), windows: [createDefaultWindow()] } : null);
+  };
+
+  const updateWindow = (index: number, window: RuleScheduleWindow) => {
+    if (!schedule) return;
+    const windows = [...schedule.windows];
+    windows[index] = window;
+    onChange({ ...schedule, windows });
+  };
+
+  const toggleDay = (index: number, day: DayOfWeek) => {
+    const window = schedule?.windows[index];
+    if (!window) return;
+    const days = window.days.includes(day)
+      ? window.days.filter((d) => d !== day)
+      : [...window.days, day];
+    updateWindow(index, { ...window, days });
+  };
+
+  const addWindow = () => {
+    if (!schedule) return;
+    onChange({ ...schedule, windows: [...schedule.windows, createDefaultWindow()] });
+  };
+
+  const removeWindow = (index: number) => {
+    if (!schedule) return;
+    const windows = schedule.windows.filter((_, i) => i !== index);
+    // Removing the last window turns the schedule off
+    onChange(windows.length > 0 ? { ...schedule, windows } : null);
+  };
+
+  return (
+    <div className="bg-muted/30 space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-3 border-b pb-3">
+        <div>
+          <h3 className="text-base font-semibold">Schedule</h3>
+          <p className="text-muted-foreground text-sm">
+            Only enforce this rule during the times below. Windows ending before they start run past
+            midnight.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="rule-schedule" checked={schedule !== null} onCheckedChange={handleToggle} />
+          <Label htmlFor="rule-schedule" className="text-sm">
+            Scheduled
+          </Label>
+        </div>
+      </div>
+
+      {schedule && (
+        <div className="space-y-3">
+          <div className="max-w-xs space-y-2">
+            <Label htmlFor="rule-schedule-timezone">Timezone</Label>
+            <Input
+              id="rule-schedule-timezone"
+              placeholder="e.g., Europe/London"
+              value={schedule.timezone}
+              onChange={(e) => onChange({ ...schedule, timezone: e.target.value.trim() })}
+            />
+          </div>
+
+          {schedule.windows.map((window, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <div className="flex gap-1">
+                {DAY_OF_WEEK_OPTIONS.map((day) => (
+                  <Button
+                    key={day.value}
+                    type="button"
+                    size="sm"
+                    variant={window.days.includes(day.value) ? 'default' : 'outline'}
+                    className="w-11 px-0"
+                    onClick={() => toggleDay(index, day.value)}
+                  >
+                    {day.label.slice(0, 3)}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                type="time"
+                className="w-[120px]"
+                aria-label="Start time"
+                value={window.startTime}
+                onChange={(e) => updateWindow(index, { ...window, startTime: e.target.value })}
+              />
+              <span className="text-muted-foreground text-sm">to</span>
+              <Input
+                type="time"
+                className="w-[120px]"
+                aria-label="End time"
+                value={window.endTime}
+                onChange={(e) => updateWindow(index, { ...window, endTime: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeWindow(index)}
+                aria-label="Remove window"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button type="button" variant="outline" onClick={addWindow}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add window
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RuleScheduleEditor;
@@ -7,7 +7,9 @@ export { ConditionGroup } from './ConditionGroup';
 export { ActionRow } from './ActionRow';
 export { RuleBuilder } from './RuleBuilder';
 export { RuleBuilderDialog } from './RuleBuilderDialog';
+export { RuleBacktestPanel } from './RuleBacktestPanel';
+export { RuleScheduleEditor } from './RuleScheduleEditor';
 
 // Re-export display utilities for convenience
-export { getRuleIcon, getRuleSummary } from '@/lib/rules/ruleDisplay';
+export { getRuleIcon, getRuleSummary, formatRuleSchedule } from '@/lib/rules/ruleDisplay';
 export { isRuleV2 as isV2Rule } from '@/hooks/queries/useRulesV2';
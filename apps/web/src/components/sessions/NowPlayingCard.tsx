@@ -9,7 +9,7 @@ import { cn, getCountryName, getMediaDisplay } from '@/lib/utils';
 import { imageProxyUrl } from '@/lib/api';
 import { formatDuration } from '@/lib/formatters';
 import { useEstimatedProgress } from '@/hooks/useEstimatedProgress';
-import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
 import { TerminateSessionDialog } from './TerminateSessionDialog';
 import type { ActiveSession } from '@tracearr/shared';
 
@@ -47,12 +47,12 @@ function DeviceIcon({ session, className }: { session: ActiveSession; className?
 
 export function NowPlayingCard({ session, onClick }: NowPlayingCardProps) {
   const { title, subtitle } = getMediaDisplay(session);
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const [showTerminateDialog, setShowTerminateDialog] = useState(false);
 
-  // Only admin/owner can terminate sessions, and session must support termination
+  // Requires sessions:terminate on the session's server, and session must support termination
   // (some Plex clients like Plexamp don't provide the required Session.id)
-  const canTerminate = (user?.role === 'admin' || user?.role === 'owner') && session.canTerminate;
+  const canTerminate = can('sessions:terminate', session.serverId) && session.canTerminate;
 
   // Use estimated progress for smooth updates between SSE/poll events
   const { estimatedProgressMs, progressPercent } = useEstimatedProgress(session);
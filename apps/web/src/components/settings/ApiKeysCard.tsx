@@ -0,0 +1,421 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  API_KEY_SCOPES,
+  TIME_MS,
+  type ApiKey,
+  type ApiKeyScope,
+  type CreatedApiKey,
+} from '@tracearr/shared';
+import { Copy, ExternalLink, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useApiKeys, useCreateApiKey, useRevokeApiKey, useServers } from '@/hooks/queries';
+
+// Select value for "every server" (Radix Select does not allow empty values)
+const ALL_SERVERS = 'all';
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'stats:read': 'Dashboard stats',
+  'streams:read': 'Active streams',
+  'users:read': 'Users',
+  'violations:read': 'Violations',
+  'history:read': 'History',
+  'audit:read': 'Audit log',
+  'streams:terminate': 'Terminate streams',
+  'violations:ack': 'Acknowledge violations',
+  'rules:toggle': 'Enable/disable rules',
+  'users:trust': 'Adjust trust scores',
+};
+
+const READ_SCOPES = API_KEY_SCOPES.filter((scope) => scope.endsWith(':read'));
+const ACTION_SCOPES = API_KEY_SCOPES.filter((scope) => !scope.endsWith(':read'));
+
+function ScopeCheckboxes({
+  scopes,
+  selected,
+  onToggle,
+}: {
+  scopes: ApiKeyScope[];
+  selected: ApiKeyScope[];
+  onToggle: (scope: ApiKeyScope, checked: boolean) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {scopes.map((scope) => (
+        <label key={scope} className="flex cursor-pointer items-center gap-2 text-sm">
+          <Checkbox
+            checked={selected.includes(scope)}
+            onCheckedChange={(checked) => onToggle(scope, checked === true)}
+          />
+          {SCOPE_LABELS[scope]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+interface CreateApiKeyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (key: CreatedApiKey) => void;
+}
+
+function CreateApiKeyDialog({ open, onOpenChange, onCreated }: CreateApiKeyDialogProps) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [serverId, setServerId] = useState(ALL_SERVERS);
+  const [expiry, setExpiry] = useState('never');
+  const { data: servers } = useServers();
+  const mutation = useCreateApiKey();
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setScopes([]);
+      setServerId(ALL_SERVERS);
+      setExpiry('never');
+    }
+  }, [open]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleSubmit = (e: React.SyntheticEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    mutation.mutate(
+      {
+        name: name.trim(),
+        scopes,
+        serverId: serverId === ALL_SERVERS ? null : serverId,
+        expiresAt: expiry === 'never' ? null : new Date(Date.now() + Number(expiry) * TIME_MS.DAY),
+      },
+      {
+        onSuccess: (key) => {
+          onOpenChange(false);
+          onCreated(key);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New API Key</DialogTitle>
+          <DialogDescription>
+            Give each integration its own key with only the data it needs.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="apiKeyName">Name</Label>
+            <Input
+              id="apiKeyName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Homarr"
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Read access</Label>
+            <ScopeCheckboxes scopes={READ_SCOPES} selected={scopes} onToggle={toggleScope} />
+          </div>
+          <div className="space-y-2">
+            <Label>Actions</Label>
+            <ScopeCheckboxes scopes={ACTION_SCOPES} selected={scopes} onToggle={toggleScope} />
+            <p className="text-muted-foreground text-xs">
+              Actions are limited to 30 calls per minute and recorded in the audit log.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyServer">Server</Label>
+              <Select value={serverId} onValueChange={setServerId}>
+                <SelectTrigger id="apiKeyServer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SERVERS}>All servers</SelectItem>
+                  {servers?.map((server) => (
+                    <SelectItem key={server.id} value={server.id}>
+                      {server.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyExpiry">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="apiKeyExpiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={mutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={mutation.isPending || !name.trim() || scopes.length === 0}
+            >
+              {mutation.isPending ? 'Creating...' : 'Create Key'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function NewTokenDialog({
+  apiKey,
+  onClose,
+}: {
+  apiKey: CreatedApiKey | null;
+  onClose: () => void;
+}) {
+  const handleCopy = async () => {
+    if (!apiKey) return;
+    try {
+      await navigator.clipboard.writeText(apiKey.token);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  return (
+    <Dialog open={!!apiKey} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Copy Your API Key</DialogTitle>
+          <DialogDescription>
+            This is the only time the key for “{apiKey?.name}” is shown. Store it somewhere safe.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input readOnly value={apiKey?.token ?? ''} className="font-mono text-sm" />
+          <Button variant="outline" size="icon" onClick={handleCopy} title="Copy to clipboard">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function formatRelative(date: Date | string | null, fallback: string): string {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : fallback;
+}
+
+/**
+ * Named, scoped keys for the public API
+ * Only accessible to owners
+ */
+export function ApiKeysCard() {
+  const { data, isLoading } = useApiKeys();
+  const { data: servers } = useServers();
+  const revokeApiKey = useRevokeApiKey();
+  const [showCreate, setShowCreate] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+
+  const keys = data?.data ?? [];
+  const serverNames = new Map(servers?.map((server) => [server.id, server.name]));
+
+  const confirmRevoke = () => {
+    if (revoking) revokeApiKey.mutate(revoking.id);
+    setRevoking(null);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                API Keys
+              </CardTitle>
+              <CardDescription>
+                Access the Tracearr API for third-party integrations like Homarr, Home Assistant,
+                etc.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <RouterLink to="/api-docs">
+                <Button variant="outline" size="sm" className="gap-1.5">
+                  <ExternalLink className="h-3.5 w-3.5" />
+                  API Docs
+                </Button>
+              </RouterLink>
+              <Button size="sm" className="gap-1.5" onClick={() => setShowCreate(true)}>
+                <Plus className="h-3.5 w-3.5" />
+                New Key
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : keys.length === 0 ? (
+            <p className="text-muted-foreground py-4 text-center text-sm">
+              Create an API key to enable external integrations.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Access</TableHead>
+                  <TableHead>Server</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((key) => {
+                  const expired = !!key.expiresAt && new Date(key.expiresAt) <= new Date();
+                  return (
+                    <TableRow key={key.id}>
+                      <TableCell>
+                        <div className="font-medium">{key.name}</div>
+                        <div className="text-muted-foreground font-mono text-xs">
+                          {key.tokenPrefix}…
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex max-w-xs flex-wrap gap-1">
+                          {key.scopes.map((scope) => (
+                            <Badge
+                              key={scope}
+                              variant={scope.endsWith(':read') ? 'secondary' : 'outline'}
+                            >
+                              {SCOPE_LABELS[scope]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {key.serverId
+                          ? (serverNames.get(key.serverId) ?? 'Unknown server')
+                          : 'All servers'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-xs">
+                        {formatRelative(key.lastUsedAt, 'Never')}
+                      </TableCell>
+                      <TableCell className="text-right text-sm tabular-nums">
+                        {key.requestCount.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {expired ? (
+                          <Badge variant="destructive">Expired</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {formatRelative(key.expiresAt, 'Never')}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRevoking(key)}
+                          disabled={revokeApiKey.isPending}
+                          title="Revoke key"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateApiKeyDialog
+        open={showCreate}
+        onOpenChange={setShowCreate}
+        onCreated={setCreatedKey}
+      />
+      <NewTokenDialog apiKey={createdKey} onClose={() => setCreatedKey(null)} />
+      <ConfirmDialog
+        open={!!revoking}
+        onOpenChange={(open) => !open && setRevoking(null)}
+        title="Revoke API Key?"
+        description={`Integrations using “${revoking?.name ?? ''}” will stop working immediately.`}
+        confirmLabel="Revoke"
+        onConfirm={confirmRevoke}
+      />
+    </>
+  );
+}
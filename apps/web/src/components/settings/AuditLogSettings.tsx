@@ -0,0 +1,350 @@
+import { Fragment, useMemo, useState } from 'react';
+import { endOfDay, formatDistanceToNow, startOfDay, subDays } from 'date-fns';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditTargetType,
+} from '@tracearr/shared';
+import { ChevronDown, ChevronRight, ScrollText } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TimeRangePicker, type TimeRangeValue } from '@/components/ui/time-range-picker';
+import { useAuditLog, useUserAccess } from '@/hooks/queries';
+
+const PAGE_SIZE = 25;
+
+const ALL = 'all';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'rule.create': 'Rule created',
+  'rule.update': 'Rule updated',
+  'rule.delete': 'Rule deleted',
+  'rule.toggle': 'Rule toggled',
+  'violation.acknowledge': 'Violation acknowledged',
+  'violation.dismiss': 'Violation dismissed',
+  'user.trust_update': 'Trust score changed',
+  'user.trust_reset': 'Trust score reset',
+  'user.access_update': 'Access changed',
+  'rule_exemption.create': 'Rule exemption added',
+  'rule_exemption.revoke': 'Rule exemption revoked',
+  'settings.update': 'Settings changed',
+  'settings.api_key_regenerate': 'API key regenerated',
+  'api_key.create': 'API key created',
+  'api_key.revoke': 'API key revoked',
+  'server.create': 'Server added',
+  'server.delete': 'Server removed',
+  'destination.create': 'Notification destination added',
+  'destination.update': 'Notification destination changed',
+  'destination.delete': 'Notification destination deleted',
+  'session.terminate': 'Stream terminated',
+  'sessions.bulk_delete': 'Sessions deleted',
+  'debug.delete': 'Data cleared',
+  'debug.reset': 'Factory reset',
+};
+
+const TARGET_LABELS: Record<AuditTargetType, string> = {
+  rule: 'Rules',
+  violation: 'Violations',
+  server_user: 'Server users',
+  user: 'Accounts',
+  rule_exemption: 'Rule exemptions',
+  settings: 'Settings',
+  server: 'Servers',
+  destination: 'Notification destinations',
+  session: 'Sessions',
+  api_key: 'API keys',
+  system: 'System',
+};
+
+const PRESET_DAYS: Partial<Record<TimeRangeValue['period'], number>> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+/**
+ * Date bounds for the selected range (undefined = unbounded)
+ */
+function getDateBounds(range: TimeRangeValue): { startDate?: string; endDate?: string } {
+  if (range.period === 'custom' && range.startDate && range.endDate) {
+    return {
+      startDate: startOfDay(range.startDate).toISOString(),
+      endDate: endOfDay(range.endDate).toISOString(),
+    };
+  }
+  const days = PRESET_DAYS[range.period];
+  return days ? { startDate: startOfDay(subDays(new Date(), days)).toISOString() } : {};
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function EntryChanges({ entry }: { entry: AuditLogEntry }) {
+  const keys = [
+    ...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]),
+  ];
+
+  if (keys.length === 0) {
+    return <p className="text-muted-foreground py-2 text-xs">No field changes recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-2 py-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-40">Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {keys.map((key) => (
+            <TableRow key={key} className="hover:bg-transparent">
+              <TableCell className="font-mono text-xs">{key}</TableCell>
+              <TableCell className="max-w-xs font-mono text-xs break-all text-red-600 dark:text-red-400">
+                {entry.before ? formatValue(entry.before[key]) : '—'}
+              </TableCell>
+              <TableCell className="max-w-xs font-mono text-xs break-all text-green-600 dark:text-green-400">
+                {entry.after ? formatValue(entry.after[key]) : '—'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {entry.ipAddress && <p className="text-muted-foreground text-xs">From {entry.ipAddress}</p>}
+    </div>
+  );
+}
+
+/**
+ * Append-only record of administrative actions with filters and change details
+ */
+export function AuditLogSettings() {
+  const [page, setPage] = useState(1);
+  const [action, setAction] = useState<AuditAction | typeof ALL>(ALL);
+  const [targetType, setTargetType] = useState<AuditTargetType | typeof ALL>(ALL);
+  const [actorUserId, setActorUserId] = useState<string>(ALL);
+  const [timeRange, setTimeRange] = useState<TimeRangeValue>({ period: 'all' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: accounts } = useUserAccess();
+  const actors = useMemo(
+    () =>
+      (accounts ?? []).filter((account) => account.role !== 'member' && account.role !== 'pending'),
+    [accounts]
+  );
+
+  const { data, isLoading } = useAuditLog({
+    page,
+    pageSize: PAGE_SIZE,
+    action: action === ALL ? undefined : action,
+    targetType: targetType === ALL ? undefined : targetType,
+    actorUserId: actorUserId === ALL ? undefined : actorUserId,
+    ...getDateBounds(timeRange),
+  });
+
+  const entries = data?.data ?? [];
+  const totalPages = data?.totalPages ?? 0;
+  const filtered =
+    action !== ALL || targetType !== ALL || actorUserId !== ALL || timeRange.period !== 'all';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>
+          Who changed rules, violations, trust scores, access and data. Entries cannot be edited or
+          deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={action}
+            onValueChange={(next) => {
+              setAction(next as AuditAction | typeof ALL);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {AUDIT_ACTIONS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {ACTION_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={targetType}
+            onValueChange={(next) => {
+              setTargetType(next as AuditTargetType | typeof ALL);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All targets</SelectItem>
+              {AUDIT_TARGET_TYPES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {TARGET_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={actorUserId}
+            onValueChange={(next) => {
+              setActorUserId(next);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {actors.map((actor) => (
+                <SelectItem key={actor.id} value={actor.id}>
+                  {actor.name ?? actor.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <TimeRangePicker
+            value={timeRange}
+            onChange={(next) => {
+              setTimeRange(next);
+              setPage(1);
+            }}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground py-6 text-center text-sm">
+            {filtered ? 'No entries match these filters.' : 'No administrative actions yet.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead className="text-right">When</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    >
+                      <TableCell>
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{ACTION_LABELS[entry.action]}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate text-sm">
+                        {entry.targetLabel ?? entry.targetId ?? TARGET_LABELS[entry.targetType]}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        @{entry.actorUsername}
+                        {entry.apiKeyName && (
+                          <span className="text-muted-foreground text-xs">
+                            {' '}
+                            via {entry.apiKeyName}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right text-xs">
+                        {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell colSpan={5}>
+                          <EntryChanges entry={entry} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <span className="text-muted-foreground text-sm">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Archive,
+  CheckCircle2,
+  Clock,
+  Download,
+  Info,
+  Loader2,
+  Upload,
+  XCircle,
+} from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { useSocket } from '@/hooks/useSocket';
+import { FileDropzone } from '@/components/import';
+import type { BackupConflictStrategy, BackupRestoreProgress } from '@tracearr/shared';
+
+const ACCEPTED_BACKUP_EXTENSIONS = ['.tar.gz', '.tgz', '.gz'];
+
+function createProgress(
+  status: BackupRestoreProgress['status'],
+  message: string
+): BackupRestoreProgress {
+  return {
+    status,
+    processedBytes: 0,
+    totalBytes: 0,
+    restoredRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message,
+  };
+}
+
+function RestoreProgressCard({ progress }: { progress: BackupRestoreProgress }) {
+  const isWaiting = progress.status === 'waiting';
+  const isActive = progress.status === 'processing';
+  const isComplete = progress.status === 'complete';
+  const isError = progress.status === 'error';
+
+  const percentComplete =
+    progress.totalBytes > 0
+      ? Math.min(100, Math.round((progress.processedBytes / progress.totalBytes) * 100))
+      : 0;
+  const hasCounts =
+    progress.restoredRecords > 0 || progress.skippedRecords > 0 || progress.errorRecords > 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          {isWaiting
+            ? 'Waiting...'
+            : isComplete
+              ? 'Restore Complete'
+              : isError
+                ? 'Restore Failed'
+                : 'Restoring...'}
+        </span>
+        {isComplete && <CheckCircle2 className="h-5 w-5 text-green-600" />}
+        {isError && <XCircle className="text-destructive h-5 w-5" />}
+        {isWaiting && <Clock className="text-muted-foreground h-5 w-5 animate-pulse" />}
+        {isActive && <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />}
+      </div>
+
+      <p className={cn('text-sm', isError ? 'text-destructive' : 'text-muted-foreground')}>
+        {progress.message}
+      </p>
+
+      {isActive && progress.totalBytes > 0 && <Progress value={percentComplete} className="h-2" />}
+
+      {hasCounts && (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <span className="text-muted-foreground">Restored:</span>{' '}
+            <span className="font-medium text-green-600">
+              {progress.restoredRecords.toLocaleString()}
+            </span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Skipped:</span>{' '}
+            <span className="font-medium">{progress.skippedRecords.toLocaleString()}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Errors:</span>{' '}
+            <span className={cn('font-medium', progress.errorRecords > 0 && 'text-destructive')}>
+              {progress.errorRecords.toLocaleString()}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function BackupSettings() {
+  const { socket } = useSocket();
+  const [isPreparingDownload, setIsPreparingDownload] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [conflictStrategy, setConflictStrategy] = useState<BackupConflictStrategy>('skip');
+  const [progress, setProgress] = useState<BackupRestoreProgress | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Recover an in-flight restore after navigation or page refresh
+  useEffect(() => {
+    const checkActiveRestore = async () => {
+      try {
+        const result = await api.backup.restore.getActive();
+        if (result.active) {
+          setIsRestoring(true);
+          setProgress(result.progress ?? createProgress('processing', 'Restore in progress...'));
+        }
+      } catch {
+        // Ignore errors
+      }
+    };
+
+    void checkActiveRestore();
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleProgress = (update: BackupRestoreProgress) => {
+      setProgress(update);
+      if (update.status === 'complete' || update.status === 'error') {
+        setIsRestoring(false);
+        setSelectedFile(null);
+      }
+    };
+
+    socket.on('backup:restore:progress', handleProgress);
+    return () => {
+      socket.off('backup:restore:progress', handleProgress);
+    };
+  }, [socket]);
+
+  const handleDownload = async () => {
+    setIsPreparingDownload(true);
+    try {
+      // Any authenticated request refreshes an expired access token before it goes in the URL
+      await api.backup.restore.getActive();
+      window.location.href = api.backup.exportUrl();
+    } finally {
+      setIsPreparingDownload(false);
+    }
+  };
+
+  const handleFileSelect = (file: File | null) => {
+    const name = file?.name.toLowerCase();
+    if (name && !ACCEPTED_BACKUP_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+      setProgress(createProgress('error', 'Please select a Tracearr backup (.tar.gz) file'));
+      return;
+    }
+    setSelectedFile(file);
+    if (file) {
+      setProgress(null);
+    }
+  };
+
+  const handleStartRestore = async () => {
+    if (!selectedFile) return;
+
+    setIsRestoring(true);
+    setProgress(createProgress('processing', 'Uploading backup...'));
+
+    try {
+      await api.backup.restore.start(selectedFile, conflictStrategy);
+    } catch (err) {
+      setIsRestoring(false);
+      setProgress(createProgress('error', err instanceof Error ? err.message : 'Restore failed'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Export Backup
+          </CardTitle>
+          <CardDescription>
+            Download all users, sessions, rules, violations and settings as a single archive
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button onClick={handleDownload} disabled={isPreparingDownload}>
+            {isPreparingDownload ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Download Backup
+          </Button>
+
+          <div className="bg-muted/50 flex gap-3 rounded-lg p-4">
+            <Info className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+            <p className="text-muted-foreground text-sm">
+              Server tokens, webhook secrets, passwords, API keys and the Tautulli API key are never
+              included. After restoring onto a new install, add your media servers again before
+              restoring so their history can be matched.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Restore Backup
+          </CardTitle>
+          <CardDescription>
+            Restore an archive downloaded from Tracearr into this instance
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FileDropzone
+            accept={ACCEPTED_BACKUP_EXTENSIONS.join(',')}
+            maxSize={4 * 1024 * 1024 * 1024}
+            onFileSelect={handleFileSelect}
+            selectedFile={selectedFile}
+            disabled={isRestoring}
+          />
+
+          <div className="space-y-2 sm:w-80">
+            <Label>When a record already exists</Label>
+            <Select
+              value={conflictStrategy}
+              onValueChange={(value) => setConflictStrategy(value as BackupConflictStrategy)}
+              disabled={isRestoring}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Keep the existing record</SelectItem>
+                <SelectItem value="overwrite">Replace it with the backup</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={handleStartRestore}
+            disabled={!selectedFile || isRestoring}
+            variant="outline"
+          >
+            {isRestoring ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Restore Backup
+              </>
+            )}
+          </Button>
+
+          {progress && <RestoreProgressCard progress={progress} />}
+
+          <div className="bg-muted/50 flex gap-3 rounded-lg p-4">
+            <Info className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+            <p className="text-muted-foreground text-sm">
+              Servers are matched to the ones configured here; data for servers that are not
+              configured is skipped. Users are matched by their server accounts, email or Plex
+              account and existing users are never changed. Restoring the same backup twice is safe.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,7 @@
 /**
- * General settings section - appearance, application settings, network, and API key.
+ * General settings section - appearance, application settings, network, and API keys.
  */
 import { useState } from 'react';
-import { Link as RouterLink } from 'react-router';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,15 +20,10 @@ import {
   AutosaveSwitchField,
   SaveStatusIndicator,
 } from '@/components/ui/autosave-field';
-import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import {
-  RefreshCw,
   ExternalLink,
-  Loader2,
-  Copy,
   Globe,
   AlertTriangle,
-  KeyRound,
   Sun,
   Moon,
   Monitor,
@@ -39,12 +33,14 @@ import {
   Settings as SettingsIcon,
   Languages,
   Clock,
+  ShieldCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { toast } from 'sonner';
 import { useTheme, ACCENT_PRESETS } from '@/components/theme-provider';
 import { useDebouncedSave, TEXT_INPUT_DELAY } from '@/hooks/useDebouncedSave';
-import { useSettings, useApiKey, useRegenerateApiKey } from '@/hooks/queries';
+import { useSettings } from '@/hooks/queries';
+import { usePermissions } from '@/hooks/usePermissions';
+import { ApiKeysCard } from './ApiKeysCard';
 import {
   languageNames,
   getCurrentLanguage,
@@ -64,120 +60,6 @@ const THEME_MODES: { value: ThemeMode; label: string; icon: typeof Sun; isDefaul
   { value: 'system', label: 'System', icon: Monitor },
 ];
 
-function ApiKeyCard() {
-  const { data: apiKeyData, isLoading } = useApiKey();
-  const regenerateApiKey = useRegenerateApiKey();
-  const [showConfirm, setShowConfirm] = useState(false);
-
-  const token = apiKeyData?.token;
-  const hasKey = !!token;
-
-  const handleCopy = async () => {
-    if (token) {
-      try {
-        await navigator.clipboard.writeText(token);
-        toast.success('Copied to clipboard');
-      } catch {
-        toast.error('Failed to copy to clipboard');
-      }
-    }
-  };
-
-  const handleRegenerate = () => {
-    if (hasKey) {
-      setShowConfirm(true);
-    } else {
-      regenerateApiKey.mutate();
-    }
-  };
-
-  const confirmRegenerate = () => {
-    regenerateApiKey.mutate();
-    setShowConfirm(false);
-  };
-
-  return (
-    <>
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle className="flex items-center gap-2">
-                <KeyRound className="h-5 w-5" />
-                API Key
-              </CardTitle>
-              <CardDescription>
-                Access the Tracearr API for third-party integrations like Homarr, Home Assistant,
-                etc.
-              </CardDescription>
-            </div>
-            <RouterLink to="/api-docs">
-              <Button variant="outline" size="sm" className="gap-1.5">
-                <ExternalLink className="h-3.5 w-3.5" />
-                API Docs
-              </Button>
-            </RouterLink>
-          </div>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {isLoading ? (
-            <Skeleton className="h-10 w-full" />
-          ) : (
-            <div className="space-y-3">
-              <div className="flex gap-2">
-                <Input
-                  readOnly
-                  value={token ?? ''}
-                  placeholder="No API key generated"
-                  className="font-mono text-sm"
-                />
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={handleCopy}
-                  disabled={!hasKey}
-                  title="Copy to clipboard"
-                >
-                  <Copy className="h-4 w-4" />
-                </Button>
-              </div>
-              <div className="flex items-center justify-between">
-                <p className="text-muted-foreground text-sm">
-                  {hasKey
-                    ? 'Your API key grants full read access to your Tracearr data.'
-                    : 'Generate an API key to enable external integrations.'}
-                </p>
-                <Button
-                  variant={hasKey ? 'outline' : 'default'}
-                  size="sm"
-                  onClick={handleRegenerate}
-                  disabled={regenerateApiKey.isPending}
-                >
-                  {regenerateApiKey.isPending ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                  )}
-                  {hasKey ? 'Regenerate' : 'Generate Key'}
-                </Button>
-              </div>
-            </div>
-          )}
-        </CardContent>
-      </Card>
-
-      <ConfirmDialog
-        open={showConfirm}
-        onOpenChange={setShowConfirm}
-        title="Regenerate API Key?"
-        description="This will invalidate your current API key. Any integrations using the old key will stop working."
-        confirmLabel="Regenerate"
-        onConfirm={confirmRegenerate}
-      />
-    </>
-  );
-}
-
 /**
  * Language selector field with localStorage persistence.
  */
@@ -257,8 +139,127 @@ function TimeFormatField() {
   );
 }
 
+function TrustRecoveryCard() {
+  const { data: settings } = useSettings();
+
+  const enabledField = useDebouncedSave('trustRecoveryEnabled', settings?.trustRecoveryEnabled);
+  const pointsField = useDebouncedSave('trustRecoveryPoints', settings?.trustRecoveryPoints, {
+    delay: TEXT_INPUT_DELAY,
+    transform: (v) => Math.max(1, Math.min(100, v)),
+  });
+  const intervalField = useDebouncedSave(
+    'trustRecoveryIntervalDays',
+    settings?.trustRecoveryIntervalDays,
+    { delay: TEXT_INPUT_DELAY, transform: (v) => Math.max(1, Math.min(365, v)) }
+  );
+  const floorField = useDebouncedSave('trustRecoveryFloor', settings?.trustRecoveryFloor, {
+    delay: TEXT_INPUT_DELAY,
+    transform: (v) => Math.max(0, Math.min(100, v)),
+  });
+  const capField = useDebouncedSave('trustRecoveryCap', settings?.trustRecoveryCap, {
+    delay: TEXT_INPUT_DELAY,
+    transform: (v) => Math.max(1, Math.min(100, v)),
+  });
+
+  const enabled = enabledField.value ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Trust Score Recovery
+        </CardTitle>
+        <CardDescription>
+          Gradually restore trust to users who stay clear of violations
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          <AutosaveSwitchField
+            id="trustRecoveryEnabled"
+            label="Automatic Recovery"
+            description="Checked daily. Every change is recorded in the user's trust score history."
+            checked={enabled}
+            onChange={(v) => enabledField.setValue(v)}
+            status={enabledField.status}
+            errorMessage={enabledField.errorMessage}
+            onRetry={enabledField.retry}
+            onReset={enabledField.reset}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <AutosaveNumberField
+              id="trustRecoveryPoints"
+              label="Points Restored"
+              description="Added after each clean period (1-100)"
+              value={pointsField.value ?? 5}
+              onChange={(v) => pointsField.setValue(v)}
+              min={1}
+              max={100}
+              suffix="pts"
+              disabled={!enabled}
+              status={pointsField.status}
+              errorMessage={pointsField.errorMessage}
+              onRetry={pointsField.retry}
+              onReset={pointsField.reset}
+            />
+
+            <AutosaveNumberField
+              id="trustRecoveryIntervalDays"
+              label="Clean Period"
+              description="Days without violations before each recovery (1-365)"
+              value={intervalField.value ?? 7}
+              onChange={(v) => intervalField.setValue(v)}
+              min={1}
+              max={365}
+              suffix="days"
+              disabled={!enabled}
+              status={intervalField.status}
+              errorMessage={intervalField.errorMessage}
+              onRetry={intervalField.retry}
+              onReset={intervalField.reset}
+            />
+
+            <AutosaveNumberField
+              id="trustRecoveryFloor"
+              label="Floor"
+              description="Users below this score are left for manual review"
+              value={floorField.value ?? 0}
+              onChange={(v) => floorField.setValue(v)}
+              min={0}
+              max={100}
+              disabled={!enabled}
+              status={floorField.status}
+              errorMessage={floorField.errorMessage}
+              onRetry={floorField.retry}
+              onReset={floorField.reset}
+            />
+
+            <AutosaveNumberField
+              id="trustRecoveryCap"
+              label="Cap"
+              description="Recovery never raises a score above this"
+              value={capField.value ?? 100}
+              onChange={(v) => capField.setValue(v)}
+              min={1}
+              max={100}
+              disabled={!enabled}
+              status={capField.status}
+              errorMessage={capField.errorMessage}
+              onRetry={capField.retry}
+              onReset={capField.reset}
+            />
+          </div>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function GeneralSettings() {
   const { data: settings, isLoading } = useSettings();
+  const { can } = usePermissions();
   const { theme, setTheme, accentHue, setAccentHue } = useTheme();
 
   // General settings fields
@@ -488,8 +489,8 @@ export function GeneralSettings() {
                 fallback if the connection fails.
               </p>
               <p className="text-muted-foreground text-sm">
-                <strong>Jellyfin/Emby:</strong> Uses the sync interval above for session detection.
-                Lower values provide faster updates but increase server load.
+                <strong>Jellyfin/Emby:</strong> Uses real-time updates via WebSocket. The sync
+                interval above is used if the WebSocket connection fails.
               </p>
             </div>
 
@@ -508,6 +509,9 @@ export function GeneralSettings() {
         </CardContent>
       </Card>
 
+      {/* Trust Score Recovery */}
+      <TrustRecoveryCard />
+
       {/* Network / External Access */}
       <Card>
         <CardHeader>
@@ -592,8 +596,8 @@ export function GeneralSettings() {
         </CardContent>
       </Card>
 
-      {/* API Key */}
-      <ApiKeyCard />
+      {/* API Keys */}
+      {can('api_keys:manage') && <ApiKeysCard />}
     </div>
   );
 }
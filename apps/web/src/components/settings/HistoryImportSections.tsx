@@ -0,0 +1,731 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, CheckCircle2, History, Loader2, Upload, Info } from 'lucide-react';
+import { MediaServerIcon } from '@/components/icons/MediaServerIcon';
+import { api } from '@/lib/api';
+import { useSocket } from '@/hooks/useSocket';
+import { ImportProgressCard, FileDropzone, type ImportProgressData } from '@/components/import';
+import type {
+  Server,
+  HistoryImportProgress,
+  FileImportField,
+  FileImportMapping,
+  FileImportPreview,
+  FileImportRowValidation,
+} from '@tracearr/shared';
+
+const ACCEPTED_PLAYBACK_REPORTING_EXTENSIONS = ['.tsv', '.csv', '.txt'];
+const ACCEPTED_HISTORY_FILE_EXTENSIONS = ['.csv', '.tsv', '.txt', '.json', '.ndjson'];
+
+// Radix Select does not allow an empty item value
+const UNMAPPED = '__unmapped__';
+
+const FILE_IMPORT_FIELD_OPTIONS: { field: FileImportField; label: string; required?: boolean }[] = [
+  { field: 'user', label: 'User', required: true },
+  { field: 'title', label: 'Title', required: true },
+  { field: 'startedAt', label: 'Started at', required: true },
+  { field: 'stoppedAt', label: 'Stopped at' },
+  { field: 'duration', label: 'Duration (seconds or h:mm:ss)' },
+  { field: 'mediaType', label: 'Media type' },
+  { field: 'showTitle', label: 'Show / artist' },
+  { field: 'seasonNumber', label: 'Season' },
+  { field: 'episodeNumber', label: 'Episode' },
+  { field: 'year', label: 'Year' },
+  { field: 'ratingKey', label: 'Item ID' },
+  { field: 'ipAddress', label: 'IP address' },
+  { field: 'player', label: 'Player' },
+  { field: 'device', label: 'Device' },
+  { field: 'platform', label: 'Platform' },
+];
+
+function createProgress(
+  status: HistoryImportProgress['status'],
+  message: string
+): HistoryImportProgress {
+  return {
+    status,
+    totalRecords: 0,
+    processedRecords: 0,
+    importedRecords: 0,
+    skippedRecords: 0,
+    errorRecords: 0,
+    message,
+  };
+}
+
+function toProgressData(progress: HistoryImportProgress | null): ImportProgressData | null {
+  if (!progress) return null;
+  return {
+    status: progress.status === 'parsing' ? 'processing' : progress.status,
+    message: progress.message,
+    totalRecords: progress.totalRecords,
+    processedRecords: progress.processedRecords,
+    importedRecords: progress.importedRecords,
+    skippedRecords: progress.skippedRecords,
+    errorRecords: progress.errorRecords,
+    waitingFor: progress.waitingFor,
+  };
+}
+
+function activeProgress(progress: number | object | undefined): HistoryImportProgress {
+  const percent = typeof progress === 'number' ? progress : 0;
+  return createProgress(
+    'processing',
+    percent > 0 ? `Import in progress (${percent}% complete)...` : 'Import in progress...'
+  );
+}
+
+interface ServerSelectProps {
+  servers: Server[];
+  value: string;
+  onValueChange: (id: string) => void;
+  placeholder: string;
+  disabled?: boolean;
+}
+
+function ServerSelect({ servers, value, onValueChange, placeholder, disabled }: ServerSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {servers.map((server) => (
+          <SelectItem key={server.id} value={server.id}>
+            <div className="flex items-center gap-2">
+              <MediaServerIcon type={server.type} className="h-4 w-4" />
+              {server.name}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Plex history import - reads the Plex server's own play history, no Tautulli required
+interface PlexHistoryImportSectionProps {
+  plexServers: Server[];
+}
+
+export function PlexHistoryImportSection({ plexServers }: PlexHistoryImportSectionProps) {
+  const { socket } = useSocket();
+  const [selectedServerId, setSelectedServerId] = useState('');
+  const [progress, setProgress] = useState<HistoryImportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Recover an in-flight import after navigation or page refresh
+  useEffect(() => {
+    if (plexServers.length === 0) return;
+
+    const checkActiveImports = async () => {
+      for (const server of plexServers) {
+        try {
+          const result = await api.import.plexHistory.getActive(server.id);
+          if (result.active && result.jobId) {
+            setSelectedServerId(server.id);
+            setIsImporting(true);
+            setProgress(activeProgress(result.progress));
+            break;
+          }
+        } catch {
+          // Ignore errors
+        }
+      }
+    };
+
+    void checkActiveImports();
+  }, [plexServers.length]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleProgress = (update: HistoryImportProgress) => {
+      setProgress(update);
+      if (update.status === 'complete' || update.status === 'error') {
+        setIsImporting(false);
+      }
+    };
+
+    socket.on('import:plex-history:progress', handleProgress);
+    return () => {
+      socket.off('import:plex-history:progress', handleProgress);
+    };
+  }, [socket]);
+
+  const handleStartImport = async () => {
+    if (!selectedServerId) return;
+
+    setIsImporting(true);
+    setProgress(createProgress('fetching', 'Starting import...'));
+
+    try {
+      await api.import.plexHistory.start(selectedServerId);
+    } catch (err) {
+      setIsImporting(false);
+      setProgress(createProgress('error', err instanceof Error ? err.message : 'Import failed'));
+    }
+  };
+
+  const progressData = toProgressData(progress);
+
+  return (
+    <div className="space-y-4 border-t pt-6">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        No Tautulli? Import Plex&apos;s own watch history
+      </div>
+
+      <div className="ml-6 space-y-4">
+        <p className="text-muted-foreground text-sm">
+          Reads the play history Plex keeps for every account on the server. Plex only records when
+          an item was marked watched, so imported plays have no stream details, IP address, or
+          partial watches.
+        </p>
+
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <div className="sm:w-80">
+            <ServerSelect
+              servers={plexServers}
+              value={selectedServerId}
+              onValueChange={setSelectedServerId}
+              placeholder="Select a Plex server"
+              disabled={isImporting}
+            />
+          </div>
+          <Button
+            onClick={handleStartImport}
+            disabled={!selectedServerId || isImporting}
+            variant="outline"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <History className="mr-2 h-4 w-4" />
+                Import Plex History
+              </>
+            )}
+          </Button>
+        </div>
+
+        {progressData && <ImportProgressCard progress={progressData} />}
+
+        <div className="bg-muted/50 flex gap-3 rounded-lg p-4">
+          <Info className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+          <p className="text-muted-foreground text-sm">
+            Plays that overlap a session Tracearr already tracked or imported from Tautulli are
+            skipped, so it is safe to run both imports.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Playback Reporting import - Jellyfin/Emby plugin backup or PlaybackActivity export
+interface PlaybackReportingImportSectionProps {
+  jellyfinEmbyServers: Server[];
+}
+
+export function PlaybackReportingImportSection({
+  jellyfinEmbyServers,
+}: PlaybackReportingImportSectionProps) {
+  const { socket } = useSocket();
+  const [selectedServerId, setSelectedServerId] = useState('');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<HistoryImportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Recover an in-flight import after navigation or page refresh
+  useEffect(() => {
+    if (jellyfinEmbyServers.length === 0) return;
+
+    const checkActiveImports = async () => {
+      for (const server of jellyfinEmbyServers) {
+        try {
+          const result = await api.import.playbackReporting.getActive(server.id);
+          if (result.active && result.jobId) {
+            setSelectedServerId(server.id);
+            setIsImporting(true);
+            setProgress(activeProgress(result.progress));
+            break;
+          }
+        } catch {
+          // Ignore errors
+        }
+      }
+    };
+
+    void checkActiveImports();
+  }, [jellyfinEmbyServers.length]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleProgress = (update: HistoryImportProgress) => {
+      setProgress(update);
+      if (update.status === 'complete' || update.status === 'error') {
+        setIsImporting(false);
+        setSelectedFile(null);
+      }
+    };
+
+    socket.on('import:playback-reporting:progress', handleProgress);
+    return () => {
+      socket.off('import:playback-reporting:progress', handleProgress);
+    };
+  }, [socket]);
+
+  const handleFileSelect = (file: File | null) => {
+    const name = file?.name.toLowerCase();
+    if (name && !ACCEPTED_PLAYBACK_REPORTING_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+      setProgress(createProgress('error', 'Please select a TSV or CSV file'));
+      return;
+    }
+    setSelectedFile(file);
+    if (file) {
+      setProgress(null);
+    }
+  };
+
+  const handleStartImport = async () => {
+    if (!selectedServerId || !selectedFile) return;
+
+    setIsImporting(true);
+    setProgress(createProgress('processing', 'Uploading backup file...'));
+
+    try {
+      await api.import.playbackReporting.start(selectedServerId, selectedFile);
+    } catch (err) {
+      setIsImporting(false);
+      setProgress(createProgress('error', err instanceof Error ? err.message : 'Import failed'));
+    }
+  };
+
+  const progressData = toProgressData(progress);
+
+  return (
+    <div className="space-y-4 border-t pt-6">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        Import from the Playback Reporting plugin
+      </div>
+
+      <div className="ml-6 space-y-4">
+        <ServerSelect
+          servers={jellyfinEmbyServers}
+          value={selectedServerId}
+          onValueChange={setSelectedServerId}
+          placeholder="Select a Jellyfin or Emby server"
+          disabled={isImporting}
+        />
+
+        <FileDropzone
+          accept={ACCEPTED_PLAYBACK_REPORTING_EXTENSIONS.join(',')}
+          maxSize={500 * 1024 * 1024}
+          onFileSelect={handleFileSelect}
+          selectedFile={selectedFile}
+          disabled={isImporting}
+        />
+
+        <div className="rounded-lg border border-blue-500/20 bg-blue-500/5 p-3">
+          <p className="text-sm font-medium text-blue-600 dark:text-blue-400">
+            Save a backup from Playback Reporting
+          </p>
+          <p className="text-muted-foreground mt-1 text-xs">
+            In the plugin&apos;s settings page, use the <strong>Backup</strong> option to save a
+            backup file. A CSV/TSV export of the PlaybackActivity table with a header row also
+            works. The raw playback_reporting.db file cannot be uploaded directly.
+          </p>
+        </div>
+
+        <Button
+          onClick={handleStartImport}
+          disabled={!selectedServerId || !selectedFile || isImporting}
+          variant="outline"
+        >
+          {isImporting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Import Playback Reporting
+            </>
+          )}
+        </Button>
+
+        {progressData && <ImportProgressCard progress={progressData} />}
+
+        <div className="bg-muted/50 flex gap-3 rounded-lg p-4">
+          <Info className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+          <p className="text-muted-foreground text-sm">
+            Timestamps are read in Tracearr&apos;s timezone, matching how the plugin stores them.
+            Plays that overlap a session Tracearr already has (live tracking or Jellystat) are
+            skipped.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  const minutes = Math.round(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// Generic history file import - CSV/JSON from spreadsheets or custom loggers, any server type
+interface FileImportSectionProps {
+  servers: Server[];
+}
+
+export function FileImportSection({ servers }: FileImportSectionProps) {
+  const { socket } = useSocket();
+  const [step, setStep] = useState<'upload' | 'map' | 'review'>('upload');
+  const [selectedServerId, setSelectedServerId] = useState('');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<FileImportPreview | null>(null);
+  const [mapping, setMapping] = useState<FileImportMapping>({});
+  const [validation, setValidation] = useState<FileImportRowValidation[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<HistoryImportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Recover an in-flight import after navigation or page refresh
+  useEffect(() => {
+    if (servers.length === 0) return;
+
+    const checkActiveImports = async () => {
+      for (const server of servers) {
+        try {
+          const result = await api.import.file.getActive(server.id);
+          if (result.active && result.jobId) {
+            setSelectedServerId(server.id);
+            setIsImporting(true);
+            setProgress(activeProgress(result.progress));
+            break;
+          }
+        } catch {
+          // Ignore errors
+        }
+      }
+    };
+
+    void checkActiveImports();
+  }, [servers.length]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleProgress = (update: HistoryImportProgress) => {
+      setProgress(update);
+      if (update.status === 'complete' || update.status === 'error') {
+        setIsImporting(false);
+      }
+    };
+
+    socket.on('import:file:progress', handleProgress);
+    return () => {
+      socket.off('import:file:progress', handleProgress);
+    };
+  }, [socket]);
+
+  const reset = () => {
+    setStep('upload');
+    setSelectedFile(null);
+    setPreview(null);
+    setMapping({});
+    setValidation(null);
+    setError(null);
+  };
+
+  const handleFileSelect = async (file: File | null) => {
+    const name = file?.name.toLowerCase();
+    if (name && !ACCEPTED_HISTORY_FILE_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+      setError('Please select a CSV, TSV or JSON file');
+      return;
+    }
+    if (!file) {
+      reset();
+      return;
+    }
+
+    setSelectedFile(file);
+    setProgress(null);
+    setError(null);
+    setIsBusy(true);
+
+    try {
+      const result = await api.import.file.preview(file);
+      if (result.totalRows === 0) {
+        setError('No rows found in file');
+        return;
+      }
+      setPreview(result);
+      setMapping(result.suggestedMapping);
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMappingChange = (field: FileImportField, column: string) => {
+    setMapping((current) =>
+      column === UNMAPPED
+        ? Object.fromEntries(Object.entries(current).filter(([key]) => key !== field))
+        : { ...current, [field]: column }
+    );
+  };
+
+  const handleValidate = async () => {
+    if (!preview) return;
+
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const result = await api.import.file.validate(
+        mapping,
+        preview.sampleRows,
+        selectedServerId || undefined
+      );
+      setValidation(result.rows);
+      setStep('review');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartImport = async () => {
+    if (!selectedServerId || !selectedFile) return;
+
+    setIsImporting(true);
+    setProgress(createProgress('processing', 'Uploading history file...'));
+
+    try {
+      await api.import.file.start(selectedServerId, selectedFile, mapping);
+      reset();
+    } catch (err) {
+      setIsImporting(false);
+      setProgress(createProgress('error', err instanceof Error ? err.message : 'Import failed'));
+    }
+  };
+
+  const requiredMapped = FILE_IMPORT_FIELD_OPTIONS.every(
+    (option) => !option.required || mapping[option.field]
+  );
+  const invalidRows = validation?.filter((row) => row.errors.length > 0).length ?? 0;
+  const progressData = toProgressData(progress);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        For history kept in spreadsheets or your own logger. Upload the file, match its columns to
+        session fields, and check the first rows before importing.
+      </p>
+
+      <div className="sm:w-80">
+        <ServerSelect
+          servers={servers}
+          value={selectedServerId}
+          onValueChange={setSelectedServerId}
+          placeholder="Select the server the plays belong to"
+          disabled={isImporting || step !== 'upload'}
+        />
+      </div>
+
+      {step === 'upload' && (
+        <FileDropzone
+          accept={ACCEPTED_HISTORY_FILE_EXTENSIONS.join(',')}
+          maxSize={500 * 1024 * 1024}
+          onFileSelect={(file) => void handleFileSelect(file)}
+          selectedFile={selectedFile}
+          disabled={isImporting || isBusy}
+        />
+      )}
+
+      {step === 'map' && preview && (
+        <div className="space-y-4">
+          <p className="text-muted-foreground text-sm">
+            {selectedFile?.name}: {preview.totalRows.toLocaleString()} rows,{' '}
+            {preview.columns.length} columns. Fields marked * are required.
+          </p>
+
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {FILE_IMPORT_FIELD_OPTIONS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-1">
+                <Label className="text-xs">
+                  {label}
+                  {required && ' *'}
+                </Label>
+                <Select
+                  value={mapping[field] ?? UNMAPPED}
+                  onValueChange={(value) => handleMappingChange(field, value)}
+                  disabled={isBusy}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {preview.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={reset} disabled={isBusy}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Choose another file
+            </Button>
+            <Button variant="outline" onClick={handleValidate} disabled={!requiredMapped || isBusy}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview rows
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && validation && (
+        <div className="space-y-4">
+          <p className="text-muted-foreground text-sm">
+            First {validation.length} of {preview?.totalRows.toLocaleString()} rows as they will be
+            imported.{' '}
+            {invalidRows > 0
+              ? `${invalidRows} of these rows have problems and will be skipped.`
+              : 'No problems found.'}
+          </p>
+
+          <div className="max-h-96 overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {validation.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                    <TableCell>{row.session?.user ?? '—'}</TableCell>
+                    <TableCell>
+                      {row.session
+                        ? row.session.showTitle
+                          ? `${row.session.showTitle} - ${row.session.title}`
+                          : row.session.title
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {row.session ? new Date(row.session.startedAt).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell>{formatDuration(row.session?.durationMs ?? null)}</TableCell>
+                    <TableCell>
+                      {row.errors.length === 0 ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <div className="flex flex-col gap-1">
+                          {row.errors.map((message) => (
+                            <Badge key={message} variant="danger" className="w-fit">
+                              {message}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setStep('map')} disabled={isImporting}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to columns
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleStartImport}
+              disabled={!selectedServerId || isImporting}
+            >
+              {isImporting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import {preview?.totalRows.toLocaleString()} rows
+                </>
+              )}
+            </Button>
+          </div>
+          {!selectedServerId && (
+            <p className="text-muted-foreground text-sm">Select a server to start the import.</p>
+          )}
+        </div>
+      )}
+
+      {isBusy && step === 'upload' && (
+        <p className="text-muted-foreground flex items-center gap-2 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Reading file...
+        </p>
+      )}
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {progressData && <ImportProgressCard progress={progressData} />}
+
+      <div className="bg-muted/50 flex gap-3 rounded-lg p-4">
+        <Info className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+        <p className="text-muted-foreground text-sm">
+          Users are matched by username, email or server user ID. Times without a timezone are read
+          in Tracearr&apos;s timezone. Rows already imported, or overlapping a session Tracearr
+          already has, are skipped, so re-importing the same file is safe.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -22,11 +22,17 @@ import {
   AlertTriangle,
   Upload,
   Info,
+  FileSpreadsheet,
 } from 'lucide-react';
 import { MediaServerIcon } from '@/components/icons/MediaServerIcon';
 import { api } from '@/lib/api';
 import { useSocket } from '@/hooks/useSocket';
 import { ImportProgressCard, FileDropzone, type ImportProgressData } from '@/components/import';
+import {
+  PlexHistoryImportSection,
+  PlaybackReportingImportSection,
+  FileImportSection,
+} from './HistoryImportSections';
 import type { Server, TautulliImportProgress, JellystatImportProgress } from '@tracearr/shared';
 import { useSettings, useUpdateSettings, useServers } from '@/hooks/queries';
 
@@ -894,31 +900,75 @@ export function ImportSettings() {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Download className="h-5 w-5" />
-          Import History
-        </CardTitle>
-        <CardDescription>
-          Import historical watch data from external sources like Tautulli or Jellystat
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        {hasBothServerTypes ? (
-          <Tabs defaultValue={defaultTab} className="w-full">
-            <TabsList className="mb-6 grid w-full grid-cols-2">
-              <TabsTrigger value="plex" className="flex items-center gap-2">
-                <MediaServerIcon type="plex" className="h-4 w-4" />
-                Plex (Tautulli)
-              </TabsTrigger>
-              <TabsTrigger value="jellyfin" className="flex items-center gap-2">
-                <MediaServerIcon type="jellyfin" className="h-4 w-4" />
-                Jellyfin/Emby (Jellystat)
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="plex" className="mt-0 space-y-6">
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Import History
+          </CardTitle>
+          <CardDescription>
+            Import historical watch data from Tautulli, Jellystat, Playback Reporting, or Plex
+            itself
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hasBothServerTypes ? (
+            <Tabs defaultValue={defaultTab} className="w-full">
+              <TabsList className="mb-6 grid w-full grid-cols-2">
+                <TabsTrigger value="plex" className="flex items-center gap-2">
+                  <MediaServerIcon type="plex" className="h-4 w-4" />
+                  Plex (Tautulli)
+                </TabsTrigger>
+                <TabsTrigger value="jellyfin" className="flex items-center gap-2">
+                  <MediaServerIcon type="jellyfin" className="h-4 w-4" />
+                  Jellyfin/Emby (Jellystat)
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="plex" className="mt-0 space-y-6">
+                <TautulliImportSection
+                  tautulliUrl={tautulliUrl}
+                  setTautulliUrl={setTautulliUrl}
+                  tautulliApiKey={tautulliApiKey}
+                  setTautulliApiKey={setTautulliApiKey}
+                  connectionStatus={connectionStatus}
+                  connectionMessage={connectionMessage}
+                  handleTestConnection={handleTestConnection}
+                  plexServers={plexServers}
+                  selectedPlexServerId={selectedPlexServerId}
+                  setSelectedPlexServerId={setSelectedPlexServerId}
+                  isTautulliImporting={isTautulliImporting}
+                  overwriteFriendlyNames={overwriteFriendlyNames}
+                  setOverwriteFriendlyNames={setOverwriteFriendlyNames}
+                  includeStreamDetails={includeStreamDetails}
+                  setIncludeStreamDetails={setIncludeStreamDetails}
+                  handleStartTautulliImport={handleStartTautulliImport}
+                  tautulliProgressData={tautulliProgressData}
+                />
+                <PlexHistoryImportSection plexServers={plexServers} />
+              </TabsContent>
+
+              <TabsContent value="jellyfin" className="mt-0 space-y-6">
+                <JellystatImportSection
+                  jellyfinEmbyServers={jellyfinEmbyServers}
+                  selectedJellyfinServerId={selectedJellyfinServerId}
+                  setSelectedJellyfinServerId={setSelectedJellyfinServerId}
+                  selectedFile={selectedFile}
+                  handleFileSelect={handleFileSelect}
+                  enrichMedia={enrichMedia}
+                  setEnrichMedia={setEnrichMedia}
+                  updateStreamDetails={updateStreamDetails}
+                  setUpdateStreamDetails={setUpdateStreamDetails}
+                  isJellystatImporting={isJellystatImporting}
+                  handleStartJellystatImport={handleStartJellystatImport}
+                  jellystatProgressData={jellystatProgressData}
+                />
+                <PlaybackReportingImportSection jellyfinEmbyServers={jellyfinEmbyServers} />
+              </TabsContent>
+            </Tabs>
+          ) : hasPlexServers ? (
+            <div className="space-y-6">
               <TautulliImportSection
                 tautulliUrl={tautulliUrl}
                 setTautulliUrl={setTautulliUrl}
@@ -938,9 +988,10 @@ export function ImportSettings() {
                 handleStartTautulliImport={handleStartTautulliImport}
                 tautulliProgressData={tautulliProgressData}
               />
-            </TabsContent>
-
-            <TabsContent value="jellyfin" className="mt-0 space-y-6">
+              <PlexHistoryImportSection plexServers={plexServers} />
+            </div>
+          ) : (
+            <div className="space-y-6">
               <JellystatImportSection
                 jellyfinEmbyServers={jellyfinEmbyServers}
                 selectedJellyfinServerId={selectedJellyfinServerId}
@@ -955,45 +1006,26 @@ export function ImportSettings() {
                 handleStartJellystatImport={handleStartJellystatImport}
                 jellystatProgressData={jellystatProgressData}
               />
-            </TabsContent>
-          </Tabs>
-        ) : hasPlexServers ? (
-          <TautulliImportSection
-            tautulliUrl={tautulliUrl}
-            setTautulliUrl={setTautulliUrl}
-            tautulliApiKey={tautulliApiKey}
-            setTautulliApiKey={setTautulliApiKey}
-            connectionStatus={connectionStatus}
-            connectionMessage={connectionMessage}
-            handleTestConnection={handleTestConnection}
-            plexServers={plexServers}
-            selectedPlexServerId={selectedPlexServerId}
-            setSelectedPlexServerId={setSelectedPlexServerId}
-            isTautulliImporting={isTautulliImporting}
-            overwriteFriendlyNames={overwriteFriendlyNames}
-            setOverwriteFriendlyNames={setOverwriteFriendlyNames}
-            includeStreamDetails={includeStreamDetails}
-            setIncludeStreamDetails={setIncludeStreamDetails}
-            handleStartTautulliImport={handleStartTautulliImport}
-            tautulliProgressData={tautulliProgressData}
-          />
-        ) : (
-          <JellystatImportSection
-            jellyfinEmbyServers={jellyfinEmbyServers}
-            selectedJellyfinServerId={selectedJellyfinServerId}
-            setSelectedJellyfinServerId={setSelectedJellyfinServerId}
-            selectedFile={selectedFile}
-            handleFileSelect={handleFileSelect}
-            enrichMedia={enrichMedia}
-            setEnrichMedia={setEnrichMedia}
-            updateStreamDetails={updateStreamDetails}
-            setUpdateStreamDetails={setUpdateStreamDetails}
-            isJellystatImporting={isJellystatImporting}
-            handleStartJellystatImport={handleStartJellystatImport}
-            jellystatProgressData={jellystatProgressData}
-          />
-        )}
-      </CardContent>
-    </Card>
+              <PlaybackReportingImportSection jellyfinEmbyServers={jellyfinEmbyServers} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import From a File
+          </CardTitle>
+          <CardDescription>
+            Import watch history from any CSV or JSON file by mapping its columns
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FileImportSection servers={servers} />
+        </CardContent>
+      </Card>
+    </div>
   );
 }
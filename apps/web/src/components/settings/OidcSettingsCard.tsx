@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { LogIn, Plus, Trash2 } from 'lucide-react';
+import { OIDC_ROLES, type OidcRole, type OidcRoleMapping } from '@tracearr/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Field, FieldDescription, FieldGroup } from '@/components/ui/field';
+import {
+  AutosaveSecretField,
+  AutosaveSelectField,
+  AutosaveSwitchField,
+  AutosaveTextField,
+  SaveStatusIndicator,
+} from '@/components/ui/autosave-field';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSettings } from '@/hooks/queries';
+import { useDebouncedSave, TEXT_INPUT_DELAY } from '@/hooks/useDebouncedSave';
+import { BASE_URL } from '@/lib/api';
+
+const ROLE_LABELS: Record<OidcRole, string> = {
+  admin: 'Admin',
+  moderator: 'Moderator',
+  viewer: 'Viewer',
+};
+
+const NO_DEFAULT_ROLE = 'none';
+
+function RoleMappingField({
+  mappings,
+  onChange,
+  status,
+}: {
+  mappings: OidcRoleMapping[];
+  onChange: (mappings: OidcRoleMapping[]) => void;
+  status: ReturnType<typeof useDebouncedSave>['status'];
+}) {
+  const [claimValue, setClaimValue] = useState('');
+  const [role, setRole] = useState<OidcRole>('viewer');
+
+  const handleAdd = () => {
+    const value = claimValue.trim();
+    if (!value) return;
+    onChange([...mappings.filter((m) => m.value !== value), { value, role }]);
+    setClaimValue('');
+  };
+
+  return (
+    <Field>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Role Mapping</span>
+        <SaveStatusIndicator status={status} />
+      </div>
+      {mappings.length > 0 && (
+        <div className="divide-y rounded-md border">
+          {mappings.map((mapping) => (
+            <div key={mapping.value} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <code className="min-w-0 flex-1 truncate">{mapping.value}</code>
+              <span className="text-muted-foreground">→ {ROLE_LABELS[mapping.role]}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Remove mapping for ${mapping.value}`}
+                onClick={() => onChange(mappings.filter((m) => m.value !== mapping.value))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={claimValue}
+          onChange={(e) => setClaimValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Claim value, e.g. tracearr-admins"
+          maxLength={255}
+        />
+        <Select value={role} onValueChange={(v) => setRole(v as OidcRole)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OIDC_ROLES.map((r) => (
+              <SelectItem key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={handleAdd} disabled={!claimValue.trim()}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+      <FieldDescription>
+        Applied on every sign-in. When several values match, the highest role wins. The owner
+        account and disabled users are never changed.
+      </FieldDescription>
+    </Field>
+  );
+}
+
+export function OidcSettingsCard() {
+  const { data: settings } = useSettings();
+
+  const enabledField = useDebouncedSave('oidcEnabled', settings?.oidcEnabled);
+  const discoveryUrlField = useDebouncedSave('oidcDiscoveryUrl', settings?.oidcDiscoveryUrl, {
+    delay: TEXT_INPUT_DELAY,
+  });
+  const clientIdField = useDebouncedSave('oidcClientId', settings?.oidcClientId, {
+    delay: TEXT_INPUT_DELAY,
+  });
+  const clientSecretField = useDebouncedSave('oidcClientSecret', settings?.oidcClientSecret, {
+    delay: TEXT_INPUT_DELAY,
+  });
+  const scopesField = useDebouncedSave('oidcScopes', settings?.oidcScopes, {
+    delay: TEXT_INPUT_DELAY,
+    transform: (v) => v.trim() || 'openid profile email',
+  });
+  const roleClaimField = useDebouncedSave('oidcRoleClaim', settings?.oidcRoleClaim, {
+    delay: TEXT_INPUT_DELAY,
+    transform: (v) => v.trim() || 'groups',
+  });
+  const roleMappingField = useDebouncedSave('oidcRoleMapping', settings?.oidcRoleMapping);
+  const defaultRoleField = useDebouncedSave('oidcDefaultRole', settings?.oidcDefaultRole);
+  const autoProvisionField = useDebouncedSave('oidcAutoProvision', settings?.oidcAutoProvision);
+  const linkOwnerField = useDebouncedSave('oidcLinkOwner', settings?.oidcLinkOwner);
+
+  const redirectUri = `${window.location.origin}${BASE_URL}auth/oidc-callback`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LogIn className="h-5 w-5" />
+          Single Sign-On (OpenID Connect)
+        </CardTitle>
+        <CardDescription>
+          Let users sign in through Authentik, Authelia, Keycloak or any other OpenID Connect
+          provider
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <FieldGroup>
+          <AutosaveSwitchField
+            id="oidcEnabled"
+            label="Enable SSO"
+            description="Shows a Sign in with SSO button on the login page once the provider is configured"
+            checked={enabledField.value ?? false}
+            onChange={enabledField.setValue}
+            status={enabledField.status}
+            errorMessage={enabledField.errorMessage}
+            onRetry={enabledField.retry}
+            onReset={enabledField.reset}
+          />
+
+          <AutosaveTextField
+            id="oidcDiscoveryUrl"
+            label="Issuer / Discovery URL"
+            description="The issuer URL or its /.well-known/openid-configuration document"
+            type="url"
+            value={discoveryUrlField.value ?? ''}
+            onChange={discoveryUrlField.setValue}
+            placeholder="https://auth.example.com/application/o/tracearr/"
+            status={discoveryUrlField.status}
+            errorMessage={discoveryUrlField.errorMessage}
+            onRetry={discoveryUrlField.retry}
+            onReset={discoveryUrlField.reset}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <AutosaveTextField
+              id="oidcClientId"
+              label="Client ID"
+              value={clientIdField.value ?? ''}
+              onChange={clientIdField.setValue}
+              maxLength={255}
+              status={clientIdField.status}
+              errorMessage={clientIdField.errorMessage}
+              onRetry={clientIdField.retry}
+              onReset={clientIdField.reset}
+            />
+            <AutosaveSecretField
+              id="oidcClientSecret"
+              label="Client Secret"
+              value={clientSecretField.value === '********' ? '' : (clientSecretField.value ?? '')}
+              onChange={clientSecretField.setValue}
+              isMasked={settings?.oidcClientSecret === '********'}
+              status={clientSecretField.status}
+              errorMessage={clientSecretField.errorMessage}
+              onRetry={clientSecretField.retry}
+              onReset={clientSecretField.reset}
+            />
+          </div>
+
+          <div className="bg-muted/50 rounded-lg p-4">
+            <p className="text-muted-foreground text-sm">
+              Register this redirect URI with your provider:{' '}
+              <code className="text-foreground break-all">{redirectUri}</code>
+            </p>
+          </div>
+
+          <AutosaveTextField
+            id="oidcScopes"
+            label="Scopes"
+            description="Space-separated. Add groups if your provider only sends group claims for that scope."
+            value={scopesField.value ?? ''}
+            onChange={scopesField.setValue}
+            maxLength={255}
+            status={scopesField.status}
+            errorMessage={scopesField.errorMessage}
+            onRetry={scopesField.retry}
+            onReset={scopesField.reset}
+          />
+
+          <AutosaveTextField
+            id="oidcRoleClaim"
+            label="Role Claim"
+            description="Claim holding the user's groups or roles. Use dots for nested claims, e.g. realm_access.roles"
+            value={roleClaimField.value ?? ''}
+            onChange={roleClaimField.setValue}
+            maxLength={100}
+            status={roleClaimField.status}
+            errorMessage={roleClaimField.errorMessage}
+            onRetry={roleClaimField.retry}
+            onReset={roleClaimField.reset}
+          />
+
+          <RoleMappingField
+            mappings={roleMappingField.value ?? []}
+            onChange={roleMappingField.setValue}
+            status={roleMappingField.status}
+          />
+
+          <AutosaveSwitchField
+            id="oidcAutoProvision"
+            label="Auto-Provision Users"
+            description="Create a Tracearr account on first sign-in when no user has the same email. Existing users are linked by verified email."
+            checked={autoProvisionField.value ?? false}
+            onChange={autoProvisionField.setValue}
+            status={autoProvisionField.status}
+            errorMessage={autoProvisionField.errorMessage}
+            onRetry={autoProvisionField.retry}
+            onReset={autoProvisionField.reset}
+          />
+
+          <AutosaveSelectField
+            id="oidcDefaultRole"
+            label="Default Role"
+            description="Role for auto-provisioned users whose claims match no mapping"
+            value={defaultRoleField.value ?? NO_DEFAULT_ROLE}
+            onChange={(v) =>
+              defaultRoleField.setValue(v === NO_DEFAULT_ROLE ? null : (v as OidcRole))
+            }
+            options={[
+              { value: NO_DEFAULT_ROLE, label: 'None (refuse sign-in)' },
+              ...OIDC_ROLES.map((r) => ({ value: r, label: ROLE_LABELS[r] })),
+            ]}
+            disabled={!autoProvisionField.value}
+            status={defaultRoleField.status}
+            errorMessage={defaultRoleField.errorMessage}
+            onRetry={defaultRoleField.retry}
+            onReset={defaultRoleField.reset}
+          />
+
+          <AutosaveSwitchField
+            id="oidcLinkOwner"
+            label="Allow Owner Sign-In"
+            description="Let the owner account sign in with SSO. Only enable this if your provider verifies email addresses."
+            checked={linkOwnerField.value ?? false}
+            onChange={linkOwnerField.setValue}
+            status={linkOwnerField.status}
+            errorMessage={linkOwnerField.errorMessage}
+            onRetry={linkOwnerField.retry}
+            onReset={linkOwnerField.reset}
+          />
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+}
@@ -33,6 +33,7 @@ import {
   Pencil,
   GripVertical,
   Link2,
+  Webhook,
 } from 'lucide-react';
 import { MediaServerIcon } from '@/components/icons/MediaServerIcon';
 import { format } from 'date-fns';
@@ -40,10 +41,12 @@ import { cn } from '@/lib/utils';
 import { api, tokenStorage } from '@/lib/api';
 import type { PlexDiscoveredServer } from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
 import { toast } from 'sonner';
 import { PlexServerSelector } from '@/components/auth/PlexServerSelector';
 import { PlexAccountsManager } from '@/components/settings/PlexAccountsManager';
-import type { Server } from '@tracearr/shared';
+import { ServerWebhookDialog } from '@/components/settings/ServerWebhookDialog';
+import type { Server, ServerType } from '@tracearr/shared';
 import {
   useServers,
   useDeleteServer,
@@ -70,6 +73,13 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 
+const SERVER_TYPE_LABELS: Record<ServerType, string> = {
+  plex: 'Plex',
+  jellyfin: 'Jellyfin',
+  emby: 'Emby',
+  subsonic: 'Subsonic',
+};
+
 export function ServerSettings() {
   const { data: serversData, isLoading, refetch } = useServers();
   const deleteServer = useDeleteServer();
@@ -78,13 +88,17 @@ export function ServerSettings() {
   const reorderServers = useReorderServers();
   const queryClient = useQueryClient();
   const { refetch: refetchUser, user } = useAuth();
+  const { can } = usePermissions();
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editServer, setEditServer] = useState<Server | null>(null);
-  const [serverType, setServerType] = useState<'plex' | 'jellyfin' | 'emby'>('plex');
+  const [webhookServer, setWebhookServer] = useState<Server | null>(null);
+  const [serverType, setServerType] = useState<ServerType>('plex');
   const [serverUrl, setServerUrl] = useState('');
   const [serverName, setServerName] = useState('');
   const [apiKey, setApiKey] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectError, setConnectError] = useState<string | null>(null);
 
@@ -177,8 +191,10 @@ export function ServerSettings() {
     setServerUrl('');
     setServerName('');
     setApiKey('');
+    setUsername('');
+    setPassword('');
     setConnectError(null);
-    setServerType(defaultServerType as 'plex' | 'jellyfin' | 'emby');
+    setServerType(defaultServerType);
     setPlexDialogStep('loading');
     setPlexServers([]);
     setConnectingPlexServer(null);
@@ -278,7 +294,8 @@ export function ServerSettings() {
   };
 
   const handleAddServer = async () => {
-    if (!serverUrl || !serverName || !apiKey) {
+    const hasCredentials = serverType === 'subsonic' ? !!username && !!password : !!apiKey;
+    if (!serverUrl || !serverName || !hasCredentials) {
       setConnectError('All fields are required');
       return;
     }
@@ -287,15 +304,20 @@ export function ServerSettings() {
     setConnectError(null);
 
     try {
-      const connectFn =
-        serverType === 'jellyfin'
-          ? api.auth.connectJellyfinWithApiKey
-          : api.auth.connectEmbyWithApiKey;
-      const result = await connectFn({
-        serverUrl,
-        serverName,
-        apiKey,
-      });
+      let result;
+      if (serverType === 'subsonic') {
+        result = await api.auth.connectSubsonic({ serverUrl, serverName, username, password });
+      } else {
+        const connectFn =
+          serverType === 'jellyfin'
+            ? api.auth.connectJellyfinWithApiKey
+            : api.auth.connectEmbyWithApiKey;
+        result = await connectFn({
+          serverUrl,
+          serverName,
+          apiKey,
+        });
+      }
 
       // Update tokens if provided
       if (result.accessToken && result.refreshToken) {
@@ -347,7 +369,7 @@ export function ServerSettings() {
               Connected Servers
             </CardTitle>
             <CardDescription>
-              Manage your connected Plex, Jellyfin, and Emby servers
+              Manage your connected Plex, Jellyfin, Emby, and Subsonic servers
             </CardDescription>
           </div>
           <Button
@@ -365,7 +387,7 @@ export function ServerSettings() {
               <ServerIcon className="text-muted-foreground h-8 w-8" />
               <p className="text-muted-foreground">No servers connected</p>
               <p className="text-muted-foreground text-xs">
-                Click "Add Server" to connect a Jellyfin or Emby server
+                Click "Add Server" to connect a Jellyfin, Emby, or Subsonic server
               </p>
             </div>
           ) : (
@@ -392,8 +414,18 @@ export function ServerSettings() {
                       onEdit={() => {
                         setEditServer(server);
                       }}
+                      onWebhook={
+                        can('servers:manage') &&
+                        (server.type === 'plex' ||
+                          server.type === 'jellyfin' ||
+                          server.type === 'emby')
+                          ? () => {
+                              setWebhookServer(server);
+                            }
+                          : undefined
+                      }
                       isSyncing={syncServer.isPending}
-                      isDraggable={user?.role === 'owner'}
+                      isDraggable={can('servers:manage')}
                     />
                   ))}
                 </div>
@@ -435,7 +467,7 @@ export function ServerSettings() {
             <DialogDescription>
               {serverType === 'plex'
                 ? 'Add another Plex server you own to Tracearr.'
-                : 'Connect a Jellyfin or Emby server. You need administrator access.'}
+                : 'Connect a Jellyfin, Emby or Subsonic server. You need administrator access.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -446,7 +478,7 @@ export function ServerSettings() {
               <Select
                 value={serverType}
                 onValueChange={(v) => {
-                  const newType = v as 'plex' | 'jellyfin' | 'emby';
+                  const newType = v as ServerType;
                   setServerType(newType);
                   setConnectError(null);
                   // Fetch Plex accounts when switching to Plex type
@@ -462,6 +494,7 @@ export function ServerSettings() {
                   {user?.role === 'owner' && <SelectItem value="plex">Plex</SelectItem>}
                   <SelectItem value="jellyfin">Jellyfin</SelectItem>
                   <SelectItem value="emby">Emby</SelectItem>
+                  <SelectItem value="subsonic">Subsonic (Navidrome)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -610,21 +643,24 @@ export function ServerSettings() {
                 )}
               </>
             ) : (
-              /* Jellyfin/Emby Form */
+              /* Jellyfin/Emby/Subsonic Form */
               <>
                 <div className="space-y-2">
                   <Label htmlFor="serverUrl">Server URL</Label>
                   <Input
                     id="serverUrl"
-                    placeholder="http://192.168.1.100:8096"
+                    placeholder={
+                      serverType === 'subsonic'
+                        ? 'http://192.168.1.100:4533'
+                        : 'http://192.168.1.100:8096'
+                    }
                     value={serverUrl}
                     onChange={(e) => {
                       setServerUrl(e.target.value);
                     }}
                   />
                   <p className="text-muted-foreground text-xs">
-                    The URL where your {serverType === 'jellyfin' ? 'Jellyfin' : 'Emby'} server is
-                    accessible
+                    The URL where your {SERVER_TYPE_LABELS[serverType]} server is accessible
                   </p>
                 </div>
                 <div className="space-y-2">
@@ -638,23 +674,54 @@ export function ServerSettings() {
                     }}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="apiKey">API Key</Label>
-                  <Input
-                    id="apiKey"
-                    type="password"
-                    placeholder="Enter your API key"
-                    value={apiKey}
-                    onChange={(e) => {
-                      setApiKey(e.target.value);
-                    }}
-                  />
-                  <p className="text-muted-foreground text-xs">
-                    {serverType === 'jellyfin'
-                      ? 'Find this in Jellyfin Dashboard → API Keys'
-                      : 'Find this in Emby Server → API Keys'}
-                  </p>
-                </div>
+                {serverType === 'subsonic' ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Admin Username</Label>
+                      <Input
+                        id="username"
+                        autoComplete="off"
+                        value={username}
+                        onChange={(e) => {
+                          setUsername(e.target.value);
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        type="password"
+                        autoComplete="new-password"
+                        value={password}
+                        onChange={(e) => {
+                          setPassword(e.target.value);
+                        }}
+                      />
+                      <p className="text-muted-foreground text-xs">
+                        Only a salted token is stored, not the password
+                      </p>
+                    </div>
+                  </>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="apiKey">API Key</Label>
+                    <Input
+                      id="apiKey"
+                      type="password"
+                      placeholder="Enter your API key"
+                      value={apiKey}
+                      onChange={(e) => {
+                        setApiKey(e.target.value);
+                      }}
+                    />
+                    <p className="text-muted-foreground text-xs">
+                      {serverType === 'jellyfin'
+                        ? 'Find this in Jellyfin Dashboard → API Keys'
+                        : 'Find this in Emby Server → API Keys'}
+                    </p>
+                  </div>
+                )}
                 {connectError && (
                   <div className="text-destructive flex items-center gap-2 text-sm">
                     <XCircle className="h-4 w-4" />
@@ -723,6 +790,14 @@ export function ServerSettings() {
         }}
         isUpdating={updateServer.isPending}
       />
+
+      {/* Inbound Webhook Dialog */}
+      <ServerWebhookDialog
+        server={webhookServer}
+        onClose={() => {
+          setWebhookServer(null);
+        }}
+      />
     </>
   );
 }
@@ -874,6 +949,7 @@ function SortableServerCard({
   onSync,
   onDelete,
   onEdit,
+  onWebhook,
   isSyncing,
   isDraggable,
 }: {
@@ -881,6 +957,8 @@ function SortableServerCard({
   onSync: () => void;
   onDelete: () => void;
   onEdit: () => void;
+  /** Only for servers that can send inbound webhooks */
+  onWebhook?: () => void;
   isSyncing?: boolean;
   isDraggable?: boolean;
 }) {
@@ -940,6 +1018,11 @@ function SortableServerCard({
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {onWebhook && (
+            <Button variant="ghost" size="sm" onClick={onWebhook} title="Webhook">
+              <Webhook className="h-4 w-4" />
+            </Button>
+          )}
           <Button variant="ghost" size="sm" onClick={onSync} disabled={isSyncing}>
             <RefreshCw className={cn('mr-1 h-4 w-4', isSyncing && 'animate-spin')} />
             Sync
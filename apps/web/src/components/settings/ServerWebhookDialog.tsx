@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { API_BASE_PATH, type Server } from '@tracearr/shared';
+import { Copy, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { BASE_PATH } from '@/lib/api';
+import {
+  useServerWebhook,
+  useRegenerateServerWebhook,
+  useDisableServerWebhook,
+} from '@/hooks/queries';
+
+const SETUP_HINTS: Record<string, string> = {
+  plex: 'In Plex Web, open Settings → Webhooks (requires Plex Pass) and add this URL. Plex sends webhooks for every server on the account; only events from this server are used.',
+  jellyfin:
+    'Install the Webhook plugin, add a Generic destination with this URL, enable "Send All Properties" and select the Playback Start, Playback Progress and Playback Stop notifications.',
+  emby: 'In Emby, open Settings → Webhooks (requires Emby Premiere), add this URL and select the Playback events.',
+};
+
+/**
+ * Inbound webhook URL for a Plex, Jellyfin or Emby server
+ * Playback webhooks trigger an immediate session update instead of waiting for the next poll.
+ */
+export function ServerWebhookDialog({
+  server,
+  onClose,
+}: {
+  server: Server | null;
+  onClose: () => void;
+}) {
+  const { data, isLoading } = useServerWebhook(server?.id);
+  const regenerateWebhook = useRegenerateServerWebhook();
+  const disableWebhook = useDisableServerWebhook();
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const secret = data?.secret;
+  const webhookUrl =
+    server && secret
+      ? `${window.location.origin}${BASE_PATH}${API_BASE_PATH}/webhooks/${server.id}/${secret}`
+      : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(webhookUrl);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleGenerate = () => {
+    if (!server) return;
+    if (secret) {
+      setShowConfirm(true);
+    } else {
+      regenerateWebhook.mutate(server.id);
+    }
+  };
+
+  if (!server) return null;
+
+  return (
+    <>
+      <Dialog open={!!server} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Webhook</DialogTitle>
+            <DialogDescription>
+              Let {server.name} notify Tracearr when playback starts, pauses or stops, for
+              near-instant session updates.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-4">
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  value={webhookUrl}
+                  placeholder="Webhooks are disabled"
+                  className="font-mono text-sm"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleCopy}
+                  disabled={!secret}
+                  title="Copy to clipboard"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <p className="text-muted-foreground text-sm">{SETUP_HINTS[server.type]}</p>
+            <p className="text-muted-foreground text-xs">
+              The URL contains a secret. Anyone with it can trigger session updates for this server.
+            </p>
+          </div>
+
+          <DialogFooter>
+            {secret && (
+              <Button
+                variant="outline"
+                onClick={() => disableWebhook.mutate(server.id)}
+                disabled={disableWebhook.isPending}
+              >
+                Disable
+              </Button>
+            )}
+            <Button onClick={handleGenerate} disabled={regenerateWebhook.isPending}>
+              {regenerateWebhook.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              {secret ? 'Regenerate' : 'Generate URL'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={showConfirm}
+        onOpenChange={setShowConfirm}
+        title="Regenerate Webhook URL?"
+        description="The current URL will stop working. Update it in your media server's webhook settings afterwards."
+        confirmLabel="Regenerate"
+        onConfirm={() => {
+          regenerateWebhook.mutate(server.id);
+          setShowConfirm(false);
+        }}
+      />
+    </>
+  );
+}
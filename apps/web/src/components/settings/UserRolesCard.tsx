@@ -0,0 +1,289 @@
+import { useMemo, useState } from 'react';
+import { Pencil, Users } from 'lucide-react';
+import type { Server, ServerGrantRole, UserAccess, UserRole } from '@tracearr/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MediaServerIcon } from '@/components/icons/MediaServerIcon';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserAccess, useUpdateUserAccess } from '@/hooks/queries';
+
+type AssignableRole = Exclude<UserRole, 'owner' | 'pending'>;
+
+const ROLE_OPTIONS: { value: AssignableRole; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Rules, violations, trust, settings and jobs' },
+  { value: 'moderator', label: 'Moderator', description: 'Triage violations and end streams' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access' },
+  { value: 'member', label: 'Member', description: 'Cannot sign in' },
+  { value: 'disabled', label: 'Disabled', description: 'Cannot sign in' },
+];
+
+const GRANT_ROLES: ServerGrantRole[] = ['admin', 'moderator', 'viewer'];
+
+// Roles that can sign in, shown without searching
+const STAFF_ROLES: UserRole[] = ['owner', 'admin', 'moderator', 'viewer'];
+
+const NO_ACCESS = 'none';
+
+function roleLabel(role: UserRole): string {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function AccessDialog({
+  user,
+  servers,
+  onClose,
+}: {
+  user: UserAccess;
+  servers: Server[];
+  onClose: () => void;
+}) {
+  const updateAccess = useUpdateUserAccess();
+  const [role, setRole] = useState<AssignableRole>(
+    user.role === 'owner' || user.role === 'pending' ? 'viewer' : user.role
+  );
+  const [limitServers, setLimitServers] = useState(user.grants.length > 0);
+  const [grants, setGrants] = useState<Record<string, ServerGrantRole>>(() =>
+    Object.fromEntries(user.grants.map((grant) => [grant.serverId, grant.role]))
+  );
+
+  const canSignIn = role !== 'member' && role !== 'disabled';
+  const grantList = Object.entries(grants).map(([serverId, grantRole]) => ({
+    serverId,
+    role: grantRole,
+  }));
+  const missingGrants = canSignIn && limitServers && grantList.length === 0;
+
+  const handleSave = () => {
+    updateAccess.mutate(
+      {
+        id: user.id,
+        data: { role, grants: canSignIn && limitServers ? grantList : [] },
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Edit access for {user.name ?? user.username}</DialogTitle>
+        <DialogDescription>
+          Changes apply the next time this user&apos;s session refreshes.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="access-role">Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as AssignableRole)}>
+            <SelectTrigger id="access-role" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  <div className="flex flex-col">
+                    <span>{option.label}</span>
+                    <span className="text-muted-foreground text-xs">{option.description}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {canSignIn && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="access-limit">Limit to specific servers</Label>
+                <p className="text-muted-foreground text-xs">
+                  When off, the role applies on every server
+                </p>
+              </div>
+              <Switch id="access-limit" checked={limitServers} onCheckedChange={setLimitServers} />
+            </div>
+
+            {limitServers && (
+              <div className="space-y-2 rounded-lg border p-3">
+                {servers.map((server) => (
+                  <div key={server.id} className="flex items-center justify-between gap-3">
+                    <div className="flex min-w-0 items-center gap-2">
+                      <MediaServerIcon type={server.type} className="h-4 w-4 shrink-0" />
+                      <span className="truncate text-sm">{server.name}</span>
+                    </div>
+                    <Select
+                      value={grants[server.id] ?? NO_ACCESS}
+                      onValueChange={(value) => {
+                        setGrants((current) => {
+                          const { [server.id]: _removed, ...rest } = current;
+                          return value === NO_ACCESS
+                            ? rest
+                            : { ...rest, [server.id]: value as ServerGrantRole };
+                        });
+                      }}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ACCESS}>No access</SelectItem>
+                        {GRANT_ROLES.map((grantRole) => (
+                          <SelectItem key={grantRole} value={grantRole}>
+                            {roleLabel(grantRole)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                {missingGrants && (
+                  <p className="text-destructive text-xs">Grant access to at least one server</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={updateAccess.isPending || missingGrants}>
+          {updateAccess.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
+
+/**
+ * Assign account roles and limit them to individual servers.
+ */
+export function UserRolesCard({ servers }: { servers: Server[] }) {
+  const { user: authUser } = useAuth();
+  const { data: users, isLoading } = useUserAccess();
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<UserAccess | null>(null);
+
+  const serverNames = useMemo(
+    () => new Map(servers.map((server) => [server.id, server.name])),
+    [servers]
+  );
+
+  const visibleUsers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) {
+      return (users ?? []).filter((user) => STAFF_ROLES.includes(user.role));
+    }
+    return (users ?? [])
+      .filter(
+        (user) =>
+          user.username.toLowerCase().includes(term) ||
+          (user.name?.toLowerCase().includes(term) ?? false) ||
+          (user.email?.toLowerCase().includes(term) ?? false)
+      )
+      .slice(0, 25);
+  }, [users, search]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Roles
+        </CardTitle>
+        <CardDescription>
+          Choose what each person can do in Tracearr. Search to give someone access.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          placeholder="Search users..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : visibleUsers.length === 0 ? (
+          <p className="text-muted-foreground py-4 text-center text-sm">No matching users</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {visibleUsers.map((user) => {
+              const editable = user.role !== 'owner' && user.id !== authUser?.userId;
+              return (
+                <div key={user.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{user.name ?? user.username}</p>
+                    <p className="text-muted-foreground truncate text-xs">
+                      {user.grants.length > 0
+                        ? user.grants
+                            .map(
+                              (grant) =>
+                                `${serverNames.get(grant.serverId) ?? 'Unknown'} (${roleLabel(grant.role)})`
+                            )
+                            .join(', ')
+                        : 'All servers'}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Badge variant={user.role === 'owner' ? 'default' : 'secondary'}>
+                      {roleLabel(user.role)}
+                    </Badge>
+                    {editable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit access"
+                        onClick={() => setEditing(user)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        {editing && (
+          <AccessDialog
+            key={editing.id}
+            user={editing}
+            servers={servers}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { Fragment, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@tracearr/shared';
+import { ChevronDown, ChevronRight, Loader2, RotateCw } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useWebhookDeliveries, useRedeliverWebhook } from '@/hooks/queries';
+
+const PAGE_SIZE = 20;
+
+const STATUS_BADGES: Record<
+  WebhookDeliveryStatus,
+  { label: string; variant: BadgeProps['variant'] }
+> = {
+  pending: { label: 'Pending', variant: 'secondary' },
+  success: { label: 'Delivered', variant: 'success' },
+  retrying: { label: 'Retrying', variant: 'warning' },
+  failed: { label: 'Failed', variant: 'danger' },
+};
+
+function formatPayload(payload: string): string {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
+
+function DeliveryDetails({ delivery }: { delivery: WebhookDelivery }) {
+  return (
+    <div className="grid gap-3 py-2 md:grid-cols-2">
+      <div className="min-w-0 space-y-1">
+        <p className="text-muted-foreground text-xs font-medium tracking-wide uppercase">Request</p>
+        <p className="truncate font-mono text-xs">{delivery.url}</p>
+        <pre className="bg-muted max-h-64 overflow-auto rounded-md p-2 text-xs">
+          {formatPayload(delivery.payload)}
+        </pre>
+      </div>
+      <div className="min-w-0 space-y-1">
+        <p className="text-muted-foreground text-xs font-medium tracking-wide uppercase">
+          Response
+        </p>
+        {delivery.error && <p className="text-destructive text-xs">{delivery.error}</p>}
+        <pre className="bg-muted max-h-64 overflow-auto rounded-md p-2 text-xs whitespace-pre-wrap">
+          {delivery.responseSnippet ?? 'No response body'}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Log of outgoing JSON webhook deliveries with manual redelivery
+ */
+export function WebhookDeliveryLog() {
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<WebhookDeliveryStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useWebhookDeliveries({
+    page,
+    pageSize: PAGE_SIZE,
+    status: status === 'all' ? undefined : status,
+  });
+  const redeliver = useRedeliverWebhook();
+
+  const deliveries = data?.data ?? [];
+  const totalPages = data?.totalPages ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-muted-foreground text-sm">
+          {data ? `${data.total.toLocaleString()} deliveries in the last 30 days` : ''}
+        </p>
+        <Select
+          value={status}
+          onValueChange={(next) => {
+            setStatus(next as WebhookDeliveryStatus | 'all');
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(STATUS_BADGES).map(([value, badge]) => (
+              <SelectItem key={value} value={value}>
+                {badge.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : deliveries.length === 0 ? (
+        <p className="text-muted-foreground py-6 text-center text-sm">
+          {status === 'all'
+            ? 'No webhook deliveries yet. Deliveries are logged when the JSON Webhook agent sends a notification.'
+            : 'No deliveries with this status.'}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Response</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead className="text-right">Sent</TableHead>
+              <TableHead className="w-28" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map((delivery) => {
+              const expanded = expandedId === delivery.id;
+              const badge = STATUS_BADGES[delivery.status];
+              return (
+                <Fragment key={delivery.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                  >
+                    <TableCell>
+                      {expanded ? (
+                        <ChevronDown className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {delivery.event}
+                      {delivery.redeliveryOf && (
+                        <span className="text-muted-foreground ml-2 font-sans">(redelivery)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right text-xs tabular-nums">
+                      {delivery.statusCode ?? '—'}
+                      {delivery.latencyMs !== null && (
+                        <span className="text-muted-foreground"> · {delivery.latencyMs}ms</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{delivery.attempts}</TableCell>
+                    <TableCell className="text-muted-foreground text-right text-xs">
+                      {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={redeliver.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          redeliver.mutate(delivery.id);
+                        }}
+                      >
+                        {redeliver.isPending && redeliver.variables === delivery.id ? (
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCw className="mr-1 h-3 w-3" />
+                        )}
+                        Redeliver
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expanded && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={7}>
+                        <DeliveryDetails delivery={delivery} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-muted-foreground text-sm">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setPage((p) => p - 1)}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
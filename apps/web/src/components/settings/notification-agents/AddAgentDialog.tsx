@@ -1,7 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { Settings } from '@tracearr/shared';
-import { Loader2, ChevronRight, Lock } from 'lucide-react';
+import { Loader2, ChevronRight } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -12,62 +11,42 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Field, FieldLabel, FieldError } from '@/components/ui/field';
-import { useUpdateSettings } from '@/hooks/queries/useSettings';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { useCreateNotificationDestination } from '@/hooks/queries/useNotificationDestinations';
 import { toast } from 'sonner';
-import { cn } from '@/lib/utils';
+import type { NotificationDestinationConfig, NotificationDestinationType } from '@tracearr/shared';
 import type { NotificationAgentType } from './types';
-import { validateField } from './types';
-import type { AddableAgentInfo } from './useActiveAgents';
+import { toConfigValue, validateField } from './types';
 import { AGENT_CONFIGS } from './agent-config';
+import { AgentFieldInput } from './AgentFieldInput';
 
 interface AgentOptionButtonProps {
-  agentInfo: AddableAgentInfo;
+  type: NotificationAgentType;
   onSelect: () => void;
 }
 
-function AgentOptionButton({ agentInfo, onSelect }: AgentOptionButtonProps) {
-  const config = AGENT_CONFIGS[agentInfo.type];
+function AgentOptionButton({ type, onSelect }: AgentOptionButtonProps) {
+  const config = AGENT_CONFIGS[type];
   const Icon = config.icon;
-  const isDisabled = !agentInfo.isAvailable;
 
   return (
     <button
       type="button"
-      onClick={isDisabled ? undefined : onSelect}
-      disabled={isDisabled}
-      className={cn(
-        'flex w-full items-center gap-3 rounded-lg border p-3 text-left transition-colors',
-        isDisabled ? 'cursor-not-allowed opacity-50' : 'hover:bg-muted hover:border-primary/50'
-      )}
+      onClick={onSelect}
+      className="hover:bg-muted hover:border-primary/50 flex w-full items-center gap-3 rounded-lg border p-3 text-left transition-colors"
     >
-      <div
-        className={cn(
-          'flex h-10 w-10 items-center justify-center overflow-hidden rounded-lg',
-          isDisabled ? 'bg-muted/50' : 'bg-muted'
-        )}
-      >
+      <div className="bg-muted flex h-10 w-10 items-center justify-center overflow-hidden rounded-lg">
         {config.imagePath ? (
-          <img
-            src={config.imagePath}
-            alt={config.name}
-            className={cn('h-full w-full object-cover', isDisabled && 'grayscale')}
-          />
+          <img src={config.imagePath} alt={config.name} className="h-full w-full object-cover" />
         ) : (
           <Icon className="h-5 w-5" />
         )}
       </div>
       <div className="min-w-0 flex-1">
         <p className="font-medium">{config.name}</p>
-        <p className="text-muted-foreground text-xs">
-          {isDisabled ? agentInfo.unavailableReason : config.description}
-        </p>
+        <p className="text-muted-foreground text-xs">{config.description}</p>
       </div>
-      {isDisabled ? (
-        <Lock className="text-muted-foreground h-4 w-4 flex-shrink-0" />
-      ) : (
-        <ChevronRight className="text-muted-foreground h-4 w-4 flex-shrink-0" />
-      )}
+      <ChevronRight className="text-muted-foreground h-4 w-4 flex-shrink-0" />
     </button>
   );
 }
@@ -75,26 +54,22 @@ function AgentOptionButton({ agentInfo, onSelect }: AgentOptionButtonProps) {
 interface AddAgentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  /** Discord agent info (null if already configured) */
-  discord: AddableAgentInfo | null;
-  /** Webhook agents with availability info */
-  webhookAgents: AddableAgentInfo[];
-  /** Currently active webhook agent (for messaging) */
-  activeWebhookAgent: NotificationAgentType | null;
-  settings: Settings | undefined;
+  /** Agents for dedicated services (Discord, Email, chat) */
+  standaloneAgents: NotificationAgentType[];
+  /** Webhook-based agents */
+  webhookAgents: NotificationAgentType[];
 }
 
 export function AddAgentDialog({
   open,
   onOpenChange,
-  discord,
+  standaloneAgents,
   webhookAgents,
-  activeWebhookAgent,
-  settings,
 }: AddAgentDialogProps) {
   const { t } = useTranslation(['notifications', 'pages', 'common']);
-  const updateSettings = useUpdateSettings({ silent: true });
+  const createDestination = useCreateNotificationDestination();
   const [selectedType, setSelectedType] = useState<NotificationAgentType | null>(null);
+  const [name, setName] = useState('');
   const [formData, setFormData] = useState<Record<string, string>>({});
   const [fieldErrors, setFieldErrors] = useState<Record<string, string | null>>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
@@ -109,22 +84,15 @@ export function AddAgentDialog({
     }
   }, [open]);
 
-  // When type is selected, initialize form with current settings values
+  // When type is selected, start from a blank form named after the agent
   useEffect(() => {
-    if (selectedType && settings) {
-      const config = AGENT_CONFIGS[selectedType];
-      const initialData: Record<string, string> = {};
-
-      config.fields.forEach((field) => {
-        const value = settings[field.key as keyof Settings];
-        if (value != null) {
-          initialData[field.key] = String(value);
-        }
-      });
-
-      setFormData(initialData);
+    if (selectedType) {
+      setName(AGENT_CONFIGS[selectedType].name);
+      setFormData({});
+      setFieldErrors({});
+      setTouched({});
     }
-  }, [selectedType, settings]);
+  }, [selectedType]);
 
   const selectedConfig = selectedType ? AGENT_CONFIGS[selectedType] : null;
 
@@ -176,7 +144,7 @@ export function AddAgentDialog({
   };
 
   const canSave = () => {
-    if (!selectedConfig) return false;
+    if (!selectedConfig || !name.trim()) return false;
 
     // Check all required fields are filled
     const requiredFilled = selectedConfig.fields
@@ -200,24 +168,24 @@ export function AddAgentDialog({
       return;
     }
 
-    // Build settings update
-    const update: Partial<Settings> = {};
+    // Build destination config
+    const config: Record<string, unknown> = {};
 
     // Set the fields
     selectedConfig.fields.forEach((field) => {
-      const value = formData[field.key]?.trim();
-      if (value) {
-        (update as Record<string, string>)[field.key] = value;
+      const value = toConfigValue(field, formData[field.key]);
+      if (value !== null) {
+        config[field.key] = value;
       }
     });
 
-    // Set webhookFormat for custom webhook agents
-    if (selectedConfig.webhookFormat) {
-      update.webhookFormat = selectedConfig.webhookFormat;
-    }
-
     try {
-      await updateSettings.mutateAsync(update);
+      await createDestination.mutateAsync({
+        name: name.trim(),
+        // Only destination types are offered in the selector
+        type: selectedConfig.type as NotificationDestinationType,
+        config: config as NotificationDestinationConfig,
+      });
       toast.success(t('toast.success.agentAdded.title'), {
         description: t('toast.success.agentAdded.message'),
       });
@@ -239,12 +207,17 @@ export function AddAgentDialog({
           {/* Agent type selector */}
           {!selectedType && (
             <div className="flex flex-col gap-4">
-              {/* Discord - standalone */}
-              {discord && (
-                <AgentOptionButton
-                  agentInfo={discord}
-                  onSelect={() => setSelectedType(discord.type)}
-                />
+              {/* Standalone agents */}
+              {standaloneAgents.length > 0 && (
+                <div className="space-y-2">
+                  {standaloneAgents.map((type) => (
+                    <AgentOptionButton
+                      key={type}
+                      type={type}
+                      onSelect={() => setSelectedType(type)}
+                    />
+                  ))}
+                </div>
               )}
 
               {/* Webhook agents group */}
@@ -257,35 +230,17 @@ export function AddAgentDialog({
                     </span>
                     <div className="bg-border h-px flex-1" />
                   </div>
-                  {activeWebhookAgent && (
-                    <div className="bg-muted/50 text-muted-foreground flex items-start gap-2 rounded-md border px-3 py-2 text-xs">
-                      <Lock className="mt-0.5 h-3 w-3 flex-shrink-0" />
-                      <span>
-                        {t('pages:settings.notifications.oneWebhookLimit')}{' '}
-                        {t('pages:settings.notifications.currentlyConfigured', {
-                          name: AGENT_CONFIGS[activeWebhookAgent].name,
-                        })}
-                      </span>
-                    </div>
-                  )}
                   <div className="space-y-2">
-                    {webhookAgents.map((agentInfo) => (
+                    {webhookAgents.map((type) => (
                       <AgentOptionButton
-                        key={agentInfo.type}
-                        agentInfo={agentInfo}
-                        onSelect={() => setSelectedType(agentInfo.type)}
+                        key={type}
+                        type={type}
+                        onSelect={() => setSelectedType(type)}
                       />
                     ))}
                   </div>
                 </div>
               )}
-
-              {/* Empty state */}
-              {!discord && webhookAgents.length === 0 && (
-                <p className="text-muted-foreground py-4 text-center text-sm">
-                  {t('pages:settings.notifications.allAgentsConfigured')}
-                </p>
-              )}
             </div>
           )}
 
@@ -320,33 +275,30 @@ export function AddAgentDialog({
                 </div>
               </div>
 
-              {selectedConfig.fields.length === 0 ? (
-                <p className="text-muted-foreground text-sm">
-                  {t('pages:settings.notifications.noConfigNeeded')}
-                </p>
-              ) : (
-                selectedConfig.fields.map((field) => {
-                  const error = touched[field.key] ? fieldErrors[field.key] : null;
-                  return (
-                    <Field key={field.key} data-invalid={!!error}>
-                      <FieldLabel htmlFor={field.key}>
-                        {field.label}
-                        {field.required && <span className="text-destructive ml-1">*</span>}
-                      </FieldLabel>
-                      <Input
-                        id={field.key}
-                        type={field.type === 'secret' ? 'password' : 'text'}
-                        placeholder={field.placeholder}
-                        value={formData[field.key] ?? ''}
-                        onChange={(e) => handleFieldChange(field.key, e.target.value)}
-                        onBlur={() => handleFieldBlur(field.key)}
-                        aria-invalid={!!error}
-                      />
-                      {error && <FieldError>{error}</FieldError>}
-                    </Field>
-                  );
-                })
-              )}
+              <Field>
+                <FieldLabel htmlFor="destination-name">
+                  {t('pages:settings.notifications.destinationName')}
+                  <span className="text-destructive ml-1">*</span>
+                </FieldLabel>
+                <Input
+                  id="destination-name"
+                  placeholder={t('pages:settings.notifications.destinationNamePlaceholder')}
+                  value={name}
+                  maxLength={100}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </Field>
+
+              {selectedConfig.fields.map((field) => (
+                <AgentFieldInput
+                  key={field.key}
+                  field={field}
+                  value={formData[field.key] ?? ''}
+                  error={touched[field.key] ? fieldErrors[field.key] : null}
+                  onChange={(value) => handleFieldChange(field.key, value)}
+                  onBlur={() => handleFieldBlur(field.key)}
+                />
+              ))}
             </div>
           )}
         </div>
@@ -356,8 +308,8 @@ export function AddAgentDialog({
             {t('common:actions.cancel')}
           </Button>
           {selectedType && (
-            <Button onClick={handleSave} disabled={!canSave() || updateSettings.isPending}>
-              {updateSettings.isPending ? (
+            <Button onClick={handleSave} disabled={!canSave() || createDestination.isPending}>
+              {createDestination.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   {t('common:states.saving')}
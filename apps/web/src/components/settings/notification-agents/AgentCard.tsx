@@ -1,26 +1,25 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Pencil, X, FlaskConical, Loader2, Check } from 'lucide-react';
+import { Pencil, X, FlaskConical, Loader2, Check, FileText, Newspaper } from 'lucide-react';
 import type { NotificationChannelRouting, NotificationEventType } from '@tracearr/shared';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import type { ActiveAgent, RoutingChannel } from './types';
+import type { ActiveAgent } from './types';
 import { NOTIFICATION_EVENT_ORDER, NOTIFICATION_EVENT_CONFIG } from './types';
 
 interface AgentCardProps {
   agent: ActiveAgent;
   routingData: NotificationChannelRouting[];
-  onToggleEvent: (
-    eventType: NotificationEventType,
-    channel: RoutingChannel,
-    enabled: boolean
-  ) => void;
+  onToggleEvent: (eventType: NotificationEventType, enabled: boolean) => void;
   onEdit: () => void;
+  onEditTemplates: () => void;
   onRemove: () => void;
   onTest: () => void;
   isTesting: boolean;
+  onSendDigest: () => void;
+  isSendingDigest: boolean;
 }
 
 export function AgentCard({
@@ -28,11 +27,14 @@ export function AgentCard({
   routingData,
   onToggleEvent,
   onEdit,
+  onEditTemplates,
   onRemove,
   onTest,
   isTesting,
+  onSendDigest,
+  isSendingDigest,
 }: AgentCardProps) {
-  const { config, displayValue, isConfigured } = agent;
+  const { config, destination, displayValue, isConfigured } = agent;
   const Icon = config.icon;
 
   // Track save status per event - shows "Saved" briefly after toggle
@@ -43,18 +45,19 @@ export function AgentCard({
   const routingMap = new Map<NotificationEventType, NotificationChannelRouting>();
   routingData.forEach((r) => routingMap.set(r.eventType, r));
 
-  // Get the enabled state for this agent's channel
+  // Get the enabled state for this agent: destinations carry their own event
+  // subscriptions, built-in channels use their routing column
   const getEventEnabled = (eventType: NotificationEventType): boolean => {
+    if (agent.destination) {
+      return agent.destination.events.includes(eventType);
+    }
+
     const routing = routingMap.get(eventType);
     if (!routing) return false;
 
     switch (config.routingChannel) {
       case 'webToast':
         return routing.webToastEnabled;
-      case 'discord':
-        return routing.discordEnabled;
-      case 'webhook':
-        return routing.webhookEnabled;
       case 'push':
         return routing.pushEnabled;
       default:
@@ -73,7 +76,7 @@ export function AgentCard({
   const handleToggle = useCallback(
     (eventType: NotificationEventType, checked: boolean) => {
       // Trigger the mutation
-      onToggleEvent(eventType, config.routingChannel, checked);
+      onToggleEvent(eventType, checked);
 
       // Show "Saved" immediately (optimistic - the mutation has optimistic updates)
       setSavedEvents((prev) => new Set(prev).add(eventType));
@@ -95,7 +98,7 @@ export function AgentCard({
       }, 2000);
       timersRef.current[eventType] = timerId;
     },
-    [onToggleEvent, config.routingChannel]
+    [onToggleEvent]
   );
 
   const getStatusIndicator = (eventType: NotificationEventType) => {
@@ -127,12 +130,17 @@ export function AgentCard({
             </div>
             <div className="min-w-0">
               <div className="flex items-center gap-2">
-                <h3 className="font-semibold">{config.name}</h3>
+                <h3 className="truncate font-semibold">{destination?.name ?? config.name}</h3>
                 {config.isDefault && (
                   <Badge variant="secondary" className="text-xs">
                     Default
                   </Badge>
                 )}
+                {destination && !destination.enabled && (
+                  <Badge variant="outline" className="text-xs">
+                    Disabled
+                  </Badge>
+                )}
               </div>
               {displayValue ? (
                 <p className="text-muted-foreground truncate text-sm">{displayValue}</p>
@@ -154,6 +162,16 @@ export function AgentCard({
                 <TooltipContent>Edit</TooltipContent>
               </Tooltip>
             )}
+            {config.templateAgent && isConfigured && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEditTemplates}>
+                    <FileText className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Message Templates</TooltipContent>
+              </Tooltip>
+            )}
             {config.isRemovable && (
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -227,6 +245,27 @@ export function AgentCard({
                 </>
               )}
             </Button>
+            {destination && destination.digestFrequency !== 'off' && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2 w-full"
+                onClick={onSendDigest}
+                disabled={isSendingDigest}
+              >
+                {isSendingDigest ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  <>
+                    <Newspaper className="mr-2 h-4 w-4" />
+                    Send Digest Now
+                  </>
+                )}
+              </Button>
+            )}
           </div>
         )}
 
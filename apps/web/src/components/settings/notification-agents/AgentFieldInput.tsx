@@ -0,0 +1,64 @@
+import { Input } from '@/components/ui/input';
+import { Field, FieldLabel, FieldError } from '@/components/ui/field';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { AgentFieldConfig } from './types';
+
+interface AgentFieldInputProps {
+  field: AgentFieldConfig;
+  value: string;
+  error: string | null | undefined;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+}
+
+/**
+ * Renders a single agent settings field using the input matching its type
+ */
+export function AgentFieldInput({ field, value, error, onChange, onBlur }: AgentFieldInputProps) {
+  return (
+    <Field data-invalid={!!error}>
+      <FieldLabel htmlFor={field.key}>
+        {field.label}
+        {field.required && <span className="text-destructive ml-1">*</span>}
+      </FieldLabel>
+      {field.type === 'select' ? (
+        <Select
+          value={value}
+          onValueChange={(next) => {
+            onChange(next);
+            onBlur();
+          }}
+        >
+          <SelectTrigger id={field.key} className="w-full" aria-invalid={!!error}>
+            <SelectValue placeholder={field.placeholder} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={field.key}
+          type={field.type === 'secret' ? 'password' : 'text'}
+          inputMode={field.type === 'number' ? 'numeric' : undefined}
+          placeholder={field.placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          aria-invalid={!!error}
+        />
+      )}
+      {error && <FieldError>{error}</FieldError>}
+    </Field>
+  );
+}
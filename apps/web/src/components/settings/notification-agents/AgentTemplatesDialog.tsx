@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  type NotificationTemplateAgent,
+  type NotificationTemplateEventType,
+  type NotificationTemplatePreview,
+} from '@tracearr/shared';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  useNotificationTemplates,
+  useSaveNotificationTemplate,
+  useDeleteNotificationTemplate,
+} from '@/hooks/queries/useNotificationTemplates';
+import { api } from '@/lib/api';
+import type { AgentConfig } from './types';
+import { NOTIFICATION_EVENT_ORDER, NOTIFICATION_EVENT_CONFIG } from './types';
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+interface AgentTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: AgentConfig & { templateAgent: NotificationTemplateAgent };
+}
+
+export function AgentTemplatesDialog({ open, onOpenChange, config }: AgentTemplatesDialogProps) {
+  const { t } = useTranslation(['common']);
+  const { data: templates } = useNotificationTemplates();
+  const saveTemplate = useSaveNotificationTemplate();
+  const deleteTemplate = useDeleteNotificationTemplate();
+
+  const [eventType, setEventType] = useState<NotificationTemplateEventType>('violation_detected');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [preview, setPreview] = useState<NotificationTemplatePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const existing = templates?.find(
+    (template) => template.eventType === eventType && template.agent === config.templateAgent
+  );
+
+  // Load the saved template (or blank for built-in formatting) when the event changes
+  useEffect(() => {
+    if (open) {
+      setTitle(existing?.title ?? '');
+      setBody(existing?.body ?? '');
+    }
+  }, [open, existing?.title, existing?.body, eventType]);
+
+  // Live preview against sample data
+  useEffect(() => {
+    if (!open || !title.trim() || !body.trim()) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.notificationTemplates
+        .preview({ eventType, title, body })
+        .then((result) => {
+          if (cancelled) return;
+          setPreview(result);
+          setPreviewError(null);
+        })
+        .catch((err: unknown) => {
+          if (cancelled) return;
+          setPreview(null);
+          setPreviewError(err instanceof Error ? err.message : 'Preview failed');
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, eventType, title, body]);
+
+  const insertVariable = (name: string) => {
+    setBody((prev) => `${prev}{{${name}}}`);
+  };
+
+  const handleSave = () => {
+    saveTemplate.mutate({ eventType, agent: config.templateAgent, title, body });
+  };
+
+  const handleReset = () => {
+    deleteTemplate.mutate({ eventType, agent: config.templateAgent });
+  };
+
+  const templateEvents = NOTIFICATION_EVENT_ORDER.filter(
+    (event): event is NotificationTemplateEventType => event in NOTIFICATION_TEMPLATE_VARIABLES
+  );
+  const canSave = !!title.trim() && !!body.trim() && !previewError;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{config.name} Message Templates</DialogTitle>
+          <DialogDescription>
+            Customize the title and message sent for each event. Events without a template use the
+            built-in message.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-event">Event</Label>
+            <Select
+              value={eventType}
+              onValueChange={(next) => setEventType(next as NotificationTemplateEventType)}
+            >
+              <SelectTrigger id="template-event" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templateEvents.map((event) => (
+                  <SelectItem key={event} value={event}>
+                    {NOTIFICATION_EVENT_CONFIG[event]?.name ?? event}
+                    {templates?.some(
+                      (template) =>
+                        template.eventType === event && template.agent === config.templateAgent
+                    ) && ' (custom)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-title">Title</Label>
+            <Input
+              id="template-title"
+              value={title}
+              maxLength={200}
+              placeholder="e.g. {{violation.rule.name}} triggered"
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Message</Label>
+            <Textarea
+              id="template-body"
+              value={body}
+              maxLength={4000}
+              rows={4}
+              placeholder="e.g. {{user.displayName}} is watching {{session.displayTitle}} from {{geo.location}}"
+              onChange={(e) => setBody(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-muted-foreground text-xs font-medium tracking-wide uppercase">
+              Variables
+            </p>
+            <div className="flex max-h-28 flex-wrap gap-1 overflow-y-auto">
+              {NOTIFICATION_TEMPLATE_VARIABLES[eventType].map((variable) => (
+                <Tooltip key={variable.name}>
+                  <TooltipTrigger asChild>
+                    <Badge
+                      variant="outline"
+                      className="cursor-pointer font-mono text-xs"
+                      onClick={() => insertVariable(variable.name)}
+                    >
+                      {`{{${variable.name}}}`}
+                    </Badge>
+                  </TooltipTrigger>
+                  <TooltipContent>{variable.description}</TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-muted-foreground text-xs font-medium tracking-wide uppercase">
+              Preview
+            </p>
+            <div className="bg-muted rounded-md p-3 text-sm">
+              {previewError ? (
+                <p className="text-destructive">{previewError}</p>
+              ) : preview ? (
+                <>
+                  <p className="font-semibold">{preview.title}</p>
+                  <p className="whitespace-pre-line">{preview.body}</p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">
+                  Enter a title and message to preview with sample data.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          {existing && (
+            <Button
+              variant="outline"
+              className="sm:mr-auto"
+              onClick={handleReset}
+              disabled={deleteTemplate.isPending}
+            >
+              Reset to Default
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common:actions.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saveTemplate.isPending}>
+            {saveTemplate.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t('common:states.saving')}
+              </>
+            ) : (
+              t('common:actions.save')
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
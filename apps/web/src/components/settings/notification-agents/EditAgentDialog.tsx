@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { Settings } from '@tracearr/shared';
+import type {
+  DigestFrequency,
+  NotificationDestination,
+  NotificationDestinationConfig,
+  ViolationSeverity,
+} from '@tracearr/shared';
+import { DIGEST_FREQUENCIES, SEVERITY_LEVELS } from '@tracearr/shared';
 import { Loader2 } from 'lucide-react';
 import {
   Dialog,
@@ -11,47 +17,87 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
-import { Field, FieldLabel, FieldError } from '@/components/ui/field';
-import { useUpdateSettings } from '@/hooks/queries/useSettings';
+import { Switch } from '@/components/ui/switch';
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from '@/components/ui/field';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useServers } from '@/hooks/queries/useServers';
+import { useUpdateNotificationDestination } from '@/hooks/queries/useNotificationDestinations';
 import { toast } from 'sonner';
-import type { NotificationAgentType } from './types';
-import { validateField } from './types';
+import { toConfigValue, validateField } from './types';
 import { AGENT_CONFIGS } from './agent-config';
+import { AgentFieldInput } from './AgentFieldInput';
 
 interface EditAgentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  agentType: NotificationAgentType;
-  settings: Settings | undefined;
+  destination: NotificationDestination;
 }
 
-export function EditAgentDialog({ open, onOpenChange, agentType, settings }: EditAgentDialogProps) {
+const SEVERITY_OPTIONS = Object.keys(SEVERITY_LEVELS) as ViolationSeverity[];
+
+const DIGEST_FREQUENCY_LABELS = {
+  off: 'pages:settings.notifications.digestOff',
+  weekly: 'pages:settings.notifications.digestWeekly',
+  monthly: 'pages:settings.notifications.digestMonthly',
+} as const satisfies Record<DigestFrequency, string>;
+
+export function EditAgentDialog({ open, onOpenChange, destination }: EditAgentDialogProps) {
   const { t } = useTranslation(['notifications', 'pages', 'common']);
-  const updateSettings = useUpdateSettings({ silent: true });
+  const updateDestination = useUpdateNotificationDestination();
+  const { data: servers } = useServers();
+  const [name, setName] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [minSeverity, setMinSeverity] = useState<ViolationSeverity>('low');
+  const [serverIds, setServerIds] = useState<string[]>([]);
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>('off');
   const [formData, setFormData] = useState<Record<string, string>>({});
   const [fieldErrors, setFieldErrors] = useState<Record<string, string | null>>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
 
-  const config = AGENT_CONFIGS[agentType];
+  const config = AGENT_CONFIGS[destination.type];
+  const destinationConfig = destination.config as Record<string, unknown>;
 
-  // Initialize form with current settings values when dialog opens
+  // Initialize form with the destination's values when dialog opens
   useEffect(() => {
-    if (open && settings && config) {
+    if (open) {
       const initialData: Record<string, string> = {};
 
       config.fields.forEach((field) => {
-        const value = settings[field.key as keyof Settings];
+        const value = destinationConfig[field.key];
         if (value != null) {
           initialData[field.key] = String(value);
         }
       });
 
+      setName(destination.name);
+      setEnabled(destination.enabled);
+      setMinSeverity(destination.minSeverity);
+      setServerIds(destination.serverIds);
+      setDigestFrequency(destination.digestFrequency);
       setFormData(initialData);
       setFieldErrors({});
       setTouched({});
     }
-  }, [open, settings, config]);
+  }, [open, destination, destinationConfig, config]);
+
+  const toggleServer = (serverId: string, checked: boolean) => {
+    setServerIds((prev) => (checked ? [...prev, serverId] : prev.filter((id) => id !== serverId)));
+  };
 
   const handleFieldChange = (key: string, value: string) => {
     setFormData((prev) => ({ ...prev, [key]: value }));
@@ -93,6 +139,7 @@ export function EditAgentDialog({ open, onOpenChange, agentType, settings }: Edi
   };
 
   const canSave = () => {
+    if (!name.trim()) return false;
     const requiredFilled = config.fields
       .filter((f) => f.required)
       .every((f) => formData[f.key]?.trim());
@@ -106,23 +153,34 @@ export function EditAgentDialog({ open, onOpenChange, agentType, settings }: Edi
       return;
     }
 
-    // Build settings update
-    const update: Record<string, string | null> = {};
+    // Build config update
+    const update: Record<string, unknown> = {};
 
     // Set the fields
     config.fields.forEach((field) => {
-      const value = formData[field.key]?.trim();
-      update[field.key] = value || null;
+      // Secrets come back masked - leave them alone unless the user typed a new value
+      if (field.type === 'secret' && formData[field.key] === destinationConfig[field.key]) {
+        return;
+      }
+      update[field.key] = toConfigValue(field, formData[field.key]);
     });
 
     try {
-      await updateSettings.mutateAsync(update);
+      await updateDestination.mutateAsync({
+        id: destination.id,
+        name: name.trim(),
+        enabled,
+        minSeverity,
+        serverIds,
+        digestFrequency,
+        config: update as NotificationDestinationConfig,
+      });
       toast.success(t('toast.success.agentUpdated.title'), {
         description: t('toast.success.agentUpdated.message'),
       });
       onOpenChange(false);
     } catch {
-      toast.error(t('toast.error.agentUpdateFailed'));
+      // Error toast is shown by the mutation
     }
   };
 
@@ -144,38 +202,110 @@ export function EditAgentDialog({ open, onOpenChange, agentType, settings }: Edi
                 <Icon className="h-5 w-5" />
               )}
             </div>
-            {t('common:actions.edit')} {config.name}
+            {t('common:actions.edit')} {destination.name}
           </DialogTitle>
           <DialogDescription>{t('pages:settings.notifications.editAgentDesc')}</DialogDescription>
         </DialogHeader>
 
-        <div className="flex flex-col gap-4 py-2">
-          {config.fields.length === 0 ? (
-            <p className="text-muted-foreground text-sm">
-              {t('pages:settings.notifications.noConfigNeeded')}
-            </p>
-          ) : (
-            config.fields.map((field) => {
-              const error = touched[field.key] ? fieldErrors[field.key] : null;
-              return (
-                <Field key={field.key} data-invalid={!!error}>
-                  <FieldLabel htmlFor={field.key}>
-                    {field.label}
-                    {field.required && <span className="text-destructive ml-1">*</span>}
-                  </FieldLabel>
-                  <Input
-                    id={field.key}
-                    type={field.type === 'secret' ? 'password' : 'text'}
-                    placeholder={field.placeholder}
-                    value={formData[field.key] ?? ''}
-                    onChange={(e) => handleFieldChange(field.key, e.target.value)}
-                    onBlur={() => handleFieldBlur(field.key)}
-                    aria-invalid={!!error}
+        <div className="flex max-h-[60vh] flex-col gap-4 overflow-y-auto py-2">
+          <Field data-invalid={!name.trim()}>
+            <FieldLabel htmlFor="destination-name">
+              {t('pages:settings.notifications.destinationName')}
+              <span className="text-destructive ml-1">*</span>
+            </FieldLabel>
+            <Input
+              id="destination-name"
+              placeholder={t('pages:settings.notifications.destinationNamePlaceholder')}
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              aria-invalid={!name.trim()}
+            />
+            {!name.trim() && <FieldError>{t('common:validation.required')}</FieldError>}
+          </Field>
+
+          <Field orientation="horizontal">
+            <Switch id="destination-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            <FieldLabel htmlFor="destination-enabled">
+              {t('pages:settings.notifications.destinationEnabled')}
+            </FieldLabel>
+          </Field>
+
+          {config.fields.map((field) => (
+            <AgentFieldInput
+              key={field.key}
+              field={field}
+              value={formData[field.key] ?? ''}
+              error={touched[field.key] ? fieldErrors[field.key] : null}
+              onChange={(value) => handleFieldChange(field.key, value)}
+              onBlur={() => handleFieldBlur(field.key)}
+            />
+          ))}
+
+          <Field>
+            <FieldLabel htmlFor="destination-min-severity">
+              {t('pages:settings.notifications.minSeverity')}
+            </FieldLabel>
+            <Select
+              value={minSeverity}
+              onValueChange={(value) => setMinSeverity(value as ViolationSeverity)}
+            >
+              <SelectTrigger id="destination-min-severity" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITY_OPTIONS.map((severity) => (
+                  <SelectItem key={severity} value={severity}>
+                    {t(`common:severity.${severity}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FieldDescription>{t('pages:settings.notifications.minSeverityDesc')}</FieldDescription>
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="destination-digest-frequency">
+              {t('pages:settings.notifications.digestFrequency')}
+            </FieldLabel>
+            <Select
+              value={digestFrequency}
+              onValueChange={(value) => setDigestFrequency(value as DigestFrequency)}
+            >
+              <SelectTrigger id="destination-digest-frequency" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIGEST_FREQUENCIES.map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {t(DIGEST_FREQUENCY_LABELS[frequency])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FieldDescription>
+              {t('pages:settings.notifications.digestFrequencyDesc')}
+            </FieldDescription>
+          </Field>
+
+          {servers && servers.length > 1 && (
+            <FieldSet>
+              <FieldLegend variant="label">
+                {t('pages:settings.notifications.serverFilter')}
+              </FieldLegend>
+              <FieldDescription>
+                {t('pages:settings.notifications.serverFilterDesc')}
+              </FieldDescription>
+              {servers.map((server) => (
+                <label key={server.id} className="flex cursor-pointer items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={serverIds.includes(server.id)}
+                    onCheckedChange={(checked) => toggleServer(server.id, checked === true)}
                   />
-                  {error && <FieldError>{error}</FieldError>}
-                </Field>
-              );
-            })
+                  {server.name}
+                </label>
+              ))}
+            </FieldSet>
           )}
         </div>
 
@@ -183,8 +313,8 @@ export function EditAgentDialog({ open, onOpenChange, agentType, settings }: Edi
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             {t('common:actions.cancel')}
           </Button>
-          <Button onClick={handleSave} disabled={!canSave() || updateSettings.isPending}>
-            {updateSettings.isPending ? (
+          <Button onClick={handleSave} disabled={!canSave() || updateDestination.isPending}>
+            {updateDestination.isPending ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 {t('common:states.saving')}
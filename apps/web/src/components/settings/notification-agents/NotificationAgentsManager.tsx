@@ -3,15 +3,21 @@ import { useTranslation } from 'react-i18next';
 import type { NotificationEventType } from '@tracearr/shared';
 import { Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useSettings, useUpdateSettings } from '@/hooks/queries/useSettings';
+import { useSettings } from '@/hooks/queries/useSettings';
 import { useChannelRouting, useUpdateChannelRouting } from '@/hooks/queries/useChannelRouting';
-import type { RoutingChannel, NotificationAgentType } from './types';
+import {
+  useDeleteNotificationDestination,
+  useNotificationDestinations,
+  useUpdateNotificationDestination,
+} from '@/hooks/queries/useNotificationDestinations';
+import type { ActiveAgent, NotificationAgentType } from './types';
 import { useActiveAgents, useAddableAgents } from './useActiveAgents';
 import { AgentCard } from './AgentCard';
 import { AddAgentDialog } from './AddAgentDialog';
 import { EditAgentDialog } from './EditAgentDialog';
+import { AgentTemplatesDialog } from './AgentTemplatesDialog';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
-import { AGENT_CONFIGS, CUSTOM_WEBHOOK_AGENTS } from './agent-config';
+import { AGENT_CONFIGS } from './agent-config';
 import { api } from '@/lib/api';
 import { toast } from 'sonner';
 
@@ -19,76 +25,56 @@ export function NotificationAgentsManager() {
   const { t } = useTranslation(['notifications', 'pages', 'common']);
   const { data: settings, isLoading: settingsLoading } = useSettings();
   const { data: routingData, isLoading: routingLoading } = useChannelRouting();
-  const updateSettings = useUpdateSettings({ silent: true });
+  const { data: destinations, isLoading: destinationsLoading } = useNotificationDestinations();
   const updateRouting = useUpdateChannelRouting();
+  const updateDestination = useUpdateNotificationDestination();
+  const deleteDestination = useDeleteNotificationDestination();
 
   // Dialog states
   const [addDialogOpen, setAddDialogOpen] = useState(false);
-  const [editingAgent, setEditingAgent] = useState<NotificationAgentType | null>(null);
-  const [removingAgent, setRemovingAgent] = useState<NotificationAgentType | null>(null);
-  const [testingAgent, setTestingAgent] = useState<NotificationAgentType | null>(null);
+  const [editingAgent, setEditingAgent] = useState<ActiveAgent | null>(null);
+  const [templatesAgent, setTemplatesAgent] = useState<NotificationAgentType | null>(null);
+  const [removingAgent, setRemovingAgent] = useState<ActiveAgent | null>(null);
+  const [testingAgent, setTestingAgent] = useState<string | null>(null);
+  const [digestAgent, setDigestAgent] = useState<string | null>(null);
 
-  // Derive agents from settings
-  const activeAgents = useActiveAgents(settings);
-  const { discord, webhookAgents, activeWebhookAgent } = useAddableAgents(activeAgents);
-  const hasAddableAgents = discord !== null || webhookAgents.length > 0;
+  // Derive agents from settings and destinations
+  const activeAgents = useActiveAgents(settings, destinations);
+  const { standaloneAgents, webhookAgents } = useAddableAgents();
 
-  const isLoading = settingsLoading || routingLoading;
+  const isLoading = settingsLoading || routingLoading || destinationsLoading;
 
-  // Map routing channel to the appropriate update field
+  // Destinations store their own event list; built-in channels use their routing column
   const handleToggleEvent = (
+    agent: ActiveAgent,
     eventType: NotificationEventType,
-    channel: RoutingChannel,
     enabled: boolean
   ) => {
-    const updateData: Parameters<typeof updateRouting.mutate>[0] = { eventType };
+    const { destination } = agent;
+
+    if (destination) {
+      const events = enabled
+        ? [...destination.events, eventType]
+        : destination.events.filter((event) => event !== eventType);
+      updateDestination.mutate({ id: destination.id, events });
+      return;
+    }
 
-    switch (channel) {
+    switch (agent.config.routingChannel) {
       case 'webToast':
-        updateData.webToastEnabled = enabled;
-        break;
-      case 'discord':
-        updateData.discordEnabled = enabled;
-        break;
-      case 'webhook':
-        updateData.webhookEnabled = enabled;
+        updateRouting.mutate({ eventType, webToastEnabled: enabled });
         break;
       case 'push':
-        updateData.pushEnabled = enabled;
+        updateRouting.mutate({ eventType, pushEnabled: enabled });
         break;
     }
-
-    updateRouting.mutate(updateData);
   };
 
   const handleRemoveAgent = async () => {
-    if (!removingAgent) return;
-
-    const config = AGENT_CONFIGS[removingAgent];
-    if (!config) return;
-
-    // Build update to clear this agent's settings
-    const clearData: Record<string, null> = {};
-
-    if (removingAgent === 'discord') {
-      clearData.discordWebhookUrl = null;
-    } else if (CUSTOM_WEBHOOK_AGENTS.includes(removingAgent)) {
-      // Clear custom webhook settings
-      clearData.customWebhookUrl = null;
-      clearData.webhookFormat = null;
-
-      // Clear agent-specific fields
-      if (removingAgent === 'ntfy') {
-        clearData.ntfyTopic = null;
-        clearData.ntfyAuthToken = null;
-      } else if (removingAgent === 'pushover') {
-        clearData.pushoverUserKey = null;
-        clearData.pushoverApiToken = null;
-      }
-    }
+    if (!removingAgent?.destination) return;
 
     try {
-      await updateSettings.mutateAsync(clearData);
+      await deleteDestination.mutateAsync(removingAgent.destination.id);
       toast.success(t('toast.success.agentRemoved.title'), {
         description: t('toast.success.agentRemoved.message'),
       });
@@ -99,26 +85,13 @@ export function NotificationAgentsManager() {
     }
   };
 
-  const handleTestAgent = async (agentType: NotificationAgentType) => {
-    if (!settings) return;
+  const handleTestAgent = async (agent: ActiveAgent) => {
+    if (!agent.destination) return;
 
-    setTestingAgent(agentType);
+    setTestingAgent(agent.key);
 
     try {
-      let result: { success: boolean; error?: string };
-
-      if (agentType === 'discord') {
-        result = await api.settings.testWebhook({
-          type: 'discord',
-        });
-      } else if (CUSTOM_WEBHOOK_AGENTS.includes(agentType)) {
-        result = await api.settings.testWebhook({
-          type: 'custom',
-          format: settings.webhookFormat ?? undefined,
-        });
-      } else {
-        throw new Error('Test not supported for this agent type');
-      }
+      const result = await api.notificationDestinations.test(agent.destination.id);
 
       if (result.success) {
         toast.success(t('toast.success.webhookTest.title'), {
@@ -138,6 +111,32 @@ export function NotificationAgentsManager() {
     }
   };
 
+  const handleSendDigest = async (agent: ActiveAgent) => {
+    if (!agent.destination) return;
+
+    setDigestAgent(agent.key);
+
+    try {
+      const result = await api.notificationDestinations.sendDigest(agent.destination.id);
+
+      if (result.success) {
+        toast.success(t('toast.success.digestSent.title'), {
+          description: t('toast.success.digestSent.message'),
+        });
+      } else {
+        toast.error(t('toast.error.digestSendFailed'), {
+          description: result.error,
+        });
+      }
+    } catch (err) {
+      toast.error(t('toast.error.digestSendFailed'), {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setDigestAgent(null);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex h-32 items-center justify-center">
@@ -148,7 +147,8 @@ export function NotificationAgentsManager() {
     );
   }
 
-  const removingConfig = removingAgent ? AGENT_CONFIGS[removingAgent] : null;
+  const removingName = removingAgent?.destination?.name;
+  const templatesConfig = templatesAgent ? AGENT_CONFIGS[templatesAgent] : null;
 
   return (
     <div className="space-y-4">
@@ -156,43 +156,50 @@ export function NotificationAgentsManager() {
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {activeAgents.map((agent) => (
           <AgentCard
-            key={agent.type}
+            key={agent.key}
             agent={agent}
             routingData={routingData ?? []}
-            onToggleEvent={handleToggleEvent}
-            onEdit={() => setEditingAgent(agent.type)}
-            onRemove={() => setRemovingAgent(agent.type)}
-            onTest={() => handleTestAgent(agent.type)}
-            isTesting={testingAgent === agent.type}
+            onToggleEvent={(eventType, enabled) => handleToggleEvent(agent, eventType, enabled)}
+            onEdit={() => setEditingAgent(agent)}
+            onEditTemplates={() => setTemplatesAgent(agent.type)}
+            onRemove={() => setRemovingAgent(agent)}
+            onTest={() => handleTestAgent(agent)}
+            isTesting={testingAgent === agent.key}
+            onSendDigest={() => handleSendDigest(agent)}
+            isSendingDigest={digestAgent === agent.key}
           />
         ))}
       </div>
 
       {/* Add agent button */}
-      {hasAddableAgents && (
-        <Button variant="outline" onClick={() => setAddDialogOpen(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          {t('pages:settings.notifications.addAgent')}
-        </Button>
-      )}
+      <Button variant="outline" onClick={() => setAddDialogOpen(true)}>
+        <Plus className="mr-2 h-4 w-4" />
+        {t('pages:settings.notifications.addAgent')}
+      </Button>
 
       {/* Add agent dialog */}
       <AddAgentDialog
         open={addDialogOpen}
         onOpenChange={setAddDialogOpen}
-        discord={discord}
+        standaloneAgents={standaloneAgents}
         webhookAgents={webhookAgents}
-        activeWebhookAgent={activeWebhookAgent}
-        settings={settings}
       />
 
       {/* Edit agent dialog */}
-      {editingAgent && (
+      {editingAgent?.destination && (
         <EditAgentDialog
           open={!!editingAgent}
           onOpenChange={(open: boolean) => !open && setEditingAgent(null)}
-          agentType={editingAgent}
-          settings={settings}
+          destination={editingAgent.destination}
+        />
+      )}
+
+      {/* Message templates dialog */}
+      {templatesConfig?.templateAgent && (
+        <AgentTemplatesDialog
+          open={!!templatesAgent}
+          onOpenChange={(open: boolean) => !open && setTemplatesAgent(null)}
+          config={{ ...templatesConfig, templateAgent: templatesConfig.templateAgent }}
         />
       )}
 
@@ -201,15 +208,15 @@ export function NotificationAgentsManager() {
         open={!!removingAgent}
         onOpenChange={(open: boolean) => !open && setRemovingAgent(null)}
         title={t('pages:settings.notifications.removeAgentTitle', {
-          name: removingConfig?.name ?? 'Agent',
+          name: removingName ?? 'Agent',
         })}
         description={t('pages:settings.notifications.removeAgentDesc', {
-          name: removingConfig?.name ?? 'notification agent',
+          name: removingName ?? 'notification agent',
         })}
         confirmLabel={t('common:actions.remove')}
         variant="destructive"
         onConfirm={handleRemoveAgent}
-        isLoading={updateSettings.isPending}
+        isLoading={deleteDestination.isPending}
       />
     </div>
   );
@@ -1,4 +1,14 @@
-import { Globe, MessageSquare, Bell, Share2, Smartphone, Webhook } from 'lucide-react';
+import {
+  Globe,
+  MessageSquare,
+  MessagesSquare,
+  Bell,
+  Share2,
+  Smartphone,
+  Webhook,
+  Mail,
+  Send,
+} from 'lucide-react';
 import type { AgentConfig, NotificationAgentType } from './types';
 import { BASE_URL } from '@/lib/basePath';
 
@@ -25,7 +35,7 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
     imagePath: `${BASE_URL}images/notification-agents/discord.png`,
     description: 'Send notifications to a Discord channel',
     isRemovable: true,
-    routingChannel: 'discord',
+    templateAgent: 'discord',
     fields: [
       {
         key: 'discordWebhookUrl',
@@ -44,8 +54,7 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
     imagePath: `${BASE_URL}images/notification-agents/ntfy.png`,
     description: 'Push notifications via ntfy.sh',
     isRemovable: true,
-    webhookFormat: 'ntfy',
-    routingChannel: 'webhook',
+    templateAgent: 'ntfy',
     fields: [
       {
         key: 'customWebhookUrl',
@@ -78,8 +87,7 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
     imagePath: `${BASE_URL}images/notification-agents/gotify.png`,
     description: 'Push notifications via Gotify',
     isRemovable: true,
-    webhookFormat: 'gotify',
-    routingChannel: 'webhook',
+    templateAgent: 'gotify',
     fields: [
       {
         key: 'customWebhookUrl',
@@ -98,8 +106,7 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
     imagePath: `${BASE_URL}images/notification-agents/apprise.png`,
     description: 'Multi-service notifications via Apprise API',
     isRemovable: true,
-    webhookFormat: 'apprise',
-    routingChannel: 'webhook',
+    templateAgent: 'apprise',
     fields: [
       {
         key: 'customWebhookUrl',
@@ -118,8 +125,7 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
     imagePath: `${BASE_URL}images/notification-agents/pushover.png`,
     description: 'Push notifications via Pushover',
     isRemovable: true,
-    webhookFormat: 'pushover',
-    routingChannel: 'webhook',
+    templateAgent: 'pushover',
     fields: [
       {
         key: 'pushoverUserKey',
@@ -144,8 +150,7 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
     icon: Webhook,
     description: 'Send raw JSON to a custom endpoint',
     isRemovable: true,
-    webhookFormat: 'json',
-    routingChannel: 'webhook',
+    templateAgent: 'json-webhook',
     fields: [
       {
         key: 'customWebhookUrl',
@@ -154,6 +159,135 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
         placeholder: 'https://your-service.com/webhook',
         required: true,
       },
+      {
+        key: 'webhookSecret',
+        label: 'Signing Secret',
+        type: 'secret',
+        placeholder: 'Optional: signs requests with X-Tracearr-Signature',
+        required: false,
+      },
+    ],
+  },
+
+  email: {
+    type: 'email',
+    name: 'Email',
+    icon: Mail,
+    description: 'Send notifications by email over SMTP',
+    isRemovable: true,
+    templateAgent: 'email',
+    fields: [
+      {
+        key: 'smtpHost',
+        label: 'SMTP Host',
+        type: 'text',
+        placeholder: 'smtp.example.com',
+        required: true,
+      },
+      {
+        key: 'smtpPort',
+        label: 'Port',
+        type: 'number',
+        placeholder: 'Default for security mode (25, 587 or 465)',
+        required: false,
+      },
+      {
+        key: 'smtpSecurity',
+        label: 'Security',
+        type: 'select',
+        placeholder: 'STARTTLS',
+        required: false,
+        options: [
+          { value: 'starttls', label: 'STARTTLS' },
+          { value: 'tls', label: 'TLS' },
+          { value: 'none', label: 'None' },
+        ],
+      },
+      {
+        key: 'smtpUsername',
+        label: 'Username',
+        type: 'text',
+        placeholder: 'Optional',
+        required: false,
+      },
+      {
+        key: 'smtpPassword',
+        label: 'Password',
+        type: 'secret',
+        placeholder: 'Optional',
+        required: false,
+      },
+      {
+        key: 'smtpFrom',
+        label: 'From Address',
+        type: 'text',
+        placeholder: 'Tracearr <tracearr@example.com>',
+        required: true,
+      },
+      {
+        key: 'smtpTo',
+        label: 'Recipients',
+        type: 'text',
+        placeholder: 'admin@example.com, mod@example.com',
+        required: true,
+      },
+    ],
+  },
+
+  telegram: {
+    type: 'telegram',
+    name: 'Telegram',
+    icon: Send,
+    description: 'Send notifications through a Telegram bot',
+    isRemovable: true,
+    templateAgent: 'telegram',
+    fields: [
+      {
+        key: 'telegramBotToken',
+        label: 'Bot Token',
+        type: 'secret',
+        placeholder: '123456:ABC-DEF...',
+        required: true,
+      },
+      {
+        key: 'telegramChatId',
+        label: 'Chat ID',
+        type: 'text',
+        placeholder: '-1001234567890 or @channelname',
+        required: true,
+      },
+    ],
+  },
+
+  matrix: {
+    type: 'matrix',
+    name: 'Matrix',
+    icon: MessagesSquare,
+    description: 'Post notifications to a Matrix room',
+    isRemovable: true,
+    templateAgent: 'matrix',
+    fields: [
+      {
+        key: 'matrixHomeserverUrl',
+        label: 'Homeserver URL',
+        type: 'url',
+        placeholder: 'https://matrix.org',
+        required: true,
+      },
+      {
+        key: 'matrixAccessToken',
+        label: 'Access Token',
+        type: 'secret',
+        placeholder: 'Access token of the bot account',
+        required: true,
+      },
+      {
+        key: 'matrixRoomId',
+        label: 'Room ID',
+        type: 'text',
+        placeholder: '!abcdefg:matrix.org',
+        required: true,
+      },
     ],
   },
 
@@ -174,6 +308,9 @@ export const AGENT_CONFIGS: Record<NotificationAgentType, AgentConfig> = {
  */
 export const ADDABLE_AGENT_TYPES: NotificationAgentType[] = [
   'discord',
+  'email',
+  'telegram',
+  'matrix',
   'ntfy',
   'gotify',
   'apprise',
@@ -182,7 +319,7 @@ export const ADDABLE_AGENT_TYPES: NotificationAgentType[] = [
 ];
 
 /**
- * Agent types that share the customWebhookUrl (only one can be active)
+ * Webhook-based agent types (grouped together when adding an agent)
  */
 export const CUSTOM_WEBHOOK_AGENTS: NotificationAgentType[] = [
   'ntfy',
@@ -191,3 +328,13 @@ export const CUSTOM_WEBHOOK_AGENTS: NotificationAgentType[] = [
   'pushover',
   'json',
 ];
+
+/**
+ * Agent types for dedicated services
+ */
+export const STANDALONE_AGENTS: NotificationAgentType[] = [
+  'discord',
+  'email',
+  'telegram',
+  'matrix',
+];
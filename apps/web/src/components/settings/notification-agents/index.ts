@@ -2,9 +2,14 @@ export { NotificationAgentsManager } from './NotificationAgentsManager';
 export { AgentCard } from './AgentCard';
 export { AddAgentDialog } from './AddAgentDialog';
 export { EditAgentDialog } from './EditAgentDialog';
-export { useActiveAgents, useAddableAgents, useActiveCustomWebhookAgent } from './useActiveAgents';
-export type { AddableAgentInfo } from './useActiveAgents';
-export { AGENT_CONFIGS, ADDABLE_AGENT_TYPES, CUSTOM_WEBHOOK_AGENTS } from './agent-config';
+export { AgentTemplatesDialog } from './AgentTemplatesDialog';
+export { useActiveAgents, useAddableAgents } from './useActiveAgents';
+export {
+  AGENT_CONFIGS,
+  ADDABLE_AGENT_TYPES,
+  CUSTOM_WEBHOOK_AGENTS,
+  STANDALONE_AGENTS,
+} from './agent-config';
 export type {
   NotificationAgentType,
   RoutingChannel,
@@ -1,23 +1,21 @@
 import type { LucideIcon } from 'lucide-react';
-import type { NotificationEventType, WebhookFormat } from '@tracearr/shared';
+import type {
+  NotificationDestination,
+  NotificationDestinationType,
+  NotificationEventType,
+  NotificationTemplateAgent,
+} from '@tracearr/shared';
 
 /**
- * Available notification agent types
+ * Available notification agent types: the built-in channels plus every destination type
  */
-export type NotificationAgentType =
-  | 'webToast'
-  | 'discord'
-  | 'ntfy'
-  | 'gotify'
-  | 'apprise'
-  | 'pushover'
-  | 'json'
-  | 'push';
+export type NotificationAgentType = 'webToast' | 'push' | NotificationDestinationType;
 
 /**
- * Maps agent types to their routing column in notificationChannelRouting table
+ * Built-in channels routed by their column in the notificationChannelRouting table.
+ * Other agents are destinations, which carry their own event subscriptions.
  */
-export type RoutingChannel = 'webToast' | 'discord' | 'webhook' | 'push';
+export type RoutingChannel = 'webToast' | 'push';
 
 /**
  * Configuration for a field in the agent's settings form
@@ -28,11 +26,13 @@ export interface AgentFieldConfig {
   /** Display label */
   label: string;
   /** Field type determines input component */
-  type: 'url' | 'text' | 'secret';
+  type: 'url' | 'text' | 'secret' | 'number' | 'select';
   /** Placeholder text */
   placeholder?: string;
   /** Whether field is required for the agent to be active */
   required?: boolean;
+  /** Choices for 'select' fields */
+  options?: Array<{ value: string; label: string }>;
 }
 
 function validateUrl(url: string): string | null {
@@ -67,9 +67,22 @@ export function validateField(field: AgentFieldConfig, value: string | undefined
     return validateUrl(trimmed);
   }
 
+  if (field.type === 'number' && !/^\d+$/.test(trimmed)) {
+    return `${field.label} must be a whole number`;
+  }
+
   return null;
 }
 
+/**
+ * Convert a form input string into the value sent to the destinations API
+ */
+export function toConfigValue(field: AgentFieldConfig, value: string | undefined): unknown {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  return field.type === 'number' ? Number(trimmed) : trimmed;
+}
+
 /**
  * Static configuration for an agent type
  */
@@ -88,18 +101,20 @@ export interface AgentConfig {
   isDefault?: boolean;
   /** Whether this agent can be removed */
   isRemovable: boolean;
-  /** For custom webhook agents - which format this maps to */
-  webhookFormat?: WebhookFormat;
-  /** The routing column this agent uses */
-  routingChannel: RoutingChannel;
+  /** The routing column this agent uses (built-in channels only) */
+  routingChannel?: RoutingChannel;
+  /** Server-side agent name for user-defined message templates (unset = not templatable) */
+  templateAgent?: NotificationTemplateAgent;
   /** Configuration fields for this agent */
   fields: AgentFieldConfig[];
 }
 
 /**
- * Runtime state of an active agent derived from settings
+ * Runtime state of an active agent: a built-in channel or a configured destination
  */
 export interface ActiveAgent {
+  /** Unique key (destination ID, or the agent type for built-in channels) */
+  key: string;
   /** Agent type */
   type: NotificationAgentType;
   /** Static config for this agent type */
@@ -108,6 +123,8 @@ export interface ActiveAgent {
   isConfigured: boolean;
   /** Display string for the agent (e.g., webhook URL preview) */
   displayValue?: string;
+  /** The destination backing this agent (unset for built-in channels) */
+  destination?: NotificationDestination;
 }
 
 /**
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { TIME_MS } from '@tracearr/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useRules, useCreateRuleExemption } from '@/hooks/queries';
+
+// Select value for "every rule" (Radix Select does not allow empty values)
+const ALL_RULES = 'all';
+
+const DURATION_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'No expiry' },
+];
+
+interface CreateExemptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Server account being exempted */
+  serverUserId: string;
+  /** Identity of the account; offered as the scope "all accounts" */
+  identityId?: string;
+  username: string;
+  /** Preselected rule (e.g. from a violation) */
+  defaultRuleId?: string;
+  /** Preselected duration in days */
+  defaultDays?: number;
+}
+
+/**
+ * Dialog for exempting a user from one rule or every rule
+ * Only accessible to owners
+ */
+export function CreateExemptionDialog({
+  open,
+  onOpenChange,
+  serverUserId,
+  identityId,
+  username,
+  defaultRuleId,
+  defaultDays = 14,
+}: CreateExemptionDialogProps) {
+  const [ruleId, setRuleId] = useState(defaultRuleId ?? ALL_RULES);
+  const [duration, setDuration] = useState(String(defaultDays));
+  const [scope, setScope] = useState<'account' | 'identity'>('account');
+  const [reason, setReason] = useState('');
+  const { data: rules } = useRules();
+  const mutation = useCreateRuleExemption();
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setRuleId(defaultRuleId ?? ALL_RULES);
+      setDuration(String(defaultDays));
+      setScope('account');
+      setReason('');
+    }
+  }, [open, defaultRuleId, defaultDays]);
+
+  const handleSubmit = (e: React.SyntheticEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const subject = scope === 'identity' && identityId ? { userId: identityId } : { serverUserId };
+    mutation.mutate(
+      {
+        ...subject,
+        ruleId: ruleId === ALL_RULES ? null : ruleId,
+        reason: reason.trim(),
+        expiresAt:
+          duration === 'never' ? null : new Date(Date.now() + Number(duration) * TIME_MS.DAY),
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exempt from Rules</DialogTitle>
+          <DialogDescription>
+            Rules skip @{username} while the exemption is active. No violations or actions are
+            created for covered rules.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="exemptionRule">Rule</Label>
+            <Select value={ruleId} onValueChange={setRuleId}>
+              <SelectTrigger id="exemptionRule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_RULES}>All rules</SelectItem>
+                {rules?.map((rule) => (
+                  <SelectItem key={rule.id} value={rule.id}>
+                    {rule.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exemptionDuration">Duration</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger id="exemptionDuration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATION_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {identityId && (
+              <div className="space-y-2">
+                <Label htmlFor="exemptionScope">Applies to</Label>
+                <Select
+                  value={scope}
+                  onValueChange={(value) => setScope(value as 'account' | 'identity')}
+                >
+                  <SelectTrigger id="exemptionScope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="account">This account</SelectItem>
+                    <SelectItem value="identity">All linked accounts</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exemptionReason">Reason</Label>
+            <Textarea
+              id="exemptionReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Travelling abroad for work"
+              maxLength={500}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={mutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending || !reason.trim()}>
+              {mutation.isPending ? 'Saving...' : 'Exempt'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { ShieldOff, Plus } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { RuleExemptionStatus, RuleExemptionWithDetails } from '@tracearr/shared';
+import { useUserExemptions, useRevokeRuleExemption } from '@/hooks/queries';
+import { CreateExemptionDialog } from './CreateExemptionDialog';
+
+interface UserExemptionsCardProps {
+  serverUserId: string;
+  identityId: string;
+  username: string;
+  /** Owners can add and revoke exemptions */
+  canManage: boolean;
+}
+
+const STATUS_BADGES: Record<
+  RuleExemptionStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' }
+> = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'outline' },
+};
+
+function ExemptionRow({
+  exemption,
+  canRevoke,
+  onRevoke,
+  isRevoking,
+}: {
+  exemption: RuleExemptionWithDetails;
+  canRevoke: boolean;
+  onRevoke: () => void;
+  isRevoking: boolean;
+}) {
+  const badge = STATUS_BADGES[exemption.status];
+
+  return (
+    <li className="flex items-start justify-between gap-4 py-3">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">
+            {exemption.ruleId ? (exemption.ruleName ?? 'Deleted rule') : 'All rules'}
+          </span>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+          {exemption.userId && <Badge variant="outline">All linked accounts</Badge>}
+        </div>
+        <p className="text-muted-foreground text-sm">{exemption.reason}</p>
+        <p className="text-muted-foreground text-xs">
+          Added {formatDistanceToNow(new Date(exemption.createdAt), { addSuffix: true })}
+          {exemption.createdByUsername && ` by @${exemption.createdByUsername}`}
+          {' · '}
+          {exemption.expiresAt
+            ? `${exemption.status === 'expired' ? 'expired' : 'expires'} ${format(new Date(exemption.expiresAt), 'MMM d, yyyy HH:mm')}`
+            : 'no expiry'}
+          {exemption.revokedAt &&
+            ` · revoked ${formatDistanceToNow(new Date(exemption.revokedAt), { addSuffix: true })}`}
+          {exemption.revokedByUsername && ` by @${exemption.revokedByUsername}`}
+        </p>
+      </div>
+      {canRevoke && exemption.status === 'active' && (
+        <Button variant="outline" size="sm" onClick={onRevoke} disabled={isRevoking}>
+          Revoke
+        </Button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Rule exemptions of a user, including expired and revoked ones
+ */
+export function UserExemptionsCard({
+  serverUserId,
+  identityId,
+  username,
+  canManage,
+}: UserExemptionsCardProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const { data: exemptions, isLoading } = useUserExemptions(serverUserId);
+  const revokeExemption = useRevokeRuleExemption();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldOff className="h-5 w-5" />
+          Rule Exemptions
+        </CardTitle>
+        {canManage && (
+          <Button variant="outline" size="sm" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Exemption
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <Skeleton key={i} className="h-14" />
+            ))}
+          </div>
+        ) : !exemptions?.length ? (
+          <p className="text-muted-foreground text-sm">
+            No exemptions. Rules apply to this user normally.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {exemptions.map((exemption) => (
+              <ExemptionRow
+                key={exemption.id}
+                exemption={exemption}
+                canRevoke={canManage}
+                onRevoke={() => revokeExemption.mutate(exemption.id)}
+                isRevoking={revokeExemption.isPending}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {canManage && (
+        <CreateExemptionDialog
+          open={isCreateOpen}
+          onOpenChange={setIsCreateOpen}
+          serverUserId={serverUserId}
+          identityId={identityId}
+          username={username}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TrendingUp } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { TrustScoreChangeSource } from '@tracearr/shared';
+import { TrustScoreChart } from '@/components/charts';
+import { useUserTrustHistory } from '@/hooks/queries';
+
+interface UserTrustHistoryCardProps {
+  serverUserId: string;
+  trustScore: number;
+}
+
+const WINDOW_OPTIONS = [
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' },
+  { value: 365, label: 'Last year' },
+];
+
+const SOURCE_LABELS: Record<TrustScoreChangeSource, string> = {
+  violation: 'Violation',
+  violation_dismissed: 'Dismissed',
+  rule_action: 'Rule action',
+  manual: 'Manual',
+  recovery: 'Recovery',
+};
+
+// Number of recent changes listed below the chart
+const RECENT_CHANGES = 5;
+
+export function UserTrustHistoryCard({ serverUserId, trustScore }: UserTrustHistoryCardProps) {
+  const [days, setDays] = useState(90);
+  const { data: history, isLoading } = useUserTrustHistory(serverUserId, days);
+
+  const recent = (history ?? []).slice(-RECENT_CHANGES).reverse();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Trust Score History
+        </CardTitle>
+        <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOW_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TrustScoreChart
+          data={history}
+          currentScore={trustScore}
+          days={days}
+          isLoading={isLoading}
+        />
+        {!isLoading && recent.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No trust score changes in this period.</p>
+        ) : (
+          <ul className="divide-y">
+            {recent.map((entry) => {
+              const delta = entry.newScore - entry.previousScore;
+              return (
+                <li key={entry.id} className="flex items-center justify-between gap-4 py-2">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Badge variant="outline">{SOURCE_LABELS[entry.source]}</Badge>
+                    <span className="text-muted-foreground truncate text-sm">{entry.reason}</span>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-3 text-sm">
+                    <span className={delta < 0 ? 'text-destructive' : 'text-green-600'}>
+                      {delta > 0 ? `+${delta}` : delta}
+                    </span>
+                    <span className="text-muted-foreground text-xs">
+                      {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 // Auth
 export { AuthProvider, useAuth, useRequireAuth } from './useAuth';
+export { usePermissions } from './usePermissions';
 
 // Socket
 export { SocketProvider, useSocket } from './useSocket';
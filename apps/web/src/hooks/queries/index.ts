@@ -23,10 +23,12 @@ export {
   useBandwidthDaily,
   useBandwidthTopUsers,
   useBandwidthSummary,
+  useBandwidthForecast,
   type LocationStatsFilters,
   type StatsTimeRange,
   type EngagementStatsOptions,
   type ShowStatsOptions,
+  type BandwidthForecastScenario,
 } from './useStats';
 
 // Session hooks
@@ -53,7 +55,13 @@ export {
   useUserLocations,
   useUserDevices,
   useUserTerminations,
+  useUserExemptions,
+  useUserTrustHistory,
+  useCreateRuleExemption,
+  useRevokeRuleExemption,
   useBulkResetTrust,
+  useUserAccess,
+  useUpdateUserAccess,
 } from './useUsers';
 
 // Rule hooks
@@ -95,16 +103,47 @@ export {
   useSyncServer,
   useUpdateServer,
   useServerStatistics,
+  useServerResourceHistory,
   usePlexServerConnections,
   useReorderServers,
+  useServerWebhook,
+  useRegenerateServerWebhook,
+  useDisableServerWebhook,
 } from './useServers';
 
 // Settings hooks
-export { useSettings, useUpdateSettings, useApiKey, useRegenerateApiKey } from './useSettings';
+export {
+  useSettings,
+  useUpdateSettings,
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+} from './useSettings';
 
 // Channel Routing hooks
 export { useChannelRouting, useUpdateChannelRouting } from './useChannelRouting';
 
+// Notification template hooks
+export {
+  useNotificationTemplates,
+  useSaveNotificationTemplate,
+  useDeleteNotificationTemplate,
+} from './useNotificationTemplates';
+
+// Notification destination hooks
+export {
+  useNotificationDestinations,
+  useCreateNotificationDestination,
+  useUpdateNotificationDestination,
+  useDeleteNotificationDestination,
+} from './useNotificationDestinations';
+
+// Webhook delivery log hooks
+export { useWebhookDeliveries, useRedeliverWebhook } from './useWebhookDeliveries';
+
+// Audit log hooks
+export { useAuditLog } from './useAuditLog';
+
 // Mobile hooks
 export {
   useMobileConfig,
@@ -138,3 +177,11 @@ export {
   useLibraryStatus,
   type LibraryStatusResponse,
 } from './useLibrary';
+
+// Year in Review hooks
+export {
+  useYearReviewUsers,
+  useSharedYearReview,
+  useGenerateYearReviews,
+  useSetYearReviewOptOut,
+} from './useYearReview';
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AuditAction, AuditTargetType } from '@tracearr/shared';
+import { api } from '@/lib/api';
+
+export function useAuditLog(params: {
+  page: number;
+  pageSize: number;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actorUserId?: string;
+  startDate?: string;
+  endDate?: string;
+}) {
+  return useQuery({
+    queryKey: ['auditLog', params],
+    queryFn: () => api.auditLog.list(params),
+    placeholderData: (prev) => prev,
+  });
+}
@@ -22,18 +22,11 @@ export function useUpdateChannelRouting() {
       ...data
     }: {
       eventType: NotificationEventType;
-      discordEnabled?: boolean;
-      webhookEnabled?: boolean;
       webToastEnabled?: boolean;
       pushEnabled?: boolean;
+      destinationIds?: string[];
     }) => api.channelRouting.update(eventType, data),
-    onMutate: async ({
-      eventType,
-      discordEnabled,
-      webhookEnabled,
-      webToastEnabled,
-      pushEnabled,
-    }) => {
+    onMutate: async ({ eventType, webToastEnabled, pushEnabled, destinationIds }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: ['channelRouting'] });
 
@@ -49,10 +42,9 @@ export function useUpdateChannelRouting() {
           if (routing.eventType !== eventType) return routing;
           return {
             ...routing,
-            ...(discordEnabled !== undefined && { discordEnabled }),
-            ...(webhookEnabled !== undefined && { webhookEnabled }),
             ...(webToastEnabled !== undefined && { webToastEnabled }),
             ...(pushEnabled !== undefined && { pushEnabled }),
+            ...(destinationIds !== undefined && { destinationIds }),
           };
         });
       });
@@ -66,8 +58,12 @@ export function useUpdateChannelRouting() {
       }
       toast.error(t('toast.error.routingUpdateFailed'), { description: err.message });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { destinationIds }) => {
       void queryClient.invalidateQueries({ queryKey: ['channelRouting'] });
+      // Destination subscriptions live on the destinations themselves
+      if (destinationIds !== undefined) {
+        void queryClient.invalidateQueries({ queryKey: ['notificationDestinations'] });
+      }
     },
   });
 }
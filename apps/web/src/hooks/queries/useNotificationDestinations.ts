@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import type {
+  CreateNotificationDestinationInput,
+  NotificationDestination,
+  UpdateNotificationDestinationInput,
+} from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+export function useNotificationDestinations() {
+  return useQuery({
+    queryKey: ['notificationDestinations'],
+    queryFn: api.notificationDestinations.list,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useCreateNotificationDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateNotificationDestinationInput) =>
+      api.notificationDestinations.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['notificationDestinations'] });
+      void queryClient.invalidateQueries({ queryKey: ['channelRouting'] });
+    },
+  });
+}
+
+export function useUpdateNotificationDestination() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & UpdateNotificationDestinationInput) =>
+      api.notificationDestinations.update(id, data),
+    onMutate: async ({ id, events, enabled }) => {
+      // Only event and enabled toggles are applied optimistically; config edits wait for the server
+      if (events === undefined && enabled === undefined) {
+        return {};
+      }
+
+      await queryClient.cancelQueries({ queryKey: ['notificationDestinations'] });
+
+      const previousDestinations = queryClient.getQueryData<NotificationDestination[]>([
+        'notificationDestinations',
+      ]);
+
+      queryClient.setQueryData<NotificationDestination[]>(['notificationDestinations'], (old) => {
+        if (!old) return old;
+        return old.map((destination) => {
+          if (destination.id !== id) return destination;
+          return {
+            ...destination,
+            ...(events !== undefined && { events }),
+            ...(enabled !== undefined && { enabled }),
+          };
+        });
+      });
+
+      return { previousDestinations };
+    },
+    onError: (err, _variables, context) => {
+      if (context?.previousDestinations) {
+        queryClient.setQueryData(['notificationDestinations'], context.previousDestinations);
+      }
+      toast.error(t('toast.error.agentUpdateFailed'), { description: err.message });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['notificationDestinations'] });
+      void queryClient.invalidateQueries({ queryKey: ['channelRouting'] });
+    },
+  });
+}
+
+export function useDeleteNotificationDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.notificationDestinations.remove(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['notificationDestinations'] });
+      void queryClient.invalidateQueries({ queryKey: ['channelRouting'] });
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import type { NotificationTemplateAgent, NotificationTemplateEventType } from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+export function useNotificationTemplates() {
+  return useQuery({
+    queryKey: ['notificationTemplates'],
+    queryFn: api.notificationTemplates.getAll,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useSaveNotificationTemplate() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      eventType,
+      agent,
+      ...data
+    }: {
+      eventType: NotificationTemplateEventType;
+      agent: NotificationTemplateAgent;
+      title: string;
+      body: string;
+    }) => api.notificationTemplates.save(eventType, agent, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['notificationTemplates'] });
+      toast.success(t('toast.success.templateSaved.title'), {
+        description: t('toast.success.templateSaved.message'),
+      });
+    },
+    onError: (err) => {
+      toast.error(t('toast.error.templateSaveFailed'), { description: err.message });
+    },
+  });
+}
+
+export function useDeleteNotificationTemplate() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      eventType,
+      agent,
+    }: {
+      eventType: NotificationTemplateEventType;
+      agent: NotificationTemplateAgent;
+    }) => api.notificationTemplates.remove(eventType, agent),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['notificationTemplates'] });
+      toast.success(t('toast.success.templateReset.title'), {
+        description: t('toast.success.templateReset.message'),
+      });
+    },
+    onError: (err) => {
+      toast.error(t('toast.error.templateResetFailed'), { description: err.message });
+    },
+  });
+}
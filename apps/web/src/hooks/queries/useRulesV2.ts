@@ -1,6 +1,11 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import type { CreateRuleV2Input, UpdateRuleV2Input, Rule } from '@tracearr/shared';
+import type {
+  CreateRuleV2Input,
+  UpdateRuleV2Input,
+  RuleBacktestInput,
+  Rule,
+} from '@tracearr/shared';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
 
@@ -47,6 +52,18 @@ export function useUpdateRuleV2() {
   });
 }
 
+/**
+ * Dry-run a draft V2 rule against stored sessions (nothing is saved)
+ */
+export function useRuleBacktest() {
+  return useMutation({
+    mutationFn: (data: RuleBacktestInput) => api.rules.backtestV2(data),
+    onError: (error: Error) => {
+      toast.error('Dry run failed', { description: error.message });
+    },
+  });
+}
+
 /**
  * Preview migration of legacy rules to V2
  */
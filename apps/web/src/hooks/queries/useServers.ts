@@ -1,6 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import { SERVER_STATS_CONFIG, type Server, type ServerResourceDataPoint } from '@tracearr/shared';
+import {
+  SERVER_RESOURCE_HISTORY,
+  SERVER_STATS_CONFIG,
+  type Server,
+  type ServerResourceDataPoint,
+} from '@tracearr/shared';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
 import { useRef, useCallback, useEffect } from 'react';
@@ -160,6 +165,52 @@ export function useSyncServer() {
   });
 }
 
+export function useServerWebhook(serverId: string | undefined) {
+  return useQuery({
+    queryKey: ['servers', 'webhook', serverId],
+    queryFn: async () => {
+      if (!serverId) throw new Error('serverId required');
+      return api.servers.webhook(serverId);
+    },
+    enabled: !!serverId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useRegenerateServerWebhook() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.servers.regenerateWebhook(id),
+    onSuccess: (data, id) => {
+      queryClient.setQueryData(['servers', 'webhook', id], data);
+      toast.success(t('toast.success.webhookUrlGenerated.title'), {
+        description: t('toast.success.webhookUrlGenerated.message'),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error(t('toast.error.webhookUrlGenerateFailed'), { description: error.message });
+    },
+  });
+}
+
+export function useDisableServerWebhook() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.servers.disableWebhook(id),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData(['servers', 'webhook', id], { secret: null });
+      toast.success(t('toast.success.webhooksDisabled.title'));
+    },
+    onError: (error: Error) => {
+      toast.error(t('toast.error.webhooksDisableFailed'), { description: error.message });
+    },
+  });
+}
+
 export function useReorderServers() {
   const { t } = useTranslation('notifications');
   const queryClient = useQueryClient();
@@ -324,3 +375,24 @@ export function useServerStatistics(serverId: string | undefined, enabled: boole
     averages,
   };
 }
+
+/**
+ * Stored resource history for the last `hours` hours
+ * Refetches once per sample interval so the newest bucket stays current
+ */
+export function useServerResourceHistory(serverId: string | undefined, hours: number) {
+  return useQuery({
+    queryKey: ['servers', 'resources', serverId, hours],
+    queryFn: () => {
+      if (!serverId) throw new Error('Server ID required');
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - hours * 60 * 60 * 1000);
+      return api.servers.resources(serverId, startDate, endDate);
+    },
+    enabled: !!serverId,
+    refetchInterval: SERVER_RESOURCE_HISTORY.SAMPLE_INTERVAL_MS,
+    refetchIntervalInBackground: false,
+    placeholderData: (prev) => prev,
+    staleTime: SERVER_RESOURCE_HISTORY.SAMPLE_INTERVAL_MS - 1000,
+  });
+}
@@ -1,26 +1,26 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import type { Settings } from '@tracearr/shared';
+import type { CreateApiKeyInput, Settings } from '@tracearr/shared';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
 
-// API Key queries and mutations
-export function useApiKey() {
+// API key queries and mutations
+export function useApiKeys() {
   return useQuery({
-    queryKey: ['apiKey'],
-    queryFn: api.settings.getApiKey,
-    staleTime: 1000 * 60 * 5, // 5 minutes
+    queryKey: ['apiKeys'],
+    queryFn: api.apiKeys.list,
+    staleTime: 1000 * 60, // 1 minute
   });
 }
 
-export function useRegenerateApiKey() {
+export function useCreateApiKey() {
   const { t } = useTranslation('notifications');
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: api.settings.regenerateApiKey,
-    onSuccess: (data) => {
-      queryClient.setQueryData(['apiKey'], data);
+    mutationFn: (data: CreateApiKeyInput) => api.apiKeys.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
       toast.success(t('toast.success.apiKeyGenerated.title'), {
         description: t('toast.success.apiKeyGenerated.message'),
       });
@@ -31,6 +31,24 @@ export function useRegenerateApiKey() {
   });
 }
 
+export function useRevokeApiKey() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.apiKeys.revoke(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+      toast.success(t('toast.success.apiKeyRevoked.title'), {
+        description: t('toast.success.apiKeyRevoked.message'),
+      });
+    },
+    onError: (err) => {
+      toast.error(t('toast.error.apiKeyRevokeFailed'), { description: err.message });
+    },
+  });
+}
+
 export function useSettings() {
   return useQuery({
     queryKey: ['settings'],
@@ -245,3 +245,22 @@ export function useBandwidthSummary(timeRange?: StatsTimeRange, serverId?: strin
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 }
+
+export interface BandwidthForecastScenario {
+  addUsers: number;
+  capRemote1080p: boolean;
+}
+
+export function useBandwidthForecast(
+  scenario: BandwidthForecastScenario,
+  serverId?: string | null
+) {
+  // Include timezone in cache key since peaks are grouped by local day and hour
+  const timezone = getBrowserTimezone();
+  return useQuery({
+    queryKey: ['stats', 'bandwidth-forecast', scenario, serverId, timezone],
+    queryFn: () => api.stats.bandwidthForecast(scenario, serverId ?? undefined),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    placeholderData: (previous) => previous,
+  });
+}
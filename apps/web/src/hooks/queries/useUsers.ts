@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
+import type { CreateRuleExemptionInput, UpdateUserAccessInput } from '@tracearr/shared';
 import { api } from '@/lib/api';
 
 export function useUsers(params: { page?: number; pageSize?: number; serverId?: string } = {}) {
@@ -103,6 +104,58 @@ export function useUserTerminations(id: string, params: { page?: number; pageSiz
   });
 }
 
+export function useUserExemptions(id: string) {
+  return useQuery({
+    queryKey: ['users', 'exemptions', id],
+    queryFn: () => api.users.exemptions(id),
+    enabled: !!id,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useUserTrustHistory(id: string, days: number) {
+  return useQuery({
+    queryKey: ['users', 'trustHistory', id, days],
+    queryFn: () => api.users.trustHistory(id, days),
+    enabled: !!id,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useCreateRuleExemption() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateRuleExemptionInput) => api.ruleExemptions.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'exemptions'] });
+      toast.success(t('toast.success.exemptionCreated.title'), {
+        description: t('toast.success.exemptionCreated.message'),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error(t('toast.error.exemptionCreateFailed'), { description: error.message });
+    },
+  });
+}
+
+export function useRevokeRuleExemption() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.ruleExemptions.revoke(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'exemptions'] });
+      toast.success(t('toast.success.exemptionRevoked.title'));
+    },
+    onError: (error: Error) => {
+      toast.error(t('toast.error.exemptionRevokeFailed'), { description: error.message });
+    },
+  });
+}
+
 export function useBulkResetTrust() {
   const { t } = useTranslation('notifications');
   const queryClient = useQueryClient();
@@ -120,3 +173,30 @@ export function useBulkResetTrust() {
     },
   });
 }
+
+export function useUserAccess(enabled = true) {
+  return useQuery({
+    queryKey: ['users', 'access'],
+    queryFn: () => api.users.access(),
+    enabled,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useUpdateUserAccess() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateUserAccessInput }) =>
+      api.users.updateAccess(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'access'] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'list'] });
+      toast.success(t('toast.success.userAccessUpdated.title'));
+    },
+    onError: (error: Error) => {
+      toast.error(t('toast.error.userAccessUpdateFailed'), { description: error.message });
+    },
+  });
+}
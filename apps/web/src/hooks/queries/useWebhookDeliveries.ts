@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import type { WebhookDeliveryStatus } from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+export function useWebhookDeliveries(params: {
+  page: number;
+  pageSize: number;
+  status?: WebhookDeliveryStatus;
+}) {
+  return useQuery({
+    queryKey: ['webhookDeliveries', params],
+    queryFn: () => api.webhookDeliveries.list(params),
+    placeholderData: (prev) => prev,
+    refetchInterval: 1000 * 30, // Pick up retries as they happen
+  });
+}
+
+export function useRedeliverWebhook() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.webhookDeliveries.redeliver(id),
+    onSuccess: (delivery) => {
+      void queryClient.invalidateQueries({ queryKey: ['webhookDeliveries'] });
+      if (delivery.status === 'success') {
+        toast.success(t('toast.success.webhookRedelivered.title'), {
+          description: t('toast.success.webhookRedelivered.message', {
+            statusCode: delivery.statusCode,
+          }),
+        });
+      } else {
+        toast.error(t('toast.error.webhookRedeliverFailed'), {
+          description: delivery.error ?? undefined,
+        });
+      }
+    },
+    onError: (err) => {
+      toast.error(t('toast.error.webhookRedeliverFailed'), { description: err.message });
+    },
+  });
+}
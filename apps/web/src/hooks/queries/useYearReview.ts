@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import type { YearReviewUserSummary } from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+export function useYearReviewUsers(year: number, serverId?: string | null) {
+  return useQuery({
+    queryKey: ['yearReview', 'users', year, serverId],
+    queryFn: async () => {
+      const response = await api.yearReview.list(year, serverId);
+      return response.data;
+    },
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useSharedYearReview(token: string | undefined) {
+  return useQuery({
+    queryKey: ['yearReview', 'shared', token],
+    queryFn: () => api.yearReview.shared(token ?? ''),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useGenerateYearReviews() {
+  const { t } = useTranslation('notifications');
+
+  return useMutation({
+    mutationFn: (year: number) => api.yearReview.generate(year),
+    onSuccess: () => {
+      toast.success(t('toast.success.yearReviewsQueued.title'), {
+        description: t('toast.success.yearReviewsQueued.message'),
+      });
+    },
+    onError: (err) => {
+      toast.error(t('toast.error.yearReviewsGenerateFailed'), { description: err.message });
+    },
+  });
+}
+
+export function useSetYearReviewOptOut() {
+  const { t } = useTranslation('notifications');
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ serverUserId, optOut }: { serverUserId: string; optOut: boolean }) =>
+      api.yearReview.setOptOut(serverUserId, optOut),
+    onMutate: async ({ serverUserId, optOut }) => {
+      await queryClient.cancelQueries({ queryKey: ['yearReview', 'users'] });
+
+      const previous = queryClient.getQueriesData<YearReviewUserSummary[]>({
+        queryKey: ['yearReview', 'users'],
+      });
+
+      queryClient.setQueriesData<YearReviewUserSummary[]>(
+        { queryKey: ['yearReview', 'users'] },
+        (old) =>
+          old?.map((user) =>
+            user.serverUserId === serverUserId
+              ? {
+                  ...user,
+                  optOut,
+                  review: optOut ? null : user.review,
+                  shareToken: optOut ? null : user.shareToken,
+                }
+              : user
+          )
+      );
+
+      return { previous };
+    },
+    onError: (err, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      toast.error(t('toast.error.yearReviewOptOutFailed'), { description: err.message });
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ['yearReview', 'users'] });
+    },
+  });
+}
@@ -43,6 +43,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           username: user.username,
           role: user.role,
           serverIds: user.serverIds ?? (user.serverId ? [user.serverId] : []),
+          serverRoles: user.serverRoles,
           email: user.email ?? null,
           thumbUrl: user.thumbnail ?? user.thumbUrl ?? null,
           trustScore: user.aggregateTrustScore ?? user.trustScore ?? 100,
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { hasPermission, hasPermissionOnAnyServer, type Permission } from '@tracearr/shared';
+import { useAuth } from './useAuth';
+
+/**
+ * Permission checks for the signed-in user, mirroring the server's rules.
+ *
+ * With a serverId the check uses the user's role on that server; without one
+ * it passes if the permission holds on any server (used to show controls
+ * whose target server isn't known yet). canEverywhere() is for resources that
+ * span all servers, such as global rules.
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (permission: Permission, serverId?: string | null): boolean => {
+      if (!user) return false;
+      return serverId
+        ? hasPermission(user, permission, serverId)
+        : hasPermissionOnAnyServer(user, permission);
+    },
+    [user]
+  );
+
+  const canEverywhere = useCallback(
+    (permission: Permission): boolean => (user ? hasPermission(user, permission) : false),
+    [user]
+  );
+
+  return { can, canEverywhere };
+}
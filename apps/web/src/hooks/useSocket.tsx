@@ -23,6 +23,8 @@ import type {
   LibrarySyncProgress,
   TautulliImportProgress,
   JellystatImportProgress,
+  HistoryImportProgress,
+  BackupRestoreProgress,
   MaintenanceJobProgress,
 } from '@tracearr/shared';
 import { WS_EVENTS } from '@tracearr/shared';
@@ -297,6 +299,37 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     );
 
+    // Plex history / Playback Reporting / history file import progress - invalidate session data when complete
+    const handleHistoryImportProgress = (progress: HistoryImportProgress) => {
+      if (progress.status === 'complete') {
+        void queryClient.invalidateQueries({ queryKey: ['sessions'] });
+        void queryClient.invalidateQueries({ queryKey: ['stats'] });
+        void queryClient.invalidateQueries({ queryKey: ['users'] });
+      }
+    };
+    newSocket.on(
+      WS_EVENTS.IMPORT_PLEX_HISTORY_PROGRESS as 'import:plex-history:progress',
+      handleHistoryImportProgress
+    );
+    newSocket.on(
+      WS_EVENTS.IMPORT_PLAYBACK_REPORTING_PROGRESS as 'import:playback-reporting:progress',
+      handleHistoryImportProgress
+    );
+    newSocket.on(
+      WS_EVENTS.IMPORT_FILE_PROGRESS as 'import:file:progress',
+      handleHistoryImportProgress
+    );
+
+    // Backup restore progress - a restore can touch nearly everything
+    newSocket.on(
+      WS_EVENTS.BACKUP_RESTORE_PROGRESS as 'backup:restore:progress',
+      (progress: BackupRestoreProgress) => {
+        if (progress.status === 'complete') {
+          void queryClient.invalidateQueries();
+        }
+      }
+    );
+
     // Maintenance job progress - invalidate relevant caches when jobs complete
     newSocket.on(
       WS_EVENTS.MAINTENANCE_PROGRESS as 'maintenance:progress',
@@ -329,6 +362,9 @@ export function SocketProvider({ children }: { children: ReactNode }) {
               // Affects user data
               void queryClient.invalidateQueries({ queryKey: ['users'] });
               break;
+            case 'generate_year_reviews':
+              void queryClient.invalidateQueries({ queryKey: ['yearReview'] });
+              break;
             default:
               // Unknown job type - invalidate common caches as fallback
               void queryClient.invalidateQueries({ queryKey: ['sessions'] });
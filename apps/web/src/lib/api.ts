@@ -2,6 +2,9 @@ import type {
   Server,
   User,
   UserRole,
+  ServerGrantRole,
+  UserAccess,
+  UpdateUserAccessInput,
   ServerUserWithIdentity,
   ServerUserDetail,
   ServerUserFullDetail,
@@ -29,7 +32,22 @@ import type {
   LinkPlexAccountResponse,
   UnlinkPlexAccountResponse,
   NotificationChannelRouting,
+  NotificationDestination,
+  CreateNotificationDestinationInput,
+  UpdateNotificationDestinationInput,
   NotificationEventType,
+  NotificationTemplate,
+  NotificationTemplateAgent,
+  NotificationTemplateEventType,
+  NotificationTemplatePreview,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  AuditAction,
+  AuditLogEntry,
+  ApiKey,
+  CreatedApiKey,
+  CreateApiKeyInput,
+  AuditTargetType,
   HistorySessionResponse,
   HistoryFilterOptions,
   RulesFilterOptions,
@@ -40,7 +58,6 @@ import type {
   EngagementStats,
   ShowStatsResponse,
   MediaType,
-  WebhookFormat,
   // New analytics types
   DeviceCompatibilityResponse,
   DeviceCompatibilityMatrix,
@@ -69,6 +86,24 @@ import type {
   // Rules V2 types
   CreateRuleV2Input,
   UpdateRuleV2Input,
+  RuleBacktestInput,
+  RuleBacktestResult,
+  RuleExemption,
+  RuleExemptionWithDetails,
+  CreateRuleExemptionInput,
+  TrustScoreHistoryEntry,
+  HistoryImportResult,
+  FileImportMapping,
+  FileImportPreview,
+  FileImportRowValidation,
+  BackupConflictStrategy,
+  BackupRestoreProgress,
+  BackupRestoreResult,
+  ServerResourceHistory,
+  DigestPeriod,
+  CapacityForecastResponse,
+  YearReviewUserSummary,
+  SharedYearReview,
 } from '@tracearr/shared';
 
 // Re-export shared types needed by frontend components
@@ -294,6 +329,7 @@ class ApiClient {
       '/auth/refresh',
       '/auth/logout',
       '/auth/plex/check-pin',
+      '/auth/oidc/callback',
       '/auth/callback',
     ];
     const shouldRetry = !noRetryPaths.some((p) => path.startsWith(p));
@@ -357,6 +393,7 @@ class ApiClient {
         role: UserRole;
         aggregateTrustScore: number;
         serverIds: string[];
+        serverRoles?: Record<string, ServerGrantRole>;
         hasPassword?: boolean;
         hasPlexLinked?: boolean;
         // Fallback fields for backwards compatibility
@@ -413,6 +450,26 @@ class ApiClient {
         }
       ),
 
+    // OpenID Connect SSO - whether the login page offers it
+    oidcConfig: () => this.request<{ enabled: boolean }>('/auth/oidc/config'),
+
+    // OpenID Connect SSO - Step 1: Get the provider's sign-in URL
+    loginOidc: (redirectUri: string) =>
+      this.request<{ authUrl: string }>('/auth/oidc/login', {
+        method: 'POST',
+        body: JSON.stringify({ redirectUri }),
+      }),
+
+    // OpenID Connect SSO - Step 2: Exchange the code from the provider's redirect
+    completeOidcLogin: (data: { code: string; state: string }) =>
+      this.request<{ accessToken: string; refreshToken: string; user: User }>(
+        '/auth/oidc/callback',
+        {
+          method: 'POST',
+          body: JSON.stringify(data),
+        }
+      ),
+
     // Plex OAuth - Step 3: Connect with selected server (only for setup)
     connectPlexServer: (data: {
       tempToken: string;
@@ -494,6 +551,22 @@ class ApiClient {
         body: JSON.stringify(data),
       }),
 
+    // Subsonic server connection with admin credentials (requires auth)
+    connectSubsonic: (data: {
+      serverUrl: string;
+      serverName: string;
+      username: string;
+      password: string;
+    }) =>
+      this.request<{
+        accessToken: string;
+        refreshToken: string;
+        user: User;
+      }>('/auth/subsonic/connect', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+
     // Legacy callback (deprecated, kept for compatibility)
     checkPlexCallback: (data: { pinId: string; serverUrl: string; serverName: string }) =>
       this.request<{
@@ -543,6 +616,11 @@ class ApiClient {
         errors: string[];
         syncedAt: string;
       }>(`/servers/${id}/sync`, { method: 'POST', body: JSON.stringify({}) }),
+    webhook: (id: string) => this.request<{ secret: string | null }>(`/servers/${id}/webhook`),
+    regenerateWebhook: (id: string) =>
+      this.request<{ secret: string }>(`/servers/${id}/webhook/regenerate`, { method: 'POST' }),
+    disableWebhook: (id: string) =>
+      this.request<{ success: boolean }>(`/servers/${id}/webhook`, { method: 'DELETE' }),
     reorder: (servers: { id: string; displayOrder: number }[]) =>
       this.request<{ success: boolean }>('/servers/reorder', {
         method: 'PATCH',
@@ -561,6 +639,13 @@ class ApiClient {
         }[];
         fetchedAt: string;
       }>(`/servers/${id}/statistics`),
+    resources: (id: string, startDate: Date, endDate: Date) => {
+      const params = new URLSearchParams({
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      });
+      return this.request<ServerResourceHistory>(`/servers/${id}/resources?${params.toString()}`);
+    },
     health: async () => {
       const response = await this.request<{
         data: { serverId: string; serverName: string }[];
@@ -610,11 +695,32 @@ class ApiClient {
         `/users/${id}/terminations?${query}`
       );
     },
+    exemptions: async (id: string) => {
+      const response = await this.request<{ data: RuleExemptionWithDetails[] }>(
+        `/users/${id}/exemptions`
+      );
+      return response.data;
+    },
+    trustHistory: async (id: string, days: number) => {
+      const response = await this.request<{ data: TrustScoreHistoryEntry[] }>(
+        `/users/${id}/trust-history?days=${days}`
+      );
+      return response.data;
+    },
     bulkResetTrust: (ids: string[]) =>
       this.request<{ success: boolean; updated: number }>('/users/bulk/reset-trust', {
         method: 'POST',
         body: JSON.stringify({ ids }),
       }),
+    access: async () => {
+      const response = await this.request<{ data: UserAccess[] }>('/users/access');
+      return response.data;
+    },
+    updateAccess: (id: string, data: UpdateUserAccessInput) =>
+      this.request<{ success: boolean }>(`/users/${id}/access`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
   };
 
   // Sessions
@@ -762,6 +868,11 @@ class ApiClient {
       this.request<Rule>('/rules/v2', { method: 'POST', body: JSON.stringify(data) }),
     updateV2: (id: string, data: UpdateRuleV2Input) =>
       this.request<Rule>(`/rules/${id}/v2`, { method: 'PATCH', body: JSON.stringify(data) }),
+    backtestV2: (data: RuleBacktestInput) =>
+      this.request<RuleBacktestResult>('/rules/v2/backtest', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
 
     // Migration
     migratePreview: () => this.request<MigrationPreviewResponse>('/rules/migrate/preview'),
@@ -774,6 +885,17 @@ class ApiClient {
       this.request<Rule>(`/rules/${id}/migrate`, { method: 'POST', body: '{}' }),
   };
 
+  // Rule exemptions
+  ruleExemptions = {
+    create: (data: CreateRuleExemptionInput) =>
+      this.request<RuleExemption>('/rule-exemptions', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    revoke: (id: string) =>
+      this.request<RuleExemption>(`/rule-exemptions/${id}`, { method: 'DELETE' }),
+  };
+
   // Violations
   violations = {
     get: (id: string) => this.request<ViolationWithDetails>(`/violations/${id}`),
@@ -1032,6 +1154,32 @@ class ApiClient {
       const params = this.buildStatsParams(timeRange ?? { period: 'month' }, serverId);
       return this.request<BandwidthSummary>(`/stats/bandwidth/summary?${params.toString()}`);
     },
+    bandwidthForecast: async (
+      scenario: { addUsers: number; capRemote1080p: boolean },
+      serverId?: string
+    ) => {
+      const params = new URLSearchParams({
+        timezone: getBrowserTimezone(),
+        addUsers: String(scenario.addUsers),
+        capRemote1080p: String(scenario.capRemote1080p),
+      });
+      if (serverId) params.set('serverId', serverId);
+      return this.request<CapacityForecastResponse>(
+        `/stats/bandwidth/forecast?${params.toString()}`
+      );
+    },
+
+    /**
+     * Download URL for the usage digest of the last complete week or month
+     * The token goes in the query so the browser can download the page directly
+     */
+    digestUrl: (period: DigestPeriod, serverId?: string | null) => {
+      const params = new URLSearchParams({ period, format: 'html' });
+      if (serverId) params.set('serverId', serverId);
+      const token = tokenStorage.getAccessToken();
+      if (token) params.set('token', token);
+      return `${this.baseUrl}/stats/digest?${params.toString()}`;
+    },
   };
 
   // Library statistics - data fetching for library analytics pages
@@ -1223,22 +1371,6 @@ class ApiClient {
     get: () => this.request<Settings>('/settings'),
     update: (data: Partial<Settings>) =>
       this.request<Settings>('/settings', { method: 'PATCH', body: JSON.stringify(data) }),
-    testWebhook: (data: {
-      type: 'discord' | 'custom';
-      url?: string;
-      format?: WebhookFormat;
-      ntfyTopic?: string;
-      ntfyAuthToken?: string;
-      pushoverUserKey?: string;
-      pushoverApiToken?: string;
-    }) =>
-      this.request<{ success: boolean; error?: string }>('/settings/test-webhook', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    getApiKey: () => this.request<{ token: string | null }>('/settings/api-key'),
-    regenerateApiKey: () =>
-      this.request<{ token: string }>('/settings/api-key/regenerate', { method: 'POST' }),
     getIpWarning: () =>
       this.request<{ showWarning: boolean; stateHash: string }>('/settings/ip-warning'),
   };
@@ -1249,10 +1381,9 @@ class ApiClient {
     update: (
       eventType: NotificationEventType,
       data: {
-        discordEnabled?: boolean;
-        webhookEnabled?: boolean;
         webToastEnabled?: boolean;
         pushEnabled?: boolean;
+        destinationIds?: string[];
       }
     ) =>
       this.request<NotificationChannelRouting>(`/settings/notifications/routing/${eventType}`, {
@@ -1261,6 +1392,114 @@ class ApiClient {
       }),
   };
 
+  // Named notification destinations
+  notificationDestinations = {
+    list: () => this.request<NotificationDestination[]>('/settings/notifications/destinations'),
+    create: (data: CreateNotificationDestinationInput) =>
+      this.request<NotificationDestination>('/settings/notifications/destinations', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    update: (id: string, data: UpdateNotificationDestinationInput) =>
+      this.request<NotificationDestination>(`/settings/notifications/destinations/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }),
+    remove: (id: string) =>
+      this.request<{ success: boolean }>(`/settings/notifications/destinations/${id}`, {
+        method: 'DELETE',
+      }),
+    test: (id: string) =>
+      this.request<{ success: boolean; error?: string }>(
+        `/settings/notifications/destinations/${id}/test`,
+        { method: 'POST', body: '{}' }
+      ),
+    sendDigest: (id: string) =>
+      this.request<{ success: boolean; error?: string }>(
+        `/settings/notifications/destinations/${id}/digest`,
+        { method: 'POST', body: '{}' }
+      ),
+  };
+
+  // Notification Templates
+  notificationTemplates = {
+    getAll: () => this.request<NotificationTemplate[]>('/settings/notifications/templates'),
+    save: (
+      eventType: NotificationTemplateEventType,
+      agent: NotificationTemplateAgent,
+      data: { title: string; body: string }
+    ) =>
+      this.request<NotificationTemplate>(
+        `/settings/notifications/templates/${eventType}/${agent}`,
+        { method: 'PUT', body: JSON.stringify(data) }
+      ),
+    remove: (eventType: NotificationTemplateEventType, agent: NotificationTemplateAgent) =>
+      this.request<{ success: boolean }>(
+        `/settings/notifications/templates/${eventType}/${agent}`,
+        { method: 'DELETE' }
+      ),
+    preview: (data: { eventType: NotificationTemplateEventType; title: string; body: string }) =>
+      this.request<NotificationTemplatePreview>('/settings/notifications/templates/preview', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+  };
+
+  // JSON webhook delivery log
+  webhookDeliveries = {
+    list: (params?: { page?: number; pageSize?: number; status?: WebhookDeliveryStatus }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.page) searchParams.set('page', String(params.page));
+      if (params?.pageSize) searchParams.set('pageSize', String(params.pageSize));
+      if (params?.status) searchParams.set('status', params.status);
+      return this.request<PaginatedResponse<WebhookDelivery>>(
+        `/settings/notifications/webhook-deliveries?${searchParams.toString()}`
+      );
+    },
+    redeliver: (id: string) =>
+      this.request<WebhookDelivery>(`/settings/notifications/webhook-deliveries/${id}/redeliver`, {
+        method: 'POST',
+        body: '{}',
+      }),
+  };
+
+  // Public API keys
+  apiKeys = {
+    list: () => this.request<{ data: ApiKey[] }>('/settings/api-keys'),
+    create: (data: CreateApiKeyInput) =>
+      this.request<CreatedApiKey>('/settings/api-keys', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    revoke: (id: string) =>
+      this.request<{ success: boolean }>(`/settings/api-keys/${id}`, { method: 'DELETE' }),
+  };
+
+  // Audit log of administrative actions
+  auditLog = {
+    list: (params?: {
+      page?: number;
+      pageSize?: number;
+      action?: AuditAction;
+      targetType?: AuditTargetType;
+      actorUserId?: string;
+      startDate?: string;
+      endDate?: string;
+    }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.page) searchParams.set('page', String(params.page));
+      if (params?.pageSize) searchParams.set('pageSize', String(params.pageSize));
+      if (params?.action) searchParams.set('action', params.action);
+      if (params?.targetType) searchParams.set('targetType', params.targetType);
+      if (params?.actorUserId) searchParams.set('actorUserId', params.actorUserId);
+      if (params?.startDate) searchParams.set('startDate', params.startDate);
+      if (params?.endDate) searchParams.set('endDate', params.endDate);
+      return this.request<PaginatedResponse<AuditLogEntry>>(
+        `/audit-log?${searchParams.toString()}`
+      );
+    },
+  };
+
   // Import
   import = {
     tautulli: {
@@ -1366,6 +1605,199 @@ class ApiClient {
           method: 'DELETE',
         }),
     },
+    plexHistory: {
+      /**
+       * Start import of the Plex server's own watch history
+       * @param serverId - Target Plex server
+       */
+      start: (serverId: string) =>
+        this.request<{ status: string; jobId?: string; message: string }>('/import/plex-history', {
+          method: 'POST',
+          body: JSON.stringify({ serverId }),
+        }),
+      getActive: (serverId: string) =>
+        this.request<{
+          active: boolean;
+          jobId?: string;
+          state?: string;
+          progress?: number | object;
+          createdAt?: number;
+        }>(`/import/plex-history/active/${serverId}`),
+      getStatus: (jobId: string) =>
+        this.request<{
+          jobId: string;
+          state: string;
+          progress: number | object | null;
+          result?: HistoryImportResult;
+          failedReason?: string;
+          createdAt?: number;
+          finishedAt?: number;
+        }>(`/import/plex-history/${jobId}`),
+      cancel: (jobId: string) =>
+        this.request<{ status: string; jobId: string }>(`/import/plex-history/${jobId}`, {
+          method: 'DELETE',
+        }),
+    },
+    playbackReporting: {
+      /**
+       * Start Playback Reporting import from a backup or PlaybackActivity export
+       * @param serverId - Target Jellyfin/Emby server
+       * @param file - Playback Reporting backup (TSV) or CSV/TSV export
+       */
+      start: async (serverId: string, file: File) => {
+        const formData = new FormData();
+        // Fields must come BEFORE file - @fastify/multipart stops parsing after file
+        formData.append('serverId', serverId);
+        formData.append('file', file);
+
+        return this.request<{ status: string; jobId?: string; message: string }>(
+          '/import/playback-reporting',
+          {
+            method: 'POST',
+            body: formData,
+            headers: {}, // Let browser set Content-Type with boundary for multipart
+          }
+        );
+      },
+      getActive: (serverId: string) =>
+        this.request<{
+          active: boolean;
+          jobId?: string;
+          state?: string;
+          progress?: number | object;
+          createdAt?: number;
+        }>(`/import/playback-reporting/active/${serverId}`),
+      getStatus: (jobId: string) =>
+        this.request<{
+          jobId: string;
+          state: string;
+          progress: number | object | null;
+          result?: HistoryImportResult;
+          failedReason?: string;
+          createdAt?: number;
+          finishedAt?: number;
+        }>(`/import/playback-reporting/${jobId}`),
+      cancel: (jobId: string) =>
+        this.request<{ status: string; jobId: string }>(`/import/playback-reporting/${jobId}`, {
+          method: 'DELETE',
+        }),
+    },
+    file: {
+      /**
+       * Read the columns and first rows of a CSV/JSON history file
+       * @param file - CSV/TSV or JSON history file
+       */
+      preview: async (file: File) => {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        return this.request<FileImportPreview>('/import/file/preview', {
+          method: 'POST',
+          body: formData,
+          headers: {}, // Let browser set Content-Type with boundary for multipart
+        });
+      },
+      /**
+       * Check preview rows against a column mapping
+       * @param serverId - Optional target server, to flag users that do not exist there
+       */
+      validate: (mapping: FileImportMapping, rows: Record<string, string>[], serverId?: string) =>
+        this.request<{ rows: FileImportRowValidation[] }>('/import/file/validate', {
+          method: 'POST',
+          body: JSON.stringify({ serverId, mapping, rows }),
+        }),
+      /**
+       * Start importing a CSV/JSON history file
+       * @param serverId - Target server
+       * @param file - CSV/TSV or JSON history file
+       * @param mapping - Session field -> column name
+       */
+      start: async (serverId: string, file: File, mapping: FileImportMapping) => {
+        const formData = new FormData();
+        // Fields must come BEFORE file - @fastify/multipart stops parsing after file
+        formData.append('serverId', serverId);
+        formData.append('mapping', JSON.stringify(mapping));
+        formData.append('file', file);
+
+        return this.request<{ status: string; jobId?: string; message: string }>('/import/file', {
+          method: 'POST',
+          body: formData,
+          headers: {}, // Let browser set Content-Type with boundary for multipart
+        });
+      },
+      getActive: (serverId: string) =>
+        this.request<{
+          active: boolean;
+          jobId?: string;
+          state?: string;
+          progress?: number | object;
+          createdAt?: number;
+        }>(`/import/file/active/${serverId}`),
+      getStatus: (jobId: string) =>
+        this.request<{
+          jobId: string;
+          state: string;
+          progress: number | object | null;
+          result?: HistoryImportResult;
+          failedReason?: string;
+          createdAt?: number;
+          finishedAt?: number;
+        }>(`/import/file/${jobId}`),
+      cancel: (jobId: string) =>
+        this.request<{ status: string; jobId: string }>(`/import/file/${jobId}`, {
+          method: 'DELETE',
+        }),
+    },
+  };
+
+  // Backup & restore
+  backup = {
+    /**
+     * Download URL for a full backup archive
+     * The token goes in the query so the browser can stream the download to disk
+     */
+    exportUrl: () => {
+      const token = tokenStorage.getAccessToken();
+      const query = token ? `?token=${encodeURIComponent(token)}` : '';
+      return `${this.baseUrl}/backup/export${query}`;
+    },
+    restore: {
+      /**
+       * Upload a backup archive and queue a restore
+       * @param file - Archive downloaded from exportUrl
+       * @param conflictStrategy - Whether rows that already exist are skipped or overwritten
+       */
+      start: async (file: File, conflictStrategy: BackupConflictStrategy) => {
+        const formData = new FormData();
+        // Fields must come BEFORE file - @fastify/multipart stops parsing after file
+        formData.append('conflictStrategy', conflictStrategy);
+        formData.append('file', file);
+
+        return this.request<{ status: string; jobId: string; message: string }>('/backup/restore', {
+          method: 'POST',
+          body: formData,
+          headers: {}, // Let browser set Content-Type with boundary for multipart
+        });
+      },
+      getActive: () =>
+        this.request<{
+          active: boolean;
+          jobId?: string;
+          state?: string;
+          progress?: BackupRestoreProgress | null;
+          createdAt?: number;
+        }>('/backup/restore/active'),
+      getStatus: (jobId: string) =>
+        this.request<{
+          jobId: string;
+          state: string;
+          progress: number | object | null;
+          result?: BackupRestoreResult;
+          failedReason?: string;
+          createdAt?: number;
+          finishedAt?: number;
+        }>(`/backup/restore/${jobId}`),
+    },
   };
 
   // Maintenance jobs
@@ -1490,6 +1922,30 @@ class ApiClient {
       }),
   };
 
+  // Year in Review
+  yearReview = {
+    list: (year: number, serverId?: string | null) => {
+      const params = new URLSearchParams({ year: String(year) });
+      if (serverId) params.set('serverId', serverId);
+      return this.request<{ data: YearReviewUserSummary[] }>(`/year-review?${params.toString()}`);
+    },
+    generate: (year: number) =>
+      this.request<{ status: string; jobId: string; message: string }>('/year-review/generate', {
+        method: 'POST',
+        body: JSON.stringify({ year, timezone: getClientTimezone() }),
+      }),
+    setOptOut: (serverUserId: string, optOut: boolean) =>
+      this.request<{ success: boolean; optOut: boolean }>(
+        `/year-review/users/${serverUserId}/opt-out`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ optOut }),
+        }
+      ),
+    shared: (token: string) =>
+      this.request<SharedYearReview>(`/year-review/shared/${encodeURIComponent(token)}`),
+  };
+
   // Mobile access
   mobile = {
     get: () => this.request<MobileConfig>('/mobile'),
@@ -11,6 +11,7 @@ import type {
   DeviceType,
   Platform,
   VideoResolution,
+  DayOfWeek,
 } from '@tracearr/shared';
 
 // Field categories for organizing in the UI
@@ -20,6 +21,8 @@ export type FieldCategory =
   | 'user_attributes'
   | 'device_client'
   | 'network_location'
+  | 'time'
+  | 'media_metadata'
   | 'scope';
 
 // Value input types for rendering the appropriate component
@@ -87,6 +90,16 @@ export const MEDIA_TYPE_OPTIONS: { value: string; label: string }[] = [
   { value: 'trailer', label: 'Trailer' },
 ];
 
+export const DAY_OF_WEEK_OPTIONS: { value: DayOfWeek; label: string }[] = [
+  { value: 'mon', label: 'Monday' },
+  { value: 'tue', label: 'Tuesday' },
+  { value: 'wed', label: 'Wednesday' },
+  { value: 'thu', label: 'Thursday' },
+  { value: 'fri', label: 'Friday' },
+  { value: 'sat', label: 'Saturday' },
+  { value: 'sun', label: 'Sunday' },
+];
+
 // Field definition interface
 export interface FieldDefinition {
   field: ConditionField;
@@ -103,6 +116,7 @@ export interface FieldDefinition {
   placeholder?: string;
   hasWindowHours?: boolean; // For velocity-type fields
   hasExcludeSameDevice?: boolean; // For cross-session comparison fields
+  hasTimezone?: boolean; // For fields evaluated in a local timezone
   hidden?: boolean; // Hide from UI (e.g., not yet implemented in backend)
 }
 
@@ -113,6 +127,8 @@ export const CATEGORY_LABELS: Record<FieldCategory, string> = {
   user_attributes: 'User Attributes',
   device_client: 'Device & Client',
   network_location: 'Network & Location',
+  time: 'Time',
+  media_metadata: 'Media',
   scope: 'Scope',
 };
 
@@ -334,6 +350,91 @@ export const FIELD_DEFINITIONS: Record<ConditionField, FieldDefinition> = {
     placeholder: 'e.g., 192.168.1.0/24',
   },
 
+  // Time
+  local_hour: {
+    field: 'local_hour',
+    label: 'Hour of Day',
+    description: 'Current hour (0-23) in the chosen timezone',
+    category: 'time',
+    operators: COMPARISON_OPERATORS,
+    valueType: 'number',
+    min: 0,
+    max: 23,
+    step: 1,
+    hasTimezone: true,
+  },
+  day_of_week: {
+    field: 'day_of_week',
+    label: 'Day of Week',
+    description: 'Current day in the chosen timezone',
+    category: 'time',
+    operators: [...EQUALITY_OPERATORS, ...ARRAY_OPERATORS],
+    valueType: 'multi-select',
+    options: DAY_OF_WEEK_OPTIONS,
+    placeholder: 'Select days...',
+    hasTimezone: true,
+  },
+
+  // Media Metadata
+  media_title: {
+    field: 'media_title',
+    label: 'Title',
+    description: 'Movie, episode or track title',
+    category: 'media_metadata',
+    operators: [...EQUALITY_OPERATORS, ...STRING_OPERATORS],
+    valueType: 'text',
+    placeholder: 'e.g., The Matrix',
+  },
+  grandparent_title: {
+    field: 'grandparent_title',
+    label: 'Show / Artist',
+    description: 'TV show name or music artist',
+    category: 'media_metadata',
+    operators: [...EQUALITY_OPERATORS, ...STRING_OPERATORS],
+    valueType: 'text',
+    placeholder: 'e.g., Breaking Bad',
+  },
+  content_rating: {
+    field: 'content_rating',
+    label: 'Content Rating',
+    description: 'Age rating reported by the media server',
+    category: 'media_metadata',
+    operators: [...EQUALITY_OPERATORS, ...STRING_OPERATORS],
+    valueType: 'text',
+    placeholder: 'e.g., R, TV-MA',
+  },
+  genre: {
+    field: 'genre',
+    label: 'Genre',
+    description: 'Matches if any of the media genres match',
+    category: 'media_metadata',
+    operators: [...EQUALITY_OPERATORS, ...STRING_OPERATORS],
+    valueType: 'text',
+    placeholder: 'e.g., Horror',
+  },
+  year: {
+    field: 'year',
+    label: 'Release Year',
+    description: 'Year the media was released',
+    category: 'media_metadata',
+    operators: COMPARISON_OPERATORS,
+    valueType: 'number',
+    min: 1900,
+    max: 2100,
+    step: 1,
+  },
+  media_duration_minutes: {
+    field: 'media_duration_minutes',
+    label: 'Media Length',
+    description: 'Total runtime of the media',
+    category: 'media_metadata',
+    operators: COMPARISON_OPERATORS,
+    valueType: 'number',
+    unit: 'min',
+    min: 0,
+    step: 5,
+  },
+
   // Scope
   server_id: {
     field: 'server_id',
@@ -384,6 +485,8 @@ export function getFieldsByCategory(): Record<FieldCategory, FieldDefinition[]>
     user_attributes: [],
     device_client: [],
     network_location: [],
+    time: [],
+    media_metadata: [],
     scope: [],
   };
 
@@ -13,6 +13,7 @@ import type {
   ConditionField,
   Operator,
   RulesFilterOptions,
+  RuleSchedule,
 } from '@tracearr/shared';
 import { type UnitSystem, formatConditionFieldValue } from '@tracearr/shared';
 import {
@@ -26,8 +27,10 @@ import {
   Globe,
   Wifi,
   Settings2,
+  CalendarDays,
+  Film,
 } from 'lucide-react';
-import { FIELD_DEFINITIONS } from './conditionFields';
+import { DAY_OF_WEEK_OPTIONS, FIELD_DEFINITIONS } from './conditionFields';
 import { ACTION_DEFINITIONS } from './actionDefinitions';
 
 // Condition field → icon mapping
@@ -55,6 +58,18 @@ const CONDITION_FIELD_ICONS: Partial<Record<ConditionField, ReactNode>> = {
   country: <Globe className="h-5 w-5" />,
   is_local_network: <Wifi className="h-5 w-5" />,
   ip_in_range: <Globe className="h-5 w-5" />,
+
+  // Time
+  local_hour: <Clock className="h-5 w-5" />,
+  day_of_week: <CalendarDays className="h-5 w-5" />,
+
+  // Media metadata
+  media_title: <Film className="h-5 w-5" />,
+  grandparent_title: <Film className="h-5 w-5" />,
+  content_rating: <Film className="h-5 w-5" />,
+  genre: <Film className="h-5 w-5" />,
+  year: <Film className="h-5 w-5" />,
+  media_duration_minutes: <Film className="h-5 w-5" />,
 };
 
 // Fallback icon for unknown fields
@@ -94,6 +109,14 @@ const COMPACT_FIELD_LABELS: Partial<Record<ConditionField, string>> = {
   device_type: 'Device',
   client_name: 'Client',
   platform: 'Platform',
+  local_hour: 'Hour',
+  day_of_week: 'Day',
+  media_title: 'Title',
+  grandparent_title: 'Show/Artist',
+  content_rating: 'Rating',
+  genre: 'Genre',
+  year: 'Year',
+  media_duration_minutes: 'Length',
 };
 
 /**
@@ -322,3 +345,19 @@ export function getRuleSummary(
 
   return `${conditionsPart} → ${actionsPart}`;
 }
+
+/**
+ * Format a rule schedule for display.
+ *
+ * Format: "Mon, Tue 18:00–23:00; Sat 10:00–12:00 (Europe/London)"
+ */
+export function formatRuleSchedule(schedule: RuleSchedule): string {
+  const windows = schedule.windows.map((window) => {
+    const days = DAY_OF_WEEK_OPTIONS.filter((d) => window.days.includes(d.value))
+      .map((d) => d.label.slice(0, 3))
+      .join(', ');
+    return `${days} ${window.startTime}–${window.endTime}`;
+  });
+
+  return `${windows.join('; ')} (${schedule.timezone})`;
+}
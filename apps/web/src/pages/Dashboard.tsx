@@ -1,17 +1,38 @@
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Play, Clock, AlertTriangle, Tv, MapPin, Calendar, Users, Activity } from 'lucide-react';
+import {
+  Play,
+  Clock,
+  AlertTriangle,
+  Tv,
+  MapPin,
+  Calendar,
+  Users,
+  Activity,
+  History,
+} from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { StatCard } from '@/components/ui/stat-card';
 import { NowPlayingCard } from '@/components/sessions';
 import { StreamCard } from '@/components/map';
 import { SessionDetailSheet } from '@/components/history/SessionDetailSheet';
 import { ServerResourceCharts } from '@/components/charts/ServerResourceCharts';
+import { ServerResourceHistoryChart } from '@/components/charts/ServerResourceHistoryChart';
 import { useDashboardStats, useActiveSessions } from '@/hooks/queries';
-import { useServerStatistics } from '@/hooks/queries/useServers';
+import { useServerStatistics, useServerResourceHistory } from '@/hooks/queries/useServers';
+import { cn } from '@/lib/utils';
 import { useServer } from '@/hooks/useServer';
 import type { ActiveSession } from '@tracearr/shared';
 
+// Resource history ranges in hours (samples are kept for 30 days)
+const RESOURCE_HISTORY_RANGES = [
+  { hours: 1, label: '1h' },
+  { hours: 6, label: '6h' },
+  { hours: 24, label: '24h' },
+  { hours: 24 * 7, label: '7d' },
+  { hours: 24 * 30, label: '30d' },
+];
+
 export function Dashboard() {
   const { t } = useTranslation(['pages', 'common']);
   const { selectedServerId, selectedServer } = useServer();
@@ -32,6 +53,12 @@ export function Dashboard() {
     averages,
   } = useServerStatistics(selectedServerId ?? undefined, isPlexServer);
 
+  const [historyHours, setHistoryHours] = useState(24);
+  const { data: resourceHistory, isLoading: historyLoading } = useServerResourceHistory(
+    selectedServerId ?? undefined,
+    historyHours
+  );
+
   const activeCount = sessions?.length ?? 0;
   const hasActiveStreams = activeCount > 0;
 
@@ -148,6 +175,49 @@ export function Dashboard() {
         </section>
       )}
 
+      {/* Stored resource history (all servers; CPU/RAM where the server reports it) */}
+      {selectedServerId && (
+        <section>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <History className="text-primary h-5 w-5" />
+              <h2 className="text-lg font-semibold">{t('dashboard.resourceHistory')}</h2>
+            </div>
+            <div className="bg-muted inline-flex items-center gap-1 rounded-lg p-1">
+              {RESOURCE_HISTORY_RANGES.map((range) => (
+                <button
+                  key={range.hours}
+                  onClick={() => setHistoryHours(range.hours)}
+                  className={cn(
+                    'cursor-pointer rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                    historyHours === range.hours
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <Card>
+            <CardContent className="pt-4">
+              <ServerResourceHistoryChart
+                data={resourceHistory?.data}
+                bucketSeconds={resourceHistory?.bucketSeconds ?? 60}
+                resourceUsageSupported={resourceHistory?.resourceUsageSupported ?? isPlexServer}
+                isLoading={historyLoading}
+              />
+              {resourceHistory && !resourceHistory.resourceUsageSupported && (
+                <p className="text-muted-foreground mt-2 text-xs">
+                  {t('dashboard.resourceUsageUnavailable')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      )}
+
       {/* Session Detail Sheet */}
       <SessionDetailSheet session={selectedSession} open={sheetOpen} onOpenChange={setSheetOpen} />
     </div>
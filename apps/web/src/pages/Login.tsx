@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router';
 import { useTranslation } from 'react-i18next';
-import { Loader2, ExternalLink, User, KeyRound } from 'lucide-react';
+import { Loader2, ExternalLink, User, KeyRound, LogIn } from 'lucide-react';
 import { MediaServerIcon } from '@/components/icons/MediaServerIcon';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -31,6 +31,7 @@ export function Login() {
   const [requiresClaimCode, setRequiresClaimCode] = useState(false);
   const [hasPasswordAuth, setHasPasswordAuth] = useState(false);
   const [hasJellyfinServers, setHasJellyfinServers] = useState(false);
+  const [oidcEnabled, setOidcEnabled] = useState(false);
 
   // Auth form state - which form to show (jellyfin or local)
   // Default to Jellyfin if Jellyfin servers exist, otherwise default to local
@@ -54,6 +55,9 @@ export function Login() {
   const [claimCode, setClaimCode] = useState('');
   const [claimCodeLoading, setClaimCodeLoading] = useState(false);
 
+  // SSO state
+  const [oidcLoading, setOidcLoading] = useState(false);
+
   // Jellyfin auth state
   const [jellyfinLoading, setJellyfinLoading] = useState(false);
   const [jellyfinUsername, setJellyfinUsername] = useState('');
@@ -70,7 +74,11 @@ export function Login() {
           if (attempt > 0) {
             await new Promise((resolve) => setTimeout(resolve, delays[attempt]));
           }
-          const status = await api.setup.status();
+          const [status, oidcConfig] = await Promise.all([
+            api.setup.status(),
+            api.auth.oidcConfig().catch(() => ({ enabled: false })),
+          ]);
+          setOidcEnabled(oidcConfig.enabled);
           setNeedsSetup(status.needsSetup);
           setRequiresClaimCode(status.requiresClaimCode);
           setHasPasswordAuth(status.hasPasswordAuth);
@@ -208,6 +216,22 @@ export function Login() {
     }
   };
 
+  // Start SSO sign-in - the provider redirects back to /auth/oidc-callback
+  const handleOidcLogin = async () => {
+    setOidcLoading(true);
+
+    try {
+      const redirectUri = `${window.location.origin}${BASE_URL}auth/oidc-callback`;
+      const result = await api.auth.loginOidc(redirectUri);
+      window.location.href = result.authUrl;
+    } catch (error) {
+      setOidcLoading(false);
+      toast.error(t('common:errors.generic'), {
+        description: error instanceof Error ? error.message : t('pages:login.ssoStartFailed'),
+      });
+    }
+  };
+
   // Connect to selected Plex server
   const handlePlexServerSelect = async (
     serverUri: string,
@@ -499,6 +523,23 @@ export function Login() {
                 {needsSetup ? t('settings:plex.signUpWithPlex') : t('settings:plex.signInWithPlex')}
               </Button>
 
+              {/* SSO Button - Only once an owner exists and SSO is configured */}
+              {oidcEnabled && !needsSetup && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleOidcLogin}
+                  disabled={oidcLoading}
+                >
+                  {oidcLoading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogIn className="mr-2 h-4 w-4" />
+                  )}
+                  {t('pages:login.signInWithSso')}
+                </Button>
+              )}
+
               {/* Divider between Plex and other auth methods */}
               {(hasJellyfinServers || hasPasswordAuth || needsSetup) && (
                 <div className="relative">
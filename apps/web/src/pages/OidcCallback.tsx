@@ -0,0 +1,62 @@
+/**
+ * OpenID Connect Callback Page
+ *
+ * The SSO provider redirects here with a code and state. They are exchanged
+ * for Tracearr tokens, then the user continues to the dashboard.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { LogoIcon } from '@/components/brand/Logo';
+import { useAuth } from '@/hooks/useAuth';
+import { api, tokenStorage } from '@/lib/api';
+
+export function OidcCallback() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { t } = useTranslation(['pages', 'notifications']);
+  const { refetch } = useAuth();
+  // The state is one-time use, so the exchange must not run twice
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    async function completeLogin() {
+      const code = searchParams.get('code');
+      const state = searchParams.get('state');
+
+      try {
+        if (!code || !state) {
+          throw new Error(searchParams.get('error_description') ?? t('pages:login.ssoNoCode'));
+        }
+
+        const result = await api.auth.completeOidcLogin({ code, state });
+        tokenStorage.setTokens(result.accessToken, result.refreshToken);
+        await refetch();
+        toast.success(t('notifications:toast.success.loggedIn.title'), {
+          description: t('notifications:toast.success.loggedIn.message'),
+        });
+        void navigate('/', { replace: true });
+      } catch (error) {
+        toast.error(t('pages:login.ssoFailed'), {
+          description: error instanceof Error ? error.message : undefined,
+        });
+        void navigate('/login', { replace: true });
+      }
+    }
+    void completeLogin();
+  }, [navigate, refetch, searchParams, t]);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-4">
+      <LogoIcon className="h-16 w-16 animate-pulse" />
+      <Loader2 className="text-muted-foreground h-6 w-6 animate-spin" />
+      <p className="text-muted-foreground text-sm">{t('pages:login.ssoCompleting')}</p>
+    </div>
+  );
+}
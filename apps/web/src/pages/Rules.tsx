@@ -7,6 +7,7 @@ import { NumericInput } from '@/components/ui/numeric-input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { BulkActionsToolbar, type BulkAction } from '@/components/ui/bulk-actions-toolbar';
 import {
@@ -46,7 +47,10 @@ import {
   ChevronDown,
   Sparkles,
   Settings2,
+  BellOff,
+  CalendarClock,
 } from 'lucide-react';
+import { format } from 'date-fns';
 import { CountryMultiSelect } from '@/components/ui/country-multi-select';
 import { getCountryName } from '@/lib/utils';
 import type {
@@ -58,9 +62,16 @@ import type {
   UpdateRuleV2Input,
   RulesFilterOptions,
 } from '@tracearr/shared';
-import { RuleBuilderDialog, getRuleIcon, getRuleSummary, isV2Rule } from '@/components/rules';
+import {
+  RuleBuilderDialog,
+  getRuleIcon,
+  getRuleSummary,
+  formatRuleSchedule,
+  isV2Rule,
+} from '@/components/rules';
 import { CLASSIC_RULE_TEMPLATES, type ClassicRuleTemplate } from '@/lib/rules';
 import {
+  TIME_MS,
   getSpeedUnit,
   getDistanceUnit,
   fromMetricDistance,
@@ -79,6 +90,7 @@ import {
 import { useCreateRuleV2, useUpdateRuleV2 } from '@/hooks/queries/useRulesV2';
 import { useRulesFilterOptions } from '@/hooks/queries/useHistory';
 import { useRowSelection } from '@/hooks/useRowSelection';
+import { usePermissions } from '@/hooks/usePermissions';
 
 const RULE_TYPE_ICONS: Record<RuleType, React.ReactNode> = {
   impossible_travel: <MapPin className="h-4 w-4" />,
@@ -553,24 +565,37 @@ function RuleDialog({
   );
 }
 
+// Quick snooze durations offered on V2 rule cards
+const SNOOZE_OPTIONS = [
+  { key: 'snooze1Day', duration: TIME_MS.DAY },
+  { key: 'snooze1Week', duration: TIME_MS.WEEK },
+  { key: 'snooze2Weeks', duration: 2 * TIME_MS.WEEK },
+] as const;
+
 function RuleCard({
   rule,
   onEdit,
   onDelete,
   onToggle,
+  onSnooze,
   unitSystem,
   isSelected,
   onSelect,
   filterOptions,
+  canEdit = true,
 }: {
   rule: Rule;
   onEdit: () => void;
   onDelete: () => void;
   onToggle: () => void;
+  /** Pause the rule until the given time (null resumes it); V2 rules only */
+  onSnooze?: (snoozedUntil: Date | null) => void;
   unitSystem: UnitSystem;
   isSelected?: boolean;
   onSelect?: () => void;
   filterOptions?: RulesFilterOptions;
+  /** False hides the toggle, snooze, edit and delete controls */
+  canEdit?: boolean;
 }) {
   const { t } = useTranslation('pages');
   const ruleTypes = useRuleTypes();
@@ -578,6 +603,10 @@ function RuleCard({
   const speedUnit = getSpeedUnit(unitSystem);
   const distanceUnit = getDistanceUnit(unitSystem);
   const isV2 = isV2Rule(rule);
+  const snoozedUntil =
+    rule.snoozedUntil && new Date(rule.snoozedUntil) > new Date()
+      ? new Date(rule.snoozedUntil)
+      : null;
 
   // Get icon: V2 rules infer from first condition, V1 uses type mapping
   const icon = isV2
@@ -591,12 +620,12 @@ function RuleCard({
 
   return (
     <Card
-      className={`${!rule.isActive ? 'opacity-60' : ''} ${isSelected ? 'ring-primary ring-2' : ''}`}
+      className={`${!rule.isActive || snoozedUntil ? 'opacity-60' : ''} ${isSelected ? 'ring-primary ring-2' : ''}`}
     >
       <CardContent className="pt-6">
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-4">
-            {onSelect && (
+            {onSelect && canEdit && (
               <Checkbox
                 checked={isSelected}
                 onCheckedChange={onSelect}
@@ -612,6 +641,22 @@ function RuleCard({
                 {!rule.isActive && (
                   <span className="text-muted-foreground text-xs">({t('rules.disable')}d)</span>
                 )}
+                {snoozedUntil && (
+                  <Badge variant="secondary" className="gap-1">
+                    <BellOff className="h-3 w-3" />
+                    {t('rules.snoozedUntil', { date: format(snoozedUntil, 'MMM d, HH:mm') })}
+                  </Badge>
+                )}
+                {rule.schedule && (
+                  <Badge
+                    variant="outline"
+                    className="gap-1"
+                    title={formatRuleSchedule(rule.schedule)}
+                  >
+                    <CalendarClock className="h-3 w-3" />
+                    {t('rules.scheduled')}
+                  </Badge>
+                )}
               </div>
               {isV2 && rule.description && (
                 <p className="text-muted-foreground text-sm">{rule.description}</p>
@@ -693,13 +738,41 @@ function RuleCard({
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Switch checked={rule.isActive} onCheckedChange={onToggle} />
-            <Button variant="ghost" size="icon" onClick={onEdit}>
-              <Pencil className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" onClick={onDelete}>
-              <Trash2 className="text-destructive h-4 w-4" />
-            </Button>
+            <Switch checked={rule.isActive} onCheckedChange={onToggle} disabled={!canEdit} />
+            {onSnooze && canEdit && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label={t('rules.snooze')}>
+                    <BellOff className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {SNOOZE_OPTIONS.map((option) => (
+                    <DropdownMenuItem
+                      key={option.key}
+                      onClick={() => onSnooze(new Date(Date.now() + option.duration))}
+                    >
+                      {t(`rules.${option.key}`)}
+                    </DropdownMenuItem>
+                  ))}
+                  {snoozedUntil && (
+                    <DropdownMenuItem onClick={() => onSnooze(null)}>
+                      {t('rules.resume')}
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {canEdit && (
+              <>
+                <Button variant="ghost" size="icon" onClick={onEdit}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={onDelete}>
+                  <Trash2 className="text-destructive h-4 w-4" />
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </CardContent>
@@ -717,6 +790,11 @@ export function Rules() {
   const toggleRule = useToggleRule();
   const bulkToggleRules = useBulkToggleRules();
   const bulkDeleteRules = useBulkDeleteRules();
+  const { can, canEverywhere } = usePermissions();
+
+  // Global rules apply to every server, so they need rules:write everywhere
+  const canEditRule = (rule: Rule) =>
+    rule.serverId ? can('rules:write', rule.serverId) : canEverywhere('rules:write');
 
   const unitSystem = settings?.unitSystem ?? 'metric';
 
@@ -793,6 +871,10 @@ export function Rules() {
     toggleRule.mutate({ id: rule.id, isActive: !rule.isActive });
   };
 
+  const handleSnooze = (rule: Rule, snoozedUntil: Date | null) => {
+    updateRuleV2.mutate({ id: rule.id, data: { snoozedUntil } });
+  };
+
   const handleBulkEnable = () => {
     bulkToggleRules.mutate(
       { ids: Array.from(selectedIds), isActive: true },
@@ -891,25 +973,27 @@ export function Rules() {
           <h1 className="text-3xl font-bold">{t('pages:rules.title')}</h1>
           <p className="text-muted-foreground">{t('pages:rules.description')}</p>
         </div>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              {t('pages:rules.addRule')}
-              <ChevronDown className="ml-2 h-4 w-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={openTemplatePicker}>
-              <Settings2 className="mr-2 h-4 w-4" />
-              Classic Rule
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={openV2CreateDialog}>
-              <Sparkles className="mr-2 h-4 w-4" />
-              Custom Rule
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        {can('rules:write') && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                {t('pages:rules.addRule')}
+                <ChevronDown className="ml-2 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={openTemplatePicker}>
+                <Settings2 className="mr-2 h-4 w-4" />
+                Classic Rule
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={openV2CreateDialog}>
+                <Sparkles className="mr-2 h-4 w-4" />
+                Custom Rule
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
 
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogContent>
@@ -960,25 +1044,27 @@ export function Rules() {
               <h3 className="font-semibold">{t('pages:rules.noRulesConfigured')}</h3>
               <p className="text-muted-foreground text-sm">{t('pages:rules.createFirstRule')}</p>
             </div>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  {t('pages:rules.addRule')}
-                  <ChevronDown className="ml-2 h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent>
-                <DropdownMenuItem onClick={openTemplatePicker}>
-                  <Settings2 className="mr-2 h-4 w-4" />
-                  Classic Rule
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={openV2CreateDialog}>
-                  <Sparkles className="mr-2 h-4 w-4" />
-                  Custom Rule
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            {can('rules:write') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    {t('pages:rules.addRule')}
+                    <ChevronDown className="ml-2 h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={openTemplatePicker}>
+                    <Settings2 className="mr-2 h-4 w-4" />
+                    Classic Rule
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={openV2CreateDialog}>
+                    <Sparkles className="mr-2 h-4 w-4" />
+                    Custom Rule
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -1001,10 +1087,14 @@ export function Rules() {
               onToggle={() => {
                 handleToggle(rule);
               }}
+              onSnooze={
+                isV2Rule(rule) ? (snoozedUntil) => handleSnooze(rule, snoozedUntil) : undefined
+              }
               unitSystem={unitSystem}
               isSelected={isSelected(rule)}
               onSelect={() => toggleRow(rule)}
               filterOptions={rulesFilterOptions}
+              canEdit={canEditRule(rule)}
             />
           ))}
         </div>
@@ -3,7 +3,9 @@
  * Components are organized in components/settings/ for maintainability.
  */
 import { NavLink, Routes, Route } from 'react-router';
+import type { Permission } from '@tracearr/shared';
 import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/usePermissions';
 
 // Settings section components
 import { GeneralSettings } from '@/components/settings/GeneralSettings';
@@ -11,59 +13,92 @@ import { ServerSettings } from '@/components/settings/ServerSettings';
 import { AccessSettings } from '@/components/settings/AccessSettings';
 import { MobileSettings } from '@/components/settings/MobileSettings';
 import { ImportSettings } from '@/components/settings/ImportSettings';
+import { BackupSettings } from '@/components/settings/BackupSettings';
 import { JobsSettings } from '@/components/settings/JobsSettings';
+import { AuditLogSettings } from '@/components/settings/AuditLogSettings';
 import { NotificationAgentsManager } from '@/components/settings/notification-agents';
+import { WebhookDeliveryLog } from '@/components/settings/WebhookDeliveryLog';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Bell } from 'lucide-react';
+import { Bell, Webhook } from 'lucide-react';
 
 function SettingsNav() {
-  const links = [
-    { href: '/settings', label: 'General', end: true },
-    { href: '/settings/servers', label: 'Servers' },
-    { href: '/settings/notifications', label: 'Notifications' },
-    { href: '/settings/access', label: 'Access Control' },
-    { href: '/settings/mobile', label: 'Mobile' },
-    { href: '/settings/import', label: 'Import' },
-    { href: '/settings/jobs', label: 'Jobs' },
+  const { can } = usePermissions();
+  const links: { href: string; label: string; end?: boolean; permissions: Permission[] }[] = [
+    { href: '/settings', label: 'General', end: true, permissions: ['settings:write'] },
+    { href: '/settings/servers', label: 'Servers', permissions: ['servers:manage'] },
+    {
+      href: '/settings/notifications',
+      label: 'Notifications',
+      permissions: ['notifications:manage'],
+    },
+    {
+      href: '/settings/access',
+      label: 'Access Control',
+      permissions: ['settings:write', 'users:manage'],
+    },
+    { href: '/settings/mobile', label: 'Mobile', permissions: ['mobile:manage'] },
+    { href: '/settings/import', label: 'Import', permissions: ['import:run'] },
+    { href: '/settings/backup', label: 'Backup', permissions: ['backup:manage'] },
+    { href: '/settings/jobs', label: 'Jobs', permissions: ['maintenance:run'] },
+    { href: '/settings/audit', label: 'Audit Log', permissions: ['audit:read'] },
   ];
 
   return (
     <nav className="flex space-x-4 border-b pb-4">
-      {links.map((link) => (
-        <NavLink
-          key={link.href}
-          to={link.href}
-          end={link.end}
-          className={({ isActive }) =>
-            cn(
-              'text-sm font-medium transition-colors',
-              isActive ? 'text-primary' : 'text-muted-foreground hover:text-primary'
-            )
-          }
-        >
-          {link.label}
-        </NavLink>
-      ))}
+      {links
+        .filter((link) => link.permissions.some((permission) => can(permission)))
+        .map((link) => (
+          <NavLink
+            key={link.href}
+            to={link.href}
+            end={link.end}
+            className={({ isActive }) =>
+              cn(
+                'text-sm font-medium transition-colors',
+                isActive ? 'text-primary' : 'text-muted-foreground hover:text-primary'
+              )
+            }
+          >
+            {link.label}
+          </NavLink>
+        ))}
     </nav>
   );
 }
 
 function NotificationSettings() {
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Bell className="h-5 w-5" />
-          Notification Agents
-        </CardTitle>
-        <CardDescription>
-          Configure notification channels and select which events each agent should receive.
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <NotificationAgentsManager />
-      </CardContent>
-    </Card>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notification Agents
+          </CardTitle>
+          <CardDescription>
+            Configure notification channels and select which events each agent should receive.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NotificationAgentsManager />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Webhook Deliveries
+          </CardTitle>
+          <CardDescription>
+            Every JSON webhook request, including retries. Failed deliveries are retried with
+            backoff for about 8 minutes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WebhookDeliveryLog />
+        </CardContent>
+      </Card>
+    </div>
   );
 }
 
@@ -79,7 +114,9 @@ export function Settings() {
         <Route path="access" element={<AccessSettings />} />
         <Route path="mobile" element={<MobileSettings />} />
         <Route path="import" element={<ImportSettings />} />
+        <Route path="backup" element={<BackupSettings />} />
         <Route path="jobs" element={<JobsSettings />} />
+        <Route path="audit" element={<AuditLogSettings />} />
       </Routes>
     </div>
   );
@@ -7,6 +7,8 @@ import { TrustScoreBadge } from '@/components/users/TrustScoreBadge';
 import { UserLocationsCard } from '@/components/users/UserLocationsCard';
 import { UserDevicesCard } from '@/components/users/UserDevicesCard';
 import { EditUserNameDialog } from '@/components/users/EditUserNameDialog';
+import { UserExemptionsCard } from '@/components/users/UserExemptionsCard';
+import { UserTrustHistoryCard } from '@/components/users/UserTrustHistoryCard';
 import { SeverityBadge } from '@/components/violations/SeverityBadge';
 import { ActiveSessionBadge } from '@/components/sessions/ActiveSessionBadge';
 import { getAvatarUrl } from '@/components/users/utils';
@@ -38,7 +40,7 @@ import type {
 } from '@tracearr/shared';
 import { useUserFull, useUserSessions, useViolations, useUserTerminations } from '@/hooks/queries';
 import { useServer } from '@/hooks/useServer';
-import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
 
 // Union type for violations - aggregate returns ViolationSummary, paginated returns ViolationWithDetails
 type ViolationRow = ViolationSummary | ViolationWithDetails;
@@ -52,8 +54,7 @@ export function UserDetail() {
   const [isEditNameOpen, setIsEditNameOpen] = useState(false);
   const pageSize = 10;
   const { selectedServerId } = useServer();
-  const { user: authUser } = useAuth();
-  const isOwner = authUser?.role === 'owner';
+  const { can } = usePermissions();
 
   // Column definitions with translations
   const sessionColumns: ColumnDef<Session>[] = useMemo(
@@ -424,7 +425,7 @@ export function UserDetail() {
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <h2 className="text-xl font-semibold">{user.identityName ?? user.username}</h2>
-                    {isOwner && (
+                    {can('users:manage') && (
                       <Button
                         variant="ghost"
                         size="icon"
@@ -560,6 +561,17 @@ export function UserDetail() {
         </CardContent>
       </Card>
 
+      {/* Trust Score History */}
+      <UserTrustHistoryCard serverUserId={user.id} trustScore={user.trustScore} />
+
+      {/* Rule Exemptions */}
+      <UserExemptionsCard
+        serverUserId={user.id}
+        identityId={user.userId}
+        username={user.username}
+        canManage={can('rules:write', user.serverId)}
+      />
+
       {/* Termination History */}
       <Card>
         <CardHeader>
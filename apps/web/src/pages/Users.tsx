@@ -17,6 +17,7 @@ import type { ServerUserWithIdentity } from '@tracearr/shared';
 import { useUsers, useBulkResetTrust } from '@/hooks/queries';
 import { useServer } from '@/hooks/useServer';
 import { useRowSelection } from '@/hooks/useRowSelection';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export function Users() {
   const { t } = useTranslation(['pages', 'common']);
@@ -30,6 +31,7 @@ export function Users() {
 
   const { data, isLoading } = useUsers({ page, pageSize, serverId: selectedServerId ?? undefined });
   const bulkResetTrust = useBulkResetTrust();
+  const { can } = usePermissions();
 
   const users = data?.data ?? [];
   const total = data?.total ?? 0;
@@ -199,7 +201,7 @@ export function Users() {
                 void navigate(`/users/${user.id}`);
               }}
               emptyMessage={t('pages:users.noUsersFound')}
-              selectable
+              selectable={can('users:trust', selectedServerId)}
               getRowId={(row) => row.id}
               selectedIds={selectedIds}
               selectAllMode={selectAllMode}
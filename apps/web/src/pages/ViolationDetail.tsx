@@ -27,6 +27,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { SeverityBadge } from '@/components/violations/SeverityBadge';
 import { ActionResultsList } from '@/components/violations/ActionResultsList';
 import { getAvatarUrl } from '@/components/users/utils';
+import { CreateExemptionDialog } from '@/components/users/CreateExemptionDialog';
 import { getCountryName, getMediaDisplay } from '@/lib/utils';
 import {
   useViolation,
@@ -34,6 +35,7 @@ import {
   useDismissViolation,
   useSettings,
 } from '@/hooks/queries';
+import { usePermissions } from '@/hooks/usePermissions';
 import {
   Dialog,
   DialogContent,
@@ -55,6 +57,7 @@ import {
   CheckCircle2,
   XCircle,
   Shield,
+  ShieldOff,
 } from 'lucide-react';
 
 const StreamMap = lazy(() =>
@@ -190,6 +193,8 @@ export function ViolationDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [dismissConfirmOpen, setDismissConfirmOpen] = useState(false);
+  const [exemptOpen, setExemptOpen] = useState(false);
+  const { can } = usePermissions();
 
   const { data: violation, isLoading } = useViolation(id!);
   const { data: settings } = useSettings();
@@ -387,6 +392,9 @@ export function ViolationDetail() {
     <AlertTriangle className="h-5 w-5" />
   );
   const avatarUrl = getAvatarUrl(violation.user.serverId, violation.user.thumbUrl, 80);
+  const canAcknowledge = can('violations:ack', violation.user.serverId);
+  const canDismiss = can('violations:delete', violation.user.serverId);
+  const canExempt = can('rules:write', violation.user.serverId);
   const isInactivity = violation.rule.type === 'account_inactivity';
 
   return (
@@ -414,7 +422,7 @@ export function ViolationDetail() {
           </div>
         </div>
         <div className="flex items-center gap-2">
-          {isPending && (
+          {isPending && canAcknowledge && (
             <Button onClick={handleAcknowledge} disabled={acknowledgeViolation.isPending}>
               <Check className="mr-2 h-4 w-4" />
               {acknowledgeViolation.isPending
@@ -422,10 +430,18 @@ export function ViolationDetail() {
                 : t('common:actions.acknowledge')}
             </Button>
           )}
-          <Button variant="destructive" onClick={() => setDismissConfirmOpen(true)}>
-            <X className="mr-2 h-4 w-4" />
-            {t('common:actions.dismiss')}
-          </Button>
+          {canExempt && (
+            <Button variant="outline" onClick={() => setExemptOpen(true)}>
+              <ShieldOff className="mr-2 h-4 w-4" />
+              {t('pages:violations.detail.exemptUser')}
+            </Button>
+          )}
+          {canDismiss && (
+            <Button variant="destructive" onClick={() => setDismissConfirmOpen(true)}>
+              <X className="mr-2 h-4 w-4" />
+              {t('common:actions.dismiss')}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -698,6 +714,18 @@ export function ViolationDetail() {
         </CardContent>
       </Card>
 
+      {/* Exempt this user from this rule (defaults to 14 days) */}
+      {canExempt && (
+        <CreateExemptionDialog
+          open={exemptOpen}
+          onOpenChange={setExemptOpen}
+          serverUserId={violation.user.id}
+          username={violation.user.username}
+          defaultRuleId={violation.rule.id}
+          defaultDays={14}
+        />
+      )}
+
       {/* Dismiss Confirmation Dialog */}
       <Dialog open={dismissConfirmOpen} onOpenChange={setDismissConfirmOpen}>
         <DialogContent>
@@ -36,6 +36,7 @@ import {
 } from '@/hooks/queries';
 import { useServer } from '@/hooks/useServer';
 import { useRowSelection } from '@/hooks/useRowSelection';
+import { usePermissions } from '@/hooks/usePermissions';
 
 import { ruleIcons } from '@/components/violations/ruleIcons';
 
@@ -75,6 +76,7 @@ export function Violations() {
     orderDir,
   });
   const acknowledgeViolation = useAcknowledgeViolation();
+  const { can } = usePermissions();
   const dismissViolation = useDismissViolation();
   const bulkAcknowledge = useBulkAcknowledgeViolations();
   const bulkDismiss = useBulkDismissViolations();
@@ -166,24 +168,27 @@ export function Violations() {
     setPage(1);
   }, []);
 
-  const bulkActions: BulkAction[] = [
-    {
+  const bulkActions: BulkAction[] = [];
+  if (can('violations:ack')) {
+    bulkActions.push({
       key: 'acknowledge',
       label: t('common:actions.acknowledge'),
       icon: <Check className="h-4 w-4" />,
       variant: 'default',
       onClick: handleBulkAcknowledge,
       isLoading: bulkAcknowledge.isPending,
-    },
-    {
+    });
+  }
+  if (can('violations:delete')) {
+    bulkActions.push({
       key: 'dismiss',
       label: t('common:actions.dismiss'),
       icon: <Trash2 className="h-4 w-4" />,
       variant: 'destructive',
       onClick: () => setBulkDismissConfirmOpen(true),
       isLoading: bulkDismiss.isPending,
-    },
-  ];
+    });
+  }
 
   const violationColumns: ColumnDef<ViolationWithDetails>[] = useMemo(
     () => [
@@ -279,7 +284,7 @@ export function Violations() {
                 e.stopPropagation();
               }}
             >
-              {!violation.acknowledgedAt && (
+              {!violation.acknowledgedAt && can('violations:ack', violation.user.serverId) && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -294,24 +299,26 @@ export function Violations() {
                   {t('common:actions.acknowledge')}
                 </Button>
               )}
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setDismissId(violation.id);
-                }}
-                className="text-destructive hover:text-destructive"
-              >
-                <X className="mr-1 h-4 w-4" />
-                {t('common:actions.dismiss')}
-              </Button>
+              {can('violations:delete', violation.user.serverId) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setDismissId(violation.id);
+                  }}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  {t('common:actions.dismiss')}
+                </Button>
+              )}
             </div>
           );
         },
       },
     ],
-    [t, handleAcknowledge, acknowledgeViolation.isPending]
+    [t, handleAcknowledge, acknowledgeViolation.isPending, can]
   );
 
   return (
@@ -428,7 +435,7 @@ export function Violations() {
                 void navigate(`/violations/${violation.id}`);
               }}
               emptyMessage={t('violations.noViolationsFound')}
-              selectable
+              selectable={bulkActions.length > 0}
               getRowId={(row) => row.id}
               selectedIds={selectedIds}
               selectAllMode={selectAllMode}
@@ -0,0 +1,236 @@
+import { useParams } from 'react-router';
+import { useTranslation } from 'react-i18next';
+import {
+  CalendarDays,
+  Clock,
+  Film,
+  Flame,
+  Loader2,
+  Music,
+  Play,
+  Smartphone,
+  Sparkles,
+  Tv,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { YearReviewPlay, YearReviewStats, YearReviewTopItem } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { StatCard } from '@/components/ui/stat-card';
+import { useSharedYearReview } from '@/hooks/queries';
+
+// 2023-01-01 was a Sunday, matching Postgres day-of-week numbering (0 = Sunday)
+function formatDayOfWeek(day: number): string {
+  return new Date(2023, 0, 1 + day).toLocaleDateString(undefined, { weekday: 'long' });
+}
+
+function formatHour(hour: number): string {
+  return new Date(2023, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric' });
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function TopList({
+  title,
+  icon: Icon,
+  items,
+}: {
+  title: string;
+  icon: LucideIcon;
+  items: YearReviewTopItem[];
+}) {
+  const { t } = useTranslation('pages');
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base font-medium">
+          <Icon className="text-primary h-4 w-4" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-2">
+          {items.map((item, index) => (
+            <li key={`${item.title}-${index}`} className="flex items-baseline gap-3">
+              <span className="text-muted-foreground w-4 text-sm tabular-nums">{index + 1}</span>
+              <span className="min-w-0 flex-1 truncate font-medium">
+                {item.title}
+                {item.year && <span className="text-muted-foreground ml-1">({item.year})</span>}
+              </span>
+              <span className="text-muted-foreground text-sm">
+                {t('yearReview.playsCount', { count: item.plays })}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PlayMoment({ label, play }: { label: string; play: YearReviewPlay | null }) {
+  if (!play) return null;
+
+  return (
+    <div className="bg-card rounded-lg border p-4">
+      <div className="text-muted-foreground text-xs">{label}</div>
+      <div className="mt-1 truncate font-medium">{play.title}</div>
+      <div className="text-muted-foreground text-sm">{new Date(play.at).toLocaleString()}</div>
+    </div>
+  );
+}
+
+function YearReviewContent({ stats }: { stats: YearReviewStats }) {
+  const { t } = useTranslation('pages');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        <StatCard
+          icon={Clock}
+          label={t('yearReview.hoursWatched')}
+          value={stats.totalHours.toLocaleString()}
+        />
+        <StatCard
+          icon={Play}
+          label={t('yearReview.totalPlays')}
+          value={stats.totalPlays.toLocaleString()}
+        />
+        <StatCard
+          icon={CalendarDays}
+          label={t('yearReview.activeDays')}
+          value={stats.activeDays.toLocaleString()}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        {stats.longestStreak && (
+          <StatCard
+            icon={Flame}
+            label={t('yearReview.longestStreak')}
+            value={t('yearReview.streakDays', { count: stats.longestStreak.days })}
+            subValue={`${formatDate(stats.longestStreak.start)} – ${formatDate(stats.longestStreak.end)}`}
+          />
+        )}
+        {stats.biggestBinge && (
+          <StatCard
+            icon={Tv}
+            label={t('yearReview.biggestBinge')}
+            value={t('yearReview.bingeEpisodes', {
+              count: stats.biggestBinge.episodes,
+              show: stats.biggestBinge.show,
+            })}
+            subValue={formatDate(stats.biggestBinge.date)}
+          />
+        )}
+        {stats.favoriteDay !== null && stats.favoriteHour !== null && (
+          <StatCard
+            icon={Sparkles}
+            label={t('yearReview.favoriteTime')}
+            value={t('yearReview.favoriteTimeValue', {
+              day: formatDayOfWeek(stats.favoriteDay),
+              hour: formatHour(stats.favoriteHour),
+            })}
+          />
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <TopList title={t('yearReview.topShows')} icon={Tv} items={stats.topShows} />
+        <TopList title={t('yearReview.topMovies')} icon={Film} items={stats.topMovies} />
+        <TopList title={t('yearReview.topArtists')} icon={Music} items={stats.topArtists} />
+      </div>
+
+      {stats.devices.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base font-medium">
+              <Smartphone className="text-primary h-4 w-4" />
+              {t('yearReview.devices')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {stats.devices.map((device) => (
+                <li key={`${device.name}-${device.platform}`} className="flex justify-between">
+                  <span className="font-medium">
+                    {device.name}
+                    {device.platform && (
+                      <span className="text-muted-foreground ml-1">({device.platform})</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground text-sm">
+                    {t('yearReview.playsCount', { count: device.plays })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <PlayMoment label={t('yearReview.firstPlay')} play={stats.firstPlay} />
+        <PlayMoment label={t('yearReview.lastPlay')} play={stats.lastPlay} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Public Year in Review page opened from a share link.
+ * Rendered outside the authenticated layout; the token in the URL is the only credential.
+ */
+export function YearReviewShared() {
+  const { t } = useTranslation('pages');
+  const { token } = useParams<{ token: string }>();
+  const review = useSharedYearReview(token);
+
+  if (review.isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="text-muted-foreground h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!review.data) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-2 p-4 text-center">
+        <h1 className="text-xl font-semibold">{t('yearReview.notFound')}</h1>
+        <p className="text-muted-foreground">{t('yearReview.notFoundDesc')}</p>
+      </div>
+    );
+  }
+
+  const { stats } = review.data;
+  const name = review.data.identityName ?? review.data.username;
+
+  return (
+    <div className="mx-auto min-h-screen max-w-5xl space-y-6 p-4 sm:p-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold">
+          {t('yearReview.yourYear', { name, year: stats.year })}
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          {t('yearReview.onServer', { server: review.data.serverName })}
+        </p>
+      </div>
+
+      {stats.totalPlays === 0 ? (
+        <p className="text-muted-foreground py-12 text-center">{t('yearReview.noPlays')}</p>
+      ) : (
+        <YearReviewContent stats={stats} />
+      )}
+
+      <p className="text-muted-foreground text-center text-xs">{t('yearReview.poweredBy')}</p>
+    </div>
+  );
+}
@@ -1,4 +1,12 @@
 import { useTranslation } from 'react-i18next';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { TimeRangePicker } from '@/components/ui/time-range-picker';
 import {
@@ -20,6 +28,7 @@ import {
   useConcurrentStats,
   useEngagementStats,
 } from '@/hooks/queries';
+import { api } from '@/lib/api';
 import { useServer } from '@/hooks/useServer';
 import { useTimeRange } from '@/hooks/useTimeRange';
 
@@ -51,7 +60,33 @@ export function StatsActivity() {
           <h1 className="text-2xl font-bold">{t('activity.title')}</h1>
           <p className="text-muted-foreground text-sm">{t('activity.description')}</p>
         </div>
-        <TimeRangePicker value={timeRange} onChange={setTimeRange} />
+        <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="mr-2 h-4 w-4" />
+                {t('activity.downloadDigest')}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={() => {
+                  window.location.href = api.stats.digestUrl('weekly', selectedServerId);
+                }}
+              >
+                {t('activity.lastWeek')}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => {
+                  window.location.href = api.stats.digestUrl('monthly', selectedServerId);
+                }}
+              >
+                {t('activity.lastMonth')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <TimeRangePicker value={timeRange} onChange={setTimeRange} />
+        </div>
       </div>
 
       {/* Charts grid */}
@@ -1,6 +1,16 @@
 import { useMemo, useState } from 'react';
 import { Link } from 'react-router';
-import { Activity, Users, Gauge, Clock, HardDrive, ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  Activity,
+  Users,
+  Gauge,
+  Clock,
+  HardDrive,
+  ArrowDown,
+  ArrowUp,
+  Cpu,
+  TrendingUp,
+} from 'lucide-react';
 import Highcharts from 'highcharts';
 import HighchartsReact from 'highcharts-react-official';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -17,12 +27,22 @@ import { TimeRangePicker } from '@/components/ui/time-range-picker';
 import { Skeleton, ChartSkeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { useBandwidthDaily, useBandwidthTopUsers, useBandwidthSummary } from '@/hooks/queries';
+import { Label } from '@/components/ui/label';
+import { NumericInput } from '@/components/ui/numeric-input';
+import { Switch } from '@/components/ui/switch';
+import { CapacityForecastChart } from '@/components/charts';
+import {
+  useBandwidthDaily,
+  useBandwidthTopUsers,
+  useBandwidthSummary,
+  useBandwidthForecast,
+  type BandwidthForecastScenario,
+} from '@/hooks/queries';
 import { useServer } from '@/hooks/useServer';
 import { useTimeRange } from '@/hooks/useTimeRange';
 import { getAvatarUrl } from '@/components/users/utils';
 import { formatBytes } from '@/lib/formatters';
-import type { DailyBandwidthRow } from '@tracearr/shared';
+import type { CapacityForecastServer, DailyBandwidthRow } from '@tracearr/shared';
 
 interface BandwidthChartProps {
   data: DailyBandwidthRow[] | undefined;
@@ -252,6 +272,158 @@ function BandwidthChart({ data, isLoading, height = 300, period = 'month' }: Ban
   );
 }
 
+const CONFIDENCE_LABELS = {
+  high: 'High confidence',
+  medium: 'Medium confidence',
+  low: 'Low confidence',
+} as const;
+
+function formatHourRange(hour: number): string {
+  const format = (h: number) =>
+    new Date(2000, 0, 1, h).toLocaleTimeString('en-US', { hour: 'numeric' });
+  return `${format(hour)} – ${format((hour + 1) % 24)}`;
+}
+
+function ServerForecast({
+  server,
+  showName,
+  horizonDays,
+  minDataDays,
+}: {
+  server: CapacityForecastServer;
+  showName: boolean;
+  horizonDays: number;
+  minDataDays: number;
+}) {
+  const projected = server.projected;
+
+  return (
+    <div className="space-y-4">
+      {showName && (
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold">{server.serverName}</h3>
+          {server.confidence && (
+            <Badge variant="outline">{CONFIDENCE_LABELS[server.confidence]}</Badge>
+          )}
+        </div>
+      )}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          icon={Gauge}
+          label="95th Percentile Upstream"
+          value={`${server.p95BandwidthMbps.toFixed(1)} Mbps`}
+          subValue={
+            projected ? `${horizonDays}d: ${projected.p95BandwidthMbps.toFixed(1)} Mbps` : undefined
+          }
+        />
+        <StatCard
+          icon={TrendingUp}
+          label="Peak Upstream"
+          value={`${server.peakBandwidthMbps.toFixed(1)} Mbps`}
+          subValue={
+            projected
+              ? `${horizonDays}d: ${projected.peakBandwidthMbps.toFixed(1)} Mbps`
+              : undefined
+          }
+        />
+        <StatCard
+          icon={Cpu}
+          label="Peak Transcodes"
+          value={Math.ceil(server.peakTranscodes)}
+          subValue={
+            projected ? `${horizonDays}d: ${Math.ceil(projected.peakTranscodes)}` : undefined
+          }
+        />
+        <StatCard
+          icon={Clock}
+          label="Peak Hour"
+          value={server.peakHour !== null ? formatHourRange(server.peakHour) : '—'}
+        />
+      </div>
+      <CapacityForecastChart data={server} height={280} />
+      {!projected && server.history.length > 0 && (
+        <p className="text-muted-foreground text-sm">
+          Forecasts need at least {minDataDays} days of history. Currently have{' '}
+          {server.history.length} days.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function CapacityForecastCard({ serverId }: { serverId: string | null }) {
+  const [scenario, setScenario] = useState<BandwidthForecastScenario>({
+    addUsers: 0,
+    capRemote1080p: false,
+  });
+  const forecast = useBandwidthForecast(scenario, serverId);
+  const servers = forecast.data?.servers ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capacity Forecast</CardTitle>
+        <CardDescription>
+          Peak upstream bandwidth of remote streams and concurrent transcodes over the last{' '}
+          {forecast.data?.lookbackDays ?? 90} days, projected {forecast.data?.horizonDays ?? 30}{' '}
+          days ahead
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* What-if scenario */}
+        <div className="bg-muted/40 flex flex-wrap items-center gap-6 rounded-lg border p-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="forecast-add-users">Add users</Label>
+            <NumericInput
+              id="forecast-add-users"
+              className="w-20"
+              min={0}
+              max={1000}
+              value={scenario.addUsers}
+              onChange={(addUsers) => setScenario((current) => ({ ...current, addUsers }))}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="forecast-cap-1080p"
+              checked={scenario.capRemote1080p}
+              onCheckedChange={(capRemote1080p) =>
+                setScenario((current) => ({ ...current, capRemote1080p }))
+              }
+            />
+            <Label htmlFor="forecast-cap-1080p">Cap remote quality at 1080p</Label>
+          </div>
+        </div>
+
+        {forecast.isLoading ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+            <ChartSkeleton height={280} />
+          </div>
+        ) : servers.length > 0 ? (
+          servers.map((server) => (
+            <ServerForecast
+              key={server.serverId}
+              server={server}
+              showName={servers.length > 1 || server.confidence !== null}
+              horizonDays={forecast.data?.horizonDays ?? 30}
+              minDataDays={forecast.data?.minDataDays ?? 7}
+            />
+          ))
+        ) : (
+          <div className="text-muted-foreground rounded-lg border border-dashed p-8 text-center">
+            No streaming history to forecast from
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function StatsBandwidth() {
   const { value: timeRange, setValue: setTimeRange, apiParams } = useTimeRange();
   const { selectedServerId } = useServer();
@@ -339,6 +511,9 @@ export function StatsBandwidth() {
         </CardContent>
       </Card>
 
+      {/* Capacity Forecast */}
+      <CapacityForecastCard serverId={selectedServerId} />
+
       {/* Top Users Table */}
       <Card>
         <CardHeader>
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, ExternalLink, Gift, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { getAvatarUrl } from '@/components/users/utils';
+import {
+  useGenerateYearReviews,
+  useSetYearReviewOptOut,
+  useYearReviewUsers,
+} from '@/hooks/queries';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useServer } from '@/hooks/useServer';
+import { BASE_PATH } from '@/lib/api';
+
+const YEARS_SHOWN = 5;
+
+/**
+ * The year just finished, or the current one once December starts
+ */
+function getDefaultYear(now = new Date()): number {
+  return now.getMonth() === 11 ? now.getFullYear() : now.getFullYear() - 1;
+}
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}${BASE_PATH}/year-review/shared/${token}`;
+}
+
+export function StatsYearReview() {
+  const { t } = useTranslation(['pages', 'notifications']);
+  const { can } = usePermissions();
+  const { selectedServerId } = useServer();
+  const [year, setYear] = useState(getDefaultYear);
+
+  const users = useYearReviewUsers(year, selectedServerId);
+  const generate = useGenerateYearReviews();
+  const setOptOut = useSetYearReviewOptOut();
+
+  const canGenerate = can('maintenance:run');
+  const canOptOut = can('users:manage');
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear - i);
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      toast.success(t('notifications:toast.success.copiedToClipboard.title'));
+    } catch {
+      toast.error(t('notifications:toast.error.copyFailed'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t('yearReview.title')}</h1>
+          <p className="text-muted-foreground text-sm">{t('yearReview.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canGenerate && (
+            <Button onClick={() => generate.mutate(year)} disabled={generate.isPending}>
+              {generate.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Gift className="mr-2 h-4 w-4" />
+              )}
+              {t('yearReview.generate')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base font-medium">{year}</CardTitle>
+          <CardDescription>
+            {canGenerate ? t('yearReview.generateDesc') : t('yearReview.ownerOnly')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {users.isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !users.data?.length ? (
+            <p className="text-muted-foreground py-8 text-center text-sm">
+              {t('yearReview.noUsers')}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('yearReview.user')}</TableHead>
+                  <TableHead>{t('yearReview.server')}</TableHead>
+                  <TableHead className="text-right">{t('yearReview.hours')}</TableHead>
+                  <TableHead className="text-right">{t('yearReview.plays')}</TableHead>
+                  <TableHead>{t('yearReview.generatedAt')}</TableHead>
+                  <TableHead>{t('yearReview.share')}</TableHead>
+                  <TableHead title={t('yearReview.optOutDesc')}>{t('yearReview.optOut')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.data.map((user) => {
+                  const displayName = user.identityName ?? user.username;
+                  const avatarUrl = getAvatarUrl(user.serverId, user.thumbUrl, 32);
+                  return (
+                    <TableRow key={user.serverUserId}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Avatar className="h-8 w-8">
+                            {avatarUrl && <AvatarImage src={avatarUrl} alt={displayName} />}
+                            <AvatarFallback>{displayName.slice(0, 2).toUpperCase()}</AvatarFallback>
+                          </Avatar>
+                          <span className="font-medium">{displayName}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{user.serverName}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {user.review ? user.review.totalHours.toLocaleString() : '—'}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {user.review ? user.review.totalPlays.toLocaleString() : '—'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {user.review
+                          ? new Date(user.review.generatedAt).toLocaleDateString()
+                          : t('yearReview.notGenerated')}
+                      </TableCell>
+                      <TableCell>
+                        {user.shareToken && (
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={t('yearReview.copyLink')}
+                              onClick={() => user.shareToken && void handleCopy(user.shareToken)}
+                            >
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={t('yearReview.openLink')}
+                              asChild
+                            >
+                              <a
+                                href={getShareUrl(user.shareToken)}
+                                target="_blank"
+                                rel="noreferrer"
+                              >
+                                <ExternalLink className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={user.optOut}
+                          disabled={!canOptOut}
+                          onCheckedChange={(optOut) =>
+                            setOptOut.mutate({ serverUserId: user.serverUserId, optOut })
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,3 +3,4 @@ export { StatsLibrary } from './Library';
 export { StatsUsers } from './Users';
 export { StatsDevices } from './Devices';
 export { StatsBandwidth } from './Bandwidth';
+export { StatsYearReview } from './YearReview';
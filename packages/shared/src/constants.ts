@@ -2,6 +2,8 @@
  * Shared constants for Tracearr
  */
 
+import type { NotificationTemplateEventType, NotificationTemplateVariable } from './types.js';
+
 // Rule type definitions with default parameters
 export const RULE_DEFAULTS = {
   impossible_travel: {
@@ -68,6 +70,10 @@ export const WS_EVENTS = {
   STATS_UPDATED: 'stats:updated',
   IMPORT_PROGRESS: 'import:progress',
   IMPORT_JELLYSTAT_PROGRESS: 'import:jellystat:progress',
+  IMPORT_PLEX_HISTORY_PROGRESS: 'import:plex-history:progress',
+  IMPORT_PLAYBACK_REPORTING_PROGRESS: 'import:playback-reporting:progress',
+  IMPORT_FILE_PROGRESS: 'import:file:progress',
+  BACKUP_RESTORE_PROGRESS: 'backup:restore:progress',
   MAINTENANCE_PROGRESS: 'maintenance:progress',
   /** Library sync progress updates */
   LIBRARY_SYNC_PROGRESS: 'library:sync:progress',
@@ -191,6 +197,7 @@ export const REDIS_KEYS = {
   // Auth tokens
   REFRESH_TOKEN: (hash: string) => `${_redisPrefix}tracearr:refresh:${hash}`,
   PLEX_TEMP_TOKEN: (token: string) => `${_redisPrefix}tracearr:plex_temp:${token}`,
+  OIDC_STATE: (state: string) => `${_redisPrefix}tracearr:oidc_state:${state}`,
   MOBILE_REFRESH_TOKEN: (hash: string) => `${_redisPrefix}tracearr:mobile_refresh:${hash}`,
   // Rate limiting
   MOBILE_TOKEN_GEN_RATE: (userId: string) => `${_redisPrefix}mobile_token_gen:${userId}`,
@@ -251,6 +258,199 @@ export const NOTIFICATION_EVENTS = {
   SERVER_UP: 'server_up',
 } as const;
 
+// Notification agents that accept user-defined message templates
+export const NOTIFICATION_TEMPLATE_AGENTS = [
+  'discord',
+  'ntfy',
+  'apprise',
+  'pushover',
+  'gotify',
+  'json-webhook',
+  'email',
+  'telegram',
+  'matrix',
+] as const;
+
+// External notification destination types (must match NotificationDestinationType in types.ts)
+export const NOTIFICATION_DESTINATION_TYPES = [
+  'discord',
+  'json',
+  'ntfy',
+  'apprise',
+  'pushover',
+  'gotify',
+  'email',
+  'telegram',
+  'matrix',
+] as const;
+
+// How often a notification destination receives the usage digest
+export const DIGEST_FREQUENCIES = ['off', 'weekly', 'monthly'] as const;
+
+// Administrative actions recorded in the audit log (must match AuditAction in types.ts)
+export const AUDIT_ACTIONS = [
+  'rule.create',
+  'rule.update',
+  'rule.delete',
+  'rule.toggle',
+  'violation.acknowledge',
+  'violation.dismiss',
+  'user.trust_update',
+  'user.trust_reset',
+  'user.access_update',
+  'rule_exemption.create',
+  'rule_exemption.revoke',
+  'settings.update',
+  'settings.api_key_regenerate', // Single-key era, kept for older entries
+  'api_key.create',
+  'api_key.revoke',
+  'server.create',
+  'server.delete',
+  'destination.create',
+  'destination.update',
+  'destination.delete',
+  'session.terminate',
+  'sessions.bulk_delete',
+  'debug.delete',
+  'debug.reset',
+] as const;
+
+// Audit log target types (must match AuditTargetType in types.ts)
+export const AUDIT_TARGET_TYPES = [
+  'rule',
+  'violation',
+  'server_user',
+  'user',
+  'rule_exemption',
+  'settings',
+  'server',
+  'destination',
+  'session',
+  'api_key',
+  'system',
+] as const;
+
+// Scopes a public API key can be granted (must match ApiKeyScope in types.ts)
+export const API_KEY_SCOPES = [
+  'stats:read',
+  'streams:read',
+  'users:read',
+  'violations:read',
+  'history:read',
+  'audit:read',
+  'streams:terminate',
+  'violations:ack',
+  'rules:toggle',
+  'users:trust',
+] as const;
+
+// Roles an OpenID Connect claim can map to (must match OidcRole in types.ts)
+export const OIDC_ROLES = ['admin', 'moderator', 'viewer'] as const;
+
+// Number of entries in each digest leaderboard (users, movies, shows, devices)
+export const DIGEST_TOP_LIMIT = 5;
+
+// Number of entries in each Year in Review leaderboard (shows, movies, artists, devices)
+export const YEAR_REVIEW_TOP_LIMIT = 5;
+
+// Capacity forecasting: days projected ahead, and the bitrate a remote stream is assumed
+// to drop to when the 1080p what-if cap transcodes it down (Plex's "1080p 12 Mbps" preset)
+export const CAPACITY_FORECAST_HORIZON_DAYS = 30;
+export const CAPACITY_FORECAST_1080P_KBPS = 12_000;
+
+const TEMPLATE_EVENT_VARIABLES: NotificationTemplateVariable[] = [
+  { name: 'event.type', description: 'Event identifier (e.g. violation_detected)' },
+  { name: 'event.title', description: 'Built-in notification title' },
+  { name: 'event.message', description: 'Built-in notification message' },
+  { name: 'event.severity', description: 'Severity (low, warning, high)' },
+  { name: 'event.timestamp', description: 'ISO 8601 time the event occurred' },
+];
+
+const TEMPLATE_USER_VARIABLES: NotificationTemplateVariable[] = [
+  { name: 'user.username', description: 'Media server username' },
+  { name: 'user.displayName', description: 'Identity name, falling back to the username' },
+];
+
+const TEMPLATE_SESSION_VARIABLES: NotificationTemplateVariable[] = [
+  { name: 'session.mediaTitle', description: 'Movie or episode title' },
+  { name: 'session.grandparentTitle', description: 'Show name (episodes only)' },
+  { name: 'session.displayTitle', description: 'Formatted title, e.g. "Show - S01E02"' },
+  { name: 'session.mediaType', description: 'movie, episode, track, ...' },
+  { name: 'session.year', description: 'Release year' },
+  { name: 'session.seasonNumber', description: 'Season number (episodes only)' },
+  { name: 'session.episodeNumber', description: 'Episode number (episodes only)' },
+  { name: 'session.playerName', description: 'Friendly player/device name' },
+  { name: 'session.product', description: 'Client app (e.g. Plex for iOS)' },
+  { name: 'session.platform', description: 'Client platform' },
+  { name: 'session.device', description: 'Device type' },
+  { name: 'session.quality', description: 'Stream quality' },
+  { name: 'session.ipAddress', description: 'Client IP address' },
+];
+
+const TEMPLATE_GEO_VARIABLES: NotificationTemplateVariable[] = [
+  { name: 'geo.city', description: 'City resolved from the client IP' },
+  { name: 'geo.region', description: 'State or province' },
+  { name: 'geo.country', description: 'Country' },
+  { name: 'geo.location', description: 'Formatted location, e.g. "Berlin, Germany"' },
+];
+
+const TEMPLATE_SERVER_VARIABLES: NotificationTemplateVariable[] = [
+  { name: 'server.name', description: 'Media server name' },
+  { name: 'server.type', description: 'plex, jellyfin or emby' },
+];
+
+// Variables available to notification templates as {{name}} placeholders, per event
+export const NOTIFICATION_TEMPLATE_VARIABLES: Record<
+  NotificationTemplateEventType,
+  NotificationTemplateVariable[]
+> = {
+  violation_detected: [
+    ...TEMPLATE_EVENT_VARIABLES,
+    ...TEMPLATE_USER_VARIABLES,
+    { name: 'violation.rule.name', description: 'Name of the rule that was triggered' },
+    { name: 'violation.rule.type', description: 'Legacy rule type (empty for custom rules)' },
+    { name: 'violation.severity', description: 'Violation severity' },
+    { name: 'violation.summary', description: 'Built-in description of the violation' },
+    ...TEMPLATE_SESSION_VARIABLES,
+    ...TEMPLATE_GEO_VARIABLES,
+    ...TEMPLATE_SERVER_VARIABLES,
+  ],
+  stream_started: [
+    ...TEMPLATE_EVENT_VARIABLES,
+    ...TEMPLATE_USER_VARIABLES,
+    ...TEMPLATE_SESSION_VARIABLES,
+    { name: 'session.playbackType', description: 'Direct Play or Transcode' },
+    ...TEMPLATE_GEO_VARIABLES,
+    ...TEMPLATE_SERVER_VARIABLES,
+  ],
+  stream_stopped: [
+    ...TEMPLATE_EVENT_VARIABLES,
+    ...TEMPLATE_USER_VARIABLES,
+    ...TEMPLATE_SESSION_VARIABLES,
+    { name: 'session.playbackType', description: 'Direct Play or Transcode' },
+    { name: 'session.duration', description: 'Watch time, e.g. "1h 23m"' },
+    ...TEMPLATE_GEO_VARIABLES,
+    ...TEMPLATE_SERVER_VARIABLES,
+  ],
+  new_device: [
+    ...TEMPLATE_EVENT_VARIABLES,
+    { name: 'user.username', description: 'Display name of the user' },
+    { name: 'device.name', description: 'Device name' },
+    { name: 'device.platform', description: 'Device platform' },
+    { name: 'geo.location', description: 'Location the device connected from' },
+  ],
+  trust_score_changed: [
+    ...TEMPLATE_EVENT_VARIABLES,
+    { name: 'user.username', description: 'Display name of the user' },
+    { name: 'trust.previousScore', description: 'Score before the change' },
+    { name: 'trust.newScore', description: 'Score after the change' },
+    { name: 'trust.direction', description: 'increased or decreased' },
+    { name: 'trust.reason', description: 'Reason for the change' },
+  ],
+  server_down: [...TEMPLATE_EVENT_VARIABLES, ...TEMPLATE_SERVER_VARIABLES],
+  server_up: [...TEMPLATE_EVENT_VARIABLES, ...TEMPLATE_SERVER_VARIABLES],
+};
+
 // API version
 export const API_VERSION = 'v1';
 export const API_BASE_PATH = `/api/${API_VERSION}`;
@@ -683,6 +883,16 @@ export const SERVER_STATS_CONFIG = {
   DATA_POINTS: 20,
 } as const;
 
+// Persisted server resource history (sampler + history charts)
+export const SERVER_RESOURCE_HISTORY = {
+  // How often each server is sampled
+  SAMPLE_INTERVAL_MS: 60 * 1000,
+  // Samples older than this are dropped by the retention policy
+  RETENTION_DAYS: 30,
+  // Longer ranges are averaged into wider buckets to stay under this many points
+  MAX_POINTS: 500,
+} as const;
+
 // Session limits
 export const SESSION_LIMITS = {
   MAX_RECENT_PER_USER: 100,
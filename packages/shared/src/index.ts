@@ -16,6 +16,11 @@ export type {
   ViolationSummary,
   UserRole,
   AuthUser,
+  Permission,
+  PermissionSubject,
+  ServerGrantRole,
+  UserServerGrant,
+  UserAccess,
   UserLocation,
   UserDevice,
   // Session
@@ -61,11 +66,30 @@ export type {
   MessageClientAction,
   NotificationChannelV2,
   RuleActions,
+  RuleScheduleWindow,
+  RuleSchedule,
   RuleV2,
   ActionResult,
+  RuleBacktestSkipReason,
+  RuleBacktestAction,
+  RuleBacktestMatch,
+  RuleBacktestUserCount,
+  RuleBacktestResult,
+  RuleExemption,
+  RuleExemptionStatus,
+  RuleExemptionWithDetails,
+  TrustScoreChangeSource,
+  TrustScoreHistoryEntry,
+  AuditAction,
+  AuditTargetType,
+  AuditLogEntry,
+  ApiKeyScope,
+  ApiKey,
+  CreatedApiKey,
   VideoResolution,
   DeviceType,
   Platform,
+  DayOfWeek,
   MediaTypeEnum,
   TranscodingConditionValue,
   // Violation
@@ -93,9 +117,14 @@ export type {
   // Server resource stats
   ServerResourceDataPoint,
   ServerResourceStats,
+  ServerResourceSample,
+  ServerResourceHistory,
   // Settings
   Settings,
+  OidcRole,
+  OidcRoleMapping,
   WebhookFormat,
+  SmtpSecurity,
   UnitSystem,
   // Tautulli import
   TautulliImportProgress,
@@ -103,6 +132,17 @@ export type {
   // Jellystat import
   JellystatImportProgress,
   JellystatImportResult,
+  // Plex history / Playback Reporting import
+  HistoryImportProgress,
+  HistoryImportResult,
+  FileImportPreview,
+  FileImportSessionPreview,
+  FileImportRowValidation,
+  BackupConflictStrategy,
+  BackupManifest,
+  BackupTableRestoreStats,
+  BackupRestoreProgress,
+  BackupRestoreResult,
   // Library sync
   LibrarySyncProgress,
   // Heavy ops coordination
@@ -145,6 +185,27 @@ export type {
   NotificationPreferencesWithStatus,
   NotificationChannel,
   NotificationChannelRouting,
+  NotificationDestinationType,
+  NotificationDestinationConfig,
+  NotificationDestination,
+  DigestFrequency,
+  DigestPeriod,
+  DigestTopUser,
+  DigestTopContent,
+  DigestNewDevice,
+  DigestReport,
+  YearReviewTopItem,
+  YearReviewPlay,
+  YearReviewStats,
+  YearReviewUserSummary,
+  SharedYearReview,
+  NotificationTemplateEventType,
+  NotificationTemplateAgent,
+  NotificationTemplate,
+  NotificationTemplateVariable,
+  NotificationTemplatePreview,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
   EncryptedPushPayload,
   PushNotificationPayload,
   // SSE (Server-Sent Events)
@@ -197,6 +258,9 @@ export type {
   BandwidthTopUser,
   BandwidthTopUsersResponse,
   BandwidthSummary,
+  CapacityForecastDay,
+  CapacityForecastServer,
+  CapacityForecastResponse,
   // Library statistics
   LibraryStatsResponse,
   GrowthDataPoint,
@@ -258,6 +322,7 @@ export {
   loginSchema,
   callbackSchema,
   // Server
+  SERVER_TYPES,
   createServerSchema,
   serverIdParamSchema,
   reorderServersSchema,
@@ -265,6 +330,9 @@ export {
   // User
   updateUserSchema,
   updateUserIdentitySchema,
+  assignableRoleSchema,
+  serverGrantRoleSchema,
+  updateUserAccessSchema,
   userIdParamSchema,
   // Session
   sessionQuerySchema,
@@ -286,6 +354,13 @@ export {
   // Rule V2
   createRuleV2Schema,
   updateRuleV2Schema,
+  ruleScheduleWindowSchema,
+  ruleScheduleSchema,
+  ruleBacktestSchema,
+  RULE_BACKTEST_MAX_DAYS,
+  createRuleExemptionSchema,
+  trustScoreHistoryQuerySchema,
+  ruleExemptionIdParamSchema,
   // Bulk operations
   bulkUpdateRulesSchema,
   bulkDeleteRulesSchema,
@@ -299,9 +374,38 @@ export {
   dashboardQuerySchema,
   timezoneSchema,
   statsQuerySchema,
+  bandwidthForecastQuerySchema,
   locationStatsQuerySchema,
+  serverResourceHistoryQuerySchema,
   // Settings
   updateSettingsSchema,
+  oidcRoleMappingSchema,
+  // Notification templates
+  notificationTemplateEventTypeSchema,
+  notificationTemplateAgentSchema,
+  notificationTemplateParamsSchema,
+  upsertNotificationTemplateSchema,
+  previewNotificationTemplateSchema,
+  // Webhook delivery log
+  notificationDestinationTypeSchema,
+  notificationEventTypeSchema,
+  notificationDestinationConfigSchema,
+  createNotificationDestinationSchema,
+  updateNotificationDestinationSchema,
+  notificationDestinationIdParamSchema,
+  digestFrequencySchema,
+  digestPeriodSchema,
+  digestQuerySchema,
+  sendDigestSchema,
+  yearReviewYearSchema,
+  yearReviewQuerySchema,
+  generateYearReviewsSchema,
+  yearReviewOptOutSchema,
+  webhookDeliveryQuerySchema,
+  webhookDeliveryIdParamSchema,
+  auditLogQuerySchema,
+  createApiKeySchema,
+  apiKeyIdParamSchema,
   // Tautulli import
   tautulliImportSchema,
   // Jellystat import
@@ -310,6 +414,14 @@ export {
   jellystatPlaybackActivitySchema,
   jellystatBackupSchema,
   jellystatImportBodySchema,
+  // Plex history / Playback Reporting import
+  plexHistoryImportSchema,
+  playbackReportingImportBodySchema,
+  FILE_IMPORT_FIELDS,
+  fileImportMappingSchema,
+  fileImportBodySchema,
+  fileImportValidateSchema,
+  backupRestoreBodySchema,
   importJobStatusSchema,
   // Engagement tracking
   engagementTierSchema,
@@ -339,6 +451,7 @@ export type {
   UpdateServerInput,
   UpdateUserInput,
   UpdateUserIdentityInput,
+  UpdateUserAccessInput,
   SessionQueryInput,
   HistoryQueryInput,
   HistoryAggregatesQueryInput,
@@ -347,6 +460,9 @@ export type {
   // Rule V2 types
   CreateRuleV2Input,
   UpdateRuleV2Input,
+  RuleBacktestInput,
+  CreateRuleExemptionInput,
+  TrustScoreHistoryQueryInput,
   // Bulk operations types
   BulkUpdateRulesInput,
   BulkDeleteRulesInput,
@@ -357,7 +473,20 @@ export type {
   DashboardQueryInput,
   StatsQueryInput,
   LocationStatsQueryInput,
+  BandwidthForecastQueryInput,
+  ServerResourceHistoryQueryInput,
   UpdateSettingsInput,
+  UpsertNotificationTemplateInput,
+  PreviewNotificationTemplateInput,
+  CreateNotificationDestinationInput,
+  UpdateNotificationDestinationInput,
+  DigestQueryInput,
+  SendDigestInput,
+  YearReviewQueryInput,
+  GenerateYearReviewsInput,
+  WebhookDeliveryQueryInput,
+  AuditLogQueryInput,
+  CreateApiKeyInput,
   TautulliImportInput,
   // Jellystat types
   JellystatPlayState,
@@ -365,6 +494,13 @@ export type {
   JellystatPlaybackActivity,
   JellystatBackup,
   JellystatImportBody,
+  PlexHistoryImportBody,
+  PlaybackReportingImportBody,
+  FileImportField,
+  FileImportMapping,
+  FileImportBody,
+  FileImportValidateInput,
+  BackupRestoreBody,
   ImportJobStatus,
   // Engagement tracking
   EngagementQueryInput,
@@ -398,6 +534,18 @@ export {
   getRedisPrefix,
   CACHE_TTL,
   NOTIFICATION_EVENTS,
+  NOTIFICATION_TEMPLATE_AGENTS,
+  NOTIFICATION_DESTINATION_TYPES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  DIGEST_FREQUENCIES,
+  DIGEST_TOP_LIMIT,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  API_KEY_SCOPES,
+  OIDC_ROLES,
+  YEAR_REVIEW_TOP_LIMIT,
+  CAPACITY_FORECAST_HORIZON_DAYS,
+  CAPACITY_FORECAST_1080P_KBPS,
   API_VERSION,
   API_BASE_PATH,
   JWT_CONFIG,
@@ -408,6 +556,7 @@ export {
   SESSION_LIMITS,
   SESSION_WRITE_RETRY,
   SERVER_STATS_CONFIG,
+  SERVER_RESOURCE_HISTORY,
   // SSE
   SSE_CONFIG,
   PLEX_SSE_EVENTS,
@@ -435,6 +584,18 @@ export {
 // Role helper exports
 export { ROLE_PERMISSIONS, canLogin, hasMinRole, isOwner, isActive } from './types.js';
 
+// Access control exports
+export {
+  PERMISSIONS,
+  SERVER_SCOPED_PERMISSIONS,
+  ROLE_GRANTS,
+  roleHasPermission,
+  isServerRestricted,
+  getServerRole,
+  hasPermission,
+  hasPermissionOnAnyServer,
+} from './types.js';
+
 // Session constants
 export { MEDIA_TYPES, DEFAULT_STREAM_DETAILS } from './types.js';
 
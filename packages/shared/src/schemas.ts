@@ -3,14 +3,25 @@
  */
 
 import { z } from 'zod';
-import { isValidTimezone } from './constants.js';
+import {
+  API_KEY_SCOPES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  DIGEST_FREQUENCIES,
+  isValidTimezone,
+  NOTIFICATION_DESTINATION_TYPES,
+  NOTIFICATION_TEMPLATE_AGENTS,
+  OIDC_ROLES,
+  SERVER_RESOURCE_HISTORY,
+  TIME_MS,
+} from './constants.js';
 
 // ============================================================================
 // Shared Enum Constants
 // ============================================================================
 
-/** Server types supported by Tracearr */
-const SERVER_TYPES = ['plex', 'jellyfin', 'emby'] as const;
+/** Server types supported by Tracearr (each needs a media server adapter on the server) */
+export const SERVER_TYPES = ['plex', 'jellyfin', 'emby', 'subsonic'] as const;
 export const serverTypeSchema = z.enum(SERVER_TYPES);
 export type ServerType = z.infer<typeof serverTypeSchema>;
 
@@ -152,10 +163,31 @@ export const updateUserIdentitySchema = z.object({
 
 export type UpdateUserIdentityInput = z.infer<typeof updateUserIdentitySchema>;
 
+// Roles the owner can assign (ownership cannot be transferred here)
+export const assignableRoleSchema = z.enum(['admin', 'moderator', 'viewer', 'member', 'disabled']);
+export const serverGrantRoleSchema = z.enum(['admin', 'moderator', 'viewer']);
+
+export const updateUserAccessSchema = z.object({
+  role: assignableRoleSchema,
+  // Empty = role applies on every server
+  grants: z
+    .array(z.object({ serverId: uuidSchema, role: serverGrantRoleSchema }))
+    .max(100)
+    .refine((grants) => new Set(grants.map((g) => g.serverId)).size === grants.length, {
+      message: 'Each server can only be granted once',
+    }),
+});
+
+export type UpdateUserAccessInput = z.infer<typeof updateUserAccessSchema>;
+
 export const userIdParamSchema = z.object({
   id: uuidSchema,
 });
 
+export const trustScoreHistoryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+});
+
 // ============================================================================
 // Session Schemas
 // ============================================================================
@@ -357,6 +389,17 @@ export const networkLocationFieldSchema = z.enum(['is_local_network', 'country',
 
 export const scopeFieldSchema = z.enum(['server_id', 'library_id', 'media_type']);
 
+export const timeFieldSchema = z.enum(['local_hour', 'day_of_week']);
+
+export const mediaMetadataFieldSchema = z.enum([
+  'media_title',
+  'grandparent_title',
+  'content_rating',
+  'genre',
+  'year',
+  'media_duration_minutes',
+]);
+
 export const conditionFieldSchema = z.union([
   sessionBehaviorFieldSchema,
   streamQualityFieldSchema,
@@ -364,6 +407,8 @@ export const conditionFieldSchema = z.union([
   deviceClientFieldSchema,
   networkLocationFieldSchema,
   scopeFieldSchema,
+  timeFieldSchema,
+  mediaMetadataFieldSchema,
 ]);
 
 // Enums
@@ -382,6 +427,7 @@ export const platformSchema = z.enum([
   'tizen',
   'unknown',
 ]);
+export const dayOfWeekSchema = z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']);
 export const mediaTypeEnumSchema = z.enum([
   'movie',
   'episode',
@@ -409,6 +455,7 @@ export const conditionSchema = z.object({
     .object({
       window_hours: z.number().int().positive().optional(),
       exclude_same_device: z.boolean().optional(),
+      timezone: timezoneSchema.optional(),
     })
     .optional(),
 });
@@ -506,6 +553,29 @@ export const ruleActionsSchema = z.object({
 
 export const violationSeveritySchema = z.enum(['low', 'warning', 'high']);
 
+// Rule schedule: weekly windows (local time) during which the rule is enforced
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+
+export const ruleScheduleWindowSchema = z
+  .object({
+    days: z.array(dayOfWeekSchema).min(1),
+    startTime: timeOfDaySchema,
+    // An end time before the start time wraps past midnight
+    endTime: timeOfDaySchema,
+  })
+  .refine((window) => window.startTime !== window.endTime, {
+    message: 'startTime and endTime must differ',
+  });
+
+export const ruleScheduleSchema = z.object({
+  timezone: z
+    .string()
+    .min(1)
+    .max(100)
+    .refine(isValidTimezone, { message: 'Invalid IANA timezone identifier' }),
+  windows: z.array(ruleScheduleWindowSchema).min(1).max(20),
+});
+
 // Create rule V2 schema
 export const createRuleV2Schema = z.object({
   name: z.string().min(1).max(100),
@@ -515,6 +585,8 @@ export const createRuleV2Schema = z.object({
   severity: violationSeveritySchema.default('warning'),
   conditions: ruleConditionsSchema,
   actions: ruleActionsSchema,
+  schedule: ruleScheduleSchema.nullable().optional(),
+  snoozedUntil: z.coerce.date().nullable().optional(),
 });
 
 // Update rule V2 schema
@@ -525,6 +597,52 @@ export const updateRuleV2Schema = z.object({
   severity: violationSeveritySchema.optional(),
   conditions: ruleConditionsSchema.optional(),
   actions: ruleActionsSchema.optional(),
+  schedule: ruleScheduleSchema.nullable().optional(),
+  snoozedUntil: z.coerce.date().nullable().optional(),
+});
+
+// Rule backtest: replay a draft rule against stored sessions
+export const RULE_BACKTEST_MAX_DAYS = 90;
+
+export const ruleBacktestSchema = z
+  .object({
+    rule: createRuleV2Schema,
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((data) => data.startDate < data.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      data.endDate.getTime() - data.startDate.getTime() <= RULE_BACKTEST_MAX_DAYS * TIME_MS.DAY,
+    {
+      message: `Backtest range cannot exceed ${RULE_BACKTEST_MAX_DAYS} days`,
+      path: ['startDate'],
+    }
+  );
+
+// Rule exemptions
+export const createRuleExemptionSchema = z
+  .object({
+    serverUserId: uuidSchema.optional(),
+    userId: uuidSchema.optional(),
+    ruleId: uuidSchema.nullable().optional(),
+    reason: z.string().trim().min(1).max(500),
+    expiresAt: z.coerce.date().nullable().optional(),
+  })
+  .refine((data) => (data.serverUserId === undefined) !== (data.userId === undefined), {
+    message: 'Provide either serverUserId or userId',
+    path: ['serverUserId'],
+  })
+  .refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+    message: 'expiresAt must be in the future',
+    path: ['expiresAt'],
+  });
+
+export const ruleExemptionIdParamSchema = z.object({
+  id: uuidSchema,
 });
 
 // Bulk operations schemas
@@ -593,6 +711,15 @@ export const statsQuerySchema = z
     message: dateValidationRefinements.startBeforeEnd.message,
   });
 
+// Bandwidth/transcode capacity forecast with what-if scenario inputs
+export const bandwidthForecastQuerySchema = z.object({
+  serverId: uuidSchema.optional(),
+  timezone: timezoneSchema,
+  lookbackDays: z.coerce.number().int().min(14).max(365).default(90),
+  addUsers: z.coerce.number().int().min(0).max(1000).default(0),
+  capRemote1080p: booleanStringSchema.default(false),
+});
+
 // Location stats with full filtering - uses same period system as statsQuerySchema
 export const locationStatsQuerySchema = z
   .object({
@@ -610,6 +737,26 @@ export const locationStatsQuerySchema = z
     message: dateValidationRefinements.startBeforeEnd.message,
   });
 
+// Stored server resource samples over a time range
+export const serverResourceHistoryQuerySchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((data) => data.startDate < data.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      data.endDate.getTime() - data.startDate.getTime() <=
+      SERVER_RESOURCE_HISTORY.RETENTION_DAYS * TIME_MS.DAY,
+    {
+      message: `Range cannot exceed ${SERVER_RESOURCE_HISTORY.RETENTION_DAYS} days`,
+      path: ['startDate'],
+    }
+  );
+
 // ============================================================================
 // Webhook & Settings Schemas
 // ============================================================================
@@ -617,6 +764,9 @@ export const locationStatsQuerySchema = z
 // Webhook format enum
 export const webhookFormatSchema = z.enum(['json', 'ntfy', 'apprise', 'pushover', 'gotify']);
 
+// SMTP connection security for the email notification agent
+export const smtpSecuritySchema = z.enum(['none', 'starttls', 'tls']);
+
 // Unit system enum for display preferences
 export const unitSystemSchema = z.enum(['metric', 'imperial']);
 
@@ -656,17 +806,15 @@ const nullableStringSchema = (maxLength?: number) =>
   );
 
 // Settings schemas
+export const oidcRoleMappingSchema = z.object({
+  value: z.string().trim().min(1).max(255),
+  role: z.enum(OIDC_ROLES),
+});
+
 export const updateSettingsSchema = z.object({
   allowGuestAccess: z.boolean().optional(),
   // Display preferences
   unitSystem: unitSystemSchema.optional(),
-  discordWebhookUrl: nullableUrlSchema.optional(),
-  customWebhookUrl: nullableUrlSchema.optional(),
-  webhookFormat: webhookFormatSchema.nullable().optional(),
-  ntfyTopic: z.string().max(200).nullable().optional(),
-  ntfyAuthToken: nullableStringSchema(500).optional(),
-  pushoverUserKey: nullableStringSchema(200).optional(),
-  pushoverApiToken: nullableStringSchema(200).optional(),
   // Poller settings
   pollerEnabled: z.boolean().optional(),
   pollerIntervalMs: z.number().int().min(5000).max(300000).optional(),
@@ -680,6 +828,182 @@ export const updateSettingsSchema = z.object({
   trustProxy: z.boolean().optional(),
   // Authentication settings
   primaryAuthMethod: z.enum(['jellyfin', 'local']).optional(),
+  // OpenID Connect single sign-on
+  oidcEnabled: z.boolean().optional(),
+  oidcDiscoveryUrl: nullableUrlSchema.optional(),
+  oidcClientId: nullableStringSchema(255).optional(),
+  oidcClientSecret: nullableStringSchema().optional(),
+  oidcScopes: z.string().trim().min(1).max(255).optional(),
+  oidcRoleClaim: z.string().trim().min(1).max(100).optional(),
+  oidcRoleMapping: z.array(oidcRoleMappingSchema).max(50).optional(),
+  oidcDefaultRole: z.enum(OIDC_ROLES).nullable().optional(),
+  oidcAutoProvision: z.boolean().optional(),
+  oidcLinkOwner: z.boolean().optional(),
+  // Trust score recovery
+  trustRecoveryEnabled: z.boolean().optional(),
+  trustRecoveryPoints: z.number().int().min(1).max(100).optional(),
+  trustRecoveryIntervalDays: z.number().int().min(1).max(365).optional(),
+  trustRecoveryFloor: z.number().int().min(0).max(100).optional(),
+  trustRecoveryCap: z.number().int().min(1).max(100).optional(),
+});
+
+// Notification template schemas
+export const notificationTemplateEventTypeSchema = z.enum([
+  'violation_detected',
+  'stream_started',
+  'stream_stopped',
+  'new_device',
+  'trust_score_changed',
+  'server_down',
+  'server_up',
+]);
+
+export const notificationTemplateAgentSchema = z.enum(NOTIFICATION_TEMPLATE_AGENTS);
+
+export const notificationTemplateParamsSchema = z.object({
+  eventType: notificationTemplateEventTypeSchema,
+  agent: notificationTemplateAgentSchema,
+});
+
+export const upsertNotificationTemplateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(4000),
+});
+
+export const previewNotificationTemplateSchema = upsertNotificationTemplateSchema.extend({
+  eventType: notificationTemplateEventTypeSchema,
+});
+
+// Notification destination schemas
+export const notificationDestinationTypeSchema = z.enum(NOTIFICATION_DESTINATION_TYPES);
+
+export const notificationEventTypeSchema = z.enum([
+  'violation_detected',
+  'stream_started',
+  'stream_stopped',
+  'concurrent_streams',
+  'new_device',
+  'trust_score_changed',
+  'server_down',
+  'server_up',
+]);
+
+export const digestFrequencySchema = z.enum(DIGEST_FREQUENCIES);
+
+// Unknown keys are dropped; keys that don't apply to the destination type are ignored
+export const notificationDestinationConfigSchema = z.object({
+  discordWebhookUrl: nullableUrlSchema.optional(),
+  customWebhookUrl: nullableUrlSchema.optional(),
+  webhookSecret: nullableStringSchema(500).optional(),
+  ntfyTopic: nullableStringSchema(200).optional(),
+  ntfyAuthToken: nullableStringSchema(500).optional(),
+  pushoverUserKey: nullableStringSchema(200).optional(),
+  pushoverApiToken: nullableStringSchema(200).optional(),
+  smtpHost: nullableStringSchema(255).optional(),
+  smtpPort: z.number().int().min(1).max(65535).nullable().optional(),
+  smtpSecurity: smtpSecuritySchema.nullable().optional(),
+  smtpUsername: nullableStringSchema(255).optional(),
+  smtpPassword: nullableStringSchema(500).optional(),
+  smtpFrom: nullableStringSchema(320).optional(),
+  smtpTo: nullableStringSchema(1000).optional(),
+  telegramBotToken: nullableStringSchema(200).optional(),
+  telegramChatId: nullableStringSchema(100).optional(),
+  matrixHomeserverUrl: nullableUrlSchema.optional(),
+  matrixAccessToken: nullableStringSchema(500).optional(),
+  matrixRoomId: nullableStringSchema(255).optional(),
+});
+
+export const createNotificationDestinationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: notificationDestinationTypeSchema,
+  config: notificationDestinationConfigSchema,
+  enabled: z.boolean().default(true),
+  events: z.array(notificationEventTypeSchema).max(20).optional(),
+  minSeverity: violationSeveritySchema.default('low'),
+  serverIds: z.array(uuidSchema).max(100).default([]),
+  digestFrequency: digestFrequencySchema.default('off'),
+});
+
+// The type is fixed at creation; config keys are merged into the stored config
+export const updateNotificationDestinationSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  config: notificationDestinationConfigSchema.optional(),
+  enabled: z.boolean().optional(),
+  events: z.array(notificationEventTypeSchema).max(20).optional(),
+  minSeverity: violationSeveritySchema.optional(),
+  serverIds: z.array(uuidSchema).max(100).optional(),
+  digestFrequency: digestFrequencySchema.optional(),
+});
+
+export const notificationDestinationIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+export const digestPeriodSchema = z.enum(['weekly', 'monthly']);
+
+// Usage digest query schema (the most recent complete week or month)
+export const digestQuerySchema = z.object({
+  period: digestPeriodSchema.default('weekly'),
+  serverId: uuidSchema.optional(),
+  format: z.enum(['json', 'html']).default('json'),
+});
+
+// Send a destination its digest now (defaults to the destination's own frequency)
+export const sendDigestSchema = z.object({
+  period: digestPeriodSchema.optional(),
+});
+
+// Year in Review schemas
+export const yearReviewYearSchema = z.coerce.number().int().min(2000).max(2100);
+
+export const yearReviewQuerySchema = z.object({
+  year: yearReviewYearSchema,
+  serverId: uuidSchema.optional(),
+});
+
+export const generateYearReviewsSchema = z.object({
+  year: yearReviewYearSchema,
+  // IANA timezone for favorite hour/day and streaks (defaults to UTC)
+  timezone: timezoneSchema.optional(),
+});
+
+export const yearReviewOptOutSchema = z.object({
+  optOut: z.boolean(),
+});
+
+// Webhook delivery log schemas
+export const webhookDeliveryQuerySchema = paginationSchema.extend({
+  status: z.enum(['pending', 'success', 'retrying', 'failed']).optional(),
+});
+
+export const webhookDeliveryIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+// Audit log schemas
+export const auditLogQuerySchema = paginationSchema.extend({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+  targetId: z.string().max(255).optional(),
+  actorUserId: uuidSchema.optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+// Public API key schemas
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  serverId: uuidSchema.nullable().default(null),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), { message: 'Expiry must be in the future' })
+    .nullable()
+    .default(null),
+});
+
+export const apiKeyIdParamSchema = z.object({
+  id: uuidSchema,
 });
 
 // ============================================================================
@@ -773,6 +1097,77 @@ export const jellystatImportBodySchema = z.object({
   updateStreamDetails: z.coerce.boolean().default(false), // Update existing records with stream/transcode data
 });
 
+// ============================================================================
+// Media Server History Import Schemas
+// ============================================================================
+
+/**
+ * Request body for importing Plex's own watch history
+ */
+export const plexHistoryImportSchema = z.object({
+  serverId: uuidSchema, // Which Tracearr Plex server to import into
+});
+
+/**
+ * Request body for Playback Reporting import (multipart form data is parsed separately)
+ */
+export const playbackReportingImportBodySchema = z.object({
+  serverId: uuidSchema, // Which Tracearr Jellyfin/Emby server to import into
+});
+
+/** Session fields a generic CSV/JSON history file can map its columns to */
+export const FILE_IMPORT_FIELDS = [
+  'user',
+  'title',
+  'startedAt',
+  'stoppedAt',
+  'duration',
+  'mediaType',
+  'showTitle',
+  'seasonNumber',
+  'episodeNumber',
+  'year',
+  'ratingKey',
+  'ipAddress',
+  'player',
+  'device',
+  'platform',
+] as const;
+export type FileImportField = (typeof FILE_IMPORT_FIELDS)[number];
+
+/**
+ * Column mapping for a generic history file (session field -> source column name)
+ */
+export const fileImportMappingSchema = z.partialRecord(
+  z.enum(FILE_IMPORT_FIELDS),
+  z.string().trim().min(1).max(255)
+);
+
+/**
+ * Request body for a generic CSV/JSON history import (multipart form data is parsed separately)
+ */
+export const fileImportBodySchema = z.object({
+  serverId: uuidSchema, // Which Tracearr server to import into
+  mapping: fileImportMappingSchema,
+});
+
+/**
+ * Request body for validating preview rows against a column mapping
+ */
+export const fileImportValidateSchema = z.object({
+  serverId: uuidSchema.optional(), // Also check that users exist on this server
+  mapping: fileImportMappingSchema,
+  rows: z.array(z.record(z.string(), z.string())).max(100),
+});
+
+/**
+ * Request body for restoring a backup archive (multipart form data is parsed separately)
+ */
+export const backupRestoreBodySchema = z.object({
+  // skip: keep rows that already exist; overwrite: replace them with the archived version
+  conflictStrategy: z.enum(['skip', 'overwrite']).default('skip'),
+});
+
 /**
  * Import job status response
  */
@@ -1003,6 +1398,8 @@ export const topContentQuerySchema = z.object({
 // ============================================================================
 
 export type LibraryStatsQueryInput = z.infer<typeof libraryStatsQuerySchema>;
+export type DigestQueryInput = z.infer<typeof digestQuerySchema>;
+export type SendDigestInput = z.infer<typeof sendDigestSchema>;
 export type LibraryGrowthQueryInput = z.infer<typeof libraryGrowthQuerySchema>;
 export type LibraryQualityQueryInput = z.infer<typeof libraryQualityQuerySchema>;
 export type LibraryStorageQueryInput = z.infer<typeof libraryStorageQuerySchema>;
@@ -1036,10 +1433,13 @@ export type UserAttributeField = z.infer<typeof userAttributeFieldSchema>;
 export type DeviceClientField = z.infer<typeof deviceClientFieldSchema>;
 export type NetworkLocationField = z.infer<typeof networkLocationFieldSchema>;
 export type ScopeField = z.infer<typeof scopeFieldSchema>;
+export type TimeField = z.infer<typeof timeFieldSchema>;
+export type MediaMetadataField = z.infer<typeof mediaMetadataFieldSchema>;
 export type ConditionField = z.infer<typeof conditionFieldSchema>;
 export type VideoResolution = z.infer<typeof videoResolutionSchema>;
 export type DeviceType = z.infer<typeof deviceTypeSchema>;
 export type Platform = z.infer<typeof platformSchema>;
+export type DayOfWeek = z.infer<typeof dayOfWeekSchema>;
 export type MediaTypeEnum = z.infer<typeof mediaTypeEnumSchema>;
 export type ConditionValue = z.infer<typeof conditionValueSchema>;
 export type Condition = z.infer<typeof conditionSchema>;
@@ -1058,6 +1458,8 @@ export type Action = z.infer<typeof actionSchema>;
 export type RuleActions = z.infer<typeof ruleActionsSchema>;
 export type CreateRuleV2Input = z.infer<typeof createRuleV2Schema>;
 export type UpdateRuleV2Input = z.infer<typeof updateRuleV2Schema>;
+export type RuleBacktestInput = z.input<typeof ruleBacktestSchema>;
+export type CreateRuleExemptionInput = z.input<typeof createRuleExemptionSchema>;
 export type BulkUpdateRulesInput = z.infer<typeof bulkUpdateRulesSchema>;
 export type BulkDeleteRulesInput = z.infer<typeof bulkDeleteRulesSchema>;
 export type BulkMigrateRulesInput = z.infer<typeof bulkMigrateRulesSchema>;
@@ -1067,7 +1469,24 @@ export type ServerIdFilterInput = z.infer<typeof serverIdFilterSchema>;
 export type DashboardQueryInput = z.infer<typeof dashboardQuerySchema>;
 export type StatsQueryInput = z.infer<typeof statsQuerySchema>;
 export type LocationStatsQueryInput = z.infer<typeof locationStatsQuerySchema>;
+export type BandwidthForecastQueryInput = z.infer<typeof bandwidthForecastQuerySchema>;
+export type ServerResourceHistoryQueryInput = z.input<typeof serverResourceHistoryQuerySchema>;
 export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
+export type TrustScoreHistoryQueryInput = z.input<typeof trustScoreHistoryQuerySchema>;
+export type UpsertNotificationTemplateInput = z.infer<typeof upsertNotificationTemplateSchema>;
+export type PreviewNotificationTemplateInput = z.infer<typeof previewNotificationTemplateSchema>;
+// Request body shape (enabled, minSeverity and serverIds have server-side defaults)
+export type CreateNotificationDestinationInput = z.input<
+  typeof createNotificationDestinationSchema
+>;
+export type UpdateNotificationDestinationInput = z.infer<
+  typeof updateNotificationDestinationSchema
+>;
+export type YearReviewQueryInput = z.infer<typeof yearReviewQuerySchema>;
+export type GenerateYearReviewsInput = z.infer<typeof generateYearReviewsSchema>;
+export type WebhookDeliveryQueryInput = z.infer<typeof webhookDeliveryQuerySchema>;
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
 export type TautulliImportInput = z.infer<typeof tautulliImportSchema>;
 
 // Jellystat types
@@ -1076,6 +1495,12 @@ export type JellystatTranscodingInfo = z.infer<typeof jellystatTranscodingInfoSc
 export type JellystatPlaybackActivity = z.infer<typeof jellystatPlaybackActivitySchema>;
 export type JellystatBackup = z.infer<typeof jellystatBackupSchema>;
 export type JellystatImportBody = z.infer<typeof jellystatImportBodySchema>;
+export type PlexHistoryImportBody = z.infer<typeof plexHistoryImportSchema>;
+export type PlaybackReportingImportBody = z.infer<typeof playbackReportingImportBodySchema>;
+export type FileImportMapping = z.infer<typeof fileImportMappingSchema>;
+export type FileImportBody = z.infer<typeof fileImportBodySchema>;
+export type FileImportValidateInput = z.infer<typeof fileImportValidateSchema>;
+export type BackupRestoreBody = z.infer<typeof backupRestoreBodySchema>;
 export type ImportJobStatus = z.infer<typeof importJobStatusSchema>;
 
 // Engagement types
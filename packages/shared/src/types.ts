@@ -1,21 +1,34 @@
 /**
  * Core type definitions for Tracearr
  */
-import type { webhookFormatSchema, sessionTargetSchema } from './schemas.js';
+import type {
+  webhookFormatSchema,
+  smtpSecuritySchema,
+  sessionTargetSchema,
+  FileImportMapping,
+} from './schemas.js';
 import type { z } from 'zod';
 
 // Re-export SessionTarget for use in action interfaces
 type SessionTarget = z.infer<typeof sessionTargetSchema>;
 
 // User role - combined permission level and account status
-// Can log in: owner, admin, viewer
+// Can log in: owner, admin, moderator, viewer
 // Cannot log in: member (default for synced users), disabled, pending
-export type UserRole = 'owner' | 'admin' | 'viewer' | 'member' | 'disabled' | 'pending';
+export type UserRole =
+  | 'owner'
+  | 'admin'
+  | 'moderator'
+  | 'viewer'
+  | 'member'
+  | 'disabled'
+  | 'pending';
 
 // Role permission hierarchy (higher = more permissions)
 export const ROLE_PERMISSIONS: Record<UserRole, number> = {
-  owner: 4,
-  admin: 3,
+  owner: 5,
+  admin: 4,
+  moderator: 3,
   viewer: 2,
   member: 1, // Synced from media server, no Tracearr login until promoted
   disabled: 0,
@@ -23,19 +36,141 @@ export const ROLE_PERMISSIONS: Record<UserRole, number> = {
 } as const;
 
 // Roles that can log into Tracearr
-const LOGIN_ROLES: UserRole[] = ['owner', 'admin', 'viewer'];
+const LOGIN_ROLES: UserRole[] = ['owner', 'admin', 'moderator', 'viewer'];
 
 // Role helper functions
 export const canLogin = (role: UserRole): boolean => LOGIN_ROLES.includes(role);
 
-export const hasMinRole = (userRole: UserRole, required: 'owner' | 'admin' | 'viewer'): boolean =>
-  ROLE_PERMISSIONS[userRole] >= ROLE_PERMISSIONS[required];
+export const hasMinRole = (
+  userRole: UserRole,
+  required: 'owner' | 'admin' | 'moderator' | 'viewer'
+): boolean => ROLE_PERMISSIONS[userRole] >= ROLE_PERMISSIONS[required];
 
 export const isOwner = (role: UserRole): boolean => role === 'owner';
 export const isActive = (role: UserRole): boolean => canLogin(role);
 
+// ============================================================================
+// Access Control
+// ============================================================================
+
+/** Every permission a route can require */
+export const PERMISSIONS = [
+  'sessions:terminate',
+  'sessions:delete',
+  'violations:ack',
+  'violations:delete',
+  'rules:write',
+  'users:trust',
+  'users:manage',
+  'servers:manage',
+  'settings:write',
+  'notifications:manage',
+  'import:run',
+  'maintenance:run',
+  'backup:manage',
+  'mobile:manage',
+  'debug:run',
+  'audit:read',
+  'api_keys:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions that apply to a single media server. A server grant can narrow
+ * these to specific servers; all other permissions come from the account role.
+ */
+export const SERVER_SCOPED_PERMISSIONS: readonly Permission[] = [
+  'sessions:terminate',
+  'sessions:delete',
+  'violations:ack',
+  'violations:delete',
+  'rules:write',
+  'users:trust',
+];
+
+/** Roles that can be granted on an individual server */
+export type ServerGrantRole = 'admin' | 'moderator' | 'viewer';
+
+// Permissions granted to each role (owner implicitly has all of them).
+// api_keys:manage stays owner-only: public API keys read every server.
+export const ROLE_GRANTS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: [
+    'sessions:terminate',
+    'sessions:delete',
+    'violations:ack',
+    'violations:delete',
+    'rules:write',
+    'users:trust',
+    'settings:write',
+    'notifications:manage',
+    'import:run',
+    'maintenance:run',
+  ],
+  moderator: ['sessions:terminate', 'violations:ack', 'violations:delete'],
+  viewer: [],
+  member: [],
+  disabled: [],
+  pending: [],
+} as const;
+
+/** Subset of AuthUser needed for permission checks */
+export type PermissionSubject = Pick<AuthUser, 'role' | 'serverIds' | 'serverRoles'>;
+
+export const roleHasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_GRANTS[role].includes(permission);
+
+/**
+ * Whether the user's access is narrowed to specific servers by server grants.
+ */
+export const isServerRestricted = (user: PermissionSubject): boolean =>
+  user.role !== 'owner' && Object.keys(user.serverRoles ?? {}).length > 0;
+
+/**
+ * Effective role on a server: the server grant if there is one, otherwise the
+ * account role. Null when the user has no access to the server.
+ */
+export function getServerRole(user: PermissionSubject, serverId: string): UserRole | null {
+  if (user.role === 'owner') return 'owner';
+  if (!user.serverIds.includes(serverId)) return null;
+  return user.serverRoles?.[serverId] ?? user.role;
+}
+
+/**
+ * Check a permission. Server-scoped permissions are evaluated against the
+ * role on `serverId`; without a server they must hold on every server.
+ */
+export function hasPermission(
+  user: PermissionSubject,
+  permission: Permission,
+  serverId?: string | null
+): boolean {
+  if (user.role === 'owner') return true;
+  if (!SERVER_SCOPED_PERMISSIONS.includes(permission)) {
+    return roleHasPermission(user.role, permission);
+  }
+  if (serverId) {
+    const role = getServerRole(user, serverId);
+    return role !== null && roleHasPermission(role, permission);
+  }
+  return !isServerRestricted(user) && roleHasPermission(user.role, permission);
+}
+
+/**
+ * Check whether a permission holds on at least one server. Used to decide
+ * whether to show a control or let a request through to a per-resource check.
+ */
+export function hasPermissionOnAnyServer(user: PermissionSubject, permission: Permission): boolean {
+  if (hasPermission(user, permission)) return true;
+  return (
+    SERVER_SCOPED_PERMISSIONS.includes(permission) &&
+    user.serverIds.some((serverId) => hasPermission(user, permission, serverId))
+  );
+}
+
 // Server types
-export type ServerType = 'plex' | 'jellyfin' | 'emby';
+export type ServerType = 'plex' | 'jellyfin' | 'emby' | 'subsonic';
 
 export interface Server {
   id: string;
@@ -140,10 +275,28 @@ export interface AuthUser {
   username: string;
   role: UserRole;
   serverIds: string[];
+  serverRoles?: Record<string, ServerGrantRole>; // Per-server role grants (absent = role applies everywhere)
   mobile?: boolean; // True for mobile app tokens
   deviceId?: string; // Device identifier for mobile tokens
 }
 
+// Server grant narrowing a user's access to one media server
+export interface UserServerGrant {
+  serverId: string;
+  role: ServerGrantRole;
+}
+
+// Tracearr account with its role and server grants - returned by GET /users/access
+export interface UserAccess {
+  id: string;
+  username: string;
+  name: string | null;
+  thumbnail: string | null;
+  email: string | null;
+  role: UserRole;
+  grants: UserServerGrant[];
+}
+
 // Session types
 export type SessionState = 'playing' | 'paused' | 'stopped';
 
@@ -281,6 +434,8 @@ export interface Session extends StreamDetailFields {
   seasonNumber: number | null; // Season number (for episodes)
   episodeNumber: number | null; // Episode number (for episodes)
   year: number | null; // Release year
+  contentRating: string | null; // e.g. 'PG-13', 'TV-MA'
+  genres: string[] | null; // Null when the server didn't report genres
   thumbPath: string | null; // Poster path (e.g., /library/metadata/123/thumb)
   ratingKey: string | null; // Plex/Jellyfin media identifier
   externalSessionId: string | null; // External reference for deduplication
@@ -421,6 +576,8 @@ export interface Rule {
   conditions?: RuleConditions | null;
   actions?: RuleActions | null;
   serverId?: string | null;
+  schedule?: RuleSchedule | null;
+  snoozedUntil?: Date | null;
   // Common fields
   serverUserId: string | null;
   isActive: boolean;
@@ -464,13 +621,28 @@ export type NetworkLocationField = 'is_local_network' | 'country' | 'ip_in_range
 
 export type ScopeField = 'server_id' | 'library_id' | 'media_type';
 
+export type TimeField = 'local_hour' | 'day_of_week';
+
+export type MediaMetadataField =
+  | 'media_title'
+  | 'grandparent_title'
+  | 'content_rating'
+  | 'genre'
+  | 'year'
+  | 'media_duration_minutes';
+
 export type ConditionField =
   | SessionBehaviorField
   | StreamQualityField
   | UserAttributeField
   | DeviceClientField
   | NetworkLocationField
-  | ScopeField;
+  | ScopeField
+  | TimeField
+  | MediaMetadataField;
+
+// Day of week values for day_of_week conditions
+export type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
 
 // Resolution enum for stream quality
 export type VideoResolution = '4K' | '1080p' | '720p' | '480p' | 'SD' | 'unknown';
@@ -526,6 +698,8 @@ export interface Condition {
     // Useful for: concurrent_streams (don't double-count same device),
     // travel_speed_kmh (VPN switch isn't travel), active_session_distance_km (same device = same location)
     exclude_same_device?: boolean;
+    // IANA timezone for local_hour and day_of_week (defaults to UTC)
+    timezone?: string;
   };
 }
 
@@ -608,6 +782,21 @@ export interface RuleActions {
   actions: Action[];
 }
 
+// Weekly window (local time) during which a scheduled rule is enforced
+export interface RuleScheduleWindow {
+  days: DayOfWeek[];
+  /** 'HH:MM' (24h) */
+  startTime: string;
+  /** 'HH:MM' (24h); before startTime means the window runs past midnight */
+  endTime: string;
+}
+
+// Rule schedule: the rule only applies inside one of its windows
+export interface RuleSchedule {
+  timezone: string;
+  windows: RuleScheduleWindow[];
+}
+
 // New Rule interface (V2)
 export interface RuleV2 {
   id: string;
@@ -618,6 +807,10 @@ export interface RuleV2 {
   severity: ViolationSeverity;
   conditions: RuleConditions;
   actions: RuleActions;
+  /** Null means the rule applies at all times */
+  schedule: RuleSchedule | null;
+  /** Rule is paused until this time */
+  snoozedUntil: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -632,6 +825,191 @@ export interface ActionResult {
   executedAt?: string;
 }
 
+// Rule backtest (dry run) types
+
+// Why an action would not have run for a match
+export type RuleBacktestSkipReason = 'cooldown' | 'confirmation';
+
+export interface RuleBacktestAction {
+  actionType: ActionType;
+  fired: boolean;
+  skipReason?: RuleBacktestSkipReason;
+}
+
+// A session the draft rule would have flagged
+export interface RuleBacktestMatch {
+  sessionId: string;
+  serverId: string;
+  serverUserId: string;
+  username: string;
+  identityName: string | null;
+  mediaTitle: string;
+  grandparentTitle: string | null;
+  startedAt: Date;
+  matchedGroups: number[];
+  evidence: GroupEvidence[];
+  actions: RuleBacktestAction[];
+}
+
+export interface RuleBacktestUserCount {
+  serverUserId: string;
+  username: string;
+  identityName: string | null;
+  count: number;
+}
+
+export interface RuleBacktestResult {
+  startDate: Date;
+  endDate: Date;
+  sessionsEvaluated: number;
+  // True when the range had more sessions than a backtest replays
+  truncated: boolean;
+  matchCount: number;
+  // Most recent matches first (capped; counts cover every match)
+  matches: RuleBacktestMatch[];
+  userCounts: RuleBacktestUserCount[];
+  actionCounts: Partial<Record<ActionType, number>>;
+}
+
+// Rule exemption: skip a rule (or every rule) for one server user or a whole identity
+export interface RuleExemption {
+  id: string;
+  /** Set when the exemption covers a single server account */
+  serverUserId: string | null;
+  /** Set when the exemption covers every server account of an identity */
+  userId: string | null;
+  /** Null exempts from every rule */
+  ruleId: string | null;
+  reason: string;
+  /** Null never expires */
+  expiresAt: Date | null;
+  createdByUserId: string | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+  revokedByUserId: string | null;
+}
+
+export type RuleExemptionStatus = 'active' | 'expired' | 'revoked';
+
+export interface RuleExemptionWithDetails extends RuleExemption {
+  status: RuleExemptionStatus;
+  ruleName: string | null;
+  createdByUsername: string | null;
+  revokedByUsername: string | null;
+}
+
+// Trust score history: every change to a server user's trust score
+export type TrustScoreChangeSource =
+  | 'violation'
+  | 'violation_dismissed'
+  | 'rule_action'
+  | 'manual'
+  | 'recovery';
+
+export interface TrustScoreHistoryEntry {
+  id: string;
+  serverUserId: string;
+  previousScore: number;
+  newScore: number;
+  source: TrustScoreChangeSource;
+  reason: string | null;
+  /** Set for manual changes */
+  changedByUserId: string | null;
+  createdAt: Date;
+}
+
+// Audit log types (must match AUDIT_ACTIONS / AUDIT_TARGET_TYPES in constants.ts)
+export type AuditAction =
+  | 'rule.create'
+  | 'rule.update'
+  | 'rule.delete'
+  | 'rule.toggle'
+  | 'violation.acknowledge'
+  | 'violation.dismiss'
+  | 'user.trust_update'
+  | 'user.trust_reset'
+  | 'user.access_update'
+  | 'rule_exemption.create'
+  | 'rule_exemption.revoke'
+  | 'settings.update'
+  | 'settings.api_key_regenerate'
+  | 'api_key.create'
+  | 'api_key.revoke'
+  | 'server.create'
+  | 'server.delete'
+  | 'destination.create'
+  | 'destination.update'
+  | 'destination.delete'
+  | 'session.terminate'
+  | 'sessions.bulk_delete'
+  | 'debug.delete'
+  | 'debug.reset';
+
+export type AuditTargetType =
+  | 'rule'
+  | 'violation'
+  | 'server_user'
+  | 'user'
+  | 'rule_exemption'
+  | 'settings'
+  | 'server'
+  | 'destination'
+  | 'session'
+  | 'api_key'
+  | 'system';
+
+export interface AuditLogEntry {
+  id: string;
+  /** Not a foreign key, so entries outlive the acting user */
+  actorUserId: string | null;
+  actorUsername: string;
+  /** Name of the public API key used, if the action came through the public API */
+  apiKeyName: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  /** Human-readable target, captured at the time of the action */
+  targetLabel: string | null;
+  /** Changed fields before the action (null for creations) */
+  before: Record<string, unknown> | null;
+  /** Changed fields after the action (null for deletions) */
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
+// Public API key types (must match API_KEY_SCOPES in constants.ts)
+export type ApiKeyScope =
+  | 'stats:read'
+  | 'streams:read'
+  | 'users:read'
+  | 'violations:read'
+  | 'history:read'
+  | 'audit:read'
+  | 'streams:terminate'
+  | 'violations:ack'
+  | 'rules:toggle'
+  | 'users:trust';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Start of the token, shown to tell keys apart (the full token is never stored) */
+  tokenPrefix: string;
+  scopes: ApiKeyScope[];
+  /** Server the key is limited to (null = every server) */
+  serverId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  requestCount: number;
+  createdAt: Date;
+}
+
+/** Returned once when a key is created; the token cannot be retrieved later */
+export interface CreatedApiKey extends ApiKey {
+  token: string;
+}
+
 // Violation types
 export type ViolationSeverity = 'low' | 'warning' | 'high';
 
@@ -835,9 +1213,39 @@ export interface ServerResourceStats {
   fetchedAt: Date;
 }
 
+// Persisted server resource history (sampled once a minute)
+export interface ServerResourceSample {
+  /** Bucket start (ISO timestamp) */
+  at: string;
+  /** Averaged utilization percentages (null when the server doesn't report them) */
+  hostCpuUtilization: number | null;
+  processCpuUtilization: number | null;
+  hostMemoryUtilization: number | null;
+  processMemoryUtilization: number | null;
+  /** Peak concurrent streams in the bucket */
+  streamCount: number;
+  /** Peak concurrent transcodes in the bucket */
+  transcodeCount: number;
+  /** Average bandwidth of playing streams in kbps */
+  bandwidthKbps: number;
+}
+
+export interface ServerResourceHistory {
+  serverId: string;
+  /** Width of each bucket in seconds */
+  bucketSeconds: number;
+  /** Whether the server reports CPU and memory (session metrics are always recorded) */
+  resourceUsageSupported: boolean;
+  /** Buckets oldest first; gaps mean no samples were taken */
+  data: ServerResourceSample[];
+}
+
 // Webhook format types
 export type WebhookFormat = z.infer<typeof webhookFormatSchema>;
 
+// SMTP connection security for email notifications
+export type SmtpSecurity = z.infer<typeof smtpSecuritySchema>;
+
 // Unit system for display preferences (stored in settings)
 export type UnitSystem = 'metric' | 'imperial';
 
@@ -846,14 +1254,6 @@ export interface Settings {
   allowGuestAccess: boolean;
   // Display preferences
   unitSystem: UnitSystem;
-  // Notifications settings
-  discordWebhookUrl: string | null;
-  customWebhookUrl: string | null;
-  webhookFormat: WebhookFormat | null;
-  ntfyTopic: string | null;
-  ntfyAuthToken: string | null;
-  pushoverApiToken: string | null;
-  pushoverUserKey: string | null;
   // Poller settings
   pollerEnabled: boolean;
   pollerIntervalMs: number;
@@ -869,6 +1269,34 @@ export interface Settings {
   mobileEnabled: boolean;
   // Authentication settings
   primaryAuthMethod: 'jellyfin' | 'local';
+  // OpenID Connect single sign-on (client secret is masked like the Tautulli key)
+  oidcEnabled: boolean;
+  oidcDiscoveryUrl: string | null;
+  oidcClientId: string | null;
+  oidcClientSecret: string | null;
+  oidcScopes: string;
+  oidcRoleClaim: string;
+  oidcRoleMapping: OidcRoleMapping[];
+  // Role for auto-provisioned users whose claims match no mapping (null refuses them)
+  oidcDefaultRole: OidcRole | null;
+  oidcAutoProvision: boolean;
+  // Whether SSO may sign in as the owner account (off by default)
+  oidcLinkOwner: boolean;
+  // Trust score recovery: +points per clean interval, up to the cap; users below the floor are left alone
+  trustRecoveryEnabled: boolean;
+  trustRecoveryPoints: number;
+  trustRecoveryIntervalDays: number;
+  trustRecoveryFloor: number;
+  trustRecoveryCap: number;
+}
+
+// OpenID Connect roles (must match OIDC_ROLES in constants.ts)
+export type OidcRole = 'admin' | 'moderator' | 'viewer';
+
+// Maps one value of the configured role claim (e.g. a group name) to a role
+export interface OidcRoleMapping {
+  value: string;
+  role: OidcRole;
 }
 
 // Heavy operations lock info (for "Waiting for X" display)
@@ -957,6 +1385,121 @@ export interface JellystatImportResult {
   }[];
 }
 
+// Media server history import types (Plex watch history, Jellyfin Playback Reporting)
+export interface HistoryImportProgress {
+  status: 'idle' | 'waiting' | 'fetching' | 'parsing' | 'processing' | 'complete' | 'error';
+  totalRecords: number;
+  processedRecords: number;
+  importedRecords: number;
+  skippedRecords: number;
+  errorRecords: number;
+  /** Current phase message */
+  message: string;
+  /** Present when status='waiting' - what this job is waiting for */
+  waitingFor?: HeavyOpsWaitingFor;
+}
+
+export interface HistoryImportResult {
+  success: boolean;
+  imported: number;
+  skipped: number;
+  errors: number;
+  message: string;
+  /** Details about users that were skipped (not found in Tracearr) */
+  skippedUsers?: {
+    externalUserId: string;
+    username: string | null;
+    recordCount: number;
+  }[];
+}
+
+// Generic CSV/JSON history import types
+export interface FileImportPreview {
+  format: 'csv' | 'json';
+  /** Column names in file order (nested JSON keys are dotted, e.g. "user.name") */
+  columns: string[];
+  totalRows: number;
+  /** First rows of the file keyed by column */
+  sampleRows: Record<string, string>[];
+  /** Mapping guessed from the column names */
+  suggestedMapping: FileImportMapping;
+}
+
+/** A row as it will be imported */
+export interface FileImportSessionPreview {
+  user: string;
+  title: string;
+  mediaType: 'movie' | 'episode' | 'track' | 'live';
+  showTitle: string | null;
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+  startedAt: string;
+  stoppedAt: string | null;
+  durationMs: number | null;
+  ipAddress: string | null;
+  player: string | null;
+  device: string | null;
+  platform: string | null;
+}
+
+export interface FileImportRowValidation {
+  /** 1-based data row number (header excluded) */
+  rowNumber: number;
+  errors: string[];
+  /** Null when the row has errors */
+  session: FileImportSessionPreview | null;
+}
+
+// Backup & restore types
+export type BackupConflictStrategy = 'skip' | 'overwrite';
+
+/** First entry of a backup archive (manifest.json) */
+export interface BackupManifest {
+  format: 'tracearr-backup';
+  /** Archive layout version - restore rejects archives newer than it understands */
+  version: number;
+  createdAt: string;
+  appVersion: string;
+  /** Tables in archive order */
+  tables: string[];
+}
+
+export interface BackupTableRestoreStats {
+  /** Rows inserted (or updated with the overwrite strategy) */
+  restored: number;
+  /** Servers, identities and server users matched to existing rows instead of inserted */
+  matched: number;
+  /** Rows left alone: conflicts with the skip strategy, or missing server/user/rule */
+  skipped: number;
+  errors: number;
+}
+
+export interface BackupRestoreProgress {
+  status: 'idle' | 'waiting' | 'processing' | 'complete' | 'error';
+  /** Table currently being restored */
+  currentTable?: string;
+  /** Compressed archive bytes read so far */
+  processedBytes: number;
+  totalBytes: number;
+  restoredRecords: number;
+  skippedRecords: number;
+  errorRecords: number;
+  message: string;
+  /** Present when status='waiting' - what this job is waiting for */
+  waitingFor?: HeavyOpsWaitingFor;
+}
+
+export interface BackupRestoreResult {
+  success: boolean;
+  restored: number;
+  skipped: number;
+  errors: number;
+  message: string;
+  tables: Record<string, BackupTableRestoreStats>;
+  /** Archived servers with no matching server here - their data was skipped */
+  unmatchedServers: { name: string; type: string; url: string }[];
+}
+
 // Library sync progress types
 export interface LibrarySyncProgress {
   serverId: string;
@@ -983,6 +1526,10 @@ export interface ServerToClientEvents {
   'stats:updated': (stats: DashboardStats) => void;
   'import:progress': (progress: TautulliImportProgress) => void;
   'import:jellystat:progress': (progress: JellystatImportProgress) => void;
+  'import:plex-history:progress': (progress: HistoryImportProgress) => void;
+  'import:playback-reporting:progress': (progress: HistoryImportProgress) => void;
+  'import:file:progress': (progress: HistoryImportProgress) => void;
+  'backup:restore:progress': (progress: BackupRestoreProgress) => void;
   'maintenance:progress': (progress: MaintenanceJobProgress) => void;
   'library:sync:progress': (progress: LibrarySyncProgress) => void;
   'tasks:updated': (tasks: RunningTask[]) => void;
@@ -1095,7 +1642,7 @@ export interface UserFilterOption {
 export interface ServerFilterOption {
   id: string;
   name: string;
-  type: 'plex' | 'jellyfin' | 'emby';
+  type: ServerType;
 }
 
 /**
@@ -1199,7 +1746,7 @@ export interface MobilePairResponse {
   server: {
     id: string;
     name: string;
-    type: 'plex' | 'jellyfin' | 'emby';
+    type: ServerType;
   };
   user: {
     userId: string;
@@ -1280,18 +1827,264 @@ export interface NotificationPreferencesWithStatus extends NotificationPreferenc
 // Notification channel types
 export type NotificationChannel = 'discord' | 'webhook' | 'push' | 'webToast';
 
-// Notification channel routing configuration (per-event type)
+// Notification routing configuration (per-event type)
 export interface NotificationChannelRouting {
   id: string;
   eventType: NotificationEventType;
-  discordEnabled: boolean;
-  webhookEnabled: boolean;
   pushEnabled: boolean;
   webToastEnabled: boolean;
+  destinationIds: string[]; // Destinations subscribed to this event
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Kind of external notification destination (each type is sent by one agent)
+export type NotificationDestinationType =
+  | 'discord'
+  | 'json'
+  | 'ntfy'
+  | 'apprise'
+  | 'pushover'
+  | 'gotify'
+  | 'email'
+  | 'telegram'
+  | 'matrix';
+
+// Connection settings of a destination; which keys apply depends on the destination type
+export interface NotificationDestinationConfig {
+  discordWebhookUrl?: string | null;
+  customWebhookUrl?: string | null; // JSON, ntfy, Apprise and Gotify endpoint
+  webhookSecret?: string | null; // HMAC-SHA256 signing secret for JSON webhooks
+  ntfyTopic?: string | null;
+  ntfyAuthToken?: string | null;
+  pushoverUserKey?: string | null;
+  pushoverApiToken?: string | null;
+  smtpHost?: string | null;
+  smtpPort?: number | null;
+  smtpSecurity?: SmtpSecurity | null;
+  smtpUsername?: string | null;
+  smtpPassword?: string | null;
+  smtpFrom?: string | null;
+  smtpTo?: string | null;
+  telegramBotToken?: string | null;
+  telegramChatId?: string | null;
+  matrixHomeserverUrl?: string | null;
+  matrixAccessToken?: string | null;
+  matrixRoomId?: string | null;
+}
+
+// Named notification destination with its own event subscriptions and filters
+export interface NotificationDestination {
+  id: string;
+  name: string;
+  type: NotificationDestinationType;
+  config: NotificationDestinationConfig; // Secrets are masked in API responses
+  enabled: boolean;
+  events: NotificationEventType[];
+  minSeverity: ViolationSeverity; // Events below this severity are not sent
+  serverIds: string[]; // Empty = all servers
+  digestFrequency: DigestFrequency; // Scheduled usage digest ('off' = none)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// How often a destination receives the usage digest
+export type DigestFrequency = 'off' | 'weekly' | 'monthly';
+
+// Usage digest period (weekly digests cover Monday-Sunday, monthly the calendar month)
+export type DigestPeriod = Exclude<DigestFrequency, 'off'>;
+
+export interface DigestTopUser {
+  username: string;
+  identityName: string | null;
+  playCount: number;
+  watchTimeHours: number;
+}
+
+export interface DigestTopContent {
+  title: string;
+  year: number | null;
+  playCount: number;
+  watchTimeHours: number;
+}
+
+export interface DigestNewDevice {
+  username: string;
+  deviceName: string;
+  platform: string | null;
+  location: string | null;
+  firstSeenAt: string;
+}
+
+// Usage report for one digest period, assembled from the stats and library queries
+export interface DigestReport {
+  period: DigestPeriod;
+  start: string; // ISO timestamp, inclusive
+  end: string; // ISO timestamp, exclusive
+  serverNames: string[]; // Servers covered by the report
+  totals: {
+    plays: number;
+    watchTimeHours: number;
+    activeUsers: number;
+    // Change in plays against the previous period (null when it had none)
+    playsChangePercent: number | null;
+  };
+  transcode: {
+    directPlay: number;
+    transcode: number;
+    transcodePercent: number;
+  };
+  bandwidth: {
+    totalGb: number;
+    avgBitrateMbps: number;
+    peakBitrateMbps: number;
+  };
+  violations: {
+    total: number;
+    bySeverity: Record<ViolationSeverity, number>;
+    topRules: { name: string; count: number }[];
+  };
+  topUsers: DigestTopUser[];
+  topMovies: DigestTopContent[];
+  topShows: DigestTopContent[];
+  newDevices: DigestNewDevice[];
+  newDeviceCount: number;
+  // Null when library snapshots are unavailable (no TimescaleDB aggregate yet)
+  libraryGrowth: {
+    movies: number;
+    episodes: number;
+    music: number;
+  } | null;
+  generatedAt: string;
+}
+
+// =============================================================================
+// Year in Review Types
+// =============================================================================
+
+export interface YearReviewTopItem {
+  title: string;
+  year: number | null;
+  plays: number;
+  hours: number;
+}
+
+export interface YearReviewPlay {
+  title: string;
+  mediaType: MediaType;
+  at: string;
+}
+
+// Per-server-user summary of one calendar year, stored when generated
+export interface YearReviewStats {
+  year: number;
+  timezone: string; // IANA timezone used for days and hours
+  totalHours: number;
+  totalPlays: number;
+  activeDays: number;
+  topShows: YearReviewTopItem[];
+  topMovies: YearReviewTopItem[];
+  topArtists: YearReviewTopItem[];
+  // Longest run of consecutive days with at least one play
+  longestStreak: { days: number; start: string; end: string } | null;
+  // Most episodes of one show watched in a single day
+  biggestBinge: { show: string; episodes: number; date: string } | null;
+  favoriteHour: number | null; // 0-23
+  favoriteDay: number | null; // 0 = Sunday
+  playsByHour: number[]; // 24 entries
+  playsByDay: number[]; // 7 entries, Sunday first
+  devices: { name: string; platform: string | null; plays: number }[];
+  firstPlay: YearReviewPlay | null;
+  lastPlay: YearReviewPlay | null;
+}
+
+// Admin overview row: one server user and their review for the selected year
+export interface YearReviewUserSummary {
+  serverUserId: string;
+  username: string;
+  identityName: string | null;
+  thumbUrl: string | null;
+  serverId: string;
+  serverName: string;
+  optOut: boolean;
+  review: {
+    totalHours: number;
+    totalPlays: number;
+    generatedAt: string;
+  } | null;
+  // Signed token for the read-only share page (null until generated, or when opted out)
+  shareToken: string | null;
+}
+
+// Read-only review served to anyone holding the share token
+export interface SharedYearReview {
+  username: string;
+  identityName: string | null;
+  serverName: string;
+  stats: YearReviewStats;
+  generatedAt: string;
+}
+
+// Events that support user-defined notification templates
+export type NotificationTemplateEventType = Exclude<NotificationEventType, 'concurrent_streams'>;
+
+// Notification agents that support user-defined templates
+export type NotificationTemplateAgent =
+  | 'discord'
+  | 'ntfy'
+  | 'apprise'
+  | 'pushover'
+  | 'gotify'
+  | 'json-webhook'
+  | 'email'
+  | 'telegram'
+  | 'matrix';
+
+// User-defined notification template (per event type and agent)
+export interface NotificationTemplate {
+  id: string;
+  eventType: NotificationTemplateEventType;
+  agent: NotificationTemplateAgent;
+  title: string;
+  body: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Variable that can be referenced as {{name}} in a notification template
+export interface NotificationTemplateVariable {
+  name: string;
+  description: string;
+}
+
+// Rendered template returned by the preview endpoint
+export interface NotificationTemplatePreview {
+  title: string;
+  body: string;
+}
+
+// Outgoing JSON webhook delivery state
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'retrying' | 'failed';
+
+// Logged JSON webhook delivery (one row per event, updated on every attempt)
+export interface WebhookDelivery {
+  id: string;
+  event: string;
+  url: string;
+  payload: string; // Exact request body that was signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  statusCode: number | null;
+  latencyMs: number | null;
+  responseSnippet: string | null;
+  error: string | null;
+  destinationId: string | null; // Null once the destination is deleted
+  redeliveryOf: string | null; // Original delivery when manually redelivered
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+}
+
 // Encrypted push payload (AES-256-GCM with separate authTag per security best practices)
 export interface EncryptedPushPayload {
   v: 1; // Version for future-proofing
@@ -1530,7 +2323,8 @@ export type MaintenanceJobType =
   | 'backfill_user_dates'
   | 'backfill_library_snapshots'
   | 'cleanup_old_chunks'
-  | 'full_aggregate_rebuild';
+  | 'full_aggregate_rebuild'
+  | 'generate_year_reviews';
 
 export type MaintenanceJobStatus = 'idle' | 'waiting' | 'running' | 'complete' | 'error';
 
@@ -1568,6 +2362,10 @@ export type RunningTaskType =
   | 'library_sync'
   | 'tautulli_import'
   | 'jellystat_import'
+  | 'plex_history_import'
+  | 'playback_reporting_import'
+  | 'file_import'
+  | 'backup_restore'
   | 'maintenance';
 
 export interface RunningTask {
@@ -1909,6 +2707,51 @@ export interface BandwidthSummary {
   totalHours: number;
 }
 
+// Observed or projected daily peak load for capacity forecasting
+export interface CapacityForecastDay {
+  date: string;
+  /** Peak concurrent upstream bandwidth of remote streams in Mbps */
+  peakBandwidthMbps: number;
+  /** Peak concurrent transcodes */
+  peakTranscodes: number;
+}
+
+// Per-server capacity forecast
+export interface CapacityForecastServer {
+  serverId: string;
+  serverName: string;
+  /** Users with at least one session in the lookback window (before the what-if) */
+  activeUsers: number;
+  /** 95th percentile of hourly peak upstream bandwidth in Mbps */
+  p95BandwidthMbps: number;
+  peakBandwidthMbps: number;
+  peakTranscodes: number;
+  /** Hour of day (0-23, in the requested timezone) with the highest average load */
+  peakHour: number | null;
+  history: CapacityForecastDay[];
+  /** Daily projections for the forecast horizon; empty without enough history */
+  forecast: CapacityForecastDay[];
+  /** Values at the end of the forecast horizon */
+  projected: {
+    p95BandwidthMbps: number;
+    peakBandwidthMbps: number;
+    peakTranscodes: number;
+  } | null;
+  confidence: 'high' | 'medium' | 'low' | null;
+}
+
+// Capacity forecast response (GET /stats/bandwidth/forecast)
+export interface CapacityForecastResponse {
+  lookbackDays: number;
+  horizonDays: number;
+  minDataDays: number;
+  scenario: {
+    addUsers: number;
+    capRemote1080p: boolean;
+  };
+  servers: CapacityForecastServer[];
+}
+
 // =============================================================================
 // Library Statistics Types
 // =============================================================================
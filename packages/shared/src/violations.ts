@@ -32,6 +32,14 @@ const CONDITION_FIELD_LABELS: Record<ConditionField, string> = {
   server_id: 'Server',
   library_id: 'Library',
   media_type: 'Media Type',
+  local_hour: 'Local Hour',
+  day_of_week: 'Day of Week',
+  media_title: 'Title',
+  grandparent_title: 'Show / Artist',
+  content_rating: 'Content Rating',
+  genre: 'Genre',
+  year: 'Release Year',
+  media_duration_minutes: 'Media Length',
 };
 
 const OPERATOR_LABELS: Record<string, string> = {
@@ -304,6 +312,12 @@ function formatConditionActual(condition: ConditionEvidence, unitSystem: UnitSys
     case 'inactive_days':
     case 'account_age_days':
       return typeof actual === 'number' ? `${actual} days` : String(actual);
+    case 'media_duration_minutes':
+      return typeof actual === 'number' ? `${actual} min` : String(actual);
+    case 'local_hour':
+      return typeof actual === 'number' ? `${String(actual).padStart(2, '0')}:00` : String(actual);
+    case 'genre':
+      return Array.isArray(actual) ? actual.join(', ') || 'none' : String(actual);
     default:
       return String(actual);
   }